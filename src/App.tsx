@@ -14,6 +14,7 @@ import Contacts from "./pages/Contacts";
 import Leads from "./pages/Leads";
 import Meetings from "./pages/Meetings";
 import DealsPage from "./pages/DealsPage";
+import Forecast from "./pages/Forecast";
 import Settings from "./pages/Settings";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
@@ -139,6 +140,11 @@ const AppRouter = () => (
           <DealsPage />
         </ProtectedRoute>
       } />
+      <Route path="/forecast" element={
+        <ProtectedRoute>
+          <Forecast />
+        </ProtectedRoute>
+      } />
       <Route path="/notifications" element={
         <ProtectedRoute>
           <Notifications />
@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Loader2 } from "lucide-react";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { mergeCustomFieldColumns } from "@/types/customField";
 
 export interface AccountColumnConfig {
   field: string;
@@ -44,6 +46,7 @@ export const AccountColumnCustomizer = ({
   isSaving = false,
 }: AccountColumnCustomizerProps) => {
   const [localColumns, setLocalColumns] = useState<AccountColumnConfig[]>(columns);
+  const { visibleFields: customFields } = useCustomFields('account');
 
   // Sync local columns when props change
   useEffect(() => {
@@ -66,7 +69,7 @@ export const AccountColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultAccountColumns);
+    setLocalColumns(mergeCustomFieldColumns(defaultAccountColumns, customFields));
   };
 
   return (
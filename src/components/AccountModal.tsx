@@ -15,6 +15,9 @@ import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { X, ChevronDown } from "lucide-react";
 import { Account } from "./AccountTable";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldValues, getCustomFieldValues, validateCustomFieldValues } from "@/types/customField";
 
 const accountSchema = z.object({
   company_name: z.string()
@@ -69,6 +72,9 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
   const [loading, setLoading] = useState(false);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [availableCountries, setAvailableCountries] = useState<string[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const { visibleFields: customFields } = useCustomFields('account');
 
   const form = useForm<AccountFormData>({
     resolver: zodResolver(accountSchema),
@@ -111,6 +117,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
         phone: account.phone || "",
       });
       setSelectedTags(account.tags || []);
+      setCustomFieldValues(getCustomFieldValues(account));
       if (account.region && regionCountries[account.region]) {
         setAvailableCountries(regionCountries[account.region]);
       }
@@ -128,7 +135,9 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
         phone: "",
       });
       setSelectedTags([]);
+      setCustomFieldValues({});
     }
+    setCustomFieldErrors({});
   }, [account, form]);
 
   const toggleTag = (tag: string) => {
@@ -138,6 +147,10 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
   };
 
   const onSubmit = async (data: AccountFormData) => {
+    const fieldErrors = validateCustomFieldValues(customFields, customFieldValues);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -163,6 +176,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
         notes: data.notes || null,
         industry: data.industry || null,
         phone: data.phone || null,
+        custom_fields: customFieldValues,
         account_owner: user.data.user.id,
         modified_by: user.data.user.id,
       };
@@ -470,6 +484,13 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
               </Popover>
             </div>
 
+            <CustomFieldsSection
+              entityType="account"
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+              errors={customFieldErrors}
+            />
+
             <FormField
               control={form.control}
               name="notes"
@@ -8,12 +8,11 @@ import { useColumnPreferences } from "@/hooks/useColumnPreferences";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, X, Eye } from "lucide-react";
+import { ArrowUpDown, ArrowUp, ArrowDown, X, Eye } from "lucide-react";
 import { RowActionsDropdown, Edit, Trash2, Mail } from "./RowActionsDropdown";
 import { AccountModal } from "./AccountModal";
 import { AccountColumnCustomizer, AccountColumnConfig, defaultAccountColumns } from "./AccountColumnCustomizer";
@@ -23,6 +22,29 @@ import { SendEmailModal, EmailRecipient } from "./SendEmailModal";
 import { AccountDetailModal } from "./accounts/AccountDetailModal";
 import { AccountScoreBadge, AccountSegmentBadge } from "./accounts/AccountScoreBadge";
 import { useQuery } from "@tanstack/react-query";
+import { Json } from "@/integrations/supabase/types";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldCell } from "./shared/CustomFieldCell";
+import { CustomFieldsFilter, CustomFieldFilters } from "./shared/CustomFieldsFilter";
+import { TablePagination } from "./shared/TablePagination";
+import { AdvancedSearchBar, SearchGroup } from "./shared/AdvancedSearchBar";
+import { SelectAllMatchingBanner } from "./shared/SelectAllMatchingBanner";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import {
+  TableQueryState,
+  arrayContains,
+  compileCustomFieldFilters,
+  compileSearchGroups,
+  eq,
+  searchText,
+  toSortColumn,
+} from "@/utils/tableQuery";
+import {
+  CustomFieldValue,
+  getCustomFieldName,
+  getCustomFieldValues,
+  mergeCustomFieldColumns,
+} from "@/types/customField";
 export interface Account {
   id: string;
   company_name: string;
@@ -43,7 +65,20 @@ export interface Account {
   modified_by?: string;
   score?: number;
   segment?: string;
+  custom_fields?: Json;
 }
+const ACCOUNT_SEARCH_FIELDS = [
+  { value: 'company_name', label: 'Company' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'country', label: 'Country' },
+  { value: 'region', label: 'Region' },
+  { value: 'company_type', label: 'Type' },
+  { value: 'status', label: 'Status' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'website', label: 'Website' },
+  { value: 'score', label: 'Score', type: 'number' as const },
+];
 interface AccountTableProps {
   showColumnCustomizer: boolean;
   setShowColumnCustomizer: (show: boolean) => void;
@@ -71,10 +106,8 @@ const AccountTable = ({
     logDelete
   } = useCRUDAudit();
   const [searchParams] = useSearchParams();
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [filteredAccounts, setFilteredAccounts] = useState<Account[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
   const [statusFilter, setStatusFilter] = useState(initialStatus);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   
@@ -84,11 +117,13 @@ const AccountTable = ({
     defaultColumns: defaultAccountColumns,
   });
   const [localColumns, setLocalColumns] = useState<AccountColumnConfig[]>(columns);
+  const { visibleFields: customFields, getFieldByColumn } = useCustomFields('account');
+  const [customFieldFilters, setCustomFieldFilters] = useState<CustomFieldFilters>({});
   
-  // Sync local columns when saved columns change
+  // Sync local columns when saved columns or custom field definitions change
   useEffect(() => {
-    setLocalColumns(columns);
-  }, [columns]);
+    setLocalColumns(mergeCustomFieldColumns(columns, customFields));
+  }, [columns, customFields]);
 
   // Get owner parameter from URL - "me" means filter by current user
   const ownerParam = searchParams.get('owner');
@@ -143,31 +178,40 @@ const AccountTable = ({
       return data || [];
     },
   });
+  const queryState = useMemo<TableQueryState>(() => ({
+    filters: [
+      searchText(searchTerm, ['company_name', 'industry', 'country']),
+      compileSearchGroups(searchGroups, ACCOUNT_SEARCH_FIELDS),
+      statusFilter !== "all" ? eq('status', statusFilter) : null,
+      ownerFilter !== "all" ? eq('created_by', ownerFilter) : null,
+      tagFilter ? arrayContains('tags', [tagFilter]) : null,
+      ...compileCustomFieldFilters(customFields, customFieldFilters),
+    ],
+    // Newest accounts first until a column is sorted
+    sort: sortField ? { field: sortField, direction: sortDirection } : { field: 'created_at', direction: 'desc' },
+    page: currentPage,
+    pageSize: itemsPerPage,
+  }), [searchTerm, searchGroups, statusFilter, ownerFilter, tagFilter, customFields, customFieldFilters, sortField, sortDirection, currentPage, itemsPerPage]);
+  const {
+    rows: pageAccounts,
+    totalCount,
+    totalPages,
+    loading,
+    refetch: fetchAccounts,
+    fetchAllIds,
+  } = usePaginatedQuery<Account>({
+    table: 'accounts',
+    state: queryState,
+    sortColumn: sortField ? toSortColumn(sortField, getFieldByColumn(sortField)) : undefined,
+  });
   useEffect(() => {
-    fetchAccounts();
-  }, []);
+    setCurrentPage(1);
+  }, [searchTerm, searchGroups, statusFilter, ownerFilter, tagFilter, customFieldFilters, sortField, sortDirection]);
   useEffect(() => {
-    let filtered = accounts.filter(account => account.company_name?.toLowerCase().includes(searchTerm.toLowerCase()) || account.industry?.toLowerCase().includes(searchTerm.toLowerCase()) || account.country?.toLowerCase().includes(searchTerm.toLowerCase()));
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(account => account.status === statusFilter);
-    }
-    if (ownerFilter !== "all") {
-      filtered = filtered.filter(account => account.created_by === ownerFilter);
-    }
-    if (tagFilter) {
-      filtered = filtered.filter(account => account.tags?.includes(tagFilter));
-    }
-    if (sortField) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Account] || '';
-        const bValue = b[sortField as keyof Account] || '';
-        const comparison = aValue.toString().localeCompare(bValue.toString());
-        return sortDirection === 'asc' ? comparison : -comparison;
-      });
+    if (!loading && currentPage > totalPages) {
+      setCurrentPage(totalPages);
     }
-    setFilteredAccounts(filtered);
-    setCurrentPage(1);
-  }, [accounts, searchTerm, statusFilter, ownerFilter, tagFilter, sortField, sortDirection]);
+  }, [loading, currentPage, totalPages]);
   const handleSort = (field: string) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -182,26 +226,18 @@ const AccountTable = ({
     }
     return sortDirection === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />;
   };
-  const fetchAccounts = async () => {
-    try {
-      setLoading(true);
-      const {
-        data,
-        error
-      } = await supabase.from('accounts').select('*').order('created_at', {
-        ascending: false
-      });
-      if (error) throw error;
-      setAccounts(data || []);
-    } catch (error) {
+  const handleCustomFieldSave = async (account: Account, fieldName: string, value: CustomFieldValue) => {
+    const customFieldValues = { ...getCustomFieldValues(account), [fieldName]: value };
+    const { error } = await supabase.from('accounts').update({ custom_fields: customFieldValues }).eq('id', account.id);
+    if (error) {
       toast({
         title: "Error",
-        description: "Failed to fetch accounts",
+        description: "Failed to update account",
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
+      throw error;
     }
+    fetchAccounts();
   };
   const handleDelete = async () => {
     if (!accountToDelete?.id) return;
@@ -242,12 +278,25 @@ const AccountTable = ({
       });
     }
   };
+  // Selection is kept across pages, so the header checkbox only toggles the rows on screen
   const handleSelectAll = (checked: boolean) => {
+    const pageIds = pageAccounts.map(a => a.id);
     if (checked) {
-      const pageAccounts = getCurrentPageAccounts().slice(0, 50);
-      setSelectedAccounts(pageAccounts.map(a => a.id));
+      setSelectedAccounts(prev => [...new Set([...prev, ...pageIds])]);
     } else {
-      setSelectedAccounts([]);
+      setSelectedAccounts(prev => prev.filter(id => !pageIds.includes(id)));
+    }
+  };
+  const handleSelectAllMatching = async () => {
+    try {
+      setSelectedAccounts(await fetchAllIds());
+    } catch (error) {
+      console.error('Failed to select all accounts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to select all matching accounts",
+        variant: "destructive"
+      });
     }
   };
   const handleSelectAccount = (accountId: string, checked: boolean) => {
@@ -257,19 +306,15 @@ const AccountTable = ({
       setSelectedAccounts(prev => prev.filter(id => id !== accountId));
     }
   };
-  const getCurrentPageAccounts = () => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return filteredAccounts.slice(startIndex, startIndex + itemsPerPage);
-  };
-  const totalPages = Math.ceil(filteredAccounts.length / itemsPerPage);
   const createdByIds = useMemo(() => {
-    return [...new Set(accounts.map(a => a.created_by).filter(Boolean))];
-  }, [accounts]);
+    return [...new Set(pageAccounts.map(a => a.created_by).filter(Boolean))];
+  }, [pageAccounts]);
   const {
     displayNames
   } = useUserDisplayNames(createdByIds);
   const visibleColumns = localColumns.filter(col => col.visible);
-  const pageAccounts = getCurrentPageAccounts();
+  const selectedAccountIds = new Set(selectedAccounts);
+  const allPageAccountsSelected = pageAccounts.length > 0 && pageAccounts.every(a => selectedAccountIds.has(a.id));
   const getStatusBadgeVariant = (status?: string) => {
     switch (status) {
       case 'Hot':
@@ -290,9 +335,8 @@ const AccountTable = ({
       {/* Header and Actions */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
-          <div className="relative w-64">
-            <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4 pointer-events-none" />
-            <Input placeholder="Search accounts..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="pl-9" inputSize="control" />
+          <div className="w-80">
+            <AdvancedSearchBar fields={ACCOUNT_SEARCH_FIELDS} onSearch={setSearchGroups} placeholder="Search accounts..." simpleSearch={searchTerm} onSimpleSearchChange={setSearchTerm} />
           </div>
           <AccountStatusFilter value={statusFilter} onValueChange={setStatusFilter} />
           <Select value={ownerFilter} onValueChange={setOwnerFilter}>
@@ -308,6 +352,7 @@ const AccountTable = ({
               ))}
             </SelectContent>
           </Select>
+          <CustomFieldsFilter fields={customFields} value={customFieldFilters} onChange={setCustomFieldFilters} />
           {tagFilter && <div className="flex items-center gap-2">
               <Badge variant="secondary" className="flex items-center gap-1">
                 Tag: {tagFilter}
@@ -321,13 +366,14 @@ const AccountTable = ({
 
       {/* Table */}
       <Card>
+        <SelectAllMatchingBanner selectedCount={selectedAccounts.length} pageCount={pageAccounts.length} totalCount={totalCount} allPageRowsSelected={allPageAccountsSelected} onSelectAll={handleSelectAllMatching} onClearSelection={() => setSelectedAccounts([])} entityName="accounts" />
         <div className="overflow-auto">
           <Table>
             <TableHeader className="sticky top-0 z-10">
               <TableRow className="bg-muted/50 hover:bg-muted/60 border-b-2">
                 <TableHead className="w-12 text-center font-bold text-foreground bg-muted/50">
                   <div className="flex justify-center">
-                    <Checkbox checked={selectedAccounts.length > 0 && selectedAccounts.length === Math.min(pageAccounts.length, 50)} onCheckedChange={handleSelectAll} />
+                    <Checkbox checked={allPageAccountsSelected} onCheckedChange={handleSelectAll} />
                   </div>
                 </TableHead>
                 {visibleColumns.map(column => <TableHead key={column.field} className="text-left font-bold text-foreground bg-muted/50 px-4 py-3 whitespace-nowrap">
@@ -394,7 +440,7 @@ const AccountTable = ({
                             {account.website.replace(/^https?:\/\//, '')}
                           </span>
                           
-                        </a> : <span className="truncate block" title={account[column.field as keyof Account]?.toString() || '-'}>
+                        </a> : getFieldByColumn(column.field) ? <CustomFieldCell field={getFieldByColumn(column.field)!} value={getCustomFieldValues(account)[getCustomFieldName(column.field)]} onSave={value => handleCustomFieldSave(account, getCustomFieldName(column.field), value)} /> : <span className="truncate block" title={account[column.field as keyof Account]?.toString() || '-'}>
                           {account[column.field as keyof Account]?.toString() || '-'}
                         </span>}
                     </TableCell>)}
@@ -442,26 +488,7 @@ const AccountTable = ({
         </div>
       </Card>
 
-      {totalPages > 1 && <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">
-              Showing {(currentPage - 1) * itemsPerPage + 1} to {Math.min(currentPage * itemsPerPage, filteredAccounts.length)} of {filteredAccounts.length} accounts
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Button variant="outline" size="sm" onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))} disabled={currentPage === 1}>
-              <ChevronLeft className="w-4 h-4" />
-              Previous
-            </Button>
-            <span className="text-sm">
-              Page {currentPage} of {totalPages}
-            </span>
-            <Button variant="outline" size="sm" onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))} disabled={currentPage === totalPages}>
-              Next
-              <ChevronRight className="w-4 h-4" />
-            </Button>
-          </div>
-        </div>}
+      {totalPages > 1 && <TablePagination currentPage={currentPage} totalPages={totalPages} itemsPerPage={itemsPerPage} totalItems={totalCount} onPageChange={setCurrentPage} entityName="accounts" />}
 
       {/* Modals */}
       <AccountModal open={showModal} onOpenChange={open => {
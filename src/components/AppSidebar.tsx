@@ -11,7 +11,8 @@ import {
   Sun,
   Moon,
   Building2,
-  CheckSquare
+  CheckSquare,
+  TrendingUp
 } from "lucide-react";
 import { NavLink, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
@@ -43,6 +44,7 @@ const allMenuItems = [
   { title: "Leads", url: "/leads", route: "/leads", icon: UserPlus },
   { title: "Meetings", url: "/meetings", route: "/meetings", icon: Video },
   { title: "Deals", url: "/deals", route: "/deals", icon: BarChart3 },
+  { title: "Forecast", url: "/forecast", route: "/forecast", icon: TrendingUp },
   { title: "Tasks", url: "/tasks", route: "/tasks", icon: CheckSquare },
   { title: "Settings", url: "/settings", route: "/settings", icon: Settings },
 ];
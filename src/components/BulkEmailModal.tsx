@@ -6,11 +6,12 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Mail, Send, Loader2, Users, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { RichTextEditor } from "@/components/shared/RichTextEditor";
+import { escapeHtml, toEmailHtml } from "@/utils/emailHtml";
 
 export interface BulkEmailRecipient {
   id: string;
@@ -24,6 +25,7 @@ interface EmailTemplate {
   name: string;
   subject: string;
   body: string;
+  is_html: boolean;
 }
 
 interface BulkEmailModalProps {
@@ -63,7 +65,7 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
     try {
       const { data, error } = await supabase
         .from('email_templates')
-        .select('id, name, subject, body')
+        .select('id, name, subject, body, is_html')
         .order('name');
 
       if (error) throw error;
@@ -85,14 +87,16 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
     const template = templates.find(t => t.id === templateId);
     if (template) {
       setSubject(template.subject);
-      setBody(template.body);
+      setBody(toEmailHtml(template.body, template.is_html));
     }
   };
 
-  const replaceVariables = (text: string, recipient: BulkEmailRecipient) => {
+  // Values going into the HTML body are escaped so names cannot inject markup
+  const replaceVariables = (text: string, recipient: BulkEmailRecipient, html = false) => {
+    const name = html ? escapeHtml(recipient.name || '') : recipient.name || '';
     return text
-      .replace(/\{\{contact_name\}\}/g, recipient.name || '')
-      .replace(/\{\{name\}\}/g, recipient.name || '');
+      .replace(/\{\{contact_name\}\}/g, name)
+      .replace(/\{\{name\}\}/g, name);
   };
 
   const handleSendBulkEmail = async () => {
@@ -123,7 +127,25 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
     for (const recipient of validRecipients) {
       try {
         const personalizedSubject = replaceVariables(subject.trim(), recipient);
-        const personalizedBody = replaceVariables(body.trim(), recipient);
+        const personalizedBody = replaceVariables(body, recipient, true);
+
+        // The history entry is created first so its id can be used to track link clicks
+        const { data: historyEntry } = await supabase
+          .from('email_history')
+          .insert({
+            recipient_email: recipient.email!,
+            recipient_name: recipient.name,
+            subject: personalizedSubject,
+            body: personalizedBody,
+            is_html: true,
+            sender_email: senderEmail,
+            sent_by: user?.id,
+            lead_id: recipient.type === 'lead' ? recipient.id : null,
+            contact_id: recipient.type === 'contact' ? recipient.id : null,
+            status: 'sent',
+          })
+          .select('id')
+          .single();
 
         const { data, error } = await supabase.functions.invoke('send-email', {
           body: {
@@ -131,24 +153,19 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
             toName: recipient.name,
             subject: personalizedSubject,
             body: personalizedBody,
+            isHtml: true,
+            trackingId: historyEntry?.id,
             from: senderEmail,
           },
         });
 
-        if (error) throw error;
-
-        // Log email to history
-        await supabase.from('email_history').insert({
-          recipient_email: recipient.email!,
-          recipient_name: recipient.name,
-          subject: personalizedSubject,
-          body: personalizedBody,
-          sender_email: senderEmail,
-          sent_by: user?.id,
-          lead_id: recipient.type === 'lead' ? recipient.id : null,
-          contact_id: recipient.type === 'contact' ? recipient.id : null,
-          status: 'sent',
-        });
+        if (error || data?.error) {
+          // Emails that were never sent are not kept in the history
+          if (historyEntry) {
+            await supabase.from('email_history').delete().eq('id', historyEntry.id);
+          }
+          throw error || new Error(data.error);
+        }
 
         successCount++;
       } catch (error) {
@@ -244,12 +261,11 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
 
           <div className="space-y-2">
             <Label htmlFor="body">Message</Label>
-            <Textarea
+            <RichTextEditor
               id="body"
               value={body}
-              onChange={(e) => setBody(e.target.value)}
+              onChange={setBody}
               placeholder="Email message..."
-              rows={6}
             />
           </div>
 
@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Loader2 } from "lucide-react";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { mergeCustomFieldColumns } from "@/types/customField";
 
 export interface ContactColumnConfig {
   field: string;
@@ -42,6 +44,7 @@ export const ContactColumnCustomizer = ({
   isSaving = false,
 }: ContactColumnCustomizerProps) => {
   const [localColumns, setLocalColumns] = useState<ContactColumnConfig[]>(columns);
+  const { visibleFields: customFields } = useCustomFields('contact');
 
   // Sync local columns when props change
   useEffect(() => {
@@ -64,7 +67,7 @@ export const ContactColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultContactColumns);
+    setLocalColumns(mergeCustomFieldColumns(defaultContactColumns, customFields));
   };
 
   return (
@@ -14,6 +14,10 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { X, ChevronDown } from "lucide-react";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { Json } from "@/integrations/supabase/types";
+import { CustomFieldValues, getCustomFieldValues, validateCustomFieldValues } from "@/types/customField";
 
 const contactSchema = z.object({
   contact_name: z.string()
@@ -46,6 +50,7 @@ interface Contact {
   region?: string;
   description?: string;
   tags?: string[];
+  custom_fields?: Json;
 }
 
 interface Account {
@@ -83,6 +88,9 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const { visibleFields: customFields } = useCustomFields('contact');
 
   const toggleTag = (tag: string) => {
     setSelectedTags(prev => 
@@ -135,6 +143,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         description: contact.description || "",
       });
       setSelectedTags(contact.tags || []);
+      setCustomFieldValues(getCustomFieldValues(contact));
     } else {
       form.reset({
         contact_name: "",
@@ -147,10 +156,16 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         description: "",
       });
       setSelectedTags([]);
+      setCustomFieldValues({});
     }
+    setCustomFieldErrors({});
   }, [contact, form]);
 
   const onSubmit = async (data: ContactFormData) => {
+    const fieldErrors = validateCustomFieldValues(customFields, customFieldValues);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -178,6 +193,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         contact_source: data.contact_source || null,
         description: data.description || null,
         tags: selectedTags,
+        custom_fields: customFieldValues,
         created_by: user.data.user.id,
         modified_by: user.data.user.id,
         contact_owner: user.data.user.id,
@@ -434,6 +450,13 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
               </Popover>
             </div>
 
+            <CustomFieldsSection
+              entityType="contact"
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+              errors={customFieldErrors}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
@@ -10,6 +10,26 @@ import { ContactTablePagination } from "./contact-table/ContactTablePagination";
 import { ContactModal } from "./ContactModal";
 import { ContactColumnCustomizer, ContactColumnConfig } from "./ContactColumnCustomizer";
 import { ContactDetailModal } from "./contacts/ContactDetailModal";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldFilters } from "./shared/CustomFieldsFilter";
+import { SearchGroup } from "./shared/AdvancedSearchBar";
+import { SelectAllMatchingBanner } from "./shared/SelectAllMatchingBanner";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import {
+  TableQueryState,
+  compileCustomFieldFilters,
+  compileSearchGroups,
+  eq,
+  eqIgnoreCase,
+  searchText,
+  toSortColumn,
+} from "@/utils/tableQuery";
+import {
+  CustomFieldValue,
+  getCustomFieldValues,
+  mergeCustomFieldColumns,
+} from "@/types/customField";
+import { Json } from "@/integrations/supabase/types";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 interface Contact {
@@ -44,8 +64,30 @@ interface Contact {
   email_opens?: number;
   email_clicks?: number;
   engagement_score?: number;
+  custom_fields?: Json;
 }
 
+// Contacts are read with the name of their linked account
+type ContactRow = Contact & { accounts?: { company_name?: string } | null };
+
+const CONTACT_SELECT = '*, accounts:account_id (company_name)';
+
+const CONTACT_SEARCH_FIELDS = [
+  { value: 'contact_name', label: 'Contact Name' },
+  { value: 'company_name', label: 'Company' },
+  { value: 'position', label: 'Position' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone_no', label: 'Phone' },
+  { value: 'contact_source', label: 'Source' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'region', label: 'Region' },
+  { value: 'segment', label: 'Segment' },
+  { value: 'score', label: 'Score', type: 'number' as const },
+];
+
+// Account names are embedded from accounts, so that column sorts on the contact's own company name
+const getContactSortColumn = (field: string) => field === 'account_company_name' ? 'company_name' : field;
+
 const defaultColumns: ContactColumnConfig[] = [
   { field: 'contact_name', label: 'Contact Name', visible: true, order: 0 },
   { field: 'account_company_name', label: 'Company Account', visible: true, order: 1 },
@@ -77,16 +119,16 @@ export const ContactTable = ({
 }: ContactTableProps) => {
   const { toast } = useToast();
   const { logDelete } = useCRUDAudit();
-  const [contacts, setContacts] = useState<Contact[]>([]);
-  const [filteredContacts, setFilteredContacts] = useState<Contact[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
   const [editingContact, setEditingContact] = useState<Contact | null>(null);
   const [viewingContact, setViewingContact] = useState<Contact | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [contactToDelete, setContactToDelete] = useState<string | null>(null);
   const [columns, setColumns] = useState(defaultColumns);
+  const { visibleFields: customFields, getFieldByColumn } = useCustomFields('contact');
+  const [customFieldFilters, setCustomFieldFilters] = useState<CustomFieldFilters>({});
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(25); // Default 25 contacts per page
   const [sortField, setSortField] = useState<string | null>(null);
@@ -134,108 +176,58 @@ export const ContactTable = ({
     }
   }, [ownerParam, currentUserId]);
 
-  console.log('ContactTable: Rendering with contacts count:', contacts.length);
-
-  const fetchContacts = async () => {
-    try {
-      console.log('ContactTable: Starting to fetch contacts...');
-      setLoading(true);
-      
-      const { data, error } = await supabase
-        .from('contacts')
-        .select(`
-          *,
-          accounts:account_id (
-            company_name
-          )
-        `)
-        .order('created_time', { ascending: false });
-      
-      // Transform data to include account_company_name
-      const transformedData = (data || []).map(contact => ({
-        ...contact,
-        account_company_name: contact.accounts?.company_name || contact.company_name || null
-      }));
-
-      if (error) {
-        console.error('ContactTable: Supabase error:', error);
-        throw error;
-      }
-      
-      console.log('ContactTable: Successfully fetched contacts:', transformedData?.length || 0);
-      setContacts(transformedData || []);
-      
-    } catch (error) {
-      console.error('ContactTable: Error fetching contacts:', error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch contacts. Please refresh the page.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-      console.log('ContactTable: Finished fetching contacts');
-    }
-  };
-
-  // Initial load
-  useEffect(() => {
-    console.log('ContactTable: Initial mount, fetching contacts');
-    fetchContacts();
-  }, []);
+  const queryState = useMemo<TableQueryState>(() => ({
+    filters: [
+      searchText(searchTerm, ['contact_name', 'company_name', 'email']),
+      compileSearchGroups(searchGroups, CONTACT_SEARCH_FIELDS),
+      sourceFilter && sourceFilter !== "all" ? eqIgnoreCase('contact_source', sourceFilter) : null,
+      ownerFilter && ownerFilter !== "all" ? eq('created_by', ownerFilter) : null,
+      ...compileCustomFieldFilters(customFields, customFieldFilters),
+    ],
+    // Newest contacts first until a column is sorted
+    sort: sortField ? { field: sortField, direction: sortDirection } : { field: 'created_time', direction: 'desc' },
+    page: currentPage,
+    pageSize: itemsPerPage,
+  }), [searchTerm, searchGroups, sourceFilter, ownerFilter, customFields, customFieldFilters, sortField, sortDirection, currentPage, itemsPerPage]);
+  const {
+    rows: contactRows,
+    totalCount,
+    totalPages,
+    loading,
+    refetch: fetchContacts,
+    fetchAllIds,
+  } = usePaginatedQuery<ContactRow>({
+    table: 'contacts',
+    state: queryState,
+    sortColumn: sortField ? toSortColumn(getContactSortColumn(sortField), getFieldByColumn(sortField)) : undefined,
+    select: CONTACT_SELECT,
+  });
+  const pageContacts = useMemo<Contact[]>(() => contactRows.map(({ accounts, ...contact }) => ({
+    ...contact,
+    account_company_name: accounts?.company_name || contact.company_name || undefined
+  })), [contactRows]);
 
   // Handle refresh trigger
   useEffect(() => {
     if (refreshTrigger && refreshTrigger > 0) {
-      console.log('ContactTable: Refresh triggered:', refreshTrigger);
       fetchContacts();
     }
-  }, [refreshTrigger]);
+  }, [refreshTrigger, fetchContacts]);
 
-  // Filter and sort contacts
   useEffect(() => {
-    console.log('ContactTable: Filtering contacts, search term:', searchTerm);
-    let filtered = contacts.filter(contact =>
-      contact.contact_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      contact.company_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      contact.email?.toLowerCase().includes(searchTerm.toLowerCase())
-    );
-
-    // Apply source filter
-    if (sourceFilter && sourceFilter !== "all") {
-      filtered = filtered.filter(contact => 
-        contact.contact_source?.toLowerCase() === sourceFilter.toLowerCase()
-      );
-    }
-
-    // Apply owner filter
-    if (ownerFilter && ownerFilter !== "all") {
-      filtered = filtered.filter(contact => contact.created_by === ownerFilter);
-    }
+    setCurrentPage(1);
+  }, [searchTerm, searchGroups, sourceFilter, ownerFilter, customFieldFilters, sortField, sortDirection]);
 
-    // Apply sorting
-    if (sortField) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Contact] || '';
-        const bValue = b[sortField as keyof Contact] || '';
-        
-        if (typeof aValue === 'string' && typeof bValue === 'string') {
-          const comparison = aValue.toLowerCase().localeCompare(bValue.toLowerCase());
-          return sortDirection === 'asc' ? comparison : -comparison;
-        }
-        
-        // For non-string values, convert to string for comparison
-        const aStr = String(aValue).toLowerCase();
-        const bStr = String(bValue).toLowerCase();
-        const comparison = aStr.localeCompare(bStr);
-        return sortDirection === 'asc' ? comparison : -comparison;
-      });
+  useEffect(() => {
+    if (!loading && currentPage > totalPages) {
+      setCurrentPage(totalPages);
     }
+  }, [loading, currentPage, totalPages]);
 
-    setFilteredContacts(filtered);
-    setCurrentPage(1);
-    console.log('ContactTable: Filtered contacts:', filtered.length);
-  }, [contacts, searchTerm, sortField, sortDirection, sourceFilter, ownerFilter]);
+  // Keep custom field columns in step with the field definitions
+  useEffect(() => {
+    setColumns(prev => mergeCustomFieldColumns(prev, customFields));
+  }, [customFields]);
 
   const handleSort = (field: string) => {
     if (sortField === field) {
@@ -251,7 +243,7 @@ export const ContactTable = ({
   const handleDelete = async (id: string) => {
     try {
       // Find the contact first to log the deleted data
-      const contactToDelete = contacts.find(c => c.id === id);
+      const contactToDelete = pageContacts.find(c => c.id === id);
       
       const { error } = await supabase
         .from('contacts')
@@ -279,6 +271,25 @@ export const ContactTable = ({
     }
   };
 
+  const handleCustomFieldSave = async (contact: Contact, fieldName: string, value: CustomFieldValue) => {
+    const customFieldValues = { ...getCustomFieldValues(contact), [fieldName]: value };
+    const { error } = await supabase
+      .from('contacts')
+      .update({ custom_fields: customFieldValues })
+      .eq('id', contact.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update contact",
+        variant: "destructive",
+      });
+      throw error;
+    }
+
+    fetchContacts();
+  };
+
   const handleEditContact = (contact: Contact) => {
     console.log('ContactTable: Editing contact:', contact.id);
     setEditingContact(contact);
@@ -292,11 +303,21 @@ export const ContactTable = ({
   };
 
   const visibleColumns = columns.filter(col => col.visible);
-  const totalPages = Math.ceil(filteredContacts.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const pageContacts = filteredContacts.slice(startIndex, startIndex + itemsPerPage);
+  const selectedContactIds = new Set(selectedContacts);
+  const allPageContactsSelected = pageContacts.length > 0 && pageContacts.every(c => selectedContactIds.has(c.id));
 
-  console.log('ContactTable: Render state - loading:', loading, 'contacts:', contacts.length, 'pageContacts:', pageContacts.length);
+  const handleSelectAllMatching = async () => {
+    try {
+      setSelectedContacts(await fetchAllIds());
+    } catch (error) {
+      console.error('Failed to select all contacts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to select all matching contacts",
+        variant: "destructive",
+      });
+    }
+  };
 
   if (loading) {
     return (
@@ -314,6 +335,8 @@ export const ContactTable = ({
       <ContactTableHeader 
         searchTerm={searchTerm}
         setSearchTerm={setSearchTerm}
+        searchFields={CONTACT_SEARCH_FIELDS}
+        setSearchGroups={setSearchGroups}
         selectedContacts={selectedContacts}
         setSelectedContacts={setSelectedContacts}
         pageContacts={pageContacts}
@@ -324,9 +347,21 @@ export const ContactTable = ({
         setSourceFilter={setSourceFilter}
         ownerFilter={ownerFilter}
         setOwnerFilter={setOwnerFilter}
+        customFields={customFields}
+        customFieldFilters={customFieldFilters}
+        setCustomFieldFilters={setCustomFieldFilters}
       />
 
       <Card>
+        <SelectAllMatchingBanner
+          selectedCount={selectedContacts.length}
+          pageCount={pageContacts.length}
+          totalCount={totalCount}
+          allPageRowsSelected={allPageContactsSelected}
+          onSelectAll={handleSelectAllMatching}
+          onClearSelection={() => setSelectedContacts([])}
+          entityName="contacts"
+        />
         <ContactTableBody
           loading={loading}
           pageContacts={pageContacts}
@@ -344,6 +379,7 @@ export const ContactTable = ({
           sortField={sortField}
           sortDirection={sortDirection}
           onSort={handleSort}
+          onCustomFieldSave={handleCustomFieldSave}
         />
       </Card>
 
@@ -352,7 +388,7 @@ export const ContactTable = ({
           currentPage={currentPage}
           totalPages={totalPages}
           itemsPerPage={itemsPerPage}
-          totalItems={filteredContacts.length}
+          totalItems={totalCount}
           onPageChange={setCurrentPage}
         />
       )}
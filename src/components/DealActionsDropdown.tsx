@@ -12,32 +12,33 @@ import { Deal } from "@/types/deal";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
 
 interface DealActionsDropdownProps {
-  deals: Deal[];
   onImport: (deals: Partial<Deal>[]) => void;
   onRefresh: () => void;
-  selectedDeals?: Deal[];
+  // Ids selected on any page of the list
+  selectedDealIds?: string[];
+  // Filters of the list query; without a selection every matching deal is exported
+  filters?: (string | null)[];
   onColumnCustomize?: () => void;
   showColumns?: boolean;
 }
 
 export const DealActionsDropdown = ({ 
-  deals, 
   onImport, 
   onRefresh, 
-  selectedDeals = [], 
+  selectedDealIds = [], 
+  filters = [],
   onColumnCustomize,
   showColumns = false 
 }: DealActionsDropdownProps) => {
-  const { handleImport, handleExportAll, handleExportSelected } = useDealsImportExport({
+  const { handleImport, handleExportByIds, handleExportMatching } = useDealsImportExport({
     onRefresh
   });
 
   const handleExportClick = () => {
-    if (selectedDeals.length > 0) {
-      const selectedIds = selectedDeals.map(deal => deal.id);
-      handleExportSelected(deals, selectedIds);
+    if (selectedDealIds.length > 0) {
+      handleExportByIds(selectedDealIds);
     } else {
-      handleExportAll(deals);
+      handleExportMatching(filters);
     }
   };
 
@@ -3,7 +3,10 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Deal, STAGE_COLORS } from "@/types/deal";
+import { Deal } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCurrency } from "@/hooks/useCurrency";
+import { formatCurrency } from "@/utils/currency";
 import { format } from "date-fns";
 import { Trash2, XCircle } from "lucide-react";
 
@@ -26,15 +29,17 @@ export const DealCard = ({
   onDelete, 
   onStageChange 
 }: DealCardProps) => {
-  const formatCurrency = (amount: number, currency: string = 'EUR') => {
-    const symbols = { USD: '$', EUR: '€', INR: '₹' };
-    return `${symbols[currency as keyof typeof symbols] || '€'}${amount.toLocaleString()}`;
-  };
+  const { getNextStage, isClosedStage, stages } = usePipelineStages();
+  const { reportingCurrency, formatConverted } = useCurrency();
+
+  // Deals in the last open stage can be dropped straight from the card
+  const dropStage = [...stages].reverse().find(s => s.is_active && s.is_lost_stage)?.stage_name;
+  const canDrop = !!dropStage && !isClosedStage(deal.stage) && getNextStage(deal.stage) === null;
 
   const handleMoveToDropped = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (onStageChange) {
-      onStageChange(deal.id, 'Dropped');
+    if (onStageChange && dropStage) {
+      onStageChange(deal.id, dropStage);
     }
   };
 
@@ -54,13 +59,13 @@ export const DealCard = ({
             {deal.project_name || 'Untitled Deal'}
           </CardTitle>
           <div className="flex items-center gap-1">
-            {!selectionMode && deal.stage === 'Offered' && onStageChange && (
+            {!selectionMode && canDrop && onStageChange && (
               <Button
                 size="sm"
                 variant="ghost"
                 onClick={handleMoveToDropped}
                 className="opacity-0 group-hover:opacity-100 transition-all duration-200 p-1 h-6 w-6 bg-orange-100 hover:bg-orange-200 text-orange-600"
-                title="Move to Dropped"
+                title={`Move to ${dropStage}`}
               >
                 <XCircle className="w-3 h-3" />
               </Button>
@@ -133,9 +138,16 @@ export const DealCard = ({
         {deal.total_contract_value && (
           <div className="flex items-center justify-between pt-2 border-t border-border/30">
             <span className="text-xs text-muted-foreground font-medium">Value:</span>
-            <p className="font-bold text-sm text-primary">
-              {formatCurrency(deal.total_contract_value, deal.currency_type)}
-            </p>
+            <div className="text-right">
+              <p className="font-bold text-sm text-primary">
+                {formatCurrency(deal.total_contract_value, deal.currency_type || reportingCurrency)}
+              </p>
+              {formatConverted(deal.total_contract_value, deal) && (
+                <p className="text-xs text-muted-foreground">
+                  ≈ {formatConverted(deal.total_contract_value, deal)}
+                </p>
+              )}
+            </div>
           </div>
         )}
         
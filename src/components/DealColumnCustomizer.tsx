@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Loader2 } from "lucide-react";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { mergeCustomFieldColumns } from "@/types/customField";
 
 export interface DealColumnConfig {
   field: string;
@@ -48,6 +50,7 @@ export const DealColumnCustomizer = ({
   isSaving = false,
 }: DealColumnCustomizerProps) => {
   const [localColumns, setLocalColumns] = useState<DealColumnConfig[]>(columns);
+  const { visibleFields: customFields } = useCustomFields('deal');
 
   // Sync local columns when props change
   useEffect(() => {
@@ -70,7 +73,7 @@ export const DealColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultDealColumns);
+    setLocalColumns(mergeCustomFieldColumns(defaultDealColumns, customFields));
   };
 
   return (
@@ -4,14 +4,23 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Deal, DealStage, getNextStage, getFinalStageOptions, getStageIndex, DEAL_STAGES } from "@/types/deal";
+import { Deal, DealStage, getStageProbability } from "@/types/deal";
 import { useToast } from "@/hooks/use-toast";
 import { validateRequiredFields, getFieldErrors, validateDateLogic, validateRevenueSum } from "./deal-form/validation";
 import { DealStageForm } from "./deal-form/DealStageForm";
+import { CustomFieldsForm } from "./deal-form/CustomFieldsForm";
+import { DealLineItemsForm } from "./deal-form/DealLineItemsForm";
+import { DealQuotesForm } from "./deal-form/DealQuotesForm";
+import { StageGateDialog } from "./deal-form/StageGateDialog";
 import { TaskModal } from "./tasks/TaskModal";
 import { useTasks } from "@/hooks/useTasks";
 import { supabase } from "@/integrations/supabase/client";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useStageGate } from "@/hooks/useStageGate";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { validateCustomFieldValues } from "@/types/customField";
+import { DEFAULT_REPORTING_CURRENCY, formatCurrency } from "@/utils/currency";
 
 interface DealFormProps {
   deal: Deal | null;
@@ -32,6 +41,10 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   const [taskModalOpen, setTaskModalOpen] = useState(false);
   const { toast } = useToast();
   const { createTask } = useTasks();
+  const { stages, activeStageNames, firstStage, getNextStage, isStageTransitionAllowed } = usePipelineStages();
+  const { requestStageChange, stageGateProps } = useStageGate();
+  const { visibleFields: customFields } = useCustomFields('deal');
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
 
   // NEW: Track current user id for default Lead Owner
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -87,6 +100,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       // Set default values for new deals
       const defaultData: Partial<Deal> = {
         stage: initialStage,
+        probability: getStageProbability(initialStage, stages),
         currency_type: 'EUR', // Default to EUR
         quarterly_revenue_q1: 0,
         quarterly_revenue_q2: 0,
@@ -97,9 +111,11 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       setShowValidationErrors(false);
     }
     setShowPreviousStages(false);
-  }, [deal, isCreating, initialStage, isOpen]);
+    setCustomFieldErrors({});
+  }, [deal, isCreating, initialStage, isOpen, stages]);
 
-  const currentStage = formData.stage || 'Lead';
+  const currentStage = formData.stage || firstStage;
+  const dealCurrency = formData.currency_type || DEFAULT_REPORTING_CURRENCY;
 
   // No field errors since validation is removed
   useEffect(() => {
@@ -120,6 +136,20 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     });
   };
 
+  // Required custom fields are the only fields enforced before saving
+  const hasMissingCustomFields = () => {
+    const errors = validateCustomFieldValues(customFields, formData.custom_fields || {});
+    setCustomFieldErrors(errors);
+    if (Object.keys(errors).length === 0) return false;
+
+    toast({
+      title: "Missing required fields",
+      description: Object.values(errors).join(', '),
+      variant: "destructive",
+    });
+    return true;
+  };
+
   const handleLeadSelect = (lead: any) => {
     console.log("Selected lead:", lead);
     // The lead selection is handled in the FormFieldRenderer component
@@ -127,6 +157,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (hasMissingCustomFields()) return;
     setLoading(true);
 
     try {
@@ -171,85 +202,8 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     }
   };
 
-  const handleMoveToNextStage = async () => {
-    setLoading(true);
-    
-    try {
-      const nextStage = getNextStage(currentStage);
-      if (nextStage) {
-        console.log(`Moving deal from ${currentStage} to ${nextStage}`);
-        
-        const updatedData = {
-          ...formData,
-          stage: nextStage,
-          deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
-          modified_at: new Date().toISOString(),
-          modified_by: deal?.created_by || formData.created_by
-        };
-        
-        await onSave(updatedData);
-        
-        toast({
-          title: "Success",
-          description: `Deal moved to ${nextStage} stage`,
-        });
-        
-        onClose();
-        if (onRefresh) {
-          setTimeout(() => onRefresh(), 200);
-        }
-      }
-    } catch (error) {
-      console.error("Error moving deal to next stage:", error);
-      toast({
-        title: "Error",
-        description: "Failed to move deal to next stage",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleMoveToFinalStage = async (finalStage: DealStage) => {
-    setLoading(true);
-    
-    try {
-      console.log(`Moving deal to final stage: ${finalStage}`);
-      
-      const updatedData = {
-        ...formData,
-        stage: finalStage,
-        deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
-        modified_at: new Date().toISOString(),
-        modified_by: deal?.created_by || formData.created_by
-      };
-      
-      setFormData(updatedData);
-      await onSave(updatedData);
-      
-      toast({
-        title: "Success",
-        description: `Deal moved to ${finalStage} stage`,
-      });
-      
-      onClose();
-      if (onRefresh) {
-        setTimeout(() => onRefresh(), 200);
-      }
-    } catch (error) {
-      console.error("Error moving deal to final stage:", error);
-      toast({
-        title: "Error",
-        description: `Failed to move deal to ${finalStage} stage`,
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleMoveToSpecificStage = async (targetStage: DealStage) => {
+  // Saves the form together with the stage change once the stage gate has passed
+  const saveStageMove = async (targetStage: DealStage, stageUpdates: Partial<Deal>) => {
     setLoading(true);
     
     try {
@@ -257,7 +211,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       
       const updatedData = {
         ...formData,
-        stage: targetStage,
+        ...stageUpdates,
         deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
         modified_at: new Date().toISOString(),
         modified_by: deal?.created_by || formData.created_by
@@ -282,18 +236,32 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
         description: `Failed to move deal to ${targetStage} stage`,
         variant: "destructive",
       });
+      throw error;
     } finally {
       setLoading(false);
     }
   };
 
-  // Allow movement to any stage - no restrictions
+  const handleMoveToStage = (targetStage: DealStage) => {
+    if (hasMissingCustomFields()) return;
+    requestStageChange({ ...formData, stage: currentStage }, targetStage, (updates) => saveStageMove(targetStage, updates));
+  };
+
+  const handleMoveToNextStage = () => {
+    const nextStage = getNextStage(currentStage);
+    if (nextStage) handleMoveToStage(nextStage);
+  };
+
+  const handleMoveToFinalStage = (finalStage: DealStage) => handleMoveToStage(finalStage);
+
+  const handleMoveToSpecificStage = (targetStage: DealStage) => handleMoveToStage(targetStage);
+
+  // Any active stage the current stage allows moving to
   const getAvailableStagesForMoveTo = (): DealStage[] => {
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return allStages.filter(stage => stage !== currentStage);
+    return activeStageNames.filter(stage => stage !== currentStage && isStageTransitionAllowed(currentStage, stage));
   };
 
-  // No validation - always allow movement and saving
+  // Required fields are collected by the stage gate when moving
   const canMoveToNextStage = !isCreating && getNextStage(currentStage) !== null;
   const canMoveToFinalStage = !isCreating;
   const canSave = true; // Always allow saving
@@ -346,7 +314,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
               <p className="text-xs text-muted-foreground">Contract Value</p>
               <p className="font-medium text-primary">
                 {formData.total_contract_value 
-                  ? `€${formData.total_contract_value.toLocaleString()}`
+                  ? formatCurrency(formData.total_contract_value, dealCurrency)
                   : '-'}
               </p>
             </div>
@@ -375,6 +343,26 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
             showPreviousStages={showPreviousStages}
           />
 
+          <CustomFieldsForm
+            formData={formData}
+            onFieldChange={handleFieldChange}
+            fieldErrors={customFieldErrors}
+          />
+
+          {!isCreating && deal && (
+            <>
+              <DealLineItemsForm
+                dealId={deal.id}
+                currency={dealCurrency}
+                onTotalChange={(netTotal) => handleFieldChange('total_contract_value', netTotal)}
+              />
+              <DealQuotesForm
+                deal={{ ...deal, ...formData, stage: currentStage }}
+                currency={dealCurrency}
+              />
+            </>
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-between items-center">
             <div className="flex gap-2">
@@ -387,7 +375,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
             </div>
 
             <div className="flex gap-2">
-              {/* Move to Stage Dropdown - Allow movement to any stage */}
+              {/* Move to Stage Dropdown - stages the current stage allows */}
               {!isCreating && getAvailableStagesForMoveTo().length > 0 && (
                 <div className="flex items-center gap-2">
                   <span className="text-sm text-gray-600">Move to:</span>
@@ -432,6 +420,8 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
         onSubmit={createTask}
         context={deal ? { module: 'deals', recordId: deal.id, locked: true } : undefined}
       />
+
+      <StageGateDialog {...stageGateProps} />
     </Dialog>
   );
 };
@@ -10,7 +10,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Filter, X, Save, FolderOpen, Trash2, Search } from "lucide-react";
-import { DealStage, DEAL_STAGES } from "@/types/deal";
+import { DealStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { cn } from "@/lib/utils";
 import { useSavedFilters } from "@/hooks/useSavedFilters";
 
@@ -63,6 +64,7 @@ export const DealsAdvancedFilter = ({
   const [isOpen, setIsOpen] = useState(false);
   const [filterName, setFilterName] = useState("");
   const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const { stageNames } = usePipelineStages();
   const filterRef = useRef<HTMLDivElement>(null);
 
   const { savedFilters, loading, saveFilter, deleteFilter } = useSavedFilters('deals');
@@ -277,7 +279,7 @@ export const DealsAdvancedFilter = ({
               <div className="grid grid-cols-2 gap-6">
                 {/* Left Column */}
                 <div className="space-y-4">
-                  {renderMultiSelectSection("Stages", "stages", DEAL_STAGES)}
+                  {renderMultiSelectSection("Stages", "stages", stageNames)}
                   {renderMultiSelectSection("Regions", "regions", REGION_OPTIONS)}
                   {renderMultiSelectSection("Priorities", "priorities", PRIORITY_OPTIONS)}
                 </div>
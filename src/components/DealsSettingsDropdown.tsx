@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -6,13 +6,18 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Settings, Upload, Download, Columns } from "lucide-react";
+import { Settings, Upload, Download, Columns, FileSpreadsheet, History } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Deal } from "@/types/deal";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchInBatches } from "@/utils/tableQuery";
+import { ImportMappingWizard } from "@/components/shared/ImportMappingWizard";
+import { ImportMatchOptions } from "@/hooks/import-export/importMerge";
+import { ImportHistoryDialog } from "@/components/shared/ImportHistoryDialog";
+import { ExportFormat } from "@/utils/exportUtils";
 
 interface DealsSettingsDropdownProps {
-  deals: Deal[];
   onRefresh: () => void;
   selectedDeals?: Deal[];
   onColumnCustomize?: () => void;
@@ -20,7 +25,6 @@ interface DealsSettingsDropdownProps {
 }
 
 export const DealsSettingsDropdown = ({ 
-  deals, 
   onRefresh, 
   selectedDeals = [], 
   onColumnCustomize,
@@ -29,56 +33,96 @@ export const DealsSettingsDropdown = ({
   const { handleImport, handleExportAll, handleExportSelected } = useDealsImportExport({
     onRefresh
   });
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [showImportHistory, setShowImportHistory] = useState(false);
 
-  const handleExportClick = () => {
+  const handleExportClick = async (fileFormat: ExportFormat) => {
     if (selectedDeals.length > 0) {
       const selectedIds = selectedDeals.map(deal => deal.id);
-      handleExportSelected(deals, selectedIds);
-    } else {
-      handleExportAll(deals);
+      handleExportSelected(selectedDeals, selectedIds, fileFormat);
+      return;
+    }
+
+    // The list view only holds one page, so the export reads every deal in batches
+    try {
+      const deals = await fetchInBatches((from, to) =>
+        supabase
+          .from('deals')
+          .select('*')
+          .order('modified_at', { ascending: false })
+          .order('id', { ascending: true })
+          .range(from, to)
+      );
+      await handleExportAll(deals, fileFormat);
+    } catch (error) {
+      console.error('Export failed:', error);
     }
   };
 
   const handleImportClick = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.csv';
-    input.onchange = async (e) => {
+    input.accept = '.csv,.xlsx';
+    input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        try {
-          await handleImport(file);
-        } catch (error) {
-          console.error('Import failed:', error);
-        }
-      }
+      if (file) setImportFile(file);
     };
     input.click();
   };
 
+  const handleMappedImport = async (file: File, match: ImportMatchOptions) => {
+    try {
+      await handleImport(file, match);
+    } catch (error) {
+      console.error('Import failed:', error);
+    }
+  };
+
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="outline" size="sm">
-          Actions
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="bg-popover border z-50">
-            <DropdownMenuItem onClick={handleImportClick}>
-              <Upload className="w-4 h-4 mr-2" />
-              Import
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={handleExportClick}>
-              <Download className="w-4 h-4 mr-2" />
-              Export {selectedDeals.length > 0 ? `(${selectedDeals.length})` : 'All'}
-            </DropdownMenuItem>
-            {showColumns && onColumnCustomize && (
-              <DropdownMenuItem onClick={onColumnCustomize}>
-                <Columns className="w-4 h-4 mr-2" />
-                Columns
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            Actions
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="bg-popover border z-50">
+              <DropdownMenuItem onClick={handleImportClick}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportClick('csv')}>
+                <Download className="w-4 h-4 mr-2" />
+                Export {selectedDeals.length > 0 ? `(${selectedDeals.length})` : 'All'}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportClick('xlsx')}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Export {selectedDeals.length > 0 ? `(${selectedDeals.length})` : 'All'} to Excel
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShowImportHistory(true)}>
+                <History className="w-4 h-4 mr-2" />
+                Import history
               </DropdownMenuItem>
-            )}
-      </DropdownMenuContent>
-    </DropdownMenu>
+              {showColumns && onColumnCustomize && (
+                <DropdownMenuItem onClick={onColumnCustomize}>
+                  <Columns className="w-4 h-4 mr-2" />
+                  Columns
+                </DropdownMenuItem>
+              )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ImportMappingWizard
+        entity="deals"
+        file={importFile}
+        onClose={() => setImportFile(null)}
+        onImport={handleMappedImport}
+      />
+      <ImportHistoryDialog
+        entity="deals"
+        open={showImportHistory}
+        onOpenChange={setShowImportHistory}
+        onRolledBack={onRefresh}
+      />
+    </>
   );
 };
@@ -0,0 +1,212 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Repeat } from "lucide-react";
+import { ID_BATCH_SIZE, chunkIds } from "@/utils/tableQuery";
+
+interface SequenceOption {
+  id: string;
+  name: string;
+  email_sequence_steps: { id: string; step_order: number; delay_days: number }[];
+}
+
+interface EnrollInSequenceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipientType: 'lead' | 'contact';
+  recipientIds: string[];
+  onEnrolled?: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EnrollInSequenceModal = ({ open, onOpenChange, recipientType, recipientIds, onEnrolled }: EnrollInSequenceModalProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [sequences, setSequences] = useState<SequenceOption[]>([]);
+  const [selectedSequence, setSelectedSequence] = useState("");
+  const [isEnrolling, setIsEnrolling] = useState(false);
+
+  const senderEmail = user?.email || "noreply@acmecrm.com";
+
+  useEffect(() => {
+    if (open) {
+      fetchSequences();
+      setSelectedSequence("");
+    }
+  }, [open]);
+
+  const fetchSequences = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('email_sequences')
+        .select('id, name, email_sequence_steps(id, step_order, delay_days)')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      // Sequences without steps have nothing to send
+      setSequences((data || []).filter(sequence => sequence.email_sequence_steps.length > 0));
+    } catch (error) {
+      console.error('Error fetching sequences:', error);
+    }
+  };
+
+  // Recipients of the selected rows, with what is captured at enrollment time
+  const fetchRecipients = async () => {
+    const recipients: { id: string; name: string; email: string | null; lead_status: string | null }[] = [];
+    for (const ids of chunkIds(recipientIds)) {
+      if (recipientType === 'lead') {
+        const { data, error } = await supabase
+          .from('leads')
+          .select('id, lead_name, email, lead_status')
+          .in('id', ids);
+        if (error) throw error;
+        recipients.push(...(data || []).map(lead => ({ ...lead, name: lead.lead_name })));
+      } else {
+        const { data, error } = await supabase
+          .from('contacts')
+          .select('id, contact_name, email')
+          .in('id', ids);
+        if (error) throw error;
+        recipients.push(...(data || []).map(contact => ({ ...contact, name: contact.contact_name, lead_status: null })));
+      }
+    }
+    return recipients;
+  };
+
+  const fetchOpenEnrollmentIds = async (sequenceId: string) => {
+    const column = recipientType === 'lead' ? 'lead_id' : 'contact_id';
+    const enrolled = new Set<string>();
+    for (const ids of chunkIds(recipientIds)) {
+      const { data, error } = await supabase
+        .from('email_sequence_enrollments')
+        .select('lead_id, contact_id')
+        .eq('sequence_id', sequenceId)
+        .in('status', ['active', 'paused'])
+        .in(column, ids);
+      if (error) throw error;
+      (data || []).forEach(row => enrolled.add(row[column]!));
+    }
+    return enrolled;
+  };
+
+  const handleEnroll = async () => {
+    const sequence = sequences.find(s => s.id === selectedSequence);
+    if (!sequence || !user) return;
+
+    setIsEnrolling(true);
+    try {
+      const [recipients, alreadyEnrolled] = await Promise.all([
+        fetchRecipients(),
+        fetchOpenEnrollmentIds(sequence.id),
+      ]);
+
+      const firstStep = [...sequence.email_sequence_steps].sort((a, b) => a.step_order - b.step_order)[0];
+      const nextSendAt = new Date(Date.now() + firstStep.delay_days * DAY_MS).toISOString();
+
+      const eligible = recipients.filter(r => r.email && !alreadyEnrolled.has(r.id));
+      const withoutEmail = recipients.filter(r => !r.email).length;
+
+      const rows = eligible.map(r => ({
+        sequence_id: sequence.id,
+        lead_id: recipientType === 'lead' ? r.id : null,
+        contact_id: recipientType === 'contact' ? r.id : null,
+        recipient_email: r.email!,
+        recipient_name: r.name,
+        sender_email: senderEmail,
+        lead_status_at_enrollment: r.lead_status,
+        next_send_at: nextSendAt,
+        next_step_id: firstStep.id,
+        enrolled_by: user.id,
+      }));
+
+      for (let i = 0; i < rows.length; i += ID_BATCH_SIZE) {
+        const { error } = await supabase
+          .from('email_sequence_enrollments')
+          .insert(rows.slice(i, i + ID_BATCH_SIZE));
+        if (error) throw error;
+      }
+
+      const skipped = [
+        alreadyEnrolled.size > 0 ? `${alreadyEnrolled.size} already enrolled` : null,
+        withoutEmail > 0 ? `${withoutEmail} without email` : null,
+      ].filter(Boolean).join(', ');
+
+      toast({
+        title: eligible.length > 0 ? "Enrolled in sequence" : "Nobody was enrolled",
+        description: `${eligible.length} ${recipientType}(s) enrolled in ${sequence.name}${skipped ? ` (${skipped} skipped)` : ''}`,
+        variant: eligible.length > 0 ? "default" : "destructive",
+      });
+
+      if (eligible.length > 0) {
+        onEnrolled?.();
+        onOpenChange(false);
+      }
+    } catch (error) {
+      console.error('Error enrolling in sequence:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to enroll in sequence",
+        variant: "destructive",
+      });
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Enroll in Sequence ({recipientIds.length} {recipientType}s)
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sequence">Email Sequence</Label>
+            <Select value={selectedSequence} onValueChange={setSelectedSequence}>
+              <SelectTrigger id="sequence">
+                <SelectValue placeholder={sequences.length === 0 ? "No active sequences" : "Select a sequence"} />
+              </SelectTrigger>
+              <SelectContent>
+                {sequences.map((sequence) => (
+                  <SelectItem key={sequence.id} value={sequence.id}>
+                    {sequence.name} ({sequence.email_sequence_steps.length} steps)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Emails are sent from {senderEmail}. Recipients without an email address or already in the sequence are skipped.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isEnrolling}>
+              Cancel
+            </Button>
+            <Button onClick={handleEnroll} disabled={!selectedSequence || isEnrolling} className="gap-2">
+              {isEnrolling ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Enrolling...
+                </>
+              ) : (
+                "Enroll"
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -13,10 +13,9 @@ interface ImportExportBarProps {
 export const ImportExportBar = ({ deals, onImport, onExport, selectedDeals, onRefresh }: ImportExportBarProps) => {
   return (
     <DealActionsDropdown
-      deals={deals}
       onImport={onImport}
       onRefresh={onRefresh}
-      selectedDeals={selectedDeals || []}
+      selectedDealIds={(selectedDeals || []).map(deal => deal.id)}
     />
   );
 };
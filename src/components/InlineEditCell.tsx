@@ -6,7 +6,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Check, X, Edit3 } from "lucide-react";
-import { Deal, DealStage, DEAL_STAGES } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { DEFAULT_REPORTING_CURRENCY, formatCurrency } from "@/utils/currency";
 
 interface InlineEditCellProps {
   value: any;
@@ -16,6 +17,9 @@ interface InlineEditCellProps {
   type?: 'text' | 'number' | 'date' | 'select' | 'textarea' | 'boolean' | 'stage' | 'priority' | 'currency' | 'userSelect';
   options?: string[];
   userOptions?: Array<{ id: string; full_name: string | null }>;
+  // For currency cells: the amount's currency and, optionally, the amount in the user's currency
+  currency?: string;
+  convertedValue?: string | null;
 }
 
 export const InlineEditCell = ({ 
@@ -25,10 +29,13 @@ export const InlineEditCell = ({
   onSave, 
   type = 'text',
   options = [],
-  userOptions = []
+  userOptions = [],
+  currency = DEFAULT_REPORTING_CURRENCY,
+  convertedValue
 }: InlineEditCellProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(value || '');
+  const { activeStageNames } = usePipelineStages();
 
   const handleSave = () => {
     let processedValue = editValue;
@@ -64,8 +71,7 @@ export const InlineEditCell = ({
     if (value === null || value === undefined || value === '') return '-';
     
     if (type === 'currency') {
-      const symbols = { USD: '$', EUR: '€', INR: '₹' };
-      return `${symbols[value.currency_type as keyof typeof symbols] || '€'}${Number(value).toLocaleString()}`;
+      return formatCurrency(Number(value), currency);
     }
     
     if (type === 'date' && value) {
@@ -109,7 +115,10 @@ export const InlineEditCell = ({
         }}
         title="Click to edit"
       >
-        <span className="truncate flex-1">{formatDisplayValue()}</span>
+        <span className="truncate flex-1">
+          {formatDisplayValue()}
+          {convertedValue && <span className="ml-1 text-xs text-muted-foreground">≈ {convertedValue}</span>}
+        </span>
         <Edit3 className="w-3 h-3 opacity-0 group-hover:opacity-100 transition-opacity ml-1 text-muted-foreground" />
       </div>
     );
@@ -188,7 +197,7 @@ export const InlineEditCell = ({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {DEAL_STAGES.map(stage => (
+              {activeStageNames.map(stage => (
                 <SelectItem key={stage} value={stage}>
                   {stage}
                 </SelectItem>
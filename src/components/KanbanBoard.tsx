@@ -1,6 +1,6 @@
 import { useState, useMemo, useEffect } from "react";
 import { DragDropContext, Droppable, Draggable, DropResult } from "@hello-pangea/dnd";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { DealCard } from "./DealCard";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -9,6 +9,9 @@ import { Plus, Search } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { BulkActionsBar } from "./BulkActionsBar";
 import { DealsAdvancedFilter, AdvancedFilterState } from "./DealsAdvancedFilter";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useStageGate } from "@/hooks/useStageGate";
+import { StageGateDialog } from "./deal-form/StageGateDialog";
 
 interface KanbanBoardProps {
   deals: Deal[];
@@ -44,6 +47,14 @@ export const KanbanBoard = ({
     probabilityRange: [0, 100],
   });
   const { toast } = useToast();
+  const {
+    stages,
+    firstStage,
+    getStage,
+    isLostStage,
+    getStageStyle,
+  } = usePipelineStages();
+  const { requestStageChange, stageGateProps } = useStageGate();
 
   // Generate available options for multi-select filters
   const availableOptions = useMemo(() => {
@@ -113,17 +124,17 @@ export const KanbanBoard = ({
     return filteredDeals.filter(deal => deal.stage === stage);
   };
 
-  const getVisibleStages = () => {
-    const leadDeals = getDealsByStage('Lead');
-    const lostDeals = getDealsByStage('Lost');
-    const droppedDeals = getDealsByStage('Dropped');
-    
-    return DEAL_STAGES.filter(stage => {
-      if (stage === 'Lead') return leadDeals.length > 0;
-      if (stage === 'Lost') return lostDeals.length > 0;
-      if (stage === 'Dropped') return droppedDeals.length > 0;
-      return true;
-    });
+  // Columns follow the configured pipeline order. The first stage and lost stages
+  // only show when they hold deals; inactive stages only while deals still sit in them.
+  const getVisibleStages = (): DealStage[] => {
+    return stages
+      .filter(stage => {
+        const stageDeals = getDealsByStage(stage.stage_name);
+        if (!stage.is_active) return stageDeals.length > 0;
+        if (stage.stage_name === firstStage || isLostStage(stage.stage_name)) return stageDeals.length > 0;
+        return true;
+      })
+      .map(stage => stage.stage_name);
   };
 
   const onDragStart = (start: any) => {
@@ -141,36 +152,44 @@ export const KanbanBoard = ({
     
     if (!deal || deal.stage === newStage) return;
 
-    console.log(`Moving deal from ${deal.stage} to ${newStage}`);
-
-    try {
-      console.log(`Moving deal ${draggableId} to stage ${newStage}`);
-      
-      // Show immediate visual feedback
-      toast({
-        title: "Moving Deal...",
-        description: `Moving to ${newStage} stage`,
-      });
-      
-      // Create update object with the new stage
-      const updates: Partial<Deal> = {
-        stage: newStage
-      };
-      
-      await onUpdateDeal(draggableId, updates);
-      
+    if (getStage(newStage)?.is_active === false) {
       toast({
-        title: "Deal Moved",
-        description: `Successfully moved to ${newStage} stage`,
-      });
-    } catch (error) {
-      console.error("Error updating deal stage:", error);
-      toast({
-        title: "Error",
-        description: "Failed to update deal stage",
+        title: "Stage Inactive",
+        description: `${newStage} is no longer an active stage`,
         variant: "destructive",
       });
+      return;
     }
+
+    console.log(`Moving deal from ${deal.stage} to ${newStage}`);
+
+    // The drop only goes through once the stage gate passes
+    requestStageChange(deal, newStage, async (updates) => {
+      try {
+        console.log(`Moving deal ${draggableId} to stage ${newStage}`);
+        
+        // Show immediate visual feedback
+        toast({
+          title: "Moving Deal...",
+          description: `Moving to ${newStage} stage`,
+        });
+        
+        await onUpdateDeal(draggableId, updates);
+        
+        toast({
+          title: "Deal Moved",
+          description: `Successfully moved to ${newStage} stage`,
+        });
+      } catch (error) {
+        console.error("Error updating deal stage:", error);
+        toast({
+          title: "Error",
+          description: "Failed to update deal stage",
+          variant: "destructive",
+        });
+        throw error;
+      }
+    });
   };
 
   const handleSelectDeal = (dealId: string, checked: boolean, event?: React.MouseEvent) => {
@@ -226,29 +245,30 @@ export const KanbanBoard = ({
     }
   };
 
-  const handleDealCardAction = async (dealId: string, newStage: DealStage) => {
-    try {
-      console.log(`Card action: Moving deal ${dealId} to stage ${newStage}`);
-      
-      // Create update object with the new stage
-      const updates: Partial<Deal> = {
-        stage: newStage
-      };
-      
-      await onUpdateDeal(dealId, updates);
-      
-      toast({
-        title: "Deal Updated",
-        description: `Deal moved to ${newStage} stage`,
-      });
-    } catch (error) {
-      console.error("Error updating deal stage:", error);
-      toast({
-        title: "Error",
-        description: "Failed to update deal stage",
-        variant: "destructive",
-      });
-    }
+  const handleDealCardAction = (dealId: string, newStage: DealStage) => {
+    const deal = deals.find(d => d.id === dealId);
+    if (!deal) return;
+
+    requestStageChange(deal, newStage, async (updates) => {
+      try {
+        console.log(`Card action: Moving deal ${dealId} to stage ${newStage}`);
+        
+        await onUpdateDeal(dealId, updates);
+        
+        toast({
+          title: "Deal Updated",
+          description: `Deal moved to ${newStage} stage`,
+        });
+      } catch (error) {
+        console.error("Error updating deal stage:", error);
+        toast({
+          title: "Error",
+          description: "Failed to update deal stage",
+          variant: "destructive",
+        });
+        throw error;
+      }
+    });
   };
 
   // Get selected deal objects for export
@@ -346,7 +366,7 @@ export const KanbanBoard = ({
                 const allSelected = selectedInStage === stageDeals.length && stageDeals.length > 0;
                 
                 return (
-                  <div key={stage} className={`p-2 rounded-lg border-2 ${STAGE_COLORS[stage]} transition-all hover:shadow-md`}>
+                  <div key={stage} className="p-2 rounded-lg border-2 transition-all hover:shadow-md" style={getStageStyle(stage)}>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2 min-w-0 flex-1">
                         {selectionMode && (
@@ -365,7 +385,7 @@ export const KanbanBoard = ({
                             <span className="text-primary ml-1">({selectedInStage})</span>
                           )}
                         </span>
-                        {stage === 'Lead' && (
+                        {stage === firstStage && (
                           <Button
                             size="sm"
                             variant="ghost"
@@ -475,6 +495,8 @@ export const KanbanBoard = ({
           onClearSelection={() => setSelectedDeals(new Set())}
         />
       </div>
+
+      <StageGateDialog {...stageGateProps} />
     </div>
   );
 };
@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Loader2 } from "lucide-react";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { mergeCustomFieldColumns } from "@/types/customField";
 
 export interface LeadColumnConfig {
   field: string;
@@ -30,6 +32,7 @@ export const defaultLeadColumns: LeadColumnConfig[] = [
   { field: 'contact_owner', label: 'Lead Owner', visible: true, order: 5 },
   { field: 'lead_status', label: 'Lead Status', visible: true, order: 6 },
   { field: 'contact_source', label: 'Source', visible: true, order: 7 },
+  { field: 'score', label: 'Score', visible: true, order: 8 },
 ];
 
 export const LeadColumnCustomizer = ({ 
@@ -41,6 +44,7 @@ export const LeadColumnCustomizer = ({
   isSaving = false,
 }: LeadColumnCustomizerProps) => {
   const [localColumns, setLocalColumns] = useState<LeadColumnConfig[]>(columns);
+  const { visibleFields: customFields } = useCustomFields('lead');
 
   // Sync local columns when props change
   useEffect(() => {
@@ -63,7 +67,7 @@ export const LeadColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultLeadColumns);
+    setLocalColumns(mergeCustomFieldColumns(defaultLeadColumns, customFields));
   };
 
   return (
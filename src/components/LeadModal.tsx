@@ -11,6 +11,10 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { Json } from "@/integrations/supabase/types";
+import { CustomFieldValues, getCustomFieldValues, validateCustomFieldValues } from "@/types/customField";
 
 const leadSchema = z.object({
   lead_name: z.string()
@@ -44,6 +48,7 @@ interface Lead {
   country?: string;
   description?: string;
   lead_status?: string;
+  custom_fields?: Json;
 }
 
 interface Account {
@@ -81,6 +86,9 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
   const [loading, setLoading] = useState(false);
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const { visibleFields: customFields } = useCustomFields('lead');
 
   const form = useForm<LeadFormData>({
     resolver: zodResolver(leadSchema),
@@ -128,6 +136,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         lead_status: lead.lead_status || "New",
         description: lead.description || "",
       });
+      setCustomFieldValues(getCustomFieldValues(lead));
     } else {
       form.reset({
         lead_name: "",
@@ -140,10 +149,16 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         lead_status: "New",
         description: "",
       });
+      setCustomFieldValues({});
     }
+    setCustomFieldErrors({});
   }, [lead, form]);
 
   const onSubmit = async (data: LeadFormData) => {
+    const fieldErrors = validateCustomFieldValues(customFields, customFieldValues);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -168,6 +183,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         contact_source: data.contact_source || null,
         lead_status: data.lead_status || 'New',
         description: data.description || null,
+        custom_fields: customFieldValues,
         modified_by: user.data.user.id,
       };
 
@@ -225,9 +241,18 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
 
         await logCreate('leads', newLead.id, newLeadData);
 
+        // Assignment rules may route the lead to a team member; otherwise the creator keeps it
+        const { data: assignedOwner, error: assignError } = await supabase
+          .rpc('assign_lead_owner', { p_lead_id: newLead.id });
+        if (assignError) {
+          console.error('Error applying lead assignment rules:', assignError);
+        }
+
         toast({
           title: "Success",
-          description: "Lead created successfully",
+          description: assignedOwner && assignedOwner !== user.data.user.id
+            ? "Lead created and assigned by the lead assignment rules"
+            : "Lead created successfully",
         });
       }
 
@@ -421,6 +446,13 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
               />
             </div>
 
+            <CustomFieldsSection
+              entityType="lead"
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+              errors={customFieldErrors}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -9,11 +9,10 @@ import { useColumnPreferences } from "@/hooks/useColumnPreferences";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, CalendarPlus, CheckSquare, FileText, Plus } from "lucide-react";
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, CalendarPlus, CheckSquare, FileText, Plus } from "lucide-react";
 import { RowActionsDropdown, Edit, Trash2, Mail, RefreshCw } from "./RowActionsDropdown";
 import { LeadModal } from "./LeadModal";
 import { LeadColumnCustomizer, LeadColumnConfig, defaultLeadColumns } from "./LeadColumnCustomizer";
@@ -24,8 +23,35 @@ import { AccountViewModal } from "./AccountViewModal";
 import { SendEmailModal, EmailRecipient } from "./SendEmailModal";
 import { MeetingModal } from "./MeetingModal";
 import { TaskModal } from "./tasks/TaskModal";
+import { LeadScoreBadge } from "./leads/LeadScoreBadge";
 import { useTasks } from "@/hooks/useTasks";
 import { useQuery } from "@tanstack/react-query";
+import { Json } from "@/integrations/supabase/types";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldCell } from "./shared/CustomFieldCell";
+import { CustomFieldsFilter, CustomFieldFilters } from "./shared/CustomFieldsFilter";
+import { AdvancedSearchBar, SearchGroup } from "./shared/AdvancedSearchBar";
+import { SelectAllMatchingBanner } from "./shared/SelectAllMatchingBanner";
+import { usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import {
+  TableQueryState,
+  allOf,
+  anyOf,
+  compileCustomFieldFilters,
+  compileSearchGroups,
+  eq,
+  gte,
+  isNull,
+  lte,
+  searchText,
+  toSortColumn,
+} from "@/utils/tableQuery";
+import {
+  CustomFieldValue,
+  getCustomFieldName,
+  getCustomFieldValues,
+  mergeCustomFieldColumns,
+} from "@/types/customField";
 
 interface Lead {
   id: string;
@@ -46,8 +72,29 @@ interface Lead {
   description?: string;
   created_by?: string;
   modified_by?: string;
+  custom_fields?: Json;
+  score?: number;
+  score_breakdown?: Json | null;
 }
 
+// Leads are read with the name of their linked account
+type LeadRow = Lead & { accounts?: { company_name?: string } | null };
+
+const LEAD_SELECT = '*, accounts:account_id (company_name)';
+
+const LEAD_SEARCH_FIELDS = [
+  { value: 'lead_name', label: 'Lead Name' },
+  { value: 'company_name', label: 'Company' },
+  { value: 'position', label: 'Position' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone_no', label: 'Phone' },
+  { value: 'lead_status', label: 'Lead Status' },
+  { value: 'contact_source', label: 'Source' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'country', label: 'Country' },
+  { value: 'score', label: 'Score', type: 'number' as const },
+];
+
 const defaultColumns: LeadColumnConfig[] = [{
   field: 'lead_name',
   label: 'Lead Name',
@@ -90,6 +137,15 @@ const defaultColumns: LeadColumnConfig[] = [{
   order: 7
 }];
 
+// Leads created before owners were assigned only have a creator
+const getLeadOwnerId = (lead: Lead) => lead.contact_owner || lead.created_by;
+
+// Server-side equivalent of getLeadOwnerId(lead) === ownerId
+const ownedBy = (ownerId: string) => anyOf([eq('contact_owner', ownerId), allOf([isNull('contact_owner'), eq('created_by', ownerId)])]);
+
+// Account names are embedded from accounts, so that column sorts on the lead's own company name
+const getLeadSortColumn = (field: string) => field === 'account_company_name' ? 'company_name' : field;
+
 interface LeadTableProps {
   showColumnCustomizer: boolean;
   setShowColumnCustomizer: (show: boolean) => void;
@@ -117,10 +173,8 @@ const LeadTable = ({
   } = useCRUDAudit();
   const { userRole } = useUserRole();
   const [searchParams] = useSearchParams();
-  const [leads, setLeads] = useState<Lead[]>([]);
-  const [filteredLeads, setFilteredLeads] = useState<Lead[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
   const [statusFilter, setStatusFilter] = useState(initialStatus);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   
@@ -170,10 +224,12 @@ const LeadTable = ({
     defaultColumns: defaultLeadColumns,
   });
   const [localColumns, setLocalColumns] = useState<LeadColumnConfig[]>(columns);
+  const { visibleFields: customFields, getFieldByColumn } = useCustomFields('lead');
+  const [customFieldFilters, setCustomFieldFilters] = useState<CustomFieldFilters>({});
   
   useEffect(() => {
-    setLocalColumns(columns);
-  }, [columns]);
+    setLocalColumns(mergeCustomFieldColumns(columns, customFields));
+  }, [columns, customFields]);
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(25);
   const [showConvertModal, setShowConvertModal] = useState(false);
@@ -200,47 +256,48 @@ const LeadTable = ({
     },
   });
 
-  useEffect(() => {
-    fetchLeads();
-  }, []);
+  const queryState = useMemo<TableQueryState>(() => ({
+    filters: [
+      searchText(searchTerm, ['lead_name', 'company_name', 'email']),
+      compileSearchGroups(searchGroups, LEAD_SEARCH_FIELDS),
+      statusFilter !== "all" ? eq('lead_status', statusFilter) : null,
+      ownerFilter !== "all" ? ownedBy(ownerFilter) : null,
+      dateFromFilter ? gte('created_time', dateFromFilter) : null,
+      dateToFilter ? lte('created_time', dateToFilter) : null,
+      ...compileCustomFieldFilters(customFields, customFieldFilters),
+    ],
+    // Newest leads first until a column is sorted
+    sort: sortField ? { field: sortField, direction: sortDirection } : { field: 'created_time', direction: 'desc' },
+    page: currentPage,
+    pageSize: itemsPerPage,
+  }), [searchTerm, searchGroups, statusFilter, ownerFilter, dateFromFilter, dateToFilter, customFields, customFieldFilters, sortField, sortDirection, currentPage, itemsPerPage]);
+  const {
+    rows: leadRows,
+    totalCount,
+    totalPages,
+    loading,
+    refetch: fetchLeads,
+    fetchAllIds,
+  } = usePaginatedQuery<LeadRow>({
+    table: 'leads',
+    state: queryState,
+    sortColumn: sortField ? toSortColumn(getLeadSortColumn(sortField), getFieldByColumn(sortField)) : undefined,
+    select: LEAD_SELECT,
+  });
+  const pageLeads = useMemo<Lead[]>(() => leadRows.map(({ accounts, ...lead }) => ({
+    ...lead,
+    account_company_name: accounts?.company_name || lead.company_name || undefined
+  })), [leadRows]);
 
   useEffect(() => {
-    let filtered = leads.filter(lead => lead.lead_name?.toLowerCase().includes(searchTerm.toLowerCase()) || lead.company_name?.toLowerCase().includes(searchTerm.toLowerCase()) || lead.email?.toLowerCase().includes(searchTerm.toLowerCase()));
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(lead => lead.lead_status === statusFilter);
-    }
-    if (ownerFilter !== "all") {
-      filtered = filtered.filter(lead => lead.created_by === ownerFilter);
-    }
-    
-    // Apply date range filtering
-    if (dateFromFilter) {
-      const fromDate = new Date(dateFromFilter);
-      filtered = filtered.filter(lead => {
-        if (!lead.created_time) return false;
-        return new Date(lead.created_time) >= fromDate;
-      });
-    }
-    if (dateToFilter) {
-      const toDate = new Date(dateToFilter);
-      filtered = filtered.filter(lead => {
-        if (!lead.created_time) return false;
-        return new Date(lead.created_time) <= toDate;
-      });
-    }
+    setCurrentPage(1);
+  }, [searchTerm, searchGroups, statusFilter, ownerFilter, dateFromFilter, dateToFilter, customFieldFilters, sortField, sortDirection]);
 
-    // Apply sorting
-    if (sortField) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Lead] || '';
-        const bValue = b[sortField as keyof Lead] || '';
-        const comparison = aValue.toString().localeCompare(bValue.toString());
-        return sortDirection === 'asc' ? comparison : -comparison;
-      });
+  useEffect(() => {
+    if (!loading && currentPage > totalPages) {
+      setCurrentPage(totalPages);
     }
-    setFilteredLeads(filtered);
-    setCurrentPage(1);
-  }, [leads, searchTerm, statusFilter, ownerFilter, dateFromFilter, dateToFilter, sortField, sortDirection]);
+  }, [loading, currentPage, totalPages]);
 
   const handleSort = (field: string) => {
     if (sortField === field) {
@@ -258,38 +315,18 @@ const LeadTable = ({
     return sortDirection === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />;
   };
 
-  const fetchLeads = async () => {
-    try {
-      setLoading(true);
-      const {
-        data,
-        error
-      } = await supabase.from('leads').select(`
-        *,
-        accounts:account_id (
-          company_name
-        )
-      `).order('created_time', {
-        ascending: false
-      });
-      if (error) throw error;
-      
-      // Transform data to include account_company_name
-      const transformedData = (data || []).map(lead => ({
-        ...lead,
-        account_company_name: lead.accounts?.company_name || lead.company_name || null
-      }));
-      
-      setLeads(transformedData);
-    } catch (error) {
+  const handleCustomFieldSave = async (lead: Lead, fieldName: string, value: CustomFieldValue) => {
+    const customFieldValues = { ...getCustomFieldValues(lead), [fieldName]: value };
+    const { error } = await supabase.from('leads').update({ custom_fields: customFieldValues }).eq('id', lead.id);
+    if (error) {
       toast({
         title: "Error",
-        description: "Failed to fetch leads",
+        description: "Failed to update lead",
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
+      throw error;
     }
+    fetchLeads();
   };
 
   const handleDelete = async (deleteLinkedRecords: boolean = true) => {
@@ -375,12 +412,26 @@ const LeadTable = ({
     }
   };
 
+  // Selection is kept across pages, so the header checkbox only toggles the rows on screen
   const handleSelectAll = (checked: boolean) => {
+    const pageIds = pageLeads.map(l => l.id);
     if (checked) {
-      const pageLeads = getCurrentPageLeads().slice(0, 50);
-      setSelectedLeads(pageLeads.map(l => l.id));
+      setSelectedLeads(prev => [...new Set([...prev, ...pageIds])]);
     } else {
-      setSelectedLeads([]);
+      setSelectedLeads(prev => prev.filter(id => !pageIds.includes(id)));
+    }
+  };
+
+  const handleSelectAllMatching = async () => {
+    try {
+      setSelectedLeads(await fetchAllIds());
+    } catch (error) {
+      console.error('Failed to select all leads:', error);
+      toast({
+        title: "Error",
+        description: "Failed to select all matching leads",
+        variant: "destructive"
+      });
     }
   };
 
@@ -392,24 +443,18 @@ const LeadTable = ({
     }
   };
 
-  const getCurrentPageLeads = () => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return filteredLeads.slice(startIndex, startIndex + itemsPerPage);
-  };
-
-  const totalPages = Math.ceil(filteredLeads.length / itemsPerPage);
-
   // Memoize user IDs to prevent unnecessary re-fetches
-  const createdByIds = useMemo(() => {
-    return [...new Set(leads.map(l => l.created_by).filter(Boolean))];
-  }, [leads]);
+  const ownerIds = useMemo(() => {
+    return [...new Set(pageLeads.map(getLeadOwnerId).filter(Boolean))];
+  }, [pageLeads]);
 
   // Use the optimized hook
   const {
     displayNames
-  } = useUserDisplayNames(createdByIds);
+  } = useUserDisplayNames(ownerIds);
   const visibleColumns = localColumns.filter(col => col.visible);
-  const pageLeads = getCurrentPageLeads();
+  const selectedLeadIds = new Set(selectedLeads);
+  const allPageLeadsSelected = pageLeads.length > 0 && pageLeads.every(l => selectedLeadIds.has(l.id));
 
   const handleConvertToDeal = (lead: Lead) => {
     setLeadToConvert(lead);
@@ -427,12 +472,6 @@ const LeadTable = ({
         }).eq('id', leadToConvert.id);
         if (error) {
           console.error("Error updating lead status:", error);
-        } else {
-          // Update local state immediately
-          setLeads(prevLeads => prevLeads.map(lead => lead.id === leadToConvert.id ? {
-            ...lead,
-            lead_status: 'Converted'
-          } : lead));
         }
       } catch (error) {
         console.error("Error updating lead status:", error);
@@ -451,9 +490,8 @@ const LeadTable = ({
       {/* Header and Actions */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
-          <div className="relative w-64">
-            <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4 pointer-events-none" />
-            <Input placeholder="Search leads..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="pl-9" inputSize="control" />
+          <div className="w-80">
+            <AdvancedSearchBar fields={LEAD_SEARCH_FIELDS} onSearch={setSearchGroups} placeholder="Search leads..." simpleSearch={searchTerm} onSimpleSearchChange={setSearchTerm} />
           </div>
           <LeadStatusFilter value={statusFilter} onValueChange={setStatusFilter} />
           <Select value={ownerFilter} onValueChange={setOwnerFilter}>
@@ -469,18 +507,20 @@ const LeadTable = ({
               ))}
             </SelectContent>
           </Select>
+          <CustomFieldsFilter fields={customFields} value={customFieldFilters} onChange={setCustomFieldFilters} />
         </div>
       </div>
 
       {/* Table */}
       <Card>
+        <SelectAllMatchingBanner selectedCount={selectedLeads.length} pageCount={pageLeads.length} totalCount={totalCount} allPageRowsSelected={allPageLeadsSelected} onSelectAll={handleSelectAllMatching} onClearSelection={() => setSelectedLeads([])} entityName="leads" />
         <div className="overflow-auto">
           <Table>
             <TableHeader className="sticky top-0 z-10">
               <TableRow className="bg-muted/50 hover:bg-muted/60 border-b-2">
                 <TableHead className="w-12 text-center font-bold text-foreground bg-muted/50">
                   <div className="flex justify-center">
-                    <Checkbox checked={selectedLeads.length > 0 && selectedLeads.length === Math.min(pageLeads.length, 50)} onCheckedChange={handleSelectAll} />
+                    <Checkbox checked={allPageLeadsSelected} onCheckedChange={handleSelectAll} />
                   </div>
                 </TableHead>
                 {visibleColumns.map(column => <TableHead key={column.field} className="text-left font-bold text-foreground bg-muted/50 px-4 py-3 whitespace-nowrap">
@@ -509,10 +549,10 @@ const LeadTable = ({
                       <div>
                         <p className="font-medium text-foreground">No leads found</p>
                         <p className="text-sm text-muted-foreground mt-1">
-                          {searchTerm ? "Try adjusting your search criteria" : "Get started by adding your first lead"}
+                          {searchTerm || searchGroups.length > 0 ? "Try adjusting your search criteria" : "Get started by adding your first lead"}
                         </p>
                       </div>
-                      {!searchTerm && (
+                      {!searchTerm && searchGroups.length === 0 && (
                         <Button size="sm" onClick={() => setShowModal(true)} className="mt-2">
                           <Plus className="w-4 h-4 mr-1" />
                           Add First Lead
@@ -531,7 +571,7 @@ const LeadTable = ({
                   setEditingLead(lead);
                   setShowModal(true);
                 }} className="text-primary hover:underline font-medium text-left truncate block w-full">
-                            {lead[column.field as keyof Lead] || '-'}
+                            {lead[column.field as keyof Lead]?.toString() || '-'}
                           </button> : column.field === 'account_company_name' ? <button 
                             onClick={() => {
                               if (lead.account_id) {
@@ -544,11 +584,11 @@ const LeadTable = ({
                           >
                             {lead.account_company_name || '-'}
                           </button> : column.field === 'contact_owner' ? <span className="truncate block">
-                            {lead.created_by ? displayNames[lead.created_by] || "Loading..." : '-'}
+                            {getLeadOwnerId(lead) ? displayNames[getLeadOwnerId(lead)!] || "Loading..." : '-'}
                           </span> : column.field === 'lead_status' && lead.lead_status ? <Badge variant={lead.lead_status === 'New' ? 'secondary' : lead.lead_status === 'Attempted' ? 'default' : lead.lead_status === 'Follow-up' ? 'default' : lead.lead_status === 'Qualified' ? 'outline' : lead.lead_status === 'Disqualified' ? 'destructive' : 'outline'} className="whitespace-nowrap">
                             {lead.lead_status}
-                          </Badge> : <span className="truncate block" title={lead[column.field as keyof Lead]?.toString() || '-'}>
-                            {lead[column.field as keyof Lead] || '-'}
+                          </Badge> : column.field === 'score' ? <LeadScoreBadge score={lead.score ?? 0} breakdown={lead.score_breakdown} /> : getFieldByColumn(column.field) ? <CustomFieldCell field={getFieldByColumn(column.field)!} value={getCustomFieldValues(lead)[getCustomFieldName(column.field)]} onSave={value => handleCustomFieldSave(lead, getCustomFieldName(column.field), value)} /> : <span className="truncate block" title={lead[column.field as keyof Lead]?.toString() || '-'}>
+                            {lead[column.field as keyof Lead]?.toString() || '-'}
                           </span>}
                       </TableCell>)}
                     <TableCell className="w-20 px-4 py-3">
@@ -621,7 +661,7 @@ const LeadTable = ({
       {/* Always show pagination info */}
       <div className="flex items-center justify-between py-2">
         <span className="text-sm font-medium text-foreground">
-          Showing {filteredLeads.length > 0 ? (currentPage - 1) * itemsPerPage + 1 : 0}-{Math.min(currentPage * itemsPerPage, filteredLeads.length)} of {filteredLeads.length} leads
+          Showing {totalCount > 0 ? (currentPage - 1) * itemsPerPage + 1 : 0}-{Math.min(currentPage * itemsPerPage, totalCount)} of {totalCount} leads
         </span>
         {totalPages > 1 && (
           <div className="flex items-center gap-2">
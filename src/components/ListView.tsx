@@ -4,7 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { Search, Filter, X, ArrowUp, ArrowDown } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RowActionsDropdown, Edit, Trash2, CheckSquare } from "./RowActionsDropdown";
@@ -14,34 +14,61 @@ import { DealColumnCustomizer, DealColumnConfig, defaultDealColumns } from "./De
 import { BulkActionsBar } from "./BulkActionsBar";
 import { DealsAdvancedFilter, AdvancedFilterState } from "./DealsAdvancedFilter";
 import { TaskModal } from "./tasks/TaskModal";
+import { StageGateDialog } from "./deal-form/StageGateDialog";
 import { useTasks } from "@/hooks/useTasks";
 import { DealActionsDropdown } from "./DealActionsDropdown";
+import { useDealsImportExport } from "@/hooks/useDealsImportExport";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useStageGate } from "@/hooks/useStageGate";
+import { useCurrency } from "@/hooks/useCurrency";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useDistinctValues, usePaginatedQuery } from "@/hooks/usePaginatedQuery";
+import { TablePagination } from "./shared/TablePagination";
+import { SelectAllMatchingBanner } from "./shared/SelectAllMatchingBanner";
+import {
+  TableQueryState,
+  between,
+  compileCustomFieldFilters,
+  eq,
+  inList,
+  searchText,
+  toSortColumn,
+} from "@/utils/tableQuery";
+import { CustomFieldCell } from "./shared/CustomFieldCell";
+import { CustomFieldsFilter, CustomFieldFilters } from "./shared/CustomFieldsFilter";
+import {
+  CustomFieldValue,
+  getCustomFieldName,
+  mergeCustomFieldColumns,
+} from "@/types/customField";
+
+const DEAL_SEARCH_FIELDS = ['deal_name', 'project_name', 'lead_name', 'customer_name', 'region'];
 
 interface ListViewProps {
-  deals: Deal[];
   onDealClick: (deal: Deal) => void;
-  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => void;
-  onDeleteDeals: (dealIds: string[]) => void;
+  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<void>;
+  onDeleteDeals: (dealIds: string[]) => Promise<void>;
   onImportDeals: (deals: Partial<Deal>[]) => void;
   initialStageFilter?: string;
+  // Limits the list to deals created by this user (owner=me in the URL)
+  ownerId?: string;
 }
 
 export const ListView = ({ 
-  deals, 
   onDealClick, 
   onUpdateDeal, 
   onDeleteDeals, 
   onImportDeals,
-  initialStageFilter = 'all'
+  initialStageFilter = 'all',
+  ownerId
 }: ListViewProps) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [leadOwnerFilter, setLeadOwnerFilter] = useState("all");
   const [filters, setFilters] = useState<AdvancedFilterState>(() => ({
-    stages: initialStageFilter !== 'all' ? [initialStageFilter as DealStage] : [],
+    stages: initialStageFilter !== 'all' ? initialStageFilter.split(',') : [],
     regions: [],
     leadOwners: [],
     priorities: [],
@@ -56,10 +83,10 @@ export const ListView = ({
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage] = useState(25);
 
-  // Sync stage filter when initialStageFilter prop changes (from URL)
+  // Sync stage filter when initialStageFilter prop changes (from URL); several stages are comma-separated
   useEffect(() => {
     if (initialStageFilter !== 'all') {
-      setFilters(prev => ({ ...prev, stages: [initialStageFilter as DealStage] }));
+      setFilters(prev => ({ ...prev, stages: initialStageFilter.split(',') }));
     }
   }, [initialStageFilter]);
   
@@ -124,12 +151,15 @@ export const ListView = ({
   const tableRef = useRef<HTMLTableElement>(null);
 
   const { toast } = useToast();
+  const { requestStageChange, stageGateProps } = useStageGate();
+  const { reportingCurrency, formatConverted } = useCurrency();
+  const { visibleFields: customFields, getFieldByColumn } = useCustomFields('deal');
+  const [customFieldFilters, setCustomFieldFilters] = useState<CustomFieldFilters>({});
 
-  const formatCurrency = (amount: number | undefined, currency: string = 'EUR') => {
-    if (!amount) return '-';
-    const symbols = { USD: '$', EUR: '€', INR: '₹' };
-    return `${symbols[currency as keyof typeof symbols] || '€'}${amount.toLocaleString()}`;
-  };
+  // Keep custom field columns in step with the field definitions
+  useEffect(() => {
+    setColumns(prev => mergeCustomFieldColumns(prev, customFields));
+  }, [customFields]);
 
   const formatDate = (date: string | undefined) => {
     if (!date) return '-';
@@ -193,11 +223,25 @@ export const ListView = ({
     }
   }, []);
 
+  // Selection is kept across pages, so the header checkbox only toggles the rows on screen
   const handleSelectAll = (checked: boolean) => {
-    if (checked) {
-      setSelectedDeals(new Set(filteredAndSortedDeals.map(deal => deal.id)));
-    } else {
-      setSelectedDeals(new Set());
+    setSelectedDeals(prev => {
+      const next = new Set(prev);
+      deals.forEach(deal => checked ? next.add(deal.id) : next.delete(deal.id));
+      return next;
+    });
+  };
+
+  const handleSelectAllMatching = async () => {
+    try {
+      setSelectedDeals(new Set(await fetchAllIds()));
+    } catch (error) {
+      console.error('Failed to select all deals:', error);
+      toast({
+        title: "Error",
+        description: "Failed to select all matching deals",
+        variant: "destructive",
+      });
     }
   };
 
@@ -211,11 +255,12 @@ export const ListView = ({
     setSelectedDeals(newSelected);
   };
 
-  const handleBulkDelete = () => {
+  const handleBulkDelete = async () => {
     if (selectedDeals.size === 0) return;
     
-    onDeleteDeals(Array.from(selectedDeals));
+    await onDeleteDeals(Array.from(selectedDeals));
     setSelectedDeals(new Set());
+    refetch();
     
     toast({
       title: "Deals deleted",
@@ -223,14 +268,10 @@ export const ListView = ({
     });
   };
 
-  const handleBulkExport = () => {
-    const selectedDealObjects = deals.filter(deal => selectedDeals.has(deal.id));
-    // Export logic handled by DealActionsDropdown
-  };
-
-  const handleInlineEdit = async (dealId: string, field: string, value: any) => {
+  const saveDealUpdates = async (dealId: string, updates: Partial<Deal>) => {
     try {
-      await onUpdateDeal(dealId, { [field]: value });
+      await onUpdateDeal(dealId, updates);
+      refetch();
       toast({
         title: "Deal updated",
         description: "Field updated successfully",
@@ -241,9 +282,22 @@ export const ListView = ({
         description: "Failed to update deal field",
         variant: "destructive",
       });
+      throw error;
     }
   };
 
+  const handleInlineEdit = async (dealId: string, field: string, value: any) => {
+    const deal = deals.find(d => d.id === dealId);
+    if (field === 'stage' && deal) {
+      requestStageChange(deal, value, (updates) => saveDealUpdates(dealId, updates));
+      return;
+    }
+    await saveDealUpdates(dealId, { [field]: value }).catch(() => undefined);
+  };
+
+  const handleCustomFieldEdit = (deal: Deal, fieldName: string, value: CustomFieldValue) =>
+    handleInlineEdit(deal.id, 'custom_fields', { ...deal.custom_fields, [fieldName]: value });
+
   const getFieldType = (field: string): 'text' | 'number' | 'date' | 'select' | 'textarea' | 'boolean' | 'stage' | 'priority' | 'currency' | 'userSelect' => {
     if (field === 'stage') return 'stage';
     if (field === 'priority') return 'priority';
@@ -262,22 +316,14 @@ export const ListView = ({
     .filter(col => col.visible)
     .sort((a, b) => a.order - b.order);
 
-  // Generate available options for multi-select filters
-  const availableOptions = useMemo(() => {
-    const regions = Array.from(new Set(deals.map(d => d.region).filter(Boolean)));
-    const leadOwners = Array.from(new Set(deals.map(d => d.lead_owner).filter(Boolean)));
-    const priorities = Array.from(new Set(deals.map(d => String(d.priority)).filter(p => p !== 'undefined')));
-    const probabilities = Array.from(new Set(deals.map(d => String(d.probability)).filter(p => p !== 'undefined')));
-    const handoffStatuses = Array.from(new Set(deals.map(d => d.handoff_status).filter(Boolean)));
-    
-    return {
-      regions,
-      leadOwners,
-      priorities,
-      probabilities,
-      handoffStatuses,
-    };
-  }, [deals]);
+  // Options for the multi-select filters come from the whole table, not just the loaded page
+  const availableOptions = {
+    regions: useDistinctValues('deals', 'region'),
+    leadOwners: useDistinctValues('deals', 'lead_owner'),
+    priorities: useDistinctValues('deals', 'priority'),
+    probabilities: useDistinctValues('deals', 'probability'),
+    handoffStatuses: useDistinctValues('deals', 'handoff_status'),
+  };
 
   useEffect(() => {
     const savedFilters = localStorage.getItem('deals-filters');
@@ -297,73 +343,55 @@ export const ListView = ({
     localStorage.setItem('deals-filters', JSON.stringify(filtersWithSearch));
   }, [filters, searchTerm]);
 
-  const filteredAndSortedDeals = deals
-    .filter(deal => {
+  const queryState = useMemo<TableQueryState>(() => ({
+    filters: [
       // Combine search from both searchTerm and filters.searchTerm
-      const allSearchTerms = [searchTerm, filters.searchTerm].filter(Boolean).join(' ').toLowerCase();
-      const matchesSearch = !allSearchTerms || 
-        deal.deal_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.project_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.lead_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.customer_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.region?.toLowerCase().includes(allSearchTerms);
-      
-      // Apply lead owner filter (standalone dropdown)
-      const matchesLeadOwnerDropdown = leadOwnerFilter === "all" || deal.lead_owner === leadOwnerFilter;
-      
-      // Apply multi-select filters
-      const matchesStages = filters.stages.length === 0 || filters.stages.includes(deal.stage);
-      const matchesRegions = filters.regions.length === 0 || filters.regions.includes(deal.region || '');
-      const matchesLeadOwners = filters.leadOwners.length === 0 || filters.leadOwners.includes(deal.lead_owner || '');
-      const matchesPriorities = filters.priorities.length === 0 || filters.priorities.includes(String(deal.priority || ''));
-      const matchesProbabilities = filters.probabilities.length === 0 || filters.probabilities.includes(String(deal.probability || ''));
-      const matchesHandoffStatuses = filters.handoffStatuses.length === 0 || filters.handoffStatuses.includes(deal.handoff_status || '');
-      
-      // Probability range filter
-      const dealProbability = deal.probability || 0;
-      const matchesProbabilityRange = dealProbability >= filters.probabilityRange[0] && dealProbability <= filters.probabilityRange[1];
-      
-      return matchesSearch && matchesLeadOwnerDropdown && matchesStages && matchesRegions && matchesLeadOwners && 
-             matchesPriorities && matchesProbabilities && matchesHandoffStatuses && matchesProbabilityRange;
-    })
-    .sort((a, b) => {
-      let aValue: any;
-      let bValue: any;
-
-      // Get the values for the sort field
-      if (['priority', 'probability', 'project_duration'].includes(sortBy)) {
-        aValue = a[sortBy as keyof Deal] || 0;
-        bValue = b[sortBy as keyof Deal] || 0;
-      } else if (['total_contract_value', 'total_revenue'].includes(sortBy)) {
-        aValue = a[sortBy as keyof Deal] || 0;
-        bValue = b[sortBy as keyof Deal] || 0;
-      } else if (['expected_closing_date', 'start_date', 'end_date', 'created_at', 'modified_at', 'proposal_due_date'].includes(sortBy)) {
-        const aDateValue = a[sortBy as keyof Deal];
-        const bDateValue = b[sortBy as keyof Deal];
-        aValue = new Date(typeof aDateValue === 'string' ? aDateValue : 0);
-        bValue = new Date(typeof bDateValue === 'string' ? bDateValue : 0);
-      } else {
-        // String fields
-        aValue = String(a[sortBy as keyof Deal] || '').toLowerCase();
-        bValue = String(b[sortBy as keyof Deal] || '').toLowerCase();
-      }
+      searchText([searchTerm, filters.searchTerm].filter(Boolean).join(' '), DEAL_SEARCH_FIELDS),
+      ownerId ? eq('created_by', ownerId) : null,
+      leadOwnerFilter !== "all" ? eq('lead_owner', leadOwnerFilter) : null,
+      inList('stage', filters.stages),
+      inList('region', filters.regions),
+      inList('lead_owner', filters.leadOwners),
+      inList('priority', filters.priorities),
+      inList('probability', filters.probabilities),
+      inList('handoff_status', filters.handoffStatuses),
+      // Deals without a probability count as 0%
+      filters.probabilityRange[0] > 0 || filters.probabilityRange[1] < 100
+        ? between('probability', filters.probabilityRange[0], filters.probabilityRange[1], filters.probabilityRange[0] === 0)
+        : null,
+      ...compileCustomFieldFilters(customFields, customFieldFilters),
+    ],
+    sort: { field: sortBy, direction: sortOrder },
+    page: currentPage,
+    pageSize: itemsPerPage,
+  }), [searchTerm, filters, ownerId, leadOwnerFilter, customFields, customFieldFilters, sortBy, sortOrder, currentPage, itemsPerPage]);
+
+  const {
+    rows: deals,
+    totalCount,
+    totalPages,
+    loading,
+    refetch,
+    fetchAllIds,
+  } = usePaginatedQuery<Deal>({
+    table: 'deals',
+    state: queryState,
+    sortColumn: toSortColumn(sortBy, getFieldByColumn(sortBy)),
+  });
 
-      if (sortOrder === "asc") {
-        return aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
-      } else {
-        return aValue > bValue ? -1 : aValue < bValue ? 1 : 0;
-      }
-    });
+  const { handleExportByIds } = useDealsImportExport({ onRefresh: refetch });
 
-  // Pagination
-  const totalPages = Math.ceil(filteredAndSortedDeals.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedDeals = filteredAndSortedDeals.slice(startIndex, startIndex + itemsPerPage);
+  // Deleting the last rows of the final page leaves it empty
+  useEffect(() => {
+    if (!loading && currentPage > totalPages) {
+      setCurrentPage(totalPages);
+    }
+  }, [loading, currentPage, totalPages]);
 
   // Reset to first page when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [filters, searchTerm, leadOwnerFilter]);
+  }, [filters, searchTerm, leadOwnerFilter, customFieldFilters]);
 
   const getActiveFiltersCount = () => {
     let count = 0;
@@ -375,6 +403,7 @@ export const ListView = ({
     if (filters.handoffStatuses.length > 0) count++;
     if (filters.searchTerm) count++;
     if (filters.probabilityRange[0] > 0 || filters.probabilityRange[1] < 100) count++;
+    count += Object.keys(customFieldFilters).length;
     return count;
   };
 
@@ -389,14 +418,14 @@ export const ListView = ({
       searchTerm: "",
       probabilityRange: [0, 100],
     });
+    setCustomFieldFilters({});
     setSearchTerm("");
   };
 
   const activeFiltersCount = getActiveFiltersCount();
   const hasActiveFilters = activeFiltersCount > 0 || searchTerm;
 
-  // Get selected deal objects for export
-  const selectedDealObjects = deals.filter(deal => selectedDeals.has(deal.id));
+  const allPageDealsSelected = deals.length > 0 && deals.every(deal => selectedDeals.has(deal.id));
 
   const handleCreateTask = (deal: Deal) => {
     setTaskDealId(deal.id);
@@ -443,6 +472,8 @@ export const ListView = ({
               availableHandoffStatuses={availableOptions.handoffStatuses}
             />
 
+            <CustomFieldsFilter fields={customFields} value={customFieldFilters} onChange={setCustomFieldFilters} />
+
             {hasActiveFilters && (
               <Button 
                 variant="ghost" 
@@ -457,10 +488,10 @@ export const ListView = ({
 
             <div className="flex items-center gap-2 flex-shrink-0">
               <DealActionsDropdown
-                deals={deals}
                 onImport={onImportDeals}
-                onRefresh={() => {}}
-                selectedDeals={selectedDealObjects}
+                onRefresh={refetch}
+                selectedDealIds={Array.from(selectedDeals)}
+                filters={queryState.filters}
                 onColumnCustomize={() => setColumnCustomizerOpen(true)}
                 showColumns={true}
               />
@@ -469,13 +500,23 @@ export const ListView = ({
         </div>
       </div>
 
+      <SelectAllMatchingBanner
+        selectedCount={selectedDeals.size}
+        pageCount={deals.length}
+        totalCount={totalCount}
+        allPageRowsSelected={allPageDealsSelected}
+        onSelectAll={handleSelectAllMatching}
+        onClearSelection={() => setSelectedDeals(new Set())}
+        entityName="deals"
+      />
+
       <div className="flex-1 min-h-0 overflow-auto">
         <Table ref={tableRef} className="w-full">
           <TableHeader className="sticky top-0 bg-primary/5 backdrop-blur-sm z-20 border-b-2 border-primary/20">
             <TableRow className="hover:bg-primary/10 transition-colors border-b border-primary/20">
               <TableHead className="w-12 min-w-12 bg-primary/10 border-r border-primary/20">
                 <Checkbox
-                  checked={selectedDeals.size === paginatedDeals.length && paginatedDeals.length > 0}
+                  checked={allPageDealsSelected}
                   onCheckedChange={handleSelectAll}
                   className="transition-all hover:scale-110"
                 />
@@ -517,14 +558,20 @@ export const ListView = ({
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredAndSortedDeals.length === 0 ? (
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={visibleColumns.length + 2} className="text-center py-8 text-muted-foreground">
+                  Loading deals...
+                </TableCell>
+              </TableRow>
+            ) : deals.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={visibleColumns.length + 2} className="text-center py-8 text-muted-foreground">
                   No deals found
                 </TableCell>
               </TableRow>
             ) : (
-              paginatedDeals.map((deal) => (
+              deals.map((deal) => (
                 <TableRow 
                   key={deal.id} 
                   className={`hover:bg-primary/5 transition-all duration-200 hover:shadow-sm ${
@@ -552,15 +599,27 @@ export const ListView = ({
                         maxWidth: `${columnWidths[column.field] || 120}px`
                       }}
                     >
-                      <InlineEditCell
-                        value={deal[column.field as keyof Deal]}
-                        field={column.field}
-                        dealId={deal.id}
-                        onSave={handleInlineEdit}
-                        type={getFieldType(column.field)}
-                        options={getFieldOptions(column.field)}
-                        userOptions={column.field === 'lead_owner' ? allProfiles : undefined}
-                      />
+                      {getFieldByColumn(column.field) ? (
+                        <CustomFieldCell
+                          field={getFieldByColumn(column.field)!}
+                          value={deal.custom_fields?.[getCustomFieldName(column.field)]}
+                          onSave={(value) => handleCustomFieldEdit(deal, getCustomFieldName(column.field), value)}
+                        />
+                      ) : (
+                        <InlineEditCell
+                          value={deal[column.field as keyof Deal]}
+                          field={column.field}
+                          dealId={deal.id}
+                          onSave={handleInlineEdit}
+                          type={getFieldType(column.field)}
+                          options={getFieldOptions(column.field)}
+                          userOptions={column.field === 'lead_owner' ? allProfiles : undefined}
+                          currency={deal.currency_type || reportingCurrency}
+                          convertedValue={getFieldType(column.field) === 'currency' && deal[column.field as keyof Deal]
+                            ? formatConverted(Number(deal[column.field as keyof Deal]), deal)
+                            : null}
+                        />
+                      )}
                     </TableCell>
                   ))}
                   <TableCell>
@@ -580,8 +639,14 @@ export const ListView = ({
                           {
                             label: "Delete",
                             icon: <Trash2 className="w-4 h-4" />,
-                            onClick: () => {
-                              onDeleteDeals([deal.id]);
+                            onClick: async () => {
+                              await onDeleteDeals([deal.id]);
+                              setSelectedDeals(prev => {
+                                const next = new Set(prev);
+                                next.delete(deal.id);
+                                return next;
+                              });
+                              refetch();
                               toast({
                                 title: "Deal deleted",
                                 description: `Successfully deleted ${deal.project_name || 'deal'}`,
@@ -606,14 +671,14 @@ export const ListView = ({
           <BulkActionsBar
             selectedCount={selectedDeals.size}
             onDelete={handleBulkDelete}
-            onExport={handleBulkExport}
+            onExport={() => handleExportByIds(Array.from(selectedDeals))}
             onClearSelection={() => setSelectedDeals(new Set())}
           />
         )}
 
         <div className="flex flex-col sm:flex-row items-center justify-between gap-4 p-4">
           <div className="flex flex-col sm:flex-row items-center gap-4">
-            <span className="text-base font-semibold text-foreground">Total: <strong className="text-primary">{filteredAndSortedDeals.length}</strong> deals</span>
+            <span className="text-base font-semibold text-foreground">Total: <strong className="text-primary">{totalCount}</strong> deals</span>
             {hasActiveFilters && (
               <div className="flex items-center gap-2">
                 <span>Active filters:</span>
@@ -636,27 +701,14 @@ export const ListView = ({
           </div>
 
           {totalPages > 1 && (
-            <div className="flex items-center gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                disabled={currentPage === 1}
-              >
-                Previous
-              </Button>
-              <span className="text-sm text-muted-foreground px-3">
-                Page {currentPage} of {totalPages}
-              </span>
-              <Button
-                variant="outline"
-                size="sm"  
-                onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                disabled={currentPage === totalPages}
-              >
-                Next
-              </Button>
-            </div>
+            <TablePagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              itemsPerPage={itemsPerPage}
+              totalItems={totalCount}
+              onPageChange={setCurrentPage}
+              entityName="deals"
+            />
           )}
         </div>
       </div>
@@ -674,6 +726,8 @@ export const ListView = ({
         columns={columns}
         onColumnsChange={setColumns}
       />
+
+      <StageGateDialog {...stageGateProps} />
     </div>
   );
 };
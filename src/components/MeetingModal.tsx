@@ -19,6 +19,10 @@ import { MeetingOutcomeSelect } from "@/components/meetings/MeetingOutcomeSelect
 import { MeetingConflictWarning } from "@/components/meetings/MeetingConflictWarning";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { getMeetingStatus } from "@/utils/meetingStatus";
+import { CustomFieldsSection } from "@/components/shared/CustomFieldsSection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { Json } from "@/integrations/supabase/types";
+import { CustomFieldValues, getCustomFieldValues, validateCustomFieldValues } from "@/types/customField";
 
 
 // Comprehensive timezones (40 options, ordered by GMT offset)
@@ -291,6 +295,7 @@ interface Meeting {
   status: string;
   outcome?: string | null;
   notes?: string | null;
+  custom_fields?: Json;
 }
 interface Lead {
   id: string;
@@ -321,6 +326,9 @@ export const MeetingModal = ({
     toast
   } = useToast();
   const [loading, setLoading] = useState(false);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const { visibleFields: customFields } = useCustomFields('meeting');
   const [creatingTeamsMeeting, setCreatingTeamsMeeting] = useState(false);
   const [cancellingMeeting, setCancellingMeeting] = useState(false);
   const [leads, setLeads] = useState<Lead[]>([]);
@@ -586,6 +594,13 @@ export const MeetingModal = ({
     
     initializeModal();
   }, [open, meeting]);
+
+  useEffect(() => {
+    if (open) {
+      setCustomFieldValues(getCustomFieldValues(meeting));
+      setCustomFieldErrors({});
+    }
+  }, [open, meeting]);
   const fetchLeadsAndContacts = async () => {
     try {
       const [leadsRes, contactsRes] = await Promise.all([supabase.from('leads').select('id, lead_name, email').order('lead_name'), supabase.from('contacts').select('id, contact_name, email').order('contact_name')]);
@@ -722,6 +737,17 @@ export const MeetingModal = ({
       return;
     }
 
+    const fieldErrors = validateCustomFieldValues(customFields, customFieldValues);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      toast({
+        title: "Missing fields",
+        description: Object.values(fieldErrors).join(', '),
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
     try {
       const joinUrl = joinUrlOverride ?? formData.join_url ?? null;
@@ -767,6 +793,7 @@ export const MeetingModal = ({
             : null,
         status: options?.forceInsert ? "scheduled" : formData.status,
         outcome: formData.outcome || null,
+        custom_fields: customFieldValues,
       };
 
       // Sync updates back to Teams/Outlook (existing meetings only)
@@ -1131,6 +1158,13 @@ export const MeetingModal = ({
           }))} placeholder="Meeting agenda..." rows={2} className="text-xs resize-none min-h-[60px]" />
           </div>
 
+          <CustomFieldsSection
+            entityType="meeting"
+            values={customFieldValues}
+            onChange={setCustomFieldValues}
+            errors={customFieldErrors}
+          />
+
           {/* Outcome - only for completed meetings */}
           {isPersistedMeeting && formData.status === 'completed' && <MeetingOutcomeSelect value={formData.outcome} onChange={value => setFormData(prev => ({
           ...prev,
@@ -100,6 +100,7 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
       case 'action_item':
         return '📋';
       case 'lead_update':
+      case 'lead_assigned':
         return '👤';
       case 'deal_update':
         return '💼';
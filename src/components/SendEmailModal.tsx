@@ -6,9 +6,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Mail, Send, Loader2, Paperclip, X, FileIcon } from "lucide-react";
+import { RichTextEditor } from "@/components/shared/RichTextEditor";
+import { escapeHtml, isHtmlEmpty, toEmailHtml } from "@/utils/emailHtml";
 
 // Generic recipient interface that works with contacts, leads, and accounts
 export interface EmailRecipient {
@@ -23,6 +24,7 @@ interface EmailTemplate {
   name: string;
   subject: string;
   body: string;
+  is_html: boolean;
 }
 
 interface SendEmailModalProps {
@@ -33,6 +35,9 @@ interface SendEmailModalProps {
   leadId?: string | null;
   accountId?: string | null;
   onEmailSent?: () => void;
+  // Prefilled when opened from a record, e.g. a generated quote
+  initialSubject?: string;
+  initialAttachments?: File[];
   // Legacy prop for backwards compatibility
   contact?: {
     contact_name: string;
@@ -42,7 +47,7 @@ interface SendEmailModalProps {
   } | null;
 }
 
-export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadId, accountId, onEmailSent, contact }: SendEmailModalProps) => {
+export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadId, accountId, onEmailSent, initialSubject, initialAttachments, contact }: SendEmailModalProps) => {
   const { toast } = useToast();
   const { user } = useAuth();
   const [templates, setTemplates] = useState<EmailTemplate[]>([]);
@@ -67,11 +72,11 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     if (open) {
       fetchTemplates();
       setSelectedTemplate("");
-      setSubject("");
+      setSubject(initialSubject || "");
       setBody("");
-      setAttachments([]);
+      setAttachments(initialAttachments || []);
     }
-  }, [open]);
+  }, [open, initialSubject, initialAttachments]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -127,7 +132,7 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     try {
       const { data, error } = await supabase
         .from('email_templates')
-        .select('id, name, subject, body')
+        .select('id, name, subject, body, is_html')
         .order('name');
 
       if (error) throw error;
@@ -137,15 +142,17 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     }
   };
 
-  const replaceVariables = (text: string, recipientData: EmailRecipient | null) => {
+  // Values going into the HTML body are escaped so names cannot inject markup
+  const replaceVariables = (text: string, recipientData: EmailRecipient | null, html = false) => {
     if (!recipientData) return text;
+    const value = (v?: string) => (html ? escapeHtml(v || '') : v || '');
     
     return text
-      .replace(/\{\{contact_name\}\}/g, recipientData.name || '')
-      .replace(/\{\{name\}\}/g, recipientData.name || '')
-      .replace(/\{\{company_name\}\}/g, recipientData.company_name || '')
-      .replace(/\{\{position\}\}/g, recipientData.position || '')
-      .replace(/\{\{email\}\}/g, recipientData.email || '');
+      .replace(/\{\{contact_name\}\}/g, value(recipientData.name))
+      .replace(/\{\{name\}\}/g, value(recipientData.name))
+      .replace(/\{\{company_name\}\}/g, value(recipientData.company_name))
+      .replace(/\{\{position\}\}/g, value(recipientData.position))
+      .replace(/\{\{email\}\}/g, value(recipientData.email));
   };
 
   const handleTemplateSelect = (templateId: string) => {
@@ -160,7 +167,7 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     const template = templates.find(t => t.id === templateId);
     if (template) {
       setSubject(replaceVariables(template.subject, emailRecipient));
-      setBody(replaceVariables(template.body, emailRecipient));
+      setBody(replaceVariables(toEmailHtml(template.body, template.is_html), emailRecipient, true));
     }
   };
 
@@ -183,6 +190,15 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
       return;
     }
 
+    if (isHtmlEmpty(body)) {
+      toast({
+        title: "Message required",
+        description: "Please enter an email message",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSending(true);
 
     try {
@@ -195,66 +211,59 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
         }))
       );
 
-      const { data, error } = await supabase.functions.invoke('send-email', {
-        body: {
-          to: emailRecipient.email,
-          toName: emailRecipient.name,
-          subject: subject.trim(),
-          body: body.trim(),
-          from: senderEmail,
-          attachments: attachmentData,
-        },
-      });
-
-      if (error) throw error;
-
-      if (data?.error) {
-        throw new Error(data.error);
-      }
-
-      // Log email to email_history table
-      try {
-        await supabase.from('email_history').insert({
+      // The history entry is created first so its id can be used to track link clicks
+      const { data: historyEntry, error: historyError } = await supabase
+        .from('email_history')
+        .insert({
           recipient_email: emailRecipient.email,
           recipient_name: emailRecipient.name,
           subject: subject.trim(),
-          body: body.trim(),
+          body,
+          is_html: true,
           sender_email: senderEmail,
           sent_by: user?.id,
           contact_id: contactId || null,
           lead_id: leadId || null,
           account_id: accountId || null,
           status: 'sent',
-        });
-      } catch (historyError) {
+        })
+        .select('id')
+        .single();
+
+      if (historyError) {
         console.error('Error logging email to history:', historyError);
       }
 
-      // Update contact email tracking stats if contactId is provided
+      const { data, error } = await supabase.functions.invoke('send-email', {
+        body: {
+          to: emailRecipient.email,
+          toName: emailRecipient.name,
+          subject: subject.trim(),
+          body,
+          isHtml: true,
+          trackingId: historyEntry?.id,
+          from: senderEmail,
+          attachments: attachmentData,
+        },
+      });
+
+      if (error || data?.error) {
+        // Emails that were never sent are not kept in the history
+        if (historyEntry) {
+          await supabase.from('email_history').delete().eq('id', historyEntry.id);
+        }
+        throw error || new Error(data.error);
+      }
+
+      // Opens and clicks are rolled up by the tracking functions; sending only marks the contact as contacted
       if (contactId) {
         try {
-          // Get current stats
-          const { data: contactData } = await supabase
+          await supabase
             .from('contacts')
-            .select('email_opens, email_clicks, engagement_score')
-            .eq('id', contactId)
-            .single();
-
-          if (contactData) {
-            const newEmailOpens = (contactData.email_opens || 0) + 1;
-            const newEngagementScore = Math.min((contactData.engagement_score || 0) + 5, 100);
-
-            await supabase
-              .from('contacts')
-              .update({
-                email_opens: newEmailOpens,
-                engagement_score: newEngagementScore,
-                last_contacted_at: new Date().toISOString(),
-              })
-              .eq('id', contactId);
-          }
+            .update({ last_contacted_at: new Date().toISOString() })
+            .eq('id', contactId);
         } catch (updateError) {
-          console.error('Error updating contact email stats:', updateError);
+          console.error('Error updating contact last contacted date:', updateError);
         }
       }
 
@@ -335,13 +344,15 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
 
           <div className="space-y-2">
             <Label htmlFor="body">Message</Label>
-            <Textarea
+            <RichTextEditor
               id="body"
               value={body}
-              onChange={(e) => setBody(e.target.value)}
+              onChange={setBody}
               placeholder="Email message..."
-              rows={6}
             />
+            <p className="text-xs text-muted-foreground">
+              Links are tracked so clicks show up in the email history.
+            </p>
           </div>
 
           <div className="space-y-2">
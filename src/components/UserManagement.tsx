@@ -182,7 +182,7 @@ const UserManagement = () => {
       if (error) throw error;
       toast({
         title: "Success",
-        description: `User ${action}d successfully`
+        description: `User ${action}d successfully${data?.reassignedLeads ? `; ${data.reassignedLeads} lead(s) reassigned` : ''}`
       });
       await fetchUsers();
       await refreshUser();
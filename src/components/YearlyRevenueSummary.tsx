@@ -2,7 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { TrendingUp, Target, Euro, Calendar, Edit2, Check, X, AlertCircle } from "lucide-react";
+import { TrendingUp, Target, Banknote, Calendar, Edit2, Check, X, AlertCircle } from "lucide-react";
 import { NotificationBell } from "@/components/NotificationBell";
 import { useYearlyRevenueData, useAvailableYears } from "@/hooks/useYearlyRevenueData";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -11,6 +11,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCurrency } from "@/hooks/useCurrency";
+import { getCurrencySymbol } from "@/utils/currency";
 interface YearlyRevenueSummaryProps {
   selectedYear?: number;
 }
@@ -24,6 +27,8 @@ const YearlyRevenueSummary = ({
     toast
   } = useToast();
   const navigate = useNavigate();
+  const { stages } = usePipelineStages();
+  const projectedStageNames = stages.filter(s => s.is_projected_stage).map(s => s.stage_name);
   const {
     years,
     isLoading: yearsLoading
@@ -41,14 +46,11 @@ const YearlyRevenueSummary = ({
   } = useYearlyRevenueData(selectedYear);
   const [editingTarget, setEditingTarget] = useState(false);
   const [targetValue, setTargetValue] = useState('');
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount);
-  };
+  // Revenue and targets are kept in the reporting currency and shown in the user's currency
+  const {
+    formatReporting: formatCurrency,
+    reportingCurrency
+  } = useCurrency();
   const getProgressPercentage = (actual: number, target: number) => {
     if (target === 0) return 0;
     return actual / target * 100;
@@ -83,9 +85,10 @@ const YearlyRevenueSummary = ({
   const handleCardClick = (type: 'actual' | 'projected', quarter?: string) => {
     const params = new URLSearchParams();
     if (type === 'actual') {
-      params.append('stage', 'Won');
-    } else {
-      params.append('stage', 'RFQ');
+      params.append('stage', stages.find(s => s.is_won_stage)?.stage_name || 'Won');
+    } else if (projectedStageNames.length > 0) {
+      // The stages counted in projected revenue
+      params.append('stage', projectedStageNames.join(','));
     }
     if (quarter) {
       const quarterNum = parseInt(quarter.replace('q', ''));
@@ -153,7 +156,7 @@ const YearlyRevenueSummary = ({
           <CardContent>
             {editingTarget ? (
               <div className="flex items-center gap-1">
-                <span className="text-lg font-semibold">€</span>
+                <span className="text-lg font-semibold">{getCurrencySymbol(reportingCurrency)}</span>
                 <Input 
                   value={targetValue ? Number(targetValue).toLocaleString('en-US') : ''} 
                   onChange={e => {
@@ -176,7 +179,7 @@ const YearlyRevenueSummary = ({
         <Card className="hover-scale cursor-pointer" onClick={() => handleCardClick('actual')}>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Actual Revenue</CardTitle>
-            <Euro className="w-4 h-4 text-green-600" />
+            <Banknote className="w-4 h-4 text-green-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
@@ -197,7 +200,9 @@ const YearlyRevenueSummary = ({
             <div className="text-2xl font-bold text-blue-600">
               {formatCurrency(revenueData?.totalProjected || 0)}
             </div>
-            <p className="text-xs text-muted-foreground">From RFQ deals</p>
+            <p className="text-xs text-muted-foreground">
+              {projectedStageNames.length > 0 ? `From ${projectedStageNames.join(', ')} deals` : 'No stage counts toward projected revenue'}
+            </p>
           </CardContent>
         </Card>
 
@@ -215,6 +220,11 @@ const YearlyRevenueSummary = ({
         </Card>
       </div>
 
+      {!!revenueData?.unconvertedDeals && <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <AlertCircle className="w-4 h-4" />
+          {revenueData.unconvertedDeals} deal(s) have no exchange rate into {revenueData.currency} and are counted unconverted
+        </p>}
+
       {/* Quarterly Breakdown */}
       <Card>
         <CardHeader>
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { User, Briefcase, ExternalLink, Loader2, Mail, Phone } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 
 interface Contact {
   id: string;
@@ -30,6 +31,7 @@ interface AccountAssociationsProps {
 
 export const AccountAssociations = ({ accountId, companyName }: AccountAssociationsProps) => {
   const navigate = useNavigate();
+  const { getStageStyle } = usePipelineStages();
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [deals, setDeals] = useState<Deal[]>([]);
   const [loading, setLoading] = useState(true);
@@ -67,20 +69,6 @@ export const AccountAssociations = ({ accountId, companyName }: AccountAssociati
     }
   };
 
-  const getStageColor = (stage: string) => {
-    const stageColors: Record<string, string> = {
-      'Lead': 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
-      'Qualified': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
-      'RFQ': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
-      'Discussions': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
-      'Offered': 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
-      'Won': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
-      'Lost': 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
-      'Dropped': 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
-    };
-    return stageColors[stage] || 'bg-gray-100 text-gray-800';
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center py-8">
@@ -180,7 +168,7 @@ export const AccountAssociations = ({ accountId, companyName }: AccountAssociati
                         </p>
                       )}
                     </div>
-                    <Badge className={`ml-2 ${getStageColor(deal.stage)}`}>
+                    <Badge variant="outline" className="ml-2" style={getStageStyle(deal.stage)}>
                       {deal.stage}
                     </Badge>
                   </div>
@@ -13,6 +13,10 @@ import { useToast } from "@/hooks/use-toast";
 import { AccountViewModal } from "../AccountViewModal";
 import { SendEmailModal } from "../SendEmailModal";
 import { MeetingModal } from "../MeetingModal";
+import { CustomFieldCell } from "../shared/CustomFieldCell";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldValue, getCustomFieldName, getCustomFieldValues } from "@/types/customField";
+import { Json } from "@/integrations/supabase/types";
 interface Contact {
   id: string;
   contact_name: string;
@@ -27,6 +31,7 @@ interface Contact {
   created_by?: string;
   linkedin?: string;
   website?: string;
+  custom_fields?: Json;
   [key: string]: any;
 }
 interface ContactTableBodyProps {
@@ -43,6 +48,7 @@ interface ContactTableBodyProps {
   sortField: string | null;
   sortDirection: 'asc' | 'desc';
   onSort: (field: string) => void;
+  onCustomFieldSave: (contact: Contact, fieldName: string, value: CustomFieldValue) => Promise<void>;
 }
 export const ContactTableBody = ({
   loading,
@@ -57,7 +63,8 @@ export const ContactTableBody = ({
   onRefresh,
   sortField,
   sortDirection,
-  onSort
+  onSort,
+  onCustomFieldSave
 }: ContactTableBodyProps) => {
   const {
     toast
@@ -68,6 +75,7 @@ export const ContactTableBody = ({
   const [emailModalOpen, setEmailModalOpen] = useState(false);
   const [meetingModalOpen, setMeetingModalOpen] = useState(false);
   const [meetingContact, setMeetingContact] = useState<Contact | null>(null);
+  const { getFieldByColumn } = useCustomFields('contact');
 
   // Get all unique user IDs that we need to fetch display names for
   const contactOwnerIds = [...new Set(pageContacts.map(c => c.contact_owner).filter(Boolean))];
@@ -82,12 +90,14 @@ export const ContactTableBody = ({
     contact_owner: c.contact_owner,
     created_by: c.created_by
   })));
+  const pageContactIds = pageContacts.map(c => c.id);
+  const allPageContactsSelected = pageContacts.length > 0 && pageContactIds.every(id => selectedContacts.includes(id));
+  // Selection is kept across pages, so the header checkbox only toggles the rows on screen
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      const pageContactIds = pageContacts.slice(0, 50).map(c => c.id);
-      setSelectedContacts(pageContactIds);
+      setSelectedContacts(prev => [...new Set([...prev, ...pageContactIds])]);
     } else {
-      setSelectedContacts([]);
+      setSelectedContacts(prev => prev.filter(id => !pageContactIds.includes(id)));
     }
   };
   const handleSelectContact = (contactId: string, checked: boolean) => {
@@ -220,7 +230,7 @@ export const ContactTableBody = ({
           <TableRow className="bg-muted/50 hover:bg-muted/60 border-b-2">
             <TableHead className="w-12 text-center font-bold text-foreground">
               <div className="flex justify-center">
-                <Checkbox checked={selectedContacts.length > 0 && selectedContacts.length === Math.min(pageContacts.length, 50)} onCheckedChange={handleSelectAll} />
+                <Checkbox checked={allPageContactsSelected} onCheckedChange={handleSelectAll} />
               </div>
             </TableHead>
             {visibleColumns.map(column => <TableHead key={column.field} className="text-left font-bold text-foreground px-4 py-3">
@@ -252,7 +262,7 @@ export const ContactTableBody = ({
                 }
               }} className="text-primary hover:underline font-medium text-left truncate max-w-[200px]" title={contact.account_company_name}>
                         {contact.account_company_name}
-                      </button> : <span className="truncate max-w-[200px]" title={String(getDisplayValue(contact, column.field))}>
+                      </button> : getFieldByColumn(column.field) ? <CustomFieldCell field={getFieldByColumn(column.field)!} value={getCustomFieldValues(contact)[getCustomFieldName(column.field)]} onSave={value => onCustomFieldSave(contact, getCustomFieldName(column.field), value)} /> : <span className="truncate max-w-[200px]" title={String(getDisplayValue(contact, column.field))}>
                         {getDisplayValue(contact, column.field)}
                       </span>}
                   </div>
@@ -1,9 +1,12 @@
-import { Search, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
-import { Input } from "@/components/ui/input";
+import { ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { CustomFieldsFilter, CustomFieldFilters } from "../shared/CustomFieldsFilter";
+import { AdvancedSearchBar, SearchGroup } from "../shared/AdvancedSearchBar";
+import { CustomFieldDefinition } from "@/types/customField";
+import { SearchFieldType } from "@/utils/tableQuery";
 
 interface Contact {
   id: string;
@@ -15,6 +18,8 @@ interface Contact {
 interface ContactTableHeaderProps {
   searchTerm: string;
   setSearchTerm: (term: string) => void;
+  searchFields: { value: string; label: string; type?: SearchFieldType }[];
+  setSearchGroups: (groups: SearchGroup[]) => void;
   selectedContacts: string[];
   setSelectedContacts: React.Dispatch<React.SetStateAction<string[]>>;
   pageContacts: Contact[];
@@ -25,11 +30,16 @@ interface ContactTableHeaderProps {
   setSourceFilter: (value: string) => void;
   ownerFilter: string;
   setOwnerFilter: (value: string) => void;
+  customFields: CustomFieldDefinition[];
+  customFieldFilters: CustomFieldFilters;
+  setCustomFieldFilters: (filters: CustomFieldFilters) => void;
 }
 
 export const ContactTableHeader = ({
   searchTerm,
   setSearchTerm,
+  searchFields,
+  setSearchGroups,
   selectedContacts,
   setSelectedContacts,
   pageContacts,
@@ -39,7 +49,10 @@ export const ContactTableHeader = ({
   sourceFilter,
   setSourceFilter,
   ownerFilter,
-  setOwnerFilter
+  setOwnerFilter,
+  customFields,
+  customFieldFilters,
+  setCustomFieldFilters
 }: ContactTableHeaderProps) => {
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
@@ -67,14 +80,13 @@ export const ContactTableHeader = ({
   return (
     <div className="flex items-center justify-between">
       <div className="flex items-center gap-2">
-        <div className="relative w-64">
-          <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4 pointer-events-none" />
-          <Input 
-            placeholder="Search contacts..." 
-            value={searchTerm} 
-            onChange={(e) => setSearchTerm(e.target.value)} 
-            className="pl-9" 
-            inputSize="control"
+        <div className="w-80">
+          <AdvancedSearchBar
+            fields={searchFields}
+            onSearch={setSearchGroups}
+            placeholder="Search contacts..."
+            simpleSearch={searchTerm}
+            onSimpleSearchChange={setSearchTerm}
           />
         </div>
         
@@ -109,6 +121,8 @@ export const ContactTableHeader = ({
             ))}
           </SelectContent>
         </Select>
+
+        <CustomFieldsFilter fields={customFields} value={customFieldFilters} onChange={setCustomFieldFilters} />
       </div>
     </div>
   );
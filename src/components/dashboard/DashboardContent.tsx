@@ -41,7 +41,6 @@ export const DashboardContent = ({
       ) : (
         <div className="w-full">
           <ListView
-            deals={deals}
             onDealClick={onDealClick}
             onUpdateDeal={onUpdateDeal}
             onDeleteDeals={onDeleteDeals}
@@ -2,15 +2,17 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BarChart3, Users, Euro } from "lucide-react";
 import { Deal } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 
 interface DashboardStatsProps {
   deals: Deal[];
 }
 
 export const DashboardStats = ({ deals }: DashboardStatsProps) => {
+  const { isWonStage } = usePipelineStages();
   const totalDeals = deals.length;
   const totalValue = deals.reduce((sum, deal) => sum + (deal.total_contract_value || 0), 0);
-  const wonDeals = deals.filter(deal => deal.stage === 'Won').length;
+  const wonDeals = deals.filter(deal => isWonStage(deal.stage)).length;
 
   return (
     <div className="w-full px-6 py-6">
@@ -27,6 +27,10 @@ import { AccountModal } from "@/components/AccountModal";
 import { useTasks } from "@/hooks/useTasks";
 import { Task } from "@/types/task";
 import { EmptyState } from "@/components/shared/EmptyState";
+import { fetchPipelineStages } from "@/hooks/usePipelineStages";
+import { fetchCurrencyContext } from "@/hooks/useCurrency";
+import { convertDealAmount } from "@/utils/currency";
+import { isClosedStage, isLostStage, isWonStage, getWonStageNames, getLostStageNames } from "@/types/deal";
 
 const GRID_COLS = 12;
 
@@ -434,26 +438,33 @@ const UserDashboard = () => {
   const { data: dealsData, isLoading: dealsLoading } = useQuery({
     queryKey: ['user-deals-enhanced', user?.id],
     queryFn: async () => {
-      const { data, error } = await supabase.from('deals').select('id, stage, total_contract_value, deal_name, created_by, lead_owner, expected_closing_date');
+      const { data, error } = await supabase.from('deals').select('id, stage, total_contract_value, currency_type, locked_exchange_rate, locked_rate_currency, locked_rate_date, deal_name, created_by, lead_owner, expected_closing_date');
       if (error) throw error;
+      const stages = await fetchPipelineStages();
+      const { reportingCurrency, rates } = await fetchCurrencyContext();
+      const valueInReporting = (d: NonNullable<typeof data>[number]) =>
+        convertDealAmount(d.total_contract_value || 0, d, rates, reportingCurrency) ?? (d.total_contract_value || 0);
       const userDeals = (data || []).filter(d => d.created_by === user?.id || d.lead_owner === user?.id);
-      const activeDeals = userDeals.filter(d => !['Won', 'Lost', 'Dropped'].includes(d.stage));
-      const wonDeals = userDeals.filter(d => d.stage === 'Won');
-      const totalPipeline = activeDeals.reduce((sum, d) => sum + (d.total_contract_value || 0), 0);
-      const wonValue = wonDeals.reduce((sum, d) => sum + (d.total_contract_value || 0), 0);
+      const activeDeals = userDeals.filter(d => !isClosedStage(d.stage, stages));
+      const wonDeals = userDeals.filter(d => isWonStage(d.stage, stages));
+      const lostDeals = userDeals.filter(d => isLostStage(d.stage, stages));
+      const totalPipeline = activeDeals.reduce((sum, d) => sum + valueInReporting(d), 0);
+      const wonValue = wonDeals.reduce((sum, d) => sum + valueInReporting(d), 0);
       
       return {
         total: userDeals.length,
         active: activeDeals.length,
         won: wonDeals.length,
-        lost: userDeals.filter(d => d.stage === 'Lost').length,
+        lost: lostDeals.length,
         totalPipeline,
         wonValue,
+        wonStage: getWonStageNames(stages)[0] || 'Won',
+        lostStage: getLostStageNames(stages)[0] || 'Lost',
         byStage: {
           rfq: userDeals.filter(d => d.stage === 'RFQ').length,
           offered: userDeals.filter(d => d.stage === 'Offered').length,
           won: wonDeals.length,
-          lost: userDeals.filter(d => d.stage === 'Lost').length,
+          lost: lostDeals.length,
         }
       };
     },
@@ -951,14 +962,14 @@ const UserDashboard = () => {
                 </div>
                 <div 
                   className="text-center p-1.5 bg-green-50 dark:bg-green-950/20 rounded cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/deals?stage=Won&owner=me'); }}
+                  onClick={(e) => { e.stopPropagation(); navigate(`/deals?stage=${encodeURIComponent(dealsData?.wonStage || 'Won')}&owner=me`); }}
                 >
                   <p className="text-base font-bold text-green-600 leading-tight">{dealsData?.byStage?.won || 0}</p>
                   <p className="text-[9px] text-muted-foreground leading-tight">Won</p>
                 </div>
                 <div 
                   className="text-center p-1.5 bg-red-50 dark:bg-red-950/20 rounded cursor-pointer hover:bg-red-100 dark:hover:bg-red-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
-                  onClick={(e) => { e.stopPropagation(); navigate('/deals?stage=Lost&owner=me'); }}
+                  onClick={(e) => { e.stopPropagation(); navigate(`/deals?stage=${encodeURIComponent(dealsData?.lostStage || 'Lost')}&owner=me`); }}
                 >
                   <p className="text-base font-bold text-red-600 leading-tight">{dealsData?.byStage?.lost || 0}</p>
                   <p className="text-[9px] text-muted-foreground leading-tight">Lost</p>
@@ -1779,8 +1790,8 @@ const UserDashboard = () => {
         onOpenChange={(open) => { setTaskModalOpen(open); if (!open) setSelectedTask(null); }}
         task={selectedTask}
         onSubmit={createTask}
-        onUpdate={async (taskId, updates, original) => {
-          const result = await updateTask(taskId, updates, original);
+        onUpdate={async (taskId, updates, original, scope) => {
+          const result = await updateTask(taskId, updates, original, scope);
           if (result) queryClient.invalidateQueries({ queryKey: ['user-task-reminders-enhanced', user?.id] });
           return result;
         }}
@@ -0,0 +1,44 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Deal } from "@/types/deal";
+import { FormFieldRenderer } from "./FormFieldRenderer";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldValue, CustomFieldValues, getCustomFieldName, toCustomFieldColumn } from "@/types/customField";
+
+interface CustomFieldsFormProps {
+  formData: Partial<Deal>;
+  onFieldChange: (field: 'custom_fields', value: CustomFieldValues) => void;
+  fieldErrors: Record<string, string>;
+}
+
+// Admin-defined deal fields, shown for every stage
+export const CustomFieldsForm = ({ formData, onFieldChange, fieldErrors }: CustomFieldsFormProps) => {
+  const { visibleFields } = useCustomFields('deal');
+
+  if (visibleFields.length === 0) return null;
+
+  const handleChange = (field: string, value: CustomFieldValue) => {
+    onFieldChange('custom_fields', { ...formData.custom_fields, [getCustomFieldName(field)]: value });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Additional Fields</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {visibleFields.map(customField => (
+            <FormFieldRenderer
+              key={customField.id}
+              field={toCustomFieldColumn(customField.field_name)}
+              value={formData.custom_fields?.[customField.field_name]}
+              onChange={handleChange}
+              error={fieldErrors[customField.field_name]}
+              customField={customField}
+            />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,327 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { formatCurrency } from "@/utils/currency";
+import { LineItem, calculateLineItem, calculateQuoteTotals } from "@/utils/quotes";
+
+interface PriceBook {
+  id: string;
+  name: string;
+  currency: string;
+  is_default: boolean;
+}
+
+interface PriceBookProduct {
+  product_id: string;
+  unit_price: number;
+  name: string;
+  description: string | null;
+  tax_rate: number;
+}
+
+interface DealLineItemsFormProps {
+  dealId: string;
+  currency: string;
+  // Called with the rolled-up contract value so the open form doesn't save a stale one
+  onTotalChange: (netTotal: number) => void;
+}
+
+type EditableField = 'name' | 'quantity' | 'unit_price' | 'discount_percent' | 'tax_rate';
+
+export const DealLineItemsForm = ({ dealId, currency, onTotalChange }: DealLineItemsFormProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [items, setItems] = useState<LineItem[]>([]);
+  const [priceBooks, setPriceBooks] = useState<PriceBook[]>([]);
+  const [priceBookId, setPriceBookId] = useState<string>('');
+  const [products, setProducts] = useState<PriceBookProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchItems = useCallback(async () => {
+    const [itemsResult, booksResult] = await Promise.all([
+      supabase
+        .from('deal_line_items')
+        .select('id, product_id, name, description, quantity, unit_price, discount_percent, tax_rate, position')
+        .eq('deal_id', dealId)
+        .order('position'),
+      supabase
+        .from('price_books')
+        .select('id, name, currency, is_default')
+        .eq('is_active', true)
+        .order('name'),
+    ]);
+
+    if (itemsResult.error) console.error('Error fetching line items:', itemsResult.error);
+    if (booksResult.error) console.error('Error fetching price books:', booksResult.error);
+
+    const books = booksResult.data || [];
+    setItems(itemsResult.data || []);
+    setPriceBooks(books);
+    setPriceBookId(prev => prev
+      || books.find(b => b.currency === currency)?.id
+      || books.find(b => b.is_default)?.id
+      || books[0]?.id
+      || '');
+    setLoading(false);
+  }, [dealId, currency]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  useEffect(() => {
+    if (!priceBookId) return;
+    supabase
+      .from('price_book_entries')
+      .select('product_id, unit_price, products(name, description, tax_rate, is_active)')
+      .eq('price_book_id', priceBookId)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching price book entries:', error);
+          return;
+        }
+        setProducts((data || [])
+          .filter(entry => entry.products?.is_active)
+          .map(entry => ({
+            product_id: entry.product_id,
+            unit_price: Number(entry.unit_price),
+            name: entry.products!.name,
+            description: entry.products!.description,
+            tax_rate: Number(entry.products!.tax_rate),
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name)));
+      });
+  }, [priceBookId]);
+
+  const reportTotal = (nextItems: LineItem[]) => {
+    if (nextItems.length === 0) return;
+    onTotalChange(Math.round(nextItems.reduce((sum, item) => sum + calculateLineItem(item).net, 0) * 100) / 100);
+  };
+
+  const insertItem = async (item: Omit<LineItem, 'position'>) => {
+    const position = items.length > 0 ? Math.max(...items.map(i => i.position)) + 1 : 0;
+    const { data, error } = await supabase
+      .from('deal_line_items')
+      .insert({ ...item, deal_id: dealId, position, created_by: user?.id })
+      .select('id, product_id, name, description, quantity, unit_price, discount_percent, tax_rate, position')
+      .single();
+
+    if (error) {
+      console.error('Error adding line item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add line item",
+        variant: "destructive",
+      });
+      return;
+    }
+    const nextItems = [...items, data];
+    setItems(nextItems);
+    reportTotal(nextItems);
+  };
+
+  const handleAddProduct = (productId: string) => {
+    const product = products.find(p => p.product_id === productId);
+    if (!product) return;
+    insertItem({
+      product_id: product.product_id,
+      name: product.name,
+      description: product.description,
+      quantity: 1,
+      unit_price: product.unit_price,
+      discount_percent: 0,
+      tax_rate: product.tax_rate,
+    });
+  };
+
+  const handleAddCustom = () => {
+    insertItem({
+      product_id: null,
+      name: 'Custom item',
+      description: null,
+      quantity: 1,
+      unit_price: 0,
+      discount_percent: 0,
+      tax_rate: 0,
+    });
+  };
+
+  const handleLocalChange = (id: string, field: EditableField, value: string) => {
+    setItems(prev => prev.map(item => item.id === id
+      ? { ...item, [field]: field === 'name' ? value : (value as unknown as number) }
+      : item));
+  };
+
+  // Saved when the cell loses focus; invalid numbers fall back to the stored value
+  const handleSave = async (item: LineItem, field: EditableField) => {
+    const value = field === 'name' ? String(item.name).trim() : Number(item[field]);
+    if ((field === 'name' && !value) || (field !== 'name' && (isNaN(value as number) || (value as number) < 0))) {
+      fetchItems();
+      return;
+    }
+
+    const { error } = await supabase
+      .from('deal_line_items')
+      .update({ [field]: value })
+      .eq('id', item.id!);
+
+    if (error) {
+      console.error('Error updating line item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update line item",
+        variant: "destructive",
+      });
+      fetchItems();
+      return;
+    }
+    const nextItems = items.map(i => i.id === item.id ? { ...i, [field]: value } : i);
+    setItems(nextItems);
+    reportTotal(nextItems);
+  };
+
+  const handleDelete = async (item: LineItem) => {
+    const { error } = await supabase
+      .from('deal_line_items')
+      .delete()
+      .eq('id', item.id!);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove line item",
+        variant: "destructive",
+      });
+      return;
+    }
+    const nextItems = items.filter(i => i.id !== item.id);
+    setItems(nextItems);
+    reportTotal(nextItems);
+  };
+
+  const totals = calculateQuoteTotals(items);
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  const numberCell = (item: LineItem, field: Exclude<EditableField, 'name'>, className = "w-20") => (
+    <Input
+      type="number"
+      min="0"
+      step="any"
+      value={item[field]}
+      onChange={(e) => handleLocalChange(item.id!, field, e.target.value)}
+      onBlur={() => handleSave(item, field)}
+      className={`h-8 text-right ${className}`}
+    />
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-lg">Products</CardTitle>
+          <div className="flex items-center gap-2">
+            {priceBooks.length > 1 && (
+              <Select value={priceBookId} onValueChange={setPriceBookId}>
+                <SelectTrigger className="w-[180px] h-9">
+                  <SelectValue placeholder="Price book" />
+                </SelectTrigger>
+                <SelectContent>
+                  {priceBooks.map(book => (
+                    <SelectItem key={book.id} value={book.id}>{book.name} ({book.currency})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value="" onValueChange={handleAddProduct} disabled={products.length === 0}>
+              <SelectTrigger className="w-[200px] h-9">
+                <SelectValue placeholder={products.length === 0 ? 'No products in price book' : 'Add product...'} />
+              </SelectTrigger>
+              <SelectContent>
+                {products.map(product => (
+                  <SelectItem key={product.product_id} value={product.product_id}>
+                    {product.name} · {formatCurrency(product.unit_price, priceBooks.find(b => b.id === priceBookId)?.currency)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="outline" size="sm" onClick={handleAddCustom} className="gap-1">
+              <Plus className="h-4 w-4" />
+              Custom Line
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading line items...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No line items. Once products are added, the contract value is their net total.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Unit price</TableHead>
+                <TableHead className="text-right">Discount %</TableHead>
+                <TableHead className="text-right">Tax %</TableHead>
+                <TableHead className="text-right">Net</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map(item => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <Input
+                      value={item.name}
+                      onChange={(e) => handleLocalChange(item.id!, 'name', e.target.value)}
+                      onBlur={() => handleSave(item, 'name')}
+                      className="h-8 min-w-[180px]"
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">{numberCell(item, 'quantity')}</TableCell>
+                  <TableCell className="text-right">{numberCell(item, 'unit_price', 'w-28')}</TableCell>
+                  <TableCell className="text-right">{numberCell(item, 'discount_percent')}</TableCell>
+                  <TableCell className="text-right">{numberCell(item, 'tax_rate')}</TableCell>
+                  <TableCell className="text-right font-medium">{money(calculateLineItem(item).net)}</TableCell>
+                  <TableCell>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => handleDelete(item)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5} className="text-right">
+                  Net (contract value)
+                  {totals.discountTotal > 0 && (
+                    <span className="ml-2 text-xs text-muted-foreground">after {money(totals.discountTotal)} discount</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{money(totals.subtotal - totals.discountTotal)}</TableCell>
+                <TableCell />
+              </TableRow>
+              <TableRow>
+                <TableCell colSpan={5} className="text-right">Total incl. {money(totals.taxTotal)} tax</TableCell>
+                <TableCell className="text-right">{money(totals.total)}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,276 @@
+import { useState, useEffect, useCallback } from "react";
+import { addDays, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileText, Loader2, Mail } from "lucide-react";
+import { SendEmailModal, EmailRecipient } from "@/components/SendEmailModal";
+import { Deal, getQuoteStageNames } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { formatCurrency } from "@/utils/currency";
+import { buildQuotePdf, calculateQuoteTotals, getQuoteNumber } from "@/utils/quotes";
+
+interface DealQuote {
+  id: string;
+  version: number;
+  quote_number: string;
+  currency: string;
+  total: number;
+  valid_until: string | null;
+  file_path: string;
+  created_at: string;
+}
+
+interface DealQuotesFormProps {
+  deal: Deal;
+  currency: string;
+}
+
+const QUOTE_VALIDITY_DAYS = 30;
+
+export const DealQuotesForm = ({ deal, currency }: DealQuotesFormProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [quotes, setQuotes] = useState<DealQuote[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [emailQuote, setEmailQuote] = useState<{ files: File[]; subject: string } | null>(null);
+  const [recipient, setRecipient] = useState<{ recipient: EmailRecipient; leadId: string | null } | null>(null);
+
+  const { stages } = usePipelineStages();
+
+  // Quotes are sent once the customer has asked for one, in the stages flagged for quoting
+  const quoteStages = getQuoteStageNames(stages);
+  const canGenerate = quoteStages.includes(deal.stage);
+
+  const fetchQuotes = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('deal_quotes')
+      .select('id, version, quote_number, currency, total, valid_until, file_path, created_at')
+      .eq('deal_id', deal.id)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching quotes:', error);
+      return;
+    }
+    setQuotes(data || []);
+  }, [deal.id]);
+
+  useEffect(() => {
+    fetchQuotes();
+  }, [fetchQuotes]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const [itemsResult, profileResult] = await Promise.all([
+        supabase
+          .from('deal_line_items')
+          .select('product_id, name, description, quantity, unit_price, discount_percent, tax_rate, position')
+          .eq('deal_id', deal.id)
+          .order('position'),
+        user ? supabase.from('profiles').select('full_name').eq('id', user.id).maybeSingle() : Promise.resolve({ data: null }),
+      ]);
+      if (itemsResult.error) throw itemsResult.error;
+
+      const items = itemsResult.data || [];
+      if (items.length === 0) {
+        toast({
+          title: "No line items",
+          description: "Add products to the deal before generating a quote",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const version = (quotes[0]?.version || 0) + 1;
+      const quoteNumber = getQuoteNumber(deal.id, version);
+      const issuedAt = new Date();
+      const validUntil = addDays(issuedAt, QUOTE_VALIDITY_DAYS);
+      const totals = calculateQuoteTotals(items);
+
+      const pdf = buildQuotePdf({
+        quoteNumber,
+        version,
+        issuedAt,
+        validUntil,
+        currency,
+        dealName: deal.deal_name,
+        projectName: deal.project_name,
+        customerName: deal.customer_name,
+        contactName: deal.lead_name,
+        preparedBy: profileResult.data?.full_name || user?.email,
+        items,
+      });
+
+      const filePath = `${deal.id}/${quoteNumber}.pdf`;
+      const { error: uploadError } = await supabase.storage
+        .from('quotes')
+        .upload(filePath, pdf, { contentType: 'application/pdf', upsert: true });
+      if (uploadError) throw uploadError;
+
+      const { error: insertError } = await supabase.from('deal_quotes').insert({
+        deal_id: deal.id,
+        version,
+        quote_number: quoteNumber,
+        currency,
+        subtotal: totals.subtotal,
+        discount_total: totals.discountTotal,
+        tax_total: totals.taxTotal,
+        total: totals.total,
+        line_items: items,
+        valid_until: format(validUntil, 'yyyy-MM-dd'),
+        file_path: filePath,
+        created_by: user?.id,
+      });
+      if (insertError) {
+        await supabase.storage.from('quotes').remove([filePath]);
+        throw insertError;
+      }
+
+      toast({
+        title: "Quote generated",
+        description: `${quoteNumber} is ready to download or email`,
+      });
+      fetchQuotes();
+    } catch (error) {
+      console.error('Error generating quote:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate quote",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const downloadQuote = async (quote: DealQuote) => {
+    const { data, error } = await supabase.storage.from('quotes').download(quote.file_path);
+    if (error || !data) {
+      toast({
+        title: "Error",
+        description: "Failed to download quote",
+        variant: "destructive",
+      });
+      return null;
+    }
+    return new File([data], `${quote.quote_number}.pdf`, { type: 'application/pdf' });
+  };
+
+  const handleDownload = async (quote: DealQuote) => {
+    const file = await downloadQuote(quote);
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The deal's lead is the quote recipient
+  const handleEmail = async (quote: DealQuote) => {
+    const file = await downloadQuote(quote);
+    if (!file) return;
+
+    const { data: lead } = deal.lead_name
+      ? await supabase
+          .from('leads')
+          .select('id, lead_name, email, company_name, position')
+          .eq('lead_name', deal.lead_name)
+          .limit(1)
+          .maybeSingle()
+      : { data: null };
+
+    setRecipient({
+      recipient: {
+        name: lead?.lead_name || deal.lead_name || deal.customer_name || 'Customer',
+        email: lead?.email || undefined,
+        company_name: lead?.company_name || deal.customer_name || undefined,
+        position: lead?.position || undefined,
+      },
+      leadId: lead?.id || null,
+    });
+    setEmailQuote({ files: [file], subject: `Quote ${quote.quote_number} - ${deal.project_name || deal.deal_name}` });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Quotes</CardTitle>
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleGenerate}
+            disabled={!canGenerate || generating}
+            className="gap-2"
+          >
+            {generating ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+            Generate Quote
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!canGenerate && (
+          <p className="text-sm text-muted-foreground mb-2">
+            {quoteStages.length > 0
+              ? `Quotes can be generated in the ${quoteStages.join(', ')} stages.`
+              : 'No pipeline stage allows quotes. Enable quoting on a stage in the pipeline settings.'}
+          </p>
+        )}
+        {quotes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No quotes generated yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Quote</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Valid until</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quotes.map((quote, index) => (
+                <TableRow key={quote.id}>
+                  <TableCell className="font-medium">
+                    {quote.quote_number}
+                    {index === 0 && <span className="ml-2 text-xs text-muted-foreground">latest</span>}
+                  </TableCell>
+                  <TableCell>{format(new Date(quote.created_at), 'dd MMM yyyy')}</TableCell>
+                  <TableCell>{quote.valid_until ? format(new Date(quote.valid_until), 'dd MMM yyyy') : '-'}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(Number(quote.total), quote.currency)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button type="button" variant="ghost" size="icon" onClick={() => handleDownload(quote)} title="Download">
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button type="button" variant="ghost" size="icon" onClick={() => handleEmail(quote)} title="Email">
+                        <Mail className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <SendEmailModal
+        open={!!emailQuote}
+        onOpenChange={(open) => !open && setEmailQuote(null)}
+        recipient={recipient?.recipient || null}
+        leadId={recipient?.leadId}
+        initialSubject={emailQuote?.subject}
+        initialAttachments={emailQuote?.files}
+      />
+    </Card>
+  );
+};
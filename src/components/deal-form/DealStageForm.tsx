@@ -1,5 +1,6 @@
 
-import { Deal, DealStage } from "@/types/deal";
+import { Deal, DealStage, getFormSectionsForStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { LeadStageForm } from "./LeadStageForm";
 import { DiscussionsStageForm } from "./DiscussionsStageForm";
 import { QualifiedStageForm } from "./QualifiedStageForm";
@@ -24,15 +25,21 @@ export const DealStageForm = ({
   stage, 
   showPreviousStages 
 }: DealStageFormProps) => {
-  const getStageIndex = (stage: DealStage): number => {
-    const stages = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return stages.indexOf(stage);
-  };
-
-  const currentStageIndex = getStageIndex(stage);
-  const isFinalStage = ['Won', 'Lost', 'Dropped'].includes(stage);
+  const { stages, isClosedStage } = usePipelineStages();
+  const isFinalStage = isClosedStage(stage);
 
   const renderStageComponent = (stageToRender: DealStage) => {
+    if (isClosedStage(stageToRender)) {
+      return (
+        <FinalStageForm
+          formData={formData}
+          onFieldChange={onFieldChange}
+          fieldErrors={fieldErrors}
+          stage={stageToRender}
+        />
+      );
+    }
+
     switch (stageToRender) {
       case 'Lead':
         return (
@@ -75,37 +82,19 @@ export const DealStageForm = ({
             fieldErrors={fieldErrors}
           />
         );
-      case 'Won':
-      case 'Lost':
-      case 'Dropped':
-        return (
-          <FinalStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-            stage={stageToRender}
-          />
-        );
       default:
         return null;
     }
   };
 
+  // Sections of the built-in stages up to the current one in the configured order
+  const sectionsUpToStage = getFormSectionsForStage(stage, stages);
+
   if (showPreviousStages) {
-    // Show all stages up to current stage
-    const stagesToShow: DealStage[] = [];
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered'];
-    
-    if (isFinalStage) {
-      // For final stages, show all previous stages plus the final stage
-      stagesToShow.push(...allStages);
-      stagesToShow.push(stage);
-    } else {
-      // For regular stages, show all stages up to current
-      for (let i = 0; i <= currentStageIndex && i < allStages.length; i++) {
-        stagesToShow.push(allStages[i]);
-      }
-    }
+    // Show all stages up to current stage, plus the final stage for won/lost deals
+    const stagesToShow: DealStage[] = isFinalStage
+      ? [...sectionsUpToStage, stage]
+      : sectionsUpToStage;
 
     return (
       <div className="space-y-6">
@@ -117,10 +106,15 @@ export const DealStageForm = ({
       </div>
     );
   } else {
-    // Show only current stage
+    // Show only current stage; custom stages without their own section show the
+    // latest built-in section before them
+    const stageToRender = isFinalStage || sectionsUpToStage.includes(stage)
+      ? stage
+      : sectionsUpToStage[sectionsUpToStage.length - 1];
+
     return (
       <div>
-        {renderStageComponent(stage)}
+        {renderStageComponent(stageToRender)}
       </div>
     );
   }
@@ -1,6 +1,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Deal, DealStage } from "@/types/deal";
+import { Deal, DealStage, getClosingFieldsForStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { FormFieldRenderer } from "./FormFieldRenderer";
 import { useEffect } from "react";
 
@@ -12,9 +13,12 @@ interface FinalStageFormProps {
 }
 
 export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage }: FinalStageFormProps) => {
+  const { stages, isWonStage } = usePipelineStages();
+  const isWon = isWonStage(stage);
+
   // Auto-calculate total_revenue when quarterly revenues change (Won stage only)
   useEffect(() => {
-    if (stage === 'Won') {
+    if (isWon) {
       const q1 = Number(formData.quarterly_revenue_q1) || 0;
       const q2 = Number(formData.quarterly_revenue_q2) || 0;
       const q3 = Number(formData.quarterly_revenue_q3) || 0;
@@ -27,22 +31,9 @@ export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage }:
         onFieldChange('total_revenue', totalRevenue);
       }
     }
-  }, [formData.quarterly_revenue_q1, formData.quarterly_revenue_q2, formData.quarterly_revenue_q3, formData.quarterly_revenue_q4, formData.total_revenue, onFieldChange, stage]);
-
-  const getFieldsForStage = (stage: DealStage) => {
-    switch (stage) {
-      case 'Won':
-        return ['won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status'];
-      case 'Lost':
-        return ['lost_reason', 'need_improvement'];
-      case 'Dropped':
-        return ['drop_reason'];
-      default:
-        return [];
-    }
-  };
+  }, [formData.quarterly_revenue_q1, formData.quarterly_revenue_q2, formData.quarterly_revenue_q3, formData.quarterly_revenue_q4, formData.total_revenue, onFieldChange, isWon]);
 
-  const fields = getFieldsForStage(stage);
+  const fields = getClosingFieldsForStage(stage, stages);
 
   return (
     <Card>
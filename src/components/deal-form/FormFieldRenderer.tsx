@@ -13,6 +13,9 @@ import { LeadSearchableDropdown } from "@/components/LeadSearchableDropdown";
 import { supabase } from "@/integrations/supabase/client";
 import { useState, useEffect } from "react";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { CustomFieldInput } from "@/components/shared/CustomFieldsSection";
+import { CustomFieldDefinition } from "@/types/customField";
+import { MANUAL_FORECAST_CATEGORIES } from "@/utils/forecast";
 
 interface FormFieldRendererProps {
   field: string;
@@ -20,9 +23,10 @@ interface FormFieldRendererProps {
   onChange: (field: string, value: any) => void;
   onLeadSelect?: (lead: any) => void;
   error?: string;
+  customField?: CustomFieldDefinition;
 }
 
-export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error }: FormFieldRendererProps) => {
+export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error, customField }: FormFieldRendererProps) => {
   const [leadOwnerIds, setLeadOwnerIds] = useState<string[]>([]);
   const { displayNames, loading } = useUserDisplayNames(leadOwnerIds);
 
@@ -64,6 +68,7 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
       probability: 'Probability (%)',
       internal_comment: 'Internal Comment',
       expected_closing_date: 'Expected Closing Date',
+      forecast_category: 'Forecast Category',
       customer_need: 'Customer Need',
       customer_challenges: 'Customer Challenges',
       relationship_strength: 'Relationship Strength',
@@ -253,6 +258,16 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
   };
 
   const renderField = () => {
+    if (customField) {
+      return (
+        <CustomFieldInput
+          field={customField}
+          value={value}
+          onChange={(newValue) => onChange(field, newValue)}
+        />
+      );
+    }
+
     switch (field) {
       case 'lead_name':
         return (
@@ -395,6 +410,26 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
           </Select>
         );
 
+      case 'forecast_category':
+        return (
+          <Select
+            value={value || 'auto'}
+            onValueChange={(val) => onChange(field, val === 'auto' ? null : val)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select forecast category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Auto (from probability)</SelectItem>
+              {MANUAL_FORECAST_CATEGORIES.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+
       case 'budget':
         return (
           <Input
@@ -617,7 +652,9 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
 
   return (
     <div className="space-y-2">
-      <Label>{getFieldLabel(field)}</Label>
+      <Label>
+        {customField ? `${customField.field_label}${customField.is_required ? ' *' : ''}` : getFieldLabel(field)}
+      </Label>
       {renderField()}
       {error && (
         <p className="text-sm text-destructive">{error}</p>
@@ -0,0 +1,75 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { Deal } from "@/types/deal";
+import { PendingStageChange } from "@/hooks/useStageGate";
+import { FormFieldRenderer } from "./FormFieldRenderer";
+
+interface StageGateDialogProps {
+  pending: PendingStageChange | null;
+  onCancel: () => void;
+  onConfirm: (values: Partial<Deal>) => Promise<void>;
+}
+
+const isFilled = (value: unknown) =>
+  value !== null && value !== undefined && !(typeof value === 'string' && value.trim() === '');
+
+export const StageGateDialog = ({ pending, onCancel, onConfirm }: StageGateDialogProps) => {
+  const [values, setValues] = useState<Partial<Deal>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setValues({});
+  }, [pending]);
+
+  if (!pending) return null;
+
+  const allFilled = pending.missingFields.every(field => isFilled(values[field as keyof Deal]));
+
+  // Errors are reported by the caller; the dialog stays open so nothing typed is lost
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      await onConfirm(values);
+    } catch (error) {
+      console.error('Stage change failed:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !saving && onCancel()}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Move to {pending.stage}</DialogTitle>
+          <DialogDescription>
+            Fill in the fields required for the {pending.stage} stage to complete the move.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {pending.missingFields.map(field => (
+            <FormFieldRenderer
+              key={field}
+              field={field}
+              value={values[field as keyof Deal]}
+              onChange={(name, value) => setValues(prev => ({ ...prev, [name]: value }))}
+            />
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!allFilled || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Move Deal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
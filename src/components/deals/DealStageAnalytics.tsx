@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useDealStageAnalytics } from "@/hooks/useDealStageAnalytics";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Loader2 } from "lucide-react";
+import { formatCurrency } from "@/utils/currency";
+
+const PERIODS = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+  { value: 'all', label: 'All time' },
+];
+
+const formatDays = (days: number | null) => {
+  if (days === null) return '-';
+  return days < 1 ? '< 1 day' : `${days.toFixed(days < 10 ? 1 : 0)} days`;
+};
+
+const formatPercent = (rate: number | null) => (rate === null ? '-' : `${(rate * 100).toFixed(0)}%`);
+
+// Time in stage, stage-to-stage conversion and pipeline velocity, built from deal_stage_history
+export const DealStageAnalytics = () => {
+  const [period, setPeriod] = useState('90');
+  const { data, isLoading } = useDealStageAnalytics(period === 'all' ? null : Number(period));
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const { velocity } = data;
+  const money = (amount: number | null) => (amount === null ? '-' : formatCurrency(amount, data.reportingCurrency));
+  const summaryCards = [
+    { label: 'Win rate', value: formatPercent(velocity.winRate), detail: `${velocity.won} won, ${velocity.lost} lost` },
+    { label: 'Avg sales cycle', value: formatDays(velocity.avgCycleDays), detail: 'Created to won' },
+    { label: 'Avg won deal', value: money(velocity.avgWonAmount), detail: `${velocity.openDeals} open deals` },
+    { label: 'Pipeline velocity', value: velocity.velocityPerDay === null ? '-' : `${money(velocity.velocityPerDay)}/day`, detail: 'Open deals × avg won × win rate ÷ cycle' },
+  ];
+  const visibleStages = data.stages.filter(stage => stage.entered > 0 || stage.currentDeals > 0 || stage.exits > 0);
+
+  return (
+    <div className="h-full overflow-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Based on stage changes recorded for each deal</p>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-[160px] h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {summaryCards.map(card => (
+          <Card key={card.label}>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{card.label}</p>
+              <p className="text-2xl font-semibold">{card.value}</p>
+              <p className="text-xs text-muted-foreground">{card.detail}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Stages</CardTitle>
+          <CardDescription>
+            Conversion is the share of deals entering a stage in the period that later reached a further stage or were won
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stage</TableHead>
+                <TableHead className="text-right">Avg time in stage</TableHead>
+                <TableHead className="text-right">Open now</TableHead>
+                <TableHead className="text-right">Avg age of open</TableHead>
+                <TableHead className="text-right">Entered</TableHead>
+                <TableHead className="w-[200px]">Conversion</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleStages.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No stage changes in this period
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleStages.map(stage => (
+                  <TableRow key={stage.stage}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: stage.color }} />
+                        <span className="font-medium">{stage.stage}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatDays(stage.avgDaysInStage)}
+                      {stage.exits > 0 && <span className="ml-1 text-xs text-muted-foreground">({stage.exits})</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{stage.currentDeals}</TableCell>
+                    <TableCell className="text-right">{formatDays(stage.avgCurrentAgeDays)}</TableCell>
+                    <TableCell className="text-right">{stage.entered || '-'}</TableCell>
+                    <TableCell>
+                      {stage.conversionRate === null ? (
+                        <span className="text-muted-foreground">-</span>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <Progress value={stage.conversionRate * 100} className="h-2 flex-1" />
+                          <span className="text-sm w-10 text-right">{formatPercent(stage.conversionRate)}</span>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
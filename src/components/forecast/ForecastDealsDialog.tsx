@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import { ForecastDeal, FORECAST_QUERY_KEY } from "@/hooks/useForecastData";
+import { MANUAL_FORECAST_CATEGORIES, getDealForecastCategory, getForecastCategoryLabel } from "@/utils/forecast";
+
+interface ForecastDealsDialogProps {
+  title: string | null;
+  deals: ForecastDeal[];
+  ownerName: (ownerId: string | null) => string;
+  formatAmount: (amount: number) => string;
+  onClose: () => void;
+}
+
+// Sentinel for "follow the probability" since Select values can't be empty
+const AUTO_CATEGORY = 'auto';
+
+export const ForecastDealsDialog = ({ title, deals, ownerName, formatAmount, onClose }: ForecastDealsDialogProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const handleCategoryChange = async (deal: ForecastDeal, value: string) => {
+    setUpdatingId(deal.id);
+    const { error } = await supabase
+      .from('deals')
+      .update({ forecast_category: value === AUTO_CATEGORY ? null : value })
+      .eq('id', deal.id);
+    setUpdatingId(null);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update forecast category",
+        variant: "destructive",
+      });
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: FORECAST_QUERY_KEY });
+  };
+
+  const sortedDeals = [...deals].sort((a, b) => (b.amount ?? 0) - (a.amount ?? 0));
+
+  return (
+    <Dialog open={title !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Deal</TableHead>
+              <TableHead>Stage</TableHead>
+              <TableHead>Owner</TableHead>
+              <TableHead>Region</TableHead>
+              <TableHead>Close date</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-right">Probability</TableHead>
+              <TableHead className="text-right">Weighted</TableHead>
+              <TableHead className="w-[150px]">Category</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedDeals.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                  No deals in this part of the forecast
+                </TableCell>
+              </TableRow>
+            ) : (
+              sortedDeals.map(deal => (
+                <TableRow key={deal.id}>
+                  <TableCell>
+                    <div className="font-medium">{deal.deal_name}</div>
+                    {deal.customer_name && <div className="text-xs text-muted-foreground">{deal.customer_name}</div>}
+                  </TableCell>
+                  <TableCell>{deal.stage}</TableCell>
+                  <TableCell>{ownerName(deal.ownerId)}</TableCell>
+                  <TableCell>{deal.region || '-'}</TableCell>
+                  <TableCell>{format(new Date(deal.closeDate), 'dd MMM yyyy')}</TableCell>
+                  <TableCell className="text-right">
+                    {deal.amount === null ? <span className="text-muted-foreground">No rate</span> : formatAmount(deal.amount)}
+                  </TableCell>
+                  <TableCell className="text-right">{deal.probability}%</TableCell>
+                  <TableCell className="text-right">
+                    {deal.weightedAmount === null ? '-' : formatAmount(deal.weightedAmount)}
+                  </TableCell>
+                  <TableCell>
+                    {deal.category === 'closed' ? (
+                      <Badge variant="secondary">{getForecastCategoryLabel('closed')}</Badge>
+                    ) : (
+                      <Select
+                        value={deal.manualCategory || AUTO_CATEGORY}
+                        onValueChange={(value) => handleCategoryChange(deal, value)}
+                        disabled={updatingId === deal.id}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={AUTO_CATEGORY}>
+                            Auto ({getForecastCategoryLabel(getDealForecastCategory(null, deal.probability))})
+                          </SelectItem>
+                          {MANUAL_FORECAST_CATEGORIES.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
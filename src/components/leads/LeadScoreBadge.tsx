@@ -0,0 +1,80 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { TrendingUp } from "lucide-react";
+import { format } from "date-fns";
+import { Json } from "@/integrations/supabase/types";
+
+export interface LeadScoreBreakdown {
+  profile: number;
+  engagement: number;
+  meetings: number;
+  recency: number;
+  last_activity_at: string | null;
+  total: number;
+}
+
+interface LeadScoreBadgeProps {
+  score: number;
+  breakdown?: Json | null;
+}
+
+const BREAKDOWN_ROWS: { key: keyof Omit<LeadScoreBreakdown, 'last_activity_at' | 'total'>; label: string }[] = [
+  { key: 'profile', label: 'Profile fit' },
+  { key: 'engagement', label: 'Email engagement' },
+  { key: 'meetings', label: 'Meetings held' },
+  { key: 'recency', label: 'Recent activity' },
+];
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+  if (score >= 60) return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
+  if (score >= 40) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+  if (score >= 20) return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
+  return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
+};
+
+const getScoreLabel = (score: number) => {
+  if (score >= 80) return 'Hot';
+  if (score >= 60) return 'Warm';
+  if (score >= 40) return 'Neutral';
+  if (score >= 20) return 'Cold';
+  return 'New';
+};
+
+// Score with the points per component from calculate_lead_score_breakdown on hover
+export const LeadScoreBadge = ({ score, breakdown }: LeadScoreBadgeProps) => {
+  const details = breakdown && typeof breakdown === 'object' && !Array.isArray(breakdown)
+    ? breakdown as unknown as LeadScoreBreakdown
+    : null;
+
+  const badge = (
+    <Badge className={`gap-1 ${getScoreColor(score)}`}>
+      <TrendingUp className="h-3 w-3" />
+      {score}
+    </Badge>
+  );
+
+  if (!details) return badge;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="inline-flex cursor-default">{badge}</span>
+      </TooltipTrigger>
+      <TooltipContent className="w-56">
+        <p className="font-medium mb-1">{getScoreLabel(score)} lead ({score}/100)</p>
+        {BREAKDOWN_ROWS.map(row => (
+          <div key={row.key} className="flex justify-between text-xs">
+            <span className="text-muted-foreground">{row.label}</span>
+            <span>{details[row.key] > 0 ? '+' : ''}{details[row.key]}</span>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground mt-1">
+          {details.last_activity_at
+            ? `Last activity: ${format(new Date(details.last_activity_at), 'dd/MM/yyyy')}`
+            : 'No activity yet'}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
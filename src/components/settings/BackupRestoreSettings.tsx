@@ -1,8 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Switch } from "@/components/ui/switch";
-import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
@@ -31,7 +29,8 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Input } from "@/components/ui/input";
+import RestoreBackupDialog from "@/components/settings/RestoreBackupDialog";
+import BackupScheduleCard from "@/components/settings/BackupScheduleCard";
 
 interface Backup {
   id: string;
@@ -51,13 +50,10 @@ const BackupRestoreSettings = () => {
   const [backups, setBackups] = useState<Backup[]>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
-  const [restoring, setRestoring] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
   const [showRestoreDialog, setShowRestoreDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [selectedBackup, setSelectedBackup] = useState<Backup | null>(null);
-  const [confirmText, setConfirmText] = useState('');
-  const [scheduledBackup, setScheduledBackup] = useState(false);
   const [userNames, setUserNames] = useState<Record<string, string>>({});
   const { toast } = useToast();
   const { isAdmin, loading: roleLoading } = useUserRole();
@@ -68,8 +64,7 @@ const BackupRestoreSettings = () => {
       const { data, error } = await supabase
         .from('backups')
         .select('*')
-        .order('created_at', { ascending: false })
-        .limit(10);
+        .order('created_at', { ascending: false });
 
       if (error) throw error;
       setBackups(data || []);
@@ -180,41 +175,9 @@ const BackupRestoreSettings = () => {
 
   const handleRestoreClick = (backup: Backup) => {
     setSelectedBackup(backup);
-    setConfirmText('');
     setShowRestoreDialog(true);
   };
 
-  const handleRestoreConfirm = async () => {
-    if (!selectedBackup || confirmText !== 'CONFIRM') return;
-
-    setRestoring(selectedBackup.id);
-    setShowRestoreDialog(false);
-
-    try {
-      const { data, error } = await supabase.functions.invoke('restore-backup', {
-        method: 'POST',
-        body: { backupId: selectedBackup.id }
-      });
-
-      if (error) throw error;
-
-      toast({
-        title: "Restore Started",
-        description: "The restore process has been initiated. This may take a few minutes.",
-      });
-    } catch (error: any) {
-      console.error('Error restoring backup:', error);
-      toast({
-        title: "Error",
-        description: error.message || "Failed to restore backup",
-        variant: "destructive",
-      });
-    } finally {
-      setRestoring(null);
-      setSelectedBackup(null);
-    }
-  };
-
   const handleDeleteClick = (backup: Backup) => {
     setSelectedBackup(backup);
     setShowDeleteDialog(true);
@@ -365,24 +328,8 @@ const BackupRestoreSettings = () => {
           </Card>
         </div>
 
-        {/* Scheduled Backup Toggle */}
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-center justify-between">
-              <div className="space-y-0.5">
-                <Label htmlFor="scheduled-backup" className="text-base">Scheduled Backups</Label>
-                <p className="text-sm text-muted-foreground">
-                  Automatically create daily backups at midnight
-                </p>
-              </div>
-              <Switch
-                id="scheduled-backup"
-                checked={scheduledBackup}
-                onCheckedChange={setScheduledBackup}
-              />
-            </div>
-          </CardContent>
-        </Card>
+        {/* Scheduled Backups */}
+        <BackupScheduleCard />
 
         {/* Backup History */}
         <Card>
@@ -392,7 +339,7 @@ const BackupRestoreSettings = () => {
               Backup History
             </CardTitle>
             <CardDescription>
-              Recent backups with download and restore options (last 10)
+              Backups kept by the retention policy, with download and restore options
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
@@ -444,13 +391,8 @@ const BackupRestoreSettings = () => {
                       variant="secondary" 
                       size="sm"
                       onClick={() => handleRestoreClick(backup)}
-                      disabled={restoring === backup.id}
                     >
-                      {restoring === backup.id ? (
-                        <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
-                      ) : (
-                        <Database className="h-4 w-4 mr-1" />
-                      )}
+                      <Database className="h-4 w-4 mr-1" />
                       Restore
                     </Button>
                     <Button 
@@ -474,45 +416,16 @@ const BackupRestoreSettings = () => {
         </Card>
       </div>
 
-      {/* Restore Confirmation Dialog */}
-      <AlertDialog open={showRestoreDialog} onOpenChange={setShowRestoreDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle className="text-destructive">⚠️ Confirm Restore</AlertDialogTitle>
-            <AlertDialogDescription className="space-y-4">
-              <p>You are about to restore the database from backup:</p>
-              <p className="font-mono text-sm bg-muted p-2 rounded">{selectedBackup?.file_name}</p>
-              <div className="bg-destructive/10 border border-destructive/20 rounded p-3 text-sm">
-                <p className="font-semibold text-destructive">This action will:</p>
-                <ul className="list-disc list-inside mt-2 space-y-1">
-                  <li>Overwrite all current database tables</li>
-                  <li>Replace all storage files</li>
-                  <li>May cause brief downtime</li>
-                  <li>Cannot be undone</li>
-                </ul>
-              </div>
-              <div className="space-y-2">
-                <Label>Type "CONFIRM" to proceed:</Label>
-                <Input 
-                  value={confirmText}
-                  onChange={(e) => setConfirmText(e.target.value)}
-                  placeholder="CONFIRM"
-                />
-              </div>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction 
-              onClick={handleRestoreConfirm}
-              disabled={confirmText !== 'CONFIRM'}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              Restore Backup
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {/* Restore Dialog */}
+      <RestoreBackupDialog
+        backup={selectedBackup}
+        open={showRestoreDialog}
+        onOpenChange={(open) => {
+          setShowRestoreDialog(open);
+          if (!open) setSelectedBackup(null);
+        }}
+        onRestored={fetchBackups}
+      />
 
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
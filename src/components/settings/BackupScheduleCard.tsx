@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { CalendarClock, RefreshCw, Save } from "lucide-react";
+import { format } from "date-fns";
+
+interface BackupSchedule {
+  id: string;
+  schedule_enabled: boolean;
+  frequency: string;
+  keep_daily: number;
+  keep_weekly: number;
+  keep_monthly: number;
+  last_run_at: string | null;
+  last_run_status: string | null;
+  last_error: string | null;
+}
+
+const RETENTION_FIELDS: { key: 'keep_daily' | 'keep_weekly' | 'keep_monthly'; label: string; min: number }[] = [
+  { key: 'keep_daily', label: 'Daily backups', min: 1 },
+  { key: 'keep_weekly', label: 'Weekly backups', min: 0 },
+  { key: 'keep_monthly', label: 'Monthly backups', min: 0 },
+];
+
+// Schedule and retention policy used by create-backup's nightly cron run
+const BackupScheduleCard = () => {
+  const [settings, setSettings] = useState<BackupSchedule | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('backup_settings')
+        .select('id, schedule_enabled, frequency, keep_daily, keep_weekly, keep_monthly, last_run_at, last_run_status, last_error')
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSettings(data);
+    } catch (error) {
+      console.error('Error fetching backup settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateField = <K extends keyof BackupSchedule>(key: K, value: BackupSchedule[K]) => {
+    setSettings(prev => prev ? { ...prev, [key]: value } : prev);
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('backup_settings')
+        .update({
+          schedule_enabled: settings.schedule_enabled,
+          frequency: settings.frequency,
+          keep_daily: Math.max(1, settings.keep_daily),
+          keep_weekly: Math.max(0, settings.keep_weekly),
+          keep_monthly: Math.max(0, settings.keep_monthly),
+          updated_by: user?.id,
+        })
+        .eq('id', settings.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Backup schedule saved",
+      });
+    } catch (error) {
+      console.error('Error saving backup settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save backup schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !settings) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-center h-16">
+            {loading ? <RefreshCw className="h-5 w-5 animate-spin" /> : (
+              <p className="text-sm text-muted-foreground">Backup schedule is not available</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Scheduled Backups
+        </CardTitle>
+        <CardDescription>
+          Automatically create backups at midnight (UTC) and prune old ones
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="scheduled-backup" className="text-base">Enable scheduled backups</Label>
+          <Switch
+            id="scheduled-backup"
+            checked={settings.schedule_enabled}
+            onCheckedChange={(checked) => updateField('schedule_enabled', checked)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Frequency</Label>
+          <Select value={settings.frequency} onValueChange={(value) => updateField('frequency', value)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly (Sundays)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Retention policy</Label>
+          <div className="grid grid-cols-3 gap-4">
+            {RETENTION_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <span className="text-xs text-muted-foreground">{field.label}</span>
+                <Input
+                  type="number"
+                  min={field.min}
+                  value={settings[field.key]}
+                  onChange={(e) => updateField(field.key, Number(e.target.value) || 0)}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The newest scheduled backup of each day, week and month is kept up to these counts; older scheduled backups are deleted. Manual backups are not affected; the last 10 of them are kept.
+          </p>
+        </div>
+
+        {settings.last_run_at && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            Last scheduled run: {format(new Date(settings.last_run_at), 'dd/MM/yyyy, HH:mm')}
+            <Badge variant={settings.last_run_status === 'failed' ? 'destructive' : 'secondary'}>
+              {settings.last_run_status}
+            </Badge>
+          </div>
+        )}
+        {settings.last_run_status === 'failed' && settings.last_error && (
+          <p className="text-xs text-destructive">{settings.last_error}</p>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? (
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Schedule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BackupScheduleCard;
@@ -0,0 +1,403 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { CURRENCY_CONTEXT_QUERY_KEY } from "@/hooks/useCurrency";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Trash2, Upload } from "lucide-react";
+import { CSVParser } from "@/utils/csvParser";
+import { CURRENCY_OPTIONS, DEFAULT_REPORTING_CURRENCY } from "@/utils/currency";
+
+interface ExchangeRateRow {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date: string;
+  source: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyRate = () => ({
+  base_currency: 'USD',
+  quote_currency: DEFAULT_REPORTING_CURRENCY,
+  rate: '',
+  effective_date: today(),
+});
+
+const CSV_COLUMNS = ['base_currency', 'quote_currency', 'rate', 'effective_date'];
+
+const CurrencySettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_REPORTING_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRateRow[]>([]);
+  const [newRate, setNewRate] = useState(emptyRate);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [settingsResult, ratesResult] = await Promise.all([
+        supabase.from('currency_settings').select('id, reporting_currency').limit(1).maybeSingle(),
+        supabase
+          .from('exchange_rates')
+          .select('id, base_currency, quote_currency, rate, effective_date, source')
+          .order('effective_date', { ascending: false })
+          .order('base_currency'),
+      ]);
+
+      if (settingsResult.error) throw settingsResult.error;
+      if (ratesResult.error) throw ratesResult.error;
+      setSettingsId(settingsResult.data?.id || null);
+      setReportingCurrency(settingsResult.data?.reporting_currency || DEFAULT_REPORTING_CURRENCY);
+      setRates((ratesResult.data || []).map(rate => ({ ...rate, rate: Number(rate.rate) })));
+    } catch (error) {
+      console.error('Error fetching currency settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load currency settings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Revenue figures are cached in the reporting currency
+  const invalidateConversions = () => {
+    queryClient.invalidateQueries({ queryKey: CURRENCY_CONTEXT_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ['yearly-revenue'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+  };
+
+  const handleReportingCurrencyChange = async (currency: string) => {
+    if (!settingsId) return;
+    const previous = reportingCurrency;
+    setReportingCurrency(currency);
+
+    const { error } = await supabase
+      .from('currency_settings')
+      .update({ reporting_currency: currency, updated_by: user?.id })
+      .eq('id', settingsId);
+
+    if (error) {
+      setReportingCurrency(previous);
+      toast({
+        title: "Error",
+        description: "Failed to update reporting currency",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    invalidateConversions();
+    toast({
+      title: "Success",
+      description: `Revenue is now reported in ${currency}`,
+    });
+  };
+
+  const handleAddRate = async () => {
+    const rate = Number(newRate.rate);
+    if (newRate.base_currency === newRate.quote_currency || !(rate > 0) || !newRate.effective_date) {
+      toast({
+        title: "Error",
+        description: "Pick two different currencies and a positive rate",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert({
+          base_currency: newRate.base_currency,
+          quote_currency: newRate.quote_currency,
+          rate,
+          effective_date: newRate.effective_date,
+          source: 'manual',
+          created_by: user?.id,
+        }, { onConflict: 'base_currency,quote_currency,effective_date' });
+      if (error) throw error;
+
+      setNewRate(emptyRate());
+      invalidateConversions();
+      fetchData();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save exchange rate",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRateRow) => {
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', rate.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete exchange rate",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRates(prev => prev.filter(r => r.id !== rate.id));
+    invalidateConversions();
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const { headers, rows } = CSVParser.parseCSV(await file.text());
+      const columns = headers.map(h => h.trim().toLowerCase());
+      const missing = CSV_COLUMNS.filter(c => !columns.includes(c));
+      if (missing.length > 0) {
+        throw new Error(`Missing columns: ${missing.join(', ')}`);
+      }
+
+      const value = (row: string[], column: string) => (row[columns.indexOf(column)] || '').trim();
+      const valid = [];
+      let skipped = 0;
+
+      for (const row of rows) {
+        const base = value(row, 'base_currency').toUpperCase();
+        const quote = value(row, 'quote_currency').toUpperCase();
+        const rate = Number(value(row, 'rate'));
+        const effectiveDate = value(row, 'effective_date');
+
+        if (!/^[A-Z]{3}$/.test(base) || !/^[A-Z]{3}$/.test(quote) || base === quote
+          || !(rate > 0) || !/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate)) {
+          skipped++;
+          continue;
+        }
+        valid.push({
+          base_currency: base,
+          quote_currency: quote,
+          rate,
+          effective_date: effectiveDate,
+          source: 'csv',
+          created_by: user?.id,
+        });
+      }
+
+      if (valid.length > 0) {
+        const { error } = await supabase
+          .from('exchange_rates')
+          .upsert(valid, { onConflict: 'base_currency,quote_currency,effective_date' });
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Import complete",
+        description: `${valid.length} rates imported${skipped > 0 ? `, ${skipped} invalid rows skipped` : ''}`,
+      });
+      invalidateConversions();
+      fetchData();
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import exchange rates",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading currency settings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Reporting Currency</CardTitle>
+          <CardDescription>
+            Revenue totals and targets are converted into this currency. Users can pick their own display currency under Display settings.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="max-w-xs space-y-2">
+            <Label>Reporting currency</Label>
+            <Select value={reportingCurrency} onValueChange={handleReportingCurrencyChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCY_OPTIONS.map(option => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.symbol} {option.code} - {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Exchange Rates</CardTitle>
+              <CardDescription>
+                A rate applies from its effective date until the next one for the pair. Won deals keep the rate of their close date.
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importing}
+              className="gap-2"
+            >
+              <Upload className="h-4 w-4" />
+              {importing ? 'Importing...' : 'Upload CSV'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-2">
+              <Label>1 unit of</Label>
+              <Select value={newRate.base_currency} onValueChange={(value) => setNewRate(prev => ({ ...prev, base_currency: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCY_OPTIONS.map(option => (
+                    <SelectItem key={option.code} value={option.code}>{option.code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Equals</Label>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={newRate.rate}
+                onChange={(e) => setNewRate(prev => ({ ...prev, rate: e.target.value }))}
+                placeholder="e.g. 0.92"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Of</Label>
+              <Select value={newRate.quote_currency} onValueChange={(value) => setNewRate(prev => ({ ...prev, quote_currency: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCY_OPTIONS.map(option => (
+                    <SelectItem key={option.code} value={option.code}>{option.code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Effective date</Label>
+              <Input
+                type="date"
+                value={newRate.effective_date}
+                onChange={(e) => setNewRate(prev => ({ ...prev, effective_date: e.target.value }))}
+              />
+            </div>
+            <Button onClick={handleAddRate} disabled={saving} className="gap-2">
+              <Plus className="h-4 w-4" />
+              {saving ? 'Saving...' : 'Add Rate'}
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pair</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Effective date</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="w-[80px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No exchange rates yet. Amounts in other currencies are left out of revenue totals.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell className="font-medium">{rate.base_currency} → {rate.quote_currency}</TableCell>
+                    <TableCell>{rate.rate}</TableCell>
+                    <TableCell>{rate.effective_date}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{rate.source === 'csv' ? 'CSV' : 'Manual'}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(rate)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            CSV files need the columns {CSV_COLUMNS.join(', ')}, with dates as YYYY-MM-DD. Rows for an existing pair and date replace the stored rate.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CurrencySettings;
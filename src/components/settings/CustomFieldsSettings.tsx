@@ -0,0 +1,422 @@
+import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useUserRole } from '@/hooks/useUserRole';
+import { CUSTOM_FIELDS_QUERY_KEY, fetchCustomFields } from '@/hooks/useCustomFields';
+import {
+  CustomFieldDefinition,
+  CustomFieldEntity,
+  CustomFieldType,
+  CUSTOM_FIELD_ENTITIES,
+  CUSTOM_FIELD_TYPES,
+  hasFieldOptions,
+  toCustomFieldName,
+} from '@/types/customField';
+import { Loader2, Plus, Trash2, GripVertical, ListPlus } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+
+// Form state for the add/edit dialog; options are edited one per line
+interface FieldDraft {
+  id?: string;
+  field_label: string;
+  field_name: string;
+  field_type: CustomFieldType;
+  options_text: string;
+  is_required: boolean;
+  is_visible: boolean;
+}
+
+const emptyDraft: FieldDraft = {
+  field_label: '',
+  field_name: '',
+  field_type: 'text',
+  options_text: '',
+  is_required: false,
+  is_visible: true,
+};
+
+const CustomFieldsSettings = () => {
+  const { userRole } = useUserRole();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [entityType, setEntityType] = useState<CustomFieldEntity>('account');
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [draft, setDraft] = useState<FieldDraft | null>(null);
+  const [nameEdited, setNameEdited] = useState(false);
+  const [fieldToDelete, setFieldToDelete] = useState<CustomFieldDefinition | null>(null);
+  const queryClient = useQueryClient();
+
+  const isAdmin = userRole === 'admin';
+  const entityFields = fields.filter(field => field.entity_type === entityType);
+  const entityLabel = CUSTOM_FIELD_ENTITIES.find(entity => entity.value === entityType)?.label;
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setFields(await fetchCustomFields());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Keep forms, tables and importers in sync with the definitions
+  const refreshFields = () => {
+    queryClient.invalidateQueries({ queryKey: CUSTOM_FIELDS_QUERY_KEY });
+    fetchData();
+  };
+
+  const openEditor = (field?: CustomFieldDefinition) => {
+    setNameEdited(!!field);
+    setDraft(field ? {
+      id: field.id,
+      field_label: field.field_label,
+      field_name: field.field_name,
+      field_type: field.field_type,
+      options_text: field.field_options.join('\n'),
+      is_required: field.is_required,
+      is_visible: field.is_visible,
+    } : emptyDraft);
+  };
+
+  const handleDragEnd = async (result: DropResult) => {
+    if (!result.destination || result.destination.index === result.source.index) return;
+
+    const reordered = [...entityFields];
+    const [moved] = reordered.splice(result.source.index, 1);
+    reordered.splice(result.destination.index, 0, moved);
+    const orderById = new Map(reordered.map((field, index) => [field.id, index]));
+    setFields(prev => prev.map(field => orderById.has(field.id) ? { ...field, display_order: orderById.get(field.id)! } : field)
+      .sort((a, b) => a.display_order - b.display_order));
+
+    try {
+      const results = await Promise.all(
+        reordered.map((field, index) =>
+          supabase.from('crm_custom_fields').update({ display_order: index }).eq('id', field.id)
+        )
+      );
+      const failed = results.find(res => res.error);
+      if (failed) throw failed.error;
+      toast.success('Field order updated');
+    } catch (error) {
+      console.error('Error reordering custom fields:', error);
+      toast.error('Failed to reorder fields');
+    } finally {
+      refreshFields();
+    }
+  };
+
+  const saveField = async () => {
+    if (!draft?.field_label.trim()) return;
+
+    const fieldName = draft.field_name.trim();
+    if (!/^[a-z][a-z0-9_]*$/.test(fieldName)) {
+      toast.error('Field key must start with a letter and contain only lowercase letters, numbers and underscores');
+      return;
+    }
+    if (entityFields.some(field => field.field_name === fieldName && field.id !== draft.id)) {
+      toast.error(`A ${entityLabel?.toLowerCase()} field with the key "${fieldName}" already exists`);
+      return;
+    }
+
+    const options = hasFieldOptions(draft.field_type)
+      ? [...new Set(draft.options_text.split('\n').map(option => option.trim()).filter(Boolean))]
+      : null;
+    if (options && options.length === 0) {
+      toast.error('Add at least one option');
+      return;
+    }
+
+    setSaving(true);
+
+    const payload = {
+      field_label: draft.field_label.trim(),
+      field_name: fieldName,
+      field_type: draft.field_type,
+      field_options: options,
+      is_required: draft.is_required,
+      is_visible: draft.is_visible,
+    };
+
+    try {
+      if (draft.id) {
+        const { error } = await supabase
+          .from('crm_custom_fields')
+          .update(payload)
+          .eq('id', draft.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('crm_custom_fields')
+          .insert({
+            ...payload,
+            entity_type: entityType,
+            display_order: entityFields.length,
+            created_by: user?.id,
+          });
+        if (error) throw error;
+      }
+
+      toast.success('Field saved successfully');
+      setDraft(null);
+      refreshFields();
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      toast.error('Failed to save field');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDeleteField = async () => {
+    if (!fieldToDelete) return;
+    try {
+      const { error } = await supabase
+        .from('crm_custom_fields')
+        .delete()
+        .eq('id', fieldToDelete.id);
+      if (error) throw error;
+      toast.success('Field deleted');
+      setFieldToDelete(null);
+      refreshFields();
+    } catch (error) {
+      toast.error('Failed to delete field');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <p className="text-muted-foreground">
+            Only administrators can manage custom fields.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ListPlus className="h-5 w-5" />
+                Custom Fields
+              </CardTitle>
+              <CardDescription>
+                Add your own fields to records. Drag fields to change the order they appear in forms.
+              </CardDescription>
+            </div>
+            <Button onClick={() => openEditor()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Field
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Tabs value={entityType} onValueChange={(value) => setEntityType(value as CustomFieldEntity)}>
+            <TabsList>
+              {CUSTOM_FIELD_ENTITIES.map(entity => (
+                <TabsTrigger key={entity.value} value={entity.value}>
+                  {entity.label}
+                  <Badge variant="secondary" className="ml-2">
+                    {fields.filter(field => field.entity_type === entity.value).length}
+                  </Badge>
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {entityFields.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No custom fields defined for {entityLabel?.toLowerCase()} yet.
+            </p>
+          ) : (
+            <DragDropContext onDragEnd={handleDragEnd}>
+              <Droppable droppableId="custom-fields">
+                {(provided) => (
+                  <div className="space-y-2" ref={provided.innerRef} {...provided.droppableProps}>
+                    {entityFields.map((field, index) => (
+                      <Draggable key={field.id} draggableId={field.id} index={index}>
+                        {(dragProvided) => (
+                          <div
+                            ref={dragProvided.innerRef}
+                            {...dragProvided.draggableProps}
+                            className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 bg-background"
+                          >
+                            <div className="flex items-center gap-3">
+                              <div {...dragProvided.dragHandleProps}>
+                                <GripVertical className="h-4 w-4 text-muted-foreground" />
+                              </div>
+                              <span className="font-medium">{field.field_label}</span>
+                              <code className="text-xs text-muted-foreground">{field.field_name}</code>
+                              <Badge variant="outline">
+                                {CUSTOM_FIELD_TYPES.find(type => type.value === field.field_type)?.label}
+                              </Badge>
+                              {field.is_required && <Badge>Required</Badge>}
+                              {!field.is_visible && <Badge variant="secondary">Hidden</Badge>}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => openEditor(field)}>
+                                Edit
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive"
+                                onClick={() => setFieldToDelete(field)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                      </Draggable>
+                    ))}
+                    {provided.placeholder}
+                  </div>
+                )}
+              </Droppable>
+            </DragDropContext>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Field Edit Modal */}
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {draft?.id ? 'Edit Field' : `Add ${entityLabel} Field`}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Label</Label>
+              <Input
+                value={draft?.field_label || ''}
+                onChange={(e) => {
+                  const label = e.target.value;
+                  setDraft(d => d && ({
+                    ...d,
+                    field_label: label,
+                    field_name: nameEdited ? d.field_name : toCustomFieldName(label),
+                  }));
+                }}
+                placeholder="e.g. Fleet Size"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Key</Label>
+              <Input
+                value={draft?.field_name || ''}
+                onChange={(e) => {
+                  setNameEdited(true);
+                  setDraft(d => d && ({ ...d, field_name: e.target.value }));
+                }}
+                placeholder="fleet_size"
+              />
+              <p className="text-xs text-muted-foreground">
+                Used as the CSV column (cf_{draft?.field_name || 'key'}). Renaming moves existing values.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={draft?.field_type || 'text'}
+                onValueChange={(value) => setDraft(d => d && ({ ...d, field_type: value as CustomFieldType }))}
+                disabled={!!draft?.id}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_FIELD_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {draft && hasFieldOptions(draft.field_type) && (
+              <div className="space-y-2">
+                <Label>Options (one per line)</Label>
+                <Textarea
+                  value={draft.options_text}
+                  onChange={(e) => setDraft(d => d && ({ ...d, options_text: e.target.value }))}
+                  rows={5}
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label>Required</Label>
+              <Switch
+                checked={draft?.is_required || false}
+                onCheckedChange={(checked) => setDraft(d => d && ({ ...d, is_required: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Visible</Label>
+              <Switch
+                checked={draft?.is_visible ?? true}
+                onCheckedChange={(checked) => setDraft(d => d && ({ ...d, is_visible: checked }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveField} disabled={saving || !draft?.field_label.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!fieldToDelete}
+        onOpenChange={(open) => !open && setFieldToDelete(null)}
+        onConfirm={confirmDeleteField}
+        title="Delete Custom Field"
+        description={`Are you sure you want to delete the "${fieldToDelete?.field_label}" field? Values stored in this field will be removed from all records.`}
+      />
+    </div>
+  );
+};
+
+export default CustomFieldsSettings;
@@ -3,7 +3,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
+import { DISPLAY_CURRENCY_QUERY_KEY } from '@/hooks/useCurrency';
+import { CURRENCY_OPTIONS } from '@/utils/currency';
 import { useThemePreferences } from '@/hooks/useThemePreferences';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
@@ -19,6 +22,7 @@ interface DisplayPrefs {
 const DisplaySettings = () => {
   const { user } = useAuth();
   const { theme, setTheme } = useThemePreferences();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [prefs, setPrefs] = useState<DisplayPrefs>({
@@ -74,6 +78,7 @@ const DisplaySettings = () => {
         });
 
       if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: DISPLAY_CURRENCY_QUERY_KEY });
       toast.success('Preferences saved');
     } catch (error) {
       console.error('Error saving preferences:', error);
@@ -186,7 +191,7 @@ const DisplaySettings = () => {
         {/* Row 3: Currency */}
         <div className="grid gap-3 md:grid-cols-2">
           <div className="space-y-1.5">
-            <Label className="text-xs">Currency</Label>
+            <Label className="text-xs">Display Currency</Label>
             <Select
               value={prefs.currency}
               onValueChange={(value) => setPrefs(p => ({ ...p, currency: value }))}
@@ -195,14 +200,16 @@ const DisplaySettings = () => {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="INR">₹ INR (Indian Rupee)</SelectItem>
-                <SelectItem value="USD">$ USD (US Dollar)</SelectItem>
-                <SelectItem value="EUR">€ EUR (Euro)</SelectItem>
-                <SelectItem value="GBP">£ GBP (British Pound)</SelectItem>
-                <SelectItem value="AED">د.إ AED (UAE Dirham)</SelectItem>
-                <SelectItem value="SGD">S$ SGD (Singapore Dollar)</SelectItem>
+                {CURRENCY_OPTIONS.map(option => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.symbol} {option.code} ({option.name})
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            <p className="text-xs text-muted-foreground">
+              Deal totals and revenue are converted into this currency at the latest exchange rates
+            </p>
           </div>
         </div>
 
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Mail, Search, Eye, MousePointer, Clock, User, Building, Filter, RefreshCw } from "lucide-react";
 import { format } from "date-fns";
+import { EmailBodyPreview } from "@/components/shared/EmailBodyPreview";
 
 interface EmailHistoryRecord {
   id: string;
@@ -17,6 +18,7 @@ interface EmailHistoryRecord {
   recipient_name: string | null;
   subject: string;
   body: string | null;
+  is_html: boolean;
   sender_email: string;
   sent_at: string;
   status: string;
@@ -322,9 +324,7 @@ const EmailHistorySettings = () => {
 
             <div>
               <p className="text-sm text-muted-foreground mb-2">Message</p>
-              <div className="p-3 bg-muted/50 rounded-lg whitespace-pre-wrap text-sm">
-                {selectedEmail.body || "No message content"}
-              </div>
+              <EmailBodyPreview body={selectedEmail.body || "No message content"} isHtml={!!selectedEmail.body && selectedEmail.is_html} />
             </div>
 
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-2 border-t">
@@ -0,0 +1,733 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, BarChart3, Pause, Play } from "lucide-react";
+import { format } from "date-fns";
+import { fetchInBatches } from "@/utils/tableQuery";
+
+interface EmailSequence {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  stop_on_reply: boolean;
+  stop_on_click: boolean;
+  stop_on_status_change: boolean;
+  created_by: string | null;
+  created_at: string;
+  email_sequence_steps: { id: string }[];
+}
+
+interface SequenceStep {
+  id?: string;
+  template_id: string;
+  delay_days: number;
+}
+
+interface Enrollment {
+  id: string;
+  recipient_name: string | null;
+  recipient_email: string;
+  status: string;
+  current_step: number;
+  next_send_at: string | null;
+  last_sent_at: string | null;
+  stop_reason: string | null;
+  enrolled_at: string;
+}
+
+interface StepStats {
+  stepId: string;
+  templateName: string;
+  delayDays: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+}
+
+const emptyForm = {
+  name: "",
+  description: "",
+  is_active: true,
+  stop_on_reply: true,
+  stop_on_click: false,
+  stop_on_status_change: true,
+};
+
+const enrollmentStatusVariant = (status: string) => {
+  switch (status) {
+    case 'active': return 'default';
+    case 'paused': return 'secondary';
+    case 'stopped':
+    case 'failed': return 'destructive';
+    default: return 'outline';
+  }
+};
+
+const percent = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : '-');
+
+const EmailSequencesSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [sequences, setSequences] = useState<EmailSequence[]>([]);
+  const [templates, setTemplates] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingSequence, setEditingSequence] = useState<EmailSequence | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [steps, setSteps] = useState<SequenceStep[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [sequenceToDelete, setSequenceToDelete] = useState<string | null>(null);
+  const [detailsSequence, setDetailsSequence] = useState<EmailSequence | null>(null);
+  const [stepStats, setStepStats] = useState<StepStats[]>([]);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [detailsLoading, setDetailsLoading] = useState(false);
+
+  const fetchSequences = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [sequencesRes, templatesRes] = await Promise.all([
+        supabase
+          .from('email_sequences')
+          .select('*, email_sequence_steps(id)')
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('email_templates')
+          .select('id, name')
+          .order('name'),
+      ]);
+
+      if (sequencesRes.error) throw sequencesRes.error;
+      if (templatesRes.error) throw templatesRes.error;
+      setSequences(sequencesRes.data || []);
+      setTemplates(templatesRes.data || []);
+    } catch (error) {
+      console.error('Error fetching sequences:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch email sequences",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSequences();
+  }, [fetchSequences]);
+
+  const handleOpenModal = async (sequence?: EmailSequence) => {
+    if (sequence) {
+      const { data, error } = await supabase
+        .from('email_sequence_steps')
+        .select('id, template_id, delay_days')
+        .eq('sequence_id', sequence.id)
+        .order('step_order');
+
+      if (error) {
+        toast({ title: "Error", description: "Failed to load sequence steps", variant: "destructive" });
+        return;
+      }
+
+      setEditingSequence(sequence);
+      setFormData({
+        name: sequence.name,
+        description: sequence.description || "",
+        is_active: sequence.is_active,
+        stop_on_reply: sequence.stop_on_reply,
+        stop_on_click: sequence.stop_on_click,
+        stop_on_status_change: sequence.stop_on_status_change,
+      });
+      setSteps(data || []);
+    } else {
+      setEditingSequence(null);
+      setFormData(emptyForm);
+      setSteps([{ template_id: "", delay_days: 0 }]);
+    }
+    setShowModal(true);
+  };
+
+  const updateStep = (index: number, changes: Partial<SequenceStep>) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setSteps(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name || steps.length === 0 || steps.some(step => !step.template_id)) {
+      toast({
+        title: "Missing fields",
+        description: "Please enter a name and choose a template for every step",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const sequenceData = {
+        name: formData.name,
+        description: formData.description || null,
+        is_active: formData.is_active,
+        stop_on_reply: formData.stop_on_reply,
+        stop_on_click: formData.stop_on_click,
+        stop_on_status_change: formData.stop_on_status_change,
+      };
+
+      let sequenceId = editingSequence?.id;
+      if (sequenceId) {
+        const { error } = await supabase
+          .from('email_sequences')
+          .update(sequenceData)
+          .eq('id', sequenceId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('email_sequences')
+          .insert([{ ...sequenceData, created_by: user?.id }])
+          .select('id')
+          .single();
+        if (error) throw error;
+        sequenceId = data.id;
+      }
+
+      // Removed steps are deleted; kept steps are updated in place so their stats stay attached
+      const keptIds = steps.map(step => step.id).filter((id): id is string => Boolean(id));
+      const removedIds = (editingSequence?.email_sequence_steps || [])
+        .map(step => step.id)
+        .filter(id => !keptIds.includes(id));
+
+      if (removedIds.length > 0) {
+        const { error } = await supabase
+          .from('email_sequence_steps')
+          .delete()
+          .in('id', removedIds);
+        if (error) throw error;
+      }
+
+      const stepRows = steps.map((step, index) => ({
+        id: step.id,
+        sequence_id: sequenceId!,
+        step_order: index + 1,
+        template_id: step.template_id,
+        delay_days: Math.max(0, Math.floor(step.delay_days) || 0),
+      }));
+
+      // Existing steps are reordered in one statement so the deferred order constraint sees the final order
+      const existingRows = stepRows.filter(row => row.id).map(row => ({ ...row, id: row.id! }));
+      if (existingRows.length > 0) {
+        const { error } = await supabase
+          .from('email_sequence_steps')
+          .upsert(existingRows);
+        if (error) throw error;
+      }
+
+      const newRows = stepRows.filter(row => !row.id).map(({ id: _id, ...row }) => row);
+      if (newRows.length > 0) {
+        const { error } = await supabase
+          .from('email_sequence_steps')
+          .insert(newRows);
+        if (error) throw error;
+      }
+
+      toast({ title: "Success", description: editingSequence ? "Sequence updated successfully" : "Sequence created successfully" });
+      setShowModal(false);
+      fetchSequences();
+    } catch (error) {
+      console.error('Error saving sequence:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save sequence",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (sequence: EmailSequence, isActive: boolean) => {
+    const { error } = await supabase
+      .from('email_sequences')
+      .update({ is_active: isActive })
+      .eq('id', sequence.id);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to update sequence", variant: "destructive" });
+      return;
+    }
+    setSequences(prev => prev.map(s => (s.id === sequence.id ? { ...s, is_active: isActive } : s)));
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('email_sequences')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Sequence deleted successfully" });
+      fetchSequences();
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete sequence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchDetails = async (sequence: EmailSequence) => {
+    setDetailsLoading(true);
+    try {
+      // Enrollments and sent emails can exceed the per-request row limit, so both are read in batches
+      const [stepsRes, enrollmentRows] = await Promise.all([
+        supabase
+          .from('email_sequence_steps')
+          .select('id, delay_days, email_templates(name)')
+          .eq('sequence_id', sequence.id)
+          .order('step_order'),
+        fetchInBatches((from, to) =>
+          supabase
+            .from('email_sequence_enrollments')
+            .select('id, recipient_name, recipient_email, status, current_step, next_send_at, last_sent_at, stop_reason, enrolled_at')
+            .eq('sequence_id', sequence.id)
+            .order('enrolled_at', { ascending: false })
+            .order('id', { ascending: true })
+            .range(from, to)
+        ),
+      ]);
+
+      if (stepsRes.error) throw stepsRes.error;
+
+      const stepIds = (stepsRes.data || []).map(step => step.id);
+      const emails = stepIds.length > 0
+        ? await fetchInBatches((from, to) =>
+            supabase
+              .from('email_history')
+              .select('sequence_step_id, status, opened_at, clicked_at')
+              .in('sequence_step_id', stepIds)
+              .order('id', { ascending: true })
+              .range(from, to)
+          )
+        : [];
+
+      setStepStats((stepsRes.data || []).map(step => {
+        const stepEmails = emails.filter(email => email.sequence_step_id === step.id);
+        return {
+          stepId: step.id,
+          templateName: step.email_templates?.name || 'Deleted template',
+          delayDays: step.delay_days,
+          sent: stepEmails.length,
+          opened: stepEmails.filter(email => email.opened_at || email.clicked_at || email.status === 'replied').length,
+          clicked: stepEmails.filter(email => email.clicked_at).length,
+          replied: stepEmails.filter(email => email.status === 'replied').length,
+        };
+      }));
+      setEnrollments(enrollmentRows);
+    } catch (error) {
+      console.error('Error fetching sequence details:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch sequence details",
+        variant: "destructive",
+      });
+    } finally {
+      setDetailsLoading(false);
+    }
+  };
+
+  const handleOpenDetails = (sequence: EmailSequence) => {
+    setDetailsSequence(sequence);
+    setStepStats([]);
+    setEnrollments([]);
+    fetchDetails(sequence);
+  };
+
+  const handleSetEnrollmentPaused = async (enrollment: Enrollment, paused: boolean) => {
+    const now = new Date();
+    // Steps that fell due while paused are sent on the next run rather than all at once
+    const nextSendAt = enrollment.next_send_at && new Date(enrollment.next_send_at) > now
+      ? enrollment.next_send_at
+      : now.toISOString();
+
+    const { error } = await supabase
+      .from('email_sequence_enrollments')
+      .update(paused ? { status: 'paused' } : { status: 'active', next_send_at: nextSendAt })
+      .eq('id', enrollment.id)
+      .eq('status', paused ? 'active' : 'paused');
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to update enrollment", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Success", description: paused ? "Enrollment paused" : "Enrollment resumed" });
+    if (detailsSequence) fetchDetails(detailsSequence);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading sequences...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const stopOptions = [
+    { key: 'stop_on_reply' as const, label: "Stop when the recipient replies" },
+    { key: 'stop_on_click' as const, label: "Stop when the recipient clicks a link" },
+    { key: 'stop_on_status_change' as const, label: "Stop when the lead status changes" },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Email Sequences</CardTitle>
+              <CardDescription>
+                Automated cadences of email templates sent to enrolled leads and contacts
+              </CardDescription>
+            </div>
+            <Button onClick={() => handleOpenModal()} className="gap-2" disabled={templates.length === 0}>
+              <Plus className="h-4 w-4" />
+              New Sequence
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {templates.length === 0 && (
+            <p className="mb-4 text-sm text-muted-foreground">
+              Create an email template first; every sequence step sends one template.
+            </p>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="w-[140px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sequences.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No email sequences yet. Create your first sequence to get started.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sequences.map((sequence) => (
+                  <TableRow key={sequence.id}>
+                    <TableCell>
+                      <div className="font-medium">{sequence.name}</div>
+                      {sequence.description && (
+                        <div className="text-xs text-muted-foreground">{sequence.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{sequence.email_sequence_steps.length}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={sequence.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(sequence, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>{format(new Date(sequence.created_at), 'dd/MM/yyyy')}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="icon" onClick={() => handleOpenDetails(sequence)}>
+                          <BarChart3 className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleOpenModal(sequence)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setSequenceToDelete(sequence.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Sequence Modal */}
+      <Dialog open={showModal} onOpenChange={setShowModal}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSequence ? "Edit Sequence" : "New Sequence"}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sequence-name">Sequence Name *</Label>
+              <Input
+                id="sequence-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., New Lead Nurture"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sequence-description">Description</Label>
+              <Textarea
+                id="sequence-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="sequence-active">Active</Label>
+                <Switch
+                  id="sequence-active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+              </div>
+              {stopOptions.map(option => (
+                <div key={option.key} className="flex items-center justify-between">
+                  <Label htmlFor={option.key}>{option.label}</Label>
+                  <Switch
+                    id={option.key}
+                    checked={formData[option.key]}
+                    onCheckedChange={(checked) => setFormData(prev => ({ ...prev, [option.key]: checked }))}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Steps *</Label>
+              <p className="text-xs text-muted-foreground">
+                Each delay counts from the previous step; the first step's delay counts from enrollment.
+              </p>
+              {steps.map((step, index) => (
+                <div key={step.id || `new-${index}`} className="flex items-center gap-2">
+                  <span className="w-14 text-sm text-muted-foreground">Step {index + 1}</span>
+                  <Select value={step.template_id} onValueChange={(value) => updateStep(index, { template_id: value })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Choose a template" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-20"
+                    value={step.delay_days}
+                    onChange={(e) => updateStep(index, { delay_days: Number(e.target.value) })}
+                    aria-label="Delay in days"
+                  />
+                  <span className="text-sm text-muted-foreground">days</span>
+                  <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={steps.length === 1}
+                    onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setSteps(prev => [...prev, { template_id: "", delay_days: 3 }])}
+              >
+                <Plus className="h-4 w-4" />
+                Add Step
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setShowModal(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : editingSequence ? "Update" : "Create"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stats and enrollments */}
+      <Dialog open={!!detailsSequence} onOpenChange={(open) => !open && setDetailsSequence(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{detailsSequence?.name}</DialogTitle>
+          </DialogHeader>
+
+          {detailsLoading && stepStats.length === 0 ? (
+            <div className="py-8 text-center text-muted-foreground">Loading...</div>
+          ) : (
+            <div className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Step</TableHead>
+                    <TableHead>Template</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Clicked</TableHead>
+                    <TableHead>Replied</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stepStats.map((stats, index) => (
+                    <TableRow key={stats.stepId}>
+                      <TableCell>
+                        {index + 1}
+                        <span className="ml-1 text-xs text-muted-foreground">(+{stats.delayDays}d)</span>
+                      </TableCell>
+                      <TableCell>{stats.templateName}</TableCell>
+                      <TableCell>{stats.sent}</TableCell>
+                      <TableCell>{stats.opened} <span className="text-xs text-muted-foreground">{percent(stats.opened, stats.sent)}</span></TableCell>
+                      <TableCell>{stats.clicked} <span className="text-xs text-muted-foreground">{percent(stats.clicked, stats.sent)}</span></TableCell>
+                      <TableCell>{stats.replied} <span className="text-xs text-muted-foreground">{percent(stats.replied, stats.sent)}</span></TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Recipient</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Progress</TableHead>
+                    <TableHead>Next Email</TableHead>
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {enrollments.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                        Nobody is enrolled in this sequence yet. Enroll leads or contacts from their lists.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    enrollments.map((enrollment) => (
+                      <TableRow key={enrollment.id}>
+                        <TableCell>
+                          <div className="font-medium">{enrollment.recipient_name || enrollment.recipient_email}</div>
+                          <div className="text-xs text-muted-foreground">{enrollment.recipient_email}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={enrollmentStatusVariant(enrollment.status)} className="capitalize">
+                            {enrollment.status}
+                          </Badge>
+                          {enrollment.stop_reason && (
+                            <div className="text-xs text-muted-foreground mt-1">{enrollment.stop_reason}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{enrollment.current_step} / {stepStats.length}</TableCell>
+                        <TableCell>
+                          {enrollment.status === 'active' && enrollment.next_send_at
+                            ? format(new Date(enrollment.next_send_at), 'dd/MM/yyyy HH:mm')
+                            : '-'}
+                        </TableCell>
+                        <TableCell>
+                          {enrollment.status === 'active' && (
+                            <Button variant="ghost" size="icon" onClick={() => handleSetEnrollmentPaused(enrollment, true)}>
+                              <Pause className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {enrollment.status === 'paused' && (
+                            <Button variant="ghost" size="icon" onClick={() => handleSetEnrollmentPaused(enrollment, false)}>
+                              <Play className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Dialog */}
+      <AlertDialog open={!!sequenceToDelete} onOpenChange={(open) => !open && setSequenceToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Sequence</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete this sequence? Its enrollments are removed and no further emails will be sent. Sent emails stay in the email history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (sequenceToDelete) {
+                  handleDelete(sequenceToDelete);
+                  setSequenceToDelete(null);
+                }
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EmailSequencesSettings;
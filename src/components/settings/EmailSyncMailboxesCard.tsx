@@ -0,0 +1,168 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface SyncMailbox {
+  id: string;
+  mailbox: string;
+  is_enabled: boolean;
+  last_synced_at: string | null;
+  last_error: string | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Mailboxes read by the sync-email-replies job when the Email Reply Sync integration is enabled
+const EmailSyncMailboxesCard = () => {
+  const { user } = useAuth();
+  const [mailboxes, setMailboxes] = useState<SyncMailbox[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newMailbox, setNewMailbox] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const fetchMailboxes = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('email_sync_mailboxes')
+        .select('id, mailbox, is_enabled, last_synced_at, last_error')
+        .order('mailbox');
+
+      if (error) throw error;
+      setMailboxes(data || []);
+    } catch (error) {
+      console.error('Error fetching sync mailboxes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMailboxes();
+  }, [fetchMailboxes]);
+
+  const addMailbox = async () => {
+    const mailbox = newMailbox.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(mailbox)) {
+      toast.error('Enter a valid mailbox address');
+      return;
+    }
+
+    setAdding(true);
+    try {
+      const { error } = await supabase
+        .from('email_sync_mailboxes')
+        .insert({ mailbox, created_by: user?.id });
+
+      if (error) throw error;
+      setNewMailbox('');
+      toast.success(`${mailbox} will be synced`);
+      fetchMailboxes();
+    } catch (error) {
+      console.error('Error adding sync mailbox:', error);
+      toast.error('Failed to add mailbox');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const toggleMailbox = async (id: string, enabled: boolean) => {
+    const { error } = await supabase
+      .from('email_sync_mailboxes')
+      .update({ is_enabled: enabled })
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to update mailbox');
+      return;
+    }
+    setMailboxes(prev => prev.map(m => m.id === id ? { ...m, is_enabled: enabled } : m));
+  };
+
+  const removeMailbox = async (id: string) => {
+    const { error } = await supabase
+      .from('email_sync_mailboxes')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to remove mailbox');
+      return;
+    }
+    setMailboxes(prev => prev.filter(m => m.id !== id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reply Sync Mailboxes</CardTitle>
+        <CardDescription>
+          Replies arriving in these mailboxes are added to the email history of matching contacts and leads
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            type="email"
+            placeholder="sales@example.com"
+            value={newMailbox}
+            onChange={(e) => setNewMailbox(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addMailbox()}
+          />
+          <Button onClick={addMailbox} disabled={adding || !newMailbox.trim()} className="gap-2">
+            {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : mailboxes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No mailboxes yet. Add the mailboxes your team sends from.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {mailboxes.map((mailbox) => (
+              <div key={mailbox.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{mailbox.mailbox}</span>
+                    {mailbox.last_error && <Badge variant="destructive">Error</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {mailbox.last_error
+                      ? mailbox.last_error
+                      : mailbox.last_synced_at
+                      ? `Last synced: ${format(new Date(mailbox.last_synced_at), 'dd/MM/yyyy HH:mm')}`
+                      : 'Not synced yet'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={mailbox.is_enabled}
+                    onCheckedChange={(checked) => toggleMailbox(mailbox.id, checked)}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => removeMailbox(mailbox.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailSyncMailboxesCard;
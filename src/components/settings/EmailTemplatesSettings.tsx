@@ -4,7 +4,6 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -14,12 +13,15 @@ import { Plus, Edit, Trash2, Info } from "lucide-react";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { RichTextEditor } from "@/components/shared/RichTextEditor";
+import { isHtmlEmpty, toEmailHtml } from "@/utils/emailHtml";
 
 interface EmailTemplate {
   id: string;
   name: string;
   subject: string;
   body: string;
+  is_html: boolean;
   created_by?: string;
   created_at: string;
   updated_at: string;
@@ -73,7 +75,7 @@ const EmailTemplatesSettings = () => {
       setFormData({
         name: template.name,
         subject: template.subject,
-        body: template.body
+        body: toEmailHtml(template.body, template.is_html)
       });
     } else {
       setEditingTemplate(null);
@@ -85,7 +87,7 @@ const EmailTemplatesSettings = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.name || !formData.subject || !formData.body) {
+    if (!formData.name || !formData.subject || isHtmlEmpty(formData.body)) {
       toast({
         title: "Missing fields",
         description: "Please fill in all required fields",
@@ -100,6 +102,7 @@ const EmailTemplatesSettings = () => {
         name: formData.name,
         subject: formData.subject,
         body: formData.body,
+        is_html: true,
         created_by: user?.id
       };
 
@@ -262,7 +265,7 @@ const EmailTemplatesSettings = () => {
 
       {/* Template Modal */}
       <Dialog open={showModal} onOpenChange={setShowModal}>
-        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingTemplate ? "Edit Template" : "New Template"}</DialogTitle>
           </DialogHeader>
@@ -292,13 +295,12 @@ const EmailTemplatesSettings = () => {
 
             <div className="space-y-2">
               <Label htmlFor="body">Email Body *</Label>
-              <Textarea
+              <RichTextEditor
                 id="body"
                 value={formData.body}
-                onChange={(e) => setFormData(prev => ({ ...prev, body: e.target.value }))}
+                onChange={(html) => setFormData(prev => ({ ...prev, body: html }))}
                 placeholder="Write your email content here. Use variables like {{contact_name}} for personalization."
-                rows={8}
-                required
+                minHeight={200}
               />
             </div>
 
@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/useCurrency";
+import { FORECAST_QUERY_KEY } from "@/hooks/useForecastData";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { ForecastPeriodType, getPeriodLabel } from "@/utils/forecast";
+
+interface Profile {
+  id: string;
+  full_name: string | null;
+}
+
+// One line of the grid: who the target is for and the amount per period
+interface TargetRow {
+  owner_id: string | null;
+  region: string | null;
+  values: Record<number, string>;
+}
+
+const EVERYONE = 'everyone';
+const currentYear = new Date().getFullYear();
+const YEARS = [currentYear - 1, currentYear, currentYear + 1];
+
+const rowKey = (row: Pick<TargetRow, 'owner_id' | 'region'>) => `${row.owner_id ?? ''}|${row.region ?? ''}`;
+
+const ForecastTargetsSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { reportingCurrency } = useCurrency();
+  const [year, setYear] = useState(currentYear);
+  const [periodType, setPeriodType] = useState<ForecastPeriodType>('quarter');
+  const [rows, setRows] = useState<TargetRow[]>([]);
+  const [removedRows, setRemovedRows] = useState<TargetRow[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [newOwner, setNewOwner] = useState(EVERYONE);
+  const [newRegion, setNewRegion] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const periods = Array.from({ length: periodType === 'quarter' ? 4 : 12 }, (_, i) => i + 1);
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [targetsResult, profilesResult] = await Promise.all([
+        supabase
+          .from('revenue_targets')
+          .select('owner_id, region, period, target')
+          .eq('year', year)
+          .eq('period_type', periodType),
+        supabase.from('profiles').select('id, full_name').order('full_name'),
+      ]);
+
+      if (targetsResult.error) throw targetsResult.error;
+      if (profilesResult.error) throw profilesResult.error;
+
+      const byKey = new Map<string, TargetRow>();
+      (targetsResult.data || []).forEach(target => {
+        const key = rowKey(target);
+        const row = byKey.get(key) || { owner_id: target.owner_id, region: target.region, values: {} };
+        row.values[target.period] = String(target.target);
+        byKey.set(key, row);
+      });
+
+      setRows(Array.from(byKey.values()));
+      setRemovedRows([]);
+      setProfiles(profilesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching revenue targets:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load revenue targets",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [year, periodType, toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const describeRow = (row: TargetRow) => {
+    const owner = row.owner_id ? profiles.find(p => p.id === row.owner_id)?.full_name || 'Unknown user' : null;
+    return [owner, row.region].filter(Boolean).join(' · ') || 'Whole organisation';
+  };
+
+  const handleAddRow = () => {
+    const row: TargetRow = {
+      owner_id: newOwner === EVERYONE ? null : newOwner,
+      region: newRegion.trim() || null,
+      values: {},
+    };
+    if (rows.some(r => rowKey(r) === rowKey(row))) {
+      toast({
+        title: "Error",
+        description: "A target line for this owner and region already exists",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRows(prev => [...prev, row]);
+    setNewOwner(EVERYONE);
+    setNewRegion('');
+  };
+
+  const handleValueChange = (row: TargetRow, period: number, value: string) => {
+    setRows(prev => prev.map(r => rowKey(r) === rowKey(row) ? { ...r, values: { ...r.values, [period]: value } } : r));
+  };
+
+  const handleRemoveRow = (row: TargetRow) => {
+    setRows(prev => prev.filter(r => rowKey(r) !== rowKey(row)));
+    setRemovedRows(prev => [...prev, row]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      for (const row of removedRows) {
+        let query = supabase
+          .from('revenue_targets')
+          .delete()
+          .eq('year', year)
+          .eq('period_type', periodType);
+        query = row.owner_id ? query.eq('owner_id', row.owner_id) : query.is('owner_id', null);
+        query = row.region ? query.eq('region', row.region) : query.is('region', null);
+        const { error } = await query;
+        if (error) throw error;
+      }
+
+      const targets = rows.flatMap(row => periods.map(period => ({
+        year,
+        period_type: periodType,
+        period,
+        owner_id: row.owner_id,
+        region: row.region,
+        target: Number(row.values[period]) || 0,
+        created_by: user?.id,
+      })));
+
+      if (targets.length > 0) {
+        const { error } = await supabase
+          .from('revenue_targets')
+          .upsert(targets, { onConflict: 'year,period_type,period,owner_id,region' });
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Revenue targets saved",
+      });
+      queryClient.invalidateQueries({ queryKey: FORECAST_QUERY_KEY });
+      fetchData();
+    } catch (error) {
+      console.error('Error saving revenue targets:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save revenue targets",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Forecast Targets</CardTitle>
+              <CardDescription>
+                Revenue targets in {reportingCurrency} for the whole organisation, an owner, a region, or an owner within a region
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+                <SelectTrigger className="w-[100px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {YEARS.map(y => <SelectItem key={y} value={String(y)}>{y}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={periodType} onValueChange={(value: ForecastPeriodType) => setPeriodType(value)}>
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="quarter">By quarter</SelectItem>
+                  <SelectItem value="month">By month</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleSave} disabled={saving || loading} className="gap-2">
+                <Save className="h-4 w-4" />
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[200px]">Target for</TableHead>
+                    {periods.map(period => (
+                      <TableHead key={period} className="min-w-[110px]">
+                        {getPeriodLabel({ type: periodType, period })}
+                      </TableHead>
+                    ))}
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={periods.length + 2} className="text-center py-8 text-muted-foreground">
+                        No targets for {year} yet. Add a line below.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    rows.map(row => (
+                      <TableRow key={rowKey(row)}>
+                        <TableCell className="font-medium">{describeRow(row)}</TableCell>
+                        {periods.map(period => (
+                          <TableCell key={period}>
+                            <Input
+                              type="number"
+                              min="0"
+                              value={row.values[period] || ''}
+                              onChange={(e) => handleValueChange(row, period, e.target.value)}
+                              className="h-8"
+                            />
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          <Button variant="ghost" size="icon" onClick={() => handleRemoveRow(row)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex items-end gap-2">
+            <Select value={newOwner} onValueChange={setNewOwner}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={EVERYONE}>All owners</SelectItem>
+                {profiles.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.full_name || 'Unknown user'}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={newRegion}
+              onChange={(e) => setNewRegion(e.target.value)}
+              placeholder="Region (optional), e.g. EU"
+              className="w-[220px]"
+            />
+            <Button variant="outline" onClick={handleAddRow} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Line
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The forecast page compares deals against the line matching its owner and region filters. Unsaved changes are lost when switching year or period.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ForecastTargetsSettings;
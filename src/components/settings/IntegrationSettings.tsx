@@ -6,6 +6,7 @@ import { Switch } from '@/components/ui/switch';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
+import EmailSyncMailboxesCard from '@/components/settings/EmailSyncMailboxesCard';
 import { 
   Loader2, 
   Video, 
@@ -14,7 +15,8 @@ import {
   CheckCircle2, 
   XCircle,
   ExternalLink,
-  Settings
+  Settings,
+  Reply
 } from 'lucide-react';
 
 interface Integration {
@@ -85,6 +87,8 @@ const IntegrationSettings = () => {
         return <Mail className="h-6 w-6 text-orange-500" />;
       case 'calendar sync':
         return <Calendar className="h-6 w-6 text-green-500" />;
+      case 'email reply sync':
+        return <Reply className="h-6 w-6 text-amber-500" />;
       default:
         return <Settings className="h-6 w-6" />;
     }
@@ -172,6 +176,8 @@ const IntegrationSettings = () => {
         </CardContent>
       </Card>
 
+      <EmailSyncMailboxesCard />
+
       {/* Integration Status Overview */}
       <Card>
         <CardHeader>
@@ -249,6 +255,14 @@ const IntegrationSettings = () => {
               for Microsoft Graph email integration.
             </p>
           </div>
+
+          <div className="p-4 bg-muted rounded-lg">
+            <h4 className="font-medium mb-2">Email Reply Sync</h4>
+            <p className="text-sm text-muted-foreground">
+              Uses the same Azure email credentials. Grant the app registration the Mail.Read application
+              permission in addition to Mail.Send so replies can be read from the synced mailboxes.
+            </p>
+          </div>
         </CardContent>
       </Card>
     </div>
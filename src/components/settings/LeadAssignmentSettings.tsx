@@ -0,0 +1,442 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import { SEGMENT_OPTIONS } from "@/components/accounts/AccountScoreBadge";
+
+interface AssignmentRule {
+  id: string;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  countries: string[];
+  regions: string[];
+  industries: string[];
+  sources: string[];
+  company_sizes: string[];
+  distribution: string;
+  assignee_ids: string[];
+}
+
+interface Profile {
+  id: string;
+  full_name: string | null;
+}
+
+type RuleForm = Omit<AssignmentRule, 'id' | 'countries' | 'regions' | 'industries' | 'sources'> & {
+  countries: string;
+  regions: string;
+  industries: string;
+  sources: string;
+};
+
+const emptyForm: RuleForm = {
+  name: '',
+  priority: 0,
+  is_active: true,
+  countries: '',
+  regions: '',
+  industries: '',
+  sources: '',
+  company_sizes: [],
+  distribution: 'round_robin',
+  assignee_ids: [],
+};
+
+const TEXT_CRITERIA: { key: 'countries' | 'regions' | 'industries' | 'sources'; label: string; placeholder: string }[] = [
+  { key: 'countries', label: 'Countries', placeholder: 'e.g. Germany, France' },
+  { key: 'regions', label: 'Account regions', placeholder: 'e.g. EU, US' },
+  { key: 'industries', label: 'Industries', placeholder: 'e.g. Automotive' },
+  { key: 'sources', label: 'Lead sources', placeholder: 'e.g. Website, Referral' },
+];
+
+const DISTRIBUTION_LABELS: Record<string, string> = {
+  round_robin: 'Round robin',
+  load_balanced: 'Fewest open leads',
+};
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const LeadAssignmentSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AssignmentRule | null>(null);
+  const [formData, setFormData] = useState<RuleForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [rulesResult, profilesResult] = await Promise.all([
+        supabase
+          .from('lead_assignment_rules')
+          .select('id, name, priority, is_active, countries, regions, industries, sources, company_sizes, distribution, assignee_ids')
+          .order('priority')
+          .order('created_at'),
+        supabase.from('profiles').select('id, full_name').order('full_name'),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (profilesResult.error) throw profilesResult.error;
+      setRules(rulesResult.data || []);
+      setProfiles(profilesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching lead assignment rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load lead assignment rules",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const profileName = (id: string) => profiles.find(p => p.id === id)?.full_name || 'Unknown user';
+
+  const handleOpenModal = (rule?: AssignmentRule) => {
+    setEditingRule(rule || null);
+    setFormData(rule ? {
+      ...rule,
+      countries: rule.countries.join(', '),
+      regions: rule.regions.join(', '),
+      industries: rule.industries.join(', '),
+      sources: rule.sources.join(', '),
+    } : { ...emptyForm, priority: rules.length > 0 ? Math.max(...rules.map(r => r.priority)) + 1 : 0 });
+    setIsModalOpen(true);
+  };
+
+  const toggleListValue = (key: 'company_sizes' | 'assignee_ids', value: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      [key]: checked ? [...prev[key], value] : prev[key].filter(v => v !== value),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim() || formData.assignee_ids.length === 0) {
+      toast({
+        title: "Error",
+        description: "Name the rule and pick at least one team member",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const ruleData = {
+        name: formData.name.trim(),
+        priority: formData.priority,
+        is_active: formData.is_active,
+        countries: splitList(formData.countries),
+        regions: splitList(formData.regions),
+        industries: splitList(formData.industries),
+        sources: splitList(formData.sources),
+        company_sizes: formData.company_sizes,
+        distribution: formData.distribution,
+        assignee_ids: formData.assignee_ids,
+      };
+
+      if (editingRule) {
+        const { error } = await supabase
+          .from('lead_assignment_rules')
+          .update(ruleData)
+          .eq('id', editingRule.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('lead_assignment_rules')
+          .insert({ ...ruleData, created_by: user?.id });
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `Assignment rule ${editingRule ? 'updated' : 'created'} successfully`,
+      });
+      setIsModalOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error('Error saving lead assignment rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save assignment rule",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: AssignmentRule, isActive: boolean) => {
+    const { error } = await supabase
+      .from('lead_assignment_rules')
+      .update({ is_active: isActive })
+      .eq('id', rule.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update assignment rule",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: isActive } : r));
+  };
+
+  const handleDelete = async (rule: AssignmentRule) => {
+    const { error } = await supabase
+      .from('lead_assignment_rules')
+      .delete()
+      .eq('id', rule.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete assignment rule",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRules(prev => prev.filter(r => r.id !== rule.id));
+  };
+
+  const describeCriteria = (rule: AssignmentRule) => {
+    const sizeLabels = rule.company_sizes.map(size => SEGMENT_OPTIONS.find(o => o.value === size)?.label || size);
+    const parts = [
+      ...rule.countries, ...rule.regions, ...rule.industries, ...rule.sources, ...sizeLabels,
+    ];
+    return parts.length > 0 ? parts.join(', ') : 'Any lead';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading assignment rules...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Lead Assignment</CardTitle>
+              <CardDescription>
+                Route new, imported and orphaned leads to a team; the first matching rule in priority order wins
+              </CardDescription>
+            </div>
+            <Button onClick={() => handleOpenModal()} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[80px]">Priority</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Matches</TableHead>
+                <TableHead>Team</TableHead>
+                <TableHead>Distribution</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-[100px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No assignment rules yet. New leads stay with the user who creates them.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell className="max-w-[220px] truncate" title={describeCriteria(rule)}>
+                      {describeCriteria(rule)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {rule.assignee_ids.map(id => (
+                          <Badge key={id} variant="secondary">{profileName(id)}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{DISTRIBUTION_LABELS[rule.distribution] || rule.distribution}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(rule, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => handleOpenModal(rule)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Rules apply when a lead is created, to imported rows without an owner, and to the open leads of a deactivated user.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Assignment Rule' : 'New Assignment Rule'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="rule-name">Name *</Label>
+                <Input
+                  id="rule-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. DACH inbound"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-priority">Priority</Label>
+                <Input
+                  id="rule-priority"
+                  type="number"
+                  value={formData.priority}
+                  onChange={(e) => setFormData(prev => ({ ...prev, priority: Number(e.target.value) || 0 }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {TEXT_CRITERIA.map(criterion => (
+                <div key={criterion.key} className="space-y-2">
+                  <Label>{criterion.label}</Label>
+                  <Input
+                    value={formData[criterion.key]}
+                    onChange={(e) => setFormData(prev => ({ ...prev, [criterion.key]: e.target.value }))}
+                    placeholder={criterion.placeholder}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Company size (account segment)</Label>
+              <div className="flex flex-wrap gap-4">
+                {SEGMENT_OPTIONS.map(option => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.company_sizes.includes(option.value)}
+                      onCheckedChange={(checked) => toggleListValue('company_sizes', option.value, checked === true)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave a criterion empty to match any value. Lists are comma separated.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Distribution</Label>
+                <Select value={formData.distribution} onValueChange={(value) => setFormData(prev => ({ ...prev, distribution: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DISTRIBUTION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pt-8">
+                <Switch
+                  id="rule-active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="rule-active">Active</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Team members * ({formData.assignee_ids.length} selected)</Label>
+              <ScrollArea className="h-40 border rounded-md p-3">
+                <div className="space-y-2">
+                  {profiles.map(profile => (
+                    <label key={profile.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formData.assignee_ids.includes(profile.id)}
+                        onCheckedChange={(checked) => toggleListValue('assignee_ids', profile.id, checked === true)}
+                      />
+                      {profile.full_name || profile.id}
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+              <p className="text-xs text-muted-foreground">
+                Deactivated users are skipped when leads are assigned.
+              </p>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button variant="outline" onClick={() => setIsModalOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : editingRule ? 'Update Rule' : 'Create Rule'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default LeadAssignmentSettings;
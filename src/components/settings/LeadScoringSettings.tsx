@@ -0,0 +1,412 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, RefreshCw, Save } from "lucide-react";
+
+interface ScoringRule {
+  id: string;
+  field: string;
+  match_type: string;
+  match_value: string;
+  points: number;
+  is_active: boolean;
+}
+
+interface ScoringSettings {
+  id: string;
+  email_open_points: number;
+  email_click_points: number;
+  email_reply_points: number;
+  max_engagement_points: number;
+  meeting_points: number;
+  max_meeting_points: number;
+  recency_points: number;
+  decay_half_life_days: number;
+}
+
+type SettingsField = Exclude<keyof ScoringSettings, 'id'>;
+
+const RULE_FIELDS = [
+  { value: 'industry', label: 'Industry' },
+  { value: 'position', label: 'Position' },
+  { value: 'contact_source', label: 'Lead Source' },
+];
+
+const SETTINGS_GROUPS: { title: string; fields: { key: SettingsField; label: string; min: number }[] }[] = [
+  {
+    title: 'Email engagement',
+    fields: [
+      { key: 'email_open_points', label: 'Points per open', min: 0 },
+      { key: 'email_click_points', label: 'Points per click', min: 0 },
+      { key: 'email_reply_points', label: 'Points per reply', min: 0 },
+      { key: 'max_engagement_points', label: 'Maximum', min: 0 },
+    ],
+  },
+  {
+    title: 'Meetings held',
+    fields: [
+      { key: 'meeting_points', label: 'Points per meeting', min: 0 },
+      { key: 'max_meeting_points', label: 'Maximum', min: 0 },
+    ],
+  },
+  {
+    title: 'Recency and decay',
+    fields: [
+      { key: 'recency_points', label: 'Points for activity today', min: 0 },
+      { key: 'decay_half_life_days', label: 'Half-life (days)', min: 1 },
+    ],
+  },
+];
+
+const emptyRule = { field: 'position', match_type: 'contains', match_value: '', points: 10 };
+
+const LeadScoringSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [settings, setSettings] = useState<ScoringSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [saving, setSaving] = useState(false);
+  const [recalculating, setRecalculating] = useState(false);
+
+  const fetchScoringModel = useCallback(async () => {
+    try {
+      const [rulesResult, settingsResult] = await Promise.all([
+        supabase
+          .from('lead_scoring_rules')
+          .select('id, field, match_type, match_value, points, is_active')
+          .order('field')
+          .order('points', { ascending: false }),
+        supabase
+          .from('lead_scoring_settings')
+          .select('id, email_open_points, email_click_points, email_reply_points, max_engagement_points, meeting_points, max_meeting_points, recency_points, decay_half_life_days')
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (settingsResult.error) throw settingsResult.error;
+      setRules(rulesResult.data || []);
+      setSettings(settingsResult.data);
+    } catch (error) {
+      console.error('Error fetching lead scoring model:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the lead scoring model",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchScoringModel();
+  }, [fetchScoringModel]);
+
+  // Triggers only refresh the lead that changed, so model changes rescore every lead
+  const recalculateScores = async () => {
+    setRecalculating(true);
+    try {
+      const { data, error } = await supabase.rpc('recalculate_lead_scores');
+      if (error) throw error;
+      toast({
+        title: "Scores updated",
+        description: `Recalculated the score of ${data} lead(s)`,
+      });
+    } catch (error) {
+      console.error('Error recalculating lead scores:', error);
+      toast({
+        title: "Error",
+        description: "Failed to recalculate lead scores",
+        variant: "destructive",
+      });
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  const handleAddRule = async () => {
+    if (!newRule.match_value.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter the value to match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('lead_scoring_rules')
+      .insert({ ...newRule, match_value: newRule.match_value.trim(), created_by: user?.id });
+
+    if (error) {
+      console.error('Error adding scoring rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add scoring rule",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setNewRule(emptyRule);
+    await fetchScoringModel();
+    recalculateScores();
+  };
+
+  const handleToggleRule = async (rule: ScoringRule, isActive: boolean) => {
+    const { error } = await supabase
+      .from('lead_scoring_rules')
+      .update({ is_active: isActive })
+      .eq('id', rule.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update scoring rule",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, is_active: isActive } : r));
+    recalculateScores();
+  };
+
+  const handleDeleteRule = async (rule: ScoringRule) => {
+    const { error } = await supabase
+      .from('lead_scoring_rules')
+      .delete()
+      .eq('id', rule.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete scoring rule",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRules(prev => prev.filter(r => r.id !== rule.id));
+    recalculateScores();
+  };
+
+  const updateSetting = (key: SettingsField, value: number) => {
+    setSettings(prev => prev ? { ...prev, [key]: value } : prev);
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+
+    setSaving(true);
+    try {
+      const { id, ...values } = settings;
+      const { error } = await supabase
+        .from('lead_scoring_settings')
+        .update({
+          ...values,
+          decay_half_life_days: Math.max(1, values.decay_half_life_days),
+          updated_by: user?.id,
+        })
+        .eq('id', id);
+
+      if (error) throw error;
+      toast({
+        title: "Success",
+        description: "Scoring settings saved",
+      });
+      recalculateScores();
+    } catch (error) {
+      console.error('Error saving lead scoring settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save scoring settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading scoring model...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const fieldLabel = (field: string) => RULE_FIELDS.find(f => f.value === field)?.label || field;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Lead Scoring</CardTitle>
+              <CardDescription>
+                Leads score 0-100 from profile rules, email engagement, meetings held and recent activity
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={recalculateScores} disabled={recalculating} className="gap-2">
+              <RefreshCw className={`h-4 w-4 ${recalculating ? 'animate-spin' : ''}`} />
+              Recalculate Scores
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Points</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-[80px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No profile rules yet. Leads are scored on engagement only.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>{fieldLabel(rule.field)}</TableCell>
+                    <TableCell className="capitalize">{rule.match_type}</TableCell>
+                    <TableCell className="font-medium">{rule.match_value}</TableCell>
+                    <TableCell>{rule.points > 0 ? `+${rule.points}` : rule.points}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => handleToggleRule(rule, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleDeleteRule(rule)}>
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+              <TableRow>
+                <TableCell>
+                  <Select value={newRule.field} onValueChange={(value) => setNewRule(prev => ({ ...prev, field: value }))}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RULE_FIELDS.map(field => (
+                        <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Select value={newRule.match_type} onValueChange={(value) => setNewRule(prev => ({ ...prev, match_type: value }))}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="equals">Equals</SelectItem>
+                      <SelectItem value="contains">Contains</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    placeholder="e.g. Director"
+                    value={newRule.match_value}
+                    onChange={(e) => setNewRule(prev => ({ ...prev, match_value: e.target.value }))}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddRule()}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    className="w-20"
+                    value={newRule.points}
+                    onChange={(e) => setNewRule(prev => ({ ...prev, points: Number(e.target.value) || 0 }))}
+                  />
+                </TableCell>
+                <TableCell colSpan={2}>
+                  <Button size="sm" onClick={handleAddRule} className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Add Rule
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Matching ignores case. Use negative points to score down poor fits.
+          </p>
+        </CardContent>
+      </Card>
+
+      {settings && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Activity Points</CardTitle>
+            <CardDescription>
+              Each open, click, reply and meeting loses half its points every half-life, so inactive leads cool down
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {SETTINGS_GROUPS.map(group => (
+              <div key={group.title} className="space-y-2">
+                <Label>{group.title}</Label>
+                <div className="grid grid-cols-4 gap-4">
+                  {group.fields.map(field => (
+                    <div key={field.key} className="space-y-1">
+                      <span className="text-xs text-muted-foreground">{field.label}</span>
+                      <Input
+                        type="number"
+                        min={field.min}
+                        value={settings[field.key]}
+                        onChange={(e) => updateSetting(field.key, Math.max(field.min, Number(e.target.value) || 0))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex justify-end">
+              <Button onClick={handleSaveSettings} disabled={saving}>
+                {saving ? (
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Save Settings
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default LeadScoringSettings;
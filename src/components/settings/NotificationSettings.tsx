@@ -3,10 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { Bell, Loader2 } from 'lucide-react';
+import { Bell, Eye, Loader2 } from 'lucide-react';
 
 interface NotificationPrefs {
   email_notifications: boolean;
@@ -23,6 +24,8 @@ const NotificationSettings = () => {
   const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [digestPreview, setDigestPreview] = useState<{ subject: string; html: string } | null>(null);
   const [prefs, setPrefs] = useState<NotificationPrefs>({
     email_notifications: true,
     in_app_notifications: true,
@@ -92,6 +95,25 @@ const NotificationSettings = () => {
     }
   };
 
+  const handlePreviewDigest = async () => {
+    setPreviewLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('weekly-digest', {
+        body: { preview: true },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setDigestPreview({ subject: data.subject, html: data.html });
+    } catch (error) {
+      console.error('Error previewing weekly digest:', error);
+      toast.error('Failed to generate digest preview');
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
   const togglePref = (key: keyof NotificationPrefs) => {
     setPrefs(p => ({ ...p, [key]: !p[key] }));
   };
@@ -208,11 +230,23 @@ const NotificationSettings = () => {
               <Label htmlFor="weekly_digest" className="text-sm cursor-pointer">
                 Weekly Digest
               </Label>
-              <Switch
-                id="weekly_digest"
-                checked={prefs.weekly_digest}
-                onCheckedChange={() => togglePref('weekly_digest')}
-              />
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={handlePreviewDigest}
+                  disabled={previewLoading}
+                >
+                  {previewLoading ? <Loader2 className="h-3 w-3 animate-spin" /> : <Eye className="h-3 w-3" />}
+                  <span className="ml-1 text-xs">Preview</span>
+                </Button>
+                <Switch
+                  id="weekly_digest"
+                  checked={prefs.weekly_digest}
+                  onCheckedChange={() => togglePref('weekly_digest')}
+                />
+              </div>
             </div>
           </div>
         </div>
@@ -225,6 +259,20 @@ const NotificationSettings = () => {
           </Button>
         </div>
       </CardContent>
+
+      <Dialog open={!!digestPreview} onOpenChange={(open) => !open && setDigestPreview(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="text-base">{digestPreview?.subject}</DialogTitle>
+          </DialogHeader>
+          <iframe
+            title="Weekly digest preview"
+            srcDoc={digestPreview?.html}
+            sandbox=""
+            className="w-full h-[70vh] rounded-md border"
+          />
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
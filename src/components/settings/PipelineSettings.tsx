@@ -1,13 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
+import { PIPELINE_STAGES_QUERY_KEY } from '@/hooks/usePipelineStages';
+import { PipelineStage } from '@/types/deal';
 import { 
   Loader2, 
   Plus, 
@@ -27,15 +32,11 @@ import {
 } from '@/components/ui/dialog';
 import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
 
-interface PipelineStage {
-  id: string;
-  stage_name: string;
-  stage_order: number;
-  stage_color: string;
-  stage_probability: number;
-  is_active: boolean;
-  is_won_stage: boolean;
-  is_lost_stage: boolean;
+// Pending stage change that needs the stage's deals moved elsewhere first
+interface StageMigration {
+  stage: PipelineStage;
+  action: 'deactivate' | 'delete';
+  dealCount: number;
 }
 
 interface LeadStatus {
@@ -52,6 +53,20 @@ const colorOptions = [
   '#22c55e', '#ef4444', '#94a3b8', '#ec4899', '#14b8a6'
 ];
 
+// Deals currently in each stage, by stage name
+const fetchDealCounts = async (stageList: PipelineStage[]): Promise<Record<string, number>> => {
+  const counts = await Promise.all(
+    stageList.map(async (stage) => {
+      const { count } = await supabase
+        .from('deals')
+        .select('id', { count: 'exact', head: true })
+        .eq('stage', stage.stage_name);
+      return [stage.stage_name, count || 0] as const;
+    })
+  );
+  return Object.fromEntries(counts) as Record<string, number>;
+};
+
 const PipelineSettings = () => {
   const { userRole } = useUserRole();
   const [loading, setLoading] = useState(true);
@@ -64,14 +79,14 @@ const PipelineSettings = () => {
   const [editingStatus, setEditingStatus] = useState<Partial<LeadStatus> | null>(null);
   const [stageToDelete, setStageToDelete] = useState<PipelineStage | null>(null);
   const [statusToDelete, setStatusToDelete] = useState<LeadStatus | null>(null);
+  const [dealCounts, setDealCounts] = useState<Record<string, number>>({});
+  const [stageMigration, setStageMigration] = useState<StageMigration | null>(null);
+  const [migrationTarget, setMigrationTarget] = useState('');
+  const queryClient = useQueryClient();
 
   const isAdmin = userRole === 'admin';
 
-  useEffect(() => {
-    fetchData();
-  }, []);
-
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       const [stagesRes, statusesRes] = await Promise.all([
         supabase.from('pipeline_stages').select('*').order('stage_order'),
@@ -83,16 +98,101 @@ const PipelineSettings = () => {
 
       setStages(stagesRes.data || []);
       setStatuses(statusesRes.data || []);
+      setDealCounts(await fetchDealCounts(stagesRes.data || []));
     } catch (error) {
       console.error('Error fetching pipeline data:', error);
       toast.error('Failed to load pipeline settings');
     } finally {
       setLoading(false);
     }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Keep the deals views in sync with the configured stages
+  const refreshStages = () => {
+    queryClient.invalidateQueries({ queryKey: PIPELINE_STAGES_QUERY_KEY });
+    fetchData();
+  };
+
+  const handleStageDragEnd = async (result: DropResult) => {
+    if (!result.destination || result.destination.index === result.source.index) return;
+
+    const reordered = [...stages];
+    const [moved] = reordered.splice(result.source.index, 1);
+    reordered.splice(result.destination.index, 0, moved);
+    setStages(reordered.map((stage, index) => ({ ...stage, stage_order: index })));
+
+    try {
+      const results = await Promise.all(
+        reordered.map((stage, index) =>
+          supabase.from('pipeline_stages').update({ stage_order: index }).eq('id', stage.id)
+        )
+      );
+      const failed = results.find(res => res.error);
+      if (failed) throw failed.error;
+      toast.success('Stage order updated');
+    } catch (error) {
+      console.error('Error reordering stages:', error);
+      toast.error('Failed to reorder stages');
+    } finally {
+      refreshStages();
+    }
+  };
+
+  const requestStageMigration = (stage: PipelineStage, action: StageMigration['action']) => {
+    setMigrationTarget('');
+    setStageMigration({ stage, action, dealCount: dealCounts[stage.stage_name] || 0 });
+  };
+
+  const confirmStageMigration = async () => {
+    if (!stageMigration || !migrationTarget) return;
+    setSaving(true);
+
+    try {
+      // Moving the deals and retiring the stage happen in one transaction
+      const { data: movedCount, error } = await supabase.rpc('retire_pipeline_stage', {
+        p_stage_id: stageMigration.stage.id,
+        p_to_stage: migrationTarget,
+        p_delete: stageMigration.action === 'delete',
+      });
+      if (error) throw error;
+
+      if (stageMigration.action === 'deactivate') {
+        // The stage is already inactive; this saves the other edits made along with deactivating it
+        const { is_active, ...edits } = editingStage || {};
+        const { error: updateError } = await supabase
+          .from('pipeline_stages')
+          .update(edits)
+          .eq('id', stageMigration.stage.id);
+        if (updateError) toast.error('Deals moved and stage deactivated, but other stage changes were not saved');
+        setShowStageModal(false);
+        setEditingStage(null);
+      }
+
+      toast.success(`${movedCount} deal(s) moved to ${migrationTarget}`);
+      setStageMigration(null);
+      refreshStages();
+    } catch (error) {
+      console.error('Error migrating deals:', error);
+      toast.error('Failed to move deals to the new stage');
+    } finally {
+      setSaving(false);
+    }
   };
 
   const saveStage = async () => {
     if (!editingStage?.stage_name) return;
+
+    // Deactivating a stage that still holds deals needs a target stage for them
+    const original = stages.find(s => s.id === editingStage.id);
+    if (original?.is_active && editingStage.is_active === false && (dealCounts[original.stage_name] || 0) > 0) {
+      requestStageMigration(original, 'deactivate');
+      return;
+    }
+
     setSaving(true);
 
     try {
@@ -112,6 +212,10 @@ const PipelineSettings = () => {
             is_active: editingStage.is_active ?? true,
             is_won_stage: editingStage.is_won_stage || false,
             is_lost_stage: editingStage.is_lost_stage || false,
+            is_quote_stage: editingStage.is_quote_stage || false,
+            is_projected_stage: editingStage.is_projected_stage || false,
+            is_dropped_stage: editingStage.is_dropped_stage || false,
+            allowed_next_stages: editingStage.allowed_next_stages?.length ? editingStage.allowed_next_stages : null,
             stage_order: stages.length,
           });
         if (error) throw error;
@@ -120,7 +224,7 @@ const PipelineSettings = () => {
       toast.success('Stage saved successfully');
       setShowStageModal(false);
       setEditingStage(null);
-      fetchData();
+      refreshStages();
     } catch (error) {
       console.error('Error saving stage:', error);
       toast.error('Failed to save stage');
@@ -167,6 +271,11 @@ const PipelineSettings = () => {
 
   const confirmDeleteStage = async () => {
     if (!stageToDelete) return;
+    if ((dealCounts[stageToDelete.stage_name] || 0) > 0) {
+      requestStageMigration(stageToDelete, 'delete');
+      setStageToDelete(null);
+      return;
+    }
     try {
       const { error } = await supabase
         .from('pipeline_stages')
@@ -175,7 +284,7 @@ const PipelineSettings = () => {
       if (error) throw error;
       toast.success('Stage deleted');
       setStageToDelete(null);
-      fetchData();
+      refreshStages();
     } catch (error) {
       toast.error('Failed to delete stage');
     }
@@ -229,7 +338,7 @@ const PipelineSettings = () => {
                 Deal Pipeline Stages
               </CardTitle>
               <CardDescription>
-                Customize the stages in your deal pipeline
+                Customize the stages in your deal pipeline. Drag stages to reorder them.
               </CardDescription>
             </div>
             <Button
@@ -244,47 +353,71 @@ const PipelineSettings = () => {
           </div>
         </CardHeader>
         <CardContent>
-          <div className="space-y-2">
-            {stages.map((stage) => (
-              <div
-                key={stage.id}
-                className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50"
-              >
-                <div className="flex items-center gap-3">
-                  <GripVertical className="h-4 w-4 text-muted-foreground" />
-                  <div
-                    className="w-4 h-4 rounded-full"
-                    style={{ backgroundColor: stage.stage_color }}
-                  />
-                  <span className="font-medium">{stage.stage_name}</span>
-                  <Badge variant="outline">{stage.stage_probability}%</Badge>
-                  {stage.is_won_stage && <Badge className="bg-green-500">Won</Badge>}
-                  {stage.is_lost_stage && <Badge variant="destructive">Lost/Dropped</Badge>}
-                  {!stage.is_active && <Badge variant="secondary">Inactive</Badge>}
-                </div>
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => {
-                      setEditingStage(stage);
-                      setShowStageModal(true);
-                    }}
-                  >
-                    Edit
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="text-destructive"
-                    onClick={() => setStageToDelete(stage)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+          <DragDropContext onDragEnd={handleStageDragEnd}>
+            <Droppable droppableId="pipeline-stages">
+              {(provided) => (
+                <div className="space-y-2" ref={provided.innerRef} {...provided.droppableProps}>
+                  {stages.map((stage, index) => (
+                    <Draggable key={stage.id} draggableId={stage.id} index={index}>
+                      {(dragProvided) => (
+                        <div
+                          ref={dragProvided.innerRef}
+                          {...dragProvided.draggableProps}
+                          className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 bg-background"
+                        >
+                          <div className="flex items-center gap-3">
+                            <div {...dragProvided.dragHandleProps}>
+                              <GripVertical className="h-4 w-4 text-muted-foreground" />
+                            </div>
+                            <div
+                              className="w-4 h-4 rounded-full"
+                              style={{ backgroundColor: stage.stage_color }}
+                            />
+                            <span className="font-medium">{stage.stage_name}</span>
+                            <Badge variant="outline">{stage.stage_probability}%</Badge>
+                            {stage.is_won_stage && <Badge className="bg-green-500">Won</Badge>}
+                            {stage.is_lost_stage && <Badge variant="destructive">Lost/Dropped</Badge>}
+                            {stage.is_quote_stage && <Badge variant="outline">Quotes</Badge>}
+                            {stage.is_projected_stage && <Badge variant="outline">Projected</Badge>}
+                            {!stage.is_active && <Badge variant="secondary">Inactive</Badge>}
+                            {!!stage.allowed_next_stages?.length && (
+                              <span className="text-xs text-muted-foreground">
+                                → {stage.allowed_next_stages.join(', ')}
+                              </span>
+                            )}
+                            <span className="text-xs text-muted-foreground">
+                              {dealCounts[stage.stage_name] || 0} deal(s)
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingStage(stage);
+                                setShowStageModal(true);
+                              }}
+                            >
+                              Edit
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive"
+                              onClick={() => setStageToDelete(stage)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </Draggable>
+                  ))}
+                  {provided.placeholder}
                 </div>
-              </div>
-            ))}
-          </div>
+              )}
+            </Droppable>
+          </DragDropContext>
         </CardContent>
       </Card>
 
@@ -404,16 +537,69 @@ const PipelineSettings = () => {
               <Label>Won Stage</Label>
               <Switch
                 checked={editingStage?.is_won_stage || false}
-                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_won_stage: checked, is_lost_stage: false }))}
+                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_won_stage: checked, is_lost_stage: false, is_dropped_stage: false }))}
               />
             </div>
             <div className="flex items-center justify-between">
               <Label>Lost/Dropped Stage</Label>
               <Switch
                 checked={editingStage?.is_lost_stage || false}
-                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_lost_stage: checked, is_won_stage: false }))}
+                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_lost_stage: checked, is_won_stage: false, is_dropped_stage: checked && (s?.is_dropped_stage || false) }))}
               />
             </div>
+            {editingStage?.is_lost_stage && (
+              <div className="flex items-center justify-between">
+                <Label>Records a drop reason instead of a lost reason</Label>
+                <Switch
+                  checked={editingStage?.is_dropped_stage || false}
+                  onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_dropped_stage: checked }))}
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label>Counts toward projected revenue</Label>
+              <Switch
+                checked={editingStage?.is_projected_stage || false}
+                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_projected_stage: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Quotes can be generated</Label>
+              <Switch
+                checked={editingStage?.is_quote_stage || false}
+                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_quote_stage: checked }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Allowed Next Stages</Label>
+              <p className="text-xs text-muted-foreground">
+                Deals in this stage can only be moved to the selected stages. Select none to allow any stage.
+              </p>
+              <div className="flex gap-2 flex-wrap">
+                {stages
+                  .filter(s => s.id !== editingStage?.id)
+                  .map(s => {
+                    const selected = editingStage?.allowed_next_stages?.includes(s.stage_name) || false;
+                    return (
+                      <Badge
+                        key={s.id}
+                        variant={selected ? 'default' : 'outline'}
+                        className="cursor-pointer"
+                        onClick={() => setEditingStage(current => {
+                          const allowed = current?.allowed_next_stages || [];
+                          const next = selected
+                            ? allowed.filter(name => name !== s.stage_name)
+                            : [...allowed, s.stage_name];
+                          return { ...current, allowed_next_stages: next.length ? next : null };
+                        })}
+                      >
+                        {selected && <Check className="h-3 w-3 mr-1" />}
+                        {s.stage_name}
+                      </Badge>
+                    );
+                  })}
+              </div>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowStageModal(false)}>
@@ -486,6 +672,47 @@ const PipelineSettings = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Move Deals Before Deactivating/Deleting a Stage */}
+      <Dialog open={!!stageMigration} onOpenChange={(open) => !open && setStageMigration(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move Deals from "{stageMigration?.stage.stage_name}"</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {stageMigration?.dealCount} deal(s) are in this stage. Choose the stage to move them to before it is{' '}
+              {stageMigration?.action === 'delete' ? 'deleted' : 'deactivated'}.
+            </p>
+            <div className="space-y-2">
+              <Label>Move deals to</Label>
+              <Select value={migrationTarget} onValueChange={setMigrationTarget}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select stage..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {stages
+                    .filter(s => s.is_active && s.id !== stageMigration?.stage.id)
+                    .map(s => (
+                      <SelectItem key={s.id} value={s.stage_name}>
+                        {s.stage_name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStageMigration(null)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmStageMigration} disabled={saving || !migrationTarget}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move Deals
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialogs */}
       <DeleteConfirmDialog
         open={!!stageToDelete}
@@ -0,0 +1,513 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Edit, Trash2, Star } from "lucide-react";
+import { CURRENCY_OPTIONS, DEFAULT_REPORTING_CURRENCY } from "@/utils/currency";
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string | null;
+  description: string | null;
+  unit: string;
+  tax_rate: number;
+  is_active: boolean;
+}
+
+interface PriceBook {
+  id: string;
+  name: string;
+  currency: string;
+  is_default: boolean;
+  is_active: boolean;
+}
+
+type ProductForm = Omit<Product, 'id' | 'sku' | 'description'> & { sku: string; description: string };
+
+const emptyProduct: ProductForm = {
+  name: '',
+  sku: '',
+  description: '',
+  unit: 'unit',
+  tax_rate: 0,
+  is_active: true,
+};
+
+const ProductCatalogSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [priceBooks, setPriceBooks] = useState<PriceBook[]>([]);
+  const [selectedBookId, setSelectedBookId] = useState('');
+  // Unit price per product in the selected price book, as typed
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [formData, setFormData] = useState<ProductForm>(emptyProduct);
+  const [newBook, setNewBook] = useState({ name: '', currency: DEFAULT_REPORTING_CURRENCY });
+  const [saving, setSaving] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [productsResult, booksResult] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id, name, sku, description, unit, tax_rate, is_active')
+          .order('name'),
+        supabase
+          .from('price_books')
+          .select('id, name, currency, is_default, is_active')
+          .order('name'),
+      ]);
+
+      if (productsResult.error) throw productsResult.error;
+      if (booksResult.error) throw booksResult.error;
+      setProducts((productsResult.data || []).map(p => ({ ...p, tax_rate: Number(p.tax_rate) })));
+      setPriceBooks(booksResult.data || []);
+      setSelectedBookId(prev => prev || booksResult.data?.find(b => b.is_default)?.id || booksResult.data?.[0]?.id || '');
+    } catch (error) {
+      console.error('Error fetching product catalog:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load product catalog",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    if (!selectedBookId) return;
+    supabase
+      .from('price_book_entries')
+      .select('product_id, unit_price')
+      .eq('price_book_id', selectedBookId)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching price book entries:', error);
+          return;
+        }
+        setPrices(Object.fromEntries((data || []).map(entry => [entry.product_id, String(entry.unit_price)])));
+      });
+  }, [selectedBookId]);
+
+  const selectedBook = priceBooks.find(b => b.id === selectedBookId);
+
+  const handleOpenModal = (product?: Product) => {
+    setEditingProduct(product || null);
+    setFormData(product
+      ? { ...product, sku: product.sku || '', description: product.description || '' }
+      : emptyProduct);
+    setIsModalOpen(true);
+  };
+
+  const handleSaveProduct = async () => {
+    if (!formData.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Product name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const productData = {
+        name: formData.name.trim(),
+        sku: formData.sku.trim() || null,
+        description: formData.description.trim() || null,
+        unit: formData.unit.trim() || 'unit',
+        tax_rate: Number(formData.tax_rate) || 0,
+        is_active: formData.is_active,
+      };
+
+      if (editingProduct) {
+        const { error } = await supabase
+          .from('products')
+          .update(productData)
+          .eq('id', editingProduct.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('products')
+          .insert({ ...productData, created_by: user?.id });
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `Product ${editingProduct ? 'updated' : 'created'} successfully`,
+      });
+      setIsModalOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error('Error saving product:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save product. SKUs must be unique.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (product: Product, isActive: boolean) => {
+    const { error } = await supabase
+      .from('products')
+      .update({ is_active: isActive })
+      .eq('id', product.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update product",
+        variant: "destructive",
+      });
+      return;
+    }
+    setProducts(prev => prev.map(p => p.id === product.id ? { ...p, is_active: isActive } : p));
+  };
+
+  // Deal line items keep their copied values, so deleting a product doesn't change existing deals
+  const handleDeleteProduct = async (product: Product) => {
+    const { error } = await supabase
+      .from('products')
+      .delete()
+      .eq('id', product.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete product",
+        variant: "destructive",
+      });
+      return;
+    }
+    setProducts(prev => prev.filter(p => p.id !== product.id));
+  };
+
+  // An empty price takes the product out of the price book
+  const handleSavePrice = async (product: Product) => {
+    if (!selectedBookId) return;
+    const value = prices[product.id]?.trim();
+
+    const { error } = value
+      ? await supabase
+          .from('price_book_entries')
+          .upsert(
+            { price_book_id: selectedBookId, product_id: product.id, unit_price: Number(value) },
+            { onConflict: 'price_book_id,product_id' }
+          )
+      : await supabase
+          .from('price_book_entries')
+          .delete()
+          .eq('price_book_id', selectedBookId)
+          .eq('product_id', product.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save price",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddBook = async () => {
+    if (!newBook.name.trim()) return;
+    const { data, error } = await supabase
+      .from('price_books')
+      .insert({
+        name: newBook.name.trim(),
+        currency: newBook.currency,
+        is_default: priceBooks.length === 0,
+        created_by: user?.id,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create price book",
+        variant: "destructive",
+      });
+      return;
+    }
+    setNewBook({ name: '', currency: DEFAULT_REPORTING_CURRENCY });
+    setSelectedBookId(data.id);
+    fetchData();
+  };
+
+  const handleMakeDefault = async (book: PriceBook) => {
+    // Only one default is allowed, so clear the current one first
+    const { error: clearError } = await supabase
+      .from('price_books')
+      .update({ is_default: false })
+      .eq('is_default', true);
+    const { error } = clearError
+      ? { error: clearError }
+      : await supabase.from('price_books').update({ is_default: true }).eq('id', book.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to change the default price book",
+        variant: "destructive",
+      });
+    }
+    fetchData();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading product catalog...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Price Books</CardTitle>
+          <CardDescription>
+            Deals use the price book in their currency, or the default one. Select a book to edit its prices below.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {priceBooks.map(book => (
+              <div
+                key={book.id}
+                className={`flex items-center gap-2 rounded-md border px-3 py-1.5 cursor-pointer ${book.id === selectedBookId ? 'border-primary bg-primary/5' : ''}`}
+                onClick={() => setSelectedBookId(book.id)}
+              >
+                <span className="text-sm font-medium">{book.name}</span>
+                <Badge variant="secondary">{book.currency}</Badge>
+                {book.is_default ? (
+                  <Star className="h-3.5 w-3.5 fill-current text-yellow-500" />
+                ) : (
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:underline"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleMakeDefault(book);
+                    }}
+                  >
+                    Make default
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex items-end gap-2">
+            <Input
+              value={newBook.name}
+              onChange={(e) => setNewBook(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="New price book, e.g. US List"
+              className="w-[240px]"
+            />
+            <Select value={newBook.currency} onValueChange={(value) => setNewBook(prev => ({ ...prev, currency: value }))}>
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCY_OPTIONS.map(option => (
+                  <SelectItem key={option.code} value={option.code}>{option.code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleAddBook} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Price Book
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Products</CardTitle>
+              <CardDescription>
+                Products added to a deal copy their price and tax rate; the deal's contract value is the net sum of its line items
+              </CardDescription>
+            </div>
+            <Button onClick={() => handleOpenModal()} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Product
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead>Tax %</TableHead>
+                <TableHead className="w-[160px]">
+                  Price{selectedBook ? ` (${selectedBook.name}, ${selectedBook.currency})` : ''}
+                </TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-[100px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {products.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No products yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                products.map(product => (
+                  <TableRow key={product.id}>
+                    <TableCell className="font-medium">{product.name}</TableCell>
+                    <TableCell>{product.sku || '-'}</TableCell>
+                    <TableCell>{product.unit}</TableCell>
+                    <TableCell>{product.tax_rate}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={prices[product.id] || ''}
+                        onChange={(e) => setPrices(prev => ({ ...prev, [product.id]: e.target.value }))}
+                        onBlur={() => handleSavePrice(product)}
+                        placeholder="Not listed"
+                        disabled={!selectedBookId}
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={product.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(product, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => handleOpenModal(product)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDeleteProduct(product)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingProduct ? 'Edit Product' : 'New Product'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="product-name">Name *</Label>
+              <Input
+                id="product-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="product-sku">SKU</Label>
+                <Input
+                  id="product-sku"
+                  value={formData.sku}
+                  onChange={(e) => setFormData(prev => ({ ...prev, sku: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-unit">Unit</Label>
+                <Input
+                  id="product-unit"
+                  value={formData.unit}
+                  onChange={(e) => setFormData(prev => ({ ...prev, unit: e.target.value }))}
+                  placeholder="unit, hour, licence"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="product-tax">Tax %</Label>
+                <Input
+                  id="product-tax"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="any"
+                  value={formData.tax_rate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, tax_rate: Number(e.target.value) }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="product-description">Description</Label>
+              <Textarea
+                id="product-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                rows={3}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="product-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+              />
+              <Label htmlFor="product-active">Active</Label>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={() => setIsModalOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveProduct} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ProductCatalogSettings;
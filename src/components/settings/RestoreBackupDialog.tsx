@@ -0,0 +1,442 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Eye, RefreshCw } from "lucide-react";
+
+export interface RestorableBackup {
+  id: string;
+  file_name: string;
+  file_path: string;
+  manifest: { tables?: { name: string; row_count: number }[] } | null;
+}
+
+type RestoreMode = 'replace' | 'merge';
+type RestoreScope = 'all' | 'tables' | 'records';
+
+interface TableChanges {
+  name: string;
+  inserts: number;
+  updates: number;
+  deletes: number;
+}
+
+interface DryRunResult {
+  changes: TableChanges[];
+  warnings: string[];
+}
+
+type BackupRow = Record<string, unknown>;
+
+interface RestoreBackupDialogProps {
+  backup: RestorableBackup | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+// Columns tried in order to show a readable label for a backed-up record
+const RECORD_LABEL_COLUMNS = [
+  'deal_name', 'contact_name', 'lead_name', 'company_name', 'title', 'subject', 'name', 'full_name', 'email',
+];
+
+const MAX_LISTED_RECORDS = 50;
+
+const getRecordLabel = (row: BackupRow) => {
+  const column = RECORD_LABEL_COLUMNS.find(c => typeof row[c] === 'string' && row[c]);
+  return column ? String(row[column]) : String(row.id);
+};
+
+const RestoreBackupDialog = ({ backup, open, onOpenChange, onRestored }: RestoreBackupDialogProps) => {
+  const [mode, setMode] = useState<RestoreMode>('replace');
+  const [scope, setScope] = useState<RestoreScope>('all');
+  const [selectedTables, setSelectedTables] = useState<string[]>([]);
+  const [recordTable, setRecordTable] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [includeRelated, setIncludeRelated] = useState(true);
+  const [recordSearch, setRecordSearch] = useState('');
+  const [backupRows, setBackupRows] = useState<Record<string, BackupRow[]> | null>(null);
+  const [loadingRows, setLoadingRows] = useState(false);
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [confirmText, setConfirmText] = useState('');
+  const { toast } = useToast();
+
+  const tableNames = useMemo(
+    () => (backup?.manifest?.tables || []).map(t => t.name),
+    [backup]
+  );
+
+  // Every restore starts from the defaults
+  useEffect(() => {
+    if (!open) return;
+    setMode('replace');
+    setScope('all');
+    setSelectedTables([]);
+    setRecordTable('');
+    setSelectedIds([]);
+    setIncludeRelated(true);
+    setRecordSearch('');
+    setBackupRows(null);
+    setDryRun(null);
+    setConfirmText('');
+  }, [open, backup?.id]);
+
+  // A preview only describes the options it was run with
+  useEffect(() => {
+    setDryRun(null);
+  }, [mode, scope, selectedTables, recordTable, selectedIds, includeRelated]);
+
+  // Records are picked from the backup file itself, since they may no longer exist
+  useEffect(() => {
+    if (scope !== 'records' || backupRows || !backup) return;
+
+    const loadBackupRows = async () => {
+      setLoadingRows(true);
+      try {
+        const { data, error } = await supabase.storage.from('backups').download(backup.file_path);
+        if (error) throw error;
+        const content = JSON.parse(await data.text());
+        setBackupRows(content.data || {});
+      } catch (error) {
+        console.error('Error loading backup records:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load records from backup",
+          variant: "destructive",
+        });
+      } finally {
+        setLoadingRows(false);
+      }
+    };
+
+    loadBackupRows();
+  }, [scope, backup, backupRows, toast]);
+
+  const matchingRecords = useMemo(() => {
+    const rows = (recordTable && backupRows?.[recordTable]) || [];
+    const search = recordSearch.trim().toLowerCase();
+    return rows
+      .filter(row => !search || getRecordLabel(row).toLowerCase().includes(search) || String(row.id).includes(search))
+      .slice(0, MAX_LISTED_RECORDS);
+  }, [backupRows, recordTable, recordSearch]);
+
+  const hasSelection =
+    scope === 'all' ||
+    (scope === 'tables' && selectedTables.length > 0) ||
+    (scope === 'records' && !!recordTable && selectedIds.length > 0);
+
+  const buildRequest = (isDryRun: boolean) => ({
+    backupId: backup?.id,
+    dryRun: isDryRun,
+    mode,
+    ...(scope === 'tables' && { tables: selectedTables }),
+    ...(scope === 'records' && { records: { table: recordTable, ids: selectedIds, includeRelated } }),
+  });
+
+  const toggleTable = (name: string, checked: boolean) => {
+    setSelectedTables(prev => checked ? [...prev, name] : prev.filter(t => t !== name));
+  };
+
+  const toggleRecord = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(i => i !== id));
+  };
+
+  const handlePreview = async () => {
+    if (!backup || !hasSelection) return;
+
+    setPreviewing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('restore-backup', {
+        method: 'POST',
+        body: buildRequest(true),
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setDryRun({ changes: data.changes || [], warnings: data.warnings || [] });
+    } catch (error) {
+      console.error('Error previewing restore:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to preview restore",
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup || !hasSelection || confirmText !== 'CONFIRM') return;
+
+    setRestoring(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('restore-backup', {
+        method: 'POST',
+        body: buildRequest(false),
+      });
+
+      if (error) throw error;
+      // Damaged backups and ones that do not match the current schema are rejected before any data changes
+      if (data?.error) throw new Error(data.error);
+
+      toast({
+        title: data?.success ? "Restore Completed" : "Restore Completed With Errors",
+        description: data?.message || "The restore process has finished.",
+        variant: data?.success ? "default" : "destructive",
+      });
+      onOpenChange(false);
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore backup",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const totals = dryRun?.changes.reduce(
+    (sum, t) => ({ inserts: sum.inserts + t.inserts, updates: sum.updates + t.updates, deletes: sum.deletes + t.deletes }),
+    { inserts: 0, updates: 0, deletes: 0 }
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !restoring && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-destructive">⚠️ Restore Backup</DialogTitle>
+          <DialogDescription>
+            <span className="font-mono text-xs">{backup?.file_name}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="replace">Replace</SelectItem>
+                  <SelectItem value="merge">Merge</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {mode === 'replace'
+                  ? 'Records not in the backup are deleted.'
+                  : 'Backup records are upserted; records created after the backup are kept.'}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Restore</Label>
+              <Select value={scope} onValueChange={(value) => setScope(value as RestoreScope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All tables</SelectItem>
+                  <SelectItem value="tables">Selected tables</SelectItem>
+                  <SelectItem value="records">Selected records</SelectItem>
+                </SelectContent>
+              </Select>
+              {scope === 'records' && (
+                <p className="text-xs text-muted-foreground">Record restores never delete current data.</p>
+              )}
+            </div>
+          </div>
+
+          {scope === 'tables' && (
+            <ScrollArea className="h-48 rounded border p-3">
+              <div className="grid grid-cols-2 gap-2">
+                {(backup?.manifest?.tables || []).map(table => (
+                  <label key={table.name} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedTables.includes(table.name)}
+                      onCheckedChange={(checked) => toggleTable(table.name, checked === true)}
+                    />
+                    <span className="truncate">{table.name}</span>
+                    <span className="text-xs text-muted-foreground">({table.row_count})</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+
+          {scope === 'records' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-4">
+                <Select
+                  value={recordTable}
+                  onValueChange={(value) => {
+                    setRecordTable(value);
+                    setSelectedIds([]);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a table" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tableNames.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={recordSearch}
+                  onChange={(e) => setRecordSearch(e.target.value)}
+                  placeholder="Search records..."
+                  disabled={!recordTable}
+                />
+              </div>
+
+              {loadingRows ? (
+                <div className="flex items-center justify-center h-24">
+                  <RefreshCw className="h-5 w-5 animate-spin" />
+                </div>
+              ) : recordTable && (
+                <ScrollArea className="h-48 rounded border p-3">
+                  {matchingRecords.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">No records found</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {matchingRecords.map(row => (
+                        <label key={String(row.id)} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={selectedIds.includes(String(row.id))}
+                            onCheckedChange={(checked) => toggleRecord(String(row.id), checked === true)}
+                          />
+                          <span className="truncate">{getRecordLabel(row)}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </ScrollArea>
+              )}
+
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={includeRelated} onCheckedChange={(checked) => setIncludeRelated(checked === true)} />
+                Include related records (e.g. an account's contacts, deals and activities)
+              </label>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={handlePreview} disabled={!hasSelection || previewing || restoring}>
+              {previewing ? (
+                <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Eye className="h-4 w-4 mr-1" />
+              )}
+              Preview Changes
+            </Button>
+          </div>
+
+          {dryRun && totals && (
+            <div className="space-y-2">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Table</TableHead>
+                    <TableHead className="text-right">Inserts</TableHead>
+                    <TableHead className="text-right">Updates</TableHead>
+                    <TableHead className="text-right">Deletes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dryRun.changes.map(table => (
+                    <TableRow key={table.name}>
+                      <TableCell className="font-mono text-xs">{table.name}</TableCell>
+                      <TableCell className="text-right">{table.inserts.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{table.updates.toLocaleString()}</TableCell>
+                      <TableCell className={`text-right ${table.deletes > 0 ? 'text-destructive' : ''}`}>
+                        {table.deletes.toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-medium">
+                    <TableCell>Total</TableCell>
+                    <TableCell className="text-right">{totals.inserts.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{totals.updates.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{totals.deletes.toLocaleString()}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+              {dryRun.warnings.length > 0 && (
+                <ul className="list-disc list-inside text-xs text-muted-foreground space-y-1">
+                  {dryRun.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Type "CONFIRM" to proceed:</Label>
+            <Input
+              value={confirmText}
+              onChange={(e) => setConfirmText(e.target.value)}
+              placeholder="CONFIRM"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={restoring}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRestore}
+            disabled={!hasSelection || confirmText !== 'CONFIRM' || restoring}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {restoring ? (
+              <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Database className="h-4 w-4 mr-1" />
+            )}
+            Restore Backup
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RestoreBackupDialog;
@@ -6,6 +6,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Search, Filter, Plus, X, HelpCircle } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { SearchFieldType } from "@/utils/tableQuery";
 
 export interface SearchCondition {
   id: string;
@@ -20,8 +21,10 @@ export interface SearchGroup {
   conditions: SearchCondition[];
 }
 
+// Groups are evaluated on the server; pass them to compileSearchGroups from @/utils/tableQuery
 interface AdvancedSearchBarProps {
-  fields: { value: string; label: string }[];
+  // Non-text fields compare whole values instead of matching patterns
+  fields: { value: string; label: string; type?: SearchFieldType }[];
   onSearch: (groups: SearchGroup[]) => void;
   placeholder?: string;
   simpleSearch?: string;
@@ -317,71 +320,3 @@ export const AdvancedSearchBar = ({
     </div>
   );
 };
-
-// Helper function to apply search conditions to data
-export function applyAdvancedSearch<T extends Record<string, any>>(
-  data: T[],
-  groups: SearchGroup[],
-  simpleSearch?: string,
-  simpleSearchFields?: string[]
-): T[] {
-  let filtered = data;
-
-  // Apply simple search first
-  if (simpleSearch && simpleSearchFields && simpleSearchFields.length > 0) {
-    const searchLower = simpleSearch.toLowerCase();
-    filtered = filtered.filter(item =>
-      simpleSearchFields.some(field => {
-        const value = item[field];
-        return value && String(value).toLowerCase().includes(searchLower);
-      })
-    );
-  }
-
-  // Apply advanced search groups (connected with OR between groups)
-  if (groups.length > 0 && groups.some(g => g.conditions.length > 0)) {
-    filtered = filtered.filter(item => {
-      // Groups are connected with OR
-      return groups.some(group => {
-        if (group.conditions.length === 0) return false;
-        
-        // Conditions within a group are connected with AND or OR based on group.logic
-        if (group.logic === 'AND') {
-          return group.conditions.every(condition => matchCondition(item, condition));
-        } else {
-          return group.conditions.some(condition => matchCondition(item, condition));
-        }
-      });
-    });
-  }
-
-  return filtered;
-}
-
-function matchCondition<T extends Record<string, any>>(
-  item: T,
-  condition: SearchCondition
-): boolean {
-  const value = item[condition.field];
-  const valueStr = value ? String(value).toLowerCase() : '';
-  const searchValue = condition.value.toLowerCase();
-
-  switch (condition.operator) {
-    case 'equals':
-      return valueStr === searchValue;
-    case 'notEquals':
-      return valueStr !== searchValue;
-    case 'contains':
-      return valueStr.includes(searchValue);
-    case 'startsWith':
-      return valueStr.startsWith(searchValue);
-    case 'endsWith':
-      return valueStr.endsWith(searchValue);
-    case 'isEmpty':
-      return !value || valueStr === '';
-    case 'isNotEmpty':
-      return value && valueStr !== '';
-    default:
-      return false;
-  }
-}
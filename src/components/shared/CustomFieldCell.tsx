@@ -0,0 +1,68 @@
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { InlineEditCell } from "./InlineEditCell";
+import {
+  CustomFieldDefinition,
+  CustomFieldValue,
+  formatCustomFieldValue,
+  isEmptyCustomFieldValue,
+  parseCustomFieldValue,
+} from "@/types/customField";
+
+interface CustomFieldCellProps {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onSave: (value: CustomFieldValue) => Promise<void>;
+  disabled?: boolean;
+}
+
+const booleanOptions = [
+  { value: 'true', label: 'Yes' },
+  { value: 'false', label: 'No' },
+];
+
+// Table cell for a custom field value; double-click to edit in place
+export const CustomFieldCell = ({ field, value, onSave, disabled = false }: CustomFieldCellProps) => {
+  // Multi-select values are edited from the record form
+  if (field.field_type === 'multiselect') {
+    if (!Array.isArray(value) || value.length === 0) return <span className="text-sm">-</span>;
+    return (
+      <div className="flex items-center gap-1" title={formatCustomFieldValue(field, value)}>
+        <Badge variant="outline" className="text-xs truncate max-w-[100px]">{value[0]}</Badge>
+        {value.length > 1 && <Badge variant="outline" className="text-xs shrink-0">+{value.length - 1}</Badge>}
+      </div>
+    );
+  }
+
+  if (field.field_type === 'select' || field.field_type === 'boolean') {
+    const options = field.field_type === 'boolean'
+      ? booleanOptions
+      : field.field_options.map(option => ({ value: option, label: option }));
+    return (
+      <InlineEditCell
+        value={isEmptyCustomFieldValue(value) ? '' : String(value)}
+        type="select"
+        options={options}
+        disabled={disabled}
+        onSave={(newValue) => onSave(field.field_type === 'boolean' ? newValue === 'true' : newValue)}
+      />
+    );
+  }
+
+  const handleTextSave = async (newValue: string) => {
+    const parsed = parseCustomFieldValue(field, newValue);
+    if (parsed.error) {
+      toast.error(parsed.error);
+      throw new Error(parsed.error);
+    }
+    await onSave(parsed.value);
+  };
+
+  return (
+    <InlineEditCell
+      value={formatCustomFieldValue(field, value)}
+      disabled={disabled}
+      onSave={handleTextSave}
+    />
+  );
+};
@@ -0,0 +1,104 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontal } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CustomFieldDefinition } from "@/types/customField";
+
+export type CustomFieldFilters = Record<string, string>;
+
+interface CustomFieldsFilterProps {
+  fields: CustomFieldDefinition[];
+  value: CustomFieldFilters;
+  onChange: (filters: CustomFieldFilters) => void;
+}
+
+const ANY_VALUE = "__any__";
+
+export const CustomFieldsFilter = ({ fields, value, onChange }: CustomFieldsFilterProps) => {
+  if (fields.length === 0) return null;
+
+  const activeCount = Object.values(value).filter(Boolean).length;
+
+  const setFilter = (fieldName: string, filter: string) => {
+    const next = { ...value };
+    if (filter && filter !== ANY_VALUE) {
+      next[fieldName] = filter;
+    } else {
+      delete next[fieldName];
+    }
+    onChange(next);
+  };
+
+  const renderControl = (field: CustomFieldDefinition) => {
+    const current = value[field.field_name] || '';
+
+    if (field.field_type === 'select' || field.field_type === 'multiselect' || field.field_type === 'boolean') {
+      const options = field.field_type === 'boolean'
+        ? [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]
+        : field.field_options.map(option => ({ value: option, label: option }));
+      return (
+        <Select value={current || ANY_VALUE} onValueChange={(selected) => setFilter(field.field_name, selected)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_VALUE}>Any</SelectItem>
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        value={current}
+        onChange={(e) => setFilter(field.field_name, e.target.value)}
+        placeholder="Contains..."
+        className="h-8"
+      />
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={cn("h-8 relative", activeCount > 0 && "border-primary")}>
+          <SlidersHorizontal className="w-4 h-4 mr-1" />
+          Fields
+          {activeCount > 0 && (
+            <Badge
+              variant="default"
+              className="absolute -top-2 -right-2 h-5 w-5 p-0 flex items-center justify-center text-xs rounded-full"
+            >
+              {activeCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Filter by custom fields</span>
+          {activeCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onChange({})}>
+              Clear
+            </Button>
+          )}
+        </div>
+        {fields.map(field => (
+          <div key={field.id} className="space-y-1">
+            <Label className="text-xs text-muted-foreground">{field.field_label}</Label>
+            {renderControl(field)}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,140 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldDefinition, CustomFieldEntity, CustomFieldValue, CustomFieldValues } from "@/types/customField";
+
+interface CustomFieldsSectionProps {
+  entityType: CustomFieldEntity;
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  errors?: Record<string, string>;
+  disabled?: boolean;
+  title?: string;
+}
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue) => void;
+  disabled?: boolean;
+}
+
+export const CustomFieldInput = ({ field, value, onChange, disabled }: CustomFieldInputProps) => {
+  switch (field.field_type) {
+    case 'number':
+      return (
+        <Input
+          type="number"
+          value={value === null || value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+          disabled={disabled}
+        />
+      );
+    case 'date':
+      return (
+        <Input
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          disabled={disabled}
+        />
+      );
+    case 'boolean':
+      return (
+        <div className="flex items-center h-10">
+          <Switch checked={value === true} onCheckedChange={onChange} disabled={disabled} />
+        </div>
+      );
+    case 'select':
+      return (
+        <Select
+          value={typeof value === 'string' ? value : ''}
+          onValueChange={(selected) => onChange(selected)}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder={`Select ${field.field_label.toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.field_options.map(option => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'multiselect': {
+      const selected = Array.isArray(value) ? value : [];
+      const toggle = (option: string) => {
+        const next = selected.includes(option) ? selected.filter(item => item !== option) : [...selected, option];
+        onChange(next.length > 0 ? next : null);
+      };
+      return (
+        <div className="flex flex-wrap gap-2 min-h-10 items-center">
+          {field.field_options.map(option => (
+            <Badge
+              key={option}
+              variant={selected.includes(option) ? "default" : "outline"}
+              className="cursor-pointer hover:opacity-80 transition-opacity"
+              onClick={() => !disabled && toggle(option)}
+            >
+              {option}
+              {selected.includes(option) && <X className="w-3 h-3 ml-1" />}
+            </Badge>
+          ))}
+        </div>
+      );
+    }
+    default:
+      return (
+        <Input
+          value={typeof value === 'string' ? value : value === null || value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value || null)}
+          disabled={disabled}
+        />
+      );
+  }
+};
+
+// Renders the admin-defined fields for an entity; renders nothing when none are configured
+export const CustomFieldsSection = ({
+  entityType,
+  values,
+  onChange,
+  errors = {},
+  disabled = false,
+  title = "Additional Fields",
+}: CustomFieldsSectionProps) => {
+  const { visibleFields } = useCustomFields(entityType);
+
+  if (visibleFields.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-muted-foreground">{title}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {visibleFields.map(field => (
+          <div key={field.id} className="space-y-2">
+            <Label className={errors[field.field_name] ? "text-destructive" : undefined}>
+              {field.field_label}{field.is_required && ' *'}
+            </Label>
+            <CustomFieldInput
+              field={field}
+              value={values[field.field_name]}
+              onChange={(value) => onChange({ ...values, [field.field_name]: value })}
+              disabled={disabled}
+            />
+            {errors[field.field_name] && (
+              <p className="text-sm font-medium text-destructive">{errors[field.field_name]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
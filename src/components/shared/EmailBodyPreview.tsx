@@ -0,0 +1,25 @@
+interface EmailBodyPreviewProps {
+  body: string;
+  isHtml: boolean;
+  className?: string;
+}
+
+// HTML bodies are rendered in a sandboxed frame so their markup and scripts cannot reach the app
+export const EmailBodyPreview = ({ body, isHtml, className = "" }: EmailBodyPreviewProps) => {
+  if (!isHtml) {
+    return (
+      <div className={`p-3 bg-muted/50 rounded-lg whitespace-pre-wrap text-sm ${className}`}>
+        {body}
+      </div>
+    );
+  }
+
+  return (
+    <iframe
+      title="Email body"
+      sandbox=""
+      srcDoc={`<!DOCTYPE html><html><head><meta charset="utf-8"><base target="_blank"><style>body{font-family:sans-serif;font-size:14px;margin:12px;}</style></head><body>${body}</body></html>`}
+      className={`w-full h-[240px] rounded-lg border bg-white ${className}`}
+    />
+  );
+};
@@ -11,6 +11,7 @@ import {
   MousePointer,
   Clock,
   ExternalLink,
+  Reply,
 } from 'lucide-react';
 import {
   Dialog,
@@ -18,6 +19,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { EmailBodyPreview } from '@/components/shared/EmailBodyPreview';
 
 interface EmailHistoryItem {
   id: string;
@@ -26,6 +28,7 @@ interface EmailHistoryItem {
   recipient_name: string | null;
   sender_email: string;
   body: string | null;
+  is_html: boolean;
   status: string;
   sent_at: string;
   opened_at: string | null;
@@ -34,6 +37,23 @@ interface EmailHistoryItem {
   click_count: number | null;
 }
 
+interface EmailReplyItem {
+  id: string;
+  email_history_id: string | null;
+  from_email: string;
+  from_name: string | null;
+  subject: string | null;
+  body: string | null;
+  is_html: boolean;
+  is_auto_reply: boolean;
+  received_at: string;
+}
+
+// Sent emails and the replies synced from the mailbox that are not part of a tracked conversation
+type TimelineEntry =
+  | { kind: 'sent'; date: string; email: EmailHistoryItem }
+  | { kind: 'received'; date: string; reply: EmailReplyItem };
+
 interface EntityEmailHistoryProps {
   entityType: 'contact' | 'lead' | 'account';
   entityId: string;
@@ -41,31 +61,34 @@ interface EntityEmailHistoryProps {
 
 export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryProps) => {
   const [emails, setEmails] = useState<EmailHistoryItem[]>([]);
+  const [replies, setReplies] = useState<EmailReplyItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedEmail, setSelectedEmail] = useState<EmailHistoryItem | null>(null);
+  const [selectedReply, setSelectedReply] = useState<EmailReplyItem | null>(null);
 
   useEffect(() => {
     const fetchEmails = async () => {
       setLoading(true);
       try {
-        let query = supabase
-          .from('email_history')
-          .select('id, subject, recipient_email, recipient_name, sender_email, body, status, sent_at, opened_at, clicked_at, open_count, click_count')
-          .order('sent_at', { ascending: false });
-
-        // Apply filter based on entity type
-        if (entityType === 'contact') {
-          query = query.eq('contact_id', entityId);
-        } else if (entityType === 'lead') {
-          query = query.eq('lead_id', entityId);
-        } else if (entityType === 'account') {
-          query = query.eq('account_id', entityId);
-        }
-
-        const { data, error } = await query;
-
-        if (error) throw error;
-        setEmails((data as EmailHistoryItem[]) || []);
+        const entityColumn = entityType === 'contact' ? 'contact_id' : entityType === 'lead' ? 'lead_id' : 'account_id';
+
+        const [emailsRes, repliesRes] = await Promise.all([
+          supabase
+            .from('email_history')
+            .select('id, subject, recipient_email, recipient_name, sender_email, body, is_html, status, sent_at, opened_at, clicked_at, open_count, click_count')
+            .eq(entityColumn, entityId)
+            .order('sent_at', { ascending: false }),
+          supabase
+            .from('email_replies')
+            .select('id, email_history_id, from_email, from_name, subject, body, is_html, is_auto_reply, received_at')
+            .eq(entityColumn, entityId)
+            .order('received_at', { ascending: true }),
+        ]);
+
+        if (emailsRes.error) throw emailsRes.error;
+        if (repliesRes.error) throw repliesRes.error;
+        setEmails((emailsRes.data as EmailHistoryItem[]) || []);
+        setReplies(repliesRes.data || []);
       } catch (error) {
         console.error('Error fetching email history:', error);
       } finally {
@@ -83,6 +106,7 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
       case 'sent': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
       case 'opened': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
       case 'clicked': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
+      case 'replied': return 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200';
       case 'bounced': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
     }
@@ -98,7 +122,21 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
     );
   }
 
-  if (emails.length === 0) {
+  const repliesByEmail = new Map<string, EmailReplyItem[]>();
+  replies.forEach(reply => {
+    if (reply.email_history_id) {
+      repliesByEmail.set(reply.email_history_id, [...(repliesByEmail.get(reply.email_history_id) || []), reply]);
+    }
+  });
+
+  const timeline: TimelineEntry[] = [
+    ...emails.map(email => ({ kind: 'sent' as const, date: email.sent_at, email })),
+    ...replies
+      .filter(reply => !reply.email_history_id)
+      .map(reply => ({ kind: 'received' as const, date: reply.received_at, reply })),
+  ].sort((a, b) => b.date.localeCompare(a.date));
+
+  if (timeline.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
         <Mail className="h-10 w-10 mb-2 opacity-50" />
@@ -107,40 +145,73 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
     );
   }
 
+  const selectedEmailReplies = selectedEmail ? repliesByEmail.get(selectedEmail.id) || [] : [];
+
   return (
     <>
       <ScrollArea className="h-[300px] pr-4">
         <div className="space-y-3">
-          {emails.map((email) => (
+          {timeline.map((entry) => entry.kind === 'received' ? (
+            <Card
+              key={entry.reply.id}
+              className="cursor-pointer hover:bg-accent/50 transition-colors"
+              onClick={() => setSelectedReply(entry.reply)}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Reply className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      <span className="font-medium truncate">{entry.reply.subject || '(no subject)'}</span>
+                    </div>
+                    <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {format(new Date(entry.reply.received_at), 'dd/MM/yyyy HH:mm')}
+                      </span>
+                      <span className="truncate">From {entry.reply.from_name || entry.reply.from_email}</span>
+                    </div>
+                  </div>
+                  <Badge variant="outline">{entry.reply.is_auto_reply ? 'auto-reply' : 'received'}</Badge>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
             <Card 
-              key={email.id} 
+              key={entry.email.id} 
               className="cursor-pointer hover:bg-accent/50 transition-colors"
-              onClick={() => setSelectedEmail(email)}
+              onClick={() => setSelectedEmail(entry.email)}
             >
               <CardContent className="p-4">
                 <div className="flex items-start justify-between gap-4">
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-1">
                       <Mail className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                      <span className="font-medium truncate">{email.subject}</span>
+                      <span className="font-medium truncate">{entry.email.subject}</span>
                     </div>
                     <div className="flex items-center gap-4 text-xs text-muted-foreground">
                       <span className="flex items-center gap-1">
                         <Clock className="h-3 w-3" />
-                        {format(new Date(email.sent_at), 'dd/MM/yyyy HH:mm')}
+                        {format(new Date(entry.email.sent_at), 'dd/MM/yyyy HH:mm')}
                       </span>
                       <span className="flex items-center gap-1">
                         <Eye className="h-3 w-3" />
-                        {email.open_count || 0} opens
+                        {entry.email.open_count || 0} opens
                       </span>
                       <span className="flex items-center gap-1">
                         <MousePointer className="h-3 w-3" />
-                        {email.click_count || 0} clicks
+                        {entry.email.click_count || 0} clicks
                       </span>
+                      {repliesByEmail.has(entry.email.id) && (
+                        <span className="flex items-center gap-1">
+                          <Reply className="h-3 w-3" />
+                          {repliesByEmail.get(entry.email.id)!.length} replies
+                        </span>
+                      )}
                     </div>
                   </div>
-                  <Badge className={getStatusColor(email.status)}>
-                    {email.status}
+                  <Badge className={getStatusColor(entry.email.status)}>
+                    {entry.email.status}
                   </Badge>
                 </div>
               </CardContent>
@@ -215,10 +286,56 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
               {selectedEmail.body && (
                 <div>
                   <p className="text-sm font-medium text-muted-foreground mb-2">Email Body</p>
-                  <div 
-                    className="border rounded-md p-4 bg-muted/30 text-sm max-h-[200px] overflow-y-auto"
-                    dangerouslySetInnerHTML={{ __html: selectedEmail.body }}
-                  />
+                  <EmailBodyPreview body={selectedEmail.body} isHtml={selectedEmail.is_html} />
+                </div>
+              )}
+
+              {selectedEmailReplies.map((reply) => (
+                <div key={reply.id} className="border-l-2 pl-4 space-y-2">
+                  <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                    <Reply className="h-4 w-4" />
+                    {reply.is_auto_reply ? 'Automatic reply' : 'Reply'} from {reply.from_name || reply.from_email}
+                    {' · '}
+                    {format(new Date(reply.received_at), 'dd/MM/yyyy HH:mm')}
+                  </p>
+                  {reply.body && <EmailBodyPreview body={reply.body} isHtml={reply.is_html} />}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedReply} onOpenChange={() => setSelectedReply(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Reply className="h-5 w-5" />
+              Received Email
+            </DialogTitle>
+          </DialogHeader>
+
+          {selectedReply && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Subject</p>
+                  <p className="text-sm">{selectedReply.subject || '(no subject)'}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">From</p>
+                  <p className="text-sm">{selectedReply.from_name ? `${selectedReply.from_name} <${selectedReply.from_email}>` : selectedReply.from_email}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Received At</p>
+                  <p className="text-sm">{format(new Date(selectedReply.received_at), 'dd/MM/yyyy HH:mm')}</p>
+                </div>
+              </div>
+
+              {selectedReply.body && (
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground mb-2">Email Body</p>
+                  <EmailBodyPreview body={selectedReply.body} isHtml={selectedReply.is_html} />
                 </div>
               )}
             </div>
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Loader2, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useImportJobs } from "@/hooks/useImportJobs";
+import { ImportEntity } from "@/hooks/import-export/importMapping";
+import { ImportJob, ImportJobStatus } from "@/hooks/import-export/importJobs";
+
+interface ImportHistoryDialogProps {
+  entity: ImportEntity;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after a rollback so the list can reload
+  onRolledBack?: () => void;
+}
+
+const STATUS_BADGES: Record<ImportJobStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  running: { label: 'Running', variant: 'outline' },
+  completed: { label: 'Completed', variant: 'default' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  rolled_back: { label: 'Rolled back', variant: 'secondary' },
+  rollback_partial: { label: 'Partly rolled back', variant: 'destructive' },
+};
+
+export const ImportHistoryDialog = ({ entity, open, onOpenChange, onRolledBack }: ImportHistoryDialogProps) => {
+  const { toast } = useToast();
+  const { jobs, isLoading, rollback, isRollingBack, downloadErrors } = useImportJobs(entity, open);
+  const [rollbackJob, setRollbackJob] = useState<ImportJob | null>(null);
+
+  const handleDownloadErrors = async (job: ImportJob) => {
+    try {
+      await downloadErrors(job);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Could not build the error report",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!rollbackJob) return;
+    const job = rollbackJob;
+    setRollbackJob(null);
+
+    try {
+      const { deleted, reverted, failed } = await rollback(job);
+      toast({
+        title: failed > 0 ? "Rollback Incomplete" : "Import Rolled Back",
+        description: `${deleted} created records deleted, ${reverted} updated records restored`
+          + (failed > 0 ? `. ${failed} records could not be rolled back.` : ''),
+        variant: failed > 0 ? "destructive" : "default",
+      });
+      onRolledBack?.();
+    } catch (error) {
+      toast({
+        title: "Rollback Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import history</DialogTitle>
+            <DialogDescription>
+              Download the rows an import couldn't load, fix them and import the file again, or roll an import back.
+            </DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-40">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No imports yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead className="text-right">Created</TableHead>
+                  <TableHead className="text-right">Updated</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[200px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map(job => {
+                  const badge = STATUS_BADGES[job.status as ImportJobStatus] || STATUS_BADGES.completed;
+                  const canRollBack = job.status !== 'rolled_back' && job.status !== 'running'
+                    && job.inserted_count + job.updated_count > 0;
+                  return (
+                    <TableRow key={job.id}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(job.created_at), 'dd/MM/yyyy HH:mm')}</TableCell>
+                      <TableCell className="max-w-[200px] truncate" title={job.file_name}>{job.file_name}</TableCell>
+                      <TableCell className="text-right">{job.inserted_count.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{job.updated_count.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{job.skipped_count.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{job.error_count.toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          {job.error_count > 0 && (
+                            <Button variant="ghost" size="sm" onClick={() => handleDownloadErrors(job)}>
+                              <Download className="w-4 h-4 mr-1" />
+                              Errors
+                            </Button>
+                          )}
+                          {canRollBack && (
+                            <Button variant="ghost" size="sm" disabled={isRollingBack} onClick={() => setRollbackJob(job)}>
+                              <Undo2 className="w-4 h-4 mr-1" />
+                              Roll back
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!rollbackJob} onOpenChange={(open) => !open && setRollbackJob(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {rollbackJob && `${rollbackJob.inserted_count} records created by ${rollbackJob.file_name} will be deleted and ${rollbackJob.updated_count} updated records restored to their values before the import. Changes made to those records since the import will be lost.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRollback}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,615 @@
+import { useState, useEffect, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ArrowRight, Eye, Loader2, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useImportMappingProfile } from "@/hooks/useImportMappingProfile";
+import { fetchCustomFieldsForTable } from "@/hooks/import-export/customFieldsMapper";
+import {
+  ColumnMapping,
+  IMPORT_ENTITY_FIELDS,
+  IMPORT_TRANSFORMS,
+  ImportEntity,
+  ImportTransform,
+  applyImportMapping,
+  formatFieldLabel,
+  getMappedFields,
+  getUnmappedRequiredFields,
+  suggestColumnMappings,
+} from "@/hooks/import-export/importMapping";
+import {
+  IMPORT_MERGE_POLICIES,
+  IMPORT_MODES,
+  ImportMatchOptions,
+  ImportMergePolicy,
+  ImportMode,
+  ImportPreviewAction,
+  ImportPreviewRow,
+  buildImportPreview,
+  canAppendField,
+  getDefaultMatchOptions,
+} from "@/hooks/import-export/importMerge";
+import { CustomFieldDefinition, toCustomFieldColumn } from "@/types/customField";
+import { CSVParser, readCSVFile } from "@/utils/csvParser";
+import { XlsxWorkbook, isXlsxFile, readXlsx } from "@/utils/xlsx";
+
+interface ImportMappingWizardProps {
+  entity: ImportEntity;
+  // The wizard is open while a file is set
+  file: File | null;
+  onClose: () => void;
+  // Receives a CSV rewritten with the entity's canonical headers, and how its rows match existing records
+  onImport: (file: File, match: ImportMatchOptions) => unknown;
+}
+
+interface DefaultValueRow {
+  field: string;
+  value: string;
+}
+
+const SKIP_VALUE = '__skip__';
+const PREVIEW_ROWS = 5;
+const CHANGE_PREVIEW_ROWS = 50;
+
+const PREVIEW_ACTIONS: Record<ImportPreviewAction, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  insert: { label: 'New', variant: 'default' },
+  update: { label: 'Update', variant: 'secondary' },
+  unchanged: { label: 'Unchanged', variant: 'outline' },
+  skip: { label: 'Skipped', variant: 'outline' },
+  fail: { label: 'Fails', variant: 'destructive' },
+};
+
+const formatPreviewValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  return Array.isArray(value) ? value.join('; ') : String(value);
+};
+
+export const ImportMappingWizard = ({ entity, file, onClose, onImport }: ImportMappingWizardProps) => {
+  const { toast } = useToast();
+  const { profile, isLoading: profileLoading, saveProfile } = useImportMappingProfile(entity);
+  const [step, setStep] = useState<'columns' | 'defaults' | 'matching'>('columns');
+  const [parsed, setParsed] = useState<{ headers: string[]; rows: string[][] } | null>(null);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [mappings, setMappings] = useState<Record<string, ColumnMapping>>({});
+  const [defaultRows, setDefaultRows] = useState<DefaultValueRow[]>([]);
+  const [saveMapping, setSaveMapping] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [workbook, setWorkbook] = useState<XlsxWorkbook | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [matchOptions, setMatchOptions] = useState<ImportMatchOptions>(() => getDefaultMatchOptions(entity));
+  const [changePreview, setChangePreview] = useState<ImportPreviewRow[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  useEffect(() => {
+    if (!file || profileLoading) return;
+    let cancelled = false;
+    setParsed(null);
+    setWorkbook(null);
+    setStep('columns');
+
+    // Workbooks open on their first sheet. CSV encoding and delimiter are detected here; either way
+    // the file handed to the importer is UTF-8 CSV with commas
+    const readFile = async () => {
+      if (!isXlsxFile(file)) return { ...(await readCSVFile(file)), workbook: null, sheetName: '' };
+      const book = await readXlsx(file);
+      const firstSheet = book.sheetNames[0] || '';
+      return { ...(firstSheet ? await book.readSheet(firstSheet) : { headers: [], rows: [] }), workbook: book, sheetName: firstSheet };
+    };
+
+    Promise.all([readFile(), fetchCustomFieldsForTable(entity)])
+      .then(([{ headers, rows, workbook: book, sheetName: firstSheet }, fields]) => {
+        if (cancelled) return;
+        setCustomFields(fields);
+        setWorkbook(book);
+        setSheetName(firstSheet);
+        setParsed({ headers, rows });
+        setMappings(suggestColumnMappings(entity, headers, fields, profile));
+        setDefaultRows(Object.entries(profile?.defaultValues || {}).map(([field, value]) => ({ field, value })));
+        setMatchOptions(profile?.matchOptions || getDefaultMatchOptions(entity));
+      })
+      .catch(error => {
+        console.error('Failed to read import file:', error);
+        if (cancelled) return;
+        toast({ title: "Error", description: "Could not read the selected file", variant: "destructive" });
+        setParsed({ headers: [], rows: [] });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, entity, profile, profileLoading, toast]);
+
+  const handleSheetChange = async (name: string) => {
+    if (!workbook) return;
+    setSheetName(name);
+    setParsed(null);
+    try {
+      const { headers, rows } = await workbook.readSheet(name);
+      setParsed({ headers, rows });
+      setMappings(suggestColumnMappings(entity, headers, customFields, profile));
+    } catch (error) {
+      console.error('Failed to read sheet:', error);
+      toast({ title: "Error", description: `Could not read sheet ${name}`, variant: "destructive" });
+      setParsed({ headers: [], rows: [] });
+    }
+  };
+
+  const targetOptions = useMemo(() => [
+    ...IMPORT_ENTITY_FIELDS[entity].fields.map(field => ({ value: field, label: formatFieldLabel(field), custom: false })),
+    ...customFields.map(field => ({ value: toCustomFieldColumn(field.field_name), label: field.field_label, custom: true })),
+  ], [entity, customFields]);
+
+  const labelFor = (field: string) => targetOptions.find(option => option.value === field)?.label || field;
+
+  const defaultValues = useMemo(() => {
+    const values: Record<string, string> = {};
+    defaultRows.forEach(row => {
+      if (row.field && row.value.trim()) values[row.field] = row.value.trim();
+    });
+    return values;
+  }, [defaultRows]);
+
+  const preview = useMemo(() => {
+    if (!parsed) return null;
+    return applyImportMapping(parsed.headers, parsed.rows.slice(0, PREVIEW_ROWS), mappings, defaultValues);
+  }, [parsed, mappings, defaultValues]);
+
+  // A preview only describes the options it was built with
+  useEffect(() => {
+    setChangePreview(null);
+  }, [parsed, mappings, defaultValues, matchOptions]);
+
+  const mappedFields = getMappedFields(mappings, defaultValues);
+  const keyOptions = [...new Set(['id', 'email', matchOptions.matchKey])]
+    .filter(field => field === matchOptions.matchKey || mappedFields.includes(field))
+    .concat(mappedFields.filter(field => !['id', 'email', matchOptions.matchKey].includes(field)));
+  const keyMapped = mappedFields.includes(matchOptions.matchKey);
+  const policyFields = mappedFields.filter(field => field !== 'id' && field !== matchOptions.matchKey);
+
+  const updateMatchOptions = (updates: Partial<ImportMatchOptions>) => {
+    setMatchOptions(prev => ({ ...prev, ...updates }));
+  };
+
+  const setFieldPolicy = (field: string, policy: ImportMergePolicy) => {
+    setMatchOptions(prev => ({ ...prev, fieldPolicies: { ...prev.fieldPolicies, [field]: policy } }));
+  };
+
+  // Policies are kept only for fields this file imports, and overwrite is the default
+  const currentMatchOptions = (): ImportMatchOptions => ({
+    ...matchOptions,
+    fieldPolicies: Object.fromEntries(
+      Object.entries(matchOptions.fieldPolicies).filter(([field, policy]) => policyFields.includes(field) && policy !== 'overwrite')
+    ),
+  });
+
+  const handlePreview = async () => {
+    if (!parsed) return;
+    setPreviewing(true);
+    try {
+      const { records } = applyImportMapping(parsed.headers, parsed.rows, mappings, defaultValues);
+      setChangePreview(await buildImportPreview(entity, records, currentMatchOptions(), customFields));
+    } catch (error) {
+      console.error('Failed to preview import:', error);
+      toast({
+        title: "Preview failed",
+        description: error instanceof Error ? error.message : "Could not look up existing records",
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const previewCounts = useMemo(() => {
+    const counts: Record<ImportPreviewAction, number> = { insert: 0, update: 0, unchanged: 0, skip: 0, fail: 0 };
+    changePreview?.forEach(row => counts[row.action]++);
+    return counts;
+  }, [changePreview]);
+
+  const missingRequired = getUnmappedRequiredFields(entity, mappings, defaultValues);
+  const mappedCount = Object.values(mappings).filter(mapping => mapping.field).length;
+
+  const sampleFor = (index: number) =>
+    parsed?.rows.slice(0, PREVIEW_ROWS).map(row => row[index]).find(value => value?.trim()) || '';
+
+  const updateMapping = (header: string, updates: Partial<ColumnMapping>) => {
+    setMappings(prev => ({ ...prev, [header]: { ...prev[header], ...updates } }));
+  };
+
+  const handleImport = async () => {
+    if (!file || !parsed) return;
+    setImporting(true);
+    try {
+      if (saveMapping) {
+        try {
+          await saveProfile({ fieldMappings: mappings, defaultValues, matchOptions: currentMatchOptions() });
+        } catch (error) {
+          // The import still runs; only the profile for next time is lost
+          console.error('Failed to save import mapping:', error);
+          toast({ title: "Mapping not saved", description: "The import will continue without saving the mapping", variant: "destructive" });
+        }
+      }
+
+      const { headers, records } = applyImportMapping(parsed.headers, parsed.rows, mappings, defaultValues);
+      const csvName = file.name.replace(/\.xlsx$/i, '.csv');
+      const mappedFile = new File([CSVParser.toCSV(records, headers)], csvName, { type: 'text/csv' });
+      onClose();
+      onImport(mappedFile, currentMatchOptions());
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !importing && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {file?.name}</DialogTitle>
+          <DialogDescription>
+            {step === 'columns'
+              ? 'Choose the field each column imports into. Columns set to "Don\'t import" are left out.'
+              : step === 'defaults'
+                ? 'Set values for fields that are blank or missing in the file, and check the result.'
+                : 'Choose how rows match existing records and how matched records change, and preview the result.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {workbook && workbook.sheetNames.length > 1 && step === 'columns' && (
+          <div className="flex items-center gap-2">
+            <Label>Sheet</Label>
+            <Select value={sheetName} onValueChange={handleSheetChange}>
+              <SelectTrigger className="h-8 w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workbook.sheetNames.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {!parsed ? (
+          <div className="flex items-center justify-center h-40">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : parsed.headers.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">Nothing to import from this file</p>
+        ) : step === 'columns' ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {parsed.rows.length} rows, {mappedCount} of {parsed.headers.length} columns mapped
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Sample</TableHead>
+                  <TableHead className="w-[220px]">Import as</TableHead>
+                  <TableHead className="w-[170px]">Transform</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {parsed.headers.map((header, index) => {
+                  const mapping = mappings[header] || { field: null, transform: 'none' };
+                  return (
+                    <TableRow key={`${header}-${index}`}>
+                      <TableCell className="font-medium">
+                        {header || <span className="text-muted-foreground">(no header)</span>}
+                        {!mapping.field && <Badge variant="outline" className="ml-2">Skipped</Badge>}
+                      </TableCell>
+                      <TableCell className="max-w-[200px] truncate text-muted-foreground" title={sampleFor(index)}>
+                        {sampleFor(index) || '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping.field || SKIP_VALUE}
+                          onValueChange={(value) => updateMapping(header, { field: value === SKIP_VALUE ? null : value })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SKIP_VALUE}>Don't import</SelectItem>
+                            <SelectGroup>
+                              <SelectLabel>Fields</SelectLabel>
+                              {targetOptions.filter(option => !option.custom).map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                              ))}
+                            </SelectGroup>
+                            {customFields.length > 0 && (
+                              <SelectGroup>
+                                <SelectLabel>Custom fields</SelectLabel>
+                                {targetOptions.filter(option => option.custom).map(option => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectGroup>
+                            )}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping.transform}
+                          onValueChange={(value) => updateMapping(header, { transform: value as ImportTransform })}
+                          disabled={!mapping.field}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {IMPORT_TRANSFORMS.map(transform => (
+                              <SelectItem key={transform.value} value={transform.value}>{transform.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : step === 'defaults' ? (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Default values</Label>
+              {defaultRows.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={row.field}
+                    onValueChange={(field) => setDefaultRows(prev => prev.map((r, i) => (i === index ? { ...r, field } : r)))}
+                  >
+                    <SelectTrigger className="h-8 w-[220px]">
+                      <SelectValue placeholder="Field" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {targetOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="h-8"
+                    value={row.value}
+                    placeholder="Value"
+                    onChange={(e) => setDefaultRows(prev => prev.map((r, i) => (i === index ? { ...r, value: e.target.value } : r)))}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => setDefaultRows(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setDefaultRows(prev => [...prev, { field: '', value: '' }])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add default value
+              </Button>
+            </div>
+
+            {preview && (
+              <div className="space-y-2">
+                <Label>Preview</Label>
+                <div className="border rounded-md overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {preview.headers.map(field => (
+                          <TableHead key={field} className="whitespace-nowrap">{labelFor(field)}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.records.map((record, index) => (
+                        <TableRow key={index}>
+                          {preview.headers.map(field => (
+                            <TableCell key={field} className="max-w-[200px] truncate">{record[field] || ''}</TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Import mode</Label>
+                <Select value={matchOptions.mode} onValueChange={(mode) => updateMatchOptions({ mode: mode as ImportMode })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {IMPORT_MODES.map(mode => (
+                      <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {IMPORT_MODES.find(mode => mode.value === matchOptions.mode)?.description}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Match existing records on</Label>
+                <Select value={matchOptions.matchKey} onValueChange={(matchKey) => updateMatchOptions({ matchKey })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {keyOptions.map(field => (
+                      <SelectItem key={field} value={field}>{labelFor(field)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!keyMapped && (
+                  <p className="text-xs text-destructive">
+                    {labelFor(matchOptions.matchKey)} isn't imported, so no row will match an existing record
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {matchOptions.mode !== 'create' && policyFields.length > 0 && (
+              <div className="space-y-2">
+                <Label>When a record matches</Label>
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        <TableHead className="w-[200px]">Existing value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {policyFields.map(field => (
+                        <TableRow key={field}>
+                          <TableCell>{labelFor(field)}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={matchOptions.fieldPolicies[field] || 'overwrite'}
+                              onValueChange={(policy) => setFieldPolicy(field, policy as ImportMergePolicy)}
+                            >
+                              <SelectTrigger className="h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {IMPORT_MERGE_POLICIES
+                                  .filter(policy => policy.value !== 'append' || canAppendField(entity, field, customFields))
+                                  .map(policy => (
+                                    <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Changes</Label>
+                <Button variant="outline" size="sm" onClick={handlePreview} disabled={previewing}>
+                  {previewing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Eye className="h-4 w-4 mr-1" />}
+                  Preview changes
+                </Button>
+              </div>
+              {changePreview && (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.keys(PREVIEW_ACTIONS) as ImportPreviewAction[]).map(action => (
+                      <Badge key={action} variant={PREVIEW_ACTIONS[action].variant}>
+                        {PREVIEW_ACTIONS[action].label}: {previewCounts[action].toLocaleString()}
+                      </Badge>
+                    ))}
+                  </div>
+                  {changePreview.some(row => row.action !== 'insert') && (
+                    <div className="border rounded-md">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-[60px]">Row</TableHead>
+                            <TableHead className="w-[180px]">{labelFor(matchOptions.matchKey)}</TableHead>
+                            <TableHead className="w-[100px]">Result</TableHead>
+                            <TableHead>Changes</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {changePreview.filter(row => row.action !== 'insert').slice(0, CHANGE_PREVIEW_ROWS).map(row => (
+                            <TableRow key={row.rowNumber}>
+                              <TableCell>{row.rowNumber}</TableCell>
+                              <TableCell className="max-w-[180px] truncate" title={row.key}>{row.key || '-'}</TableCell>
+                              <TableCell>
+                                <Badge variant={PREVIEW_ACTIONS[row.action].variant}>{PREVIEW_ACTIONS[row.action].label}</Badge>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {row.changes.length > 0
+                                  ? row.changes.map(change => (
+                                    <div key={change.field} className="flex items-center gap-1 flex-wrap">
+                                      <span className="font-medium">{labelFor(change.field)}:</span>
+                                      <span className="text-muted-foreground line-through">{formatPreviewValue(change.from)}</span>
+                                      <ArrowRight className="h-3 w-3 shrink-0" />
+                                      <span>{formatPreviewValue(change.to)}</span>
+                                    </div>
+                                  ))
+                                  : <span className="text-muted-foreground">{row.message || 'No changes'}</span>}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                  {changePreview.filter(row => row.action !== 'insert').length > CHANGE_PREVIEW_ROWS && (
+                    <p className="text-xs text-muted-foreground">
+                      Showing the first {CHANGE_PREVIEW_ROWS} rows that don't create a record
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {parsed && missingRequired.length > 0 && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            Required fields not mapped: {missingRequired.map(labelFor).join(', ')}
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex items-center gap-2">
+            <Checkbox id="save-import-mapping" checked={saveMapping} onCheckedChange={(checked) => setSaveMapping(checked === true)} />
+            <Label htmlFor="save-import-mapping" className="font-normal">Save mapping for future imports</Label>
+          </div>
+          <div className="flex gap-2">
+            {step === 'columns' ? (
+              <>
+                <Button variant="outline" onClick={onClose}>Cancel</Button>
+                <Button onClick={() => setStep('defaults')} disabled={!parsed || parsed.headers.length === 0}>
+                  Next
+                </Button>
+              </>
+            ) : step === 'defaults' ? (
+              <>
+                <Button variant="outline" onClick={() => setStep('columns')}>Back</Button>
+                <Button onClick={() => setStep('matching')} disabled={missingRequired.length > 0}>
+                  Next
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setStep('defaults')} disabled={importing}>Back</Button>
+                <Button
+                  onClick={handleImport}
+                  disabled={importing || missingRequired.length > 0 || parsed?.rows.length === 0 || (matchOptions.mode === 'update' && !keyMapped)}
+                >
+                  {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Import {parsed?.rows.length ?? 0} rows
+                </Button>
+              </>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,178 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { Bold, Italic, Link as LinkIcon, List, ListOrdered, RemoveFormatting, Underline, Unlink } from "lucide-react";
+
+interface RichTextEditorProps {
+  id?: string;
+  value: string;
+  onChange: (html: string) => void;
+  placeholder?: string;
+  minHeight?: number;
+}
+
+const FORMAT_COMMANDS = [
+  { command: 'bold', icon: Bold, label: 'Bold' },
+  { command: 'italic', icon: Italic, label: 'Italic' },
+  { command: 'underline', icon: Underline, label: 'Underline' },
+  { command: 'insertUnorderedList', icon: List, label: 'Bulleted list' },
+  { command: 'insertOrderedList', icon: ListOrdered, label: 'Numbered list' },
+];
+
+// Links without a scheme are treated as web addresses
+const normalizeUrl = (url: string) => {
+  const trimmed = url.trim();
+  if (/^(https?:|mailto:|tel:)/i.test(trimmed)) return trimmed;
+  return `https://${trimmed}`;
+};
+
+// contentEditable composer producing the HTML body of an email
+export const RichTextEditor = ({ id, value, onChange, placeholder, minHeight = 160 }: RichTextEditorProps) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const savedRange = useRef<Range | null>(null);
+  const [linkOpen, setLinkOpen] = useState(false);
+  const [linkUrl, setLinkUrl] = useState('');
+
+  // Only overwrite the DOM for outside changes (templates, resets) so the caret is kept while typing
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && editor.innerHTML !== value) {
+      editor.innerHTML = value;
+    }
+  }, [value]);
+
+  const emitChange = () => {
+    if (editorRef.current) onChange(editorRef.current.innerHTML);
+  };
+
+  const runCommand = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, argument);
+    emitChange();
+  };
+
+  const saveSelection = () => {
+    const selection = window.getSelection();
+    if (selection && selection.rangeCount > 0 && editorRef.current?.contains(selection.anchorNode)) {
+      savedRange.current = selection.getRangeAt(0);
+    }
+  };
+
+  const applyLink = () => {
+    if (!linkUrl.trim()) return;
+    editorRef.current?.focus();
+    const selection = window.getSelection();
+    if (savedRange.current && selection) {
+      selection.removeAllRanges();
+      selection.addRange(savedRange.current);
+    }
+
+    const url = normalizeUrl(linkUrl);
+    if (selection && !selection.isCollapsed) {
+      runCommand('createLink', url);
+    } else {
+      // Nothing selected: insert the address itself as the link text
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.textContent = url;
+      runCommand('insertHTML', anchor.outerHTML);
+    }
+    setLinkOpen(false);
+    setLinkUrl('');
+  };
+
+  return (
+    <div className="rounded-md border border-input bg-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+      <div className="flex flex-wrap items-center gap-0.5 border-b p-1">
+        {FORMAT_COMMANDS.map(({ command, icon: Icon, label }) => (
+          <Button
+            key={command}
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => runCommand(command)}
+            aria-label={label}
+            title={label}
+          >
+            <Icon className="h-3.5 w-3.5" />
+          </Button>
+        ))}
+        <Separator orientation="vertical" className="mx-1 h-5" />
+        <Popover
+          open={linkOpen}
+          onOpenChange={(open) => {
+            if (open) saveSelection();
+            setLinkOpen(open);
+          }}
+        >
+          <PopoverTrigger asChild>
+            <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" aria-label="Insert link" title="Insert link">
+              <LinkIcon className="h-3.5 w-3.5" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-2" align="start">
+            <div className="flex items-center gap-2">
+              <Input
+                value={linkUrl}
+                onChange={(e) => setLinkUrl(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    applyLink();
+                  }
+                }}
+                placeholder="https://example.com"
+                className="h-8"
+                autoFocus
+              />
+              <Button type="button" size="sm" className="h-8" onClick={applyLink} disabled={!linkUrl.trim()}>
+                Add
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => runCommand('unlink')}
+          aria-label="Remove link"
+          title="Remove link"
+        >
+          <Unlink className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => runCommand('removeFormat')}
+          aria-label="Clear formatting"
+          title="Clear formatting"
+        >
+          <RemoveFormatting className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      <div
+        id={id}
+        ref={editorRef}
+        contentEditable
+        role="textbox"
+        aria-multiline="true"
+        data-placeholder={placeholder}
+        onInput={emitChange}
+        onBlur={emitChange}
+        className="px-3 py-2 text-sm outline-none overflow-y-auto empty:before:text-muted-foreground empty:before:content-[attr(data-placeholder)] [&_a]:text-primary [&_a]:underline [&_ol]:list-decimal [&_ol]:pl-5 [&_ul]:list-disc [&_ul]:pl-5"
+        style={{ minHeight, maxHeight: 360 }}
+        suppressContentEditableWarning
+      />
+    </div>
+  );
+};
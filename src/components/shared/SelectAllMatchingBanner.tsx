@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+interface SelectAllMatchingBannerProps {
+  selectedCount: number;
+  pageCount: number;
+  totalCount: number;
+  allPageRowsSelected: boolean;
+  onSelectAll: () => Promise<void>;
+  onClearSelection: () => void;
+  entityName?: string;
+}
+
+// Offers to extend a full-page selection to every row matching the current filters
+export const SelectAllMatchingBanner = ({
+  selectedCount,
+  pageCount,
+  totalCount,
+  allPageRowsSelected,
+  onSelectAll,
+  onClearSelection,
+  entityName = "items",
+}: SelectAllMatchingBannerProps) => {
+  const [selecting, setSelecting] = useState(false);
+
+  if (totalCount <= pageCount || selectedCount === 0) return null;
+
+  const handleSelectAll = async () => {
+    setSelecting(true);
+    try {
+      await onSelectAll();
+    } finally {
+      setSelecting(false);
+    }
+  };
+
+  if (selectedCount >= totalCount) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-2 text-sm bg-primary/5 border-b">
+        <span>All {totalCount} {entityName} are selected.</span>
+        <Button variant="link" size="sm" className="h-auto p-0" onClick={onClearSelection}>
+          Clear selection
+        </Button>
+      </div>
+    );
+  }
+
+  if (!allPageRowsSelected) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-2 py-2 text-sm bg-primary/5 border-b">
+      <span>{selectedCount} {entityName} selected.</span>
+      <Button variant="link" size="sm" className="h-auto p-0" onClick={handleSelectAll} disabled={selecting}>
+        {selecting && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+        Select all {totalCount} {entityName} matching the filters
+      </Button>
+    </div>
+  );
+};
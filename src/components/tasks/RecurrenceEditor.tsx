@@ -0,0 +1,231 @@
+import { parseISO } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Repeat } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { RecurrenceFrequency, RecurrenceRule, RecurrenceTrigger, RecurrenceWeekday } from '@/types/task';
+import { RECURRENCE_WEEKDAYS, describeRecurrenceRule, getWeekdayOf } from '@/utils/taskRecurrence';
+
+export interface RecurrenceSettings {
+  rule: RecurrenceRule | null;
+  endDate: string;
+  trigger: RecurrenceTrigger;
+}
+
+interface RecurrenceEditorProps {
+  value: RecurrenceSettings;
+  onChange: (value: RecurrenceSettings) => void;
+  dueDate?: string;
+}
+
+type RecurrenceEnd = 'never' | 'on' | 'after';
+
+const NO_REPEAT = 'none';
+
+const frequencyOptions: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'DAILY', label: 'Daily', unit: 'day(s)' },
+  { value: 'WEEKLY', label: 'Weekly', unit: 'week(s)' },
+  { value: 'MONTHLY', label: 'Monthly', unit: 'month(s)' },
+  { value: 'YEARLY', label: 'Yearly', unit: 'year(s)' },
+];
+
+// RRULE-style repeat settings for a task; the task's due date anchors the series
+export const RecurrenceEditor = ({ value, onChange, dueDate }: RecurrenceEditorProps) => {
+  const { rule, endDate, trigger } = value;
+  const endMode: RecurrenceEnd = rule?.count ? 'after' : endDate ? 'on' : 'never';
+  const dueDay = dueDate ? parseISO(dueDate).getDate() : null;
+
+  const updateRule = (changes: Partial<RecurrenceRule>) => {
+    if (!rule) return;
+    onChange({ ...value, rule: { ...rule, ...changes } });
+  };
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === NO_REPEAT) {
+      onChange({ ...value, rule: null, endDate: '' });
+      return;
+    }
+    onChange({
+      ...value,
+      rule: {
+        frequency: frequency as RecurrenceFrequency,
+        interval: rule?.interval || 1,
+        byWeekday: frequency === 'WEEKLY' && dueDate ? [getWeekdayOf(dueDate)] : [],
+        byMonthDay: null,
+        count: rule?.count || null,
+      },
+    });
+  };
+
+  const toggleWeekday = (day: RecurrenceWeekday) => {
+    if (!rule) return;
+    const byWeekday = rule.byWeekday.includes(day)
+      ? rule.byWeekday.filter(d => d !== day)
+      : [...rule.byWeekday, day];
+    // Keep at least one day selected
+    if (byWeekday.length > 0) updateRule({ byWeekday });
+  };
+
+  const handleEndModeChange = (mode: string) => {
+    if (!rule) return;
+    if (mode === 'after') {
+      onChange({ ...value, endDate: '', rule: { ...rule, count: rule.count || 5 } });
+    } else {
+      onChange({ ...value, endDate: mode === 'on' ? endDate || dueDate || '' : '', rule: { ...rule, count: null } });
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="flex items-center gap-1">
+            <Repeat className="h-3.5 w-3.5" />
+            Repeat
+          </Label>
+          <Select value={rule?.frequency || NO_REPEAT} onValueChange={handleFrequencyChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_REPEAT}>Does not repeat</SelectItem>
+              {frequencyOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {rule && (
+          <div className="space-y-2">
+            <Label>Every</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={99}
+                className="w-20"
+                value={rule.interval}
+                onChange={(e) => updateRule({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              />
+              <span className="text-sm text-muted-foreground">
+                {frequencyOptions.find(o => o.value === rule.frequency)?.unit}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {rule?.frequency === 'WEEKLY' && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <div className="flex flex-wrap gap-1">
+            {RECURRENCE_WEEKDAYS.map(day => (
+              <Button
+                key={day.value}
+                type="button"
+                size="sm"
+                variant={rule.byWeekday.includes(day.value) ? 'default' : 'outline'}
+                className="h-8 w-11 px-0"
+                title={day.label}
+                onClick={() => toggleWeekday(day.value)}
+              >
+                {day.short}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {rule?.frequency === 'MONTHLY' && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <Select
+            value={rule.byMonthDay === -1 ? 'last' : 'due'}
+            onValueChange={(val) => updateRule({ byMonthDay: val === 'last' ? -1 : null })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="due">{dueDay ? `Day ${dueDay} of the month` : 'Same day as the due date'}</SelectItem>
+              <SelectItem value="last">Last day of the month</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {rule && (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Ends</Label>
+              <div className="flex items-center gap-2">
+                <Select value={endMode} onValueChange={handleEndModeChange}>
+                  <SelectTrigger className={cn(endMode !== 'never' && 'w-28 shrink-0')}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="never">Never</SelectItem>
+                    <SelectItem value="on">On date</SelectItem>
+                    <SelectItem value="after">After</SelectItem>
+                  </SelectContent>
+                </Select>
+                {endMode === 'on' && (
+                  <Input
+                    type="date"
+                    value={endDate}
+                    min={dueDate}
+                    onChange={(e) => onChange({ ...value, endDate: e.target.value })}
+                  />
+                )}
+                {endMode === 'after' && (
+                  <>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20"
+                      value={rule.count || 1}
+                      onChange={(e) => updateRule({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    />
+                    <span className="text-sm text-muted-foreground">times</span>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Create next task</Label>
+              <Select
+                value={trigger}
+                onValueChange={(val) => onChange({ ...value, trigger: val as RecurrenceTrigger })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="completion">When this one is completed</SelectItem>
+                  <SelectItem value="schedule">On schedule</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {describeRecurrenceRule(rule, endMode === 'on' ? endDate : null)}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,32 @@
 import { useState, useMemo } from 'react';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, addMonths, subMonths, isToday } from 'date-fns';
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, addMonths, subMonths, isToday, addDays } from 'date-fns';
 import { Task, TaskStatus } from '@/types/task';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ChevronLeft, ChevronRight, Calendar, Clock } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Calendar, Clock, Repeat } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  describeRecurrenceRule,
+  getLatestOccurrence,
+  getOccurrencesBetween,
+  getRecurrenceSeriesId,
+  getSeriesTemplate,
+  isRecurringTask,
+  parseRecurrenceRule,
+  toDateKey,
+} from '@/utils/taskRecurrence';
 
 interface TaskCalendarViewProps {
   tasks: Task[];
   onEdit: (task: Task) => void;
 }
 
+// Upcoming occurrence of a series that has not been created yet
+interface ProjectedOccurrence {
+  date: string;
+  task: Task;
+}
+
 const priorityColors = {
   high: 'bg-red-500',
   medium: 'bg-yellow-500',
@@ -42,6 +58,37 @@ export const TaskCalendarView = ({ tasks, onEdit }: TaskCalendarViewProps) => {
     });
   };
 
+  const projectedByDay = useMemo(() => {
+    const byDay = new Map<string, ProjectedOccurrence[]>();
+    const seriesById = new Map<string, Task[]>();
+    tasks.filter(isRecurringTask).forEach(task => {
+      const seriesId = getRecurrenceSeriesId(task);
+      seriesById.set(seriesId, [...(seriesById.get(seriesId) || []), task]);
+    });
+
+    const from = toDateKey(startOfMonth(currentMonth));
+    const until = toDateKey(endOfMonth(currentMonth));
+    const yesterday = toDateKey(addDays(new Date(), -1));
+
+    seriesById.forEach(series => {
+      const template = getSeriesTemplate(series);
+      const latest = getLatestOccurrence(series);
+      const rule = parseRecurrenceRule(template?.recurrence);
+      if (!template?.due_date || !latest?.due_date || !rule) return;
+
+      // Occurrences are never created in the past, so projections start today at the earliest
+      const after = latest.due_date > yesterday ? latest.due_date : yesterday;
+      const remaining = rule.count ? Math.max(rule.count - series.length, 0) : null;
+      getOccurrencesBetween(rule, template.due_date, after, until, {
+        endDate: template.recurrence_end_date,
+        remaining,
+      })
+        .filter(date => date >= from)
+        .forEach(date => byDay.set(date, [...(byDay.get(date) || []), { date, task: latest }]));
+    });
+    return byDay;
+  }, [tasks, currentMonth]);
+
   const goToPreviousMonth = () => setCurrentMonth(subMonths(currentMonth, 1));
   const goToNextMonth = () => setCurrentMonth(addMonths(currentMonth, 1));
   const goToToday = () => setCurrentMonth(new Date());
@@ -90,6 +137,9 @@ export const TaskCalendarView = ({ tasks, onEdit }: TaskCalendarViewProps) => {
           {/* Actual days */}
           {daysInMonth.map((day) => {
             const dayTasks = getTasksForDay(day);
+            const projected = projectedByDay.get(toDateKey(day)) || [];
+            const visibleProjected = projected.slice(0, Math.max(3 - dayTasks.length, 0));
+            const hiddenCount = dayTasks.length + projected.length - Math.min(dayTasks.length, 3) - visibleProjected.length;
             const isCurrentDay = isToday(day);
 
             return (
@@ -117,6 +167,7 @@ export const TaskCalendarView = ({ tasks, onEdit }: TaskCalendarViewProps) => {
                           <div className="flex items-center gap-1">
                             <div className={`w-1.5 h-1.5 rounded-full ${priorityColors[task.priority]}`} />
                             <span className="truncate">{task.title}</span>
+                            {isRecurringTask(task) && <Repeat className="h-3 w-3 shrink-0 text-muted-foreground" />}
                           </div>
                         </button>
                       </TooltipTrigger>
@@ -132,6 +183,12 @@ export const TaskCalendarView = ({ tasks, onEdit }: TaskCalendarViewProps) => {
                           <p className="text-xs">
                             <span className="capitalize">{task.priority}</span> priority • {task.status.replace('_', ' ')}
                           </p>
+                          {isRecurringTask(task) && (
+                            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <Repeat className="h-3 w-3" />
+                              {describeRecurrenceRule(parseRecurrenceRule(task.recurrence), task.recurrence_end_date)}
+                            </p>
+                          )}
                           {task.description && (
                             <p className="text-xs text-muted-foreground line-clamp-2">{task.description}</p>
                           )}
@@ -139,9 +196,32 @@ export const TaskCalendarView = ({ tasks, onEdit }: TaskCalendarViewProps) => {
                       </TooltipContent>
                     </Tooltip>
                   ))}
-                  {dayTasks.length > 3 && (
+                  {visibleProjected.map(({ date, task }) => (
+                    <Tooltip key={`${task.id}-${date}`}>
+                      <TooltipTrigger asChild>
+                        <button
+                          onClick={() => onEdit(task)}
+                          className="w-full text-left text-xs p-1 rounded border border-dashed text-muted-foreground hover:bg-muted/50 transition-colors truncate"
+                        >
+                          <div className="flex items-center gap-1">
+                            <Repeat className="h-3 w-3 shrink-0" />
+                            <span className="truncate">{task.title}</span>
+                          </div>
+                        </button>
+                      </TooltipTrigger>
+                      <TooltipContent side="right" className="max-w-xs">
+                        <div className="space-y-1">
+                          <p className="font-medium">{task.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Upcoming occurrence • {describeRecurrenceRule(parseRecurrenceRule(task.recurrence), task.recurrence_end_date)}
+                          </p>
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  ))}
+                  {hiddenCount > 0 && (
                     <div className="text-xs text-muted-foreground text-center">
-                      +{dayTasks.length - 3} more
+                      +{hiddenCount} more
                     </div>
                   )}
                 </div>
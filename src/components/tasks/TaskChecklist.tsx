@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ArrowDown, ArrowUp, ListChecks, Plus, X } from 'lucide-react';
+import { TaskSubtaskDraft } from '@/types/task';
+
+interface TaskChecklistProps {
+  items: TaskSubtaskDraft[];
+  onChange: (items: TaskSubtaskDraft[]) => void;
+}
+
+// Checklist items of a task, saved to task_subtasks together with the task
+export const TaskChecklist = ({ items, onChange }: TaskChecklistProps) => {
+  const [newTitle, setNewTitle] = useState('');
+  const completedCount = items.filter(item => item.is_completed).length;
+
+  const addItem = () => {
+    const title = newTitle.trim();
+    if (!title) return;
+    onChange([...items, { title, is_completed: false }]);
+    setNewTitle('');
+  };
+
+  const updateItem = (index: number, changes: Partial<TaskSubtaskDraft>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1">
+          <ListChecks className="h-3.5 w-3.5" />
+          Checklist
+        </Label>
+        {items.length > 0 && (
+          <span className="text-xs text-muted-foreground">
+            {completedCount}/{items.length} done
+          </span>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <>
+          <Progress value={(completedCount / items.length) * 100} className="h-1.5" />
+          <div className="space-y-1">
+            {items.map((item, index) => (
+              <div key={item.id || `new-${index}`} className="group flex items-center gap-2">
+                <Checkbox
+                  checked={item.is_completed}
+                  onCheckedChange={(checked) => updateItem(index, { is_completed: checked === true })}
+                />
+                <Input
+                  value={item.title}
+                  onChange={(e) => updateItem(index, { title: e.target.value })}
+                  className={`h-8 ${item.is_completed ? 'line-through text-muted-foreground' : ''}`}
+                />
+                <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveItem(index, -1)} disabled={index === 0} aria-label="Move up">
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} aria-label="Move down">
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive hover:text-destructive" onClick={() => onChange(items.filter((_, i) => i !== index))} aria-label="Remove item">
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addItem();
+            }
+          }}
+          placeholder="Add an item..."
+          className="h-8"
+        />
+        <Button type="button" variant="outline" size="sm" className="h-8" onClick={addItem} disabled={!newTitle.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -4,8 +4,11 @@ import { Task, TaskStatus, TaskModuleType } from '@/types/task';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Edit, Trash2, Calendar, User, Building2, Briefcase, Users, FileText } from 'lucide-react';
+import { Edit, Trash2, Calendar, User, Building2, Briefcase, Users, FileText, CornerDownRight } from 'lucide-react';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { TaskRecurrenceIcon } from './TaskRecurrenceIcon';
+import { TaskProgressIndicator } from './TaskProgressIndicator';
+import { getTaskProgress, groupTasksByParent } from '@/utils/taskHierarchy';
 
 interface TaskKanbanViewProps {
   tasks: Task[];
@@ -43,6 +46,8 @@ export const TaskKanbanView = ({
 }: TaskKanbanViewProps) => {
   const assignedToIds = [...new Set(tasks.map(t => t.assigned_to).filter(Boolean))] as string[];
   const { displayNames } = useUserDisplayNames(assignedToIds);
+  const childTasksByParent = groupTasksByParent(tasks);
+  const taskTitles = new Map(tasks.map(t => [t.id, t.title]));
 
   const getTasksByStatus = (status: TaskStatus) => {
     return tasks.filter(task => task.status === status);
@@ -132,15 +137,28 @@ export const TaskKanbanView = ({
                                     <span className="font-medium text-sm line-clamp-2">
                                       {task.title}
                                     </span>
+                                    <TaskRecurrenceIcon task={task} />
                                   </div>
                                 </div>
 
+                                {task.parent_task_id && taskTitles.has(task.parent_task_id) && (
+                                  <div className="flex items-center gap-1 mb-2 text-xs text-muted-foreground">
+                                    <CornerDownRight className="h-3 w-3" />
+                                    <span className="truncate">{taskTitles.get(task.parent_task_id)}</span>
+                                  </div>
+                                )}
+
                                 {task.description && (
                                   <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
                                     {task.description}
                                   </p>
                                 )}
 
+                                <TaskProgressIndicator
+                                  progress={getTaskProgress(task, childTasksByParent.get(task.id))}
+                                  className="mb-2"
+                                />
+
                                 {/* Linked entity */}
                                 {linkedEntity && (
                                   <div className="flex items-center gap-1 mb-2 text-xs text-muted-foreground">
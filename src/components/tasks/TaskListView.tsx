@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { format, isPast, isToday } from 'date-fns';
 import { Task, TaskStatus, TaskModuleType } from '@/types/task';
 import { Card } from '@/components/ui/card';
@@ -32,9 +32,15 @@ import {
   Calendar,
   FileText,
   AlertCircle,
+  ChevronRight,
+  ChevronDown,
+  ListPlus,
 } from 'lucide-react';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
 import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { TaskRecurrenceIcon } from './TaskRecurrenceIcon';
+import { TaskProgressIndicator } from './TaskProgressIndicator';
+import { getTaskProgress, groupTasksByParent } from '@/utils/taskHierarchy';
 
 interface TaskListViewProps {
   tasks: Task[];
@@ -42,6 +48,7 @@ interface TaskListViewProps {
   onDelete: (taskId: string) => void;
   onStatusChange: (taskId: string, status: TaskStatus) => void;
   onToggleComplete: (task: Task) => void;
+  onAddSubtask?: (parent: Task) => void;
   initialStatusFilter?: string;
   initialOwnerFilter?: string;
 }
@@ -73,6 +80,7 @@ export const TaskListView = ({
   onDelete,
   onStatusChange,
   onToggleComplete,
+  onAddSubtask,
   initialStatusFilter = 'all',
   initialOwnerFilter = 'all',
 }: TaskListViewProps) => {
@@ -82,6 +90,7 @@ export const TaskListView = ({
   const [assignedToFilter, setAssignedToFilter] = useState<string>(initialOwnerFilter);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [taskToDelete, setTaskToDelete] = useState<Task | null>(null);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
 
   // Sync statusFilter when initialStatusFilter prop changes (from URL)
   useEffect(() => {
@@ -107,6 +116,36 @@ export const TaskListView = ({
     return matchesSearch && matchesStatus && matchesPriority && matchesAssignedTo;
   });
 
+  const childTasksByParent = useMemo(() => groupTasksByParent(tasks), [tasks]);
+
+  // Matching subtasks are nested under their parent when it matches too, otherwise listed at the top level
+  const visibleRows = (() => {
+    const filteredIds = new Set(filteredTasks.map(t => t.id));
+    const filteredChildren = groupTasksByParent(filteredTasks);
+    const rows: { task: Task; depth: number; hasChildren: boolean }[] = [];
+    const addRows = (task: Task, depth: number) => {
+      const children = filteredChildren.get(task.id) || [];
+      rows.push({ task, depth, hasChildren: children.length > 0 });
+      if (expandedIds.has(task.id)) children.forEach(child => addRows(child, depth + 1));
+    };
+    filteredTasks
+      .filter(task => !task.parent_task_id || !filteredIds.has(task.parent_task_id))
+      .forEach(task => addRows(task, 0));
+    return rows;
+  })();
+
+  const toggleExpanded = (taskId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
   const getDueDateInfo = (dueDate: string | null, status: string) => {
     if (!dueDate || status === 'completed' || status === 'cancelled') return { color: '', isOverdue: false, isDueToday: false };
     const date = new Date(dueDate);
@@ -221,7 +260,7 @@ export const TaskListView = ({
               <TableHead>Assigned To</TableHead>
               <TableHead>Linked To</TableHead>
               <TableHead>Task Owner</TableHead>
-              <TableHead className="w-20">Actions</TableHead>
+              <TableHead className="w-28">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -232,7 +271,7 @@ export const TaskListView = ({
                 </TableCell>
               </TableRow>
             ) : (
-              filteredTasks.map((task) => {
+              visibleRows.map(({ task, depth, hasChildren }) => {
                 const linkedEntity = getLinkedEntityDisplay(task);
                 const dueDateInfo = getDueDateInfo(task.due_date, task.status);
 
@@ -250,14 +289,32 @@ export const TaskListView = ({
                       />
                     </TableCell>
                     <TableCell>
-                      <button
-                        onClick={() => onEdit(task)}
-                        className={`font-medium hover:underline text-left ${
-                          task.status === 'completed' ? 'line-through text-muted-foreground' : ''
-                        }`}
-                      >
-                        {task.title}
-                      </button>
+                      <div className="flex items-center gap-1.5" style={{ paddingLeft: depth * 20 }}>
+                        {hasChildren ? (
+                          <button
+                            onClick={() => toggleExpanded(task.id)}
+                            className="text-muted-foreground hover:text-foreground"
+                            aria-label={expandedIds.has(task.id) ? 'Collapse subtasks' : 'Expand subtasks'}
+                          >
+                            {expandedIds.has(task.id) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </button>
+                        ) : (
+                          <span className="w-4 shrink-0" />
+                        )}
+                        <button
+                          onClick={() => onEdit(task)}
+                          className={`font-medium hover:underline text-left ${
+                            task.status === 'completed' ? 'line-through text-muted-foreground' : ''
+                          }`}
+                        >
+                          {task.title}
+                        </button>
+                        <TaskRecurrenceIcon task={task} />
+                        <TaskProgressIndicator
+                          progress={getTaskProgress(task, childTasksByParent.get(task.id))}
+                          className="ml-2"
+                        />
+                      </div>
                     </TableCell>
                     <TableCell>
                       <Badge className={statusColors[task.status]}>
@@ -315,6 +372,18 @@ export const TaskListView = ({
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-1">
+                        {onAddSubtask && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            onClick={() => onAddSubtask(task)}
+                            aria-label="Add subtask"
+                            title="Add subtask"
+                          >
+                            <ListPlus className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -4,7 +4,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import { Task, CreateTaskData, TaskStatus, TaskPriority, TaskModuleType, TaskModalContext } from '@/types/task';
+import { Task, CreateTaskData, TaskStatus, TaskPriority, TaskModuleType, TaskModalContext, RecurrenceEditScope, TaskSubtaskDraft, TaskUpdateData } from '@/types/task';
 import { format } from 'date-fns';
 import {
   Dialog,
@@ -23,6 +23,17 @@ import {
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import {
   Select,
   SelectContent,
@@ -31,6 +42,13 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Loader2 } from 'lucide-react';
+import { CustomFieldsSection } from '@/components/shared/CustomFieldsSection';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { CustomFieldValues, getCustomFieldValues, validateCustomFieldValues } from '@/types/customField';
+import { RecurrenceEditor, RecurrenceSettings } from './RecurrenceEditor';
+import { isRecurringTask, parseRecurrenceRule, serializeRecurrenceRule } from '@/utils/taskRecurrence';
+import { getDescendantIds } from '@/utils/taskHierarchy';
+import { TaskChecklist } from './TaskChecklist';
 
 const taskSchema = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -38,6 +56,7 @@ const taskSchema = z.object({
   status: z.enum(['open', 'in_progress', 'completed', 'cancelled']),
   priority: z.enum(['high', 'medium', 'low']),
   due_date: z.string().min(1, 'Due date is required'),
+  reminder_date: z.string().optional(),
   assigned_to: z.string().optional(),
   module_type: z.enum(['accounts', 'contacts', 'leads', 'meetings', 'deals']).optional(),
   account_id: z.string().optional(),
@@ -45,6 +64,8 @@ const taskSchema = z.object({
   lead_id: z.string().optional(),
   meeting_id: z.string().optional(),
   deal_id: z.string().optional(),
+  parent_task_id: z.string().optional(),
+  require_subtasks_complete: z.boolean(),
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
@@ -54,10 +75,18 @@ interface TaskModalProps {
   onOpenChange: (open: boolean) => void;
   task?: Task | null;
   onSubmit: (data: CreateTaskData) => Promise<any>;
-  onUpdate?: (taskId: string, data: Partial<Task>, originalTask?: Task) => Promise<boolean>;
+  onUpdate?: (taskId: string, data: TaskUpdateData, originalTask?: Task, scope?: RecurrenceEditScope) => Promise<boolean>;
   context?: TaskModalContext;
+  // Creates the new task as a child of this one
+  parentTask?: Task | null;
 }
 
+const getRecurrenceSettings = (task?: Task | null): RecurrenceSettings => ({
+  rule: parseRecurrenceRule(task?.recurrence),
+  endDate: task?.recurrence_end_date || '',
+  trigger: task?.recurrence_trigger || 'completion',
+});
+
 export const TaskModal = ({
   open,
   onOpenChange,
@@ -65,9 +94,17 @@ export const TaskModal = ({
   onSubmit,
   onUpdate,
   context,
+  parentTask,
 }: TaskModalProps) => {
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const { visibleFields: customFields } = useCustomFields('task');
+  const [recurrence, setRecurrence] = useState<RecurrenceSettings>(getRecurrenceSettings());
+  const [pendingUpdate, setPendingUpdate] = useState<CreateTaskData | null>(null);
+  const [checklist, setChecklist] = useState<TaskSubtaskDraft[]>([]);
+  const [parentOptions, setParentOptions] = useState<{ id: string; title: string; parent_task_id: string | null; status: string }[]>([]);
   const [users, setUsers] = useState<{ id: string; full_name: string }[]>([]);
   const [currentUserName, setCurrentUserName] = useState<string>('');
   const [accounts, setAccounts] = useState<{ id: string; company_name: string }[]>([]);
@@ -107,6 +144,7 @@ export const TaskModal = ({
       status: 'open',
       priority: 'medium',
       due_date: '',
+      reminder_date: '',
       assigned_to: '',
       module_type: undefined,
       account_id: '',
@@ -114,6 +152,8 @@ export const TaskModal = ({
       lead_id: '',
       meeting_id: '',
       deal_id: '',
+      parent_task_id: '',
+      require_subtasks_complete: false,
     },
   });
 
@@ -129,6 +169,7 @@ export const TaskModal = ({
           status: task.status,
           priority: task.priority,
           due_date: task.due_date || '',
+          reminder_date: task.reminder_date ? format(new Date(task.reminder_date), "yyyy-MM-dd'T'HH:mm") : '',
           assigned_to: task.assigned_to || '',
           module_type: task.module_type || undefined,
           account_id: task.account_id || '',
@@ -136,6 +177,27 @@ export const TaskModal = ({
           lead_id: task.lead_id || '',
           meeting_id: task.meeting_id || '',
           deal_id: task.deal_id || '',
+          parent_task_id: task.parent_task_id || '',
+          require_subtasks_complete: task.require_subtasks_complete,
+        });
+      } else if (parentTask && !context) {
+        // New subtasks start linked to the same record as their parent
+        form.reset({
+          title: '',
+          description: '',
+          status: 'open',
+          priority: parentTask.priority,
+          due_date: parentTask.due_date || '',
+          reminder_date: '',
+          assigned_to: parentTask.assigned_to || '',
+          module_type: parentTask.module_type || undefined,
+          account_id: parentTask.account_id || '',
+          contact_id: parentTask.contact_id || '',
+          lead_id: parentTask.lead_id || '',
+          meeting_id: parentTask.meeting_id || '',
+          deal_id: parentTask.deal_id || '',
+          parent_task_id: parentTask.id,
+          require_subtasks_complete: false,
         });
       } else {
         form.reset({
@@ -144,6 +206,7 @@ export const TaskModal = ({
           status: 'open',
           priority: 'medium',
           due_date: '',
+          reminder_date: '',
           assigned_to: '',
           module_type: context?.module || undefined,
           account_id: context?.module === 'accounts' ? context?.recordId : '',
@@ -151,19 +214,26 @@ export const TaskModal = ({
           lead_id: context?.module === 'leads' ? context?.recordId : '',
           meeting_id: context?.module === 'meetings' ? context?.recordId : '',
           deal_id: context?.module === 'deals' ? context?.recordId : '',
+          parent_task_id: parentTask?.id || '',
+          require_subtasks_complete: false,
         });
       }
+      setCustomFieldValues(getCustomFieldValues(task));
+      setCustomFieldErrors({});
+      setRecurrence(getRecurrenceSettings(task));
+      setChecklist((task?.subtasks || []).map(({ id, title, is_completed }) => ({ id, title, is_completed })));
     }
-  }, [open, task, form, context]);
+  }, [open, task, form, context, parentTask]);
 
   const fetchDropdownData = async () => {
-    const [usersRes, accountsRes, contactsRes, leadsRes, meetingsRes, dealsRes] = await Promise.all([
+    const [usersRes, accountsRes, contactsRes, leadsRes, meetingsRes, dealsRes, tasksRes] = await Promise.all([
       supabase.from('profiles').select('id, full_name'),
       supabase.from('accounts').select('id, company_name').order('company_name'),
       supabase.from('contacts').select('id, contact_name, account_id, accounts:account_id (company_name)').order('contact_name'),
       supabase.from('leads').select('id, lead_name, account_id, accounts:account_id (company_name)').order('lead_name'),
       supabase.from('meetings').select('id, subject, start_time').order('start_time', { ascending: false }).limit(100),
       supabase.from('deals').select('id, deal_name, stage').order('deal_name'),
+      supabase.from('tasks').select('id, title, parent_task_id, status').order('title'),
     ]);
 
     if (usersRes.data) setUsers(usersRes.data);
@@ -186,8 +256,17 @@ export const TaskModal = ({
     }
     if (meetingsRes.data) setMeetings(meetingsRes.data);
     if (dealsRes.data) setDeals(dealsRes.data);
+    if (tasksRes.data) setParentOptions(tasksRes.data);
   };
 
+  // A task cannot be nested under itself or one of its own subtasks
+  const excludedParentIds = task ? getDescendantIds(task.id, parentOptions) : new Set<string>();
+  const selectedParentId = form.watch('parent_task_id');
+  const availableParents = parentOptions.filter(option =>
+    !excludedParentIds.has(option.id) &&
+    (option.status === 'open' || option.status === 'in_progress' || option.id === selectedParentId)
+  );
+
   const handleModuleChange = (value: TaskModuleType) => {
     form.setValue('module_type', value);
     // Clear all module-specific fields
@@ -219,26 +298,20 @@ export const TaskModal = ({
     setSelectedDeal(deal || null);
   };
 
-  const handleSubmit = async (data: TaskFormData) => {
+  // Later occurrences of a series can be edited on their own or together with the ones that follow;
+  // a rule change always applies to the following occurrences
+  const isSeriesOccurrence = !!task?.recurrence_series_id && isRecurringTask(task);
+  const recurrenceChanged = !!task && (
+    serializeRecurrenceRule(recurrence.rule) !== serializeRecurrenceRule(parseRecurrenceRule(task.recurrence)) ||
+    recurrence.endDate !== (task.recurrence_end_date || '') ||
+    recurrence.trigger !== task.recurrence_trigger
+  );
+
+  const saveTask = async (taskData: CreateTaskData, scope: RecurrenceEditScope) => {
     setLoading(true);
     try {
-      const taskData: CreateTaskData = {
-        title: data.title,
-        description: data.description || undefined,
-        status: data.status as TaskStatus,
-        priority: data.priority as TaskPriority,
-        due_date: data.due_date,
-        assigned_to: data.assigned_to || undefined,
-        module_type: data.module_type as TaskModuleType | undefined,
-        account_id: data.account_id || undefined,
-        contact_id: data.contact_id || undefined,
-        lead_id: data.lead_id || undefined,
-        meeting_id: data.meeting_id || undefined,
-        deal_id: data.deal_id || undefined,
-      };
-
       if (task && onUpdate) {
-        await onUpdate(task.id, taskData, task);
+        await onUpdate(task.id, taskData, task, scope);
       } else {
         await onSubmit(taskData);
       }
@@ -248,6 +321,50 @@ export const TaskModal = ({
     }
   };
 
+  const handleSubmit = async (data: TaskFormData) => {
+    const fieldErrors = validateCustomFieldValues(customFields, customFieldValues);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
+    const taskData: CreateTaskData = {
+      title: data.title,
+      description: data.description || undefined,
+      status: data.status as TaskStatus,
+      priority: data.priority as TaskPriority,
+      due_date: data.due_date,
+      reminder_date: data.reminder_date ? new Date(data.reminder_date).toISOString() : null,
+      assigned_to: data.assigned_to || undefined,
+      module_type: data.module_type as TaskModuleType | undefined,
+      account_id: data.account_id || undefined,
+      contact_id: data.contact_id || undefined,
+      lead_id: data.lead_id || undefined,
+      meeting_id: data.meeting_id || undefined,
+      deal_id: data.deal_id || undefined,
+      recurrence: serializeRecurrenceRule(recurrence.rule),
+      recurrence_end_date: recurrence.rule && recurrence.endDate ? recurrence.endDate : null,
+      recurrence_trigger: recurrence.trigger,
+      parent_task_id: data.parent_task_id || null,
+      require_subtasks_complete: data.require_subtasks_complete,
+      custom_fields: customFieldValues,
+      subtasks: checklist
+        .map(item => ({ ...item, title: item.title.trim() }))
+        .filter(item => item.title),
+    };
+
+    if (isSeriesOccurrence) {
+      setPendingUpdate(taskData);
+      return;
+    }
+    await saveTask(taskData, task && isRecurringTask(task) ? 'future' : 'this');
+  };
+
+  const handleScopeSelect = async (scope: RecurrenceEditScope) => {
+    if (!pendingUpdate) return;
+    const taskData = pendingUpdate;
+    setPendingUpdate(null);
+    await saveTask(taskData, scope);
+  };
+
   const isModuleLocked = context?.locked && context?.module;
 
   return (
@@ -505,6 +622,53 @@ export const TaskModal = ({
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="parent_task_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Parent Task</FormLabel>
+                  <Select
+                    onValueChange={(val) => field.onChange(val === "__none__" ? "" : val)}
+                    value={field.value || "__none__"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select parent task" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="__none__">No parent</SelectItem>
+                      {availableParents.map(option => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reminder_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reminder</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <RecurrenceEditor
+              value={recurrence}
+              onChange={setRecurrence}
+              dueDate={form.watch('due_date')}
+            />
+
             {/* Status & Priority */}
             <div className="grid grid-cols-2 gap-4">
               <FormField
@@ -567,6 +731,30 @@ export const TaskModal = ({
               )}
             />
 
+            <TaskChecklist items={checklist} onChange={setChecklist} />
+
+            <FormField
+              control={form.control}
+              name="require_subtasks_complete"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">
+                    Require checklist items and subtasks to be done before this task can be completed
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <CustomFieldsSection
+              entityType="task"
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+              errors={customFieldErrors}
+            />
+
             {/* Created By (read-only) */}
             {user && (
               <FormItem>
@@ -587,6 +775,28 @@ export const TaskModal = ({
           </form>
         </Form>
       </DialogContent>
+
+      <AlertDialog open={!!pendingUpdate} onOpenChange={(isOpen) => !isOpen && setPendingUpdate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Edit recurring task</AlertDialogTitle>
+            <AlertDialogDescription>
+              {recurrenceChanged
+                ? 'Changing the repeat settings applies to this and all following occurrences.'
+                : 'Apply your changes to this occurrence only, or to this and all following occurrences?'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button variant="outline" disabled={recurrenceChanged} onClick={() => handleScopeSelect('this')}>
+              This occurrence
+            </Button>
+            <AlertDialogAction onClick={() => handleScopeSelect('future')}>
+              This and following
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Dialog>
   );
 };
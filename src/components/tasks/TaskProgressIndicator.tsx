@@ -0,0 +1,26 @@
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { TaskProgress } from '@/utils/taskHierarchy';
+
+interface TaskProgressIndicatorProps {
+  progress: TaskProgress;
+  className?: string;
+}
+
+// Rolled-up completion of a task's checklist and child tasks
+export const TaskProgressIndicator = ({ progress, className }: TaskProgressIndicatorProps) => {
+  if (progress.total === 0) return null;
+
+  const percent = Math.round((progress.completed / progress.total) * 100);
+  return (
+    <div
+      className={cn('flex items-center gap-1.5', className)}
+      title={`${progress.completed} of ${progress.total} subtasks done`}
+    >
+      <Progress value={percent} className="h-1.5 w-16" />
+      <span className="text-xs text-muted-foreground tabular-nums">
+        {progress.completed}/{progress.total}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import { Repeat } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Task } from '@/types/task';
+import { describeRecurrenceRule, parseRecurrenceRule } from '@/utils/taskRecurrence';
+
+interface TaskRecurrenceIconProps {
+  task: Task;
+  className?: string;
+}
+
+// Marks recurring tasks; hover shows the repeat rule
+export const TaskRecurrenceIcon = ({ task, className }: TaskRecurrenceIconProps) => {
+  const rule = parseRecurrenceRule(task.recurrence);
+  if (!rule) return null;
+
+  return (
+    <span title={describeRecurrenceRule(rule, task.recurrence_end_date)} className="inline-flex shrink-0">
+      <Repeat className={cn('h-3.5 w-3.5 text-muted-foreground', className)} />
+    </span>
+  );
+};
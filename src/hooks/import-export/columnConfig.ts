@@ -1,3 +1,5 @@
+import { DEAL_STAGES } from '@/types/deal';
+
 // Simplified interface for column configuration
 interface ColumnConfig {
   allowedColumns: string[];
@@ -132,6 +134,7 @@ export const getColumnConfig = (table: string): ColumnConfig => {
         'budget',
         'probability',
         'expected_closing_date',
+        'forecast_category',
         'is_recurring',
         'customer_challenges',
         'business_value',
@@ -162,7 +165,7 @@ export const getColumnConfig = (table: string): ColumnConfig => {
       ],
       required: ['deal_name', 'stage'],
       enums: {
-        stage: ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'],
+        stage: DEAL_STAGES,
         currency_type: ['EUR', 'USD', 'INR'],
         customer_challenges: ['Open', 'Ongoing', 'Done'],
         relationship_strength: ['Low', 'Medium', 'High'],
@@ -170,7 +173,8 @@ export const getColumnConfig = (table: string): ColumnConfig => {
         decision_maker_level: ['Open', 'Ongoing', 'Done'],
         is_recurring: ['Yes', 'No', 'Unclear'],
         rfq_status: ['Drafted', 'Submitted', 'Rejected', 'Accepted'],
-        handoff_status: ['Not Started', 'In Progress', 'Complete']
+        handoff_status: ['Not Started', 'In Progress', 'Complete'],
+        forecast_category: ['commit', 'best_case', 'pipeline', 'omitted']
       }
     }
   };
@@ -4,6 +4,7 @@ import { CSVParser } from '@/utils/csvParser';
 import { createHeaderMapper } from './headerMapper';
 import { createRecordValidator } from './recordValidator';
 import { createDuplicateChecker } from './duplicateChecker';
+import { fetchPipelineStages } from '@/hooks/usePipelineStages';
 
 export interface ProcessingOptions {
   tableName: string;
@@ -44,6 +45,12 @@ export class CSVProcessor {
         throw new Error('No data rows found in CSV');
       }
 
+      // Deal stages are validated against the configured pipeline
+      if (this.tableName === 'deals') {
+        const stages = await fetchPipelineStages();
+        this.recordValidator = createRecordValidator(this.tableName, stages.map(s => s.stage_name));
+      }
+
       // Map headers to database columns
       const columnMap: Record<string, string> = {};
       headers.forEach(header => {
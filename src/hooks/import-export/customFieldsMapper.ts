@@ -0,0 +1,87 @@
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import {
+  CUSTOM_FIELD_ENTITIES,
+  CustomFieldDefinition,
+  CustomFieldValues,
+  formatCustomFieldValue,
+  getCustomFieldValues,
+  parseCustomFieldValue,
+  toCustomFieldColumn,
+} from '@/types/customField';
+
+export interface CustomFieldsReadResult {
+  values: CustomFieldValues;
+  errors: string[];
+}
+
+// Maps custom field columns in CSV files. Exports write `cf_<field_name>` headers;
+// imports also accept the field label so hand-made files can use readable headers.
+export const createCustomFieldsMapper = (fields: CustomFieldDefinition[]) => {
+  const byHeader = new Map<string, CustomFieldDefinition>();
+  fields.forEach(field => {
+    byHeader.set(toCustomFieldColumn(field.field_name).toLowerCase(), field);
+  });
+  fields.forEach(field => {
+    const label = field.field_label.trim().toLowerCase();
+    if (!byHeader.has(label)) byHeader.set(label, field);
+  });
+
+  // Headers already claimed by a built-in column are left alone
+  const mapHeaders = (headers: string[], isStandardHeader: (header: string) => boolean = () => false) => {
+    const headerMap: Record<string, CustomFieldDefinition> = {};
+    headers.forEach(header => {
+      if (isStandardHeader(header)) return;
+      const field = byHeader.get(header.trim().toLowerCase());
+      if (field) headerMap[header] = field;
+    });
+    return headerMap;
+  };
+
+  // Blank cells are skipped so an import never clears existing values
+  const readValues = (
+    rowObj: Record<string, unknown>,
+    headerMap: Record<string, CustomFieldDefinition>
+  ): CustomFieldsReadResult => {
+    const values: CustomFieldValues = {};
+    const errors: string[] = [];
+
+    Object.entries(headerMap).forEach(([header, field]) => {
+      const raw = rowObj[header];
+      if (raw === undefined || raw === null || String(raw).trim() === '') return;
+
+      const parsed = parseCustomFieldValue(field, String(raw));
+      if (parsed.error) {
+        errors.push(parsed.error);
+      } else {
+        values[field.field_name] = parsed.value;
+      }
+    });
+
+    return { values, errors };
+  };
+
+  const exportHeaders = fields.map(field => toCustomFieldColumn(field.field_name));
+
+  const toExportValues = (record: { custom_fields?: unknown }): Record<string, string> => {
+    const values = getCustomFieldValues(record);
+    const exported: Record<string, string> = {};
+    fields.forEach(field => {
+      exported[toCustomFieldColumn(field.field_name)] = formatCustomFieldValue(field, values[field.field_name]);
+    });
+    return exported;
+  };
+
+  return { fields, mapHeaders, readValues, exportHeaders, toExportValues };
+};
+
+export type CustomFieldsMapper = ReturnType<typeof createCustomFieldsMapper>;
+
+export const fetchCustomFieldsForTable = async (tableName: string): Promise<CustomFieldDefinition[]> => {
+  const entity = CUSTOM_FIELD_ENTITIES.find(e => e.table === tableName);
+  return entity ? fetchCustomFields(entity.value) : [];
+};
+
+export const mergeCustomFieldValues = (existing: unknown, imported: CustomFieldValues): CustomFieldValues => ({
+  ...getCustomFieldValues({ custom_fields: existing }),
+  ...imported,
+});
@@ -1,9 +1,11 @@
 
 import { GenericCSVExporter } from './genericCSVExporter';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchCustomFieldsForTable } from './customFieldsMapper';
+import { ExportRecord, buildRecordsSheet, exportXlsx } from './xlsxExporter';
 
 // Exact field order as specified, including action items
-const DEALS_EXPORT_FIELDS = [
+export const DEALS_EXPORT_FIELDS = [
   'id', 'deal_name', 'stage', 'probability', 'drop_reason', 'created_by', 'modified_by', 
   'created_at', 'modified_at', 'lead_name', 'lead_owner', 'project_name', 'customer_name', 
   'region', 'priority', 'internal_comment', 'expected_closing_date', 'customer_need', 
@@ -30,8 +32,27 @@ export class DealsCSVExporter {
       throw new Error('No deals to export');
     }
 
+    const dealsWithActionItems = await this.withActionItems(deals);
+    const customFields = await fetchCustomFieldsForTable('deals');
+    await this.genericExporter.exportToCSV(dealsWithActionItems, filename, DEALS_EXPORT_FIELDS, customFields);
+    console.log('DealsCSVExporter: Export completed successfully with YYYY-MM-DD date format');
+  }
+
+  // Same columns as the CSV export, with typed dates and amounts in each deal's currency
+  async exportToXlsx(deals: ExportRecord[], filename: string) {
+    if (!deals || deals.length === 0) {
+      throw new Error('No deals to export');
+    }
+
+    const dealsWithActionItems = await this.withActionItems(deals);
+    const customFields = await fetchCustomFieldsForTable('deals');
+    const sheet = await buildRecordsSheet('Deals', dealsWithActionItems, DEALS_EXPORT_FIELDS, customFields);
+    await exportXlsx([sheet], filename);
+  }
+
+  private async withActionItems(deals: ExportRecord[]) {
     // Fetch action items for all deals
-    const dealIds = deals.map(deal => deal.id);
+    const dealIds = deals.map(deal => String(deal.id));
     const { data: actionItems, error: actionItemsError } = await supabase
       .from('deal_action_items')
       .select('*')
@@ -50,15 +71,12 @@ export class DealsCSVExporter {
       }
       acc[item.deal_id].push(item);
       return acc;
-    }, {} as Record<string, any[]>);
+    }, {} as Record<string, unknown[]>);
 
     // Combine deals with their action items and ensure date format consistency
-    const dealsWithActionItems = deals.map(deal => ({
+    return deals.map(deal => ({
       ...deal,
-      action_items_json: JSON.stringify(actionItemsByDeal[deal.id] || [])
+      action_items_json: JSON.stringify(actionItemsByDeal[String(deal.id)] || [])
     }));
-
-    await this.genericExporter.exportToCSV(dealsWithActionItems, filename, DEALS_EXPORT_FIELDS);
-    console.log('DealsCSVExporter: Export completed successfully with YYYY-MM-DD date format');
   }
 }
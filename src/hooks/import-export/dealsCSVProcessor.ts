@@ -1,69 +1,102 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { readCSVBatches } from '@/utils/csvParser';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { fetchPipelineStages } from '@/hooks/usePipelineStages';
+import { PipelineStage, getStageProbability, resolveStageName } from '@/types/deal';
+import { CustomFieldDefinition } from '@/types/customField';
+import { CustomFieldsMapper, createCustomFieldsMapper, fetchCustomFieldsForTable } from './customFieldsMapper';
+import { DEALS_EXPORT_FIELDS } from './dealsCSVExporter';
+import { ImportJobRecorder } from './importJobs';
+import { ImportMatchOptions, buildImportUpdate, getDefaultMatchOptions, matchImportRow, pickImportedValues } from './importMerge';
 
 export interface DealsProcessingOptions {
   userId: string;
   onProgress?: (processed: number, total: number) => void;
+  // Receives the outcome of every row when the import is tracked as a job
+  job?: ImportJobRecorder;
+  // Defaults to creating new deals and updating those with the same deal name
+  match?: ImportMatchOptions;
 }
 
 export interface DealsProcessingResult {
   successCount: number;
   updateCount: number;
+  skippedCount: number;
   errorCount: number;
   errors: string[];
 }
 
 export class DealsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private stages: PipelineStage[] = [];
+  private customFieldsMapper: CustomFieldsMapper = createCustomFieldsMapper([]);
+  private customHeaderMap: Record<string, CustomFieldDefinition> = {};
 
-  async processCSV(csvText: string, options: DealsProcessingOptions): Promise<DealsProcessingResult> {
+  // Accepts a File so large imports are read and processed in batches instead of held in memory
+  async processCSV(input: File | string, options: DealsProcessingOptions): Promise<DealsProcessingResult> {
     console.log('DealsCSVProcessor: Starting processing with standardized YYYY-MM-DD date format');
     
     try {
-      const { headers, rows } = CSVParser.parseCSV(csvText);
-      console.log(`DealsCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
-
-      if (rows.length === 0) {
-        throw new Error('No data rows found in CSV');
-      }
-
-      // Collect user names from CSV for user fields
-      const userNames = UserNameUtils.extractUserNames(rows, headers, ['created_by', 'modified_by', 'lead_owner']);
-      this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
-      console.log('DealsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
-
       const result: DealsProcessingResult = {
         successCount: 0,
         updateCount: 0,
+        skippedCount: 0,
         errorCount: 0,
         errors: []
       };
 
-      // Process rows in batches
+      let processed = 0;
+      let userIdsLoaded = false;
       const batchSize = 20;
-      for (let i = 0; i < rows.length; i += batchSize) {
-        const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, options, i);
+      for await (const batch of readCSVBatches(input, batchSize)) {
+        const { headers, rows } = batch;
+
+        if (processed === 0) {
+          console.log('DealsCSVProcessor: Reading rows with headers:', headers);
+          this.stages = await fetchPipelineStages();
+
+          // Custom field columns, for headers that aren't built-in deal fields
+          this.customFieldsMapper = createCustomFieldsMapper(await fetchCustomFieldsForTable('deals'));
+          this.customHeaderMap = this.customFieldsMapper.mapHeaders(headers, header => DEALS_EXPORT_FIELDS.includes(header));
+          await options.job?.setHeaders(headers);
+        }
+
+        // Profiles are fetched once, for the first batch that names a user
+        if (!userIdsLoaded) {
+          const userNames = UserNameUtils.extractUserNames(rows, headers, ['created_by', 'modified_by', 'lead_owner']);
+          if (userNames.length > 0) {
+            this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
+            userIdsLoaded = true;
+            console.log('DealsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
+          }
+        }
+
+        const batchResult = await this.processBatch(rows, headers, options, processed);
+        processed += rows.length;
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
+        result.skippedCount += batchResult.skippedCount;
         result.errorCount += batchResult.errorCount;
         result.errors.push(...batchResult.errors);
 
         if (options.onProgress) {
-          options.onProgress(Math.min(i + batchSize, rows.length), rows.length);
+          options.onProgress(processed, batch.estimatedTotalRows);
         }
       }
 
+      if (processed === 0) {
+        throw new Error('No data rows found in CSV');
+      }
+
       console.log('DealsCSVProcessor: Processing complete:', result);
       return result;
 
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error('DealsCSVProcessor: Processing failed:', error);
-      throw new Error(`CSV processing failed: ${error.message}`);
+      throw new Error(`CSV processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -77,13 +110,24 @@ export class DealsCSVProcessor {
     const result: DealsProcessingResult = {
       successCount: 0,
       updateCount: 0,
+      skippedCount: 0,
       errorCount: 0,
       errors: []
     };
+    const match = options.match || getDefaultMatchOptions('deals');
 
     for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
       const row = rows[rowIndex];
       const actualRowNumber = batchOffset + rowIndex + 2; // +2 for header and 1-based indexing
+      const fail = async (message: string) => {
+        result.errorCount++;
+        result.errors.push(`Row ${actualRowNumber}: ${message}`);
+        await options.job?.failed(actualRowNumber, message, row);
+      };
+      const skip = async (message: string, recordId?: string) => {
+        result.skippedCount++;
+        await options.job?.skipped(actualRowNumber, message, recordId);
+      };
       
       try {
         // Convert row to object
@@ -95,10 +139,9 @@ export class DealsCSVProcessor {
         });
 
         // Validate date formats before processing
-        const dateValidationError = this.validateDateFormats(rowObj, actualRowNumber);
+        const dateValidationError = this.validateDateFormats(rowObj);
         if (dateValidationError) {
-          result.errorCount++;
-          result.errors.push(dateValidationError);
+          await fail(dateValidationError);
           continue;
         }
 
@@ -118,47 +161,75 @@ export class DealsCSVProcessor {
 
         // Validate required fields - ensure deal_name is present and not empty
         if (!dealRecord.deal_name || dealRecord.deal_name.trim() === '') {
-          result.errorCount++;
-          result.errors.push(`Row ${actualRowNumber}: Deal name is required and cannot be empty`);
+          await fail('Deal name is required and cannot be empty');
           console.error(`Row ${actualRowNumber}: Missing or empty deal_name:`, rowObj);
           continue;
         }
 
-        // Check for existing deal by name
-        const { data: existingDeals } = await supabase
-          .from('deals')
-          .select('id')
-          .eq('deal_name', dealRecord.deal_name)
-          .limit(1);
+        // Stage must match a configured pipeline stage
+        const stageError = this.applyStage(dealRecord, rowObj);
+        if (stageError) {
+          await fail(stageError);
+          continue;
+        }
 
-        let dealId: string;
+        const customFields = this.customFieldsMapper.readValues(rowObj, this.customHeaderMap);
+        if (customFields.errors.length > 0) {
+          await fail(customFields.errors.join('; '));
+          continue;
+        }
+        const hasCustomValues = Object.keys(customFields.values).length > 0;
+
+        // The deal name may have come from a fallback column, so it is matched as prepared
+        const matched = await matchImportRow(
+          'deals',
+          match,
+          match.matchKey === 'deal_name' ? dealRecord.deal_name : rowObj[match.matchKey]
+        );
+        if (matched.action === 'fail') {
+          await fail(matched.message);
+          continue;
+        }
+        if (matched.action === 'skip') {
+          await skip(matched.message, matched.existing?.id);
+          continue;
+        }
 
-        if (existingDeals && existingDeals.length > 0) {
-          // Update existing deal
-          dealId = existingDeals[0].id;
-          const { error: updateError } = await supabase
-            .from('deals')
-            .update(dealRecord)
-            .eq('id', dealId);
+        let dealId: string;
 
-          if (updateError) {
-            result.errorCount++;
-            result.errors.push(`Row ${actualRowNumber}: Update failed - ${updateError.message}`);
-            continue;
+        if (matched.action === 'update') {
+          // The whole record is kept so a tracked import can restore it
+          const existingDeal = matched.existing;
+          dealId = existingDeal.id;
+          const update = buildImportUpdate(existingDeal, pickImportedValues(dealRecord, rowObj), customFields.values, match.fieldPolicies);
+
+          if (update.changes.length === 0) {
+            await skip('No changes', dealId);
+          } else {
+            const { error: updateError } = await supabase
+              .from('deals')
+              .update({ modified_by: options.userId, ...update.values })
+              .eq('id', dealId);
+
+            if (updateError) {
+              await fail(`Update failed - ${updateError.message}`);
+              continue;
+            }
+            result.updateCount++;
+            await options.job?.updated(actualRowNumber, dealId, existingDeal);
           }
-          result.updateCount++;
         } else {
           // Insert new deal
           const dealToInsert = {
             deal_name: dealRecord.deal_name,
-            stage: dealRecord.stage || 'Lead',
+            stage: dealRecord.stage || this.getDefaultStage(),
             project_name: dealRecord.project_name,
             customer_name: dealRecord.customer_name,
             lead_name: dealRecord.lead_name,
             lead_owner: dealRecord.lead_owner,
             region: dealRecord.region,
             priority: dealRecord.priority,
-            probability: dealRecord.probability,
+            probability: dealRecord.probability ?? getStageProbability(dealRecord.stage || this.getDefaultStage(), this.stages),
             internal_comment: dealRecord.internal_comment,
             expected_closing_date: dealRecord.expected_closing_date,
             customer_need: dealRecord.customer_need,
@@ -194,7 +265,8 @@ export class DealsCSVProcessor {
             created_by: dealRecord.created_by,
             modified_by: dealRecord.modified_by,
             created_at: dealRecord.created_at,
-            modified_at: dealRecord.modified_at
+            modified_at: dealRecord.modified_at,
+            custom_fields: hasCustomValues ? customFields.values : undefined
           };
 
           const { data: insertedDeal, error: insertError } = await supabase
@@ -204,12 +276,12 @@ export class DealsCSVProcessor {
             .single();
 
           if (insertError) {
-            result.errorCount++;
-            result.errors.push(`Row ${actualRowNumber}: Insert failed - ${insertError.message}`);
+            await fail(`Insert failed - ${insertError.message}`);
             continue;
           }
           dealId = insertedDeal.id;
           result.successCount++;
+          await options.job?.inserted(actualRowNumber, dealId);
         }
 
         // Process action items if any
@@ -217,16 +289,35 @@ export class DealsCSVProcessor {
           await this.processActionItems(dealId, actionItemsData, options.userId);
         }
 
-      } catch (error: any) {
-        result.errorCount++;
-        result.errors.push(`Row ${actualRowNumber}: Processing error - ${error.message}`);
+      } catch (error: unknown) {
+        await fail(`Processing error - ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
 
     return result;
   }
 
-  private validateDateFormats(rowObj: Record<string, any>, rowNumber: number): string | null {
+  private getDefaultStage(): string {
+    return this.stages.find(s => s.is_active)?.stage_name || this.stages[0]?.stage_name || 'Lead';
+  }
+
+  private applyStage(dealRecord: Record<string, unknown>, rowObj: Record<string, unknown>): string | null {
+    if (!rowObj.stage || String(rowObj.stage).trim() === '') {
+      delete dealRecord.stage;
+      return null;
+    }
+
+    const stageName = resolveStageName(String(rowObj.stage), this.stages);
+    if (!stageName) {
+      const validStages = this.stages.map(s => s.stage_name).join(', ');
+      return `Invalid stage '${rowObj.stage}'. Valid stages: ${validStages}`;
+    }
+
+    dealRecord.stage = stageName;
+    return null;
+  }
+
+  private validateDateFormats(rowObj: Record<string, any>): string | null {
     const dateFields = [
       'expected_closing_date', 'start_date', 'end_date', 
       'signed_contract_date', 'implementation_start_date', 
@@ -237,7 +328,7 @@ export class DealsCSVProcessor {
       if (rowObj[field] && rowObj[field].trim() !== '') {
         const convertedDate = DateFormatUtils.convertDateForImport(rowObj[field]);
         if (convertedDate === null) {
-          return `Row ${rowNumber}: Invalid date format in field '${field}': '${rowObj[field]}'. Please use YYYY-MM-DD format.`;
+          return `Invalid date format in field '${field}': '${rowObj[field]}'. Please use YYYY-MM-DD format.`;
         }
       }
     }
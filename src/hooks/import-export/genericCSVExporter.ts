@@ -2,10 +2,12 @@
 import { downloadCSV } from '@/utils/csvUtils';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomFieldDefinition } from '@/types/customField';
+import { createCustomFieldsMapper } from './customFieldsMapper';
 
 export class GenericCSVExporter {
   
-  async exportToCSV(data: any[], filename: string, fieldsOrder: string[]) {
+  async exportToCSV(data: any[], filename: string, fieldsOrder: string[], customFields: CustomFieldDefinition[] = []) {
     console.log(`GenericCSVExporter: Starting export of ${data.length} records`);
     
     if (!data || data.length === 0) {
@@ -17,12 +19,20 @@ export class GenericCSVExporter {
     const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
     console.log('GenericCSVExporter: Fetched display names for', Object.keys(userNameMap).length, 'users');
 
+    // Custom field columns follow the built-in fields
+    const customFieldsMapper = createCustomFieldsMapper(customFields);
+
     // Create CSV header row - exact field order
-    const headers = fieldsOrder;
+    const headers = [...fieldsOrder, ...customFieldsMapper.exportHeaders];
 
     // Convert data to CSV rows with proper formatting
     const csvRows = data.map((record, index) => {
-      return fieldsOrder.map(field => {
+      const customValues = customFieldsMapper.toExportValues(record);
+      return headers.map(field => {
+        if (field in customValues) {
+          return customValues[field];
+        }
+
         let value = record[field];
         
         // Format ID (shortened)
@@ -1,44 +1,66 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { readCSVBatches } from '@/utils/csvParser';
 import { createHeaderMapper } from './headerMapper';
-import { createRecordValidator } from './recordValidator';
-import { createDuplicateChecker } from './duplicateChecker';
+import { createRecordErrorsValidator } from './recordValidator';
 import { LeadsCSVProcessor } from './leadsCSVProcessor';
+import { ImportJobRecorder } from './importJobs';
+import { ImportEntity } from './importMapping';
+import {
+  ExistingRecord,
+  ImportMatchOptions,
+  buildImportUpdate,
+  findExistingRecords,
+  normalizeMatchValue,
+  pickImportedValues,
+  resolveImportAction,
+} from './importMerge';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { fetchPipelineStages } from '@/hooks/usePipelineStages';
+import { CustomFieldsMapper, createCustomFieldsMapper, fetchCustomFieldsForTable } from './customFieldsMapper';
+import { CustomFieldDefinition } from '@/types/customField';
 
 export interface ProcessingOptions {
-  tableName: string;
+  tableName: ImportEntity;
   userId: string;
   onProgress?: (processed: number, total: number) => void;
+  // Receives the outcome of every row when the import is tracked as a job
+  job?: ImportJobRecorder;
+  // Defaults to creating new records and updating those whose id is in the file
+  match?: ImportMatchOptions;
 }
 
 export interface ProcessingResult {
   successCount: number;
   updateCount: number;
+  // Rows left alone by the import mode, including matched rows that change nothing
   duplicateCount: number;
   errorCount: number;
   errors: string[];
 }
 
 export class GenericCSVProcessor {
-  async processCSV(csvText: string, options: ProcessingOptions): Promise<ProcessingResult> {
+  // Accepts a File so large imports are read and processed in batches instead of held in memory
+  async processCSV(input: File | string, options: ProcessingOptions): Promise<ProcessingResult> {
     console.log(`GenericCSVProcessor: Starting processing for table ${options.tableName}`);
     
     // Use specialized processor for leads
     if (options.tableName === 'leads') {
       const leadsProcessor = new LeadsCSVProcessor();
-      const result = await leadsProcessor.processCSV(csvText, {
+      const result = await leadsProcessor.processCSV(input, {
         userId: options.userId,
-        onProgress: options.onProgress
+        onProgress: options.onProgress,
+        job: options.job,
+        match: options.match
       });
       
       // Convert LeadsProcessingResult to ProcessingResult format
       return {
         successCount: result.successCount,
         updateCount: result.updateCount,
-        duplicateCount: 0, // Not used in leads processor
+        duplicateCount: result.skippedCount,
         errorCount: result.errorCount,
         errors: result.errors
       };
@@ -46,30 +68,6 @@ export class GenericCSVProcessor {
 
     
     try {
-      // Parse CSV
-      const { headers, rows } = CSVParser.parseCSV(csvText);
-      console.log(`GenericCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
-
-      if (rows.length === 0) {
-        throw new Error('No data rows found in CSV');
-      }
-
-      // Map headers to database columns
-      const headerMapper = createHeaderMapper(options.tableName);
-      const columnMap: Record<string, string> = {};
-      headers.forEach(header => {
-        const mappedColumn = headerMapper(header);
-        if (mappedColumn) {
-          columnMap[header] = mappedColumn;
-        }
-      });
-      console.log('GenericCSVProcessor: Column mapping:', columnMap);
-
-      // Collect user names from CSV for user fields
-      const userNames = UserNameUtils.extractUserNames(rows, headers, UserNameUtils.USER_FIELDS);
-      const userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
-      console.log('GenericCSVProcessor: Fetched user IDs for', Object.keys(userIdMap).length, 'users');
-
       const result: ProcessingResult = {
         successCount: 0,
         updateCount: 0,
@@ -78,11 +76,55 @@ export class GenericCSVProcessor {
         errors: []
       };
 
-      // Process rows in batches
+      const columnMap: Record<string, string> = {};
+      let customFieldsMapper: CustomFieldsMapper = createCustomFieldsMapper([]);
+      let customHeaderMap: Record<string, CustomFieldDefinition> = {};
+      let userIdMap: Record<string, string> = {};
+      let stageNames: string[] | undefined;
+      let userIdsLoaded = false;
+      let processed = 0;
+
+      // Process rows in batches as they are read
       const batchSize = 50;
-      for (let i = 0; i < rows.length; i += batchSize) {
-        const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, columnMap, options, userIdMap);
+      for await (const batch of readCSVBatches(input, batchSize)) {
+        const { headers, rows } = batch;
+
+        if (processed === 0) {
+          console.log('GenericCSVProcessor: Reading rows with headers:', headers);
+
+          // Map headers to database columns
+          const headerMapper = createHeaderMapper(options.tableName);
+          headers.forEach(header => {
+            const mappedColumn = headerMapper(header);
+            if (mappedColumn) {
+              columnMap[header] = mappedColumn;
+            }
+          });
+          console.log('GenericCSVProcessor: Column mapping:', columnMap);
+
+          // Custom field columns, for headers not claimed by a built-in column
+          customFieldsMapper = createCustomFieldsMapper(await fetchCustomFieldsForTable(options.tableName));
+          customHeaderMap = customFieldsMapper.mapHeaders(headers, header => !!columnMap[header]);
+
+          // Deal stages are validated against the configured pipeline
+          stageNames = options.tableName === 'deals'
+            ? (await fetchPipelineStages()).map(s => s.stage_name)
+            : undefined;
+          await options.job?.setHeaders(headers);
+        }
+
+        // Profiles are fetched once, for the first batch that names a user
+        if (!userIdsLoaded) {
+          const userNames = UserNameUtils.extractUserNames(rows, headers, UserNameUtils.USER_FIELDS);
+          if (userNames.length > 0) {
+            userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
+            userIdsLoaded = true;
+            console.log('GenericCSVProcessor: Fetched user IDs for', Object.keys(userIdMap).length, 'users');
+          }
+        }
+
+        const batchResult = await this.processBatch(rows, headers, columnMap, options, userIdMap, processed, stageNames, customFieldsMapper, customHeaderMap);
+        processed += rows.length;
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
@@ -92,16 +134,20 @@ export class GenericCSVProcessor {
 
         // Report progress
         if (options.onProgress) {
-          options.onProgress(Math.min(i + batchSize, rows.length), rows.length);
+          options.onProgress(processed, batch.estimatedTotalRows);
         }
       }
 
+      if (processed === 0) {
+        throw new Error('No data rows found in CSV');
+      }
+
       console.log('GenericCSVProcessor: Processing complete:', result);
       return result;
 
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error('GenericCSVProcessor: Processing failed:', error);
-      throw new Error(`CSV processing failed: ${error.message}`);
+      throw new Error(`CSV processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -110,10 +156,14 @@ export class GenericCSVProcessor {
     headers: string[],
     columnMap: Record<string, string>,
     options: ProcessingOptions,
-    userIdMap: Record<string, string>
+    userIdMap: Record<string, string>,
+    batchOffset: number,
+    stageNames?: string[],
+    customFieldsMapper?: CustomFieldsMapper,
+    customHeaderMap: Record<string, CustomFieldDefinition> = {}
   ): Promise<ProcessingResult> {
     
-    const recordValidator = createRecordValidator(options.tableName);
+    const findRecordErrors = createRecordErrorsValidator(options.tableName, stageNames);
     
     const result: ProcessingResult = {
       successCount: 0,
@@ -122,66 +172,95 @@ export class GenericCSVProcessor {
       errorCount: 0,
       errors: []
     };
+    const match: ImportMatchOptions = options.match || { mode: 'upsert', matchKey: 'id', fieldPolicies: {} };
+    const records = rows.map(row => this.readRow(row, headers, columnMap, options, userIdMap));
+
+    // Custom field keys are read from their cf_ columns
+    const keys = records.map(({ rowObj, rawByHeader }) =>
+      normalizeMatchValue(match.matchKey, rowObj[match.matchKey] ?? rawByHeader[match.matchKey])
+    );
+
+    // Matches are looked up once per batch and kept current as rows are processed, so a key repeated in
+    // the file updates the record created by its first row
+    let existingByKey: Map<string, ExistingRecord[]>;
+    try {
+      existingByKey = await findExistingRecords(options.tableName, match.matchKey, keys);
+    } catch (error: unknown) {
+      const message = `Failed to match existing records: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+        const rowNumber = batchOffset + rowIndex + 2;
+        result.errorCount++;
+        result.errors.push(`Row ${rowNumber}: ${message}`);
+        await options.job?.failed(rowNumber, message, rows[rowIndex]);
+      }
+      return result;
+    }
+
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+      const row = rows[rowIndex];
+      const rowNumber = batchOffset + rowIndex + 2; // +2 for header and 1-based indexing
+      const fail = async (message: string) => {
+        result.errorCount++;
+        result.errors.push(`Row ${rowNumber}: ${message}`);
+        await options.job?.failed(rowNumber, message, row);
+      };
+      const skip = async (message: string, recordId?: string) => {
+        result.duplicateCount++;
+        await options.job?.skipped(rowNumber, message, recordId);
+      };
 
-    for (const row of rows) {
       try {
-        // Convert row to object
-        const rowObj: Record<string, any> = {};
-        headers.forEach((header, index) => {
-          const dbColumn = columnMap[header];
-          if (dbColumn && row[index] !== undefined) {
-            let value = row[index];
-            
-            // Convert display name to UUID for user fields
-            if (UserNameUtils.isUserField(dbColumn) && value) {
-              value = UserNameUtils.resolveUserId(value, userIdMap, options.userId);
-            }
-            
-            // Apply date formatting if needed
-            const processedValue = DateFormatUtils.processFieldForImport(dbColumn, value);
-            rowObj[dbColumn] = processedValue;
-          }
-        });
+        const { rowObj, rawByHeader, rawByColumn } = records[rowIndex];
+        const key = keys[rowIndex];
 
         // Validate record
-        const isValid = recordValidator(rowObj);
-        if (!isValid) {
-          result.errorCount++;
-          result.errors.push(`Row validation failed for record`);
+        const recordErrors = findRecordErrors(rowObj);
+        if (recordErrors.length > 0) {
+          await fail(recordErrors.join('; '));
           continue;
         }
 
-        // Check if record exists by ID (if ID is provided)
-        let existingRecord = null;
-        if (rowObj.id) {
-          const { data: existing } = await supabase
-            .from(options.tableName as any)
-            .select('id')
-            .eq('id', rowObj.id)
-            .single();
-          
-          existingRecord = existing;
+        // Read custom field values keyed by their original headers
+        const customFields = customFieldsMapper
+          ? customFieldsMapper.readValues(rawByHeader, customHeaderMap)
+          : { values: {}, errors: [] };
+        if (customFields.errors.length > 0) {
+          await fail(customFields.errors.join('; '));
+          continue;
         }
+        const hasCustomValues = Object.keys(customFields.values).length > 0;
+
+        const matched = resolveImportAction(match, key, key ? existingByKey.get(key) || [] : []);
+        if (matched.action === 'fail') {
+          await fail(matched.message);
+          continue;
+        }
+        if (matched.action === 'skip') {
+          await skip(matched.message, matched.existing?.id);
+          continue;
+        }
+
+        if (matched.action === 'update') {
+          const existingRecord = matched.existing;
+          const { id, ...imported } = pickImportedValues(rowObj, rawByColumn);
+          const update = buildImportUpdate(existingRecord, imported, customFields.values, match.fieldPolicies);
+
+          if (update.changes.length === 0) {
+            await skip('No changes', existingRecord.id);
+            continue;
+          }
 
-        if (existingRecord) {
-          // Update existing record
-          const updateData = { ...rowObj };
-          updateData.modified_by = options.userId;
-          updateData.modified_time = new Date().toISOString();
-          
-          // Remove id from update data to avoid conflicts
-          delete updateData.id;
-          
           const { error: updateError } = await supabase
-            .from(options.tableName as any)
-            .update(updateData)
+            .from(options.tableName)
+            .update({ ...update.values, modified_by: options.userId, modified_time: new Date().toISOString() })
             .eq('id', existingRecord.id);
 
           if (updateError) {
-            result.errorCount++;
-            result.errors.push(`Update failed: ${updateError.message}`);
+            await fail(`Update failed: ${updateError.message}`);
           } else {
             result.updateCount++;
+            await options.job?.updated(rowNumber, existingRecord.id, existingRecord);
+            existingByKey.set(key, [{ ...existingRecord, ...update.values }]);
             console.log('Record updated successfully:', existingRecord.id);
           }
         } else {
@@ -195,26 +274,65 @@ export class GenericCSVProcessor {
             delete insertData.id;
           }
 
-          const { error: insertError } = await supabase
-            .from(options.tableName as any)
-            .insert([insertData]);
+          if (hasCustomValues) {
+            insertData.custom_fields = customFields.values;
+          }
+
+          const { data: inserted, error: insertError } = await supabase
+            .from(options.tableName)
+            .insert([insertData as TablesInsert<ImportEntity>])
+            .select('*')
+            .single();
 
           if (insertError) {
-            result.errorCount++;
-            result.errors.push(`Insert failed: ${insertError.message}`);
+            await fail(`Insert failed: ${insertError.message}`);
           } else {
+            const insertedRecord = inserted as unknown as ExistingRecord;
             result.successCount++;
+            await options.job?.inserted(rowNumber, insertedRecord.id);
+            if (key) existingByKey.set(key, [insertedRecord]);
             console.log('New record inserted successfully');
           }
         }
 
-      } catch (error: any) {
-        result.errorCount++;
-        result.errors.push(`Row processing error: ${error.message}`);
+      } catch (error: unknown) {
+        await fail(`Row processing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
         console.error('Row processing error:', error);
       }
     }
 
     return result;
   }
+
+  // The row's values by database column, converted for import (user names to ids, formatted dates), along
+  // with the values as read, by header and by column
+  private readRow(
+    row: string[],
+    headers: string[],
+    columnMap: Record<string, string>,
+    options: ProcessingOptions,
+    userIdMap: Record<string, string>
+  ) {
+    const rowObj: Record<string, any> = {};
+    const rawByHeader: Record<string, string> = {};
+    const rawByColumn: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      rawByHeader[header] = row[index];
+      const dbColumn = columnMap[header];
+      if (dbColumn && row[index] !== undefined) {
+        let value = row[index];
+        rawByColumn[dbColumn] = value;
+
+        // Convert display name to UUID for user fields
+        if (UserNameUtils.isUserField(dbColumn) && value) {
+          value = UserNameUtils.resolveUserId(value, userIdMap, options.userId);
+        }
+
+        // Apply date formatting if needed
+        const processedValue = DateFormatUtils.processFieldForImport(dbColumn, value);
+        rowObj[dbColumn] = processedValue;
+      }
+    });
+    return { rowObj, rawByHeader, rawByColumn };
+  }
 }
@@ -0,0 +1,207 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { CSVParser } from '@/utils/csvParser';
+import { chunkIds, fetchInBatches } from '@/utils/tableQuery';
+import { ImportEntity } from './importMapping';
+
+export type ImportJob = Tables<'import_jobs'>;
+export type ImportJobStatus = 'running' | 'completed' | 'failed' | 'rolled_back' | 'rollback_partial';
+
+export const IMPORT_ERROR_COLUMN = 'import_error';
+
+const ROW_BATCH_SIZE = 200;
+
+// Records the outcome of every imported row against an import job. Rows are written in batches, and
+// a job that can't be recorded is logged without stopping the import itself.
+export class ImportJobRecorder {
+  private pending: TablesInsert<'import_job_rows'>[] = [];
+  private counts = { total: 0, inserted: 0, updated: 0, skipped: 0, failed: 0 };
+  private finished = false;
+
+  private constructor(readonly jobId: string | null) {}
+
+  static async start(entity: ImportEntity, fileName: string, userId: string): Promise<ImportJobRecorder> {
+    const { data, error } = await supabase
+      .from('import_jobs')
+      .insert({ entity_type: entity, file_name: fileName, created_by: userId })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('ImportJobRecorder: Failed to create import job:', error);
+    }
+    return new ImportJobRecorder(data?.id ?? null);
+  }
+
+  async setHeaders(headers: string[]) {
+    if (!this.jobId) return;
+    const { error } = await supabase.from('import_jobs').update({ headers }).eq('id', this.jobId);
+    if (error) console.error('ImportJobRecorder: Failed to save headers:', error);
+  }
+
+  async inserted(rowNumber: number, recordId: string) {
+    this.counts.inserted++;
+    await this.record({ row_number: rowNumber, status: 'inserted', record_id: recordId });
+  }
+
+  // previous is the full record as it was before the update, so rollback can restore it
+  async updated(rowNumber: number, recordId: string, previous: unknown) {
+    this.counts.updated++;
+    await this.record({
+      row_number: rowNumber,
+      status: 'updated',
+      record_id: recordId,
+      previous_data: previous as Json,
+    });
+  }
+
+  // A valid row left alone by the import mode, e.g. an existing record when only creating
+  async skipped(rowNumber: number, message: string, recordId?: string) {
+    this.counts.skipped++;
+    await this.record({ row_number: rowNumber, status: 'skipped', record_id: recordId ?? null, message });
+  }
+
+  async failed(rowNumber: number, message: string, values: string[]) {
+    this.counts.failed++;
+    await this.record({ row_number: rowNumber, status: 'failed', message, row_data: values });
+  }
+
+  // Only the first call counts, so an error raised after a finished import doesn't mark it failed
+  async finish(status: Extract<ImportJobStatus, 'completed' | 'failed'> = 'completed') {
+    if (!this.jobId || this.finished) return;
+    this.finished = true;
+    await this.flush();
+
+    const { error } = await supabase
+      .from('import_jobs')
+      .update({
+        status,
+        total_rows: this.counts.total,
+        inserted_count: this.counts.inserted,
+        updated_count: this.counts.updated,
+        skipped_count: this.counts.skipped,
+        error_count: this.counts.failed,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', this.jobId);
+    if (error) console.error('ImportJobRecorder: Failed to complete import job:', error);
+  }
+
+  private async record(row: Omit<TablesInsert<'import_job_rows'>, 'job_id'>) {
+    this.counts.total++;
+    if (!this.jobId) return;
+    this.pending.push({ ...row, job_id: this.jobId });
+    if (this.pending.length >= ROW_BATCH_SIZE) await this.flush();
+  }
+
+  private async flush() {
+    if (!this.jobId || this.pending.length === 0) return;
+    const rows = this.pending;
+    this.pending = [];
+    const { error } = await supabase.from('import_job_rows').insert(rows);
+    if (error) console.error('ImportJobRecorder: Failed to record import rows:', error);
+  }
+}
+
+// The failed rows as they were read, with the reason in a trailing column, ready to fix and re-import
+export const buildImportErrorReport = async (job: ImportJob): Promise<string> => {
+  const rows = await fetchInBatches((from, to) =>
+    supabase
+      .from('import_job_rows')
+      .select('row_number, message, row_data')
+      .eq('job_id', job.id)
+      .eq('status', 'failed')
+      .order('row_number', { ascending: true })
+      .range(from, to)
+  );
+
+  const headers = [...job.headers, IMPORT_ERROR_COLUMN];
+  const lines = rows.map(row => {
+    const values = Array.isArray(row.row_data) ? row.row_data.map(value => String(value ?? '')) : [];
+    const padded = job.headers.map((_, index) => values[index] ?? '');
+    return [...padded, `Row ${row.row_number}: ${row.message || 'Failed'}`];
+  });
+
+  return [headers, ...lines]
+    .map(line => line.map(value => CSVParser.escapeCSVField(value)).join(','))
+    .join('\n');
+};
+
+export interface ImportRollbackResult {
+  deleted: number;
+  reverted: number;
+  failed: number;
+}
+
+// Deletes the records a job inserted and restores the ones it updated to their values from before the
+// import. Records changed again since then are overwritten too. A rollback that leaves records behind
+// marks the job rollback_partial, and running it again only retries what is left.
+export const rollbackImportJob = async (job: ImportJob, userId: string): Promise<ImportRollbackResult> => {
+  const table = job.entity_type as ImportEntity;
+  const rows = await fetchInBatches((from, to) =>
+    supabase
+      .from('import_job_rows')
+      .select('status, record_id, previous_data')
+      .eq('job_id', job.id)
+      .in('status', ['inserted', 'updated'])
+      .order('row_number', { ascending: true })
+      .range(from, to)
+  );
+
+  const result: ImportRollbackResult = { deleted: 0, reverted: 0, failed: 0 };
+
+  const insertedIds = rows
+    .filter(row => row.status === 'inserted' && row.record_id)
+    .map(row => row.record_id as string);
+  for (const ids of chunkIds(insertedIds)) {
+    const { data, error } = await supabase.from(table).delete().in('id', ids).select('id');
+    if (error) console.error('rollbackImportJob: Delete failed:', error);
+    result.deleted += data?.length ?? 0;
+    if ((data?.length ?? 0) === ids.length) continue;
+
+    // Records already gone, e.g. deleted by an earlier partial rollback, count as deleted. Only the
+    // ones still there, not deletable by this user, count as failed.
+    const { data: remaining, error: remainingError } = await supabase.from(table).select('id').in('id', ids);
+    if (remainingError) {
+      console.error('rollbackImportJob: Failed to check undeleted records:', remainingError);
+      result.failed += ids.length - (data?.length ?? 0);
+      continue;
+    }
+    result.deleted += ids.length - (data?.length ?? 0) - remaining.length;
+    result.failed += remaining.length;
+  }
+
+  // A record updated by several rows goes back to its state before the first of them
+  const inserted = new Set(insertedIds);
+  const restored = new Set<string>();
+  for (const row of rows) {
+    if (row.status !== 'updated' || !row.record_id || inserted.has(row.record_id) || restored.has(row.record_id)) continue;
+    restored.add(row.record_id);
+
+    const previous = row.previous_data;
+    if (!previous || typeof previous !== 'object' || Array.isArray(previous)) {
+      result.failed++;
+      continue;
+    }
+    const { id, ...values } = previous;
+    const { error } = await supabase.from(table).update(values).eq('id', row.record_id);
+    if (error) {
+      console.error('rollbackImportJob: Restore failed for', row.record_id, error);
+      result.failed++;
+    } else {
+      result.reverted++;
+    }
+  }
+
+  const { error } = await supabase
+    .from('import_jobs')
+    .update({
+      status: result.failed > 0 ? 'rollback_partial' : 'rolled_back',
+      rolled_back_at: new Date().toISOString(),
+      rolled_back_by: userId,
+    })
+    .eq('id', job.id);
+  if (error) throw error;
+
+  return result;
+};
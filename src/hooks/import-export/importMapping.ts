@@ -0,0 +1,153 @@
+import { CustomFieldDefinition, toCustomFieldColumn } from '@/types/customField';
+import { DateFormatUtils } from '@/utils/dateFormatUtils';
+import { ACCOUNT_CSV_FIELDS } from '@/hooks/useAccountsImportExport';
+import { createHeaderMapper } from './headerMapper';
+import { getColumnConfig } from './columnConfig';
+import { createCustomFieldsMapper } from './customFieldsMapper';
+import { DEALS_EXPORT_FIELDS } from './dealsCSVExporter';
+import { ImportMatchOptions } from './importMerge';
+import { LEAD_CSV_FIELDS } from './leadsCSVProcessor';
+
+export type ImportEntity = 'deals' | 'leads' | 'contacts' | 'accounts';
+
+export type ImportTransform = 'none' | 'trim' | 'uppercase' | 'lowercase' | 'titlecase' | 'date';
+
+export const IMPORT_TRANSFORMS: { value: ImportTransform; label: string }[] = [
+  { value: 'none', label: 'As is' },
+  { value: 'trim', label: 'Collapse spaces' },
+  { value: 'uppercase', label: 'UPPERCASE' },
+  { value: 'lowercase', label: 'lowercase' },
+  { value: 'titlecase', label: 'Title Case' },
+  { value: 'date', label: 'Date (YYYY-MM-DD)' },
+];
+
+// A null field means the column is deliberately left out of the import
+export interface ColumnMapping {
+  field: string | null;
+  transform: ImportTransform;
+}
+
+// Stored per user and entity in import_export_settings; mappings are keyed by the file's header text
+export interface ImportMappingProfile {
+  fieldMappings: Record<string, ColumnMapping>;
+  defaultValues: Record<string, string>;
+  matchOptions?: ImportMatchOptions;
+}
+
+// The columns each entity's CSV processor reads, which the wizard writes as canonical headers
+export const IMPORT_ENTITY_FIELDS: Record<ImportEntity, { fields: string[]; required: string[] }> = {
+  deals: {
+    fields: DEALS_EXPORT_FIELDS,
+    required: getColumnConfig('deals').required,
+  },
+  leads: {
+    // name, contact_name and full_name are only accepted as aliases of lead_name
+    fields: LEAD_CSV_FIELDS.filter(field => !['name', 'contact_name', 'full_name'].includes(field)),
+    required: ['lead_name'],
+  },
+  contacts: {
+    fields: getColumnConfig('contacts').allowedColumns,
+    required: getColumnConfig('contacts').required,
+  },
+  accounts: {
+    fields: ACCOUNT_CSV_FIELDS,
+    required: ['company_name'],
+  },
+};
+
+export const formatFieldLabel = (field: string) =>
+  field.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Saved mappings win; otherwise exact column names, the entity's header aliases and custom fields are tried in turn
+export const suggestColumnMappings = (
+  entity: ImportEntity,
+  headers: string[],
+  customFields: CustomFieldDefinition[],
+  profile?: ImportMappingProfile | null
+): Record<string, ColumnMapping> => {
+  const { fields } = IMPORT_ENTITY_FIELDS[entity];
+  const mapHeader = createHeaderMapper(entity);
+  const customHeaderMap = createCustomFieldsMapper(customFields).mapHeaders(headers);
+
+  const mappings: Record<string, ColumnMapping> = {};
+  headers.forEach(header => {
+    const saved = profile?.fieldMappings[header];
+    if (saved) {
+      mappings[header] = saved;
+      return;
+    }
+
+    const direct = fields.find(field => field === normalizeHeader(header));
+    const aliased = mapHeader(header);
+    const customField = customHeaderMap[header];
+    const field = direct
+      || (aliased && fields.includes(aliased) ? aliased : null)
+      || (customField ? toCustomFieldColumn(customField.field_name) : null);
+    mappings[header] = { field, transform: 'none' };
+  });
+  return mappings;
+};
+
+export const applyImportTransform = (value: string, transform: ImportTransform): string => {
+  if (!value) return value;
+  switch (transform) {
+    case 'trim':
+      return value.replace(/\s+/g, ' ').trim();
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'titlecase':
+      return value.toLowerCase().replace(/(^|[\s-])(\S)/g, (_, separator, char) => separator + char.toUpperCase());
+    case 'date':
+      // Unparseable dates are passed through so the processor reports them against the row
+      return DateFormatUtils.convertDateForImport(value) ?? value;
+    default:
+      return value;
+  }
+};
+
+export const getMappedFields = (mappings: Record<string, ColumnMapping>, defaultValues: Record<string, string>) => {
+  const fields = Object.values(mappings)
+    .map(mapping => mapping.field)
+    .filter((field): field is string => !!field);
+  return [...new Set([...fields, ...Object.keys(defaultValues)])];
+};
+
+// Rewrites parsed rows under the mapped field names. When several columns feed one field the first
+// non-blank value wins, and default values fill fields that are still blank.
+export const applyImportMapping = (
+  headers: string[],
+  rows: string[][],
+  mappings: Record<string, ColumnMapping>,
+  defaultValues: Record<string, string>
+): { headers: string[]; records: Record<string, string>[] } => {
+  const mappedHeaders = getMappedFields(mappings, defaultValues);
+
+  const records = rows.map(row => {
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      const mapping = mappings[header];
+      if (!mapping?.field || record[mapping.field]) return;
+      const value = applyImportTransform(row[index] ?? '', mapping.transform);
+      if (value) record[mapping.field] = value;
+    });
+    Object.entries(defaultValues).forEach(([field, value]) => {
+      if (!record[field] && value) record[field] = value;
+    });
+    return record;
+  });
+
+  return { headers: mappedHeaders, records };
+};
+
+export const getUnmappedRequiredFields = (
+  entity: ImportEntity,
+  mappings: Record<string, ColumnMapping>,
+  defaultValues: Record<string, string>
+) => {
+  const mapped = getMappedFields(mappings, defaultValues);
+  return IMPORT_ENTITY_FIELDS[entity].required.filter(field => !mapped.includes(field));
+};
@@ -0,0 +1,351 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CustomFieldDefinition,
+  CustomFieldValues,
+  getCustomFieldName,
+  getCustomFieldValues,
+  isCustomFieldColumn,
+  parseCustomFieldValue,
+  toCustomFieldColumn,
+} from '@/types/customField';
+import { UserNameUtils } from '@/utils/userNameUtils';
+import { anyOf, applyTableFilters, chunkIds, eqIgnoreCase, inList } from '@/utils/tableQuery';
+import { ImportEntity, formatFieldLabel } from './importMapping';
+
+export type ImportMode = 'create' | 'update' | 'upsert';
+export type ImportMergePolicy = 'overwrite' | 'fill_empty' | 'keep' | 'append';
+
+export const IMPORT_MODES: { value: ImportMode; label: string; description: string }[] = [
+  { value: 'upsert', label: 'Create and update', description: 'Update the records rows match and create the rest' },
+  { value: 'update', label: 'Update existing only', description: 'Update the records rows match and skip rows without a match' },
+  { value: 'create', label: 'Create new only', description: 'Create records for rows without a match and skip the rest' },
+];
+
+export const IMPORT_MERGE_POLICIES: { value: ImportMergePolicy; label: string }[] = [
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'fill_empty', label: 'Fill if empty' },
+  { value: 'keep', label: 'Keep existing' },
+  { value: 'append', label: 'Append' },
+];
+
+// How rows are matched to existing records and how a matched record is changed. Policies are keyed by
+// field (cf_<name> for custom fields) and fields without one are overwritten.
+export interface ImportMatchOptions {
+  mode: ImportMode;
+  matchKey: string;
+  fieldPolicies: Record<string, ImportMergePolicy>;
+}
+
+// The keys each import matched on before modes existed
+const DEFAULT_MATCH_KEYS: Record<ImportEntity, string> = {
+  deals: 'deal_name',
+  leads: 'id',
+  contacts: 'id',
+  accounts: 'company_name',
+};
+
+// Columns stored as lists, which can be appended to instead of replaced
+const LIST_FIELDS: Record<ImportEntity, string[]> = {
+  deals: [],
+  leads: [],
+  contacts: [],
+  accounts: ['tags'],
+};
+
+export const getDefaultMatchOptions = (entity: ImportEntity): ImportMatchOptions => ({
+  mode: 'upsert',
+  matchKey: DEFAULT_MATCH_KEYS[entity],
+  fieldPolicies: {},
+});
+
+export const canAppendField = (entity: ImportEntity, field: string, customFields: CustomFieldDefinition[]) => {
+  if (!isCustomFieldColumn(field)) return LIST_FIELDS[entity].includes(field);
+  const customField = customFields.find(f => f.field_name === getCustomFieldName(field));
+  return customField?.field_type === 'multiselect';
+};
+
+export type ImportValues = Record<string, unknown>;
+export type ExistingRecord = ImportValues & { id: string };
+
+export interface ImportFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Keys people type in varying case, which match regardless of it
+const CASE_INSENSITIVE_MATCH_KEYS = ['email'];
+
+// Keeps the case-insensitive lookups' request URLs as short as an id batch
+const CASE_INSENSITIVE_BATCH_SIZE = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isBlank = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+const toList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (isBlank(value)) return [];
+  return String(value).split(/[;,]/).map(item => item.trim()).filter(Boolean);
+};
+
+// File values are text, so numbers and dates are compared by value rather than by type
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (isBlank(a) || isBlank(b)) return isBlank(a) && isBlank(b);
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const listA = toList(a);
+    const listB = toList(b);
+    return listA.length === listB.length && listA.every((item, index) => item === listB[index]);
+  }
+
+  const textA = String(a).trim();
+  const textB = String(b).trim();
+  if (textA === textB) return true;
+  if (!isNaN(Number(textA)) && !isNaN(Number(textB))) return Number(textA) === Number(textB);
+
+  // A YYYY-MM-DD date matches a stored timestamp on the same day
+  const isDate = (text: string) => /^\d{4}-\d{2}-\d{2}$/.test(text);
+  return (isDate(textA) && textB.startsWith(textA)) || (isDate(textB) && textA.startsWith(textB));
+};
+
+const mergeFieldValue = (policy: ImportMergePolicy, current: unknown, incoming: unknown): unknown => {
+  switch (policy) {
+    case 'keep':
+      return undefined;
+    case 'fill_empty':
+      return isBlank(current) ? incoming : undefined;
+    case 'append': {
+      // Only lists can be appended to; anything else is overwritten
+      if (!Array.isArray(current) && !Array.isArray(incoming)) return incoming;
+      const merged = toList(current);
+      toList(incoming).forEach(item => {
+        if (!merged.includes(item)) merged.push(item);
+      });
+      return merged;
+    }
+    default:
+      return incoming;
+  }
+};
+
+// Applies the merge policies to the values imported for an existing record and returns only the values
+// that change it. Blank imported values never clear a field.
+export const mergeImportedValues = (
+  existing: ImportValues,
+  incoming: ImportValues,
+  policies: Record<string, ImportMergePolicy>
+): { values: ImportValues; changes: ImportFieldChange[] } => {
+  const values: ImportValues = {};
+  const changes: ImportFieldChange[] = [];
+
+  Object.entries(incoming).forEach(([field, value]) => {
+    if (isBlank(value)) return;
+    const current = existing[field];
+    const next = mergeFieldValue(policies[field] || 'overwrite', current, value);
+    if (next === undefined || isSameValue(current, next)) return;
+    values[field] = next;
+    changes.push({ field, from: current, to: next });
+  });
+
+  return { values, changes };
+};
+
+// The update for a matched record: built-in columns as given, custom fields merged into the existing
+// custom_fields object under their cf_ policies
+export const buildImportUpdate = (
+  existing: ExistingRecord,
+  imported: ImportValues,
+  customValues: CustomFieldValues,
+  policies: Record<string, ImportMergePolicy>
+): { values: ImportValues; changes: ImportFieldChange[] } => {
+  const fields = mergeImportedValues(existing, imported, policies);
+
+  const currentCustom = getCustomFieldValues({ custom_fields: existing.custom_fields });
+  const prefixed = (values: CustomFieldValues) =>
+    Object.fromEntries(Object.entries(values).map(([name, value]) => [toCustomFieldColumn(name), value]));
+  const custom = mergeImportedValues(prefixed(currentCustom), prefixed(customValues), policies);
+  if (custom.changes.length === 0) return fields;
+
+  const customFields = { ...currentCustom };
+  Object.entries(custom.values).forEach(([column, value]) => {
+    customFields[getCustomFieldName(column)] = value as CustomFieldValues[string];
+  });
+  return {
+    values: { ...fields.values, custom_fields: customFields },
+    changes: [...fields.changes, ...custom.changes],
+  };
+};
+
+// The prepared record's values for the columns the file filled in, so defaults meant for new records
+// (created_by, a default stage) don't overwrite existing ones
+export const pickImportedValues = (record: ImportValues, row: ImportValues): ImportValues =>
+  Object.fromEntries(Object.entries(record).filter(([field]) => !isBlank(row[field])));
+
+const getRecordValue = (record: ImportValues, matchKey: string) =>
+  isCustomFieldColumn(matchKey)
+    ? getCustomFieldValues({ custom_fields: record.custom_fields })[getCustomFieldName(matchKey)]
+    : record[matchKey];
+
+// The form of a match key value that records are looked up and grouped by: trimmed, and lower case for
+// keys that match regardless of case
+export const normalizeMatchValue = (matchKey: string, value: unknown): string => {
+  if (isBlank(value)) return '';
+  const text = String(value).trim();
+  return CASE_INSENSITIVE_MATCH_KEYS.includes(matchKey) ? text.toLowerCase() : text;
+};
+
+// Existing records for a set of match key values, grouped by their normalized value. Ids that aren't
+// UUIDs can't match.
+export const findExistingRecords = async (
+  entity: ImportEntity,
+  matchKey: string,
+  values: string[]
+): Promise<Map<string, ExistingRecord[]>> => {
+  const keys = [...new Set(values.map(value => normalizeMatchValue(matchKey, value)).filter(Boolean))]
+    .filter(value => matchKey !== 'id' || UUID_PATTERN.test(value));
+  const ignoreCase = CASE_INSENSITIVE_MATCH_KEYS.includes(matchKey);
+
+  const matches = new Map<string, ExistingRecord[]>();
+  for (const chunk of chunkIds(keys, ignoreCase ? CASE_INSENSITIVE_BATCH_SIZE : undefined)) {
+    const filter = ignoreCase ? anyOf(chunk.map(key => eqIgnoreCase(matchKey, key))) : inList(matchKey, chunk);
+    const { data, error } = await applyTableFilters(supabase.from(entity).select('*'), [filter]);
+    if (error) throw error;
+
+    ((data || []) as unknown as ExistingRecord[]).forEach(record => {
+      const key = normalizeMatchValue(matchKey, getRecordValue(record, matchKey));
+      matches.set(key, [...(matches.get(key) || []), record]);
+    });
+  }
+  return matches;
+};
+
+export const formatMatchKey = (matchKey: string) =>
+  isCustomFieldColumn(matchKey) ? formatFieldLabel(getCustomFieldName(matchKey)) : formatFieldLabel(matchKey);
+
+export type ImportRowAction =
+  | { action: 'insert' }
+  | { action: 'update'; existing: ExistingRecord }
+  | { action: 'skip'; message: string; existing?: ExistingRecord }
+  | { action: 'fail'; message: string };
+
+// Decides what the import mode does with a row, given the records its key value matches
+export const resolveImportAction = (
+  match: ImportMatchOptions,
+  keyValue: string,
+  existing: ExistingRecord[]
+): ImportRowAction => {
+  const keyLabel = formatMatchKey(match.matchKey);
+  if (existing.length > 1) {
+    return { action: 'fail', message: `${existing.length} records match ${keyLabel} '${keyValue}'` };
+  }
+  if (existing.length === 1) {
+    return match.mode === 'create'
+      ? { action: 'skip', message: `A record with ${keyLabel} '${keyValue}' already exists`, existing: existing[0] }
+      : { action: 'update', existing: existing[0] };
+  }
+  if (match.mode === 'update') {
+    return {
+      action: 'skip',
+      message: keyValue ? `No record with ${keyLabel} '${keyValue}'` : `No ${keyLabel} to match on`,
+    };
+  }
+  return { action: 'insert' };
+};
+
+// Looks up the record one row matches. Rows are matched as they are processed, so a key repeated in the
+// file updates the record created by its first row.
+export const matchImportRow = async (
+  entity: ImportEntity,
+  match: ImportMatchOptions,
+  keyValue: unknown
+): Promise<ImportRowAction> => {
+  const key = normalizeMatchValue(match.matchKey, keyValue);
+  const existing = key ? (await findExistingRecords(entity, match.matchKey, [key])).get(key) || [] : [];
+  return resolveImportAction(match, key, existing);
+};
+
+export type ImportPreviewAction = 'insert' | 'update' | 'unchanged' | 'skip' | 'fail';
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  key: string;
+  action: ImportPreviewAction;
+  message?: string;
+  changes: ImportFieldChange[];
+}
+
+const PREVIEW_USER_FIELDS = ['account_owner', 'contact_owner', 'lead_owner', 'created_by', 'modified_by'];
+
+// What importing the mapped rows would do to existing records. Values are compared as text after the
+// conversions the processors make that change how a value reads (user names, custom fields, lists), so
+// the result is a close estimate rather than a dry run; validation errors still surface at import time.
+export const buildImportPreview = async (
+  entity: ImportEntity,
+  records: Record<string, string>[],
+  match: ImportMatchOptions,
+  customFields: CustomFieldDefinition[]
+): Promise<ImportPreviewRow[]> => {
+  const keyOf = (record: Record<string, string>) => normalizeMatchValue(match.matchKey, record[match.matchKey]);
+  const existing = await findExistingRecords(entity, match.matchKey, records.map(keyOf));
+
+  const userNames = records.flatMap(record => PREVIEW_USER_FIELDS.map(field => record[field]).filter(Boolean));
+  const userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
+
+  // Keys created by earlier rows, which later rows with the same key update
+  const createdBy = new Map<string, number>();
+
+  const rows = records.map((record, index): ImportPreviewRow => {
+    const rowNumber = index + 2;
+    const key = keyOf(record);
+    const matches = existing.get(key) || [];
+
+    if (matches.length === 0 && key && createdBy.has(key) && match.mode !== 'create') {
+      return {
+        rowNumber, key, action: 'update', changes: [],
+        message: `Updates the record created by row ${createdBy.get(key)}`,
+      };
+    }
+
+    const resolved = resolveImportAction(match, key, matches);
+    if (resolved.action === 'insert') {
+      if (key) createdBy.set(key, rowNumber);
+      return { rowNumber, key, action: 'insert', changes: [] };
+    }
+    if (resolved.action !== 'update') {
+      return { rowNumber, key, action: resolved.action, message: resolved.message, changes: [] };
+    }
+
+    const imported: ImportValues = {};
+    const customValues: CustomFieldValues = {};
+    Object.entries(record).forEach(([field, value]) => {
+      if (field === 'id') return;
+      if (isCustomFieldColumn(field)) {
+        const customField = customFields.find(f => f.field_name === getCustomFieldName(field));
+        if (customField) customValues[customField.field_name] = parseCustomFieldValue(customField, value).value;
+        return;
+      }
+      imported[field] = PREVIEW_USER_FIELDS.includes(field)
+        ? UserNameUtils.resolveUserId(value, userIdMap, value)
+        : LIST_FIELDS[entity].includes(field) ? toList(value) : value;
+    });
+
+    const { changes } = buildImportUpdate(resolved.existing, imported, customValues, match.fieldPolicies);
+    return { rowNumber, key, action: changes.length > 0 ? 'update' : 'unchanged', changes };
+  });
+
+  // User fields are compared as ids and shown by name
+  const userChanges = rows.flatMap(row => row.changes.filter(change => PREVIEW_USER_FIELDS.includes(change.field)));
+  const userNameMap = await UserNameUtils.fetchUserDisplayNames(
+    userChanges.flatMap(change => [change.from, change.to]).filter((value): value is string => typeof value === 'string')
+  );
+  userChanges.forEach(change => {
+    change.from = userNameMap[String(change.from)] ?? change.from;
+    change.to = userNameMap[String(change.to)] ?? change.to;
+  });
+
+  return rows;
+};
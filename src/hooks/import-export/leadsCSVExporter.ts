@@ -1,43 +1,48 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { createCustomFieldsMapper, fetchCustomFieldsForTable } from './customFieldsMapper';
+import { ExportRecord, buildRecordsSheet, exportXlsx } from './xlsxExporter';
+
+// Define the exact field order as required
+const LEADS_EXPORT_FIELDS = [
+  'id',
+  'lead_name', 
+  'company_name',
+  'position',
+  'email',
+  'phone_no',
+  'linkedin',
+  'website',
+  'contact_source',
+  'lead_status',
+  'industry',
+  'country',
+  'description',
+  'contact_owner',
+  'created_by',
+  'modified_by',
+  'created_time',
+  'modified_time',
+  'action_items_json'
+];
 
 export class LeadsCSVExporter {
   async exportLeads(leads: any[]): Promise<string> {
     console.log('LeadsCSVExporter: Starting export of', leads.length, 'leads');
     
-    // Define the exact field order as required
-    const fieldOrder = [
-      'id',
-      'lead_name', 
-      'company_name',
-      'position',
-      'email',
-      'phone_no',
-      'linkedin',
-      'website',
-      'contact_source',
-      'lead_status',
-      'industry',
-      'country',
-      'description',
-      'contact_owner',
-      'created_by',
-      'modified_by',
-      'created_time',
-      'modified_time',
-      'action_items_json'
-    ];
-
     // Fetch user display names for all user fields
     const userIds = UserNameUtils.extractUserIds(leads, ['contact_owner', 'created_by', 'modified_by']);
     const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
     console.log('LeadsCSVExporter: Fetched display names for', Object.keys(userNameMap).length, 'users');
 
+    // Custom field columns follow the built-in fields
+    const customFieldsMapper = createCustomFieldsMapper(await fetchCustomFieldsForTable('leads'));
+
     const csvRows = [];
     
     // Add headers in exact order
-    csvRows.push(fieldOrder.join(','));
+    csvRows.push([...LEADS_EXPORT_FIELDS, ...customFieldsMapper.exportHeaders].join(','));
 
     // Process each lead
     for (const lead of leads) {
@@ -58,7 +63,7 @@ export class LeadsCSVExporter {
       }
 
       // Create row with values in exact field order
-      const rowValues = fieldOrder.map(field => {
+      const rowValues = LEADS_EXPORT_FIELDS.map(field => {
         let value;
         
         if (field === 'action_items_json') {
@@ -91,6 +96,11 @@ export class LeadsCSVExporter {
         return this.escapeCSVValue(String(value));
       });
 
+      const customValues = customFieldsMapper.toExportValues(lead);
+      customFieldsMapper.exportHeaders.forEach(header => {
+        rowValues.push(this.escapeCSVValue(customValues[header]));
+      });
+
       csvRows.push(rowValues.join(','));
     }
 
@@ -99,6 +109,33 @@ export class LeadsCSVExporter {
     return csvContent;
   }
 
+  // Same columns as the CSV export, with the action items read in one query
+  async exportToXlsx(leads: ExportRecord[], filename: string) {
+    const { data: actionItems, error } = await supabase
+      .from('lead_action_items')
+      .select('*')
+      .in('lead_id', leads.map(lead => String(lead.id)))
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.warn('Failed to fetch action items for leads', error);
+    }
+
+    const itemsByLead = (actionItems || []).reduce((acc, item) => {
+      (acc[item.lead_id] ||= []).push(item);
+      return acc;
+    }, {} as Record<string, unknown[]>);
+
+    const leadsWithActionItems = leads.map(lead => ({
+      ...lead,
+      action_items_json: itemsByLead[String(lead.id)] ? JSON.stringify(itemsByLead[String(lead.id)]) : '',
+    }));
+
+    const customFields = await fetchCustomFieldsForTable('leads');
+    const sheet = await buildRecordsSheet('Leads', leadsWithActionItems, LEADS_EXPORT_FIELDS, customFields);
+    await exportXlsx([sheet], filename);
+  }
+
   private escapeCSVValue(value: string): string {
     if (value.includes(',') || value.includes('"') || value.includes('\n')) {
       return `"${value.replace(/"/g, '""')}"`;
@@ -1,63 +1,107 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { readCSVBatches } from '@/utils/csvParser';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomFieldDefinition } from '@/types/customField';
+import { ImportJobRecorder } from './importJobs';
+import { CustomFieldsMapper, createCustomFieldsMapper, fetchCustomFieldsForTable } from './customFieldsMapper';
+import { ImportMatchOptions, buildImportUpdate, getDefaultMatchOptions, matchImportRow, pickImportedValues } from './importMerge';
+import { chunkIds } from '@/utils/tableQuery';
+
+// Headers read directly by prepareLead and the action items handling
+export const LEAD_CSV_FIELDS = [
+  'id', 'lead_name', 'company_name', 'position', 'email', 'phone_no', 'linkedin', 'website',
+  'contact_source', 'lead_status', 'industry', 'country', 'description', 'contact_owner',
+  'created_by', 'modified_by', 'created_time', 'modified_time', 'name', 'contact_name',
+  'full_name', 'action_items_json'
+];
 
 export interface LeadsProcessingOptions {
   userId: string;
   onProgress?: (processed: number, total: number) => void;
+  // Receives the outcome of every row when the import is tracked as a job
+  job?: ImportJobRecorder;
+  // Defaults to creating new leads and updating those whose id is in the file
+  match?: ImportMatchOptions;
 }
 
 export interface LeadsProcessingResult {
   successCount: number;
   updateCount: number;
+  skippedCount: number;
   errorCount: number;
   errors: string[];
+  assignedCount: number;
 }
 
 export class LeadsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private customFieldsMapper: CustomFieldsMapper = createCustomFieldsMapper([]);
+  private customHeaderMap: Record<string, CustomFieldDefinition> = {};
+  // New leads whose row had no owner, handed to the lead assignment rules after the import
+  private unassignedLeadIds: string[] = [];
 
-  async processCSV(csvText: string, options: LeadsProcessingOptions): Promise<LeadsProcessingResult> {
+  // Accepts a File so large imports are read and processed in batches instead of held in memory
+  async processCSV(input: File | string, options: LeadsProcessingOptions): Promise<LeadsProcessingResult> {
     console.log('LeadsCSVProcessor: Starting processing');
     
     try {
-      const { headers, rows } = CSVParser.parseCSV(csvText);
-      console.log(`LeadsCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
-
-      if (rows.length === 0) {
-        throw new Error('No data rows found in CSV');
-      }
-
-      // Collect user names from CSV for user fields
-      const userNames = UserNameUtils.extractUserNames(rows, headers, ['contact_owner', 'created_by', 'modified_by']);
-      this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
-      console.log('LeadsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
-
       const result: LeadsProcessingResult = {
         successCount: 0,
         updateCount: 0,
+        skippedCount: 0,
         errorCount: 0,
-        errors: []
+        errors: [],
+        assignedCount: 0
       };
+      this.unassignedLeadIds = [];
 
-      // Process rows in batches
+      let processed = 0;
+      let userIdsLoaded = false;
       const batchSize = 20;
-      for (let i = 0; i < rows.length; i += batchSize) {
-        const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, options);
+      for await (const batch of readCSVBatches(input, batchSize)) {
+        const { headers, rows } = batch;
+
+        if (processed === 0) {
+          console.log('LeadsCSVProcessor: Reading rows with headers:', headers);
+
+          // Custom field columns, for headers that aren't built-in lead fields
+          this.customFieldsMapper = createCustomFieldsMapper(await fetchCustomFieldsForTable('leads'));
+          this.customHeaderMap = this.customFieldsMapper.mapHeaders(headers, header => LEAD_CSV_FIELDS.includes(header));
+          await options.job?.setHeaders(headers);
+        }
+
+        // Profiles are fetched once, for the first batch that names a user
+        if (!userIdsLoaded) {
+          const userNames = UserNameUtils.extractUserNames(rows, headers, ['contact_owner', 'created_by', 'modified_by']);
+          if (userNames.length > 0) {
+            this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
+            userIdsLoaded = true;
+            console.log('LeadsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
+          }
+        }
+
+        const batchResult = await this.processBatch(rows, headers, options, processed);
+        processed += rows.length;
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
+        result.skippedCount += batchResult.skippedCount;
         result.errorCount += batchResult.errorCount;
         result.errors.push(...batchResult.errors);
 
         if (options.onProgress) {
-          options.onProgress(Math.min(i + batchSize, rows.length), rows.length);
+          options.onProgress(processed, batch.estimatedTotalRows);
         }
       }
 
+      if (processed === 0) {
+        throw new Error('No data rows found in CSV');
+      }
+
+      result.assignedCount = await this.assignOwners();
+
       console.log('LeadsCSVProcessor: Processing complete:', result);
       return result;
 
@@ -70,17 +114,33 @@ export class LeadsCSVProcessor {
   private async processBatch(
     rows: string[][],
     headers: string[],
-    options: LeadsProcessingOptions
+    options: LeadsProcessingOptions,
+    batchOffset: number
   ): Promise<LeadsProcessingResult> {
     
     const result: LeadsProcessingResult = {
       successCount: 0,
       updateCount: 0,
+      skippedCount: 0,
       errorCount: 0,
-      errors: []
+      errors: [],
+      assignedCount: 0
     };
+    const match = options.match || getDefaultMatchOptions('leads');
+
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+      const row = rows[rowIndex];
+      const rowNumber = batchOffset + rowIndex + 2; // +2 for header and 1-based indexing
+      const fail = async (message: string) => {
+        result.errorCount++;
+        result.errors.push(`Row ${rowNumber}: ${message}`);
+        await options.job?.failed(rowNumber, message, row);
+      };
+      const skip = async (message: string, recordId?: string) => {
+        result.skippedCount++;
+        await options.job?.skipped(rowNumber, message, recordId);
+      };
 
-    for (const row of rows) {
       try {
         // Convert row to object
         const rowObj: Record<string, any> = {};
@@ -106,67 +166,58 @@ export class LeadsCSVProcessor {
 
         // Validate required fields - ensure lead_name is present and not empty
         if (!leadRecord.lead_name || leadRecord.lead_name.trim() === '') {
-          result.errorCount++;
-          result.errors.push('Lead name is required');
+          await fail('Lead name is required');
+          continue;
+        }
+
+        const customFields = this.customFieldsMapper.readValues(rowObj, this.customHeaderMap);
+        if (customFields.errors.length > 0) {
+          await fail(customFields.errors.join('; '));
+          continue;
+        }
+        const hasCustomValues = Object.keys(customFields.values).length > 0;
+
+        const matched = await matchImportRow('leads', match, rowObj[match.matchKey]);
+        if (matched.action === 'fail') {
+          await fail(matched.message);
+          continue;
+        }
+        if (matched.action === 'skip') {
+          await skip(matched.message, matched.existing?.id);
           continue;
         }
 
         let leadId: string;
-        let isUpdate = false;
+        const isUpdate = matched.action === 'update';
 
-        // Check for existing lead by ID only (as per requirements)
-        if (rowObj.id && rowObj.id.trim() !== '') {
-          console.log('Checking for existing lead with ID:', rowObj.id);
-          const { data: existingLead } = await supabase
-            .from('leads')
-            .select('id')
-            .eq('id', rowObj.id.trim())
-            .single();
+        if (matched.action === 'update') {
+          const existingLead = matched.existing;
+          leadId = existingLead.id;
+          const update = buildImportUpdate(existingLead, pickImportedValues(leadRecord, rowObj), customFields.values, match.fieldPolicies);
 
-          if (existingLead) {
-            // Update existing lead
-            leadId = existingLead.id;
+          if (update.changes.length === 0) {
+            await skip('No changes', leadId);
+          } else {
             const { error: updateError } = await supabase
               .from('leads')
-              .update(leadRecord)
+              .update({ modified_by: options.userId, ...update.values })
               .eq('id', leadId);
 
             if (updateError) {
-              result.errorCount++;
-              result.errors.push(`Update failed: ${updateError.message}`);
+              await fail(`Update failed: ${updateError.message}`);
               continue;
             }
             result.updateCount++;
-            isUpdate = true;
+            await options.job?.updated(rowNumber, leadId, existingLead);
             console.log('Updated existing lead:', leadId);
-          } else {
-            // Insert new lead with provided ID - ensure all required fields are present
-            const leadToInsert = {
-              id: rowObj.id.trim(),
-              lead_name: leadRecord.lead_name, // Ensure lead_name is explicitly included
-              ...leadRecord
-            };
-
-            const { data: insertedLead, error: insertError } = await supabase
-              .from('leads')
-              .insert([leadToInsert])
-              .select('id')
-              .single();
-
-            if (insertError) {
-              result.errorCount++;
-              result.errors.push(`Insert failed: ${insertError.message}`);
-              continue;
-            }
-            leadId = insertedLead.id;
-            result.successCount++;
-            console.log('Inserted new lead with ID:', leadId);
           }
         } else {
-          // Insert new lead without ID (let database generate it) - ensure all required fields are present
+          // A new lead keeps the id given in the file, otherwise the database generates one
           const leadToInsert = {
+            ...(rowObj.id && rowObj.id.trim() !== '' && { id: rowObj.id.trim() }),
             lead_name: leadRecord.lead_name, // Ensure lead_name is explicitly included
-            ...leadRecord
+            ...leadRecord,
+            ...(hasCustomValues && { custom_fields: customFields.values })
           };
 
           const { data: insertedLead, error: insertError } = await supabase
@@ -176,13 +227,17 @@ export class LeadsCSVProcessor {
             .single();
 
           if (insertError) {
-            result.errorCount++;
-            result.errors.push(`Insert failed: ${insertError.message}`);
+            await fail(`Insert failed: ${insertError.message}`);
             continue;
           }
           leadId = insertedLead.id;
           result.successCount++;
-          console.log('Inserted new lead without ID:', leadId);
+          await options.job?.inserted(rowNumber, leadId);
+          console.log('Inserted new lead:', leadId);
+        }
+
+        if (!isUpdate && !leadRecord.contact_owner) {
+          this.unassignedLeadIds.push(leadId);
         }
 
         // Process action items if any
@@ -191,24 +246,34 @@ export class LeadsCSVProcessor {
         }
 
       } catch (error: any) {
-        result.errorCount++;
-        result.errors.push(`Row processing error: ${error.message}`);
+        await fail(`Row processing error: ${error.message}`);
       }
     }
 
     return result;
   }
 
+  private async assignOwners(): Promise<number> {
+    let assigned = 0;
+    for (const ids of chunkIds(this.unassignedLeadIds)) {
+      const { data, error } = await supabase.rpc('assign_lead_owners', { p_lead_ids: ids });
+      if (error) {
+        // The leads are imported either way; they just keep no owner
+        console.error('LeadsCSVProcessor: Lead assignment failed:', error);
+        continue;
+      }
+      assigned += data || 0;
+    }
+    return assigned;
+  }
+
   private prepareLead(rowObj: Record<string, any>, userId: string): Record<string, any> {
+    // Updates only take the columns the file filled in, so created_by here only applies to new leads
     const leadRecord: Record<string, any> = {
+      created_by: userId,
       modified_by: userId
     };
 
-    // If this is a new record (no existing ID), set created_by
-    if (!rowObj.id || rowObj.id.trim() === '') {
-      leadRecord.created_by = userId;
-    }
-
     // Map CSV fields to database fields in exact order
     const fieldMapping: Record<string, string> = {
       'lead_name': 'lead_name',
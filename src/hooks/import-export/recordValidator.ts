@@ -1,50 +1,53 @@
 
 import { getColumnConfig } from './columnConfig';
+import { DEAL_STAGES } from '@/types/deal';
 
-export const createRecordValidator = (tableName: string) => {
+// Lists why a record can't be imported, empty when it is valid.
+// validStages should be the configured pipeline stage names when importing deals
+export const createRecordErrorsValidator = (tableName: string, validStages: string[] = DEAL_STAGES) => {
   const config = getColumnConfig(tableName);
 
-  return (record: any): boolean => {
+  return (record: any): string[] => {
     console.log('Validating import record:', record);
+    const errors: string[] = [];
     
     if (tableName === 'deals') {
       // Check if we have the basic required fields
       const hasValidDealName = record.deal_name && typeof record.deal_name === 'string' && record.deal_name.trim() !== '';
-      const validStages = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
       const hasValidStage = record.stage && validStages.includes(record.stage);
       
       console.log(`Import validation - deal_name: "${record.deal_name}", stage: "${record.stage}"`);
       console.log(`Validation results - hasValidDealName: ${hasValidDealName}, hasValidStage: ${hasValidStage}`);
       
       if (!hasValidDealName) {
-        console.error('Invalid deal: missing or empty deal_name');
-        return false;
+        errors.push('Missing or empty deal_name');
       }
       
       if (!hasValidStage) {
-        console.error(`Invalid deal: invalid stage "${record.stage}". Valid stages: ${validStages.join(', ')}`);
-        return false;
+        errors.push(`Invalid stage "${record.stage ?? ''}". Valid stages: ${validStages.join(', ')}`);
       }
       
       // Additional validation for critical fields (but allow them to be empty for updates)
       if (record.probability !== undefined && record.probability !== null && record.probability !== '') {
         const prob = parseInt(String(record.probability));
         if (isNaN(prob) || prob < 0 || prob > 100) {
-          console.error(`Invalid probability: ${record.probability}. Must be between 0-100`);
-          return false;
+          errors.push(`Invalid probability: ${record.probability}. Must be between 0-100`);
         }
       }
       
       if (record.priority !== undefined && record.priority !== null && record.priority !== '') {
         const priority = parseInt(String(record.priority));
         if (isNaN(priority) || priority < 1 || priority > 5) {
-          console.error(`Invalid priority: ${record.priority}. Must be between 1-5`);
-          return false;
+          errors.push(`Invalid priority: ${record.priority}. Must be between 1-5`);
         }
       }
       
-      console.log('Deal validation passed');
-      return true;
+      if (errors.length > 0) {
+        console.error('Invalid deal:', errors.join('; '));
+      } else {
+        console.log('Deal validation passed');
+      }
+      return errors;
     }
     
     // For other tables, use the existing logic but be more lenient
@@ -55,10 +58,15 @@ export const createRecordValidator = (tableName: string) => {
     
     if (missingRequired.length > 0) {
       console.log(`Missing required fields for ${tableName}:`, missingRequired);
-      return false;
+      errors.push(`Missing required ${missingRequired.length === 1 ? 'field' : 'fields'}: ${missingRequired.join(', ')}`);
+    } else {
+      console.log(`Validation passed for ${tableName}`);
     }
-    
-    console.log(`Validation passed for ${tableName}`);
-    return true;
+    return errors;
   };
 };
+
+export const createRecordValidator = (tableName: string, validStages: string[] = DEAL_STAGES) => {
+  const findErrors = createRecordErrorsValidator(tableName, validStages);
+  return (record: Record<string, unknown>): boolean => findErrors(record).length === 0;
+};
@@ -1,5 +1,7 @@
 
 import { DealsCSVProcessor } from './dealsCSVProcessor';
+import { ImportJobRecorder } from './importJobs';
+import { ImportMatchOptions } from './importMerge';
 
 // Exact field order as specified, including action items
 const DEALS_EXPORT_FIELDS = [
@@ -18,6 +20,8 @@ const DEALS_EXPORT_FIELDS = [
 interface DealsProcessOptions {
   userId: string;
   onProgress?: (processed: number, total: number) => void;
+  job?: ImportJobRecorder;
+  match?: ImportMatchOptions;
 }
 
 // Simplified CSV processor using specialized deals logic
@@ -28,12 +32,14 @@ export class SimpleDealsCSVProcessor {
     this.dealsProcessor = new DealsCSVProcessor();
   }
   
-  async processCSV(csvText: string, options: DealsProcessOptions) {
+  async processCSV(input: File | string, options: DealsProcessOptions) {
     console.log('SimpleDealsCSVProcessor: Starting CSV processing with action items');
     
-    return await this.dealsProcessor.processCSV(csvText, {
+    return await this.dealsProcessor.processCSV(input, {
       userId: options.userId,
-      onProgress: options.onProgress
+      onProgress: options.onProgress,
+      job: options.job,
+      match: options.match
     });
   }
 }
@@ -0,0 +1,103 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fetchCurrencyContext } from '@/hooks/useCurrency';
+import { DateFormatUtils } from '@/utils/dateFormatUtils';
+import { UserNameUtils } from '@/utils/userNameUtils';
+import { XlsxCellType, XlsxColumn, XlsxFormat, XlsxSheet, buildXlsx, downloadXlsx } from '@/utils/xlsx';
+import { CustomFieldDefinition, formatCustomFieldValue, getCustomFieldValues, toCustomFieldColumn } from '@/types/customField';
+
+export type ExportRecord = Record<string, unknown>;
+
+const NUMBER_FIELDS = [
+  'probability', 'priority', 'project_duration', 'score', 'contact_count', 'deal_count',
+  'engagement_score', 'email_opens', 'email_clicks',
+];
+
+const CURRENCY_FIELDS = [
+  'total_contract_value', 'total_revenue',
+  'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4',
+];
+
+const getFieldCellType = (field: string): XlsxCellType => {
+  if (CURRENCY_FIELDS.includes(field)) return 'currency';
+  if (NUMBER_FIELDS.includes(field)) return 'number';
+  if (UserNameUtils.isDateTimeField(field)) return 'datetime';
+  const dateType = DateFormatUtils.getFieldType(field);
+  return dateType === 'other' ? 'string' : dateType;
+};
+
+const getCustomFieldCellType = (field: CustomFieldDefinition): XlsxCellType => {
+  if (field.field_type === 'number') return 'number';
+  if (field.field_type === 'date') return 'date';
+  return 'string';
+};
+
+// Date, time and currency formats from the user's display preferences
+export const fetchXlsxFormat = async (): Promise<XlsxFormat> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const [{ data: preferences }, { reportingCurrency }] = await Promise.all([
+    user
+      ? supabase.from('user_preferences').select('date_format, time_format, currency').eq('user_id', user.id).maybeSingle()
+      : Promise.resolve({ data: null }),
+    fetchCurrencyContext(),
+  ]);
+
+  return {
+    dateFormat: preferences?.date_format || 'DD/MM/YYYY',
+    timeFormat: preferences?.time_format === '24h' ? '24h' : '12h',
+    currency: preferences?.currency || reportingCurrency,
+  };
+};
+
+// Builds a typed sheet with the same columns as the CSV exports, so an exported workbook imports back
+export const buildRecordsSheet = async (
+  name: string,
+  data: ExportRecord[],
+  fieldsOrder: string[],
+  customFields: CustomFieldDefinition[] = []
+): Promise<XlsxSheet<ExportRecord>> => {
+  const userFields = fieldsOrder.filter(field => UserNameUtils.isUserField(field));
+  const userNameMap = await UserNameUtils.fetchUserDisplayNames(UserNameUtils.extractUserIds(data, userFields));
+
+  const columns: XlsxColumn<ExportRecord>[] = [
+    ...fieldsOrder.map(field => ({
+      key: field,
+      header: field,
+      type: getFieldCellType(field),
+      // Deal amounts are in the deal's own currency
+      currency: (row: ExportRecord) => row.currency_type as string | null | undefined,
+    })),
+    ...customFields.map(field => ({
+      key: toCustomFieldColumn(field.field_name),
+      header: toCustomFieldColumn(field.field_name),
+      type: getCustomFieldCellType(field),
+    })),
+  ];
+
+  const rows = data.map(record => {
+    const row: ExportRecord = { currency_type: record.currency_type };
+    fieldsOrder.forEach(field => {
+      const value = record[field];
+      row[field] = UserNameUtils.isUserField(field) && value ? userNameMap[String(value)] || '' : value;
+    });
+
+    const customValues = getCustomFieldValues(record);
+    customFields.forEach(field => {
+      const value = customValues[field.field_name];
+      row[toCustomFieldColumn(field.field_name)] = getCustomFieldCellType(field) === 'string'
+        ? formatCustomFieldValue(field, value)
+        : value;
+    });
+    return row;
+  });
+
+  return { name, columns, rows };
+};
+
+export const exportXlsx = async (sheets: XlsxSheet<ExportRecord>[], filename: string) => {
+  if (sheets.every(sheet => sheet.rows.length === 0)) {
+    throw new Error('No data to export');
+  }
+
+  const blob = await buildXlsx(sheets, await fetchXlsxFormat());
+  downloadXlsx(blob, filename);
+};
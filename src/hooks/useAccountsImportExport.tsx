@@ -1,7 +1,17 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
+import { readCSVFile } from '@/utils/csvParser';
+import { fetchInBatches } from '@/utils/tableQuery';
+import { ExportFormat, getExportFilename } from '@/utils/exportUtils';
+import { createCustomFieldsMapper, fetchCustomFieldsForTable } from './import-export/customFieldsMapper';
+import { buildRecordsSheet, exportXlsx } from './import-export/xlsxExporter';
+import { ImportJobRecorder } from './import-export/importJobs';
+import { ImportMatchOptions, buildImportUpdate, getDefaultMatchOptions, matchImportRow, pickImportedValues } from './import-export/importMerge';
+import { DEALS_EXPORT_FIELDS } from './import-export/dealsCSVExporter';
+import { CONTACTS_EXPORT_FIELDS } from './useSimpleContactsImportExport';
 
 const validStatuses = ['New', 'Working', 'Warm', 'Hot', 'Nurture', 'Closed-Won', 'Closed-Lost'];
 const validTags = [
@@ -11,30 +21,18 @@ const validTags = [
   'Vehicle Architecture', 'Connected Car', 'Platform', 'µC/HW'
 ];
 
+export const ACCOUNT_CSV_FIELDS = [
+  'id', 'company_name', 'email', 'company_type', 'industry', 'tags', 'country', 
+  'status', 'website', 'region', 'notes', 'phone',
+  'account_owner', 'created_by', 'modified_by', 'created_at', 'updated_at'
+];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+
 export const useAccountsImportExport = (onImportComplete: () => void) => {
   const [isImporting, setIsImporting] = useState(false);
   const { toast } = useToast();
 
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    result.push(current.trim());
-    return result;
-  };
-
   const fetchUserDisplayNames = async (userIds: string[]): Promise<Record<string, string>> => {
     const uniqueIds = [...new Set(userIds.filter(id => id))];
     if (uniqueIds.length === 0) return {};
@@ -70,53 +68,73 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
     return idMap;
   };
 
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, match: ImportMatchOptions = getDefaultMatchOptions('accounts')) => {
     setIsImporting(true);
+    let job: ImportJobRecorder | null = null;
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) {
         throw new Error('User not authenticated');
       }
+      job = await ImportJobRecorder.start('accounts', file.name, user.id);
 
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
+      // Quoted fields may span lines, so rows come from the CSV parser rather than a line split
+      const { headers: rawHeaders, rows } = await readCSVFile(file);
       
-      if (lines.length < 2) {
+      if (rows.length === 0) {
         throw new Error('CSV file must have headers and at least one data row');
       }
 
-      const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().replace(/[^a-z0-9_]/g, '_'));
+      const headers = rawHeaders.map(normalizeHeader);
+      await job.setHeaders(rawHeaders);
+
+      // Custom field columns are matched on the original header text
+      const customFieldsMapper = createCustomFieldsMapper(await fetchCustomFieldsForTable('accounts'));
+      const customHeaderMap = customFieldsMapper.mapHeaders(rawHeaders, header =>
+        [...ACCOUNT_CSV_FIELDS, 'name', 'company'].includes(normalizeHeader(header))
+      );
       
       // Collect all user names from the CSV to fetch their IDs
       const userNames: string[] = [];
-      for (let i = 1; i < lines.length; i++) {
-        const values = parseCSVLine(lines[i]);
+      rows.forEach(values => {
         headers.forEach((header, idx) => {
           if ((header === 'account_owner' || header === 'created_by' || header === 'modified_by') && values[idx]) {
             userNames.push(values[idx]);
           }
         });
-      }
+      });
 
       // Fetch user IDs by names
       const userIdMap = await fetchUserIdsByNames(userNames);
       
       const records: any[] = [];
       const errors: string[] = [];
+      const fail = async (rowNumber: number, message: string, values: string[]) => {
+        errors.push(`Row ${rowNumber}: ${message}`);
+        await job?.failed(rowNumber, message, values);
+      };
 
-      for (let i = 1; i < lines.length; i++) {
-        const values = parseCSVLine(lines[i]);
+      for (let i = 1; i <= rows.length; i++) {
+        const values = rows[i - 1];
         const record: any = {};
+        const rawRecord: Record<string, string> = {};
         
         headers.forEach((header, idx) => {
           record[header] = values[idx] || null;
+          rawRecord[rawHeaders[idx]] = values[idx];
         });
 
         // Map common header variations
         const companyName = record.company_name || record.name || record.company;
         if (!companyName) {
-          errors.push(`Row ${i + 1}: Missing company_name`);
+          await fail(i + 1, 'Missing company_name', values);
+          continue;
+        }
+
+        const customFields = customFieldsMapper.readValues(rawRecord, customHeaderMap);
+        if (customFields.errors.length > 0) {
+          await fail(i + 1, customFields.errors.join('; '), values);
           continue;
         }
 
@@ -136,9 +154,6 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         // UUID validation regex
         const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-        // Check if record has a valid UUID for update (ignore non-UUID id values)
-        const existingId = record.id && uuidRegex.test(record.id) ? record.id : null;
-
         // Helper to resolve user ID from name or UUID
         const resolveUserId = (value: string | null, defaultId: string): string => {
           if (!value) return defaultId;
@@ -148,8 +163,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           return userIdMap[value.toLowerCase()] || defaultId;
         };
 
-        records.push({
-          id: existingId,
+        const account = {
           company_name: companyName,
           email: record.email || null,
           region: record.region || null,
@@ -163,7 +177,17 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           phone: record.phone || null,
           created_by: resolveUserId(record.created_by, user.id),
           account_owner: resolveUserId(record.account_owner, user.id),
+        };
+
+        records.push({
+          ...account,
           modified_by: user.id,
+          // Updates only take the columns the file filled in, not the defaults above
+          imported: pickImportedValues(account, { ...record, company_name: companyName }),
+          matchValue: match.matchKey === 'company_name' ? companyName : rawRecord[match.matchKey] ?? record[match.matchKey],
+          customFieldValues: customFields.values,
+          rowNumber: i + 1,
+          values,
         });
       }
 
@@ -171,62 +195,74 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         throw new Error('No valid records found in CSV');
       }
 
-      // Upsert by id or company_name
+      // Matched on the chosen key, then created, updated or skipped as the import mode says
       let successCount = 0;
       let updateCount = 0;
+      let skippedCount = 0;
+      const skip = async (rowNumber: number, message: string, recordId?: string) => {
+        skippedCount++;
+        await job?.skipped(rowNumber, message, recordId);
+      };
 
       for (const record of records) {
-        const { id, ...recordWithoutId } = record;
+        const { imported, matchValue, customFieldValues, rowNumber, values, ...recordWithoutId } = record;
 
-        // If id is provided, try to update by id first
-        if (id) {
-          const { data: existingById } = await supabase
-            .from('accounts')
-            .select('id')
-            .eq('id', id)
-            .maybeSingle();
-
-          if (existingById) {
-            const { error } = await supabase
-              .from('accounts')
-              .update({ ...recordWithoutId, updated_at: new Date().toISOString() })
-              .eq('id', id);
-            
-            if (!error) updateCount++;
+        const matched = await matchImportRow('accounts', match, matchValue);
+        if (matched.action === 'fail') {
+          await fail(rowNumber, matched.message, values);
+          continue;
+        }
+        if (matched.action === 'skip') {
+          await skip(rowNumber, matched.message, matched.existing?.id);
+          continue;
+        }
+
+        if (matched.action === 'update') {
+          const existing = matched.existing;
+          const update = buildImportUpdate(existing, imported, customFieldValues, match.fieldPolicies);
+          if (update.changes.length === 0) {
+            await skip(rowNumber, 'No changes', existing.id);
             continue;
           }
+
+          const { error } = await supabase
+            .from('accounts')
+            .update({ ...update.values, modified_by: user.id, updated_at: new Date().toISOString() })
+            .eq('id', existing.id);
+
+          if (error) {
+            await fail(rowNumber, `Update failed: ${error.message}`, values);
+          } else {
+            updateCount++;
+            await job.updated(rowNumber, existing.id, existing);
+          }
+          continue;
         }
 
-        // Otherwise, check by company_name
-        const { data: existing } = await supabase
+        const hasCustomValues = Object.keys(customFieldValues).length > 0;
+        const { data: inserted, error } = await supabase
           .from('accounts')
+          .insert(hasCustomValues ? { ...recordWithoutId, custom_fields: customFieldValues } : recordWithoutId)
           .select('id')
-          .eq('company_name', record.company_name)
-          .maybeSingle();
+          .single();
 
-        if (existing) {
-          const { error } = await supabase
-            .from('accounts')
-            .update({ ...recordWithoutId, updated_at: new Date().toISOString() })
-            .eq('id', existing.id);
-          
-          if (!error) updateCount++;
+        if (error) {
+          await fail(rowNumber, `Insert failed: ${error.message}`, values);
         } else {
-          const { error } = await supabase
-            .from('accounts')
-            .insert(recordWithoutId);
-          
-          if (!error) successCount++;
+          successCount++;
+          await job.inserted(rowNumber, inserted.id);
         }
       }
 
+      await job.finish();
       toast({
         title: "Import Successful",
-        description: `Created ${successCount} new accounts, updated ${updateCount} existing accounts${errors.length > 0 ? `. ${errors.length} rows had errors.` : ''}`,
+        description: `Created ${successCount} new accounts, updated ${updateCount} existing accounts${skippedCount > 0 ? `, skipped ${skippedCount}` : ''}${errors.length > 0 ? `. ${errors.length} rows had errors; download them from Import history.` : ''}`,
       });
 
       onImportComplete();
     } catch (error: any) {
+      await job?.finish('failed');
       toast({
         title: "Import Failed",
         description: error.message || "An unexpected error occurred",
@@ -237,7 +273,38 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
     }
   };
 
-  const handleExport = async () => {
+  // Accounts on the first sheet, then their contacts (by account or company name) and their deals (by customer name)
+  const exportWorkbook = async (accounts: Tables<'accounts'>[]) => {
+    const companyNames = new Set(accounts.map(account => account.company_name?.toLowerCase()).filter(Boolean));
+    const accountIds = new Set(accounts.map(account => account.id));
+
+    const [contacts, deals, accountFields, contactFields, dealFields] = await Promise.all([
+      fetchInBatches((from, to) =>
+        supabase.from('contacts').select('*').order('created_time', { ascending: false }).order('id').range(from, to)
+      ),
+      fetchInBatches((from, to) =>
+        supabase.from('deals').select('*').order('modified_at', { ascending: false }).order('id').range(from, to)
+      ),
+      fetchCustomFieldsForTable('accounts'),
+      fetchCustomFieldsForTable('contacts'),
+      fetchCustomFieldsForTable('deals'),
+    ]);
+
+    const accountContacts = contacts.filter(contact =>
+      (contact.account_id && accountIds.has(contact.account_id)) ||
+      (contact.company_name && companyNames.has(contact.company_name.toLowerCase()))
+    );
+    const accountDeals = deals.filter(deal => deal.customer_name && companyNames.has(deal.customer_name.toLowerCase()));
+
+    const sheets = await Promise.all([
+      buildRecordsSheet('Accounts', accounts, ACCOUNT_CSV_FIELDS, accountFields),
+      buildRecordsSheet('Contacts', accountContacts, CONTACTS_EXPORT_FIELDS, contactFields),
+      buildRecordsSheet('Deals', accountDeals, DEALS_EXPORT_FIELDS.filter(field => field !== 'action_items_json'), dealFields),
+    ]);
+    await exportXlsx(sheets, getExportFilename('accounts', 'all', 'xlsx'));
+  };
+
+  const handleExport = async (fileFormat: ExportFormat = 'csv') => {
     try {
       const { data, error } = await supabase
         .from('accounts')
@@ -254,6 +321,15 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         return;
       }
 
+      if (fileFormat === 'xlsx') {
+        await exportWorkbook(data);
+        toast({
+          title: "Export Successful",
+          description: `Exported ${data.length} accounts with their contacts and deals to Excel.`,
+        });
+        return;
+      }
+
       // Collect all user IDs to fetch display names
       const userIds: string[] = [];
       data.forEach(account => {
@@ -264,17 +340,16 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
 
       const userNameMap = await fetchUserDisplayNames(userIds);
 
-      const headers = [
-        'id', 'company_name', 'email', 'company_type', 'industry', 'tags', 'country', 
-        'status', 'website', 'region', 'notes', 'phone',
-        'account_owner', 'created_by', 'modified_by', 'created_at', 'updated_at'
-      ];
+      // Custom field columns follow the built-in fields
+      const customFieldsMapper = createCustomFieldsMapper(await fetchCustomFieldsForTable('accounts'));
+      const headers = [...ACCOUNT_CSV_FIELDS, ...customFieldsMapper.exportHeaders];
 
       const csvLines = [headers.join(',')];
 
       for (const account of data) {
+        const customValues = customFieldsMapper.toExportValues(account);
         const row = headers.map(header => {
-          let value = account[header as keyof typeof account];
+          let value = header in customValues ? customValues[header] : account[header as keyof typeof account];
           
           // Keep full ID for proper import matching (don't shorten)
           
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -113,7 +113,14 @@ export const useColumnPreferences = ({ moduleName, defaultColumns }: UseColumnPr
   });
 
   // Use saved columns if available, otherwise use defaults
-  const columns = savedColumns || defaultColumns;
+  const columns = useMemo(() => {
+    if (!savedColumns) return defaultColumns;
+    // Columns added to the defaults after the preferences were saved go at the end
+    const missing = defaultColumns.filter(col => !savedColumns.some(saved => saved.field === col.field));
+    return missing.length === 0
+      ? savedColumns
+      : [...savedColumns, ...missing.map((col, index) => ({ ...col, order: savedColumns.length + index }))];
+  }, [savedColumns, defaultColumns]);
 
   return {
     columns,
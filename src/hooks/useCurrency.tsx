@@ -0,0 +1,99 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  CurrencyAmountSource,
+  DEFAULT_REPORTING_CURRENCY,
+  ExchangeRate,
+  convertDealAmount,
+  formatCurrency,
+  getExchangeRate,
+} from "@/utils/currency";
+
+export interface CurrencyContext {
+  reportingCurrency: string;
+  rates: ExchangeRate[];
+}
+
+export const CURRENCY_CONTEXT_QUERY_KEY = ['currency-context'];
+export const DISPLAY_CURRENCY_QUERY_KEY = ['display-currency'];
+
+export const fetchCurrencyContext = async (): Promise<CurrencyContext> => {
+  const [settingsResult, ratesResult] = await Promise.all([
+    supabase.from('currency_settings').select('reporting_currency').limit(1).maybeSingle(),
+    supabase
+      .from('exchange_rates')
+      .select('base_currency, quote_currency, rate, effective_date')
+      .order('effective_date', { ascending: false }),
+  ]);
+
+  if (settingsResult.error) console.error('Error fetching currency settings:', settingsResult.error);
+  if (ratesResult.error) console.error('Error fetching exchange rates:', ratesResult.error);
+
+  return {
+    reportingCurrency: settingsResult.data?.reporting_currency || DEFAULT_REPORTING_CURRENCY,
+    rates: (ratesResult.data || []).map(rate => ({ ...rate, rate: Number(rate.rate) })),
+  };
+};
+
+// Reporting currency and rates for the organisation plus the user's display currency
+export const useCurrency = () => {
+  const { user } = useAuth();
+
+  const { data: context = { reportingCurrency: DEFAULT_REPORTING_CURRENCY, rates: [] }, isLoading } = useQuery({
+    queryKey: CURRENCY_CONTEXT_QUERY_KEY,
+    queryFn: fetchCurrencyContext,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: preferredCurrency } = useQuery({
+    queryKey: [...DISPLAY_CURRENCY_QUERY_KEY, user?.id],
+    queryFn: async () => {
+      const { data } = await supabase
+        .from('user_preferences')
+        .select('currency')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+      return data?.currency || null;
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { reportingCurrency, rates } = context;
+  // Users without a preference see the reporting currency
+  const displayCurrency = preferredCurrency || reportingCurrency;
+
+  const toReporting = useCallback(
+    (amount: number, source: CurrencyAmountSource) => convertDealAmount(amount, source, rates, reportingCurrency),
+    [rates, reportingCurrency]
+  );
+
+  // Formats a reporting-currency amount in the display currency, or as is when no rate is known
+  const formatReporting = useCallback((amount: number) => {
+    const rate = getExchangeRate(rates, reportingCurrency, displayCurrency, reportingCurrency);
+    return rate === null
+      ? formatCurrency(amount, reportingCurrency)
+      : formatCurrency(amount * rate, displayCurrency);
+  }, [rates, reportingCurrency, displayCurrency]);
+
+  // A deal amount in the display currency, or null when it is already in it or can't be converted
+  const formatConverted = useCallback((amount: number, source: CurrencyAmountSource) => {
+    if ((source.currency_type || reportingCurrency) === displayCurrency) return null;
+    const inReporting = toReporting(amount, source);
+    if (inReporting === null) return null;
+    const rate = getExchangeRate(rates, reportingCurrency, displayCurrency, reportingCurrency);
+    return rate === null ? null : formatCurrency(inReporting * rate, displayCurrency);
+  }, [rates, reportingCurrency, displayCurrency, toReporting]);
+
+  return {
+    reportingCurrency,
+    displayCurrency,
+    rates,
+    isLoading,
+    toReporting,
+    formatReporting,
+    formatConverted,
+  };
+};
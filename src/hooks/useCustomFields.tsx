@@ -0,0 +1,71 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CustomFieldDefinition,
+  CustomFieldEntity,
+  CustomFieldType,
+  toCustomFieldColumn,
+} from '@/types/customField';
+
+export const CUSTOM_FIELDS_QUERY_KEY = ['custom-fields'];
+
+const normalizeOptions = (options: unknown): string[] =>
+  Array.isArray(options) ? options.map(option => String(option)).filter(Boolean) : [];
+
+export const fetchCustomFields = async (entityType?: CustomFieldEntity): Promise<CustomFieldDefinition[]> => {
+  let query = supabase
+    .from('crm_custom_fields')
+    .select('*')
+    .order('display_order')
+    .order('field_label');
+
+  if (entityType) {
+    query = query.eq('entity_type', entityType);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching custom fields:', error);
+    return [];
+  }
+
+  return (data || []).map(field => ({
+    id: field.id,
+    entity_type: field.entity_type as CustomFieldEntity,
+    field_name: field.field_name,
+    field_label: field.field_label,
+    field_type: field.field_type as CustomFieldType,
+    field_options: normalizeOptions(field.field_options),
+    is_required: field.is_required ?? false,
+    is_visible: field.is_visible ?? true,
+    display_order: field.display_order ?? 0,
+  }));
+};
+
+export const useCustomFields = (entityType: CustomFieldEntity) => {
+  const { data: allFields = [], isLoading, refetch } = useQuery({
+    queryKey: CUSTOM_FIELDS_QUERY_KEY,
+    queryFn: () => fetchCustomFields(),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const fields = useMemo(
+    () => allFields.filter(field => field.entity_type === entityType),
+    [allFields, entityType]
+  );
+  const visibleFields = useMemo(() => fields.filter(field => field.is_visible), [fields]);
+  const getFieldByColumn = useCallback(
+    (column: string) => visibleFields.find(field => toCustomFieldColumn(field.field_name) === column),
+    [visibleFields]
+  );
+
+  return {
+    fields,
+    visibleFields,
+    isLoading,
+    refetch,
+    getFieldByColumn,
+  };
+};
@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchPipelineStages } from "@/hooks/usePipelineStages";
+import { fetchCurrencyContext } from "@/hooks/useCurrency";
+import { convertDealAmount } from "@/utils/currency";
+import { fetchInBatches } from "@/utils/tableQuery";
+import { StageAnalytics, StageHistoryEntry, computeStageAnalytics } from "@/utils/stageAnalytics";
+
+export const DEAL_STAGE_ANALYTICS_QUERY_KEY = ['deal-stage-analytics'];
+
+// `periodDays` limits the analytics to stage changes in the last N days; null covers all history
+export const useDealStageAnalytics = (periodDays: number | null) => {
+  return useQuery({
+    queryKey: [...DEAL_STAGE_ANALYTICS_QUERY_KEY, periodDays],
+    queryFn: async (): Promise<StageAnalytics & { reportingCurrency: string }> => {
+      // Whole histories are needed to tell where deals that entered a stage in the period went next
+      const [history, deals, stages, currency] = await Promise.all([
+        fetchInBatches<StageHistoryEntry>((from, to) =>
+          supabase
+            .from('deal_stage_history')
+            .select('deal_id, from_stage, to_stage, changed_at, seconds_in_from_stage')
+            .order('changed_at')
+            .range(from, to)
+        ),
+        fetchInBatches((from, to) =>
+          supabase
+            .from('deals')
+            .select('id, stage, total_contract_value, total_revenue, currency_type, locked_exchange_rate, locked_rate_currency, locked_rate_date')
+            .order('id')
+            .range(from, to)
+        ),
+        fetchPipelineStages(),
+        fetchCurrencyContext(),
+      ]);
+
+      const analytics = computeStageAnalytics(
+        history,
+        deals.map(deal => ({
+          id: deal.id,
+          stage: deal.stage,
+          amount: convertDealAmount(
+            Number(deal.total_revenue) || Number(deal.total_contract_value) || 0,
+            deal,
+            currency.rates,
+            currency.reportingCurrency
+          ),
+        })),
+        stages,
+        periodDays === null ? null : subDays(new Date(), periodDays)
+      );
+
+      return { ...analytics, reportingCurrency: currency.reportingCurrency };
+    },
+  });
+};
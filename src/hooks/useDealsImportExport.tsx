@@ -1,11 +1,14 @@
 
 import { useAuth } from '@/hooks/useAuth';
-import { getExportFilename } from '@/utils/exportUtils';
+import { ExportFormat, getExportFilename } from '@/utils/exportUtils';
 import { SimpleDealsCSVProcessor } from './import-export/simpleDealsCSVProcessor';
 import { DealsCSVExporter } from './import-export/dealsCSVExporter';
+import { ImportJobRecorder } from './import-export/importJobs';
+import { ImportMatchOptions } from './import-export/importMerge';
 import { toast } from '@/hooks/use-toast';
 import { useSecurityAudit } from '@/hooks/useSecurityAudit';
 import { supabase } from '@/integrations/supabase/client';
+import { applyTableFilters, chunkIds, fetchInBatches } from '@/utils/tableQuery';
 
 interface DealsImportExportOptions {
   onRefresh: () => void;
@@ -15,7 +18,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
   const { user } = useAuth();
   const { logSecurityEvent } = useSecurityAudit();
   
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, match?: ImportMatchOptions) => {
     console.log('useDealsImportExport: Starting import process with standardized YYYY-MM-DD date format');
 
     if (!user?.id) {
@@ -52,6 +55,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
       throw new Error(errorMsg);
     }
 
+    let job: ImportJobRecorder | null = null;
     try {
       console.log(`useDealsImportExport: Starting import of ${file.name} (${file.size} bytes)`);
       
@@ -64,48 +68,52 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
         timestamp: new Date().toISOString()
       });
       
-      // Show initial loading toast
-      toast({
-        title: "Import Started",
-        description: `Processing ${file.name} with YYYY-MM-DD date format validation...`,
-      });
-
-      const text = await file.text();
-      console.log('useDealsImportExport: File content loaded, length:', text.length);
-      
-      if (!text || text.trim().length === 0) {
+      if (file.size === 0) {
         throw new Error('CSV file is empty or could not be read');
       }
 
-      // Basic CSV validation
-      const lines = text.split('\n').filter(line => line.trim());
-      if (lines.length < 2) {
-        throw new Error('CSV file must contain at least a header row and one data row');
-      }
+      // Show initial loading toast, updated as batches are processed
+      const progressToast = toast({
+        title: "Import Started",
+        description: `Processing ${file.name} with YYYY-MM-DD date format validation...`,
+      });
 
-      console.log('useDealsImportExport: CSV has', lines.length, 'lines (including header)');
+      // Every row's outcome is kept so failed rows can be downloaded and the import rolled back
+      job = await ImportJobRecorder.start('deals', file.name, user.id);
 
       const processor = new SimpleDealsCSVProcessor();
       console.log('useDealsImportExport: Starting processing with YYYY-MM-DD date format validation');
       
-      const result = await processor.processCSV(text, {
+      // The file is read in batches, so the total is an estimate until the last batch
+      const result = await processor.processCSV(file, {
         userId: user.id,
+        job,
+        match,
         onProgress: (processed, total) => {
           console.log(`useDealsImportExport: Progress ${processed}/${total}`);
+          progressToast.update({
+            id: progressToast.id,
+            title: "Importing Deals",
+            description: `${processed.toLocaleString()} of ${processed < total ? '~' : ''}${total.toLocaleString()} rows processed`,
+          });
         }
       });
 
       console.log('useDealsImportExport: Processing complete:', result);
+      await job.finish();
 
-      const { successCount, updateCount, errorCount, errors } = result;
+      const { successCount, updateCount, skippedCount, errorCount, errors } = result;
 
       // Generate success message
       let message = '';
       if (successCount > 0) message += `${successCount} new deals imported`;
       if (updateCount > 0) message += message ? `, ${updateCount} updated` : `${updateCount} deals updated`;
+      if (skippedCount > 0) message += message ? `, ${skippedCount} skipped` : `${skippedCount} deals skipped`;
       if (errorCount > 0) message += message ? `, ${errorCount} errors` : `${errorCount} errors occurred`;
+      if (errorCount > 0) message += '. Failed rows can be downloaded from Import history';
 
-      if (successCount > 0 || updateCount > 0) {
+      // Rows skipped by the import mode are a successful outcome too
+      if (successCount > 0 || updateCount > 0 || (skippedCount > 0 && errorCount === 0)) {
         // Log successful import
         await logSecurityEvent('DATA_IMPORT_SUCCESS', 'deals', undefined, {
           file_name: file.name,
@@ -167,6 +175,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
       return result;
 
     } catch (error: any) {
+      await job?.finish('failed');
       console.error('useDealsImportExport: Import failed with error:', error);
       console.error('useDealsImportExport: Error stack:', error.stack);
       
@@ -182,13 +191,13 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     }
   };
 
-  const handleExportAll = async (data: any[]) => {
+  const handleExportAll = async (data: any[], fileFormat: ExportFormat = 'csv') => {
     console.log(`useDealsImportExport: Exporting all deals with YYYY-MM-DD date format:`, data?.length || 0, 'records');
-    const filename = getExportFilename('deals', 'all');
+    const filename = getExportFilename('deals', 'all', fileFormat);
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', 'deals', undefined, {
-      export_type: 'CSV',
+      export_type: fileFormat.toUpperCase(),
       export_scope: 'all',
       record_count: data?.length || 0,
       file_name: filename,
@@ -197,17 +206,21 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     });
     
     const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(data, filename);
+    if (fileFormat === 'xlsx') {
+      await exporter.exportToXlsx(data, filename);
+    } else {
+      await exporter.exportToCSV(data, filename);
+    }
   };
 
-  const handleExportSelected = async (data: any[], selectedIds: string[]) => {
+  const handleExportSelected = async (data: any[], selectedIds: string[], fileFormat: ExportFormat = 'csv') => {
     const selectedData = data.filter(item => selectedIds.includes(item.id));
-    const filename = getExportFilename('deals', 'selected');
+    const filename = getExportFilename('deals', 'selected', fileFormat);
     console.log(`useDealsImportExport: Exporting selected deals with YYYY-MM-DD date format:`, selectedData.length, 'records');
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', 'deals', undefined, {
-      export_type: 'CSV',
+      export_type: fileFormat.toUpperCase(),
       export_scope: 'selected',
       record_count: selectedData.length,
       selected_ids: selectedIds.slice(0, 10), // Log first 10 IDs
@@ -217,16 +230,20 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     });
     
     const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(selectedData, filename);
+    if (fileFormat === 'xlsx') {
+      await exporter.exportToXlsx(selectedData, filename);
+    } else {
+      await exporter.exportToCSV(selectedData, filename);
+    }
   };
 
-  const handleExportFiltered = async (filteredData: any[]) => {
-    const filename = getExportFilename('deals', 'filtered');
+  const handleExportFiltered = async (filteredData: any[], fileFormat: ExportFormat = 'csv') => {
+    const filename = getExportFilename('deals', 'filtered', fileFormat);
     console.log(`useDealsImportExport: Exporting filtered deals with YYYY-MM-DD date format:`, filteredData.length, 'records');
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', 'deals', undefined, {
-      export_type: 'CSV',
+      export_type: fileFormat.toUpperCase(),
       export_scope: 'filtered',
       record_count: filteredData.length,
       file_name: filename,
@@ -235,13 +252,62 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     });
     
     const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(filteredData, filename);
+    if (fileFormat === 'xlsx') {
+      await exporter.exportToXlsx(filteredData, filename);
+    } else {
+      await exporter.exportToCSV(filteredData, filename);
+    }
+  };
+
+  // Paginated lists only hold one page, so exports read the selected or matching deals in batches
+  const handleExportByIds = async (selectedIds: string[], fileFormat: ExportFormat = 'csv') => {
+    try {
+      const deals = [];
+      for (const ids of chunkIds(selectedIds)) {
+        deals.push(...await fetchInBatches((from, to) =>
+          supabase.from('deals').select('*').in('id', ids).order('id', { ascending: true }).range(from, to)
+        ));
+      }
+      await handleExportSelected(deals, selectedIds, fileFormat);
+    } catch (error) {
+      console.error('useDealsImportExport: Export of selected deals failed:', error);
+      toast({
+        title: "Export Error",
+        description: "Failed to export the selected deals",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportMatching = async (filters: (string | null)[], fileFormat: ExportFormat = 'csv') => {
+    try {
+      const deals = await fetchInBatches((from, to) =>
+        applyTableFilters(supabase.from('deals').select('*'), filters)
+          .order('modified_at', { ascending: false })
+          .order('id', { ascending: true })
+          .range(from, to)
+      );
+      if (filters.some(Boolean)) {
+        await handleExportFiltered(deals, fileFormat);
+      } else {
+        await handleExportAll(deals, fileFormat);
+      }
+    } catch (error) {
+      console.error('useDealsImportExport: Export of matching deals failed:', error);
+      toast({
+        title: "Export Error",
+        description: "Failed to export deals",
+        variant: "destructive",
+      });
+    }
   };
 
   return {
     handleImport,
     handleExportAll,
     handleExportSelected,
-    handleExportFiltered
+    handleExportFiltered,
+    handleExportByIds,
+    handleExportMatching
   };
 };
@@ -0,0 +1,151 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchPipelineStages } from "@/hooks/usePipelineStages";
+import { fetchCurrencyContext } from "@/hooks/useCurrency";
+import { convertDealAmount } from "@/utils/currency";
+import {
+  ForecastCategory,
+  ForecastPeriodType,
+  getDealForecastCategory,
+  getDealOwnerId,
+  getForecastCloseDate,
+  getForecastProbability,
+} from "@/utils/forecast";
+import { Deal } from "@/types/deal";
+
+export interface ForecastDeal {
+  id: string;
+  deal_name: string;
+  customer_name: string | null;
+  stage: string;
+  ownerId: string | null;
+  region: string | null;
+  category: ForecastCategory;
+  manualCategory: Deal['forecast_category'];
+  closeDate: string;
+  probability: number;
+  // In the reporting currency; null when the deal currency has no rate
+  amount: number | null;
+  weightedAmount: number | null;
+}
+
+export interface RevenueTarget {
+  id: string;
+  year: number;
+  period_type: ForecastPeriodType;
+  period: number;
+  owner_id: string | null;
+  region: string | null;
+  target: number;
+}
+
+export interface ForecastSnapshot {
+  snapshot_date: string;
+  period_start: string;
+  owner_id: string | null;
+  region: string | null;
+  category: ForecastCategory;
+  deal_count: number;
+  amount: number;
+  weighted_amount: number;
+}
+
+export interface ForecastData {
+  deals: ForecastDeal[];
+  targets: RevenueTarget[];
+  snapshots: ForecastSnapshot[];
+  profiles: { id: string; full_name: string | null }[];
+  reportingCurrency: string;
+}
+
+export const FORECAST_QUERY_KEY = ['forecast'];
+
+export const useForecastData = (year: number) => {
+  return useQuery({
+    queryKey: [...FORECAST_QUERY_KEY, year],
+    queryFn: async (): Promise<ForecastData> => {
+      const start = `${year}-01-01`;
+      const end = `${year}-12-31`;
+
+      const [dealsResult, targetsResult, snapshotsResult, profilesResult, stages, currency] = await Promise.all([
+        supabase
+          .from('deals')
+          .select('id, deal_name, customer_name, stage, lead_owner, created_by, region, probability, forecast_category, expected_closing_date, signed_contract_date, total_contract_value, total_revenue, currency_type, locked_exchange_rate, locked_rate_currency, locked_rate_date')
+          .or(`and(expected_closing_date.gte.${start},expected_closing_date.lte.${end}),and(signed_contract_date.gte.${start},signed_contract_date.lte.${end})`),
+        supabase
+          .from('revenue_targets')
+          .select('id, year, period_type, period, owner_id, region, target')
+          .eq('year', year),
+        supabase
+          .from('forecast_snapshots')
+          .select('snapshot_date, period_start, owner_id, region, category, deal_count, amount, weighted_amount')
+          .gte('period_start', start)
+          .lte('period_start', end)
+          .order('snapshot_date'),
+        supabase.from('profiles').select('id, full_name').order('full_name'),
+        fetchPipelineStages(),
+        fetchCurrencyContext(),
+      ]);
+
+      if (dealsResult.error) throw dealsResult.error;
+      if (targetsResult.error) throw targetsResult.error;
+      if (snapshotsResult.error) throw snapshotsResult.error;
+      if (profilesResult.error) throw profilesResult.error;
+
+      const profiles = profilesResult.data || [];
+      const deals: ForecastDeal[] = [];
+
+      for (const deal of dealsResult.data || []) {
+        const stage = stages.find(s => s.stage_name === deal.stage);
+        if (stage?.is_lost_stage) continue;
+
+        const isWon = !!stage?.is_won_stage;
+        const closeDate = getForecastCloseDate(deal, isWon);
+        // Won deals closed in another year can still match on their expected close date
+        if (!closeDate || !closeDate.startsWith(String(year))) continue;
+
+        const probability = getForecastProbability(deal, stage);
+        const manualCategory = deal.forecast_category as Deal['forecast_category'];
+        const category = isWon ? 'closed' : getDealForecastCategory(manualCategory, probability);
+        if (category === 'omitted') continue;
+
+        const value = isWon
+          ? Number(deal.total_revenue) || Number(deal.total_contract_value) || 0
+          : Number(deal.total_contract_value) || 0;
+        const amount = convertDealAmount(value, deal, currency.rates, currency.reportingCurrency);
+
+        deals.push({
+          id: deal.id,
+          deal_name: deal.deal_name,
+          customer_name: deal.customer_name,
+          stage: deal.stage,
+          ownerId: getDealOwnerId(deal, profiles),
+          region: deal.region?.trim() || null,
+          category,
+          manualCategory,
+          closeDate,
+          probability,
+          amount,
+          weightedAmount: amount === null ? null : amount * probability / 100,
+        });
+      }
+
+      return {
+        deals,
+        targets: (targetsResult.data || []).map(t => ({
+          ...t,
+          period_type: t.period_type as ForecastPeriodType,
+          target: Number(t.target),
+        })),
+        snapshots: (snapshotsResult.data || []).map(s => ({
+          ...s,
+          category: s.category as ForecastCategory,
+          amount: Number(s.amount),
+          weighted_amount: Number(s.weighted_amount),
+        })),
+        profiles,
+        reportingCurrency: currency.reportingCurrency,
+      };
+    },
+  });
+};
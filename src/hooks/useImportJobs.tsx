@@ -0,0 +1,57 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { ImportEntity } from '@/hooks/import-export/importMapping';
+import { ImportJob, buildImportErrorReport, rollbackImportJob } from '@/hooks/import-export/importJobs';
+import { downloadCSV } from '@/utils/csvUtils';
+
+const IMPORT_JOBS_LIMIT = 50;
+
+// Recent import jobs for one entity, newest first, with error downloads and rollback
+export const useImportJobs = (entity: ImportEntity, enabled = true) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['import-jobs', entity];
+
+  const { data: jobs = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<ImportJob[]> => {
+      const { data, error } = await supabase
+        .from('import_jobs')
+        .select('*')
+        .eq('entity_type', entity)
+        .order('created_at', { ascending: false })
+        .limit(IMPORT_JOBS_LIMIT);
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user && enabled,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (job: ImportJob) => {
+      if (!user) throw new Error('User not authenticated');
+      return rollbackImportJob(job, user.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const downloadErrors = async (job: ImportJob) => {
+    const csv = await buildImportErrorReport(job);
+    const baseName = job.file_name.replace(/\.(csv|xlsx)$/i, '');
+    if (!downloadCSV(csv, `${baseName}_errors.csv`)) {
+      throw new Error('Failed to download CSV file');
+    }
+  };
+
+  return {
+    jobs,
+    isLoading,
+    rollback: rollbackMutation.mutateAsync,
+    isRollingBack: rollbackMutation.isPending,
+    downloadErrors,
+  };
+};
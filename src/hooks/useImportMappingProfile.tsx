@@ -0,0 +1,60 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { ImportEntity, ImportMappingProfile } from '@/hooks/import-export/importMapping';
+
+// The user's saved column mapping, default values and match options for imports of one entity
+export const useImportMappingProfile = (entity: ImportEntity) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['import-mapping-profile', entity, user?.id];
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<ImportMappingProfile | null> => {
+      const { data, error } = await supabase
+        .from('import_export_settings')
+        .select('field_mappings, default_values, match_options')
+        .eq('user_id', user!.id)
+        .eq('entity_type', entity)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        fieldMappings: (data.field_mappings as unknown as ImportMappingProfile['fieldMappings']) || {},
+        defaultValues: (data.default_values as unknown as ImportMappingProfile['defaultValues']) || {},
+        matchOptions: (data.match_options as unknown as ImportMappingProfile['matchOptions']) || undefined,
+      };
+    },
+    enabled: !!user,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: ImportMappingProfile) => {
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('import_export_settings')
+        .upsert({
+          user_id: user.id,
+          entity_type: entity,
+          field_mappings: JSON.parse(JSON.stringify(next.fieldMappings)),
+          default_values: next.defaultValues,
+          match_options: next.matchOptions ? JSON.parse(JSON.stringify(next.matchOptions)) : null,
+        }, { onConflict: 'user_id,entity_type' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return {
+    profile: profile ?? null,
+    isLoading: !!user && isLoading,
+    saveProfile: saveMutation.mutateAsync,
+  };
+};
@@ -1,8 +1,10 @@
 
 import { useState } from 'react';
+import type { PostgrestError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useCRUDAudit } from '@/hooks/useCRUDAudit';
+import { chunkIds } from '@/utils/tableQuery';
 
 export const useLeadDeletion = () => {
   const { toast } = useToast();
@@ -24,61 +26,68 @@ export const useLeadDeletion = () => {
       if (deleteLinkedRecords) {
         console.log('Cleaning up related records...');
         
-        // Clean up notifications that reference these leads directly
-        const { error: notificationLeadError } = await supabase
-          .from('notifications')
-          .delete()
-          .in('lead_id', leadIds);
+        // Selections can span every page, so linked records are cleaned up in batches
+        for (const batch of chunkIds(leadIds)) {
+          // Clean up notifications that reference these leads directly
+          const { error: notificationLeadError } = await supabase
+            .from('notifications')
+            .delete()
+            .in('lead_id', batch);
           
-        if (notificationLeadError) {
-          console.error('Error deleting notifications for leads:', notificationLeadError);
-          // Don't throw - continue with deletion as these are reference-based now
-        }
+          if (notificationLeadError) {
+            console.error('Error deleting notifications for leads:', notificationLeadError);
+            // Don't throw - continue with deletion as these are reference-based now
+          }
 
-        // Get action item IDs for cleanup
-        const { data: actionItems, error: actionItemsSelectError } = await supabase
-          .from('lead_action_items')
-          .select('id')
-          .in('lead_id', leadIds);
+          // Get action item IDs for cleanup
+          const { data: actionItems, error: actionItemsSelectError } = await supabase
+            .from('lead_action_items')
+            .select('id')
+            .in('lead_id', batch);
         
-        if (actionItemsSelectError) {
-          console.error('Error selecting action items:', actionItemsSelectError);
-          // Don't throw - continue with deletion
-        }
+          if (actionItemsSelectError) {
+            console.error('Error selecting action items:', actionItemsSelectError);
+            // Don't throw - continue with deletion
+          }
 
-        const actionItemIds = actionItems?.map(item => item.id) || [];
+          const actionItemIds = actionItems?.map(item => item.id) || [];
         
-        // Clean up notifications that reference action items
-        if (actionItemIds.length > 0) {
-          const { error: notificationActionError } = await supabase
-            .from('notifications')
-            .delete()
-            .in('action_item_id', actionItemIds);
+          // Clean up notifications that reference action items
+          if (actionItemIds.length > 0) {
+            const { error: notificationActionError } = await supabase
+              .from('notifications')
+              .delete()
+              .in('action_item_id', actionItemIds);
             
-          if (notificationActionError) {
-            console.error('Error deleting notifications for action items:', notificationActionError);
-            // Don't throw - continue with deletion as these are reference-based now
+            if (notificationActionError) {
+              console.error('Error deleting notifications for action items:', notificationActionError);
+              // Don't throw - continue with deletion as these are reference-based now
+            }
           }
-        }
 
-        // Delete action items
-        const { error: actionItemsDeleteError } = await supabase
-          .from('lead_action_items')
-          .delete()
-          .in('lead_id', leadIds);
+          // Delete action items
+          const { error: actionItemsDeleteError } = await supabase
+            .from('lead_action_items')
+            .delete()
+            .in('lead_id', batch);
 
-        if (actionItemsDeleteError) {
-          console.error('Error deleting lead action items:', actionItemsDeleteError);
-          // Don't throw - continue with deletion as these are reference-based now
+          if (actionItemsDeleteError) {
+            console.error('Error deleting lead action items:', actionItemsDeleteError);
+            // Don't throw - continue with deletion as these are reference-based now
+          }
         }
       }
 
       // Delete the leads - this should now work without foreign key constraints
       console.log('Deleting leads...');
-      const { error: leadsDeleteError } = await supabase
-        .from('leads')
-        .delete()
-        .in('id', leadIds);
+      let leadsDeleteError: PostgrestError | null = null;
+      for (const batch of chunkIds(leadIds)) {
+        ({ error: leadsDeleteError } = await supabase
+          .from('leads')
+          .delete()
+          .in('id', batch));
+        if (leadsDeleteError) break;
+      }
 
       if (leadsDeleteError) {
         console.error('Error deleting leads:', leadsDeleteError);
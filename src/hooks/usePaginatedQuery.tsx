@@ -0,0 +1,78 @@
+import { useCallback } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  TableQueryState,
+  applyTableFilters,
+  applyTableQuery,
+  fetchInBatches,
+  getTotalPages,
+} from '@/utils/tableQuery';
+
+export type PaginatedTable = 'accounts' | 'contacts' | 'deals' | 'leads';
+
+interface UsePaginatedQueryOptions {
+  table: PaginatedTable;
+  state: TableQueryState;
+  // Overrides the column used for state.sort, e.g. JSON paths of custom fields
+  sortColumn?: string | null;
+  // Columns to read, e.g. with embedded relations; defaults to every column
+  select?: string;
+  enabled?: boolean;
+}
+
+// Fetches one page of a table with its total count; the query key is shared per table
+// so pages can be refreshed with invalidateQueries({ queryKey: ['paginated', table] })
+export const usePaginatedQuery = <T,>({ table, state, sortColumn, select = '*', enabled = true }: UsePaginatedQueryOptions) => {
+  const query = useQuery({
+    queryKey: ['paginated', table, state, sortColumn, select],
+    queryFn: async () => {
+      const { data, count, error } = await applyTableQuery(
+        supabase.from(table).select(select, { count: 'exact' }),
+        state,
+        sortColumn
+      );
+      if (error) throw error;
+      return { rows: (data || []) as unknown as T[], totalCount: count || 0 };
+    },
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+  // Ids of every row matching the filters, for selections spanning all pages
+  const fetchAllIds = useCallback(async () => {
+    const rows = await fetchInBatches<{ id: string }>((from, to) =>
+      applyTableFilters(supabase.from(table).select('id'), state.filters)
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+    return rows.map(row => row.id);
+  }, [table, state.filters]);
+
+  const totalCount = query.data?.totalCount ?? 0;
+
+  return {
+    rows: query.data?.rows ?? [],
+    totalCount,
+    totalPages: getTotalPages(totalCount, state.pageSize),
+    loading: query.isLoading,
+    fetching: query.isFetching,
+    error: query.error,
+    refetch: query.refetch,
+    fetchAllIds,
+  };
+};
+
+// Distinct non-empty values of a column, used to populate filter dropdowns of paginated lists
+export const useDistinctValues = (table: PaginatedTable, column: string) => {
+  const { data = [] } = useQuery({
+    queryKey: ['distinct-values', table, column],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_distinct_values', { p_table: table, p_column: column });
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+  return data;
+};
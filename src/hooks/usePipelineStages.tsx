@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Deal,
+  DealStage,
+  PipelineStage,
+  DEFAULT_PIPELINE_STAGES,
+  getFinalStageOptions,
+  getMissingStageFields,
+  getNextStage,
+  getStageColor,
+  getStageProbability,
+  getStageStyle,
+  getStageTransitionUpdates,
+  isClosedStage,
+  isLostStage,
+  isStageTransitionAllowed,
+  isWonStage,
+} from '@/types/deal';
+
+export const PIPELINE_STAGES_QUERY_KEY = ['pipeline-stages'];
+
+// Loads the configured pipeline stages, falling back to the seeded defaults when
+// the table is empty or unreadable so the deals views never render without columns.
+export const fetchPipelineStages = async (): Promise<PipelineStage[]> => {
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('*')
+    .order('stage_order');
+
+  if (error) {
+    console.error('Error fetching pipeline stages:', error);
+    return DEFAULT_PIPELINE_STAGES;
+  }
+
+  if (!data || data.length === 0) {
+    return DEFAULT_PIPELINE_STAGES;
+  }
+
+  return data.map(stage => ({
+    id: stage.id,
+    stage_name: stage.stage_name,
+    stage_order: stage.stage_order,
+    stage_color: stage.stage_color || '#6b7280',
+    stage_probability: stage.stage_probability ?? 0,
+    is_active: stage.is_active ?? true,
+    is_won_stage: stage.is_won_stage ?? false,
+    is_lost_stage: stage.is_lost_stage ?? false,
+    is_quote_stage: stage.is_quote_stage ?? false,
+    is_projected_stage: stage.is_projected_stage ?? false,
+    is_dropped_stage: stage.is_dropped_stage ?? false,
+    allowed_next_stages: stage.allowed_next_stages,
+  }));
+};
+
+export const usePipelineStages = () => {
+  const { data: stages = DEFAULT_PIPELINE_STAGES, isLoading, refetch } = useQuery({
+    queryKey: PIPELINE_STAGES_QUERY_KEY,
+    queryFn: fetchPipelineStages,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const activeStages = useMemo(() => stages.filter(s => s.is_active), [stages]);
+  const stageNames = useMemo(() => stages.map(s => s.stage_name), [stages]);
+  const activeStageNames = useMemo(() => activeStages.map(s => s.stage_name), [activeStages]);
+
+  return {
+    stages,
+    activeStages,
+    stageNames,
+    activeStageNames,
+    firstStage: activeStageNames[0] || stageNames[0] || 'Lead',
+    isLoading,
+    refetch,
+    getStage: (stage: DealStage) => stages.find(s => s.stage_name === stage),
+    isWonStage: (stage: DealStage) => isWonStage(stage, stages),
+    isLostStage: (stage: DealStage) => isLostStage(stage, stages),
+    isClosedStage: (stage: DealStage) => isClosedStage(stage, stages),
+    getNextStage: (stage: DealStage) => getNextStage(stage, stages),
+    getFinalStageOptions: () => getFinalStageOptions(stages),
+    getStageColor: (stage: DealStage) => getStageColor(stage, stages),
+    getStageStyle: (stage: DealStage) => getStageStyle(stage, stages),
+    getStageProbability: (stage: DealStage) => getStageProbability(stage, stages),
+    getStageTransitionUpdates: (stage: DealStage) => getStageTransitionUpdates(stage, stages),
+    isStageTransitionAllowed: (fromStage: DealStage, toStage: DealStage) => isStageTransitionAllowed(fromStage, toStage, stages),
+    getMissingStageFields: (deal: Partial<Deal>, stage: DealStage) => getMissingStageFields(deal, stage, stages),
+  };
+};
@@ -5,10 +5,14 @@ import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { GenericCSVProcessor } from './import-export/genericCSVProcessor';
 import { GenericCSVExporter } from './import-export/genericCSVExporter';
-import { getExportFilename } from '@/utils/exportUtils';
+import { fetchCustomFieldsForTable } from './import-export/customFieldsMapper';
+import { ExportFormat, getExportFilename } from '@/utils/exportUtils';
+import { buildRecordsSheet, exportXlsx } from './import-export/xlsxExporter';
+import { ImportJobRecorder } from './import-export/importJobs';
+import { ImportMatchOptions } from './import-export/importMerge';
 
 // Contacts field order
-const CONTACTS_EXPORT_FIELDS = [
+export const CONTACTS_EXPORT_FIELDS = [
   'id', 'contact_name', 'company_name', 'position', 'email', 'phone_no',
   'linkedin', 'website', 'contact_source', 'industry', 'region',
   'description', 'contact_owner', 'created_by', 'modified_by',
@@ -19,7 +23,7 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
   const { user } = useAuth();
   const [isImporting, setIsImporting] = useState(false);
 
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, match?: ImportMatchOptions) => {
     if (!user?.id) {
       toast({
         title: "Error",
@@ -30,23 +34,39 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
     }
 
     setIsImporting(true);
+    let job: ImportJobRecorder | null = null;
     
     try {
-      const text = await file.text();
+      job = await ImportJobRecorder.start('contacts', file.name, user.id);
       const processor = new GenericCSVProcessor();
+      const progressToast = toast({
+        title: "Importing Contacts",
+        description: `Reading ${file.name}...`,
+      });
       
-      const result = await processor.processCSV(text, {
+      // The file is read in batches, so the total is an estimate until the last batch
+      const result = await processor.processCSV(file, {
         tableName: 'contacts',
         userId: user.id,
+        job,
+        match,
         onProgress: (processed, total) => {
           console.log(`Progress: ${processed}/${total}`);
+          progressToast.update({
+            id: progressToast.id,
+            title: "Importing Contacts",
+            description: `${processed.toLocaleString()} of ${processed < total ? '~' : ''}${total.toLocaleString()} rows processed`,
+          });
         }
       });
 
-      const { successCount, updateCount, errorCount } = result;
-      const message = `Import completed: ${successCount} new, ${updateCount} updated, ${errorCount} errors`;
+      await job.finish();
+
+      const { successCount, updateCount, duplicateCount, errorCount } = result;
+      const message = `Import completed: ${successCount} new, ${updateCount} updated, ${duplicateCount} skipped, ${errorCount} errors`
+        + (errorCount > 0 ? '. Failed rows can be downloaded from Import history.' : '');
       
-      if (successCount > 0 || updateCount > 0) {
+      if (successCount > 0 || updateCount > 0 || (duplicateCount > 0 && errorCount === 0)) {
         toast({
           title: "Import Successful",
           description: message,
@@ -68,6 +88,7 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
       }
 
     } catch (error: any) {
+      await job?.finish('failed');
       console.error('Import error:', error);
       toast({
         title: "Import Error",
@@ -79,7 +100,7 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (fileFormat: ExportFormat = 'csv') => {
     try {
       const { data: contacts, error } = await supabase
         .from('contacts')
@@ -97,9 +118,14 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
         return;
       }
 
-      const filename = getExportFilename('contacts', 'all');
-      const exporter = new GenericCSVExporter();
-      await exporter.exportToCSV(contacts, filename, CONTACTS_EXPORT_FIELDS);
+      const filename = getExportFilename('contacts', 'all', fileFormat);
+      const customFields = await fetchCustomFieldsForTable('contacts');
+      if (fileFormat === 'xlsx') {
+        await exportXlsx([await buildRecordsSheet('Contacts', contacts, CONTACTS_EXPORT_FIELDS, customFields)], filename);
+      } else {
+        const exporter = new GenericCSVExporter();
+        await exporter.exportToCSV(contacts, filename, CONTACTS_EXPORT_FIELDS, customFields);
+      }
 
       toast({
         title: "Export Successful",
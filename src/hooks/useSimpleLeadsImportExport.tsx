@@ -4,6 +4,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { LeadsCSVProcessor } from '@/hooks/import-export/leadsCSVProcessor';
 import { LeadsCSVExporter } from '@/hooks/import-export/leadsCSVExporter';
+import { ImportJobRecorder } from '@/hooks/import-export/importJobs';
+import { ImportMatchOptions } from '@/hooks/import-export/importMerge';
+import { ExportFormat, getExportFilename } from '@/utils/exportUtils';
 
 interface Lead {
   id: string;
@@ -29,31 +32,45 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
   const [isImporting, setIsImporting] = useState(false);
   const { toast } = useToast();
 
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, match?: ImportMatchOptions) => {
     setIsImporting(true);
+    let job: ImportJobRecorder | null = null;
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) {
         throw new Error('User not authenticated');
       }
+      job = await ImportJobRecorder.start('leads', file.name, user.id);
 
-      const text = await file.text();
       console.log('Starting leads import with new processor...');
+      const progressToast = toast({
+        title: "Importing Leads",
+        description: `Reading ${file.name}...`,
+      });
 
+      // The file is read in batches, so the total is an estimate until the last batch
       const processor = new LeadsCSVProcessor();
-      const result = await processor.processCSV(text, {
+      const result = await processor.processCSV(file, {
         userId: user.id,
+        job,
+        match,
         onProgress: (processed, total) => {
           console.log(`Processing: ${processed}/${total}`);
+          progressToast.update({
+            id: progressToast.id,
+            title: "Importing Leads",
+            description: `${processed.toLocaleString()} of ${processed < total ? '~' : ''}${total.toLocaleString()} rows processed`,
+          });
         }
       });
+      await job.finish();
 
       // Show results
-      if (result.successCount > 0 || result.updateCount > 0) {
+      if (result.successCount > 0 || result.updateCount > 0 || result.skippedCount > 0) {
         toast({
           title: "Import Successful",
-          description: `Successfully processed ${result.successCount + result.updateCount} leads (${result.successCount} new, ${result.updateCount} updated)${result.errorCount > 0 ? ` with ${result.errorCount} errors` : ''}`,
+          description: `Successfully processed ${result.successCount + result.updateCount + result.skippedCount} leads (${result.successCount} new, ${result.updateCount} updated, ${result.skippedCount} skipped)${result.assignedCount > 0 ? `, ${result.assignedCount} assigned by rules` : ''}${result.errorCount > 0 ? ` with ${result.errorCount} errors` : ''}`,
         });
       }
 
@@ -61,7 +78,7 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
         const errorSample = result.errors.slice(0, 3).join(', ');
         toast({
           title: "Import Errors",
-          description: `${result.errorCount} errors occurred. Sample: ${errorSample}${result.errors.length > 3 ? '...' : ''}`,
+          description: `${result.errorCount} errors occurred. Sample: ${errorSample}${result.errors.length > 3 ? '...' : ''}. Failed rows can be downloaded from Import history.`,
           variant: "destructive",
         });
       }
@@ -69,6 +86,7 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
       onImportComplete();
 
     } catch (error: any) {
+      await job?.finish('failed');
       console.error('Import failed:', error);
       toast({
         title: "Import Failed",
@@ -80,7 +98,7 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (fileFormat: ExportFormat = 'csv') => {
     try {
       const { data, error } = await supabase
         .from('leads')
@@ -101,6 +119,16 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
 
       console.log('Starting leads export with new exporter...');
       const exporter = new LeadsCSVExporter();
+
+      if (fileFormat === 'xlsx') {
+        await exporter.exportToXlsx(data, getExportFilename('leads', 'all', 'xlsx'));
+        toast({
+          title: "Export Successful",
+          description: `Exported ${data.length} leads to Excel.`,
+        });
+        return;
+      }
+
       const csvContent = await exporter.exportLeads(data);
 
       // Download the file
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { Deal, DealStage } from '@/types/deal';
+
+export interface PendingStageChange {
+  deal: Partial<Deal>;
+  stage: DealStage;
+  missingFields: string[];
+  onConfirm: (updates: Partial<Deal>) => Promise<void> | void;
+}
+
+// Runs a stage change through the pipeline's gates: moves the source stage doesn't allow are
+// rejected, and the target stage's required fields are collected in StageGateDialog first.
+export const useStageGate = () => {
+  const { toast } = useToast();
+  const { getStage, isStageTransitionAllowed, getMissingStageFields, getStageTransitionUpdates } = usePipelineStages();
+  const [pending, setPending] = useState<PendingStageChange | null>(null);
+
+  const requestStageChange = (
+    deal: Partial<Deal>,
+    stage: DealStage,
+    onConfirm: PendingStageChange['onConfirm']
+  ) => {
+    if (deal.stage && !isStageTransitionAllowed(deal.stage, stage)) {
+      toast({
+        title: "Move not allowed",
+        description: `Deals in ${deal.stage} can only move to ${getStage(deal.stage)?.allowed_next_stages?.join(', ')}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const updates = getStageTransitionUpdates(stage);
+    const missingFields = getMissingStageFields({ ...deal, ...updates }, stage);
+    // Callers report their own failures; they rethrow so StageGateDialog stays open
+    if (missingFields.length === 0) {
+      Promise.resolve(onConfirm(updates)).catch(error => console.error('Stage change failed:', error));
+      return;
+    }
+    setPending({ deal, stage, missingFields, onConfirm });
+  };
+
+  const confirm = async (values: Partial<Deal>) => {
+    if (!pending) return;
+    await pending.onConfirm({ ...values, ...getStageTransitionUpdates(pending.stage) });
+    setPending(null);
+  };
+
+  return {
+    requestStageChange,
+    stageGateProps: {
+      pending,
+      onCancel: () => setPending(null),
+      onConfirm: confirm,
+    },
+  };
+};
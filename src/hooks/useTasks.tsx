@@ -2,7 +2,116 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
-import { Task, CreateTaskData, TaskStatus } from '@/types/task';
+import { Task, CreateTaskData, TaskStatus, RecurrenceEditScope, TaskSubtask, TaskSubtaskDraft, TaskUpdateData } from '@/types/task';
+import { addDays, format, parseISO } from 'date-fns';
+import {
+  buildNextOccurrence,
+  getLatestOccurrence,
+  getRecurrenceSeriesId,
+  isRecurringTask,
+} from '@/utils/taskRecurrence';
+import { countOpenItems } from '@/utils/taskHierarchy';
+
+// Replaces a task's checklist with the given items, keeping their order
+const syncTaskSubtasks = async (taskId: string, drafts: TaskSubtaskDraft[]) => {
+  const { data: existing, error: fetchError } = await supabase
+    .from('task_subtasks')
+    .select('id')
+    .eq('task_id', taskId);
+  if (fetchError) throw fetchError;
+
+  const keepIds = new Set(drafts.filter(d => d.id).map(d => d.id));
+  const removedIds = (existing || []).map(s => s.id).filter(id => !keepIds.has(id));
+  if (removedIds.length > 0) {
+    const { error } = await supabase.from('task_subtasks').delete().in('id', removedIds);
+    if (error) throw error;
+  }
+
+  const rows = drafts.map((draft, index) => ({
+    ...(draft.id ? { id: draft.id } : {}),
+    task_id: taskId,
+    title: draft.title,
+    is_completed: draft.is_completed,
+    order_index: index,
+  }));
+  if (rows.length > 0) {
+    const { error } = await supabase.from('task_subtasks').upsert(rows);
+    if (error) throw error;
+  }
+};
+
+// Open checklist items and child tasks; pending checklist edits take the place of the stored items
+const countOpenSubtasks = async (taskId: string, drafts?: TaskSubtaskDraft[]) => {
+  const [subtasksRes, childrenRes] = await Promise.all([
+    drafts ? Promise.resolve({ data: drafts, error: null }) : supabase.from('task_subtasks').select('is_completed').eq('task_id', taskId),
+    supabase.from('tasks').select('status').eq('parent_task_id', taskId),
+  ]);
+  if (subtasksRes.error) throw subtasksRes.error;
+  if (childrenRes.error) throw childrenRes.error;
+  return countOpenItems(subtasksRes.data || [], (childrenRes.data || []) as Pick<Task, 'status'>[]);
+};
+
+const fetchSeries = async (seriesId: string) => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .or(`id.eq.${seriesId},recurrence_series_id.eq.${seriesId}`);
+
+  if (error) throw error;
+  return (data || []) as Task[];
+};
+
+// Returns whether a row was added; a concurrent client creating the same occurrence is not an error
+const insertNextOccurrence = async (series: Task[]) => {
+  const occurrence = buildNextOccurrence(series, format(new Date(), 'yyyy-MM-dd'));
+  const latest = getLatestOccurrence(series);
+  if (!occurrence || !latest) return false;
+
+  const { data, error } = await supabase.from('tasks').insert(occurrence).select('id').single();
+  if (error) {
+    if (error.code !== '23505') throw error;
+    return false;
+  }
+
+  // Each occurrence starts with a fresh copy of the checklist
+  const { data: checklist } = await supabase
+    .from('task_subtasks')
+    .select('title, order_index')
+    .eq('task_id', latest.id)
+    .order('order_index');
+  if (checklist && checklist.length > 0) {
+    await supabase.from('task_subtasks').insert(
+      checklist.map(item => ({ ...item, task_id: data.id, is_completed: false }))
+    );
+  }
+  return true;
+};
+
+// Series that regenerate on schedule get their next occurrence once the latest one's due date has passed
+const materializeScheduledOccurrences = async (tasks: Task[]) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const seriesById = new Map<string, Task[]>();
+  tasks
+    .filter(task => task.recurrence_trigger === 'schedule' && isRecurringTask(task))
+    .forEach(task => {
+      const seriesId = getRecurrenceSeriesId(task);
+      seriesById.set(seriesId, [...(seriesById.get(seriesId) || []), task]);
+    });
+
+  let created = false;
+  for (const series of seriesById.values()) {
+    const latest = getLatestOccurrence(series);
+    if (!latest?.due_date || latest.due_date >= today) continue;
+    if (await insertNextOccurrence(series)) created = true;
+  }
+  return created;
+};
+
+// Fields of an edit that carry over to the later occurrences of a series
+const getSeriesUpdates = (updates: Omit<TaskUpdateData, 'subtasks'>) => {
+  const { status, due_date, reminder_date, completed_at, ...shared } = updates;
+  return shared;
+};
 
 export const useTasks = () => {
   const { user } = useAuth();
@@ -12,7 +121,7 @@ export const useTasks = () => {
   const fetchTasks = useCallback(async () => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
+      const loadTasks = () => supabase
         .from('tasks')
         .select(`
           *,
@@ -20,12 +129,19 @@ export const useTasks = () => {
           contacts:contact_id (contact_name, account_id, accounts:account_id (company_name)),
           deals:deal_id (deal_name, stage),
           accounts:account_id (company_name),
-          meetings:meeting_id (subject, start_time)
+          meetings:meeting_id (subject, start_time),
+          task_subtasks (id, task_id, title, is_completed, order_index)
         `)
         .order('created_at', { ascending: false });
 
+      let { data, error } = await loadTasks();
       if (error) throw error;
 
+      if (await materializeScheduledOccurrences((data || []) as Task[])) {
+        ({ data, error } = await loadTasks());
+        if (error) throw error;
+      }
+
       const transformedData = (data || []).map(task => ({
         ...task,
         lead_name: task.leads?.lead_name || null,
@@ -36,6 +152,7 @@ export const useTasks = () => {
         meeting_subject: task.meetings?.subject || null,
         contact_account_name: task.contacts?.accounts?.company_name || null,
         lead_account_name: task.leads?.accounts?.company_name || null,
+        subtasks: [...(task.task_subtasks || [])].sort((a: TaskSubtask, b: TaskSubtask) => a.order_index - b.order_index),
       })) as Task[];
 
       setTasks(transformedData);
@@ -58,10 +175,11 @@ export const useTasks = () => {
     }
 
     try {
+      const { subtasks, ...taskFields } = taskData;
       const { data, error } = await supabase
         .from('tasks')
         .insert({
-          ...taskData,
+          ...taskFields,
           created_by: user.id,
         })
         .select()
@@ -69,6 +187,10 @@ export const useTasks = () => {
 
       if (error) throw error;
 
+      if (subtasks && subtasks.length > 0) {
+        await syncTaskSubtasks(data.id, subtasks);
+      }
+
       // Create notification for assigned user if different from creator
       if (taskData.assigned_to && taskData.assigned_to !== user.id) {
         await supabase.from('notifications').insert({
@@ -88,10 +210,60 @@ export const useTasks = () => {
     }
   };
 
-  const updateTask = async (taskId: string, updates: Partial<Task>, originalTask?: Task) => {
+  // Applies "this and following occurrences" edits; a later occurrence becomes the first task of a new series
+  const updateFutureOccurrences = async (task: Task, updates: Omit<TaskUpdateData, 'subtasks'>) => {
+    if (!task.due_date) return;
+    const seriesId = getRecurrenceSeriesId(task);
+    const shared = getSeriesUpdates(updates);
+
+    if (task.recurrence_series_id) {
+      const { error: splitError } = await supabase
+        .from('tasks')
+        .update({ ...shared, recurrence_series_id: task.id })
+        .eq('recurrence_series_id', seriesId)
+        .gt('due_date', task.due_date);
+      if (splitError) throw splitError;
+
+      // The earlier occurrences keep the old rule but now end the day before this one
+      const { error: endError } = await supabase
+        .from('tasks')
+        .update({ recurrence_end_date: format(addDays(parseISO(task.due_date), -1), 'yyyy-MM-dd') })
+        .or(`id.eq.${seriesId},recurrence_series_id.eq.${seriesId}`)
+        .lt('due_date', task.due_date);
+      if (endError) throw endError;
+    } else {
+      const { error } = await supabase
+        .from('tasks')
+        .update(shared)
+        .eq('recurrence_series_id', task.id)
+        .gt('due_date', task.due_date);
+      if (error) throw error;
+    }
+  };
+
+  const updateTask = async (
+    taskId: string,
+    { subtasks, ...updates }: TaskUpdateData,
+    originalTask?: Task,
+    scope: RecurrenceEditScope = 'this'
+  ) => {
     if (!user?.id) return false;
 
     try {
+      // Parents can be set to stay open until everything under them is done
+      const requiresSubtasks = updates.require_subtasks_complete ?? originalTask?.require_subtasks_complete;
+      if (updates.status === 'completed' && requiresSubtasks) {
+        const openCount = await countOpenSubtasks(taskId, subtasks);
+        if (openCount > 0) {
+          toast({
+            title: "Task has open subtasks",
+            description: `Complete the ${openCount} open subtask${openCount === 1 ? '' : 's'} before completing this task`,
+            variant: "destructive",
+          });
+          return false;
+        }
+      }
+
       const updateData: any = { ...updates };
       
       // If status is changing to completed, set completed_at
@@ -101,6 +273,11 @@ export const useTasks = () => {
         updateData.completed_at = null;
       }
 
+      const isFutureEdit = scope === 'future' && originalTask && isRecurringTask(originalTask);
+      if (isFutureEdit && originalTask.recurrence_series_id) {
+        updateData.recurrence_series_id = null;
+      }
+
       const { error } = await supabase
         .from('tasks')
         .update(updateData)
@@ -108,6 +285,24 @@ export const useTasks = () => {
 
       if (error) throw error;
 
+      if (subtasks) {
+        await syncTaskSubtasks(taskId, subtasks);
+      }
+
+      if (isFutureEdit) {
+        await updateFutureOccurrences(originalTask, updates);
+      }
+
+      // Completing an occurrence of a completion-triggered series creates the next one
+      if (updates.status === 'completed' && originalTask && originalTask.status !== 'completed') {
+        const task: Task = { ...originalTask, ...updateData };
+        if (task.recurrence_trigger === 'completion' && isRecurringTask(task)) {
+          const series = await fetchSeries(getRecurrenceSeriesId(task));
+          // Skip when a later occurrence already exists
+          if (getLatestOccurrence(series)?.id === taskId) await insertNextOccurrence(series);
+        }
+      }
+
       // Create notifications for changes
       if (originalTask) {
         // Notify on reassignment
@@ -2,6 +2,10 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
+import { fetchPipelineStages } from "@/hooks/usePipelineStages";
+import { isProjectedStage, isWonStage } from "@/types/deal";
+import { fetchCurrencyContext } from "@/hooks/useCurrency";
+import { CurrencyAmountSource, convertDealAmount } from "@/utils/currency";
 
 interface QuarterlyData {
   q1: number;
@@ -18,8 +22,28 @@ interface YearlyRevenueData {
   totalActual: number;
   totalProjected: number;
   hasDeals: boolean;
+  // Amounts are in this currency; deals without a known rate are counted unconverted
+  currency: string;
+  unconvertedDeals: number;
 }
 
+// Converts deal amounts into the reporting currency and remembers the deals it couldn't convert
+const createReportingConverter = async () => {
+  const { reportingCurrency, rates } = await fetchCurrencyContext();
+  const unconverted = new Set<string>();
+
+  const toReporting = (deal: CurrencyAmountSource & { id: string }, amount: number) => {
+    const converted = convertDealAmount(amount, deal, rates, reportingCurrency);
+    if (converted === null) {
+      unconverted.add(deal.id);
+      return amount;
+    }
+    return converted;
+  };
+
+  return { reportingCurrency, toReporting, unconverted };
+};
+
 export const useYearlyRevenueData = (selectedYear: number) => {
   const { data: revenueData, isLoading, error } = useQuery({
     queryKey: ['yearly-revenue', selectedYear],
@@ -42,6 +66,9 @@ export const useYearlyRevenueData = (selectedYear: number) => {
 
       console.log('All deals:', allDeals);
 
+      const stages = await fetchPipelineStages();
+      const { reportingCurrency, toReporting, unconverted } = await createReportingConverter();
+
       // Filter deals by year based on expected_closing_date or signed_contract_date
       const dealsForYear = allDeals?.filter(deal => {
         const expectedClosingDate = deal.expected_closing_date ? new Date(deal.expected_closing_date).getFullYear() : null;
@@ -61,16 +88,18 @@ export const useYearlyRevenueData = (selectedYear: number) => {
           projectedRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
           totalActual: 0,
           totalProjected: 0,
-          hasDeals: false
+          hasDeals: false,
+          currency: reportingCurrency,
+          unconvertedDeals: 0
         };
       }
 
-      // Separate Won and RFQ deals from filtered results
-      const wonDeals = dealsForYear.filter(deal => deal.stage === 'Won');
-      const rfqDeals = dealsForYear.filter(deal => deal.stage === 'RFQ');
+      // Separate Won deals and deals in the projected stages (RFQ by default) from filtered results
+      const wonDeals = dealsForYear.filter(deal => isWonStage(deal.stage, stages));
+      const projectedDeals = dealsForYear.filter(deal => isProjectedStage(deal.stage, stages));
 
       console.log('Won deals for year:', wonDeals);
-      console.log('RFQ deals for year:', rfqDeals);
+      console.log('Projected deals for year:', projectedDeals);
 
       const actualRevenue: QuarterlyData = { q1: 0, q2: 0, q3: 0, q4: 0 };
       const projectedRevenue: QuarterlyData = { q1: 0, q2: 0, q3: 0, q4: 0 };
@@ -83,32 +112,32 @@ export const useYearlyRevenueData = (selectedYear: number) => {
         console.log('Processing Won deal:', deal.deal_name, 'Total Revenue:', deal.total_revenue);
         
         if (deal.total_revenue) {
-          const revenue = Number(deal.total_revenue);
+          const revenue = toReporting(deal, Number(deal.total_revenue));
           if (!isNaN(revenue)) {
             totalActualRevenue += revenue;
             console.log('Added actual revenue:', revenue, 'Running total:', totalActualRevenue);
             
             // Quarterly breakdown for actual revenue (Q1-Q4 Revenue from Won deals)
             if (deal.quarterly_revenue_q1) {
-              const q1Revenue = Number(deal.quarterly_revenue_q1);
+              const q1Revenue = toReporting(deal, Number(deal.quarterly_revenue_q1));
               if (!isNaN(q1Revenue)) {
                 actualRevenue.q1 += q1Revenue;
               }
             }
             if (deal.quarterly_revenue_q2) {
-              const q2Revenue = Number(deal.quarterly_revenue_q2);
+              const q2Revenue = toReporting(deal, Number(deal.quarterly_revenue_q2));
               if (!isNaN(q2Revenue)) {
                 actualRevenue.q2 += q2Revenue;
               }
             }
             if (deal.quarterly_revenue_q3) {
-              const q3Revenue = Number(deal.quarterly_revenue_q3);
+              const q3Revenue = toReporting(deal, Number(deal.quarterly_revenue_q3));
               if (!isNaN(q3Revenue)) {
                 actualRevenue.q3 += q3Revenue;
               }
             }
             if (deal.quarterly_revenue_q4) {
-              const q4Revenue = Number(deal.quarterly_revenue_q4);
+              const q4Revenue = toReporting(deal, Number(deal.quarterly_revenue_q4));
               if (!isNaN(q4Revenue)) {
                 actualRevenue.q4 += q4Revenue;
               }
@@ -117,12 +146,12 @@ export const useYearlyRevenueData = (selectedYear: number) => {
         }
       });
 
-      // Process RFQ deals for projected revenue - sum all TCV values by expected closing quarter
-      rfqDeals?.forEach(deal => {
-        console.log('Processing RFQ deal:', deal.deal_name, 'Total Contract Value:', deal.total_contract_value, 'Expected Closing:', deal.expected_closing_date);
+      // Process projected deals for projected revenue - sum all TCV values by expected closing quarter
+      projectedDeals?.forEach(deal => {
+        console.log('Processing projected deal:', deal.deal_name, 'Total Contract Value:', deal.total_contract_value, 'Expected Closing:', deal.expected_closing_date);
         
         if (deal.total_contract_value) {
-          const contractValue = Number(deal.total_contract_value);
+          const contractValue = toReporting(deal, Number(deal.total_contract_value));
           if (!isNaN(contractValue)) {
             totalProjectedRevenue += contractValue;
             console.log('Added projected revenue:', contractValue, 'Running total:', totalProjectedRevenue);
@@ -175,7 +204,9 @@ export const useYearlyRevenueData = (selectedYear: number) => {
         projectedRevenue,
         totalActual: totalActualRevenue,
         totalProjected: totalProjectedRevenue,
-        hasDeals: true
+        hasDeals: true,
+        currency: reportingCurrency,
+        unconvertedDeals: unconverted.size
       };
     },
   });
@@ -236,6 +267,9 @@ export const useDashboardStats = () => {
 
       console.log('All deals for dashboard stats:', deals);
 
+      const stages = await fetchPipelineStages();
+      const { reportingCurrency, toReporting } = await createReportingConverter();
+
       const totalDeals = deals?.length || 0;
       
       // Calculate total revenue from Won deals using total_revenue field
@@ -243,8 +277,8 @@ export const useDashboardStats = () => {
       deals?.forEach(deal => {
         console.log('Processing deal for dashboard:', deal.deal_name, 'Stage:', deal.stage, 'Total Revenue:', deal.total_revenue);
         
-        if (deal.stage === 'Won' && deal.total_revenue) {
-          const revenue = Number(deal.total_revenue);
+        if (isWonStage(deal.stage, stages) && deal.total_revenue) {
+          const revenue = toReporting(deal, Number(deal.total_revenue));
           totalRevenue += revenue;
           console.log('Adding revenue from Won deal:', revenue, 'Running total:', totalRevenue);
         }
@@ -252,11 +286,12 @@ export const useDashboardStats = () => {
       
       console.log('Final dashboard total revenue:', totalRevenue);
       
-      const wonDeals = deals?.filter(deal => deal.stage === 'Won').length || 0;
+      const wonDeals = deals?.filter(deal => isWonStage(deal.stage, stages)).length || 0;
 
       return {
         totalDeals,
         totalRevenue,
+        currency: reportingCurrency,
         wonDeals,
         todayMeetings: 0 // Remove meetings dependency
       };
@@ -73,6 +73,7 @@ export type Database = {
           country: string | null
           created_at: string | null
           created_by: string | null
+          custom_fields: Json
           deal_count: number | null
           email: string | null
           id: string
@@ -98,6 +99,7 @@ export type Database = {
           country?: string | null
           created_at?: string | null
           created_by?: string | null
+          custom_fields?: Json
           deal_count?: number | null
           email?: string | null
           id?: string
@@ -123,6 +125,7 @@ export type Database = {
           country?: string | null
           created_at?: string | null
           created_by?: string | null
+          custom_fields?: Json
           deal_count?: number | null
           email?: string | null
           id?: string
@@ -142,6 +145,54 @@ export type Database = {
         }
         Relationships: []
       }
+      backup_settings: {
+        Row: {
+          created_at: string
+          frequency: string
+          id: string
+          keep_daily: number
+          keep_monthly: number
+          keep_weekly: number
+          last_error: string | null
+          last_run_at: string | null
+          last_run_status: string | null
+          schedule_enabled: boolean
+          singleton: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          frequency?: string
+          id?: string
+          keep_daily?: number
+          keep_monthly?: number
+          keep_weekly?: number
+          last_error?: string | null
+          last_run_at?: string | null
+          last_run_status?: string | null
+          schedule_enabled?: boolean
+          singleton?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          frequency?: string
+          id?: string
+          keep_daily?: number
+          keep_monthly?: number
+          keep_weekly?: number
+          last_error?: string | null
+          last_run_at?: string | null
+          last_run_status?: string | null
+          schedule_enabled?: boolean
+          singleton?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       backups: {
         Row: {
           backup_type: string
@@ -244,6 +295,7 @@ export type Database = {
           contact_source: string | null
           created_by: string | null
           created_time: string | null
+          custom_fields: Json
           description: string | null
           email: string | null
           email_clicks: number | null
@@ -272,6 +324,7 @@ export type Database = {
           contact_source?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           email_clicks?: number | null
@@ -300,6 +353,7 @@ export type Database = {
           contact_source?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           email_clicks?: number | null
@@ -374,6 +428,33 @@ export type Database = {
         }
         Relationships: []
       }
+      currency_settings: {
+        Row: {
+          created_at: string
+          id: string
+          reporting_currency: string
+          singleton: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          singleton?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          singleton?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       dashboard_preferences: {
         Row: {
           card_order: Json | null
@@ -454,6 +535,166 @@ export type Database = {
           },
         ]
       }
+      deal_line_items: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          deal_id: string
+          description: string | null
+          discount_percent: number
+          id: string
+          name: string
+          position: number
+          product_id: string | null
+          quantity: number
+          tax_rate: number
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          deal_id: string
+          description?: string | null
+          discount_percent?: number
+          id?: string
+          name: string
+          position?: number
+          product_id?: string | null
+          quantity?: number
+          tax_rate?: number
+          unit_price?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          deal_id?: string
+          description?: string | null
+          discount_percent?: number
+          id?: string
+          name?: string
+          position?: number
+          product_id?: string | null
+          quantity?: number
+          tax_rate?: number
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_line_items_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deal_line_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deal_quotes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string
+          deal_id: string
+          discount_total: number
+          file_path: string
+          id: string
+          line_items: Json
+          quote_number: string
+          subtotal: number
+          tax_total: number
+          total: number
+          valid_until: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          deal_id: string
+          discount_total?: number
+          file_path: string
+          id?: string
+          line_items?: Json
+          quote_number: string
+          subtotal?: number
+          tax_total?: number
+          total?: number
+          valid_until?: string | null
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          deal_id?: string
+          discount_total?: number
+          file_path?: string
+          id?: string
+          line_items?: Json
+          quote_number?: string
+          subtotal?: number
+          tax_total?: number
+          total?: number
+          valid_until?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_quotes_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deal_stage_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          deal_id: string
+          from_stage: string | null
+          id: string
+          seconds_in_from_stage: number | null
+          to_stage: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          deal_id: string
+          from_stage?: string | null
+          id?: string
+          seconds_in_from_stage?: number | null
+          to_stage: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          deal_id?: string
+          from_stage?: string | null
+          id?: string
+          seconds_in_from_stage?: number | null
+          to_stage?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_stage_history_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deals: {
         Row: {
           action_items: string | null
@@ -464,6 +705,7 @@ export type Database = {
           created_by: string | null
           currency_type: string | null
           current_status: string | null
+          custom_fields: Json
           customer_challenges: string | null
           customer_name: string | null
           customer_need: string | null
@@ -472,6 +714,7 @@ export type Database = {
           drop_reason: string | null
           end_date: string | null
           expected_closing_date: string | null
+          forecast_category: string | null
           handoff_status: string | null
           id: string
           implementation_start_date: string | null
@@ -479,6 +722,9 @@ export type Database = {
           is_recurring: string | null
           lead_name: string | null
           lead_owner: string | null
+          locked_exchange_rate: number | null
+          locked_rate_currency: string | null
+          locked_rate_date: string | null
           lost_reason: string | null
           modified_at: string | null
           modified_by: string | null
@@ -512,6 +758,7 @@ export type Database = {
           created_by?: string | null
           currency_type?: string | null
           current_status?: string | null
+          custom_fields?: Json
           customer_challenges?: string | null
           customer_name?: string | null
           customer_need?: string | null
@@ -520,6 +767,7 @@ export type Database = {
           drop_reason?: string | null
           end_date?: string | null
           expected_closing_date?: string | null
+          forecast_category?: string | null
           handoff_status?: string | null
           id?: string
           implementation_start_date?: string | null
@@ -527,6 +775,9 @@ export type Database = {
           is_recurring?: string | null
           lead_name?: string | null
           lead_owner?: string | null
+          locked_exchange_rate?: number | null
+          locked_rate_currency?: string | null
+          locked_rate_date?: string | null
           lost_reason?: string | null
           modified_at?: string | null
           modified_by?: string | null
@@ -560,6 +811,7 @@ export type Database = {
           created_by?: string | null
           currency_type?: string | null
           current_status?: string | null
+          custom_fields?: Json
           customer_challenges?: string | null
           customer_name?: string | null
           customer_need?: string | null
@@ -568,6 +820,7 @@ export type Database = {
           drop_reason?: string | null
           end_date?: string | null
           expected_closing_date?: string | null
+          forecast_category?: string | null
           handoff_status?: string | null
           id?: string
           implementation_start_date?: string | null
@@ -575,6 +828,9 @@ export type Database = {
           is_recurring?: string | null
           lead_name?: string | null
           lead_owner?: string | null
+          locked_exchange_rate?: number | null
+          locked_rate_currency?: string | null
+          locked_rate_date?: string | null
           lost_reason?: string | null
           modified_at?: string | null
           modified_by?: string | null
@@ -608,16 +864,21 @@ export type Database = {
           click_count: number | null
           clicked_at: string | null
           contact_id: string | null
+          conversation_id: string | null
           created_at: string
           id: string
+          is_html: boolean
           lead_id: string | null
           open_count: number | null
           opened_at: string | null
           recipient_email: string
           recipient_name: string | null
+          replied_at: string | null
           sender_email: string
           sent_at: string
           sent_by: string | null
+          sequence_enrollment_id: string | null
+          sequence_step_id: string | null
           status: string
           subject: string
           updated_at: string
@@ -628,16 +889,21 @@ export type Database = {
           click_count?: number | null
           clicked_at?: string | null
           contact_id?: string | null
+          conversation_id?: string | null
           created_at?: string
           id?: string
+          is_html?: boolean
           lead_id?: string | null
           open_count?: number | null
           opened_at?: string | null
           recipient_email: string
           recipient_name?: string | null
+          replied_at?: string | null
           sender_email: string
           sent_at?: string
           sent_by?: string | null
+          sequence_enrollment_id?: string | null
+          sequence_step_id?: string | null
           status?: string
           subject: string
           updated_at?: string
@@ -648,16 +914,21 @@ export type Database = {
           click_count?: number | null
           clicked_at?: string | null
           contact_id?: string | null
+          conversation_id?: string | null
           created_at?: string
           id?: string
+          is_html?: boolean
           lead_id?: string | null
           open_count?: number | null
           opened_at?: string | null
           recipient_email?: string
           recipient_name?: string | null
+          replied_at?: string | null
           sender_email?: string
           sent_at?: string
           sent_by?: string | null
+          sequence_enrollment_id?: string | null
+          sequence_step_id?: string | null
           status?: string
           subject?: string
           updated_at?: string
@@ -684,38 +955,434 @@ export type Database = {
             referencedRelation: "leads"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "email_history_sequence_enrollment_id_fkey"
+            columns: ["sequence_enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_history_sequence_step_id_fkey"
+            columns: ["sequence_step_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_steps"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      email_replies: {
+        Row: {
+          account_id: string | null
+          body: string | null
+          body_preview: string | null
+          contact_id: string | null
+          conversation_id: string | null
+          created_at: string
+          email_history_id: string | null
+          from_email: string
+          from_name: string | null
+          graph_message_id: string
+          id: string
+          internet_message_id: string | null
+          is_auto_reply: boolean
+          is_html: boolean
+          lead_id: string | null
+          mailbox: string
+          received_at: string
+          subject: string | null
+        }
+        Insert: {
+          account_id?: string | null
+          body?: string | null
+          body_preview?: string | null
+          contact_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          email_history_id?: string | null
+          from_email: string
+          from_name?: string | null
+          graph_message_id: string
+          id?: string
+          internet_message_id?: string | null
+          is_auto_reply?: boolean
+          is_html?: boolean
+          lead_id?: string | null
+          mailbox: string
+          received_at: string
+          subject?: string | null
+        }
+        Update: {
+          account_id?: string | null
+          body?: string | null
+          body_preview?: string | null
+          contact_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          email_history_id?: string | null
+          from_email?: string
+          from_name?: string | null
+          graph_message_id?: string
+          id?: string
+          internet_message_id?: string | null
+          is_auto_reply?: boolean
+          is_html?: boolean
+          lead_id?: string | null
+          mailbox?: string
+          received_at?: string
+          subject?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_replies_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_replies_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_replies_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_replies_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequence_enrollments: {
+        Row: {
+          contact_id: string | null
+          current_step: number
+          enrolled_at: string
+          enrolled_by: string | null
+          id: string
+          last_sent_at: string | null
+          lead_id: string | null
+          lead_status_at_enrollment: string | null
+          next_send_at: string | null
+          next_step_id: string | null
+          recipient_email: string
+          recipient_name: string | null
+          sender_email: string
+          sequence_id: string
+          status: string
+          stop_reason: string | null
+          updated_at: string
+        }
+        Insert: {
+          contact_id?: string | null
+          current_step?: number
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          last_sent_at?: string | null
+          lead_id?: string | null
+          lead_status_at_enrollment?: string | null
+          next_send_at?: string | null
+          next_step_id?: string | null
+          recipient_email: string
+          recipient_name?: string | null
+          sender_email: string
+          sequence_id: string
+          status?: string
+          stop_reason?: string | null
+          updated_at?: string
+        }
+        Update: {
+          contact_id?: string | null
+          current_step?: number
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          last_sent_at?: string | null
+          lead_id?: string | null
+          lead_status_at_enrollment?: string | null
+          next_send_at?: string | null
+          next_step_id?: string | null
+          recipient_email?: string
+          recipient_name?: string | null
+          sender_email?: string
+          sequence_id?: string
+          status?: string
+          stop_reason?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_enrollments_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_next_step_id_fkey"
+            columns: ["next_step_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_steps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequence_steps: {
+        Row: {
+          created_at: string
+          delay_days: number
+          id: string
+          sequence_id: string
+          step_order: number
+          template_id: string
+        }
+        Insert: {
+          created_at?: string
+          delay_days?: number
+          id?: string
+          sequence_id: string
+          step_order: number
+          template_id: string
+        }
+        Update: {
+          created_at?: string
+          delay_days?: number
+          id?: string
+          sequence_id?: string
+          step_order?: number
+          template_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_steps_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_steps_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequences: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          stop_on_click: boolean
+          stop_on_reply: boolean
+          stop_on_status_change: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          stop_on_click?: boolean
+          stop_on_reply?: boolean
+          stop_on_status_change?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          stop_on_click?: boolean
+          stop_on_reply?: boolean
+          stop_on_status_change?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_sync_mailboxes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          inbox_cursor: string | null
+          is_enabled: boolean
+          last_error: string | null
+          last_synced_at: string | null
+          mailbox: string
+          sent_cursor: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          inbox_cursor?: string | null
+          is_enabled?: boolean
+          last_error?: string | null
+          last_synced_at?: string | null
+          mailbox: string
+          sent_cursor?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          inbox_cursor?: string | null
+          is_enabled?: boolean
+          last_error?: string | null
+          last_synced_at?: string | null
+          mailbox?: string
+          sent_cursor?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       email_templates: {
         Row: {
-          body: string
+          body: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_html: boolean
+          name: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_html?: boolean
+          name: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_html?: boolean
+          name?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          base_currency: string
           created_at: string
           created_by: string | null
+          effective_date: string
           id: string
-          name: string
-          subject: string
+          quote_currency: string
+          rate: number
+          source: string
           updated_at: string
         }
         Insert: {
-          body: string
+          base_currency: string
           created_at?: string
           created_by?: string | null
+          effective_date?: string
           id?: string
-          name: string
-          subject: string
+          quote_currency: string
+          rate: number
+          source?: string
           updated_at?: string
         }
         Update: {
-          body?: string
+          base_currency?: string
           created_at?: string
           created_by?: string | null
+          effective_date?: string
           id?: string
-          name?: string
-          subject?: string
+          quote_currency?: string
+          rate?: number
+          source?: string
           updated_at?: string
         }
         Relationships: []
       }
+      forecast_snapshots: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          currency: string
+          deal_count: number
+          id: string
+          owner_id: string | null
+          period_start: string
+          region: string | null
+          snapshot_date: string
+          weighted_amount: number
+        }
+        Insert: {
+          amount?: number
+          category: string
+          created_at?: string
+          currency: string
+          deal_count?: number
+          id?: string
+          owner_id?: string | null
+          period_start: string
+          region?: string | null
+          snapshot_date?: string
+          weighted_amount?: number
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          currency?: string
+          deal_count?: number
+          id?: string
+          owner_id?: string | null
+          period_start?: string
+          region?: string | null
+          snapshot_date?: string
+          weighted_amount?: number
+        }
+        Relationships: []
+      }
       import_export_settings: {
         Row: {
           created_at: string
@@ -723,6 +1390,7 @@ export type Database = {
           entity_type: string
           field_mappings: Json | null
           id: string
+          match_options: Json | null
           skip_duplicates: boolean | null
           updated_at: string
           user_id: string
@@ -733,6 +1401,7 @@ export type Database = {
           entity_type: string
           field_mappings?: Json | null
           id?: string
+          match_options?: Json | null
           skip_duplicates?: boolean | null
           updated_at?: string
           user_id: string
@@ -743,12 +1412,108 @@ export type Database = {
           entity_type?: string
           field_mappings?: Json | null
           id?: string
+          match_options?: Json | null
           skip_duplicates?: boolean | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      import_job_rows: {
+        Row: {
+          id: string
+          job_id: string
+          message: string | null
+          previous_data: Json | null
+          record_id: string | null
+          row_data: Json | null
+          row_number: number
+          status: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          message?: string | null
+          previous_data?: Json | null
+          record_id?: string | null
+          row_data?: Json | null
+          row_number: number
+          status: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          message?: string | null
+          previous_data?: Json | null
+          record_id?: string | null
+          row_data?: Json | null
+          row_number?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_job_rows_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          entity_type: string
+          error_count: number
+          file_name: string
+          headers: string[]
+          id: string
+          inserted_count: number
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+          skipped_count: number
+          status: string
+          total_rows: number
+          updated_count: number
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          entity_type: string
+          error_count?: number
+          file_name: string
+          headers?: string[]
+          id?: string
+          inserted_count?: number
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          skipped_count?: number
+          status?: string
+          total_rows?: number
+          updated_count?: number
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          entity_type?: string
+          error_count?: number
+          file_name?: string
+          headers?: string[]
+          id?: string
+          inserted_count?: number
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          skipped_count?: number
+          status?: string
+          total_rows?: number
+          updated_count?: number
+        }
+        Relationships: []
+      }
       integration_settings: {
         Row: {
           config: Json | null
@@ -836,6 +1601,144 @@ export type Database = {
         }
         Relationships: []
       }
+      lead_assignment_rules: {
+        Row: {
+          assignee_ids: string[]
+          company_sizes: string[]
+          countries: string[]
+          created_at: string
+          created_by: string | null
+          distribution: string
+          id: string
+          industries: string[]
+          is_active: boolean
+          last_assigned_user_id: string | null
+          name: string
+          priority: number
+          regions: string[]
+          sources: string[]
+          updated_at: string
+        }
+        Insert: {
+          assignee_ids: string[]
+          company_sizes?: string[]
+          countries?: string[]
+          created_at?: string
+          created_by?: string | null
+          distribution?: string
+          id?: string
+          industries?: string[]
+          is_active?: boolean
+          last_assigned_user_id?: string | null
+          name: string
+          priority?: number
+          regions?: string[]
+          sources?: string[]
+          updated_at?: string
+        }
+        Update: {
+          assignee_ids?: string[]
+          company_sizes?: string[]
+          countries?: string[]
+          created_at?: string
+          created_by?: string | null
+          distribution?: string
+          id?: string
+          industries?: string[]
+          is_active?: boolean
+          last_assigned_user_id?: string | null
+          name?: string
+          priority?: number
+          regions?: string[]
+          sources?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      lead_scoring_rules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          field: string
+          id: string
+          is_active: boolean
+          match_type: string
+          match_value: string
+          points: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          field: string
+          id?: string
+          is_active?: boolean
+          match_type?: string
+          match_value: string
+          points: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          field?: string
+          id?: string
+          is_active?: boolean
+          match_type?: string
+          match_value?: string
+          points?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      lead_scoring_settings: {
+        Row: {
+          created_at: string
+          decay_half_life_days: number
+          email_click_points: number
+          email_open_points: number
+          email_reply_points: number
+          id: string
+          max_engagement_points: number
+          max_meeting_points: number
+          meeting_points: number
+          recency_points: number
+          singleton: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          decay_half_life_days?: number
+          email_click_points?: number
+          email_open_points?: number
+          email_reply_points?: number
+          id?: string
+          max_engagement_points?: number
+          max_meeting_points?: number
+          meeting_points?: number
+          recency_points?: number
+          singleton?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          decay_half_life_days?: number
+          email_click_points?: number
+          email_open_points?: number
+          email_reply_points?: number
+          id?: string
+          max_engagement_points?: number
+          max_meeting_points?: number
+          meeting_points?: number
+          recency_points?: number
+          singleton?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       lead_statuses: {
         Row: {
           created_at: string
@@ -881,6 +1784,7 @@ export type Database = {
           country: string | null
           created_by: string | null
           created_time: string | null
+          custom_fields: Json
           description: string | null
           email: string | null
           id: string
@@ -892,6 +1796,9 @@ export type Database = {
           modified_time: string | null
           phone_no: string | null
           position: string | null
+          score: number
+          score_breakdown: Json | null
+          score_updated_at: string | null
           website: string | null
         }
         Insert: {
@@ -902,6 +1809,7 @@ export type Database = {
           country?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           id?: string
@@ -913,6 +1821,9 @@ export type Database = {
           modified_time?: string | null
           phone_no?: string | null
           position?: string | null
+          score?: number
+          score_breakdown?: Json | null
+          score_updated_at?: string | null
           website?: string | null
         }
         Update: {
@@ -923,6 +1834,7 @@ export type Database = {
           country?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           id?: string
@@ -934,6 +1846,9 @@ export type Database = {
           modified_time?: string | null
           phone_no?: string | null
           position?: string | null
+          score?: number
+          score_breakdown?: Json | null
+          score_updated_at?: string | null
           website?: string | null
         }
         Relationships: [
@@ -1046,6 +1961,7 @@ export type Database = {
           contact_id: string | null
           created_at: string
           created_by: string | null
+          custom_fields: Json
           description: string | null
           end_time: string
           id: string
@@ -1063,6 +1979,7 @@ export type Database = {
           contact_id?: string | null
           created_at?: string
           created_by?: string | null
+          custom_fields?: Json
           description?: string | null
           end_time: string
           id?: string
@@ -1080,6 +1997,7 @@ export type Database = {
           contact_id?: string | null
           created_at?: string
           created_by?: string | null
+          custom_fields?: Json
           description?: string | null
           end_time?: string
           id?: string
@@ -1116,6 +2034,7 @@ export type Database = {
           email_notifications: boolean | null
           id: string
           in_app_notifications: boolean | null
+          last_digest_sent_at: string | null
           lead_assigned: boolean | null
           meeting_reminders: boolean | null
           push_notifications: boolean | null
@@ -1130,6 +2049,7 @@ export type Database = {
           email_notifications?: boolean | null
           id?: string
           in_app_notifications?: boolean | null
+          last_digest_sent_at?: string | null
           lead_assigned?: boolean | null
           meeting_reminders?: boolean | null
           push_notifications?: boolean | null
@@ -1144,6 +2064,7 @@ export type Database = {
           email_notifications?: boolean | null
           id?: string
           in_app_notifications?: boolean | null
+          last_digest_sent_at?: string | null
           lead_assigned?: boolean | null
           meeting_reminders?: boolean | null
           push_notifications?: boolean | null
@@ -1228,11 +2149,15 @@ export type Database = {
       }
       pipeline_stages: {
         Row: {
+          allowed_next_stages: string[] | null
           created_at: string
           created_by: string | null
           id: string
           is_active: boolean | null
+          is_dropped_stage: boolean
           is_lost_stage: boolean | null
+          is_projected_stage: boolean
+          is_quote_stage: boolean
           is_won_stage: boolean | null
           stage_color: string | null
           stage_name: string
@@ -1241,11 +2166,15 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          allowed_next_stages?: string[] | null
           created_at?: string
           created_by?: string | null
           id?: string
           is_active?: boolean | null
+          is_dropped_stage?: boolean
           is_lost_stage?: boolean | null
+          is_projected_stage?: boolean
+          is_quote_stage?: boolean
           is_won_stage?: boolean | null
           stage_color?: string | null
           stage_name: string
@@ -1254,11 +2183,15 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          allowed_next_stages?: string[] | null
           created_at?: string
           created_by?: string | null
           id?: string
           is_active?: boolean | null
+          is_dropped_stage?: boolean
           is_lost_stage?: boolean | null
+          is_projected_stage?: boolean
+          is_quote_stage?: boolean
           is_won_stage?: boolean | null
           stage_color?: string | null
           stage_name?: string
@@ -1268,6 +2201,120 @@ export type Database = {
         }
         Relationships: []
       }
+      price_book_entries: {
+        Row: {
+          created_at: string
+          id: string
+          price_book_id: string
+          product_id: string
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          price_book_id: string
+          product_id: string
+          unit_price: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          price_book_id?: string
+          product_id?: string
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_book_entries_price_book_id_fkey"
+            columns: ["price_book_id"]
+            isOneToOne: false
+            referencedRelation: "price_books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_book_entries_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_books: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          is_active: boolean
+          is_default: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      products: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          sku: string | null
+          tax_rate: number
+          unit: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          sku?: string | null
+          tax_rate?: number
+          unit?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          sku?: string | null
+          tax_rate?: number
+          unit?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -1304,6 +2351,45 @@ export type Database = {
         }
         Relationships: []
       }
+      revenue_targets: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          owner_id: string | null
+          period: number
+          period_type: string
+          region: string | null
+          target: number
+          updated_at: string
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          owner_id?: string | null
+          period: number
+          period_type: string
+          region?: string | null
+          target?: number
+          updated_at?: string
+          year: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          owner_id?: string | null
+          period?: number
+          period_type?: string
+          region?: string | null
+          target?: number
+          updated_at?: string
+          year?: number
+        }
+        Relationships: []
+      }
       saved_filters: {
         Row: {
           created_at: string
@@ -1444,6 +2530,7 @@ export type Database = {
           contact_id: string | null
           created_at: string
           created_by: string | null
+          custom_fields: Json
           deal_id: string | null
           description: string | null
           due_date: string | null
@@ -1456,7 +2543,10 @@ export type Database = {
           priority: string
           recurrence: string | null
           recurrence_end_date: string | null
+          recurrence_series_id: string | null
+          recurrence_trigger: string
           reminder_date: string | null
+          require_subtasks_complete: boolean
           status: string
           tags: string[] | null
           title: string
@@ -1470,6 +2560,7 @@ export type Database = {
           contact_id?: string | null
           created_at?: string
           created_by?: string | null
+          custom_fields?: Json
           deal_id?: string | null
           description?: string | null
           due_date?: string | null
@@ -1482,7 +2573,10 @@ export type Database = {
           priority?: string
           recurrence?: string | null
           recurrence_end_date?: string | null
+          recurrence_series_id?: string | null
+          recurrence_trigger?: string
           reminder_date?: string | null
+          require_subtasks_complete?: boolean
           status?: string
           tags?: string[] | null
           title: string
@@ -1496,6 +2590,7 @@ export type Database = {
           contact_id?: string | null
           created_at?: string
           created_by?: string | null
+          custom_fields?: Json
           deal_id?: string | null
           description?: string | null
           due_date?: string | null
@@ -1508,7 +2603,10 @@ export type Database = {
           priority?: string
           recurrence?: string | null
           recurrence_end_date?: string | null
+          recurrence_series_id?: string | null
+          recurrence_trigger?: string
           reminder_date?: string | null
+          require_subtasks_complete?: boolean
           status?: string
           tags?: string[] | null
           title?: string
@@ -1696,6 +2794,14 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      assign_lead_owner: {
+        Args: { p_exclude_user_id?: string; p_lead_id: string }
+        Returns: string
+      }
+      assign_lead_owners: {
+        Args: { p_exclude_user_id?: string; p_lead_ids: string[] }
+        Returns: number
+      }
       calculate_account_score: {
         Args: { p_account_id: string }
         Returns: number
@@ -1704,10 +2810,58 @@ export type Database = {
         Args: { p_contact_id: string }
         Returns: number
       }
+      calculate_lead_score: { Args: { p_lead_id: string }; Returns: number }
+      calculate_lead_score_breakdown: {
+        Args: { p_lead_id: string }
+        Returns: Json
+      }
+      deal_forecast_category: {
+        Args: { p_category: string; p_probability: number }
+        Returns: string
+      }
+      deal_owner_id: {
+        Args: { p_created_by: string; p_lead_owner: string }
+        Returns: string
+      }
+      find_exchange_rate: {
+        Args: { p_date: string; p_from: string; p_to: string }
+        Returns: number
+      }
+      get_backup_schema: { Args: never; Returns: Json }
+      get_distinct_values: {
+        Args: { p_column: string; p_limit?: number; p_table: string }
+        Returns: string[]
+      }
+      get_exchange_rate: {
+        Args: { p_date?: string; p_from: string; p_to: string }
+        Returns: number
+      }
+      get_owner_stage_changes: {
+        Args: { p_owner_id: string; p_since: string }
+        Returns: {
+          changed_at: string
+          created_at: string
+          currency_type: string
+          deal_id: string
+          deal_name: string
+          from_stage: string
+          stage: string
+          to_stage: string
+          total_contract_value: number
+        }[]
+      }
       get_user_role: { Args: { p_user_id: string }; Returns: string }
       is_current_user_admin: { Args: never; Returns: boolean }
       is_current_user_admin_by_metadata: { Args: never; Returns: boolean }
       is_user_admin: { Args: { user_id?: string }; Returns: boolean }
+      lead_assignment_matches: {
+        Args: { p_value: string; p_values: string[] }
+        Returns: boolean
+      }
+      lead_score_decay: {
+        Args: { p_at: string; p_half_life_days: number }
+        Returns: number
+      }
       log_data_access: {
         Args: {
           p_operation: string
@@ -1725,6 +2879,17 @@ export type Database = {
         }
         Returns: undefined
       }
+      recalculate_lead_scores: { Args: never; Returns: number }
+      refresh_lead_score: { Args: { p_lead_id: string }; Returns: undefined }
+      reassign_deals_stage: {
+        Args: { p_from_stage: string; p_to_stage: string }
+        Returns: number
+      }
+      retire_pipeline_stage: {
+        Args: { p_delete?: boolean; p_stage_id: string; p_to_stage: string }
+        Returns: number
+      }
+      take_forecast_snapshot: { Args: never; Returns: number }
       update_account_stats: {
         Args: { p_account_id: string }
         Returns: undefined
@@ -1,6 +1,6 @@
 import AccountTable from "@/components/AccountTable";
 import { Button } from "@/components/ui/button";
-import { Settings, Trash2, Upload, Download } from "lucide-react";
+import { Settings, Trash2, Upload, Download, FileSpreadsheet, History } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { useSearchParams } from "react-router-dom";
@@ -8,11 +8,18 @@ import { useToast } from "@/hooks/use-toast";
 import { useAccountsImportExport } from "@/hooks/useAccountsImportExport";
 import { AccountDeleteConfirmDialog } from "@/components/AccountDeleteConfirmDialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { supabase } from "@/integrations/supabase/client";
+import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { chunkIds } from "@/utils/tableQuery";
+import { ImportMappingWizard } from "@/components/shared/ImportMappingWizard";
+import { ImportHistoryDialog } from "@/components/shared/ImportHistoryDialog";
+import { isXlsxFile } from "@/utils/xlsx";
 
 const Accounts = () => {
   const [searchParams] = useSearchParams();
   const initialStatus = searchParams.get('status') || 'all';
   const { toast } = useToast();
+  const { logBulkDelete } = useCRUDAudit();
   const [showColumnCustomizer, setShowColumnCustomizer] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
@@ -20,6 +27,8 @@ const Accounts = () => {
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [showImportHistory, setShowImportHistory] = useState(false);
   const {
     handleImport,
     handleExport,
@@ -33,14 +42,58 @@ const Accounts = () => {
     setShowBulkDeleteDialog(true);
   };
 
+  // Selections can span every page, so ids are deleted in batches
+  const handleBulkDelete = async () => {
+    setIsDeleting(true);
+    setShowBulkDeleteDialog(false);
+    const deletedIds: string[] = [];
+    let failed = false;
+    try {
+      for (const batch of chunkIds(selectedAccounts)) {
+        const { data, error } = await supabase.from('accounts').delete().in('id', batch).select('id');
+        if (error) throw error;
+        deletedIds.push(...(data || []).map(row => row.id));
+      }
+    } catch (error) {
+      failed = true;
+      console.error('Bulk delete error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete accounts",
+        variant: "destructive"
+      });
+    }
+
+    if (deletedIds.length > 0) {
+      await logBulkDelete('accounts', deletedIds.length, deletedIds);
+      toast({
+        title: "Success",
+        description: `Deleted ${deletedIds.length} account(s)`
+      });
+    }
+    // Rows filtered out by RLS are silently skipped by the delete
+    const notDeleted = selectedAccounts.length - deletedIds.length;
+    if (!failed && notDeleted > 0) {
+      toast({
+        title: "Permission Denied",
+        description: `${notDeleted} account(s) could not be deleted.`,
+        variant: "destructive"
+      });
+    }
+
+    setSelectedAccounts([]);
+    setRefreshTrigger(prev => prev + 1);
+    setIsDeleting(false);
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
-      handleImport(file);
+    if (file && (file.type === 'text/csv' || isXlsxFile(file))) {
+      setImportFile(file);
     } else {
       toast({
         title: "Error",
-        description: "Please select a valid CSV file",
+        description: "Please select a valid CSV or Excel file",
         variant: "destructive"
       });
     }
@@ -87,12 +140,20 @@ const Accounts = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleExport}>
+                  <DropdownMenuItem onClick={() => handleExport()}>
                     <Download className="w-4 h-4 mr-2" />
                     Export CSV
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowImportHistory(true)}>
+                    <History className="w-4 h-4 mr-2" />
+                    Import history
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleBulkDeleteClick} disabled={selectedAccounts.length === 0 || isDeleting} className="text-destructive focus:text-destructive">
                     <Trash2 className="w-4 h-4 mr-2" />
                     {isDeleting ? 'Deleting...' : `Delete Selected (${selectedAccounts.length})`}
@@ -109,7 +170,19 @@ const Accounts = () => {
       </div>
 
       {/* Hidden file input */}
-      <input ref={fileInputRef} type="file" accept=".csv" onChange={handleFileSelect} style={{ display: 'none' }} />
+      <input ref={fileInputRef} type="file" accept=".csv,.xlsx" onChange={handleFileSelect} style={{ display: 'none' }} />
+      <ImportMappingWizard
+        entity="accounts"
+        file={importFile}
+        onClose={() => setImportFile(null)}
+        onImport={handleImport}
+      />
+      <ImportHistoryDialog
+        entity="accounts"
+        open={showImportHistory}
+        onOpenChange={setShowImportHistory}
+        onRolledBack={() => setRefreshTrigger(prev => prev + 1)}
+      />
 
       {/* Main Content Area */}
       <div className="flex-1 min-h-0 overflow-auto px-4 pt-2 pb-4">
@@ -133,11 +206,7 @@ const Accounts = () => {
       {/* Bulk Delete Confirmation Dialog */}
       <AccountDeleteConfirmDialog 
         open={showBulkDeleteDialog} 
-        onConfirm={async () => {
-          setIsDeleting(true);
-          setShowBulkDeleteDialog(false);
-          setIsDeleting(false);
-        }} 
+        onConfirm={handleBulkDelete} 
         onCancel={() => setShowBulkDeleteDialog(false)} 
         isMultiple={true} 
         count={selectedAccounts.length} 
@@ -1,7 +1,7 @@
 import { ContactTable } from "@/components/ContactTable";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Settings, MoreVertical, Upload, Plus, Trash2, Download, Mail } from "lucide-react";
+import { Settings, MoreVertical, Upload, Plus, Trash2, Download, FileSpreadsheet, History, Mail, Repeat } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { Input } from "@/components/ui/input";
@@ -10,6 +10,11 @@ import { supabase } from "@/integrations/supabase/client";
 import { useSimpleContactsImportExport } from "@/hooks/useSimpleContactsImportExport";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/EnrollInSequenceModal";
+import { ImportMappingWizard } from "@/components/shared/ImportMappingWizard";
+import { ImportMatchOptions } from "@/hooks/import-export/importMerge";
+import { ImportHistoryDialog } from "@/components/shared/ImportHistoryDialog";
+import { chunkIds, fetchInBatches } from "@/utils/tableQuery";
 
 const Contacts = () => {
   const { toast } = useToast();
@@ -20,7 +25,10 @@ const Contacts = () => {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
+  const [showEnrollModal, setShowEnrollModal] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [showImportHistory, setShowImportHistory] = useState(false);
 
   const onRefresh = () => {
     setRefreshTrigger(prev => prev + 1);
@@ -32,24 +40,28 @@ const Contacts = () => {
     fileInputRef.current?.click();
   };
 
-  const handleImportCSV = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImportCSV = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file) return;
+    event.target.value = '';
+    if (file) setImportFile(file);
+  };
 
+  const handleMappedImport = async (file: File, match: ImportMatchOptions) => {
     try {
-      await handleImport(file);
-      event.target.value = '';
-    } catch (error: any) {
+      await handleImport(file, match);
+    } catch (error) {
       console.error('Import error:', error);
-      event.target.value = '';
     }
   };
 
+  // Selections can span every page, so ids are deleted in batches
   const handleBulkDelete = async () => {
     if (selectedContacts.length === 0) return;
     try {
-      const { error } = await supabase.from('contacts').delete().in('id', selectedContacts);
-      if (error) throw error;
+      for (const ids of chunkIds(selectedContacts)) {
+        const { error } = await supabase.from('contacts').delete().in('id', ids);
+        if (error) throw error;
+      }
 
       await logBulkDelete('contacts', selectedContacts.length, selectedContacts);
       toast({
@@ -70,12 +82,14 @@ const Contacts = () => {
   const handleBulkEmailClick = async () => {
     if (selectedContacts.length === 0) return;
     
-    const { data: contacts, error } = await supabase
-      .from('contacts')
-      .select('id, contact_name, email')
-      .in('id', selectedContacts);
-    
-    if (error) {
+    const contacts: { id: string; contact_name: string; email: string | null }[] = [];
+    try {
+      for (const ids of chunkIds(selectedContacts)) {
+        contacts.push(...await fetchInBatches((from, to) =>
+          supabase.from('contacts').select('id, contact_name, email').in('id', ids).range(from, to)
+        ));
+      }
+    } catch (error) {
       toast({
         title: "Error",
         description: "Failed to fetch contact details",
@@ -84,7 +98,7 @@ const Contacts = () => {
       return;
     }
 
-    const recipients: BulkEmailRecipient[] = (contacts || []).map(contact => ({
+    const recipients: BulkEmailRecipient[] = contacts.map(contact => ({
       id: contact.id,
       name: contact.contact_name,
       email: contact.email || undefined,
@@ -119,6 +133,18 @@ const Contacts = () => {
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button variant="outline" size="icon" onClick={() => setShowEnrollModal(true)}>
+                          <Repeat className="w-4 h-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Enroll Selected in Sequence ({selectedContacts.length})</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -147,16 +173,28 @@ const Contacts = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleImportClick} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    Import CSV
+                    Import CSV / Excel
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleExport}>
+                  <DropdownMenuItem onClick={() => handleExport()}>
                     <Download className="w-4 h-4 mr-2" />
                     Export CSV
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowImportHistory(true)}>
+                    <History className="w-4 h-4 mr-2" />
+                    Import history
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleBulkEmailClick} disabled={selectedContacts.length === 0}>
                     <Mail className="w-4 h-4 mr-2" />
                     Send Bulk Email ({selectedContacts.length})
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowEnrollModal(true)} disabled={selectedContacts.length === 0}>
+                    <Repeat className="w-4 h-4 mr-2" />
+                    Enroll in Sequence ({selectedContacts.length})
+                  </DropdownMenuItem>
                   {selectedContacts.length > 0 && (
                     <DropdownMenuItem onClick={handleBulkDelete} className="text-destructive focus:text-destructive">
                       <Trash2 className="w-4 h-4 mr-2" />
@@ -178,11 +216,23 @@ const Contacts = () => {
       <Input 
         ref={fileInputRef} 
         type="file" 
-        accept=".csv" 
+        accept=".csv,.xlsx" 
         onChange={handleImportCSV} 
         className="hidden" 
         disabled={isImporting} 
       />
+      <ImportMappingWizard
+        entity="contacts"
+        file={importFile}
+        onClose={() => setImportFile(null)}
+        onImport={handleMappedImport}
+      />
+      <ImportHistoryDialog
+        entity="contacts"
+        open={showImportHistory}
+        onOpenChange={setShowImportHistory}
+        onRolledBack={onRefresh}
+      />
 
       {/* Main Content Area */}
       <div className="flex-1 min-h-0 overflow-auto px-4 pt-2 pb-4">
@@ -206,6 +256,17 @@ const Contacts = () => {
           setSelectedContacts([]);
         }}
       />
+
+      {/* Enroll in Sequence Modal */}
+      <EnrollInSequenceModal
+        open={showEnrollModal}
+        onOpenChange={setShowEnrollModal}
+        recipientType="contact"
+        recipientIds={selectedContacts}
+        onEnrolled={() => {
+          setSelectedContacts([]);
+        }}
+      />
     </div>
   );
 };
@@ -1,17 +1,21 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { Deal, DealStage } from "@/types/deal";
 import { KanbanBoard } from "@/components/KanbanBoard";
 import { ListView } from "@/components/ListView";
 import { DealForm } from "@/components/DealForm";
+import { DealStageAnalytics } from "@/components/deals/DealStageAnalytics";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, LayoutGrid, List } from "lucide-react";
+import { Plus, LayoutGrid, List, BarChart3 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { DealsSettingsDropdown } from "@/components/DealsSettingsDropdown";
+import { useQueryClient } from "@tanstack/react-query";
+import { chunkIds } from "@/utils/tableQuery";
 const DealsPage = () => {
   const [searchParams] = useSearchParams();
   const initialStageFilter = searchParams.get('stage') || 'all';
@@ -28,6 +32,8 @@ const DealsPage = () => {
     logUpdate,
     logBulkDelete
   } = useCRUDAudit();
+  const { firstStage } = usePipelineStages();
+  const queryClient = useQueryClient();
   const [deals, setDeals] = useState<Deal[]>([]);
   const [filteredDeals, setFilteredDeals] = useState<Deal[]>([]);
   const [loading, setLoading] = useState(true);
@@ -35,7 +41,7 @@ const DealsPage = () => {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [initialStage, setInitialStage] = useState<DealStage>('Lead');
-  const [activeView, setActiveView] = useState<'kanban' | 'list'>('list');
+  const [activeView, setActiveView] = useState<'kanban' | 'list' | 'analytics'>('list');
   const [stageFilterFromUrl, setStageFilterFromUrl] = useState(initialStageFilter);
   
   // Get owner parameter from URL - "me" means filter by current user
@@ -57,7 +63,13 @@ const DealsPage = () => {
       setFilteredDeals(deals);
     }
   }, [deals, ownerParam, user?.id]);
-  const fetchDeals = async () => {
+  const fetchDeals = useCallback(async () => {
+    queryClient.invalidateQueries({ queryKey: ['paginated', 'deals'] });
+    // The list view pages deals on the server; only the kanban board needs every deal
+    if (activeView !== 'kanban') {
+      setLoading(false);
+      return;
+    }
     try {
       setLoading(true);
       const {
@@ -86,7 +98,7 @@ const DealsPage = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [activeView, queryClient, toast]);
   const handleUpdateDeal = async (dealId: string, updates: Partial<Deal>) => {
     try {
       console.log("=== HANDLE UPDATE DEAL DEBUG ===");
@@ -174,6 +186,7 @@ const DealsPage = () => {
         // Log create operation
         await logCreate('deals', data.id, dealData);
         setDeals(prev => [data as unknown as Deal, ...prev]);
+        queryClient.invalidateQueries({ queryKey: ['paginated', 'deals'] });
       } else if (selectedDeal) {
         const updateData = {
           ...dealData,
@@ -194,30 +207,35 @@ const DealsPage = () => {
     try {
       console.log("Attempting to delete deals:", dealIds);
 
-      // Request the IDs of the rows that were actually deleted (RLS will filter)
-      const {
-        data,
-        error
-      } = await supabase.from('deals').delete().in('id', dealIds).select('id');
-      if (error) {
-        console.error("Delete error:", error);
-        toast({
-          title: "Error",
-          description: "Failed to delete deals",
-          variant: "destructive"
-        });
-        return;
+      // Request the IDs of the rows that were actually deleted (RLS will filter).
+      // Selections can span every page, so ids are sent in batches
+      const deletedIds: string[] = [];
+      for (const batch of chunkIds(dealIds)) {
+        const {
+          data,
+          error
+        } = await supabase.from('deals').delete().in('id', batch).select('id');
+        if (error) {
+          console.error("Delete error:", error);
+          toast({
+            title: "Error",
+            description: "Failed to delete deals",
+            variant: "destructive"
+          });
+          break;
+        }
+        deletedIds.push(...(data || []).map((row: {
+          id: string;
+        }) => row.id));
       }
-      const deletedIds = (data || []).map((row: {
-        id: string;
-      }) => row.id);
-      const notDeleted = dealIds.filter(id => !deletedIds.includes(id));
+      const deletedIdSet = new Set(deletedIds);
+      const notDeleted = dealIds.filter(id => !deletedIdSet.has(id));
       console.log("Deleted IDs:", deletedIds);
       console.log("Not deleted due to RLS/permissions:", notDeleted);
 
       // Update local state only for deals that were actually deleted
       if (deletedIds.length > 0) {
-        setDeals(prev => prev.filter(deal => !deletedIds.includes(deal.id)));
+        setDeals(prev => prev.filter(deal => !deletedIdSet.has(deal.id)));
 
         // Log bulk delete with only the successfully deleted IDs
         await logBulkDelete('deals', deletedIds.length, deletedIds);
@@ -279,41 +297,51 @@ const DealsPage = () => {
       navigate("/auth");
     }
   }, [user, authLoading, navigate]);
+  // Reloads when the view changes, since only the kanban board loads every deal
   useEffect(() => {
     if (user) {
       fetchDeals();
+    }
+  }, [user, fetchDeals]);
+  useEffect(() => {
+    if (!user) return;
 
-      // Set up real-time subscription
-      const channel = supabase.channel('deals-changes').on('postgres_changes', {
-        event: '*',
-        schema: 'public',
-        table: 'deals'
-      }, payload => {
-        console.log('Real-time deal change:', payload);
-        if (payload.eventType === 'INSERT') {
-          setDeals(prev => [payload.new as Deal, ...prev]);
-        } else if (payload.eventType === 'UPDATE') {
-          setDeals(prev => prev.map(deal => deal.id === payload.new.id ? {
-            ...deal,
-            ...payload.new
-          } as Deal : deal));
-        } else if (payload.eventType === 'DELETE') {
-          setDeals(prev => prev.filter(deal => deal.id !== payload.old.id));
-        }
-      }).subscribe();
+    // Set up real-time subscription
+    const channel = supabase.channel('deals-changes').on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'deals'
+    }, payload => {
+      console.log('Real-time deal change:', payload);
+      queryClient.invalidateQueries({ queryKey: ['paginated', 'deals'] });
+      if (payload.eventType === 'INSERT') {
+        setDeals(prev => [payload.new as Deal, ...prev]);
+      } else if (payload.eventType === 'UPDATE') {
+        setDeals(prev => prev.map(deal => deal.id === payload.new.id ? {
+          ...deal,
+          ...payload.new
+        } as Deal : deal));
+      } else if (payload.eventType === 'DELETE') {
+        setDeals(prev => prev.filter(deal => deal.id !== payload.old.id));
+      }
+    }).subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+  useEffect(() => {
+    if (!user) return;
 
-      // Listen for custom import events
-      const handleImportEvent = () => {
-        console.log('DealsPage: Received deals-data-updated event, refreshing...');
-        fetchDeals();
-      };
-      window.addEventListener('deals-data-updated', handleImportEvent);
-      return () => {
-        supabase.removeChannel(channel);
-        window.removeEventListener('deals-data-updated', handleImportEvent);
-      };
-    }
-  }, [user]);
+    // Listen for custom import events
+    const handleImportEvent = () => {
+      console.log('DealsPage: Received deals-data-updated event, refreshing...');
+      fetchDeals();
+    };
+    window.addEventListener('deals-data-updated', handleImportEvent);
+    return () => {
+      window.removeEventListener('deals-data-updated', handleImportEvent);
+    };
+  }, [user, fetchDeals]);
   if (authLoading || loading) {
     return <div className="h-screen flex items-center justify-center bg-background">
         <div className="text-center">
@@ -343,14 +371,18 @@ const DealsPage = () => {
                   <List className="h-3.5 w-3.5" />
                   List
                 </Button>
+                <Button variant={activeView === 'analytics' ? 'secondary' : 'ghost'} size="sm" onClick={() => setActiveView('analytics')} className="gap-1.5 h-8 px-2.5 text-xs">
+                  <BarChart3 className="h-3.5 w-3.5" />
+                  Analytics
+                </Button>
               </div>
 
               {/* Settings dropdown between view toggle and Add Deal */}
-              <DealsSettingsDropdown deals={deals} onRefresh={fetchDeals} selectedDeals={[]} showColumns={activeView === 'list'} onColumnCustomize={() => {
+              <DealsSettingsDropdown onRefresh={fetchDeals} selectedDeals={[]} showColumns={activeView === 'list'} onColumnCustomize={() => {
               window.dispatchEvent(new CustomEvent('open-deal-columns'));
             }} />
 
-              <Button variant="outline" size="sm" onClick={() => handleCreateDeal('Lead')}>
+              <Button variant="outline" size="sm" onClick={() => handleCreateDeal(firstStage)}>
                 Add Deal
               </Button>
             </div>
@@ -360,7 +392,7 @@ const DealsPage = () => {
 
       {/* Main Content Area - Takes remaining height */}
       <div className="flex-1 min-h-0 overflow-hidden">
-        {activeView === 'kanban' ? <KanbanBoard deals={filteredDeals} onUpdateDeal={handleUpdateDeal} onDealClick={handleDealClick} onCreateDeal={handleCreateDeal} onDeleteDeals={handleDeleteDeals} onImportDeals={handleImportDeals} onRefresh={fetchDeals} /> : <ListView deals={filteredDeals} onDealClick={handleDealClick} onUpdateDeal={handleUpdateDeal} onDeleteDeals={handleDeleteDeals} onImportDeals={handleImportDeals} initialStageFilter={stageFilterFromUrl} />}
+        {activeView === 'analytics' ? <DealStageAnalytics /> : activeView === 'kanban' ? <KanbanBoard deals={filteredDeals} onUpdateDeal={handleUpdateDeal} onDealClick={handleDealClick} onCreateDeal={handleCreateDeal} onDeleteDeals={handleDeleteDeals} onImportDeals={handleImportDeals} onRefresh={fetchDeals} /> : <ListView onDealClick={handleDealClick} onUpdateDeal={handleUpdateDeal} onDeleteDeals={handleDeleteDeals} onImportDeals={handleImportDeals} initialStageFilter={stageFilterFromUrl} ownerId={ownerParam === 'me' ? user.id : undefined} />}
       </div>
 
       {/* Deal Form Modal */}
@@ -0,0 +1,463 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useCurrency } from "@/hooks/useCurrency";
+import { ForecastDeal, ForecastSnapshot, FORECAST_QUERY_KEY, RevenueTarget, useForecastData } from "@/hooks/useForecastData";
+import { ForecastDealsDialog } from "@/components/forecast/ForecastDealsDialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Progress } from "@/components/ui/progress";
+import { Camera, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import {
+  FORECAST_CATEGORIES,
+  ForecastCategory,
+  ForecastPeriodType,
+  getForecastCategoryLabel,
+  getPeriodLabel,
+  getPeriodOfDate,
+} from "@/utils/forecast";
+
+type GroupBy = 'owner' | 'region';
+
+interface DrillDown {
+  title: string;
+  matches: (deal: ForecastDeal) => boolean;
+}
+
+const OPEN_CATEGORIES: ForecastCategory[] = ['commit', 'best_case', 'pipeline'];
+const NO_REGION = '__none__';
+const currentYear = new Date().getFullYear();
+const YEARS = [currentYear - 2, currentYear - 1, currentYear, currentYear + 1];
+
+const sumBy = <T,>(items: T[], value: (item: T) => number | null) =>
+  items.reduce((sum, item) => sum + (value(item) ?? 0), 0);
+
+const Forecast = () => {
+  const { toast } = useToast();
+  const { isAdmin } = useUserRole();
+  const queryClient = useQueryClient();
+  const { formatReporting } = useCurrency();
+  const [year, setYear] = useState(currentYear);
+  const [periodType, setPeriodType] = useState<ForecastPeriodType>('quarter');
+  const [period, setPeriod] = useState<string>(String(Math.ceil((new Date().getMonth() + 1) / 3)));
+  const [ownerFilter, setOwnerFilter] = useState('all');
+  const [regionFilter, setRegionFilter] = useState('all');
+  const [groupBy, setGroupBy] = useState<GroupBy>('owner');
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+  const [snapshotting, setSnapshotting] = useState(false);
+
+  const { data, isLoading } = useForecastData(year);
+  const deals = useMemo(() => data?.deals || [], [data]);
+  const targets = useMemo(() => data?.targets || [], [data]);
+  const snapshots = useMemo(() => data?.snapshots || [], [data]);
+  const profiles = useMemo(() => data?.profiles || [], [data]);
+
+  const periodCount = periodType === 'quarter' ? 4 : 12;
+  const ownerName = (ownerId: string | null) =>
+    profiles.find(p => p.id === ownerId)?.full_name || (ownerId ? 'Unknown user' : 'Unassigned');
+
+  const regions = useMemo(() => {
+    const values = new Set<string>();
+    deals.forEach(d => d.region && values.add(d.region));
+    targets.forEach(t => t.region && values.add(t.region));
+    return Array.from(values).sort();
+  }, [deals, targets]);
+
+  const inPeriod = (date: string) => period === 'all' || getPeriodOfDate(date, periodType) === Number(period);
+  const matchesOwner = (ownerId: string | null) => ownerFilter === 'all' || ownerId === ownerFilter;
+  const matchesRegion = (region: string | null) =>
+    regionFilter === 'all' || (regionFilter === NO_REGION ? !region : region === regionFilter);
+
+  const scopedDeals = deals.filter(d => inPeriod(d.closeDate) && matchesOwner(d.ownerId) && matchesRegion(d.region));
+
+  // Targets are set per owner and/or region; a filter picks the matching slice, no filter the overall target
+  const targetFor = (ownerId: string | null, region: string | null) =>
+    sumBy(
+      targets.filter((t: RevenueTarget) =>
+        t.period_type === periodType
+        && (period === 'all' || t.period === Number(period))
+        && t.owner_id === ownerId
+        && t.region === region
+      ),
+      t => t.target
+    );
+
+  const scopeOwner = ownerFilter === 'all' ? null : ownerFilter;
+  const scopeRegion = regionFilter === 'all' || regionFilter === NO_REGION ? null : regionFilter;
+  const target = targetFor(scopeOwner, scopeRegion);
+
+  const totals = (items: ForecastDeal[]) => {
+    const byCategory = Object.fromEntries(
+      FORECAST_CATEGORIES.map(c => [c.value, sumBy(items.filter(d => d.category === c.value), d => d.amount)])
+    ) as Record<ForecastCategory, number>;
+    const weighted = sumBy(items.filter(d => d.category !== 'closed'), d => d.weightedAmount);
+    return { ...byCategory, weighted };
+  };
+
+  const summary = totals(scopedDeals);
+  const unconverted = scopedDeals.filter(d => d.amount === null).length;
+  const attainment = target > 0 ? summary.closed / target * 100 : 0;
+
+  const scopeLabel = [
+    period === 'all' ? String(year) : `${getPeriodLabel({ type: periodType, period: Number(period) })} ${year}`,
+    ownerFilter !== 'all' ? ownerName(ownerFilter) : null,
+    regionFilter !== 'all' ? (regionFilter === NO_REGION ? 'No region' : regionFilter) : null,
+  ].filter(Boolean).join(' · ');
+
+  const openDrillDown = (title: string, matches: (deal: ForecastDeal) => boolean) => {
+    setDrillDown({ title: `${title} — ${scopeLabel}`, matches });
+  };
+
+  const groupKeys = new Map<string, string | null>();
+  scopedDeals.forEach(d => {
+    const key = groupBy === 'owner' ? d.ownerId : d.region;
+    groupKeys.set(key ?? NO_REGION, key);
+  });
+  targets.forEach(t => {
+    const key = groupBy === 'owner' ? t.owner_id : t.region;
+    if (key && t.period_type === periodType) groupKeys.set(key, key);
+  });
+
+  const groupRows = Array.from(groupKeys.values())
+    .map(key => {
+      const groupDeals = scopedDeals.filter(d => (groupBy === 'owner' ? d.ownerId : d.region) === key);
+      const groupTarget = groupBy === 'owner'
+        ? (key ? targetFor(key, scopeRegion) : 0)
+        : (key ? targetFor(scopeOwner, key) : 0);
+      return {
+        key,
+        label: groupBy === 'owner' ? ownerName(key) : key || 'No region',
+        target: groupTarget,
+        ...totals(groupDeals),
+      };
+    })
+    .filter(row => row.target > 0 || row.closed + row.commit + row.best_case + row.pipeline > 0)
+    .sort((a, b) => (b.target + b.closed + b.commit) - (a.target + a.closed + a.commit));
+
+  // Totals per snapshot date for the selected scope, oldest first
+  const snapshotsByDate = new Map<string, Record<ForecastCategory | 'weighted', number>>();
+  snapshots
+    .filter((s: ForecastSnapshot) => inPeriod(s.period_start) && matchesOwner(s.owner_id) && matchesRegion(s.region))
+    .forEach(s => {
+      const row = snapshotsByDate.get(s.snapshot_date) || { closed: 0, commit: 0, best_case: 0, pipeline: 0, weighted: 0 };
+      row[s.category] += s.amount;
+      if (s.category !== 'closed') row.weighted += s.weighted_amount;
+      snapshotsByDate.set(s.snapshot_date, row);
+    });
+  const trend = Array.from(snapshotsByDate.entries()).map(([date, values]) => ({ date, ...values })).slice(-8);
+
+  const handleTakeSnapshot = async () => {
+    setSnapshotting(true);
+    const { error } = await supabase.rpc('take_forecast_snapshot');
+    setSnapshotting(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to take forecast snapshot",
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: "Success",
+      description: "Forecast snapshot saved for today",
+    });
+    queryClient.invalidateQueries({ queryKey: FORECAST_QUERY_KEY });
+  };
+
+  const renderDelta = (current: number, previous?: number) => {
+    if (previous === undefined) return null;
+    const delta = current - previous;
+    if (Math.round(delta) === 0) return null;
+    return (
+      <span className={`ml-1 text-xs ${delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+        {delta > 0 ? '+' : '-'}{formatReporting(Math.abs(delta))}
+      </span>
+    );
+  };
+
+  const summaryCards: { key: ForecastCategory | 'weighted'; label: string; value: number; matches: (d: ForecastDeal) => boolean }[] = [
+    ...FORECAST_CATEGORIES.map(c => ({
+      key: c.value,
+      label: c.label,
+      value: summary[c.value],
+      matches: (d: ForecastDeal) => d.category === c.value,
+    })),
+    {
+      key: 'weighted',
+      label: 'Weighted Pipeline',
+      value: summary.weighted,
+      matches: (d: ForecastDeal) => OPEN_CATEGORIES.includes(d.category),
+    },
+  ];
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center justify-between w-full">
+            <div className="min-w-0 flex-1">
+              <h1 className="text-2xl text-foreground font-semibold">Forecast</h1>
+            </div>
+            <div className="flex items-center gap-3">
+              <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+                <SelectTrigger className="w-[100px] h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {YEARS.map(y => <SelectItem key={y} value={String(y)}>{y}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select
+                value={periodType}
+                onValueChange={(value: ForecastPeriodType) => {
+                  setPeriodType(value);
+                  setPeriod('all');
+                }}
+              >
+                <SelectTrigger className="w-[120px] h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="quarter">Quarterly</SelectItem>
+                  <SelectItem value="month">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={period} onValueChange={setPeriod}>
+                <SelectTrigger className="w-[110px] h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Full year</SelectItem>
+                  {Array.from({ length: periodCount }, (_, i) => i + 1).map(p => (
+                    <SelectItem key={p} value={String(p)}>{getPeriodLabel({ type: periodType, period: p })}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+                <SelectTrigger className="w-[160px] h-9">
+                  <SelectValue placeholder="Owner" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All owners</SelectItem>
+                  {profiles.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.full_name || 'Unknown user'}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={regionFilter} onValueChange={setRegionFilter}>
+                <SelectTrigger className="w-[130px] h-9">
+                  <SelectValue placeholder="Region" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All regions</SelectItem>
+                  {regions.map(r => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+                  <SelectItem value={NO_REGION}>No region</SelectItem>
+                </SelectContent>
+              </Select>
+              {isAdmin && (
+                <Button variant="outline" size="sm" onClick={handleTakeSnapshot} disabled={snapshotting} className="gap-2">
+                  <Camera className="h-4 w-4" />
+                  {snapshotting ? 'Saving...' : 'Snapshot'}
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Target — {scopeLabel}</CardTitle>
+                <CardDescription>
+                  {target > 0
+                    ? `${formatReporting(summary.closed)} closed of ${formatReporting(target)} (${attainment.toFixed(0)}%). Closed + commit covers ${((summary.closed + summary.commit) / target * 100).toFixed(0)}%.`
+                    : 'No target set for this selection. Admins set targets under Settings → Forecast Targets.'}
+                </CardDescription>
+              </CardHeader>
+              {target > 0 && (
+                <CardContent>
+                  <Progress value={Math.min(attainment, 100)} className="h-2" />
+                </CardContent>
+              )}
+            </Card>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {summaryCards.map(card => (
+                <Card
+                  key={card.key}
+                  className="cursor-pointer hover:shadow-md transition-shadow"
+                  onClick={() => openDrillDown(card.label, card.matches)}
+                >
+                  <CardContent className="p-4">
+                    <p className="text-sm text-muted-foreground">{card.label}</p>
+                    <p className="text-2xl font-semibold">{formatReporting(card.value)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {scopedDeals.filter(card.matches).length} deals
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {unconverted > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {unconverted} deal{unconverted === 1 ? '' : 's'} in a currency without an exchange rate {unconverted === 1 ? 'is' : 'are'} left out of the totals.
+              </p>
+            )}
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-base">Breakdown</CardTitle>
+                    <CardDescription>Click a figure to see the deals behind it</CardDescription>
+                  </div>
+                  <Select value={groupBy} onValueChange={(value: GroupBy) => setGroupBy(value)}>
+                    <SelectTrigger className="w-[140px] h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="owner">By owner</SelectItem>
+                      <SelectItem value="region">By region</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{groupBy === 'owner' ? 'Owner' : 'Region'}</TableHead>
+                      <TableHead className="text-right">Target</TableHead>
+                      {FORECAST_CATEGORIES.map(c => (
+                        <TableHead key={c.value} className="text-right">{c.label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Weighted</TableHead>
+                      <TableHead className="text-right">Attainment</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {groupRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={FORECAST_CATEGORIES.length + 4} className="text-center py-8 text-muted-foreground">
+                          No deals close in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      groupRows.map(row => {
+                        const inGroup = (d: ForecastDeal) => (groupBy === 'owner' ? d.ownerId : d.region) === row.key;
+                        return (
+                          <TableRow key={row.key ?? NO_REGION}>
+                            <TableCell className="font-medium">{row.label}</TableCell>
+                            <TableCell className="text-right">{row.target > 0 ? formatReporting(row.target) : '-'}</TableCell>
+                            {FORECAST_CATEGORIES.map(c => (
+                              <TableCell key={c.value} className="text-right">
+                                <button
+                                  type="button"
+                                  className="hover:underline"
+                                  onClick={() => openDrillDown(`${row.label}: ${c.label}`, d => inGroup(d) && d.category === c.value)}
+                                >
+                                  {formatReporting(row[c.value])}
+                                </button>
+                              </TableCell>
+                            ))}
+                            <TableCell className="text-right">
+                              <button
+                                type="button"
+                                className="hover:underline"
+                                onClick={() => openDrillDown(`${row.label}: open pipeline`, d => inGroup(d) && OPEN_CATEGORIES.includes(d.category))}
+                              >
+                                {formatReporting(row.weighted)}
+                              </button>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {row.target > 0 ? `${(row.closed / row.target * 100).toFixed(0)}%` : '-'}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Forecast History</CardTitle>
+                <CardDescription>
+                  Weekly snapshots of the forecast for this selection, with the change since the previous snapshot
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Snapshot</TableHead>
+                      {FORECAST_CATEGORIES.map(c => (
+                        <TableHead key={c.value} className="text-right">{getForecastCategoryLabel(c.value)}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Weighted</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trend.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={FORECAST_CATEGORIES.length + 2} className="text-center py-8 text-muted-foreground">
+                          No snapshots yet. One is taken every Monday.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      [...trend].reverse().map((row, index, rows) => {
+                        const previous = rows[index + 1];
+                        return (
+                          <TableRow key={row.date}>
+                            <TableCell>{format(new Date(row.date), 'dd MMM yyyy')}</TableCell>
+                            {FORECAST_CATEGORIES.map(c => (
+                              <TableCell key={c.value} className="text-right">
+                                {formatReporting(row[c.value])}
+                                {renderDelta(row[c.value], previous?.[c.value])}
+                              </TableCell>
+                            ))}
+                            <TableCell className="text-right">
+                              {formatReporting(row.weighted)}
+                              {renderDelta(row.weighted, previous?.weighted)}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <ForecastDealsDialog
+        title={drillDown?.title ?? null}
+        deals={drillDown ? scopedDeals.filter(drillDown.matches) : []}
+        ownerName={ownerName}
+        formatAmount={formatReporting}
+        onClose={() => setDrillDown(null)}
+      />
+    </div>
+  );
+};
+
+export default Forecast;
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { Deal, DealStage } from "@/types/deal";
 import { DealForm } from "@/components/DealForm";
 import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
@@ -13,6 +14,7 @@ const Index = () => {
   const { user, loading: authLoading, signOut } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { firstStage } = usePipelineStages();
   
   const [deals, setDeals] = useState<Deal[]>([]);
   const [loading, setLoading] = useState(true);
@@ -175,7 +177,7 @@ const Index = () => {
         } else {
           const newDealData = {
             ...dealData,
-            stage: dealData.stage || 'Lead' as const,
+            stage: dealData.stage || firstStage,
             created_by: user?.id,
             modified_by: user?.id,
             deal_name: dealData.project_name || `Imported Deal ${Date.now()}`
@@ -252,7 +254,7 @@ const Index = () => {
       <DashboardHeader
         activeView={activeView}
         onViewChange={setActiveView}
-        onCreateDeal={() => handleCreateDeal('Lead')}
+        onCreateDeal={() => handleCreateDeal(firstStage)}
         onSignOut={handleSignOut}
       />
 
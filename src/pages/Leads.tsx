@@ -1,6 +1,6 @@
 import LeadTable from "@/components/LeadTable";
 import { Button } from "@/components/ui/button";
-import { Settings, Plus, Trash2, MoreVertical, Upload, Download, Mail } from "lucide-react";
+import { Settings, Plus, Trash2, MoreVertical, Upload, Download, FileSpreadsheet, History, Mail, Repeat } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -9,8 +9,13 @@ import { useLeadDeletion } from "@/hooks/useLeadDeletion";
 import { LeadDeleteConfirmDialog } from "@/components/LeadDeleteConfirmDialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/EnrollInSequenceModal";
 import { supabase } from "@/integrations/supabase/client";
 import { useSearchParams } from "react-router-dom";
+import { ImportMappingWizard } from "@/components/shared/ImportMappingWizard";
+import { ImportHistoryDialog } from "@/components/shared/ImportHistoryDialog";
+import { isXlsxFile } from "@/utils/xlsx";
+import { chunkIds, fetchInBatches } from "@/utils/tableQuery";
 
 const Leads = () => {
   const [searchParams] = useSearchParams();
@@ -23,7 +28,10 @@ const Leads = () => {
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
+  const [showEnrollModal, setShowEnrollModal] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [showImportHistory, setShowImportHistory] = useState(false);
   
   const { handleImport, handleExport, isImporting } = useSimpleLeadsImportExport(() => {
     setRefreshTrigger(prev => prev + 1);
@@ -49,13 +57,15 @@ const Leads = () => {
   const handleBulkEmailClick = async () => {
     if (selectedLeads.length === 0) return;
     
-    // Fetch lead details for selected leads
-    const { data: leads, error } = await supabase
-      .from('leads')
-      .select('id, lead_name, email')
-      .in('id', selectedLeads);
-    
-    if (error) {
+    // Fetch lead details for selected leads, which can span every page
+    const leads: { id: string; lead_name: string; email: string | null }[] = [];
+    try {
+      for (const ids of chunkIds(selectedLeads)) {
+        leads.push(...await fetchInBatches((from, to) =>
+          supabase.from('leads').select('id, lead_name, email').in('id', ids).range(from, to)
+        ));
+      }
+    } catch (error) {
       toast({
         title: "Error",
         description: "Failed to fetch lead details",
@@ -64,7 +74,7 @@ const Leads = () => {
       return;
     }
 
-    const recipients: BulkEmailRecipient[] = (leads || []).map(lead => ({
+    const recipients: BulkEmailRecipient[] = leads.map(lead => ({
       id: lead.id,
       name: lead.lead_name,
       email: lead.email || undefined,
@@ -77,12 +87,12 @@ const Leads = () => {
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
-      handleImport(file);
+    if (file && (file.type === 'text/csv' || isXlsxFile(file))) {
+      setImportFile(file);
     } else {
       toast({
         title: "Error",
-        description: "Please select a valid CSV file",
+        description: "Please select a valid CSV or Excel file",
         variant: "destructive"
       });
     }
@@ -115,6 +125,18 @@ const Leads = () => {
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button variant="outline" size="icon" onClick={() => setShowEnrollModal(true)}>
+                          <Repeat className="w-4 h-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Enroll Selected in Sequence ({selectedLeads.length})</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -143,16 +165,28 @@ const Leads = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleExport}>
+                  <DropdownMenuItem onClick={() => handleExport()}>
                     <Download className="w-4 h-4 mr-2" />
                     Export CSV
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowImportHistory(true)}>
+                    <History className="w-4 h-4 mr-2" />
+                    Import history
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleBulkEmailClick} disabled={selectedLeads.length === 0}>
                     <Mail className="w-4 h-4 mr-2" />
                     Send Bulk Email ({selectedLeads.length})
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowEnrollModal(true)} disabled={selectedLeads.length === 0}>
+                    <Repeat className="w-4 h-4 mr-2" />
+                    Enroll in Sequence ({selectedLeads.length})
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleBulkDeleteClick} disabled={selectedLeads.length === 0 || isDeleting} className="text-destructive focus:text-destructive">
                     <Trash2 className="w-4 h-4 mr-2" />
                     {isDeleting ? 'Deleting...' : `Delete Selected (${selectedLeads.length})`}
@@ -172,10 +206,22 @@ const Leads = () => {
       <input 
         ref={fileInputRef} 
         type="file" 
-        accept=".csv" 
+        accept=".csv,.xlsx" 
         onChange={handleFileSelect} 
         style={{ display: 'none' }} 
       />
+      <ImportMappingWizard
+        entity="leads"
+        file={importFile}
+        onClose={() => setImportFile(null)}
+        onImport={handleImport}
+      />
+      <ImportHistoryDialog
+        entity="leads"
+        open={showImportHistory}
+        onOpenChange={setShowImportHistory}
+        onRolledBack={() => setRefreshTrigger(prev => prev + 1)}
+      />
 
       {/* Main Content Area */}
       <div className="flex-1 min-h-0 overflow-auto px-4 pt-2 pb-4">
@@ -209,6 +255,17 @@ const Leads = () => {
           setSelectedLeads([]);
         }}
       />
+
+      {/* Enroll in Sequence Modal */}
+      <EnrollInSequenceModal
+        open={showEnrollModal}
+        onOpenChange={setShowEnrollModal}
+        recipientType="lead"
+        recipientIds={selectedLeads}
+        onEnrolled={() => {
+          setSelectedLeads([]);
+        }}
+      />
     </div>
   );
 };
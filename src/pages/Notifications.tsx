@@ -99,6 +99,7 @@ const Notifications = () => {
       case 'action_item':
         return '📋';
       case 'lead_update':
+      case 'lead_assigned':
         return '👤';
       case 'deal_update':
         return '💼';
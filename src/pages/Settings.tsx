@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { cn } from "@/lib/utils";
-import { User, Key, Bell, Palette, Users, UserCog, Activity, GitBranch, FileUp, Plug, FileText, Monitor, Shield, ChevronDown, Settings as SettingsIcon, History, BarChart3 } from "lucide-react";
+import { User, Key, Bell, Palette, Users, UserCog, Activity, GitBranch, FileUp, Plug, FileText, Monitor, Shield, ChevronDown, Settings as SettingsIcon, History, BarChart3, ListPlus, Repeat, Target, Shuffle, Coins, TrendingUp, Package } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import UserManagement from "@/components/UserManagement";
 import SecuritySettings from "@/components/settings/SecuritySettings";
@@ -8,12 +8,19 @@ import AuditLogsSettings from "@/components/settings/AuditLogsSettings";
 import PageAccessSettings from "@/components/settings/PageAccessSettings";
 import BackupRestoreSettings from "@/components/settings/BackupRestoreSettings";
 import EmailTemplatesSettings from "@/components/settings/EmailTemplatesSettings";
+import EmailSequencesSettings from "@/components/settings/EmailSequencesSettings";
 import EmailHistorySettings from "@/components/settings/EmailHistorySettings";
 import { EmailAnalyticsDashboard } from "@/components/settings/EmailAnalyticsDashboard";
 import ProfileSettings from "@/components/settings/ProfileSettings";
 import NotificationSettings from "@/components/settings/NotificationSettings";
 import DisplaySettings from "@/components/settings/DisplaySettings";
 import PipelineSettings from "@/components/settings/PipelineSettings";
+import CustomFieldsSettings from "@/components/settings/CustomFieldsSettings";
+import LeadScoringSettings from "@/components/settings/LeadScoringSettings";
+import LeadAssignmentSettings from "@/components/settings/LeadAssignmentSettings";
+import CurrencySettings from "@/components/settings/CurrencySettings";
+import ForecastTargetsSettings from "@/components/settings/ForecastTargetsSettings";
+import ProductCatalogSettings from "@/components/settings/ProductCatalogSettings";
 import IntegrationSettings from "@/components/settings/IntegrationSettings";
 import SessionManagementSettings from "@/components/settings/SessionManagementSettings";
 import { useUserRole } from "@/hooks/useUserRole";
@@ -78,11 +85,45 @@ const menuSections: MenuSection[] = [{
     label: "Pipeline/Stage Management",
     icon: GitBranch,
     adminOnly: true
+  }, {
+    id: "custom-fields",
+    label: "Custom Fields",
+    icon: ListPlus,
+    adminOnly: true
+  }, {
+    id: "lead-scoring",
+    label: "Lead Scoring",
+    icon: Target,
+    adminOnly: true
+  }, {
+    id: "lead-assignment",
+    label: "Lead Assignment",
+    icon: Shuffle,
+    adminOnly: true
+  }, {
+    id: "currencies",
+    label: "Currencies",
+    icon: Coins,
+    adminOnly: true
+  }, {
+    id: "forecast-targets",
+    label: "Forecast Targets",
+    icon: TrendingUp,
+    adminOnly: true
+  }, {
+    id: "products",
+    label: "Products & Price Books",
+    icon: Package,
+    adminOnly: true
   }, {
     id: "email-templates",
     label: "Email Templates",
     icon: FileText,
     adminOnly: true
+  }, {
+    id: "email-sequences",
+    label: "Email Sequences",
+    icon: Repeat
   }, {
   id: "email-history",
     label: "Email History",
@@ -148,8 +189,22 @@ const Settings = () => {
         return <PageAccessSettings />;
       case "pipeline":
         return <PipelineSettings />;
+      case "custom-fields":
+        return <CustomFieldsSettings />;
+      case "lead-scoring":
+        return <LeadScoringSettings />;
+      case "lead-assignment":
+        return <LeadAssignmentSettings />;
+      case "currencies":
+        return <CurrencySettings />;
+      case "forecast-targets":
+        return <ForecastTargetsSettings />;
+      case "products":
+        return <ProductCatalogSettings />;
       case "email-templates":
         return <EmailTemplatesSettings />;
+      case "email-sequences":
+        return <EmailSequencesSettings />;
       case "email-history":
         return <EmailHistorySettings />;
       case "email-analytics":
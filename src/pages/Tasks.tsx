@@ -24,6 +24,7 @@ const Tasks = () => {
   } = useTasks();
   const [showModal, setShowModal] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [parentTask, setParentTask] = useState<Task | null>(null);
   const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'list' | 'kanban' | 'calendar'>('list');
   const [selectedTasks, setSelectedTasks] = useState<string[]>([]);
@@ -53,6 +54,11 @@ const Tasks = () => {
     setEditingTask(task);
     setShowModal(true);
   };
+  const handleAddSubtask = (parent: Task) => {
+    setEditingTask(null);
+    setParentTask(parent);
+    setShowModal(true);
+  };
   const handleDelete = (taskId: string) => {
     setDeleteTaskId(taskId);
   };
@@ -77,6 +83,7 @@ const Tasks = () => {
   const handleCloseModal = () => {
     setShowModal(false);
     setEditingTask(null);
+    setParentTask(null);
   };
   if (loading) {
     return <div className="flex items-center justify-center h-64">
@@ -147,13 +154,13 @@ const Tasks = () => {
 
       {/* Main Content */}
       <div className="flex-1 min-h-0 overflow-auto px-4 pt-2 pb-4">
-        {viewMode === 'list' && <TaskListView tasks={tasks} onEdit={handleEdit} onDelete={handleDelete} onStatusChange={handleStatusChange} onToggleComplete={handleToggleComplete} initialStatusFilter={initialStatusFilter} initialOwnerFilter={initialOwnerFilter} />}
+        {viewMode === 'list' && <TaskListView tasks={tasks} onEdit={handleEdit} onDelete={handleDelete} onStatusChange={handleStatusChange} onToggleComplete={handleToggleComplete} onAddSubtask={handleAddSubtask} initialStatusFilter={initialStatusFilter} initialOwnerFilter={initialOwnerFilter} />}
         {viewMode === 'kanban' && <TaskKanbanView tasks={tasks} onEdit={handleEdit} onDelete={handleDelete} onStatusChange={handleStatusChange} />}
         {viewMode === 'calendar' && <TaskCalendarView tasks={tasks} onEdit={handleEdit} />}
       </div>
 
       {/* Task Modal */}
-      <TaskModal open={showModal} onOpenChange={handleCloseModal} task={editingTask} onSubmit={createTask} onUpdate={updateTask} />
+      <TaskModal open={showModal} onOpenChange={handleCloseModal} task={editingTask} parentTask={parentTask} onSubmit={createTask} onUpdate={updateTask} />
 
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteTaskId} onOpenChange={() => setDeleteTaskId(null)}>
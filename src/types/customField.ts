@@ -0,0 +1,210 @@
+export type CustomFieldEntity = 'account' | 'contact' | 'lead' | 'deal' | 'meeting' | 'task';
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'boolean';
+
+export type CustomFieldValue = string | number | boolean | string[] | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export interface CustomFieldDefinition {
+  id: string;
+  entity_type: CustomFieldEntity;
+  field_name: string;
+  field_label: string;
+  field_type: CustomFieldType;
+  field_options: string[];
+  is_required: boolean;
+  is_visible: boolean;
+  display_order: number;
+}
+
+export const CUSTOM_FIELD_ENTITIES: { value: CustomFieldEntity; label: string; table: string }[] = [
+  { value: 'account', label: 'Accounts', table: 'accounts' },
+  { value: 'contact', label: 'Contacts', table: 'contacts' },
+  { value: 'lead', label: 'Leads', table: 'leads' },
+  { value: 'deal', label: 'Deals', table: 'deals' },
+  { value: 'meeting', label: 'Meetings', table: 'meetings' },
+  { value: 'task', label: 'Tasks', table: 'tasks' },
+];
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Single Select' },
+  { value: 'multiselect', label: 'Multi Select' },
+  { value: 'boolean', label: 'Yes / No' },
+];
+
+// Custom fields share the column/CSV namespace with built-in fields, so they are prefixed
+export const CUSTOM_FIELD_COLUMN_PREFIX = 'cf_';
+
+export const toCustomFieldColumn = (fieldName: string) => `${CUSTOM_FIELD_COLUMN_PREFIX}${fieldName}`;
+
+export const isCustomFieldColumn = (column: string) => column.startsWith(CUSTOM_FIELD_COLUMN_PREFIX);
+
+export const getCustomFieldName = (column: string) =>
+  isCustomFieldColumn(column) ? column.slice(CUSTOM_FIELD_COLUMN_PREFIX.length) : column;
+
+export const hasFieldOptions = (type: CustomFieldType) => type === 'select' || type === 'multiselect';
+
+// Derives a storage key from a label, e.g. "Fleet Size (units)" -> "fleet_size_units"
+export const toCustomFieldName = (label: string) => {
+  const name = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[a-z]/.test(name) ? name : name ? `field_${name}` : '';
+};
+
+export const getCustomFieldValues = (record?: { custom_fields?: unknown } | null): CustomFieldValues => {
+  const values = record?.custom_fields;
+  if (!values || typeof values !== 'object' || Array.isArray(values)) return {};
+  return values as CustomFieldValues;
+};
+
+export const isEmptyCustomFieldValue = (value: CustomFieldValue | undefined) =>
+  value === null ||
+  value === undefined ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+export const formatCustomFieldValue = (field: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (isEmptyCustomFieldValue(value)) return '';
+
+  switch (field.field_type) {
+    case 'boolean':
+      return value === true || value === 'true' ? 'Yes' : 'No';
+    case 'multiselect':
+      return Array.isArray(value) ? value.join('; ') : String(value);
+    default:
+      return String(value);
+  }
+};
+
+// Converts raw text (CSV cells, inline edits) into the stored representation for a field
+export const parseCustomFieldValue = (
+  field: CustomFieldDefinition,
+  raw: string | null | undefined
+): { value: CustomFieldValue; error?: string } => {
+  const text = (raw ?? '').trim();
+  if (!text) return { value: null };
+
+  const matchOption = (candidate: string) =>
+    field.field_options.find(option => option.toLowerCase() === candidate.toLowerCase());
+
+  switch (field.field_type) {
+    case 'number': {
+      const num = Number(text.replace(/,/g, ''));
+      if (isNaN(num)) return { value: null, error: `${field.field_label} must be a number` };
+      return { value: num };
+    }
+    case 'date': {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(new Date(text).getTime())) {
+        return { value: null, error: `${field.field_label} must be a date in YYYY-MM-DD format` };
+      }
+      return { value: text };
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (['yes', 'true', '1', 'y'].includes(lower)) return { value: true };
+      if (['no', 'false', '0', 'n'].includes(lower)) return { value: false };
+      return { value: null, error: `${field.field_label} must be Yes or No` };
+    }
+    case 'select': {
+      const option = matchOption(text);
+      if (!option) return { value: null, error: `${field.field_label} must be one of: ${field.field_options.join(', ')}` };
+      return { value: option };
+    }
+    case 'multiselect': {
+      const parts = text.split(/[;,]/).map(part => part.trim()).filter(Boolean);
+      const options = parts.map(matchOption);
+      const invalid = parts.filter((_, index) => !options[index]);
+      if (invalid.length > 0) {
+        return { value: null, error: `${field.field_label} has invalid options: ${invalid.join(', ')}` };
+      }
+      return { value: options as string[] };
+    }
+    default:
+      return { value: text };
+  }
+};
+
+// Returns an error message per field name for missing required values
+export const validateCustomFieldValues = (
+  fields: CustomFieldDefinition[],
+  values: CustomFieldValues
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    if (field.is_required && isEmptyCustomFieldValue(values[field.field_name])) {
+      errors[field.field_name] = `${field.field_label} is required`;
+    }
+  });
+  return errors;
+};
+
+export const compareCustomFieldValues = (
+  field: CustomFieldDefinition,
+  a: CustomFieldValue | undefined,
+  b: CustomFieldValue | undefined
+) => {
+  if (isEmptyCustomFieldValue(a) && isEmptyCustomFieldValue(b)) return 0;
+  if (isEmptyCustomFieldValue(a)) return 1;
+  if (isEmptyCustomFieldValue(b)) return -1;
+  if (field.field_type === 'number') return Number(a) - Number(b);
+  return formatCustomFieldValue(field, a).localeCompare(formatCustomFieldValue(field, b));
+};
+
+// Option-based fields filter on an exact option, everything else on a case-insensitive substring
+export const matchesCustomFieldFilter = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+  filter: string
+) => {
+  if (!filter) return true;
+  // An unset boolean reads as "No" in forms, so filter it the same way
+  if (field.field_type === 'boolean') return String(value === true || value === 'true') === filter;
+  if (isEmptyCustomFieldValue(value)) return false;
+
+  switch (field.field_type) {
+    case 'select':
+      return value === filter;
+    case 'multiselect':
+      return Array.isArray(value) && value.includes(filter);
+    default:
+      return formatCustomFieldValue(field, value).toLowerCase().includes(filter.toLowerCase());
+  }
+};
+
+interface ColumnLike {
+  field: string;
+  label: string;
+  visible: boolean;
+  order: number;
+}
+
+// Keeps custom field columns in step with the current definitions: new visible fields are appended
+// (hidden by default), deleted or hidden fields are dropped and renamed labels are refreshed.
+export const mergeCustomFieldColumns = <T extends ColumnLike>(
+  columns: T[],
+  fields: CustomFieldDefinition[]
+): T[] => {
+  const visibleFields = fields.filter(field => field.is_visible);
+  const byColumn = new Map(visibleFields.map(field => [toCustomFieldColumn(field.field_name), field]));
+
+  const merged = columns
+    .filter(column => !isCustomFieldColumn(column.field) || byColumn.has(column.field))
+    .map(column => {
+      const field = byColumn.get(column.field);
+      return field ? { ...column, label: field.field_label } : column;
+    });
+
+  let nextOrder = merged.reduce((max, column) => Math.max(max, column.order), -1) + 1;
+  visibleFields.forEach(field => {
+    const columnField = toCustomFieldColumn(field.field_name);
+    if (!merged.some(column => column.field === columnField)) {
+      merged.push({ field: columnField, label: field.field_label, visible: false, order: nextOrder++ } as T);
+    }
+  });
+
+  return merged;
+};
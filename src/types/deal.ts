@@ -1,4 +1,27 @@
-export type DealStage = 'Lead' | 'Discussions' | 'Qualified' | 'RFQ' | 'Offered' | 'Won' | 'Lost' | 'Dropped';
+import { CustomFieldValues } from '@/types/customField';
+
+// Stage names are configured by admins in the pipeline_stages table, so any
+// configured stage name is a valid DealStage.
+export type DealStage = string;
+
+export interface PipelineStage {
+  id: string;
+  stage_name: string;
+  stage_order: number;
+  stage_color: string;
+  stage_probability: number;
+  is_active: boolean;
+  is_won_stage: boolean;
+  is_lost_stage: boolean;
+  // Quotes can be generated for deals in this stage
+  is_quote_stage: boolean;
+  // Open deals in this stage count toward projected revenue
+  is_projected_stage: boolean;
+  // A lost stage that records a drop reason instead of a lost reason
+  is_dropped_stage: boolean;
+  // Stages a deal may move to next; empty allows any stage
+  allowed_next_stages?: string[] | null;
+}
 
 export interface Deal {
   id: string;
@@ -23,6 +46,8 @@ export interface Deal {
   
   // Discussions stage fields
   expected_closing_date?: string;
+  // Manual forecast category; null follows the probability (see utils/forecast)
+  forecast_category?: 'commit' | 'best_case' | 'pipeline' | 'omitted' | null;
   customer_need?: string;
   customer_challenges?: 'Open' | 'Ongoing' | 'Done';
   relationship_strength?: 'Low' | 'Medium' | 'High';
@@ -58,6 +83,10 @@ export interface Deal {
   signed_contract_date?: string;
   implementation_start_date?: string;
   handoff_status?: 'Not Started' | 'In Progress' | 'Complete';
+  // Rate into the reporting currency, locked by the database when the deal is won
+  locked_exchange_rate?: number | null;
+  locked_rate_currency?: string | null;
+  locked_rate_date?: string | null;
   
   // Lost stage fields
   lost_reason?: string;
@@ -65,53 +94,135 @@ export interface Deal {
   
   // Dropped stage fields
   drop_reason?: string;
+
+  // Admin-defined fields keyed by crm_custom_fields.field_name
+  custom_fields?: CustomFieldValues;
 }
 
-export const DEAL_STAGES: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-
-export const STAGE_COLORS = {
-  Lead: 'bg-stage-lead text-stage-lead-foreground border-stage-lead-foreground/20',
-  Discussions: 'bg-stage-discussions text-stage-discussions-foreground border-stage-discussions-foreground/20',
-  Qualified: 'bg-stage-qualified text-stage-qualified-foreground border-stage-qualified-foreground/20',
-  RFQ: 'bg-stage-rfq text-stage-rfq-foreground border-stage-rfq-foreground/20',
-  Offered: 'bg-stage-offered text-stage-offered-foreground border-stage-offered-foreground/20',
-  Won: 'bg-stage-won text-stage-won-foreground border-stage-won-foreground/20',
-  Lost: 'bg-stage-lost text-stage-lost-foreground border-stage-lost-foreground/20',
-  Dropped: 'bg-stage-dropped text-stage-dropped-foreground border-stage-dropped-foreground/20',
+// Stages seeded in pipeline_stages. Used as a fallback until the configured
+// stages have loaded and to decide which stage-specific form sections exist.
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'default-lead', stage_name: 'Lead', stage_order: 0, stage_color: '#6b7280', stage_probability: 10, is_active: true, is_won_stage: false, is_lost_stage: false, is_quote_stage: false, is_projected_stage: false, is_dropped_stage: false },
+  { id: 'default-discussions', stage_name: 'Discussions', stage_order: 1, stage_color: '#10b981', stage_probability: 20, is_active: true, is_won_stage: false, is_lost_stage: false, is_quote_stage: false, is_projected_stage: false, is_dropped_stage: false },
+  { id: 'default-qualified', stage_name: 'Qualified', stage_order: 2, stage_color: '#3b82f6', stage_probability: 40, is_active: true, is_won_stage: false, is_lost_stage: false, is_quote_stage: false, is_projected_stage: false, is_dropped_stage: false },
+  { id: 'default-rfq', stage_name: 'RFQ', stage_order: 3, stage_color: '#8b5cf6', stage_probability: 60, is_active: true, is_won_stage: false, is_lost_stage: false, is_quote_stage: true, is_projected_stage: true, is_dropped_stage: false },
+  { id: 'default-offered', stage_name: 'Offered', stage_order: 4, stage_color: '#f59e0b', stage_probability: 80, is_active: true, is_won_stage: false, is_lost_stage: false, is_quote_stage: true, is_projected_stage: false, is_dropped_stage: false },
+  { id: 'default-won', stage_name: 'Won', stage_order: 5, stage_color: '#22c55e', stage_probability: 100, is_active: true, is_won_stage: true, is_lost_stage: false, is_quote_stage: false, is_projected_stage: false, is_dropped_stage: false },
+  { id: 'default-lost', stage_name: 'Lost', stage_order: 6, stage_color: '#ef4444', stage_probability: 0, is_active: true, is_won_stage: false, is_lost_stage: true, is_quote_stage: false, is_projected_stage: false, is_dropped_stage: false },
+  { id: 'default-dropped', stage_name: 'Dropped', stage_order: 7, stage_color: '#94a3b8', stage_probability: 0, is_active: true, is_won_stage: false, is_lost_stage: true, is_quote_stage: false, is_projected_stage: false, is_dropped_stage: true },
+];
+
+export const DEAL_STAGES: DealStage[] = DEFAULT_PIPELINE_STAGES.map(s => s.stage_name);
+
+// Open stages that have a dedicated section in the deal form, in pipeline order
+export const STAGE_FORM_SECTIONS: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered'];
+
+const findStage = (stage: DealStage, stages: PipelineStage[]): PipelineStage | undefined =>
+  stages.find(s => s.stage_name === stage);
+
+export const isWonStage = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): boolean =>
+  !!findStage(stage, stages)?.is_won_stage;
+
+export const isLostStage = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): boolean =>
+  !!findStage(stage, stages)?.is_lost_stage;
+
+export const isProjectedStage = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): boolean =>
+  !!findStage(stage, stages)?.is_projected_stage;
+
+export const isClosedStage = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): boolean =>
+  isWonStage(stage, stages) || isLostStage(stage, stages);
+
+export const getWonStageNames = (stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): DealStage[] =>
+  stages.filter(s => s.is_won_stage).map(s => s.stage_name);
+
+export const getQuoteStageNames = (stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): DealStage[] =>
+  stages.filter(s => s.is_quote_stage).map(s => s.stage_name);
+
+export const getLostStageNames = (stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): DealStage[] =>
+  stages.filter(s => s.is_lost_stage).map(s => s.stage_name);
+
+export const getStageColor = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): string =>
+  findStage(stage, stages)?.stage_color || '#6b7280';
+
+// Inline style for stage headers and badges, derived from the configured hex color
+export const getStageStyle = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES) => {
+  const color = getStageColor(stage, stages);
+  return {
+    backgroundColor: `${color}1a`,
+    borderColor: `${color}4d`,
+    color,
+  };
 };
 
-export const getStageIndex = (stage: DealStage): number => {
-  return DEAL_STAGES.indexOf(stage);
+export const getStageProbability = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): number | undefined =>
+  findStage(stage, stages)?.stage_probability ?? undefined;
+
+// Resolve a free-text stage (e.g. from a CSV) to the configured stage name, ignoring case
+export const resolveStageName = (value: string, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): DealStage | null => {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return null;
+  return stages.find(s => s.stage_name.toLowerCase() === normalized)?.stage_name || null;
 };
 
-export const getFieldsForStage = (stage: DealStage): string[] => {
-  const stageIndex = getStageIndex(stage);
-  const allStages = [
-    // Lead fields
-    ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
-    // Discussions fields  
-    ['customer_need', 'relationship_strength', 'internal_comment'],
-    // Qualified fields
-    ['budget', 'business_value', 'decision_maker_level', 'customer_challenges', 'probability', 'expected_closing_date', 'is_recurring'],
-    // RFQ fields
-    ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items'],
-    // Offered fields
-    ['business_value', 'decision_maker_level', 'current_status', 'closing'],
-  ];
-  
-  let availableFields: string[] = [];
-  for (let i = 0; i <= stageIndex && i < allStages.length; i++) {
-    availableFields = [...availableFields, ...allStages[i]];
+// Fields written alongside a stage change: the stage itself plus the stage's default probability
+export const getStageTransitionUpdates = (newStage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): Partial<Deal> => {
+  const updates: Partial<Deal> = { stage: newStage };
+  const probability = getStageProbability(newStage, stages);
+  if (probability !== undefined && probability !== null) {
+    updates.probability = probability;
   }
-  
+  return updates;
+};
+
+const sortStages = (stages: PipelineStage[]): PipelineStage[] =>
+  [...stages].sort((a, b) => a.stage_order - b.stage_order);
+
+export const getStageIndex = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): number => {
+  return sortStages(stages).findIndex(s => s.stage_name === stage);
+};
+
+const STAGE_SECTION_FIELDS: Record<string, string[]> = {
+  Lead: ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
+  Discussions: ['customer_need', 'relationship_strength', 'internal_comment'],
+  Qualified: ['budget', 'business_value', 'decision_maker_level', 'customer_challenges', 'probability', 'expected_closing_date', 'forecast_category', 'is_recurring'],
+  RFQ: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items'],
+  Offered: ['business_value', 'decision_maker_level', 'current_status', 'closing'],
+};
+
+const WON_FIELDS = ['won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status'];
+const LOST_FIELDS = ['lost_reason', 'need_improvement'];
+const DROPPED_FIELDS = ['drop_reason'];
+
+// Reason/outcome fields captured when a deal reaches a won or lost stage. Lost stages flagged as
+// dropped (Dropped by default) record a drop reason, the others the lost reason.
+export const getClosingFieldsForStage = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): string[] => {
+  if (isWonStage(stage, stages)) return WON_FIELDS;
+  if (isLostStage(stage, stages)) return findStage(stage, stages)?.is_dropped_stage ? DROPPED_FIELDS : LOST_FIELDS;
+  return [];
+};
+
+// Form sections shown for a stage: every built-in section at or before the stage's
+// position in the configured pipeline. Custom stages inherit the sections before them.
+export const getFormSectionsForStage = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): DealStage[] => {
+  if (isClosedStage(stage, stages)) return [...STAGE_FORM_SECTIONS];
+
+  const current = stages.find(s => s.stage_name === stage);
+  if (!current) return STAGE_FORM_SECTIONS.includes(stage) ? [stage] : [STAGE_FORM_SECTIONS[0]];
+
+  const sections = sortStages(stages)
+    .filter(s => s.stage_order <= current.stage_order && STAGE_FORM_SECTIONS.includes(s.stage_name))
+    .map(s => s.stage_name);
+  return sections.length > 0 ? sections : [STAGE_FORM_SECTIONS[0]];
+};
+
+export const getFieldsForStage = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): string[] => {
+  let availableFields: string[] = [];
+  getFormSectionsForStage(stage, stages).forEach(section => {
+    availableFields = [...availableFields, ...STAGE_SECTION_FIELDS[section]];
+  });
+
   // Add final stage-specific reason fields based on the current stage
-  if (stage === 'Won') {
-    availableFields.push('won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status');
-  } else if (stage === 'Lost') {
-    availableFields.push('lost_reason', 'need_improvement');
-  } else if (stage === 'Dropped') {
-    availableFields.push('drop_reason');
-  }
+  availableFields.push(...getClosingFieldsForStage(stage, stages));
   
   // Always include internal_comment field
   if (!availableFields.includes('internal_comment')) {
@@ -121,36 +232,51 @@ export const getFieldsForStage = (stage: DealStage): string[] => {
   return availableFields;
 };
 
-export const getEditableFieldsForStage = (stage: DealStage): string[] => {
+export const getEditableFieldsForStage = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): string[] => {
   // All fields are always editable according to requirements
-  return getFieldsForStage(stage);
+  return getFieldsForStage(stage, stages);
 };
 
-export const getRequiredFieldsForStage = (stage: DealStage): string[] => {
-  const requiredFields = {
+export const getRequiredFieldsForStage = (stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): string[] => {
+  const requiredFields: Record<string, string[]> = {
     Lead: ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
     Discussions: ['customer_need', 'relationship_strength', 'internal_comment'],
     Qualified: ['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment'],
     RFQ: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment'],
     Offered: ['business_value', 'decision_maker_level', 'current_status', 'closing'],
-    Won: ['won_reason', 'start_date', 'total_revenue', 'signed_contract_date', 'handoff_status'],
-    Lost: ['lost_reason', 'need_improvement'],
-    Dropped: ['drop_reason'],
   };
+  if (isWonStage(stage, stages)) return ['won_reason', 'start_date', 'total_revenue', 'signed_contract_date', 'handoff_status'];
+  if (isLostStage(stage, stages)) return getClosingFieldsForStage(stage, stages);
   return requiredFields[stage] || [];
 };
 
-export const getNextStage = (currentStage: DealStage): DealStage | null => {
-  const stageFlow = {
-    Lead: 'Discussions',
-    Discussions: 'Qualified', 
-    Qualified: 'RFQ',
-    RFQ: 'Offered',
-    Offered: null, // After Offered, user can choose Won/Lost/Dropped
-  };
-  return stageFlow[currentStage] || null;
+export const isStageTransitionAllowed = (fromStage: DealStage, toStage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): boolean => {
+  const allowed = findStage(fromStage, stages)?.allowed_next_stages;
+  return fromStage === toStage || !allowed || allowed.length === 0 || allowed.includes(toStage);
+};
+
+// Required fields of the target stage that the deal has not filled in yet
+export const getMissingStageFields = (deal: Partial<Deal>, stage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): string[] => {
+  return getRequiredFieldsForStage(stage, stages).filter(field => {
+    const value = deal[field as keyof Deal];
+    return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+  });
+};
+
+// Next open stage in pipeline order. Returns null from the last open stage, where
+// the user picks one of the won/lost stages instead.
+export const getNextStage = (currentStage: DealStage, stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): DealStage | null => {
+  const current = stages.find(s => s.stage_name === currentStage);
+  if (!current || current.is_won_stage || current.is_lost_stage) return null;
+
+  const next = sortStages(stages).find(s =>
+    s.is_active && !s.is_won_stage && !s.is_lost_stage && s.stage_order > current.stage_order
+  );
+  return next?.stage_name || null;
 };
 
-export const getFinalStageOptions = (): DealStage[] => {
-  return ['Won', 'Lost', 'Dropped'];
+export const getFinalStageOptions = (stages: PipelineStage[] = DEFAULT_PIPELINE_STAGES): DealStage[] => {
+  return sortStages(stages)
+    .filter(s => s.is_active && (s.is_won_stage || s.is_lost_stage))
+    .map(s => s.stage_name);
 };
@@ -1,7 +1,39 @@
+import { CustomFieldValues } from '@/types/customField';
+
 export type TaskStatus = 'open' | 'in_progress' | 'completed' | 'cancelled';
 export type TaskPriority = 'high' | 'medium' | 'low';
 export type TaskModuleType = 'accounts' | 'contacts' | 'leads' | 'meetings' | 'deals';
 
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+export type RecurrenceTrigger = 'completion' | 'schedule';
+export type RecurrenceEditScope = 'this' | 'future';
+
+// Parsed form of the RRULE stored in tasks.recurrence; the end date lives in tasks.recurrence_end_date
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday: RecurrenceWeekday[];
+  // Day of month for monthly rules, -1 for the last day
+  byMonthDay: number | null;
+  count: number | null;
+}
+
+// Checklist item stored in task_subtasks
+export interface TaskSubtask {
+  id: string;
+  task_id: string;
+  title: string;
+  is_completed: boolean;
+  order_index: number;
+}
+
+export interface TaskSubtaskDraft {
+  id?: string;
+  title: string;
+  is_completed: boolean;
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -21,7 +53,16 @@ export interface Task {
   created_at: string;
   updated_at: string;
   completed_at: string | null;
+  reminder_date: string | null;
+  recurrence: string | null;
+  recurrence_end_date: string | null;
+  recurrence_series_id: string | null;
+  recurrence_trigger: RecurrenceTrigger;
+  parent_task_id: string | null;
+  require_subtasks_complete: boolean;
+  custom_fields?: CustomFieldValues;
   // Joined data
+  subtasks?: TaskSubtask[];
   lead_name?: string;
   contact_name?: string;
   deal_name?: string;
@@ -47,8 +88,20 @@ export interface CreateTaskData {
   lead_id?: string;
   meeting_id?: string;
   deal_id?: string;
+  reminder_date?: string | null;
+  recurrence?: string | null;
+  recurrence_end_date?: string | null;
+  recurrence_trigger?: RecurrenceTrigger;
+  parent_task_id?: string | null;
+  require_subtasks_complete?: boolean;
+  custom_fields?: CustomFieldValues;
+  // Checklist to save with the task; replaces the existing items on update
+  subtasks?: TaskSubtaskDraft[];
 }
 
+// Joined checklist items are accepted back as drafts, so a fetched task can be passed as-is
+export type TaskUpdateData = Omit<Partial<Task>, 'subtasks'> & { subtasks?: TaskSubtaskDraft[] };
+
 export interface TaskModalContext {
   module?: TaskModuleType;
   recordId?: string;
@@ -1,15 +1,15 @@
 export class CSVParser {
-  static parseCSV(text: string): { headers: string[], rows: string[][] } {
-    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line);
-    
-    if (lines.length === 0) {
+  // `delimiter` is detected from the header row when not given
+  static parseCSV(text: string, delimiter?: string): { headers: string[], rows: string[][] } {
+    const input = text.replace(/^\uFEFF/, '');
+    const parser = new CSVRecordParser(delimiter || detectDelimiter(input));
+    const records = [...parser.push(input), ...parser.flush()];
+
+    if (records.length === 0) {
       return { headers: [], rows: [] };
     }
 
-    const headers = this.parseCSVLine(lines[0]);
-    const rows = lines.slice(1).map(line => this.parseCSVLine(line));
-    
-    return { headers, rows };
+    return { headers: records[0], rows: records.slice(1) };
   }
 
   static parseCSVLine(line: string): string[] {
@@ -72,4 +72,253 @@ export class CSVParser {
     }
     return str;
   }
-}
\ No newline at end of file
+}
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// Picks the candidate that appears most often outside quotes in the first line; semicolons are
+// common in European spreadsheet exports where the comma is the decimal separator
+export const detectDelimiter = (sample: string): string => {
+  const counts = new Map(CANDIDATE_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+  for (const char of sample) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+
+  let best = ',';
+  counts.forEach((count, delimiter) => {
+    if (count > counts.get(best)!) best = delimiter;
+  });
+  return best;
+};
+
+// Reads the byte order mark; without one, bytes that aren't valid UTF-8 are taken as Windows-1252,
+// which is what Excel writes for "CSV" on most Western European systems
+export const detectEncoding = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    // `stream` tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+type RecordParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' | 'afterQuoted' | 'afterCR';
+
+// Incremental RFC 4180 parser. Text can be pushed in chunks of any size: quoted fields may hold
+// delimiters, escaped quotes ("") and line breaks, and CRLF, LF or CR end a record. Unquoted fields
+// are trimmed and blank lines are skipped, as the line-based parser did.
+export class CSVRecordParser {
+  private state: RecordParserState = 'fieldStart';
+  private field = '';
+  private fieldQuoted = false;
+  private record: string[] = [];
+  private records: string[][] = [];
+
+  constructor(private readonly delimiter: string = ',') {}
+
+  push(text: string): string[][] {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      switch (this.state) {
+        case 'afterCR':
+          this.state = 'fieldStart';
+          if (char === '\n') break;
+          i--;
+          break;
+        case 'fieldStart':
+          if (char === '"') {
+            this.field = '';
+            this.fieldQuoted = true;
+            this.state = 'quoted';
+          } else if (char === ' ' || (char === '\t' && this.delimiter !== '\t')) {
+            // Leading spaces before an opening quote are dropped with it
+            this.field += char;
+          } else {
+            this.state = 'unquoted';
+            i--;
+          }
+          break;
+        case 'unquoted':
+          if (!this.endOfField(char)) this.field += char;
+          break;
+        case 'quoted':
+          if (char === '"') this.state = 'quoteInQuoted';
+          else this.field += char;
+          break;
+        case 'quoteInQuoted':
+          if (char === '"') {
+            this.field += '"';
+            this.state = 'quoted';
+          } else {
+            this.state = 'afterQuoted';
+            i--;
+          }
+          break;
+        case 'afterQuoted':
+          // Text after a closing quote is kept rather than rejected, apart from padding
+          if (!this.endOfField(char) && char !== ' ' && char !== '\t') this.field += char;
+          break;
+      }
+    }
+
+    return this.takeRecords();
+  }
+
+  // Ends the last record when the input doesn't finish with a line break
+  flush(): string[][] {
+    if (this.state !== 'afterCR' && (this.record.length > 0 || this.field !== '' || this.fieldQuoted)) {
+      this.endRecord();
+    }
+    this.state = 'fieldStart';
+    return this.takeRecords();
+  }
+
+  private endOfField(char: string): boolean {
+    if (char === this.delimiter) {
+      this.endField();
+    } else if (char === '\n') {
+      this.endRecord();
+    } else if (char === '\r') {
+      this.endRecord();
+      this.state = 'afterCR';
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  private endField() {
+    this.record.push(this.fieldQuoted ? this.field : this.field.trim());
+    this.field = '';
+    this.fieldQuoted = false;
+    this.state = 'fieldStart';
+  }
+
+  private endRecord() {
+    this.endField();
+    if (this.record.length > 1 || this.record[0] !== '') {
+      this.records.push(this.record);
+    }
+    this.record = [];
+  }
+
+  private takeRecords(): string[][] {
+    const records = this.records;
+    this.records = [];
+    return records;
+  }
+}
+
+export interface CSVReadOptions {
+  // Detected from the header row when not given
+  delimiter?: string;
+  // Detected from the file's first bytes when not given
+  encoding?: string;
+}
+
+export interface CSVRowBatch {
+  headers: string[];
+  rows: string[][];
+  // Data rows read so far, including this batch
+  rowsRead: number;
+  // Extrapolated from the share of the input read so far; exact once the input is exhausted
+  estimatedTotalRows: number;
+}
+
+// Reads a CSV file or text in batches of data rows, so large files are never held in memory whole.
+// The header row is returned with every batch; a file with no data rows yields nothing.
+export async function* readCSVBatches(
+  source: File | string,
+  batchSize: number,
+  options: CSVReadOptions = {}
+): AsyncGenerator<CSVRowBatch> {
+  let parser: CSVRecordParser | null = options.delimiter ? new CSVRecordParser(options.delimiter) : null;
+  let pendingText = '';
+  let headers: string[] | null = null;
+  let rows: string[][] = [];
+  let rowsRead = 0;
+
+  const collect = (records: string[][]) => {
+    records.forEach(record => {
+      if (!headers) headers = record;
+      else rows.push(record);
+    });
+  };
+
+  // Text is held back until the first line is complete so the delimiter can be detected from it
+  const parse = (text: string, final: boolean) => {
+    if (!parser) {
+      pendingText += text;
+      if (!final && !/[\r\n]/.test(pendingText)) return;
+      parser = new CSVRecordParser(detectDelimiter(pendingText));
+      text = pendingText;
+      pendingText = '';
+    }
+    collect(parser.push(text));
+    if (final) collect(parser.flush());
+  };
+
+  const takeBatches = function* (progress: number, final: boolean): Generator<CSVRowBatch> {
+    while (headers && (rows.length >= batchSize || (final && rows.length > 0))) {
+      const batch = rows.slice(0, batchSize);
+      rows = rows.slice(batchSize);
+      rowsRead += batch.length;
+      const remaining = rows.length;
+      yield {
+        headers,
+        rows: batch,
+        rowsRead,
+        estimatedTotalRows: final
+          ? rowsRead + remaining
+          : Math.max(rowsRead + remaining, Math.round((rowsRead + remaining) / Math.max(progress, 0.01))),
+      };
+    }
+  };
+
+  if (typeof source === 'string') {
+    parse(source.replace(/^\uFEFF/, ''), true);
+    yield* takeBatches(1, true);
+    return;
+  }
+
+  const reader = source.stream().getReader();
+  let decoder: TextDecoder | null = options.encoding ? new TextDecoder(options.encoding) : null;
+  let bytesRead = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // The decoder drops the byte order mark and carries characters split across chunks
+      if (!decoder) decoder = new TextDecoder(detectEncoding(value));
+      bytesRead += value.length;
+      parse(decoder.decode(value, { stream: true }), false);
+      yield* takeBatches(source.size > 0 ? bytesRead / source.size : 1, false);
+    }
+
+    parse(decoder ? decoder.decode() : '', true);
+    yield* takeBatches(1, true);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Reads a whole CSV file with encoding and delimiter detection, for previews and small files
+export const readCSVFile = async (file: File, options: CSVReadOptions = {}) => {
+  let headers: string[] = [];
+  const rows: string[][] = [];
+  for await (const batch of readCSVBatches(file, 1000, options)) {
+    headers = batch.headers;
+    rows.push(...batch.rows);
+  }
+  return { headers, rows };
+};
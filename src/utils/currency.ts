@@ -0,0 +1,111 @@
+export interface CurrencyOption {
+  code: string;
+  symbol: string;
+  name: string;
+}
+
+export const CURRENCY_OPTIONS: CurrencyOption[] = [
+  { code: 'EUR', symbol: '€', name: 'Euro' },
+  { code: 'USD', symbol: '$', name: 'US Dollar' },
+  { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
+  { code: 'GBP', symbol: '£', name: 'British Pound' },
+  { code: 'AED', symbol: 'د.إ', name: 'UAE Dirham' },
+  { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar' },
+];
+
+export const DEFAULT_REPORTING_CURRENCY = 'EUR';
+
+export interface ExchangeRate {
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+export interface CurrencyAmountSource {
+  currency_type?: string | null;
+  locked_exchange_rate?: number | null;
+  locked_rate_currency?: string | null;
+  locked_rate_date?: string | null;
+}
+
+export const getCurrencySymbol = (currency: string) =>
+  CURRENCY_OPTIONS.find(option => option.code === currency)?.symbol || currency;
+
+export const formatCurrency = (amount: number, currency: string = DEFAULT_REPORTING_CURRENCY) => {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0
+    }).format(amount);
+  } catch {
+    // Unknown ISO codes
+    return `${getCurrencySymbol(currency)}${amount.toLocaleString()}`;
+  }
+};
+
+// Same lookup as find_exchange_rate in the database: the latest direct or inverse rate on or
+// before the date, else the earliest one after it
+const findRate = (rates: ExchangeRate[], from: string, to: string, date: string): number | null => {
+  let best: { rate: number; onOrBefore: boolean; distance: number } | null = null;
+
+  for (const r of rates) {
+    let rate: number;
+    if (r.base_currency === from && r.quote_currency === to) rate = r.rate;
+    else if (r.base_currency === to && r.quote_currency === from) rate = 1 / r.rate;
+    else continue;
+
+    const onOrBefore = r.effective_date <= date;
+    const distance = Math.abs(new Date(date).getTime() - new Date(r.effective_date).getTime());
+    if (!best || (onOrBefore && !best.onOrBefore) || (onOrBefore === best.onOrBefore && distance < best.distance)) {
+      best = { rate, onOrBefore, distance };
+    }
+  }
+
+  return best ? best.rate : null;
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Rate from one currency to another, going through the reporting currency when the pair has none
+export const getExchangeRate = (
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  reportingCurrency: string,
+  date: string = today()
+): number | null => {
+  if (from === to) return 1;
+
+  const direct = findRate(rates, from, to, date);
+  if (direct !== null) return direct;
+
+  if (reportingCurrency === from || reportingCurrency === to) return null;
+  const toPivot = findRate(rates, from, reportingCurrency, date);
+  const fromPivot = findRate(rates, reportingCurrency, to, date);
+  return toPivot !== null && fromPivot !== null ? toPivot * fromPivot : null;
+};
+
+// Amount of a deal in the reporting currency, using the rate locked when a Won deal closed.
+// Returns null when no rate is known for the deal's currency.
+export const convertDealAmount = (
+  amount: number,
+  source: CurrencyAmountSource,
+  rates: ExchangeRate[],
+  reportingCurrency: string
+): number | null => {
+  const currency = source.currency_type || reportingCurrency;
+
+  if (source.locked_exchange_rate && source.locked_rate_currency) {
+    const locked = amount * Number(source.locked_exchange_rate);
+    if (source.locked_rate_currency === reportingCurrency) return locked;
+    // The reporting currency changed since the lock; carry on at the close-date rate
+    const rate = getExchangeRate(rates, source.locked_rate_currency, reportingCurrency, reportingCurrency, source.locked_rate_date || undefined);
+    return rate === null ? null : locked * rate;
+  }
+
+  const rate = getExchangeRate(rates, currency, reportingCurrency, reportingCurrency);
+  return rate === null ? null : amount * rate;
+};
@@ -0,0 +1,35 @@
+// Helpers for HTML email bodies written in the rich text composer
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Plain-text templates and history entries are shown in the composer as paragraphs
+export const plainTextToHtml = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+export const htmlToPlainText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll('a[href]').forEach(link => {
+    const href = link.getAttribute('href') || '';
+    if (href && link.textContent !== href && !href.startsWith('mailto:')) {
+      link.append(` (${href})`);
+    }
+  });
+  doc.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  doc.querySelectorAll('li').forEach(li => li.prepend('- '));
+  doc.querySelectorAll('p, div, li, h1, h2, h3, blockquote').forEach(block => block.append('\n'));
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// An editor left with only empty markup, e.g. "<p><br></p>", has no message
+export const isHtmlEmpty = (html: string) => htmlToPlainText(html).length === 0;
+
+export const toEmailHtml = (body: string, isHtml: boolean) => (isHtml ? body : plainTextToHtml(body));
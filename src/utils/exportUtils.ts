@@ -1,4 +1,10 @@
-export const getExportFilename = (moduleName: string, type: 'all' | 'selected' | 'filtered'): string => {
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const getExportFilename = (
+  moduleName: string,
+  type: 'all' | 'selected' | 'filtered',
+  fileFormat: ExportFormat = 'csv'
+): string => {
   const timestamp = new Date().toISOString().split('T')[0];
-  return `${moduleName}_${type}_${timestamp}.csv`;
-};
\ No newline at end of file
+  return `${moduleName}_${type}_${timestamp}.${fileFormat}`;
+};
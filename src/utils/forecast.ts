@@ -0,0 +1,76 @@
+import { Deal, PipelineStage } from '@/types/deal';
+
+export type ForecastCategory = 'closed' | 'commit' | 'best_case' | 'pipeline';
+export type ManualForecastCategory = NonNullable<Deal['forecast_category']>;
+
+export const FORECAST_CATEGORIES: { value: ForecastCategory; label: string; color: string }[] = [
+  { value: 'closed', label: 'Closed', color: '#22c55e' },
+  { value: 'commit', label: 'Commit', color: '#3b82f6' },
+  { value: 'best_case', label: 'Best Case', color: '#8b5cf6' },
+  { value: 'pipeline', label: 'Pipeline', color: '#94a3b8' },
+];
+
+export const MANUAL_FORECAST_CATEGORIES: { value: ManualForecastCategory; label: string }[] = [
+  { value: 'commit', label: 'Commit' },
+  { value: 'best_case', label: 'Best Case' },
+  { value: 'pipeline', label: 'Pipeline' },
+  { value: 'omitted', label: 'Omitted' },
+];
+
+export const getForecastCategoryLabel = (category: string) =>
+  [...FORECAST_CATEGORIES, ...MANUAL_FORECAST_CATEGORIES].find(c => c.value === category)?.label || category;
+
+// Same thresholds as deal_forecast_category in the database
+export const getDealForecastCategory = (
+  manualCategory: Deal['forecast_category'] | string | null | undefined,
+  probability: number
+): ManualForecastCategory => {
+  if (manualCategory) return manualCategory as ManualForecastCategory;
+  if (probability >= 80) return 'commit';
+  if (probability >= 50) return 'best_case';
+  return 'pipeline';
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Mirrors deal_owner_id: lead_owner is a user id from the list view or a typed name from the form
+export const getDealOwnerId = (
+  deal: { lead_owner?: string | null; created_by: string | null },
+  profiles: { id: string; full_name: string | null }[]
+): string | null => {
+  if (deal.lead_owner && UUID_PATTERN.test(deal.lead_owner)) return deal.lead_owner;
+  const byName = deal.lead_owner ? profiles.find(p => p.full_name === deal.lead_owner) : undefined;
+  return byName?.id || deal.created_by;
+};
+
+export type ForecastPeriodType = 'quarter' | 'month';
+
+export interface ForecastPeriod {
+  type: ForecastPeriodType;
+  // 1-4 for quarters, 1-12 for months
+  period: number;
+}
+
+export const getPeriodOfDate = (date: string, type: ForecastPeriodType): number => {
+  const month = Number(date.slice(5, 7));
+  return type === 'quarter' ? Math.ceil(month / 3) : month;
+};
+
+export const getPeriodLabel = ({ type, period }: ForecastPeriod) =>
+  type === 'quarter'
+    ? `Q${period}`
+    : new Date(2000, period - 1, 1).toLocaleString('en-US', { month: 'short' });
+
+// Close date of a deal for forecasting: the contract signature for Won deals, else the expected close
+export const getForecastCloseDate = (
+  deal: { signed_contract_date?: string | null; locked_rate_date?: string | null; expected_closing_date?: string | null },
+  isWon: boolean
+): string | null => {
+  const date = isWon
+    ? deal.signed_contract_date || deal.locked_rate_date || deal.expected_closing_date
+    : deal.expected_closing_date;
+  return date ? date.slice(0, 10) : null;
+};
+
+export const getForecastProbability = (deal: { probability?: number | null }, stage?: PipelineStage) =>
+  stage?.is_won_stage ? 100 : deal.probability ?? stage?.stage_probability ?? 0;
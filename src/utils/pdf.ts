@@ -0,0 +1,130 @@
+// Minimal PDF writer for generated documents such as quotes: A4 pages with Helvetica text and
+// lines. Coordinates are in points from the top-left corner of the page.
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+  color?: [number, number, number];
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+// WinAnsi code points for the characters outside Latin-1 that documents commonly use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const toWinAnsi = (text: string) =>
+  Array.from(text).map(char => {
+    const code = char.charCodeAt(0);
+    if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    return code < 256 ? char : '?';
+  }).join('');
+
+const escapeText = (text: string) => toWinAnsi(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+// Approximate Helvetica advance widths (per 1000 units), exact for digits and punctuation
+const charWidth = (char: string) => {
+  if (/[0-9€$£]/.test(char)) return 556;
+  if (/[.,:;!|' ]/.test(char)) return 278;
+  if (/[-()]/.test(char)) return 333;
+  if (/[A-Z]/.test(char)) return 667;
+  if (/[il]/.test(char)) return 222;
+  if (/[mw]/.test(char)) return 833;
+  return 500;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class PdfDocument {
+  readonly width = PAGE_WIDTH;
+  readonly height = PAGE_HEIGHT;
+  private pages: string[][] = [[]];
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  static textWidth(text: string, size: number) {
+    return Array.from(text).reduce((sum, char) => sum + charWidth(char), 0) * size / 1000;
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}) {
+    const { size = 10, bold = false, align = 'left', color = [0, 0, 0] } = options;
+    const left = align === 'right' ? x - PdfDocument.textWidth(text, size) : x;
+    this.current().push(
+      `BT ${color.join(' ')} rg /${bold ? 'F2' : 'F1'} ${size} Tf ${round(left)} ${round(this.height - y)} Td (${escapeText(text)}) Tj ET`
+    );
+  }
+
+  // Wraps text to the given width and returns the number of lines written
+  paragraph(x: number, y: number, text: string, maxWidth: number, options: PdfTextOptions = {}) {
+    const size = options.size ?? 10;
+    const lines: string[] = [];
+    text.split('\n').forEach(part => {
+      let line = '';
+      part.split(/\s+/).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && PdfDocument.textWidth(candidate, size) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    lines.forEach((line, index) => this.text(x, y + index * size * 1.3, line, options));
+    return lines.length;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.current().push(`${width} w ${round(x1)} ${round(this.height - y1)} m ${round(x2)} ${round(this.height - y2)} l S`);
+  }
+
+  toBlob(): Blob {
+    const objects: string[] = [];
+    const pageObjectIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((operations, index) => {
+      const pageId = pageObjectIds[index];
+      const content = operations.join('\n');
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i) & 0xff;
+    return new Blob([bytes], { type: 'application/pdf' });
+  }
+
+  private current() {
+    return this.pages[this.pages.length - 1];
+  }
+}
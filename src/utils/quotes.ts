@@ -0,0 +1,161 @@
+import { format } from 'date-fns';
+import { PdfDocument } from '@/utils/pdf';
+import { formatCurrency } from '@/utils/currency';
+
+export interface LineItem {
+  id?: string;
+  product_id: string | null;
+  name: string;
+  description: string | null;
+  quantity: number;
+  unit_price: number;
+  discount_percent: number;
+  tax_rate: number;
+  position: number;
+}
+
+export interface LineItemAmounts {
+  gross: number;
+  discount: number;
+  net: number;
+  tax: number;
+  total: number;
+}
+
+export interface QuoteTotals {
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  total: number;
+}
+
+// Discount applies to the line before tax; net amounts roll up into the deal's contract value
+export const calculateLineItem = (item: Pick<LineItem, 'quantity' | 'unit_price' | 'discount_percent' | 'tax_rate'>): LineItemAmounts => {
+  const gross = Number(item.quantity) * Number(item.unit_price);
+  const discount = gross * Number(item.discount_percent) / 100;
+  const net = gross - discount;
+  const tax = net * Number(item.tax_rate) / 100;
+  return { gross, discount, net, tax, total: net + tax };
+};
+
+export const calculateQuoteTotals = (items: LineItem[]): QuoteTotals =>
+  items.map(calculateLineItem).reduce((totals, amounts) => ({
+    subtotal: totals.subtotal + amounts.gross,
+    discountTotal: totals.discountTotal + amounts.discount,
+    taxTotal: totals.taxTotal + amounts.tax,
+    total: totals.total + amounts.total,
+  }), { subtotal: 0, discountTotal: 0, taxTotal: 0, total: 0 });
+
+export const getQuoteNumber = (dealId: string, version: number) =>
+  `Q-${dealId.slice(0, 8).toUpperCase()}-${String(version).padStart(2, '0')}`;
+
+export interface QuoteDocument {
+  quoteNumber: string;
+  version: number;
+  issuedAt: Date;
+  validUntil: Date | null;
+  currency: string;
+  dealName: string;
+  projectName?: string | null;
+  customerName?: string | null;
+  contactName?: string | null;
+  preparedBy?: string | null;
+  items: LineItem[];
+  notes?: string | null;
+}
+
+const MARGIN = 50;
+
+// Quote amounts keep two decimals, unlike the rounded dashboard figures
+const formatAmount = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    return formatCurrency(amount, currency);
+  }
+};
+
+export const buildQuotePdf = (quote: QuoteDocument): Blob => {
+  const pdf = new PdfDocument();
+  const right = pdf.width - MARGIN;
+  const columns = { item: MARGIN, qty: 300, price: 380, discount: 430, tax: 470, total: right };
+  const money = (amount: number) => formatAmount(amount, quote.currency);
+  const grey: [number, number, number] = [0.4, 0.4, 0.4];
+
+  pdf.text(MARGIN, 70, 'QUOTE', { size: 22, bold: true });
+  pdf.text(right, 62, quote.quoteNumber, { size: 11, bold: true, align: 'right' });
+  pdf.text(right, 78, `Version ${quote.version}`, { size: 9, align: 'right', color: grey });
+
+  let y = 120;
+  const detail = (label: string, value?: string | null) => {
+    if (!value) return;
+    pdf.text(MARGIN, y, label, { size: 9, color: grey });
+    pdf.text(MARGIN + 90, y, value, { size: 10 });
+    y += 16;
+  };
+  detail('Customer', quote.customerName);
+  detail('Attention', quote.contactName);
+  detail('Deal', quote.projectName || quote.dealName);
+  detail('Date', format(quote.issuedAt, 'dd MMM yyyy'));
+  detail('Valid until', quote.validUntil ? format(quote.validUntil, 'dd MMM yyyy') : null);
+  detail('Prepared by', quote.preparedBy);
+
+  const tableHeader = () => {
+    y += 10;
+    pdf.text(columns.item, y, 'Item', { size: 9, bold: true });
+    pdf.text(columns.qty, y, 'Qty', { size: 9, bold: true, align: 'right' });
+    pdf.text(columns.price, y, 'Unit price', { size: 9, bold: true, align: 'right' });
+    pdf.text(columns.discount, y, 'Disc.', { size: 9, bold: true, align: 'right' });
+    pdf.text(columns.tax, y, 'Tax', { size: 9, bold: true, align: 'right' });
+    pdf.text(columns.total, y, 'Amount', { size: 9, bold: true, align: 'right' });
+    y += 6;
+    pdf.line(MARGIN, y, right, y);
+    y += 14;
+  };
+
+  tableHeader();
+  quote.items.forEach(item => {
+    const rowHeight = item.description ? 28 : 18;
+    if (y + rowHeight > pdf.height - 140) {
+      pdf.addPage();
+      y = 60;
+      tableHeader();
+    }
+    const amounts = calculateLineItem(item);
+    pdf.text(columns.item, y, item.name, { size: 10 });
+    if (item.description) {
+      pdf.text(columns.item, y + 11, item.description.slice(0, 60), { size: 8, color: grey });
+    }
+    pdf.text(columns.qty, y, String(item.quantity), { size: 10, align: 'right' });
+    pdf.text(columns.price, y, money(item.unit_price), { size: 10, align: 'right' });
+    pdf.text(columns.discount, y, item.discount_percent ? `${item.discount_percent}%` : '-', { size: 10, align: 'right' });
+    pdf.text(columns.tax, y, item.tax_rate ? `${item.tax_rate}%` : '-', { size: 10, align: 'right' });
+    pdf.text(columns.total, y, money(amounts.net), { size: 10, align: 'right' });
+    y += rowHeight;
+  });
+
+  const totals = calculateQuoteTotals(quote.items);
+  pdf.line(MARGIN, y - 6, right, y - 6);
+  y += 8;
+  const totalLine = (label: string, value: string, bold = false) => {
+    pdf.text(columns.tax, y, label, { size: bold ? 11 : 10, bold, align: 'right' });
+    pdf.text(columns.total, y, value, { size: bold ? 11 : 10, bold, align: 'right' });
+    y += 16;
+  };
+  totalLine('Subtotal', money(totals.subtotal));
+  if (totals.discountTotal > 0) totalLine('Discount', `-${money(totals.discountTotal)}`);
+  totalLine('Tax', money(totals.taxTotal));
+  totalLine(`Total (${quote.currency})`, money(totals.total), true);
+
+  if (quote.notes) {
+    y += 16;
+    if (y > pdf.height - 120) {
+      pdf.addPage();
+      y = 60;
+    }
+    pdf.text(MARGIN, y, 'Notes', { size: 9, bold: true });
+    pdf.paragraph(MARGIN, y + 14, quote.notes, right - MARGIN, { size: 9 });
+  }
+
+  return pdf.toBlob();
+};
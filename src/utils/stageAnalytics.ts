@@ -0,0 +1,167 @@
+import { PipelineStage } from '@/types/deal';
+
+export interface StageHistoryEntry {
+  deal_id: string;
+  from_stage: string | null;
+  to_stage: string;
+  changed_at: string;
+  seconds_in_from_stage: number | null;
+}
+
+export interface StageAnalyticsDeal {
+  id: string;
+  stage: string;
+  // In the reporting currency; null when the deal currency has no rate
+  amount: number | null;
+}
+
+export interface StageMetrics {
+  stage: string;
+  color: string;
+  // Completed stays in the stage within the period
+  exits: number;
+  avgDaysInStage: number | null;
+  currentDeals: number;
+  avgCurrentAgeDays: number | null;
+  // Deals that entered the stage within the period, and how many of them moved further down the pipeline
+  entered: number;
+  progressed: number;
+  conversionRate: number | null;
+}
+
+export interface PipelineVelocity {
+  won: number;
+  lost: number;
+  winRate: number | null;
+  avgCycleDays: number | null;
+  avgWonAmount: number | null;
+  openDeals: number;
+  // Expected revenue per day: open deals × average won amount × win rate ÷ cycle length
+  velocityPerDay: number | null;
+}
+
+export interface StageAnalytics {
+  stages: StageMetrics[];
+  velocity: PipelineVelocity;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// `since` limits transitions to those on or after that date; null covers the whole history
+export const computeStageAnalytics = (
+  history: StageHistoryEntry[],
+  deals: StageAnalyticsDeal[],
+  stages: PipelineStage[],
+  since: Date | null,
+  now: Date = new Date()
+): StageAnalytics => {
+  const stageByName = new Map(stages.map(stage => [stage.stage_name, stage]));
+  const inPeriod = (entry: StageHistoryEntry) => !since || new Date(entry.changed_at) >= since;
+
+  const historyByDeal = new Map<string, StageHistoryEntry[]>();
+  [...history]
+    .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+    .forEach(entry => {
+      const entries = historyByDeal.get(entry.deal_id) || [];
+      entries.push(entry);
+      historyByDeal.set(entry.deal_id, entries);
+    });
+
+  // A deal progresses from a stage when it later reaches a won stage or a later open stage
+  const progressedFrom = (entries: StageHistoryEntry[], index: number) => {
+    const order = stageByName.get(entries[index].to_stage)?.stage_order ?? 0;
+    return entries.slice(index + 1).some(entry => {
+      const next = stageByName.get(entry.to_stage);
+      return !!next && !next.is_lost_stage && (next.is_won_stage || next.stage_order > order);
+    });
+  };
+
+  const metrics: StageMetrics[] = [...stages]
+    .sort((a, b) => a.stage_order - b.stage_order)
+    .map(stage => {
+      const stays = history
+        .filter(entry => entry.from_stage === stage.stage_name && entry.seconds_in_from_stage !== null && inPeriod(entry))
+        .map(entry => Number(entry.seconds_in_from_stage) / DAY_SECONDS);
+
+      const current = deals.filter(deal => deal.stage === stage.stage_name);
+      const currentAges = current
+        .map(deal => historyByDeal.get(deal.id)?.slice(-1)[0])
+        .filter((entry): entry is StageHistoryEntry => !!entry && entry.to_stage === stage.stage_name)
+        .map(entry => (now.getTime() - new Date(entry.changed_at).getTime()) / 1000 / DAY_SECONDS);
+
+      let entered = 0;
+      let progressed = 0;
+      if (!stage.is_won_stage && !stage.is_lost_stage) {
+        historyByDeal.forEach(entries => {
+          const index = entries.findIndex(entry => entry.to_stage === stage.stage_name && inPeriod(entry));
+          if (index === -1) return;
+          entered++;
+          if (progressedFrom(entries, index)) progressed++;
+        });
+      }
+
+      return {
+        stage: stage.stage_name,
+        color: stage.stage_color,
+        exits: stays.length,
+        avgDaysInStage: average(stays),
+        currentDeals: current.length,
+        avgCurrentAgeDays: average(currentAges),
+        entered,
+        progressed,
+        conversionRate: entered > 0 ? progressed / entered : null,
+      };
+    });
+
+  // Closed deals are counted by their latest move into a won or lost stage within the period
+  const dealById = new Map(deals.map(deal => [deal.id, deal]));
+  const cycleDays: number[] = [];
+  const wonAmounts: number[] = [];
+  let won = 0;
+  let lost = 0;
+  historyByDeal.forEach((entries, dealId) => {
+    const closing = [...entries].reverse().find(entry => {
+      const stage = stageByName.get(entry.to_stage);
+      return stage?.is_won_stage || stage?.is_lost_stage;
+    });
+    if (!closing || !inPeriod(closing)) return;
+
+    if (stageByName.get(closing.to_stage)?.is_lost_stage) {
+      lost++;
+      return;
+    }
+    won++;
+    // Deals that were already won when history started have no cycle to measure
+    if (closing !== entries[0]) {
+      cycleDays.push((new Date(closing.changed_at).getTime() - new Date(entries[0].changed_at).getTime()) / 1000 / DAY_SECONDS);
+    }
+    const amount = dealById.get(dealId)?.amount;
+    if (amount !== null && amount !== undefined) wonAmounts.push(amount);
+  });
+
+  const openDeals = deals.filter(deal => {
+    const stage = stageByName.get(deal.stage);
+    return !stage?.is_won_stage && !stage?.is_lost_stage;
+  }).length;
+  const winRate = won + lost > 0 ? won / (won + lost) : null;
+  const avgCycleDays = average(cycleDays);
+  const avgWonAmount = average(wonAmounts);
+
+  return {
+    stages: metrics,
+    velocity: {
+      won,
+      lost,
+      winRate,
+      avgCycleDays,
+      avgWonAmount,
+      openDeals,
+      velocityPerDay: winRate !== null && avgCycleDays && avgWonAmount !== null
+        ? openDeals * avgWonAmount * winRate / avgCycleDays
+        : null,
+    },
+  };
+};
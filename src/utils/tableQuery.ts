@@ -0,0 +1,218 @@
+import type { SearchCondition, SearchGroup } from "@/components/shared/AdvancedSearchBar";
+import { CustomFieldDefinition, getCustomFieldName, isCustomFieldColumn } from "@/types/customField";
+
+// Compiles list searches, filters, sorting and pagination into PostgREST queries,
+// so list pages only download the rows of the page being shown
+
+export type SearchFieldType = 'text' | 'number' | 'date' | 'boolean';
+
+export interface TableSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface TableQueryState {
+  // PostgREST filter expressions, all of which must match; null entries are ignored
+  filters: (string | null)[];
+  sort: TableSort | null;
+  page: number;
+  pageSize: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 25;
+
+// Ids sent in a single `in` filter, keeping request URLs within server limits
+export const ID_BATCH_SIZE = 200;
+
+// PostgREST returns at most this many rows per request
+export const FETCH_BATCH_SIZE = 1000;
+
+interface FilterableQuery<Q> {
+  or(filters: string): Q;
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }): Q;
+  range(from: number, to: number): Q;
+}
+
+// Values are always quoted so commas, dots and parentheses cannot break the filter syntax
+const quote = (value: string | number | boolean) => `"${String(value).replace(/[\\"]/g, '\\$&')}"`;
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+const NEVER_MATCHES = 'id.is.null';
+
+export const allOf = (expressions: (string | null)[]) => {
+  const valid = expressions.filter((expression): expression is string => Boolean(expression));
+  if (valid.length === 0) return null;
+  return valid.length === 1 ? valid[0] : `and(${valid.join(',')})`;
+};
+
+export const anyOf = (expressions: (string | null)[]) => {
+  const valid = expressions.filter((expression): expression is string => Boolean(expression));
+  if (valid.length === 0) return null;
+  return valid.length === 1 ? valid[0] : `or(${valid.join(',')})`;
+};
+
+// Custom field columns (cf_*) are read from the custom_fields JSON column
+export const toColumnRef = (field: string) =>
+  isCustomFieldColumn(field) ? `custom_fields->>${getCustomFieldName(field)}` : field;
+
+export const eq = (field: string, value: string | number | boolean) => `${toColumnRef(field)}.eq.${quote(value)}`;
+
+export const eqIgnoreCase = (field: string, value: string) => `${toColumnRef(field)}.ilike.${quote(escapeLike(value))}`;
+
+export const isNull = (field: string) => `${toColumnRef(field)}.is.null`;
+
+// Inclusive bounds, e.g. date ranges from URL parameters
+export const gte = (field: string, value: string | number) => `${toColumnRef(field)}.gte.${quote(value)}`;
+
+export const lte = (field: string, value: string | number) => `${toColumnRef(field)}.lte.${quote(value)}`;
+
+export const inList = (field: string, values: (string | number)[]) =>
+  values.length > 0 ? `${toColumnRef(field)}.in.(${values.map(quote).join(',')})` : null;
+
+// Matches rows whose array column holds every one of the values
+export const arrayContains = (field: string, values: string[]) =>
+  values.length > 0 ? `${field}.cs.${quote(`{${values.map(quote).join(',')}}`)}` : null;
+
+export const between = (field: string, min: number, max: number, includeEmpty = false) => {
+  const column = toColumnRef(field);
+  const range = `and(${column}.gte.${min},${column}.lte.${max})`;
+  return includeEmpty ? `or(${column}.is.null,${range})` : range;
+};
+
+// Case-insensitive substring search across several columns
+export const searchText = (term: string, fields: string[]) => {
+  const trimmed = term.trim();
+  if (!trimmed) return null;
+  const pattern = quote(`%${escapeLike(trimmed)}%`);
+  return anyOf(fields.map(field => `${toColumnRef(field)}.ilike.${pattern}`));
+};
+
+const compileCondition = (condition: SearchCondition, type: SearchFieldType) => {
+  const column = toColumnRef(condition.field);
+  const value = condition.value.trim();
+  const isText = type === 'text' || isCustomFieldColumn(condition.field);
+
+  if (condition.operator === 'isEmpty') {
+    return isText ? `or(${column}.is.null,${column}.eq."")` : `${column}.is.null`;
+  }
+  if (condition.operator === 'isNotEmpty') {
+    return isText ? `and(${column}.not.is.null,${column}.neq."")` : `${column}.not.is.null`;
+  }
+  if (!value) return null;
+
+  if (!isText) {
+    // Typed columns cannot be pattern matched, so every text operator compares the whole value
+    if (type === 'number' && isNaN(Number(value))) {
+      return condition.operator === 'notEquals' ? null : NEVER_MATCHES;
+    }
+    return condition.operator === 'notEquals'
+      ? `or(${column}.is.null,${column}.neq.${quote(value)})`
+      : `${column}.eq.${quote(value)}`;
+  }
+
+  const escaped = escapeLike(value);
+  switch (condition.operator) {
+    case 'equals':
+      return `${column}.ilike.${quote(escaped)}`;
+    case 'notEquals':
+      return `or(${column}.is.null,${column}.not.ilike.${quote(escaped)})`;
+    case 'contains':
+      return `${column}.ilike.${quote(`%${escaped}%`)}`;
+    case 'startsWith':
+      return `${column}.ilike.${quote(`${escaped}%`)}`;
+    case 'endsWith':
+      return `${column}.ilike.${quote(`%${escaped}`)}`;
+    default:
+      return null;
+  }
+};
+
+// Groups are joined with OR; conditions inside a group follow the group's AND/OR logic
+export const compileSearchGroups = (
+  groups: SearchGroup[],
+  fields: { value: string; type?: SearchFieldType }[] = []
+) =>
+  anyOf(
+    groups.map(group => {
+      const conditions = group.conditions.map(condition =>
+        compileCondition(condition, fields.find(field => field.value === condition.field)?.type || 'text')
+      );
+      return group.logic === 'AND' ? allOf(conditions) : anyOf(conditions);
+    })
+  );
+
+// Server-side equivalent of matchesCustomFieldFilter
+export const customFieldFilter = (field: CustomFieldDefinition, filter: string) => {
+  if (!filter) return null;
+  const path = `custom_fields->>${field.field_name}`;
+
+  switch (field.field_type) {
+    case 'boolean':
+      // An unset boolean reads as "No" in forms, so it is filtered the same way
+      return filter === 'true' ? `${path}.eq.true` : `or(${path}.is.null,${path}.neq.true)`;
+    case 'select':
+      return `${path}.eq.${quote(filter)}`;
+    case 'multiselect':
+      return `custom_fields->${field.field_name}.cs.${quote(JSON.stringify([filter]))}`;
+    default:
+      return `${path}.ilike.${quote(`%${escapeLike(filter)}%`)}`;
+  }
+};
+
+export const compileCustomFieldFilters = (fields: CustomFieldDefinition[], filters: Record<string, string>) =>
+  fields.map(field => customFieldFilter(field, filters[field.field_name] || ''));
+
+// Number custom fields sort on the JSON value so they order numerically
+export const toSortColumn = (field: string, customField?: CustomFieldDefinition) => {
+  if (!customField) return toColumnRef(field);
+  return customField.field_type === 'number'
+    ? `custom_fields->${customField.field_name}`
+    : `custom_fields->>${customField.field_name}`;
+};
+
+export const applyTableFilters = <Q extends FilterableQuery<Q>>(query: Q, filters: (string | null)[]) => {
+  const filter = allOf(filters);
+  return filter ? query.or(filter) : query;
+};
+
+export const applyTableQuery = <Q extends FilterableQuery<Q>>(
+  query: Q,
+  state: TableQueryState,
+  sortColumn: string | null = state.sort ? toColumnRef(state.sort.field) : null
+) => {
+  let result = applyTableFilters(query, state.filters);
+  if (state.sort && sortColumn) {
+    result = result.order(sortColumn, { ascending: state.sort.direction === 'asc', nullsFirst: false });
+  }
+  // A unique tiebreaker keeps rows from shifting between pages
+  result = result.order('id', { ascending: true });
+
+  const from = (state.page - 1) * state.pageSize;
+  return result.range(from, from + state.pageSize - 1);
+};
+
+export const getTotalPages = (totalCount: number, pageSize: number) =>
+  Math.max(1, Math.ceil(totalCount / pageSize));
+
+export const chunkIds = (ids: string[], size = ID_BATCH_SIZE) => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += size) {
+    chunks.push(ids.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Reads every row by requesting consecutive ranges, since each request is capped at FETCH_BATCH_SIZE rows
+export const fetchInBatches = async <T,>(
+  fetchRange: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += FETCH_BATCH_SIZE) {
+    const { data, error } = await fetchRange(from, from + FETCH_BATCH_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < FETCH_BATCH_SIZE) break;
+  }
+  return rows;
+};
@@ -0,0 +1,46 @@
+import { Task } from '@/types/task';
+
+export interface TaskProgress {
+  completed: number;
+  total: number;
+}
+
+// Cancelled child tasks no longer block their parent
+const isTaskDone = (task: Pick<Task, 'status'>) => task.status === 'completed' || task.status === 'cancelled';
+
+export const groupTasksByParent = (tasks: Task[]) => {
+  const children = new Map<string, Task[]>();
+  tasks.forEach(task => {
+    if (!task.parent_task_id) return;
+    children.set(task.parent_task_id, [...(children.get(task.parent_task_id) || []), task]);
+  });
+  return children;
+};
+
+// Checklist items plus child tasks, rolled up into one count
+export const getTaskProgress = (task: Task, childTasks: Task[] = []): TaskProgress => {
+  const subtasks = task.subtasks || [];
+  return {
+    completed: subtasks.filter(s => s.is_completed).length + childTasks.filter(isTaskDone).length,
+    total: subtasks.length + childTasks.length,
+  };
+};
+
+export const countOpenItems = (subtasks: { is_completed: boolean }[], childTasks: Pick<Task, 'status'>[]) =>
+  subtasks.filter(s => !s.is_completed).length + childTasks.filter(t => !isTaskDone(t)).length;
+
+// The task and everything below it; none of these can become its parent
+export const getDescendantIds = (taskId: string, tasks: Pick<Task, 'id' | 'parent_task_id'>[]) => {
+  const ids = new Set<string>([taskId]);
+  let added = true;
+  while (added) {
+    added = false;
+    tasks.forEach(task => {
+      if (task.parent_task_id && ids.has(task.parent_task_id) && !ids.has(task.id)) {
+        ids.add(task.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
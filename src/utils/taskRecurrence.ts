@@ -0,0 +1,254 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  differenceInCalendarYears,
+  format,
+  getDaysInMonth,
+  parseISO,
+} from 'date-fns';
+import { CreateTaskData, RecurrenceFrequency, RecurrenceRule, RecurrenceWeekday, Task } from '@/types/task';
+
+export const RECURRENCE_WEEKDAYS: { value: RecurrenceWeekday; label: string; short: string }[] = [
+  { value: 'MO', label: 'Monday', short: 'Mon' },
+  { value: 'TU', label: 'Tuesday', short: 'Tue' },
+  { value: 'WE', label: 'Wednesday', short: 'Wed' },
+  { value: 'TH', label: 'Thursday', short: 'Thu' },
+  { value: 'FR', label: 'Friday', short: 'Fri' },
+  { value: 'SA', label: 'Saturday', short: 'Sat' },
+  { value: 'SU', label: 'Sunday', short: 'Sun' },
+];
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+// date-fns getDay() index -> RRULE weekday
+const WEEKDAY_BY_INDEX: RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Keywords written by the original schema default
+const LEGACY_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY',
+};
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const getWeekdayOf = (date: string) => WEEKDAY_BY_INDEX[parseISO(date).getDay()];
+
+export const parseRecurrenceRule = (value: string | null | undefined): RecurrenceRule | null => {
+  if (!value || value === 'none') return null;
+
+  const legacy = LEGACY_FREQUENCIES[value.toLowerCase()];
+  if (legacy) return { frequency: legacy, interval: 1, byWeekday: [], byMonthDay: null, count: null };
+
+  const parts: Record<string, string> = {};
+  value.replace(/^RRULE:/i, '').split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.trim().toUpperCase()] = val.trim().toUpperCase();
+  });
+
+  const frequency = parts.FREQ as RecurrenceFrequency;
+  if (!FREQUENCY_UNITS[frequency]) return null;
+
+  const interval = parseInt(parts.INTERVAL || '1', 10);
+  const count = parts.COUNT ? parseInt(parts.COUNT, 10) : null;
+  const byMonthDay = parts.BYMONTHDAY ? parseInt(parts.BYMONTHDAY, 10) : null;
+
+  return {
+    frequency,
+    interval: interval > 0 ? interval : 1,
+    byWeekday: (parts.BYDAY || '')
+      .split(',')
+      .filter((day): day is RecurrenceWeekday => WEEKDAY_BY_INDEX.includes(day as RecurrenceWeekday)),
+    byMonthDay: byMonthDay && !isNaN(byMonthDay) ? byMonthDay : null,
+    count: count && count > 0 ? count : null,
+  };
+};
+
+export const serializeRecurrenceRule = (rule: RecurrenceRule | null): string => {
+  if (!rule) return 'none';
+
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`];
+  if (rule.frequency === 'WEEKLY' && rule.byWeekday.length > 0) {
+    const ordered = RECURRENCE_WEEKDAYS.map(d => d.value).filter(day => rule.byWeekday.includes(day));
+    parts.push(`BYDAY=${ordered.join(',')}`);
+  }
+  if (rule.frequency === 'MONTHLY' && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+};
+
+export const isRecurringTask = (task: Pick<Task, 'recurrence'>) => parseRecurrenceRule(task.recurrence) !== null;
+
+// Occurrences of a series share the id of the series' first task
+export const getRecurrenceSeriesId = (task: Pick<Task, 'id' | 'recurrence_series_id'>) =>
+  task.recurrence_series_id || task.id;
+
+export const describeRecurrenceRule = (rule: RecurrenceRule | null, endDate?: string | null): string => {
+  if (!rule) return 'Does not repeat';
+
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.frequency === 'WEEKLY' && rule.byWeekday.length > 0) {
+    const days = RECURRENCE_WEEKDAYS.filter(d => rule.byWeekday.includes(d.value)).map(d => d.short);
+    text += ` on ${days.join(', ')}`;
+  }
+  if (rule.frequency === 'MONTHLY' && rule.byMonthDay) {
+    text += rule.byMonthDay === -1 ? ' on the last day' : ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  } else if (endDate) {
+    text += `, until ${format(parseISO(endDate), 'dd/MM/yyyy')}`;
+  }
+  return text;
+};
+
+// Whether a calendar day belongs to the rule, with the series anchored on its first due date
+const matchesRule = (rule: RecurrenceRule, start: Date, candidate: Date): boolean => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return differenceInCalendarDays(candidate, start) % rule.interval === 0;
+    case 'WEEKLY': {
+      const weekdays = rule.byWeekday.length > 0 ? rule.byWeekday : [WEEKDAY_BY_INDEX[start.getDay()]];
+      return (
+        weekdays.includes(WEEKDAY_BY_INDEX[candidate.getDay()]) &&
+        differenceInCalendarWeeks(candidate, start, { weekStartsOn: 1 }) % rule.interval === 0
+      );
+    }
+    case 'MONTHLY': {
+      if (differenceInCalendarMonths(candidate, start) % rule.interval !== 0) return false;
+      const daysInMonth = getDaysInMonth(candidate);
+      const day = rule.byMonthDay === -1 ? daysInMonth : Math.min(rule.byMonthDay || start.getDate(), daysInMonth);
+      return candidate.getDate() === day;
+    }
+    case 'YEARLY': {
+      if (differenceInCalendarYears(candidate, start) % rule.interval !== 0) return false;
+      if (candidate.getMonth() !== start.getMonth()) return false;
+      return candidate.getDate() === Math.min(start.getDate(), getDaysInMonth(candidate));
+    }
+  }
+};
+
+// Longest gap between two occurrences, used to bound the day-by-day search
+const getSearchWindow = (rule: RecurrenceRule) => {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return rule.interval;
+    case 'WEEKLY':
+      return rule.interval * 7 + 7;
+    case 'MONTHLY':
+      return rule.interval * 31 + 31;
+    case 'YEARLY':
+      return rule.interval * 366 + 366;
+  }
+};
+
+// First occurrence strictly after `after` (YYYY-MM-DD), or null once the series has ended
+export const getNextOccurrenceDate = (
+  rule: RecurrenceRule,
+  seriesStart: string,
+  after: string,
+  endDate?: string | null
+): string | null => {
+  const start = parseISO(seriesStart);
+  let candidate = addDays(parseISO(after), 1);
+  if (candidate < start) candidate = start;
+
+  const window = getSearchWindow(rule);
+  for (let i = 0; i <= window; i++) {
+    const key = toDateKey(candidate);
+    if (endDate && key > endDate) return null;
+    if (matchesRule(rule, start, candidate)) return key;
+    candidate = addDays(candidate, 1);
+  }
+  return null;
+};
+
+// Occurrence dates after `after` up to and including `until`, capped by the end date and count
+export const getOccurrencesBetween = (
+  rule: RecurrenceRule,
+  seriesStart: string,
+  after: string,
+  until: string,
+  options: { endDate?: string | null; remaining?: number | null } = {}
+): string[] => {
+  const dates: string[] = [];
+  let cursor = after;
+  while (options.remaining == null || dates.length < options.remaining) {
+    const next = getNextOccurrenceDate(rule, seriesStart, cursor, options.endDate);
+    if (!next || next > until) break;
+    dates.push(next);
+    cursor = next;
+  }
+  return dates;
+};
+
+export type TaskOccurrenceInsert = Omit<CreateTaskData, 'subtasks'> & {
+  created_by: string | null;
+  due_time: string | null;
+  recurrence_series_id: string;
+};
+
+// The first task of a series carries its rule; if it was deleted the earliest remaining occurrence stands in
+export const getSeriesTemplate = <T extends Task>(series: T[]): T | undefined =>
+  series.find(task => !task.recurrence_series_id) ||
+  [...series].sort((a, b) => (a.due_date || '').localeCompare(b.due_date || ''))[0];
+
+export const getLatestOccurrence = <T extends Task>(series: T[]): T | undefined =>
+  series.reduce<T | undefined>(
+    (latest, task) => (!latest || (task.due_date || '') > (latest.due_date || '') ? task : latest),
+    undefined
+  );
+
+// Next occurrence of a series, never dated before today, or null once the series has ended
+export const buildNextOccurrence = (series: Task[], today: string): TaskOccurrenceInsert | null => {
+  const template = getSeriesTemplate(series);
+  const latest = getLatestOccurrence(series);
+  const rule = parseRecurrenceRule(template?.recurrence);
+  if (!template || !latest || !rule || !template.due_date || !latest.due_date) return null;
+  if (rule.count && series.length >= rule.count) return null;
+
+  const yesterday = toDateKey(addDays(parseISO(today), -1));
+  const after = latest.due_date > yesterday ? latest.due_date : yesterday;
+  const dueDate = getNextOccurrenceDate(rule, template.due_date, after, template.recurrence_end_date);
+  if (!dueDate) return null;
+
+  // Keep the reminder the same distance ahead of the due date
+  const reminderDate = template.reminder_date
+    ? addDays(parseISO(template.reminder_date), differenceInCalendarDays(parseISO(dueDate), parseISO(template.due_date))).toISOString()
+    : null;
+
+  return {
+    title: template.title,
+    description: template.description || undefined,
+    status: 'open',
+    priority: template.priority,
+    due_date: dueDate,
+    due_time: template.due_time,
+    reminder_date: reminderDate,
+    assigned_to: template.assigned_to || undefined,
+    created_by: template.created_by,
+    module_type: template.module_type || undefined,
+    account_id: template.account_id || undefined,
+    contact_id: template.contact_id || undefined,
+    lead_id: template.lead_id || undefined,
+    meeting_id: template.meeting_id || undefined,
+    deal_id: template.deal_id || undefined,
+    parent_task_id: template.parent_task_id,
+    require_subtasks_complete: template.require_subtasks_complete,
+    custom_fields: template.custom_fields,
+    recurrence: template.recurrence,
+    recurrence_end_date: template.recurrence_end_date,
+    recurrence_trigger: template.recurrence_trigger,
+    recurrence_series_id: getRecurrenceSeriesId(template),
+  };
+};
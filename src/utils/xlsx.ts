@@ -0,0 +1,351 @@
+// Minimal XLSX (Office Open XML spreadsheet) support: typed multi-sheet workbooks for exports, and
+// reading any sheet of an uploaded workbook as text rows for the CSV import pipeline.
+import { createZip, readZip } from './zip';
+import { getCurrencySymbol } from './currency';
+
+export type XlsxCellType = 'string' | 'number' | 'currency' | 'date' | 'datetime' | 'boolean';
+
+export interface XlsxColumn<T = Record<string, unknown>> {
+  key: string;
+  header: string;
+  type: XlsxCellType;
+  // Currency columns can take the code per row, e.g. from a deal's currency_type
+  currency?: string | ((row: T) => string | null | undefined);
+  width?: number;
+}
+
+export interface XlsxSheet<T = Record<string, unknown>> {
+  name: string;
+  columns: XlsxColumn<T>[];
+  rows: T[];
+}
+
+// Cell formats, normally taken from the user's display preferences
+export interface XlsxFormat {
+  // date-fns style tokens as stored in user_preferences, e.g. DD/MM/YYYY
+  dateFormat: string;
+  timeFormat: '12h' | '24h';
+  // Used for currency cells without a currency of their own
+  currency: string;
+}
+
+export interface XlsxWorkbook {
+  sheetNames: string[];
+  readSheet: (name: string) => Promise<{ headers: string[]; rows: string[][] }>;
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const isXlsxFile = (file: File) => /\.xlsx$/i.test(file.name) || file.type === XLSX_MIME_TYPE;
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const EPOCH_OFFSET_DAYS = 25569;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CELL_LENGTH = 32767;
+
+// Control characters other than tab and line breaks are not allowed in XML
+const isXmlChar = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (value: string) =>
+  Array.from(value).filter(isXmlChar).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const columnIndex = (reference: string) => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// Date-only values are taken as calendar dates; timestamps are shown in the user's local time
+const toSerialDate = (value: unknown, withTime: boolean): number | null => {
+  if (value instanceof Date || typeof value === 'string') {
+    const dateOnly = typeof value === 'string' && value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (dateOnly) {
+      return Date.UTC(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3])) / DAY_MS + EPOCH_OFFSET_DAYS;
+    }
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) return null;
+    const local = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(),
+      withTime ? date.getHours() : 0, withTime ? date.getMinutes() : 0, withTime ? date.getSeconds() : 0);
+    return local / DAY_MS + EPOCH_OFFSET_DAYS;
+  }
+  return null;
+};
+
+const fromSerialDate = (serial: number) => {
+  const date = new Date(Math.round((serial - EPOCH_OFFSET_DAYS) * DAY_MS));
+  const iso = date.toISOString();
+  return date.getUTCHours() || date.getUTCMinutes() || date.getUTCSeconds()
+    ? `${iso.slice(0, 10)} ${iso.slice(11, 19)}`
+    : iso.slice(0, 10);
+};
+
+// Excel reads lower-case d/m/y tokens, with mm as the month when there is no hour before it
+const toExcelDateFormat = (format: string) => format.toLowerCase();
+
+const sanitizeSheetName = (name: string, used: Set<string>) => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let candidate = base;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    candidate = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Collects the number formats used by a workbook into cell styles; style 1 is the bold header row
+const createStyles = () => {
+  const numFmts: string[] = [];
+  const xfs: { numFmtId: number; bold?: boolean }[] = [{ numFmtId: 0 }, { numFmtId: 0, bold: true }];
+  const byFormat = new Map<string, number>();
+
+  const styleFor = (formatCode: string) => {
+    if (!byFormat.has(formatCode)) {
+      numFmts.push(formatCode);
+      xfs.push({ numFmtId: 163 + numFmts.length });
+      byFormat.set(formatCode, xfs.length - 1);
+    }
+    return byFormat.get(formatCode)!;
+  };
+
+  const toXml = () => XML_HEADER +
+    `<styleSheet xmlns="${MAIN_NS}">` +
+    (numFmts.length > 0
+      ? `<numFmts count="${numFmts.length}">${numFmts.map((code, i) => `<numFmt numFmtId="${164 + i}" formatCode="${escapeXml(code)}"/>`).join('')}</numFmts>`
+      : '') +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    `<cellXfs count="${xfs.length}">` +
+    xfs.map(xf => `<xf numFmtId="${xf.numFmtId}" fontId="${xf.bold ? 1 : 0}" fillId="0" borderId="0" xfId="0"${xf.numFmtId ? ' applyNumberFormat="1"' : ''}${xf.bold ? ' applyFont="1"' : ''}/>`).join('') +
+    '</cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>';
+
+  return { styleFor, toXml };
+};
+
+const buildSheetXml = <T>(sheet: XlsxSheet<T>, format: XlsxFormat, styleFor: (formatCode: string) => number) => {
+  const dateStyle = styleFor(toExcelDateFormat(format.dateFormat));
+  const dateTimeStyle = styleFor(`${toExcelDateFormat(format.dateFormat)} ${format.timeFormat === '12h' ? 'h:mm AM/PM' : 'hh:mm'}`);
+  const currencyStyle = (code: string) => styleFor(`"${getCurrencySymbol(code).replace(/"/g, '')}"#,##0.00`);
+
+  const cell = (column: XlsxColumn<T>, row: T, reference: string) => {
+    const value = (row as Record<string, unknown>)[column.key];
+    if (value === null || value === undefined || value === '') return '';
+
+    switch (column.type) {
+      case 'number':
+      case 'currency': {
+        const number = typeof value === 'number' ? value : Number(value);
+        if (!isFinite(number)) break;
+        const currency = typeof column.currency === 'function' ? column.currency(row) : column.currency;
+        // Plain numbers keep the General format so integers show without decimals
+        const style = column.type === 'currency' ? ` s="${currencyStyle(currency || format.currency)}"` : '';
+        return `<c r="${reference}"${style}><v>${number}</v></c>`;
+      }
+      case 'date':
+      case 'datetime': {
+        const serial = toSerialDate(value, column.type === 'datetime');
+        if (serial === null) break;
+        return `<c r="${reference}" s="${column.type === 'date' ? dateStyle : dateTimeStyle}"><v>${serial}</v></c>`;
+      }
+      case 'boolean':
+        if (typeof value === 'boolean') return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+        break;
+    }
+
+    // Excel refuses to open cells longer than its limit
+    const text = (Array.isArray(value) ? value.join('; ') : String(value)).slice(0, MAX_CELL_LENGTH);
+    return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+  };
+
+  const headerRow = `<row r="1">${sheet.columns.map((column, i) =>
+    `<c r="${columnName(i)}1" s="1" t="inlineStr"><is><t>${escapeXml(column.header)}</t></is></c>`).join('')}</row>`;
+  const dataRows = sheet.rows.map((row, rowIndex) =>
+    `<row r="${rowIndex + 2}">${sheet.columns.map((column, i) => cell(column, row, `${columnName(i)}${rowIndex + 2}`)).join('')}</row>`
+  );
+  // Widths fit the header and the first rows' text, within limits
+  const cols = sheet.columns.map((column, i) => {
+    const longest = sheet.rows.slice(0, 200).reduce((max, row) => {
+      const value = (row as Record<string, unknown>)[column.key];
+      return Math.max(max, value === null || value === undefined ? 0 : String(value).length);
+    }, column.header.length);
+    const fitted = column.type === 'date' || column.type === 'datetime'
+      ? Math.max(column.type === 'date' ? 12 : 18, column.header.length + 2)
+      : longest + 2;
+    const width = column.width ?? Math.min(50, Math.max(10, fitted));
+    return `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`;
+  }).join('');
+  const lastColumn = columnName(Math.max(sheet.columns.length - 1, 0));
+
+  return XML_HEADER +
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${headerRow}${dataRows.join('')}</sheetData>` +
+    (sheet.columns.length > 0 ? `<autoFilter ref="A1:${lastColumn}${sheet.rows.length + 1}"/>` : '') +
+    '</worksheet>';
+};
+
+export const buildXlsx = async <T>(sheets: XlsxSheet<T>[], format: XlsxFormat): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const styles = createStyles();
+  const usedNames = new Set<string>();
+  const names = sheets.map(sheet => sanitizeSheetName(sheet.name, usedNames));
+  const sheetXml = sheets.map(sheet => buildSheetXml(sheet, format, styles.styleFor));
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+      '</Types>',
+    '_rels/.rels': XML_HEADER +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>',
+    'xl/workbook.xml': XML_HEADER +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+      names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+      '</sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': XML_HEADER +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+      '</Relationships>',
+    'xl/styles.xml': styles.toXml(),
+  };
+  sheetXml.forEach((xml, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = xml;
+  });
+
+  const zip = await createZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+  return new Blob([zip], { type: XLSX_MIME_TYPE });
+};
+
+export const downloadXlsx = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Built-in number formats that display dates or times
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const isDateFormatCode = (code: string) => /[dmyhs]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+
+const parseXml = async (entries: Map<string, () => Promise<Uint8Array>>, name: string) => {
+  const entry = entries.get(name);
+  if (!entry) return null;
+  return new DOMParser().parseFromString(new TextDecoder().decode(await entry()), 'application/xml');
+};
+
+const childrenByTag = (parent: Element | Document, tag: string) => Array.from(parent.getElementsByTagNameNS(MAIN_NS, tag));
+
+// Dates come back as YYYY-MM-DD (with the time when there is one) and numbers in plain notation,
+// which is what the import processors expect from CSV files
+export const readXlsx = async (file: Blob): Promise<XlsxWorkbook> => {
+  const entries = await readZip(await file.arrayBuffer());
+  const workbook = await parseXml(entries, 'xl/workbook.xml');
+  if (!workbook) throw new Error('The file is not an Excel workbook');
+
+  const rels = await parseXml(entries, 'xl/_rels/workbook.xml.rels');
+  const targets = new Map(Array.from(rels?.getElementsByTagNameNS(PKG_REL_NS, 'Relationship') || []).map(rel => {
+    const target = rel.getAttribute('Target') || '';
+    return [rel.getAttribute('Id'), target.startsWith('/') ? target.slice(1) : `xl/${target}`];
+  }));
+  const sheets = childrenByTag(workbook, 'sheet').map(sheet => ({
+    name: sheet.getAttribute('name') || '',
+    path: targets.get(sheet.getAttributeNS(REL_NS, 'id')) || '',
+  }));
+
+  const sharedStringsXml = await parseXml(entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? childrenByTag(sharedStringsXml, 'si').map(si =>
+      // Phonetic runs are annotations, not part of the text
+      childrenByTag(si, 't').filter(t => (t.parentNode as Element | null)?.localName !== 'rPh').map(t => t.textContent || '').join(''))
+    : [];
+
+  const stylesXml = await parseXml(entries, 'xl/styles.xml');
+  const customFormats = new Map(
+    (stylesXml ? childrenByTag(stylesXml, 'numFmt') : []).map(fmt => [Number(fmt.getAttribute('numFmtId')), fmt.getAttribute('formatCode') || ''])
+  );
+  const cellXfs = stylesXml ? childrenByTag(stylesXml, 'cellXfs')[0] : null;
+  const dateStyles = (cellXfs ? childrenByTag(cellXfs, 'xf') : []).map(xf => {
+    const id = Number(xf.getAttribute('numFmtId'));
+    return BUILT_IN_DATE_FORMATS.has(id) || (customFormats.has(id) && isDateFormatCode(customFormats.get(id)!));
+  });
+
+  const cellText = (cell: Element) => {
+    const type = cell.getAttribute('t');
+    const value = childrenByTag(cell, 'v')[0]?.textContent ?? '';
+    switch (type) {
+      case 's':
+        return sharedStrings[Number(value)] ?? '';
+      case 'inlineStr':
+        return childrenByTag(cell, 't').map(t => t.textContent || '').join('');
+      case 'b':
+        return value === '1' ? 'TRUE' : 'FALSE';
+      case 'e':
+        return '';
+      case 'str':
+        return value;
+      default: {
+        if (value === '') return '';
+        const number = Number(value);
+        if (dateStyles[Number(cell.getAttribute('s') || 0)]) return fromSerialDate(number);
+        // Drops binary floating point noise such as 0.30000000000000004
+        return String(Number(number.toPrecision(15)));
+      }
+    }
+  };
+
+  const readSheet = async (name: string) => {
+    const sheet = sheets.find(s => s.name === name);
+    const xml = sheet ? await parseXml(entries, sheet.path) : null;
+    if (!xml) throw new Error(`Sheet "${name}" not found`);
+
+    const records: string[][] = [];
+    childrenByTag(xml, 'row').forEach(row => {
+      const record: string[] = [];
+      childrenByTag(row, 'c').forEach(cell => {
+        const reference = cell.getAttribute('r');
+        const index = reference ? columnIndex(reference) : record.length;
+        while (record.length < index) record.push('');
+        record[index] = cellText(cell).trim();
+      });
+      if (record.some(value => value !== '')) records.push(record);
+    });
+
+    const [headers = [], ...rows] = records;
+    return { headers, rows: rows.map(row => headers.map((_, i) => row[i] ?? '')) };
+  };
+
+  return { sheetNames: sheets.map(sheet => sheet.name), readSheet };
+};
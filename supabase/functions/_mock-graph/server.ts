@@ -0,0 +1,202 @@
+// In-memory stand-in for the Microsoft Graph mail endpoints used by send-email and sync-email-replies.
+//
+//   deno run --allow-net supabase/functions/_mock-graph/server.ts [port]
+//
+// Point the functions at it in supabase/functions/.env (any values work for the AZURE_EMAIL_* secrets):
+//
+//   MICROSOFT_GRAPH_URL=http://host.docker.internal:8787/v1.0
+//   AZURE_LOGIN_URL=http://host.docker.internal:8787
+//
+// Emails sent through send-email land in the sender's Sent Items. Simulate answers with
+//
+//   POST /mock/reply   { "mailbox", "internetMessageId" | "conversationId", "from", "fromName"?, "body"?, "autoReply"? }
+//   POST /mock/inbox   { "mailbox", "from", "fromName"?, "subject", "body"? }   (a message outside any conversation)
+//   GET  /mock/messages                                                    (everything stored)
+//   DELETE /mock/messages                                                  (start over)
+
+interface MockAddress {
+  emailAddress: { address: string; name?: string };
+}
+
+interface MockMessage {
+  id: string;
+  conversationId: string;
+  internetMessageId: string;
+  subject: string;
+  bodyPreview: string;
+  body: { contentType: string; content: string };
+  from: MockAddress;
+  toRecipients: MockAddress[];
+  receivedDateTime: string;
+  sentDateTime: string;
+  internetMessageHeaders: { name: string; value: string }[];
+}
+
+type Folder = 'inbox' | 'sentitems';
+
+const port = Number(Deno.args[0] || 8787);
+const mailboxes = new Map<string, Record<Folder, MockMessage[]>>();
+
+const getFolder = (mailbox: string, folder: Folder) => {
+  const key = mailbox.toLowerCase();
+  if (!mailboxes.has(key)) mailboxes.set(key, { inbox: [], sentitems: [] });
+  return mailboxes.get(key)![folder];
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const address = (value: string, name?: string): MockAddress => ({ emailAddress: { address: value, name } });
+
+const stripHtml = (html: string) => html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Enough of RFC 2047 for the subjects send-email writes
+const decodeHeader = (value: string) =>
+  value.replace(/=\?UTF-8\?B\?([^?]+)\?=/gi, (_match, encoded: string) =>
+    new TextDecoder().decode(Uint8Array.from(atob(encoded), c => c.charCodeAt(0))));
+
+function parseMimeHeaders(mime: string) {
+  const headers: Record<string, string> = {};
+  for (const line of mime.split(/\r?\n\r?\n/)[0].split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) headers[line.slice(0, separator).toLowerCase()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+function recordSentMail(mailbox: string, to: string, toName: string | undefined, subject: string, body: string, messageId?: string) {
+  const now = new Date().toISOString();
+  const message: MockMessage = {
+    id: crypto.randomUUID(),
+    conversationId: `conv-${crypto.randomUUID()}`,
+    internetMessageId: messageId || `<${crypto.randomUUID()}@mock.graph>`,
+    subject,
+    bodyPreview: stripHtml(body).slice(0, 255),
+    body: { contentType: 'html', content: body },
+    from: address(mailbox),
+    toRecipients: [address(to, toName)],
+    receivedDateTime: now,
+    sentDateTime: now,
+    internetMessageHeaders: [],
+  };
+  getFolder(mailbox, 'sentitems').push(message);
+  console.log(`Sent ${message.internetMessageId} from ${mailbox} to ${to} in ${message.conversationId}`);
+  return message;
+}
+
+async function handleSendMail(req: Request, mailbox: string) {
+  const raw = await req.text();
+
+  // send-email posts HTML emails as a base64 MIME message and plain-text emails as JSON
+  if ((req.headers.get('content-type') || '').includes('application/json')) {
+    const { message } = JSON.parse(raw);
+    const recipient = message.toRecipients?.[0]?.emailAddress || {};
+    recordSentMail(mailbox, recipient.address, recipient.name, message.subject, message.body?.content || '');
+  } else {
+    const mime = new TextDecoder().decode(Uint8Array.from(atob(raw.trim()), c => c.charCodeAt(0)));
+    const headers = parseMimeHeaders(mime);
+    const to = headers['to'] || '';
+    const toAddress = to.match(/<([^>]+)>/)?.[1] || to;
+    recordSentMail(mailbox, toAddress, undefined, decodeHeader(headers['subject'] || ''), '', headers['message-id']);
+  }
+
+  return new Response(null, { status: 202 });
+}
+
+// Supports the "<field> ge <date>" filter, ascending order, $top and $skip that sync-email-replies uses
+function handleListMessages(url: URL, mailbox: string, folder: Folder) {
+  const filter = url.searchParams.get('$filter') || '';
+  const [, field, since] = filter.match(/^(receivedDateTime|sentDateTime) ge (\S+)$/) || [];
+  const top = Number(url.searchParams.get('$top') || 10);
+  const skip = Number(url.searchParams.get('$skip') || 0);
+
+  const matching = getFolder(mailbox, folder)
+    .filter(message => !field || message[field as 'receivedDateTime' | 'sentDateTime'] >= since)
+    .sort((a, b) => (field === 'sentDateTime' ? a.sentDateTime.localeCompare(b.sentDateTime) : a.receivedDateTime.localeCompare(b.receivedDateTime)));
+
+  const page = matching.slice(skip, skip + top);
+  const body: Record<string, unknown> = { value: page };
+  if (skip + top < matching.length) {
+    const next = new URL(url);
+    next.searchParams.set('$skip', String(skip + top));
+    body['@odata.nextLink'] = next.toString();
+  }
+  return json(body);
+}
+
+async function handleMockReply(req: Request) {
+  const { mailbox, internetMessageId, conversationId, from, fromName, body, autoReply } = await req.json();
+  const original = getFolder(mailbox, 'sentitems').find(message =>
+    (internetMessageId && message.internetMessageId === internetMessageId) ||
+    (conversationId && message.conversationId === conversationId));
+
+  if (!original) return json({ error: 'No sent message matches' }, 404);
+
+  const now = new Date().toISOString();
+  const content = body || '<p>Thanks, sounds good.</p>';
+  const reply: MockMessage = {
+    id: crypto.randomUUID(),
+    conversationId: original.conversationId,
+    internetMessageId: `<${crypto.randomUUID()}@mock.graph>`,
+    subject: `${autoReply ? 'Automatic reply' : 'RE'}: ${original.subject}`,
+    bodyPreview: stripHtml(content).slice(0, 255),
+    body: { contentType: 'html', content },
+    from: address(from || original.toRecipients[0].emailAddress.address, fromName),
+    toRecipients: [address(mailbox)],
+    receivedDateTime: now,
+    sentDateTime: now,
+    internetMessageHeaders: [
+      { name: 'In-Reply-To', value: original.internetMessageId },
+      ...(autoReply ? [{ name: 'Auto-Submitted', value: 'auto-replied' }] : []),
+    ],
+  };
+  getFolder(mailbox, 'inbox').push(reply);
+  return json(reply, 201);
+}
+
+async function handleMockInbox(req: Request) {
+  const { mailbox, from, fromName, subject, body } = await req.json();
+  const now = new Date().toISOString();
+  const content = body || '<p>Hello</p>';
+  const message: MockMessage = {
+    id: crypto.randomUUID(),
+    conversationId: `conv-${crypto.randomUUID()}`,
+    internetMessageId: `<${crypto.randomUUID()}@mock.graph>`,
+    subject: subject || '(no subject)',
+    bodyPreview: stripHtml(content).slice(0, 255),
+    body: { contentType: 'html', content },
+    from: address(from, fromName),
+    toRecipients: [address(mailbox)],
+    receivedDateTime: now,
+    sentDateTime: now,
+    internetMessageHeaders: [],
+  };
+  getFolder(mailbox, 'inbox').push(message);
+  return json(message, 201);
+}
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url);
+  const path = decodeURIComponent(url.pathname);
+  console.log(`${req.method} ${path}`);
+
+  if (req.method === 'POST' && /^\/[^/]+\/oauth2\/v2\.0\/token$/.test(path)) {
+    return json({ token_type: 'Bearer', expires_in: 3600, access_token: 'mock-graph-token' });
+  }
+
+  const sendMail = path.match(/^\/v1\.0\/users\/([^/]+)\/sendMail$/);
+  if (req.method === 'POST' && sendMail) return handleSendMail(req, sendMail[1]);
+
+  const list = path.match(/^\/v1\.0\/users\/([^/]+)\/mailFolders\/(inbox|sentitems)\/messages$/i);
+  if (req.method === 'GET' && list) return handleListMessages(url, list[1], list[2].toLowerCase() as Folder);
+
+  if (req.method === 'POST' && path === '/mock/reply') return handleMockReply(req);
+  if (req.method === 'POST' && path === '/mock/inbox') return handleMockInbox(req);
+  if (req.method === 'GET' && path === '/mock/messages') return json(Object.fromEntries(mailboxes));
+  if (req.method === 'DELETE' && path === '/mock/messages') {
+    mailboxes.clear();
+    return new Response(null, { status: 204 });
+  }
+
+  return json({ error: { code: 'ResourceNotFound', message: `${req.method} ${path} is not mocked` } }, 404);
+});
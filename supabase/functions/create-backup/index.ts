@@ -1,4 +1,4 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -7,14 +7,335 @@ const corsHeaders = {
 
 interface BackupManifest {
   version: string;
+  schema_version: string | null;
   created_at: string;
-  created_by: string;
+  created_by: string | null;
   tables: {
     name: string;
     row_count: number;
+    columns: string[];
   }[];
   total_records: number;
   include_audit_logs: boolean;
+  checksum: {
+    algorithm: 'SHA-256';
+    value: string;
+  };
+}
+
+interface SchemaTable {
+  name: string;
+  columns: string[];
+}
+
+interface BackupSettings {
+  schedule_enabled: boolean;
+  frequency: 'daily' | 'weekly';
+  keep_daily: number;
+  keep_weekly: number;
+  keep_monthly: number;
+}
+
+interface BackupOptions {
+  createdBy: string | null;
+  backupType: 'manual' | 'scheduled';
+  includeAuditLogs: boolean;
+}
+
+const MANIFEST_VERSION = '2.0';
+
+// Operational tables that are never part of a backup
+const EXCLUDED_TABLES = ['backups', 'backup_settings', 'keep_alive', 'user_sessions'];
+
+const AUDIT_LOG_TABLE = 'security_audit_log';
+
+// PostgREST caps a single response, so large tables are read page by page
+const PAGE_SIZE = 1000;
+
+const DEFAULT_SETTINGS: BackupSettings = {
+  schedule_enabled: false,
+  frequency: 'daily',
+  keep_daily: 7,
+  keep_weekly: 4,
+  keep_monthly: 12,
+};
+
+async function fetchAllRows(supabase: SupabaseClient, tableName: string) {
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(tableName)
+      .select('*')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// restore-backup recomputes this over the parsed data to detect a damaged file
+async function sha256Hex(content: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function getBackupSettings(supabase: SupabaseClient): Promise<BackupSettings> {
+  const { data } = await supabase
+    .from('backup_settings')
+    .select('schedule_enabled, frequency, keep_daily, keep_weekly, keep_monthly')
+    .limit(1)
+    .maybeSingle();
+
+  return { ...DEFAULT_SETTINGS, ...(data || {}) };
+}
+
+async function createBackup(supabase: SupabaseClient, { createdBy, backupType, includeAuditLogs }: BackupOptions) {
+  // Every public table is backed up, so new tables are covered without changes here
+  const { data: schema, error: schemaError } = await supabase.rpc('get_backup_schema');
+  if (schemaError || !schema) {
+    throw new Error(`Failed to read database schema: ${schemaError?.message || 'empty response'}`);
+  }
+
+  const tablesToBackup = (schema.tables as SchemaTable[]).filter(table =>
+    !EXCLUDED_TABLES.includes(table.name) &&
+    (includeAuditLogs || table.name !== AUDIT_LOG_TABLE)
+  );
+
+  const backupData: Record<string, Record<string, unknown>[]> = {};
+  const tables: BackupManifest['tables'] = [];
+  let totalRecords = 0;
+
+  // A table that cannot be read fails the backup rather than being left out of it
+  for (const table of tablesToBackup) {
+    try {
+      const rows = await fetchAllRows(supabase, table.name);
+      backupData[table.name] = rows;
+      tables.push({ name: table.name, row_count: rows.length, columns: table.columns });
+      totalRecords += rows.length;
+    } catch (err) {
+      console.error(`Failed to backup ${table.name}:`, err);
+      throw new Error(`Failed to backup ${table.name}: ${(err as { message: string }).message}`);
+    }
+  }
+
+  const manifest: BackupManifest = {
+    version: MANIFEST_VERSION,
+    schema_version: schema.schema_version ?? null,
+    created_at: new Date().toISOString(),
+    created_by: createdBy,
+    tables,
+    total_records: totalRecords,
+    include_audit_logs: includeAuditLogs,
+    checksum: { algorithm: 'SHA-256', value: await sha256Hex(JSON.stringify(backupData)) },
+  };
+
+  // Create backup JSON
+  const backupContent = JSON.stringify({
+    manifest,
+    data: backupData,
+  }, null, 2);
+
+  // Generate file name
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const fileName = `backup_${timestamp}.json`;
+  const filePath = `${createdBy || 'scheduled'}/${fileName}`;
+
+  // Upload to storage
+  const { error: uploadError } = await supabase.storage
+    .from('backups')
+    .upload(filePath, new Blob([backupContent], { type: 'application/json' }), {
+      contentType: 'application/json',
+      upsert: false,
+    });
+
+  if (uploadError) {
+    console.error('Upload error:', uploadError);
+    throw new Error(`Failed to upload backup: ${uploadError.message}`);
+  }
+
+  // Get file size
+  const sizeBytes = new Blob([backupContent]).size;
+
+  // Save backup metadata
+  const { data: backupRecord, error: dbError } = await supabase
+    .from('backups')
+    .insert({
+      file_name: fileName,
+      file_path: filePath,
+      size_bytes: sizeBytes,
+      tables_count: manifest.tables.length,
+      records_count: manifest.total_records,
+      backup_type: backupType,
+      status: 'completed',
+      manifest: manifest,
+      created_by: createdBy,
+    })
+    .select()
+    .single();
+
+  if (dbError) {
+    console.error('Database error:', dbError);
+    throw new Error(`Failed to save backup metadata: ${dbError.message}`);
+  }
+
+  // Log the backup action
+  await supabase.rpc('log_security_event', {
+    p_action: 'BACKUP_CREATED',
+    p_resource_type: 'backup',
+    p_resource_id: backupRecord.id,
+    p_details: {
+      file_name: fileName,
+      backup_type: backupType,
+      schema_version: manifest.schema_version,
+      tables_count: manifest.tables.length,
+      records_count: manifest.total_records,
+      size_bytes: sizeBytes,
+    }
+  });
+
+  return backupRecord;
+}
+
+const isoWeekKey = (date: Date) => {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${week}`;
+};
+
+const MANUAL_BACKUPS_KEPT = 10;
+
+async function deleteBackups(supabase: SupabaseClient, backups: { id: string; file_path: string }[]) {
+  for (const oldBackup of backups) {
+    // Delete from storage
+    await supabase.storage
+      .from('backups')
+      .remove([oldBackup.file_path]);
+
+    // Delete metadata
+    await supabase
+      .from('backups')
+      .delete()
+      .eq('id', oldBackup.id);
+  }
+}
+
+// Grandfather-father-son retention for scheduled backups: the newest of each of the last N days,
+// M ISO weeks and K months is kept; the other scheduled backups are removed
+async function applyRetention(supabase: SupabaseClient, settings: BackupSettings) {
+  const { data: allBackups, error } = await supabase
+    .from('backups')
+    .select('id, file_path, created_at')
+    .eq('backup_type', 'scheduled')
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  const keep = new Set<string>();
+  const periods: { count: number; key: (date: Date) => string }[] = [
+    { count: settings.keep_daily, key: date => date.toISOString().slice(0, 10) },
+    { count: settings.keep_weekly, key: isoWeekKey },
+    { count: settings.keep_monthly, key: date => date.toISOString().slice(0, 7) },
+  ];
+
+  for (const { count, key } of periods) {
+    const seen = new Set<string>();
+    for (const backup of allBackups || []) {
+      const period = key(new Date(backup.created_at));
+      if (seen.has(period)) continue;
+      if (seen.size >= count) break;
+      seen.add(period);
+      keep.add(backup.id);
+    }
+  }
+
+  const backupsToDelete = (allBackups || []).filter(backup => !keep.has(backup.id));
+  await deleteBackups(supabase, backupsToDelete);
+
+  if (backupsToDelete.length > 0) {
+    console.log(`Retention removed ${backupsToDelete.length} old scheduled backups`);
+  }
+  return backupsToDelete.length;
+}
+
+// Manual backups keep only the last 10, whatever the scheduled retention settings
+async function pruneManualBackups(supabase: SupabaseClient) {
+  const { data: manualBackups, error } = await supabase
+    .from('backups')
+    .select('id, file_path, created_at')
+    .eq('backup_type', 'manual')
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  const backupsToDelete = (manualBackups || []).slice(MANUAL_BACKUPS_KEPT);
+  await deleteBackups(supabase, backupsToDelete);
+
+  if (backupsToDelete.length > 0) {
+    console.log(`Cleaned up ${backupsToDelete.length} old manual backups`);
+  }
+}
+
+async function notifyAdminsOfFailure(supabase: SupabaseClient, message: string) {
+  const { data: admins } = await supabase
+    .from('user_roles')
+    .select('user_id')
+    .eq('role', 'admin');
+
+  const rows = (admins || []).map(admin => ({
+    user_id: admin.user_id,
+    message: `Scheduled backup failed: ${message}`,
+    notification_type: 'backup_failed',
+  }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('notifications').insert(rows);
+    if (error) console.error('Failed to notify admins of backup failure:', error);
+  }
+
+  await supabase.rpc('log_security_event', {
+    p_action: 'BACKUP_FAILED',
+    p_resource_type: 'backup',
+    p_details: { backup_type: 'scheduled', error: message },
+  });
+}
+
+// The cron job calls this every night; weekly schedules only run on Sundays (UTC)
+async function runScheduledBackup(supabase: SupabaseClient) {
+  const settings = await getBackupSettings(supabase);
+  const now = new Date();
+
+  if (!settings.schedule_enabled || (settings.frequency === 'weekly' && now.getUTCDay() !== 0)) {
+    return { success: true, skipped: true, message: 'No scheduled backup due' };
+  }
+
+  try {
+    const backupRecord = await createBackup(supabase, {
+      createdBy: null,
+      backupType: 'scheduled',
+      includeAuditLogs: true,
+    });
+    const pruned = await applyRetention(supabase, settings);
+
+    await supabase
+      .from('backup_settings')
+      .update({ last_run_at: now.toISOString(), last_run_status: 'completed', last_error: null })
+      .not('id', 'is', null);
+
+    return { success: true, backup: backupRecord, pruned, message: 'Scheduled backup created successfully' };
+  } catch (error: unknown) {
+    console.error('Scheduled backup failed:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await supabase
+      .from('backup_settings')
+      .update({ last_run_at: now.toISOString(), last_run_status: 'failed', last_error: message })
+      .not('id', 'is', null);
+    await notifyAdminsOfFailure(supabase, message);
+    throw error;
+  }
 }
 
 Deno.serve(async (req) => {
@@ -25,7 +346,7 @@ Deno.serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    
+
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
       throw new Error('Missing authorization header');
@@ -33,7 +354,19 @@ Deno.serve(async (req) => {
 
     // Create admin client for backup operations
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
-    
+
+    // The scheduled job authenticates with the service key
+    if (authHeader === `Bearer ${supabaseServiceKey}`) {
+      const result = await runScheduledBackup(supabaseAdmin);
+      return new Response(
+        JSON.stringify(result),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
     // Create user client for auth check
     const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
       global: { headers: { Authorization: authHeader } }
@@ -61,168 +394,34 @@ Deno.serve(async (req) => {
 
     const { includeAuditLogs = true } = await req.json().catch(() => ({}));
 
-    // Tables to backup
-    const tablesToBackup = [
-      'accounts',
-      'contacts',
-      'leads',
-      'deals',
-      'deal_action_items',
-      'lead_action_items',
-      'notifications',
-      'profiles',
-      'saved_filters',
-      'user_preferences',
-      'user_roles',
-      'dashboard_preferences',
-      'yearly_revenue_targets',
-      'page_permissions',
-    ];
-
-    if (includeAuditLogs) {
-      tablesToBackup.push('security_audit_log');
-    }
-
-    const backupData: Record<string, any[]> = {};
-    const manifest: BackupManifest = {
-      version: '1.0',
-      created_at: new Date().toISOString(),
-      created_by: user.id,
-      tables: [],
-      total_records: 0,
-      include_audit_logs: includeAuditLogs,
-    };
-
-    // Fetch data from each table
-    for (const tableName of tablesToBackup) {
-      try {
-        const { data, error } = await supabaseAdmin
-          .from(tableName)
-          .select('*');
-
-        if (error) {
-          console.warn(`Error fetching ${tableName}:`, error.message);
-          backupData[tableName] = [];
-          manifest.tables.push({ name: tableName, row_count: 0 });
-        } else {
-          backupData[tableName] = data || [];
-          manifest.tables.push({ name: tableName, row_count: data?.length || 0 });
-          manifest.total_records += data?.length || 0;
-        }
-      } catch (err) {
-        console.warn(`Failed to backup ${tableName}:`, err);
-        backupData[tableName] = [];
-        manifest.tables.push({ name: tableName, row_count: 0 });
-      }
-    }
-
-    // Create backup JSON
-    const backupContent = JSON.stringify({
-      manifest,
-      data: backupData,
-    }, null, 2);
-
-    // Generate file name
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-    const fileName = `backup_${timestamp}.json`;
-    const filePath = `${user.id}/${fileName}`;
-
-    // Upload to storage
-    const { error: uploadError } = await supabaseAdmin.storage
-      .from('backups')
-      .upload(filePath, new Blob([backupContent], { type: 'application/json' }), {
-        contentType: 'application/json',
-        upsert: false,
-      });
-
-    if (uploadError) {
-      console.error('Upload error:', uploadError);
-      throw new Error(`Failed to upload backup: ${uploadError.message}`);
-    }
-
-    // Get file size
-    const sizeBytes = new Blob([backupContent]).size;
-
-    // Save backup metadata
-    const { data: backupRecord, error: dbError } = await supabaseAdmin
-      .from('backups')
-      .insert({
-        file_name: fileName,
-        file_path: filePath,
-        size_bytes: sizeBytes,
-        tables_count: manifest.tables.length,
-        records_count: manifest.total_records,
-        backup_type: 'manual',
-        status: 'completed',
-        manifest: manifest,
-        created_by: user.id,
-      })
-      .select()
-      .single();
-
-    if (dbError) {
-      console.error('Database error:', dbError);
-      throw new Error(`Failed to save backup metadata: ${dbError.message}`);
-    }
-
-    // Clean up old backups (keep only last 10)
-    const { data: allBackups } = await supabaseAdmin
-      .from('backups')
-      .select('id, file_path, created_at')
-      .order('created_at', { ascending: false });
-
-    if (allBackups && allBackups.length > 10) {
-      const backupsToDelete = allBackups.slice(10);
-      
-      for (const oldBackup of backupsToDelete) {
-        // Delete from storage
-        await supabaseAdmin.storage
-          .from('backups')
-          .remove([oldBackup.file_path]);
-        
-        // Delete metadata
-        await supabaseAdmin
-          .from('backups')
-          .delete()
-          .eq('id', oldBackup.id);
-      }
-      
-      console.log(`Cleaned up ${backupsToDelete.length} old backups`);
-    }
-
-    // Log the backup action
-    await supabaseAdmin.rpc('log_security_event', {
-      p_action: 'BACKUP_CREATED',
-      p_resource_type: 'backup',
-      p_resource_id: backupRecord.id,
-      p_details: {
-        file_name: fileName,
-        tables_count: manifest.tables.length,
-        records_count: manifest.total_records,
-        size_bytes: sizeBytes,
-      }
+    const backupRecord = await createBackup(supabaseAdmin, {
+      createdBy: user.id,
+      backupType: 'manual',
+      includeAuditLogs,
     });
 
-    console.log('Backup created successfully:', fileName);
+    await pruneManualBackups(supabaseAdmin);
+
+    console.log('Backup created successfully:', backupRecord.file_name);
 
     return new Response(
-      JSON.stringify({ 
-        success: true, 
+      JSON.stringify({
+        success: true,
         backup: backupRecord,
-        message: 'Backup created successfully' 
+        message: 'Backup created successfully'
       }),
-      { 
+      {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200 
+        status: 200
       }
     );
   } catch (error: any) {
     console.error('Backup creation error:', error);
     return new Response(
       JSON.stringify({ error: error.message }),
-      { 
+      {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: error.message === 'Unauthorized' ? 401 : 500 
+        status: error.message === 'Unauthorized' ? 401 : 500
       }
     );
   }
@@ -0,0 +1,252 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type ReminderKey = '15min' | '1hr' | '1day';
+
+interface ReminderOffset {
+  key: ReminderKey;
+  minutes: number;
+}
+
+interface MeetingReminderRow {
+  id: string;
+  meeting_id: string;
+  remind_15min: boolean;
+  remind_1hr: boolean;
+  remind_1day: boolean;
+  sent_15min: boolean;
+  sent_1hr: boolean;
+  sent_1day: boolean;
+}
+
+interface UpcomingMeeting {
+  id: string;
+  subject: string;
+  start_time: string;
+  join_url: string | null;
+  created_by: string | null;
+}
+
+interface RecipientPrefs {
+  meeting_reminders: boolean | null;
+  in_app_notifications: boolean | null;
+  email_notifications: boolean | null;
+}
+
+// Smallest offset first, so a meeting that is already close only gets its nearest reminder
+const REMINDER_OFFSETS: ReminderOffset[] = [
+  { key: '15min', minutes: 15 },
+  { key: '1hr', minutes: 60 },
+  { key: '1day', minutes: 24 * 60 },
+];
+
+const MAX_OFFSET_MS = 24 * 60 * 60 * 1000;
+
+const formatMeetingTime = (startTime: string, timeZone: string | null) => {
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: 'short', day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit', timeZoneName: 'short',
+  };
+  try {
+    return new Date(startTime).toLocaleString('en-GB', { ...options, timeZone: timeZone || 'UTC' });
+  } catch {
+    return new Date(startTime).toLocaleString('en-GB', { ...options, timeZone: 'UTC' });
+  }
+};
+
+// Time left until the meeting, as of this run rather than the nominal offset
+const formatTimeUntil = (startTime: string, now: Date) => {
+  const minutes = Math.max(1, Math.round((new Date(startTime).getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+// Reminders whose time has come; earlier-offset reminders that were missed are claimed without being sent
+const getDueReminders = (reminder: MeetingReminderRow, startTime: Date, now: Date) =>
+  REMINDER_OFFSETS.filter(offset =>
+    reminder[`remind_${offset.key}`] &&
+    !reminder[`sent_${offset.key}`] &&
+    now.getTime() >= startTime.getTime() - offset.minutes * 60 * 1000
+  );
+
+// Flips the sent flag only if it is still unset, so overlapping runs never notify twice
+async function claimReminder(supabase: SupabaseClient, reminderId: string, key: ReminderKey): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('meeting_reminders')
+    .update({ [`sent_${key}`]: true })
+    .eq('id', reminderId)
+    .eq(`sent_${key}`, false)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function sendReminderEmail(
+  supabaseUrl: string,
+  serviceKey: string,
+  to: string,
+  subject: string,
+  body: string
+) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      to,
+      subject,
+      body,
+      from: Deno.env.get('REMINDER_FROM_EMAIL') || 'noreply@acmecrm.com',
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`send-email failed: ${response.status} ${errorText}`);
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Only the scheduled job may dispatch reminders
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + MAX_OFFSET_MS);
+
+    const { data: meetings, error: meetingsError } = await supabase
+      .from('meetings')
+      .select('id, subject, start_time, join_url, created_by')
+      .neq('status', 'cancelled')
+      .gt('start_time', now.toISOString())
+      .lte('start_time', windowEnd.toISOString());
+
+    if (meetingsError) throw new Error(meetingsError.message);
+
+    const upcoming = (meetings || []) as UpcomingMeeting[];
+    if (upcoming.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, meetings: 0, notifications: 0, emails: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Meetings saved before their reminder settings were opened get the default settings
+    const meetingIds = upcoming.map(m => m.id);
+    await supabase
+      .from('meeting_reminders')
+      .upsert(meetingIds.map(meeting_id => ({ meeting_id })), { onConflict: 'meeting_id', ignoreDuplicates: true });
+
+    const { data: reminderRows, error: remindersError } = await supabase
+      .from('meeting_reminders')
+      .select('*')
+      .in('meeting_id', meetingIds);
+
+    if (remindersError) throw new Error(remindersError.message);
+
+    const remindersByMeeting = new Map(
+      ((reminderRows || []) as MeetingReminderRow[]).map(r => [r.meeting_id, r])
+    );
+
+    const organizerIds = [...new Set(upcoming.map(m => m.created_by).filter(Boolean))] as string[];
+    const [prefsRes, profilesRes] = await Promise.all([
+      supabase
+        .from('notification_preferences')
+        .select('user_id, meeting_reminders, in_app_notifications, email_notifications')
+        .in('user_id', organizerIds),
+      supabase.from('profiles').select('id, timezone').in('id', organizerIds),
+    ]);
+
+    const prefsByUser = new Map<string, RecipientPrefs>((prefsRes.data || []).map(p => [p.user_id, p]));
+    const timezoneByUser = new Map<string, string | null>((profilesRes.data || []).map(p => [p.id, p.timezone]));
+
+    const results = { notifications: 0, emails: 0, skipped: 0, failed: 0 };
+
+    for (const meeting of upcoming) {
+      const reminder = remindersByMeeting.get(meeting.id);
+      if (!reminder || !meeting.created_by) continue;
+
+      const due = getDueReminders(reminder, new Date(meeting.start_time), now);
+      if (due.length === 0) continue;
+
+      try {
+        // Claim every due reminder, but send a single message
+        const claimed: ReminderOffset[] = [];
+        for (const offset of due) {
+          if (await claimReminder(supabase, reminder.id, offset.key)) claimed.push(offset);
+        }
+        if (claimed.length === 0) continue;
+
+        // Users without saved preferences get the defaults: reminders on, in-app on, email on
+        const prefs = prefsByUser.get(meeting.created_by);
+        if (prefs?.meeting_reminders === false) {
+          results.skipped++;
+          continue;
+        }
+
+        const when = formatMeetingTime(meeting.start_time, timezoneByUser.get(meeting.created_by) || null);
+        const message = `Reminder: "${meeting.subject}" starts in ${formatTimeUntil(meeting.start_time, now)} (${when})`;
+
+        if (prefs?.in_app_notifications !== false) {
+          const { error } = await supabase.from('notifications').insert({
+            user_id: meeting.created_by,
+            message,
+            notification_type: 'meeting_reminder',
+          });
+          if (error) throw error;
+          results.notifications++;
+        }
+
+        if (prefs?.email_notifications !== false) {
+          const { data: userData } = await supabase.auth.admin.getUserById(meeting.created_by);
+          const email = userData?.user?.email;
+          if (email) {
+            const body = [
+              message,
+              meeting.join_url ? `\nJoin: ${meeting.join_url}` : '',
+            ].join('');
+            await sendReminderEmail(supabaseUrl, supabaseServiceKey, email, `Meeting reminder: ${meeting.subject}`, body);
+            results.emails++;
+          }
+        }
+      } catch (err) {
+        console.error(`Failed to dispatch reminder for meeting ${meeting.id}:`, err);
+        results.failed++;
+      }
+    }
+
+    console.log(`Meeting reminders processed for ${upcoming.length} meeting(s):`, results);
+
+    return new Response(
+      JSON.stringify({ success: true, meetings: upcoming.length, ...results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    console.error('Meeting reminder dispatch error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: message === 'Unauthorized' ? 401 : 500
+      }
+    );
+  }
+});
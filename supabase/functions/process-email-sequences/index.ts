@@ -0,0 +1,409 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface Enrollment {
+  id: string;
+  sequence_id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  recipient_email: string;
+  recipient_name: string | null;
+  sender_email: string;
+  current_step: number;
+  next_send_at: string;
+  next_step_id: string | null;
+  lead_status_at_enrollment: string | null;
+  enrolled_by: string | null;
+  enrolled_at: string;
+}
+
+interface Sequence {
+  id: string;
+  is_active: boolean;
+  stop_on_reply: boolean;
+  stop_on_click: boolean;
+  stop_on_status_change: boolean;
+}
+
+interface SequenceStep {
+  id: string;
+  sequence_id: string;
+  step_order: number;
+  template_id: string;
+  delay_days: number;
+}
+
+interface Template {
+  id: string;
+  subject: string;
+  body: string;
+  is_html: boolean;
+}
+
+interface Recipient {
+  name: string;
+  email: string;
+  company_name: string | null;
+  position: string | null;
+  lead_status: string | null;
+  account_id: string | null;
+}
+
+// Enrollments handled per run; the rest are picked up 15 minutes later
+const BATCH_SIZE = 200;
+
+// A failed send is retried on a later run instead of every 15 minutes
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Same conversion the composer applies to plain-text templates
+const plainTextToHtml = (text: string) =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+// Same variables as SendEmailModal; values going into HTML are escaped
+const replaceVariables = (text: string, recipient: Recipient, html: boolean) => {
+  const value = (v: string | null) => (html ? escapeHtml(v || '') : v || '');
+  return text
+    .replace(/\{\{contact_name\}\}/g, value(recipient.name))
+    .replace(/\{\{name\}\}/g, value(recipient.name))
+    .replace(/\{\{company_name\}\}/g, value(recipient.company_name))
+    .replace(/\{\{position\}\}/g, value(recipient.position))
+    .replace(/\{\{email\}\}/g, value(recipient.email));
+};
+
+async function loadRecipient(supabase: SupabaseClient, enrollment: Enrollment): Promise<Recipient | null> {
+  if (enrollment.lead_id) {
+    const { data } = await supabase
+      .from('leads')
+      .select('lead_name, email, company_name, position, lead_status, account_id')
+      .eq('id', enrollment.lead_id)
+      .maybeSingle();
+    return data ? { ...data, name: data.lead_name, email: data.email || enrollment.recipient_email } : null;
+  }
+
+  const { data } = await supabase
+    .from('contacts')
+    .select('contact_name, email, company_name, position, account_id')
+    .eq('id', enrollment.contact_id)
+    .maybeSingle();
+  return data
+    ? { ...data, name: data.contact_name, email: data.email || enrollment.recipient_email, lead_status: null }
+    : null;
+}
+
+// Reason to end the cadence before the next step, checked again at send time in case the triggers were missed
+async function getStopReason(
+  supabase: SupabaseClient,
+  enrollment: Enrollment,
+  sequence: Sequence,
+  recipient: Recipient
+): Promise<string | null> {
+  if (
+    sequence.stop_on_status_change &&
+    enrollment.lead_id &&
+    recipient.lead_status !== enrollment.lead_status_at_enrollment
+  ) {
+    return `Lead status changed to ${recipient.lead_status || 'none'}`;
+  }
+
+  if (sequence.stop_on_reply) {
+    // Any email from the recipient since enrollment counts, not only replies to sequence emails
+    const { count } = await supabase
+      .from('email_replies')
+      .select('id', { count: 'exact', head: true })
+      .eq(enrollment.lead_id ? 'lead_id' : 'contact_id', enrollment.lead_id || enrollment.contact_id)
+      .eq('is_auto_reply', false)
+      .gte('received_at', enrollment.enrolled_at);
+    if (count) return 'Recipient replied';
+  }
+
+  if (sequence.stop_on_click) {
+    const { count } = await supabase
+      .from('email_history')
+      .select('id', { count: 'exact', head: true })
+      .eq('sequence_enrollment_id', enrollment.id)
+      .not('clicked_at', 'is', null);
+    if (count) return 'Recipient clicked a link';
+  }
+
+  return null;
+}
+
+async function stopEnrollment(supabase: SupabaseClient, enrollmentId: string, status: 'stopped' | 'completed' | 'failed', reason: string | null) {
+  const { error } = await supabase
+    .from('email_sequence_enrollments')
+    .update({ status, stop_reason: reason, next_send_at: null })
+    .eq('id', enrollmentId);
+
+  if (error) console.error(`Failed to mark sequence enrollment ${enrollmentId} ${status}:`, error);
+}
+
+// Clears next_send_at only if the enrollment is unchanged, so overlapping runs never send a step twice
+async function claimEnrollment(supabase: SupabaseClient, enrollment: Enrollment): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('email_sequence_enrollments')
+    .update({ next_send_at: null })
+    .eq('id', enrollment.id)
+    .eq('status', 'active')
+    .eq('current_step', enrollment.current_step)
+    .eq('next_send_at', enrollment.next_send_at)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function sendStepEmail(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  serviceKey: string,
+  enrollment: Enrollment,
+  step: SequenceStep,
+  template: Template,
+  recipient: Recipient
+) {
+  const subject = replaceVariables(template.subject, recipient, false);
+  const body = replaceVariables(template.is_html ? template.body : plainTextToHtml(template.body), recipient, true);
+
+  // The history entry is created first so its id can be used to track opens and clicks
+  const { data: historyEntry, error: historyError } = await supabase
+    .from('email_history')
+    .insert({
+      recipient_email: recipient.email,
+      recipient_name: recipient.name,
+      subject,
+      body,
+      is_html: true,
+      sender_email: enrollment.sender_email,
+      sent_by: enrollment.enrolled_by,
+      lead_id: enrollment.lead_id,
+      contact_id: enrollment.contact_id,
+      account_id: recipient.account_id,
+      status: 'sent',
+      sequence_enrollment_id: enrollment.id,
+      sequence_step_id: step.id,
+    })
+    .select('id')
+    .single();
+
+  if (historyError) throw historyError;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      to: recipient.email,
+      toName: recipient.name,
+      subject,
+      body,
+      isHtml: true,
+      trackingId: historyEntry.id,
+      from: enrollment.sender_email,
+    }),
+  });
+
+  if (!response.ok) {
+    // Emails that were never sent are not kept in the history
+    await supabase.from('email_history').delete().eq('id', historyEntry.id);
+    const errorText = await response.text();
+    throw new Error(`send-email failed: ${response.status} ${errorText}`);
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Only the scheduled job may send sequence emails
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+
+    const { data: dueRows, error: dueError } = await supabase
+      .from('email_sequence_enrollments')
+      .select('id, sequence_id, lead_id, contact_id, recipient_email, recipient_name, sender_email, current_step, next_send_at, next_step_id, lead_status_at_enrollment, enrolled_by, enrolled_at')
+      .eq('status', 'active')
+      .lte('next_send_at', now.toISOString())
+      .order('next_send_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (dueError) throw dueError;
+
+    const due = (dueRows || []) as Enrollment[];
+    if (due.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, due: 0, sent: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const sequenceIds = [...new Set(due.map(e => e.sequence_id))];
+    const [sequencesRes, stepsRes] = await Promise.all([
+      supabase
+        .from('email_sequences')
+        .select('id, is_active, stop_on_reply, stop_on_click, stop_on_status_change')
+        .in('id', sequenceIds),
+      supabase
+        .from('email_sequence_steps')
+        .select('id, sequence_id, step_order, template_id, delay_days')
+        .in('sequence_id', sequenceIds)
+        .order('step_order', { ascending: true }),
+    ]);
+
+    if (sequencesRes.error) throw sequencesRes.error;
+    if (stepsRes.error) throw stepsRes.error;
+
+    const sequences = new Map(((sequencesRes.data || []) as Sequence[]).map(s => [s.id, s]));
+    const stepsBySequence = new Map<string, SequenceStep[]>();
+    for (const step of (stepsRes.data || []) as SequenceStep[]) {
+      stepsBySequence.set(step.sequence_id, [...(stepsBySequence.get(step.sequence_id) || []), step]);
+    }
+
+    const templateIds = [...new Set((stepsRes.data || []).map(s => s.template_id))];
+    const { data: templateRows, error: templatesError } = await supabase
+      .from('email_templates')
+      .select('id, subject, body, is_html')
+      .in('id', templateIds);
+
+    if (templatesError) throw templatesError;
+
+    const templates = new Map(((templateRows || []) as Template[]).map(t => [t.id, t]));
+    const results = { sent: 0, completed: 0, stopped: 0, skipped: 0, failed: 0 };
+
+    for (const enrollment of due) {
+      const sequence = sequences.get(enrollment.sequence_id);
+      // Inactive sequences hold their enrollments until they are switched back on
+      if (!sequence?.is_active) {
+        results.skipped++;
+        continue;
+      }
+
+      const steps = stepsBySequence.get(enrollment.sequence_id) || [];
+      // next_step_id is cleared when that step is deleted, and the step now at its position follows instead
+      const stepIndex = enrollment.next_step_id
+        ? steps.findIndex(s => s.id === enrollment.next_step_id)
+        : enrollment.current_step;
+      const step = steps[stepIndex];
+      if (!step) {
+        await stopEnrollment(supabase, enrollment.id, 'completed', null);
+        results.completed++;
+        continue;
+      }
+
+      try {
+        const recipient = await loadRecipient(supabase, enrollment);
+        if (!recipient) {
+          await stopEnrollment(supabase, enrollment.id, 'stopped', 'Recipient no longer exists');
+          results.stopped++;
+          continue;
+        }
+
+        const stopReason = await getStopReason(supabase, enrollment, sequence, recipient);
+        if (stopReason) {
+          await stopEnrollment(supabase, enrollment.id, 'stopped', stopReason);
+          results.stopped++;
+          continue;
+        }
+
+        const template = templates.get(step.template_id);
+        if (!template) {
+          await stopEnrollment(supabase, enrollment.id, 'stopped', `Template for step ${stepIndex + 1} is missing`);
+          results.stopped++;
+          continue;
+        }
+
+        if (!(await claimEnrollment(supabase, enrollment))) continue;
+
+        // The claim cleared next_send_at, so every failure from here on must reschedule or end the enrollment
+        try {
+          await sendStepEmail(supabase, supabaseUrl, supabaseServiceKey, enrollment, step, template, recipient);
+        } catch (sendError) {
+          const { error: retryError } = await supabase
+            .from('email_sequence_enrollments')
+            .update({ next_send_at: new Date(now.getTime() + RETRY_DELAY_MS).toISOString() })
+            .eq('id', enrollment.id);
+          if (retryError) {
+            await stopEnrollment(supabase, enrollment.id, 'failed', `Step ${stepIndex + 1} could not be sent or rescheduled: ${retryError.message}`);
+          }
+          throw sendError;
+        }
+
+        const nextStep = steps[stepIndex + 1];
+        // Status is left alone unless finished, so a pause made during the send is kept
+        const { error: advanceError } = await supabase
+          .from('email_sequence_enrollments')
+          .update({
+            current_step: enrollment.current_step + 1,
+            next_step_id: nextStep?.id ?? null,
+            last_sent_at: now.toISOString(),
+            next_send_at: nextStep ? new Date(now.getTime() + nextStep.delay_days * DAY_MS).toISOString() : null,
+            ...(nextStep ? {} : { status: 'completed' }),
+          })
+          .eq('id', enrollment.id);
+
+        if (advanceError) {
+          // The email already went out, so the step is not retried
+          await stopEnrollment(supabase, enrollment.id, 'failed', `Step ${stepIndex + 1} was sent but could not be recorded: ${advanceError.message}`);
+          throw new Error(advanceError.message);
+        }
+
+        if (enrollment.contact_id) {
+          await supabase
+            .from('contacts')
+            .update({ last_contacted_at: now.toISOString() })
+            .eq('id', enrollment.contact_id);
+        }
+
+        results.sent++;
+        if (!nextStep) results.completed++;
+      } catch (err) {
+        console.error(`Failed to process sequence enrollment ${enrollment.id}:`, err);
+        results.failed++;
+      }
+    }
+
+    console.log(`Email sequences processed ${due.length} due enrollment(s):`, results);
+
+    return new Response(
+      JSON.stringify({ success: true, due: due.length, ...results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    console.error('Email sequence processing error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: message === 'Unauthorized' ? 401 : 500
+      }
+    );
+  }
+});
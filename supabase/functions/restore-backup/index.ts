@@ -1,10 +1,241 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+interface SchemaTable {
+  name: string;
+  columns: string[];
+  primary_key: string | null;
+  depends_on: string[];
+  self_references: string[];
+  foreign_keys: { column: string; references: string }[];
+}
+
+interface DatabaseSchema {
+  schema_version: string | null;
+  tables: SchemaTable[];
+}
+
+type BackupRow = Record<string, unknown>;
+
+interface BackupManifest {
+  version: string;
+  schema_version?: string | null;
+  tables: { name: string; row_count: number; columns?: string[] }[];
+  total_records: number;
+  include_audit_logs: boolean;
+  checksum?: { algorithm: string; value: string };
+}
+
+interface RestorePlan {
+  tables: SchemaTable[];
+  errors: string[];
+  warnings: string[];
+}
+
+type RestoreMode = 'replace' | 'merge';
+
+// A single record, e.g. one account, optionally with every row that references it
+interface RecordSelection {
+  table: string;
+  ids: string[];
+  includeRelated?: boolean;
+}
+
+interface RestoreRequest {
+  backupId: string;
+  dryRun?: boolean;
+  mode?: RestoreMode;
+  tables?: string[];
+  records?: RecordSelection;
+}
+
+interface TableChanges {
+  name: string;
+  inserts: number;
+  updates: number;
+  deletes: number;
+}
+
+// 1.0 backups predate schema versions and per-table column lists
+const SUPPORTED_MANIFEST_VERSIONS = ['1.0', '2.0'];
+
+// Kept as they are so current users keep their access; backup rows are merged in
+const PRESERVED_TABLES = ['profiles', 'user_roles'];
+
+const AUDIT_LOG_TABLE = 'security_audit_log';
+
+// Checks the backup against the current schema before anything is deleted
+function planRestore(manifest: BackupManifest, backupData: Record<string, BackupRow[]>, schema: DatabaseSchema): RestorePlan {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!SUPPORTED_MANIFEST_VERSIONS.includes(manifest.version)) {
+    errors.push(`Unsupported backup format version ${manifest.version}`);
+  }
+
+  // Migration versions are timestamps, so they compare as strings
+  if (manifest.schema_version && schema.schema_version && manifest.schema_version > schema.schema_version) {
+    errors.push(
+      `Backup was taken from a newer database schema (${manifest.schema_version}) than this one (${schema.schema_version})`
+    );
+  }
+
+  const schemaTables = new Map(schema.tables.map(table => [table.name, table]));
+  const tables: SchemaTable[] = [];
+
+  for (const tableName of Object.keys(backupData)) {
+    if (tableName === AUDIT_LOG_TABLE && !manifest.include_audit_logs) continue;
+
+    const table = schemaTables.get(tableName);
+    if (!table) {
+      warnings.push(`${tableName}: table no longer exists and was skipped`);
+      continue;
+    }
+    if (!table.primary_key) {
+      errors.push(`${tableName}: table has no single-column primary key to restore by`);
+      continue;
+    }
+
+    const backupColumns: string[] = manifest.tables?.find(t => t.name === tableName)?.columns
+      || [...new Set(backupData[tableName].flatMap(row => Object.keys(row)))];
+    const droppedColumns = backupColumns.filter(column => !table.columns.includes(column));
+    if (droppedColumns.length > 0) {
+      warnings.push(`${tableName}: columns no longer in the schema are ignored (${droppedColumns.join(', ')})`);
+    }
+    if (backupData[tableName].length > 0 && !backupColumns.includes(table.primary_key)) {
+      errors.push(`${tableName}: backup rows have no ${table.primary_key} column`);
+      continue;
+    }
+
+    tables.push(table);
+  }
+
+  return { tables: sortByDependencies(tables, warnings), errors, warnings };
+}
+
+// Referenced tables come before the tables that reference them
+function sortByDependencies(tables: SchemaTable[], warnings: string[]): SchemaTable[] {
+  const remaining = new Map(tables.map(table => [table.name, table]));
+  const sorted: SchemaTable[] = [];
+
+  while (remaining.size > 0) {
+    const ready = [...remaining.values()].filter(table =>
+      table.depends_on.every(dependency => !remaining.has(dependency))
+    );
+
+    if (ready.length === 0) {
+      // Mutually referencing tables: restore them in name order and report it
+      const cycle = [...remaining.values()].sort((a, b) => a.name.localeCompare(b.name));
+      warnings.push(`Circular foreign keys between ${cycle.map(t => t.name).join(', ')}; restored in name order`);
+      sorted.push(...cycle);
+      break;
+    }
+
+    for (const table of ready) {
+      sorted.push(table);
+      remaining.delete(table.name);
+    }
+  }
+
+  return sorted;
+}
+
+// Parent rows of a self-referencing table come before their children, e.g. tasks.parent_task_id
+function sortSelfReferencingRows(rows: BackupRow[], table: SchemaTable): BackupRow[] {
+  if (table.self_references.length === 0) return rows;
+
+  const pk = table.primary_key!;
+  const pending = new Map(rows.map(row => [row[pk], row]));
+  const sorted: BackupRow[] = [];
+
+  while (pending.size > 0) {
+    const ready = [...pending.values()].filter(row =>
+      table.self_references.every(column => !row[column] || !pending.has(row[column]))
+    );
+    // Rows in a reference loop are left for the database to reject
+    const batch = ready.length > 0 ? ready : [...pending.values()];
+    for (const row of batch) {
+      sorted.push(row);
+      pending.delete(row[pk]);
+    }
+  }
+
+  return sorted;
+}
+
+// Rows of the root records plus, transitively, every backup row whose foreign key points at a selected row
+function selectRecords(tables: SchemaTable[], rowsByTable: Map<string, BackupRow[]>, selection: RecordSelection, warnings: string[]) {
+  const root = tables.find(table => table.name === selection.table);
+  if (!root) {
+    throw new Error(`Table ${selection.table} is not part of this restore`);
+  }
+
+  const selected = new Map<string, Map<unknown, BackupRow>>(tables.map(table => [table.name, new Map()]));
+  const rootIds = new Set<unknown>(selection.ids);
+  for (const row of rowsByTable.get(root.name) || []) {
+    if (rootIds.has(row[root.primary_key!])) selected.get(root.name)!.set(row[root.primary_key!], row);
+  }
+
+  const missing = selection.ids.length - selected.get(root.name)!.size;
+  if (missing > 0) {
+    warnings.push(`${root.name}: ${missing} selected record(s) are not in the backup`);
+  }
+
+  if (selection.includeRelated !== false) {
+    const queue: { table: string; ids: Set<unknown> }[] = [
+      { table: root.name, ids: new Set(selected.get(root.name)!.keys()) },
+    ];
+
+    while (queue.length > 0) {
+      const { table: parentName, ids } = queue.shift()!;
+      for (const child of tables) {
+        const columns = child.foreign_keys.filter(fk => fk.references === parentName).map(fk => fk.column);
+        if (columns.length === 0) continue;
+
+        const childRows = selected.get(child.name)!;
+        const added = new Set<unknown>();
+        for (const row of rowsByTable.get(child.name) || []) {
+          const pk = row[child.primary_key!];
+          if (childRows.has(pk) || !columns.some(column => ids.has(row[column]))) continue;
+          childRows.set(pk, row);
+          added.add(pk);
+        }
+        if (added.size > 0) queue.push({ table: child.name, ids: added });
+      }
+    }
+  }
+
+  return new Map([...selected].map(([name, rows]) => [name, [...rows.values()]]));
+}
+
+// Current primary keys of a table, read page by page
+async function fetchCurrentKeys(supabase: SupabaseClient, table: SchemaTable) {
+  const pageSize = 1000;
+  const keys = new Set<unknown>();
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from(table.name)
+      .select(table.primary_key!)
+      .range(from, from + pageSize - 1);
+
+    if (error) throw new Error(error.message);
+    for (const row of (data || []) as BackupRow[]) keys.add(row[table.primary_key!]);
+    if (!data || data.length < pageSize) return keys;
+  }
+}
+
+async function sha256Hex(content: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const pickColumns = (row: BackupRow, columns: string[]): BackupRow =>
+  Object.fromEntries(Object.entries(row).filter(([column]) => columns.includes(column)));
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -45,12 +276,18 @@ Deno.serve(async (req) => {
       throw new Error('Only admins can restore backups');
     }
 
-    const { backupId } = await req.json();
+    const { backupId, dryRun = false, mode = 'replace', tables: selectedTables, records: selectedRecords }: RestoreRequest = await req.json();
     if (!backupId) {
       throw new Error('Backup ID is required');
     }
+    if (!['replace', 'merge'].includes(mode)) {
+      throw new Error(`Unknown restore mode ${mode}`);
+    }
+    if (selectedRecords && !selectedRecords.ids?.length) {
+      throw new Error('Select at least one record to restore');
+    }
 
-    console.log('Starting restore for backup:', backupId, 'by user:', user.email);
+    console.log(`Starting ${dryRun ? 'dry run' : 'restore'} (${mode}) for backup:`, backupId, 'by user:', user.email);
 
     // Get backup metadata
     const { data: backup, error: backupError } = await supabaseAdmin
@@ -73,7 +310,7 @@ Deno.serve(async (req) => {
     }
 
     const backupContent = JSON.parse(await fileData.text());
-    const { manifest, data: backupData } = backupContent;
+    const { manifest, data: backupData } = backupContent as { manifest: BackupManifest; data: Record<string, BackupRow[]> };
 
     console.log('Restore manifest:', manifest);
 
@@ -82,6 +319,95 @@ Deno.serve(async (req) => {
       throw new Error('Invalid backup file format');
     }
 
+    const { data: schema, error: schemaError } = await supabaseAdmin.rpc('get_backup_schema');
+    if (schemaError || !schema) {
+      throw new Error(`Failed to read database schema: ${schemaError?.message || 'empty response'}`);
+    }
+
+    const plan = planRestore(manifest, backupData, schema as DatabaseSchema);
+
+    // The checksum stored with the backup record is trusted over the copy inside the file
+    const expectedChecksum = (backup.manifest?.checksum || manifest.checksum)?.value;
+    if (expectedChecksum) {
+      if (await sha256Hex(JSON.stringify(backupData)) !== expectedChecksum) {
+        plan.errors.unshift('Backup file checksum does not match; the file may be damaged or modified');
+      }
+    } else {
+      plan.warnings.push('Backup has no checksum; file integrity was not verified');
+    }
+    if (plan.errors.length > 0) {
+      console.warn('Backup failed validation:', plan.errors);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Backup cannot be restored: ${plan.errors.join('; ')}`,
+          errors: plan.errors,
+          warnings: plan.warnings,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
+    const warnings = [...plan.warnings];
+    let restoreTables = plan.tables;
+    if (selectedTables?.length) {
+      const unknownTables = selectedTables.filter(name => !plan.tables.some(table => table.name === name));
+      if (unknownTables.length > 0) {
+        throw new Error(`Tables not available in this backup: ${unknownTables.join(', ')}`);
+      }
+      restoreTables = plan.tables.filter(table => selectedTables.includes(table.name));
+    }
+
+    let rowsByTable = new Map(restoreTables.map(table => [
+      table.name,
+      backupData[table.name].map(row => pickColumns(row, table.columns)),
+    ]));
+    if (selectedRecords) {
+      rowsByTable = selectRecords(restoreTables, rowsByTable, selectedRecords, warnings);
+      restoreTables = restoreTables.filter(table => (rowsByTable.get(table.name) || []).length > 0);
+    }
+
+    // Rows missing from the backup are only deleted when whole tables are replaced
+    const deletesRows = mode === 'replace' && !selectedRecords;
+
+    const changes: TableChanges[] = [];
+    const deleteIdsByTable = new Map<string, unknown[]>();
+    for (const table of restoreTables) {
+      const currentKeys = await fetchCurrentKeys(supabaseAdmin, table);
+      const backupKeys = new Set(rowsByTable.get(table.name)!.map(row => row[table.primary_key!]));
+      const updates = [...backupKeys].filter(key => currentKeys.has(key)).length;
+      const deleteIds = deletesRows && !PRESERVED_TABLES.includes(table.name)
+        ? [...currentKeys].filter(key => !backupKeys.has(key))
+        : [];
+
+      deleteIdsByTable.set(table.name, deleteIds);
+      changes.push({ name: table.name, inserts: backupKeys.size - updates, updates, deletes: deleteIds.length });
+    }
+
+    const scope = selectedRecords
+      ? { records: { table: selectedRecords.table, ids: selectedRecords.ids, include_related: selectedRecords.includeRelated !== false } }
+      : { tables: restoreTables.map(table => table.name) };
+
+    if (dryRun) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          dry_run: true,
+          mode,
+          changes,
+          warnings,
+          message: `Dry run: ${restoreTables.length} tables would be restored`,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
     // Log restore start
     await supabaseAdmin.rpc('log_security_event', {
       p_action: 'RESTORE_STARTED',
@@ -89,89 +415,70 @@ Deno.serve(async (req) => {
       p_resource_id: backupId,
       p_details: {
         backup_file: backup.file_name,
-        tables_count: manifest.tables.length,
-        records_count: manifest.total_records,
+        schema_version: manifest.schema_version ?? null,
+        current_schema_version: schema.schema_version ?? null,
+        mode,
+        scope,
+        tables_count: restoreTables.length,
+        records_count: changes.reduce((sum, table) => sum + table.inserts + table.updates, 0),
       }
     });
 
-    // Tables to restore in order (respecting foreign key constraints)
-    const restoreOrder = [
-      'profiles',
-      'user_roles',
-      'user_preferences',
-      'dashboard_preferences',
-      'accounts',
-      'contacts',
-      'leads',
-      'deals',
-      'deal_action_items',
-      'lead_action_items',
-      'notifications',
-      'saved_filters',
-      'yearly_revenue_targets',
-      'page_permissions',
-    ];
-
-    // Optional: include audit logs if they were in the backup
-    if (manifest.include_audit_logs && backupData['security_audit_log']) {
-      restoreOrder.push('security_audit_log');
-    }
-
     const errors: string[] = [];
     const restoredTables: string[] = [];
 
-    // Restore each table
-    for (const tableName of restoreOrder) {
-      if (!backupData[tableName]) {
-        console.log(`Skipping ${tableName} - not in backup`);
-        continue;
+    // Delete children before parents so foreign keys never block the delete
+    const deleteBatchSize = 100;
+    for (const table of [...restoreTables].reverse()) {
+      const deleteIds = deleteIdsByTable.get(table.name)!;
+      for (let i = 0; i < deleteIds.length; i += deleteBatchSize) {
+        const { error: deleteError } = await supabaseAdmin
+          .from(table.name)
+          .delete()
+          .in(table.primary_key!, deleteIds.slice(i, i + deleteBatchSize));
+
+        if (deleteError) {
+          console.warn(`Warning deleting ${table.name}:`, deleteError.message);
+          errors.push(`${table.name}: ${deleteError.message}`);
+          break;
+        }
       }
+    }
 
+    // Restore parents before children; existing rows are updated in place
+    for (const table of restoreTables) {
       try {
-        const records = backupData[tableName];
-        
+        const records = sortSelfReferencingRows(rowsByTable.get(table.name)!, table);
+
         if (records.length === 0) {
-          console.log(`Skipping ${tableName} - no records`);
-          restoredTables.push(tableName);
+          console.log(`Skipping ${table.name} - no records`);
+          restoredTables.push(table.name);
           continue;
         }
 
-        // Delete existing data first (for non-critical tables)
-        // Skip deletion for profiles and user_roles to preserve current users
-        if (!['profiles', 'user_roles'].includes(tableName)) {
-          const { error: deleteError } = await supabaseAdmin
-            .from(tableName)
-            .delete()
-            .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all
-
-          if (deleteError) {
-            console.warn(`Warning deleting ${tableName}:`, deleteError.message);
-          }
-        }
-
         // Insert backup data in batches
         const batchSize = 100;
         for (let i = 0; i < records.length; i += batchSize) {
           const batch = records.slice(i, i + batchSize);
           
           const { error: insertError } = await supabaseAdmin
-            .from(tableName)
+            .from(table.name)
             .upsert(batch, { 
-              onConflict: 'id',
+              onConflict: table.primary_key!,
               ignoreDuplicates: false 
             });
 
           if (insertError) {
-            console.warn(`Warning inserting ${tableName}:`, insertError.message);
-            errors.push(`${tableName}: ${insertError.message}`);
+            console.warn(`Warning inserting ${table.name}:`, insertError.message);
+            errors.push(`${table.name}: ${insertError.message}`);
           }
         }
 
-        restoredTables.push(tableName);
-        console.log(`Restored ${tableName}: ${records.length} records`);
-      } catch (err: any) {
-        console.error(`Error restoring ${tableName}:`, err);
-        errors.push(`${tableName}: ${err.message}`);
+        restoredTables.push(table.name);
+        console.log(`Restored ${table.name}: ${records.length} records`);
+      } catch (err: unknown) {
+        console.error(`Error restoring ${table.name}:`, err);
+        errors.push(`${table.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
       }
     }
 
@@ -182,8 +489,11 @@ Deno.serve(async (req) => {
       p_resource_id: backupId,
       p_details: {
         backup_file: backup.file_name,
+        mode,
         restored_tables: restoredTables,
+        changes,
         errors: errors,
+        warnings: warnings,
         success: errors.length === 0,
       }
     });
@@ -193,8 +503,11 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         success: errors.length === 0,
+        mode,
         restored_tables: restoredTables,
+        changes,
         errors: errors,
+        warnings: warnings,
         message: errors.length === 0 
           ? 'Restore completed successfully' 
           : `Restore completed with ${errors.length} errors`
@@ -18,6 +18,127 @@ interface EmailRequest {
   toName?: string;
   from: string;
   attachments?: EmailAttachment[];
+  isHtml?: boolean;
+  // email_history id; HTML bodies get an open pixel and links routed through track-email-click
+  trackingId?: string;
+}
+
+const CRLF = "\r\n";
+
+// Overridable so the functions can run against the mock Graph server in supabase/functions/_mock-graph
+const GRAPH_API_URL = Deno.env.get("MICROSOFT_GRAPH_URL") || "https://graph.microsoft.com/v1.0";
+const AZURE_LOGIN_URL = Deno.env.get("AZURE_LOGIN_URL") || "https://login.microsoftonline.com";
+
+// Lets sync-email-replies find the Sent Items copy of a tracked email and read its conversation id
+const trackedMessageId = (trackingId: string, from: string) =>
+  `<crm-${trackingId}@${from.split("@")[1] || "crm.local"}>`;
+
+const TRACKABLE_LINK = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi;
+
+function rewriteTrackedLinks(html: string, trackingId: string): string {
+  const clickUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/track-email-click`;
+  return html.replace(TRACKABLE_LINK, (match, prefix: string, quote: string, href: string) => {
+    if (href.startsWith(clickUrl)) return match;
+    const target = encodeURIComponent(href.replace(/&amp;/g, "&"));
+    return `${prefix}${quote}${clickUrl}?id=${encodeURIComponent(trackingId)}&amp;url=${target}${quote}`;
+  });
+}
+
+// Invisible image loaded from track-email-open when the recipient views the email
+function addOpenPixel(html: string, trackingId: string): string {
+  const pixelUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/track-email-open?id=${encodeURIComponent(trackingId)}`;
+  const pixel = `<img src="${pixelUrl}" width="1" height="1" alt="" style="display:none;width:1px;height:1px;border:0;" />`;
+  return /<\/body>/i.test(html) ? html.replace(/<\/body>/i, `${pixel}</body>`) : `${html}${pixel}`;
+}
+
+// Plain-text alternative for mail clients that do not render HTML
+function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<a\b[^>]*?\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, text: string) => {
+      const label = text.replace(/<[^>]+>/g, "").trim();
+      return !label || label === href || href.startsWith("mailto:") ? label || href : `${label} (${href})`;
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<\/(p|div|li|h[1-6]|blockquote|tr)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const utf8ToBase64 = (text: string) => {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+const wrapBase64 = (base64: string) => base64.match(/.{1,76}/g)?.join(CRLF) || "";
+
+// RFC 2047 encoding for header values that are not plain ASCII
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${utf8ToBase64(value)}?=`;
+
+const formatAddress = (address: string, name?: string) => {
+  if (!name) return address;
+  const encoded = encodeHeader(name);
+  return encoded === name ? `"${name.replace(/["\\]/g, "")}" <${address}>` : `${encoded} <${address}>`;
+};
+
+// HTML and plain-text versions as multipart/alternative, wrapped in multipart/mixed when there are attachments
+function buildMimeMessage(emailRequest: EmailRequest, html: string, text: string): string {
+  const alternativeBoundary = `alt_${crypto.randomUUID()}`;
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"`,
+    "",
+    `--${alternativeBoundary}`,
+    'Content-Type: text/plain; charset="UTF-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(utf8ToBase64(text)),
+    `--${alternativeBoundary}`,
+    'Content-Type: text/html; charset="UTF-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(utf8ToBase64(html)),
+    `--${alternativeBoundary}--`,
+  ].join(CRLF);
+
+  let content = alternative;
+  if (emailRequest.attachments?.length) {
+    const mixedBoundary = `mixed_${crypto.randomUUID()}`;
+    content = [
+      `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+      "",
+      `--${mixedBoundary}`,
+      alternative,
+      ...emailRequest.attachments.map(att => [
+        `--${mixedBoundary}`,
+        `Content-Type: ${att.contentType}; name="${encodeHeader(att.name)}"`,
+        `Content-Disposition: attachment; filename="${encodeHeader(att.name)}"`,
+        "Content-Transfer-Encoding: base64",
+        "",
+        wrapBase64(att.contentBytes),
+      ].join(CRLF)),
+      `--${mixedBoundary}--`,
+    ].join(CRLF);
+  }
+
+  return [
+    `From: ${emailRequest.from}`,
+    `To: ${formatAddress(emailRequest.to, emailRequest.toName)}`,
+    `Subject: ${encodeHeader(emailRequest.subject)}`,
+    ...(emailRequest.trackingId ? [`Message-ID: ${trackedMessageId(emailRequest.trackingId, emailRequest.from)}`] : []),
+    "MIME-Version: 1.0",
+    content,
+  ].join(CRLF);
 }
 
 async function getAccessToken(): Promise<string> {
@@ -30,7 +151,7 @@ async function getAccessToken(): Promise<string> {
     throw new Error("Azure email credentials not configured. Please set AZURE_EMAIL_TENANT_ID, AZURE_EMAIL_CLIENT_ID, and AZURE_EMAIL_CLIENT_SECRET.");
   }
 
-  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+  const tokenUrl = `${AZURE_LOGIN_URL}/${tenantId}/oauth2/v2.0/token`;
 
   const params = new URLSearchParams();
   params.append("client_id", clientId);
@@ -59,8 +180,40 @@ async function getAccessToken(): Promise<string> {
   return data.access_token as string;
 }
 
+// Graph accepts a base64 MIME message on sendMail, which is the only way to send both body versions
+async function sendHtmlEmail(accessToken: string, emailRequest: EmailRequest): Promise<void> {
+  const graphUrl = `${GRAPH_API_URL}/users/${emailRequest.from}/sendMail`;
+  const html = emailRequest.trackingId
+    ? addOpenPixel(rewriteTrackedLinks(emailRequest.body, emailRequest.trackingId), emailRequest.trackingId)
+    : emailRequest.body;
+  const mime = buildMimeMessage(emailRequest, html, htmlToPlainText(emailRequest.body));
+
+  console.log(`Sending HTML email to ${emailRequest.to}${emailRequest.trackingId ? " with open and click tracking" : ""}...`);
+
+  const response = await fetch(graphUrl, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "text/plain",
+    },
+    body: utf8ToBase64(mime),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Failed to send email:", errorText);
+    throw new Error(`Failed to send email: ${response.status} ${errorText}`);
+  }
+
+  console.log("Email sent successfully");
+}
+
 async function sendEmail(accessToken: string, emailRequest: EmailRequest): Promise<void> {
-  const graphUrl = `https://graph.microsoft.com/v1.0/users/${emailRequest.from}/sendMail`;
+  if (emailRequest.isHtml) {
+    return sendHtmlEmail(accessToken, emailRequest);
+  }
+
+  const graphUrl = `${GRAPH_API_URL}/users/${emailRequest.from}/sendMail`;
 
   // Build attachments array for Microsoft Graph API
   const attachments = emailRequest.attachments?.map(att => ({
@@ -122,7 +275,7 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { to, subject, body, toName, from, attachments }: EmailRequest = await req.json();
+    const { to, subject, body, toName, from, attachments, isHtml, trackingId }: EmailRequest = await req.json();
 
     if (!to || !subject || !from) {
       return new Response(
@@ -140,7 +293,7 @@ const handler = async (req: Request): Promise<Response> => {
     const accessToken = await getAccessToken();
 
     // Send email via Microsoft Graph API
-    await sendEmail(accessToken, { to, subject, body, toName, from, attachments });
+    await sendEmail(accessToken, { to, subject, body, toName, from, attachments, isHtml, trackingId });
 
     return new Response(
       JSON.stringify({ success: true, message: "Email sent successfully" }),
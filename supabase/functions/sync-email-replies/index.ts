@@ -0,0 +1,397 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface GraphAddress {
+  emailAddress: { address: string; name?: string };
+}
+
+interface GraphMessage {
+  id: string;
+  conversationId: string | null;
+  internetMessageId: string | null;
+  subject: string | null;
+  bodyPreview: string | null;
+  body?: { contentType: string; content: string };
+  from?: GraphAddress;
+  toRecipients?: GraphAddress[];
+  receivedDateTime: string;
+  sentDateTime: string;
+  internetMessageHeaders?: { name: string; value: string }[];
+}
+
+interface SyncMailbox {
+  id: string;
+  mailbox: string;
+  inbox_cursor: string | null;
+  sent_cursor: string | null;
+}
+
+interface OutboundEmail {
+  id: string;
+  contact_id: string | null;
+  lead_id: string | null;
+  account_id: string | null;
+  sent_by: string | null;
+}
+
+// Overridable so the function can run against the mock Graph server in supabase/functions/_mock-graph
+const GRAPH_API_URL = Deno.env.get('MICROSOFT_GRAPH_URL') || 'https://graph.microsoft.com/v1.0';
+const AZURE_LOGIN_URL = Deno.env.get('AZURE_LOGIN_URL') || 'https://login.microsoftonline.com';
+
+// Message-ID that send-email gives tracked emails; the id is the email_history row
+const TRACKED_MESSAGE_ID = /^<crm-([0-9a-f-]{36})@/i;
+
+const PAGE_SIZE = 50;
+
+// Later pages are picked up by the next run, since the cursor only moves past what was read
+const MAX_PAGES_PER_FOLDER = 10;
+
+// A mailbox added to the sync starts with the last week of mail
+const INITIAL_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Emails sent without a tracked Message-ID are matched to their Sent Items copy by recipient, subject and time
+const SENT_MATCH_WINDOW_MS = 10 * 60 * 1000;
+
+const INTEGRATION_NAME = 'Email Reply Sync';
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+async function getAccessToken(): Promise<string> {
+  // Same app registration as send-email, which needs Mail.Read in addition to Mail.Send
+  const tenantId = Deno.env.get('AZURE_EMAIL_TENANT_ID');
+  const clientId = Deno.env.get('AZURE_EMAIL_CLIENT_ID');
+  const clientSecret = Deno.env.get('AZURE_EMAIL_CLIENT_SECRET');
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error('Azure email credentials not configured. Please set AZURE_EMAIL_TENANT_ID, AZURE_EMAIL_CLIENT_ID, and AZURE_EMAIL_CLIENT_SECRET.');
+  }
+
+  const params = new URLSearchParams();
+  params.append('client_id', clientId);
+  params.append('client_secret', clientSecret);
+  params.append('scope', 'https://graph.microsoft.com/.default');
+  params.append('grant_type', 'client_credentials');
+
+  const response = await fetch(`${AZURE_LOGIN_URL}/${tenantId}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to get access token: ${response.status} ${errorText}`);
+  }
+
+  const data = await response.json();
+  return data.access_token as string;
+}
+
+// Messages of a folder from the cursor onwards, oldest first
+async function listMessages(
+  accessToken: string,
+  mailbox: string,
+  folder: 'inbox' | 'sentitems',
+  since: string
+): Promise<GraphMessage[]> {
+  const dateField = folder === 'inbox' ? 'receivedDateTime' : 'sentDateTime';
+  const select = folder === 'inbox'
+    ? 'id,conversationId,internetMessageId,subject,bodyPreview,body,from,receivedDateTime,sentDateTime,internetMessageHeaders'
+    : 'id,conversationId,internetMessageId,subject,toRecipients,receivedDateTime,sentDateTime';
+  const params = new URLSearchParams({
+    '$filter': `${dateField} ge ${since}`,
+    '$orderby': `${dateField} asc`,
+    '$top': String(PAGE_SIZE),
+    '$select': select,
+  });
+
+  const messages: GraphMessage[] = [];
+  let url: string | null = `${GRAPH_API_URL}/users/${encodeURIComponent(mailbox)}/mailFolders/${folder}/messages?${params}`;
+
+  for (let page = 0; url && page < MAX_PAGES_PER_FOLDER; page++) {
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Prefer: 'outlook.body-content-type="html"',
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to list ${folder} of ${mailbox}: ${response.status} ${errorText}`);
+    }
+
+    const data = await response.json();
+    messages.push(...(data.value || []));
+    url = data['@odata.nextLink'] || null;
+  }
+
+  return messages;
+}
+
+// Out-of-office and other automatic answers are kept in the thread but do not count as replies
+const isAutoReply = (message: GraphMessage) => {
+  const autoSubmitted = message.internetMessageHeaders?.find(h => h.name.toLowerCase() === 'auto-submitted');
+  if (autoSubmitted && autoSubmitted.value.toLowerCase() !== 'no') return true;
+  return /^(automatic reply|auto-reply|out of office)\s*:/i.test(message.subject || '');
+};
+
+// Stores the Graph conversation id on tracked emails so replies can be threaded to them
+async function syncSentItems(supabase: SupabaseClient, accessToken: string, mailbox: SyncMailbox, since: string) {
+  const messages = await listMessages(accessToken, mailbox.mailbox, 'sentitems', since);
+  let linked = 0;
+
+  for (const message of messages) {
+    if (!message.conversationId) continue;
+
+    const trackingId = message.internetMessageId?.match(TRACKED_MESSAGE_ID)?.[1];
+    let emailId = trackingId || null;
+
+    if (!emailId) {
+      const recipient = message.toRecipients?.[0]?.emailAddress.address;
+      if (!recipient) continue;
+      const sentAt = new Date(message.sentDateTime).getTime();
+      const { data } = await supabase
+        .from('email_history')
+        .select('id')
+        .ilike('sender_email', escapeLike(mailbox.mailbox))
+        .ilike('recipient_email', escapeLike(recipient))
+        .eq('subject', message.subject || '')
+        .is('conversation_id', null)
+        .gte('sent_at', new Date(sentAt - SENT_MATCH_WINDOW_MS).toISOString())
+        .lte('sent_at', new Date(sentAt + SENT_MATCH_WINDOW_MS).toISOString())
+        .order('sent_at', { ascending: false })
+        .limit(1);
+      emailId = data?.[0]?.id || null;
+    }
+
+    if (!emailId) continue;
+
+    const { data: updated } = await supabase
+      .from('email_history')
+      .update({ conversation_id: message.conversationId })
+      .eq('id', emailId)
+      .is('conversation_id', null)
+      .select('id');
+    linked += (updated || []).length;
+  }
+
+  const cursor = messages.length > 0 ? messages[messages.length - 1].sentDateTime : since;
+  return { linked, cursor };
+}
+
+// The outbound email a reply answers: the latest one in its conversation sent before it arrived
+async function findOutboundEmail(supabase: SupabaseClient, message: GraphMessage): Promise<OutboundEmail | null> {
+  if (!message.conversationId) return null;
+  const { data } = await supabase
+    .from('email_history')
+    .select('id, contact_id, lead_id, account_id, sent_by')
+    .eq('conversation_id', message.conversationId)
+    .lte('sent_at', message.receivedDateTime)
+    .order('sent_at', { ascending: false })
+    .limit(1);
+  return data?.[0] || null;
+}
+
+// Messages outside a tracked conversation are kept only when the sender is a known contact or lead
+async function matchSender(supabase: SupabaseClient, fromEmail: string) {
+  const { data: contacts } = await supabase
+    .from('contacts')
+    .select('id, account_id')
+    .ilike('email', escapeLike(fromEmail))
+    .limit(1);
+  if (contacts?.[0]) {
+    return { contact_id: contacts[0].id, lead_id: null, account_id: contacts[0].account_id };
+  }
+
+  const { data: leads } = await supabase
+    .from('leads')
+    .select('id, account_id')
+    .ilike('email', escapeLike(fromEmail))
+    .limit(1);
+  if (leads?.[0]) {
+    return { contact_id: null, lead_id: leads[0].id, account_id: leads[0].account_id };
+  }
+
+  return null;
+}
+
+async function syncInbox(supabase: SupabaseClient, accessToken: string, mailbox: SyncMailbox, since: string) {
+  const messages = await listMessages(accessToken, mailbox.mailbox, 'inbox', since);
+  const results = { received: 0, replied: 0, unmatched: 0 };
+
+  for (const message of messages) {
+    const fromEmail = message.from?.emailAddress.address?.toLowerCase();
+    if (!fromEmail || fromEmail === mailbox.mailbox.toLowerCase()) continue;
+
+    const outbound = await findOutboundEmail(supabase, message);
+    const entity = outbound
+      ? { contact_id: outbound.contact_id, lead_id: outbound.lead_id, account_id: outbound.account_id }
+      : await matchSender(supabase, fromEmail);
+
+    if (!entity) {
+      results.unmatched++;
+      continue;
+    }
+
+    const autoReply = isAutoReply(message);
+
+    // The unique Graph id makes re-reading a message after a cursor overlap a no-op
+    const { data: inserted, error: insertError } = await supabase
+      .from('email_replies')
+      .upsert({
+        email_history_id: outbound?.id || null,
+        graph_message_id: message.id,
+        internet_message_id: message.internetMessageId,
+        conversation_id: message.conversationId,
+        mailbox: mailbox.mailbox,
+        from_email: fromEmail,
+        from_name: message.from?.emailAddress.name || null,
+        subject: message.subject,
+        body: message.body?.content || null,
+        is_html: message.body?.contentType?.toLowerCase() !== 'text',
+        body_preview: message.bodyPreview,
+        is_auto_reply: autoReply,
+        received_at: message.receivedDateTime,
+        ...entity,
+      }, { onConflict: 'graph_message_id', ignoreDuplicates: true })
+      .select('id');
+
+    if (insertError) throw insertError;
+    if ((inserted || []).length === 0) continue;
+
+    results.received++;
+    if (autoReply) continue;
+
+    if (outbound) {
+      // Changing the status also stops sequence enrollments that end on reply
+      await supabase
+        .from('email_history')
+        .update({ status: 'replied', replied_at: message.receivedDateTime })
+        .eq('id', outbound.id)
+        .is('replied_at', null);
+      results.replied++;
+    }
+
+    const activity = {
+      activity_type: 'email',
+      subject: `Email reply: ${message.subject || '(no subject)'}`,
+      description: message.bodyPreview,
+      activity_date: message.receivedDateTime,
+      outcome: 'replied',
+      created_by: outbound?.sent_by || null,
+    };
+
+    if (entity.contact_id) {
+      await supabase.from('contact_activities').insert({ ...activity, contact_id: entity.contact_id });
+    }
+    if (entity.account_id) {
+      await supabase.from('account_activities').insert({ ...activity, account_id: entity.account_id });
+    }
+  }
+
+  const cursor = messages.length > 0 ? messages[messages.length - 1].receivedDateTime : since;
+  return { ...results, cursor };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Only the scheduled job may read the mailboxes
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: integration } = await supabase
+      .from('integration_settings')
+      .select('id, is_enabled')
+      .eq('integration_name', INTEGRATION_NAME)
+      .maybeSingle();
+
+    if (!integration?.is_enabled) {
+      return new Response(
+        JSON.stringify({ success: true, skipped: 'Email reply sync is disabled' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: mailboxes, error: mailboxesError } = await supabase
+      .from('email_sync_mailboxes')
+      .select('id, mailbox, inbox_cursor, sent_cursor')
+      .eq('is_enabled', true);
+
+    if (mailboxesError) throw mailboxesError;
+
+    const accessToken = await getAccessToken();
+    const initialCursor = new Date(Date.now() - INITIAL_LOOKBACK_MS).toISOString();
+    const totals = { mailboxes: 0, linked: 0, received: 0, replied: 0, unmatched: 0, failed: 0 };
+
+    for (const mailbox of (mailboxes || []) as SyncMailbox[]) {
+      try {
+        // Sent Items first, so replies to emails sent since the last run can already be threaded
+        const sent = await syncSentItems(supabase, accessToken, mailbox, mailbox.sent_cursor || initialCursor);
+        const inbox = await syncInbox(supabase, accessToken, mailbox, mailbox.inbox_cursor || initialCursor);
+
+        await supabase
+          .from('email_sync_mailboxes')
+          .update({
+            sent_cursor: sent.cursor,
+            inbox_cursor: inbox.cursor,
+            last_synced_at: new Date().toISOString(),
+            last_error: null,
+          })
+          .eq('id', mailbox.id);
+
+        totals.mailboxes++;
+        totals.linked += sent.linked;
+        totals.received += inbox.received;
+        totals.replied += inbox.replied;
+        totals.unmatched += inbox.unmatched;
+      } catch (err) {
+        console.error(`Failed to sync mailbox ${mailbox.mailbox}:`, err);
+        totals.failed++;
+        await supabase
+          .from('email_sync_mailboxes')
+          .update({ last_error: err instanceof Error ? err.message : String(err) })
+          .eq('id', mailbox.id);
+      }
+    }
+
+    await supabase
+      .from('integration_settings')
+      .update({
+        last_sync_at: new Date().toISOString(),
+        sync_status: totals.failed > 0 ? 'error' : 'active',
+      })
+      .eq('id', integration.id);
+
+    console.log('Email reply sync finished:', totals);
+
+    return new Response(
+      JSON.stringify({ success: true, ...totals }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    console.error('Email reply sync error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: message === 'Unauthorized' ? 401 : 500
+      }
+    );
+  }
+});
@@ -6,6 +6,17 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Only web links are followed, so the endpoint cannot be used to open other URL schemes
+const isWebUrl = (value: string | null): value is string => {
+  if (!value) return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -15,7 +26,8 @@ serve(async (req) => {
   try {
     const url = new URL(req.url);
     const emailId = url.searchParams.get('id');
-    const redirectUrl = url.searchParams.get('url');
+    const requestedUrl = url.searchParams.get('url');
+    const redirectUrl = isWebUrl(requestedUrl) ? requestedUrl : null;
 
     if (!emailId) {
       return new Response(
@@ -57,7 +69,8 @@ serve(async (req) => {
       .update({
         click_count: currentClickCount + 1,
         clicked_at: isFirstClick ? new Date().toISOString() : undefined,
-        status: 'clicked',
+        // A reply is the stronger signal, so it is kept
+        status: emailRecord.status === 'replied' ? 'replied' : 'clicked',
       })
       .eq('id', emailId);
 
@@ -0,0 +1,112 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+// 1x1 transparent GIF
+const PIXEL = Uint8Array.from(atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'), c => c.charCodeAt(0));
+
+const pixelHeaders = {
+  'Content-Type': 'image/gif',
+  'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+  'Pragma': 'no-cache',
+  'Expires': '0',
+};
+
+// Mail security gateways and link scanners fetch images without anyone reading the email
+const PREFETCH_USER_AGENTS = [
+  /bot|crawler|spider|prefetch|preview/i,
+  /barracuda|mimecast|proofpoint|messagelabs|symantec|forcepoint|ironport|trend ?micro|sophos|fireeye|zscaler/i,
+];
+
+// Apple Mail Privacy Protection preloads every image from Apple's 17.0.0.0/8 network with a bare user agent
+const isApplePrivacyProxy = (userAgent: string, ip: string) =>
+  userAgent.trim() === 'Mozilla/5.0' || ip.startsWith('17.');
+
+// Scanners usually fetch the pixel within seconds of delivery
+const MIN_SECONDS_AFTER_SEND = 5;
+
+const getClientIp = (req: Request) =>
+  (req.headers.get('x-forwarded-for') || '').split(',')[0].trim();
+
+function isPrefetch(req: Request, sentAt: string): boolean {
+  const userAgent = req.headers.get('user-agent') || '';
+  if (!userAgent || PREFETCH_USER_AGENTS.some(pattern => pattern.test(userAgent))) return true;
+  if (isApplePrivacyProxy(userAgent, getClientIp(req))) return true;
+  return Date.now() - new Date(sentAt).getTime() < MIN_SECONDS_AFTER_SEND * 1000;
+}
+
+const pixelResponse = () => new Response(PIXEL, { status: 200, headers: pixelHeaders });
+
+Deno.serve(async (req) => {
+  // The pixel is always served, even when tracking fails, so the email never shows a broken image
+  try {
+    const emailId = new URL(req.url).searchParams.get('id');
+    if (!emailId) return pixelResponse();
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: emailRecord, error: fetchError } = await supabase
+      .from('email_history')
+      .select('open_count, status, sent_at, contact_id')
+      .eq('id', emailId)
+      .single();
+
+    if (fetchError || !emailRecord) {
+      console.error('Error fetching email record:', fetchError);
+      return pixelResponse();
+    }
+
+    if (isPrefetch(req, emailRecord.sent_at)) {
+      console.log(`Ignored prefetch of open pixel for email ${emailId}: ${req.headers.get('user-agent') || 'no user agent'}`);
+      return pixelResponse();
+    }
+
+    const now = new Date().toISOString();
+
+    // Only one request can set opened_at, so the first open is rolled up exactly once
+    const { data: firstOpen } = await supabase
+      .from('email_history')
+      .update({ opened_at: now })
+      .eq('id', emailId)
+      .is('opened_at', null)
+      .select('id');
+    const isFirstOpen = (firstOpen || []).length > 0;
+
+    const { error: updateError } = await supabase
+      .from('email_history')
+      .update({
+        open_count: (emailRecord.open_count || 0) + 1,
+        // A click or reply already implies an open, so it is not downgraded
+        status: ['clicked', 'replied'].includes(emailRecord.status) ? emailRecord.status : 'opened',
+      })
+      .eq('id', emailId);
+
+    if (updateError) {
+      console.error('Error updating email open:', updateError);
+    }
+
+    if (isFirstOpen && emailRecord.contact_id) {
+      const { data: contact } = await supabase
+        .from('contacts')
+        .select('email_opens, engagement_score')
+        .eq('id', emailRecord.contact_id)
+        .single();
+
+      if (contact) {
+        await supabase
+          .from('contacts')
+          .update({
+            email_opens: (contact.email_opens || 0) + 1,
+            engagement_score: Math.min((contact.engagement_score || 0) + 5, 100),
+          })
+          .eq('id', emailRecord.contact_id);
+      }
+    }
+
+    console.log(`Open tracked for email ${emailId}, total opens: ${(emailRecord.open_count || 0) + 1}`);
+  } catch (error: unknown) {
+    console.error('Error tracking open:', error);
+  }
+
+  return pixelResponse();
+});
@@ -364,6 +364,32 @@ serve(async (req) => {
         }
       }
 
+      // Hand the deactivated user's open leads to the lead assignment rules
+      let reassignedLeads = 0;
+      if (action === 'deactivate') {
+        const { data: ownedLeads, error: leadsError } = await supabaseAdmin
+          .from('leads')
+          .select('id')
+          .eq('contact_owner', userId)
+          .or('lead_status.is.null,lead_status.neq.Disqualified');
+
+        if (leadsError) {
+          console.warn('Could not load leads to reassign:', leadsError);
+        } else if (ownedLeads && ownedLeads.length > 0) {
+          const { data: assigned, error: assignError } = await supabaseAdmin.rpc('assign_lead_owners', {
+            p_lead_ids: ownedLeads.map((lead: { id: string }) => lead.id),
+            p_exclude_user_id: userId,
+          });
+
+          if (assignError) {
+            console.warn('Lead reassignment failed:', assignError);
+          } else {
+            reassignedLeads = assigned || 0;
+            console.log(`Reassigned ${reassignedLeads} of ${ownedLeads.length} leads from user:`, userId);
+          }
+        }
+      }
+
       // Update profile if display name changed
       if (displayName !== undefined) {
         try {
@@ -386,7 +412,8 @@ serve(async (req) => {
       return new Response(
         JSON.stringify({ 
           success: true,
-          message: 'User updated successfully'
+          message: 'User updated successfully',
+          reassignedLeads
         }),
         { 
           status: 200, 
@@ -0,0 +1,396 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface DigestRequest {
+  // Return the current user's digest without sending it
+  preview?: boolean;
+  // Send even if a digest already went out this week
+  force?: boolean;
+}
+
+interface DigestRecipient {
+  userId: string;
+  email: string;
+  name: string;
+}
+
+interface DigestDeal {
+  deal_name: string;
+  stage: string;
+  total_contract_value: number | null;
+  currency_type: string | null;
+  created_at: string | null;
+  // Stage the deal was in at the start of the week, when it has since moved
+  previous_stage?: string | null;
+}
+
+// A row of get_owner_stage_changes: the change and the deal as it is now
+interface StageChange extends Omit<DigestDeal, 'previous_stage'> {
+  deal_id: string;
+  from_stage: string | null;
+  to_stage: string;
+  changed_at: string;
+}
+
+interface DigestData {
+  periodStart: Date;
+  periodEnd: Date;
+  newDeals: DigestDeal[];
+  movedDeals: DigestDeal[];
+  wonDeals: DigestDeal[];
+  lostDeals: DigestDeal[];
+  overdueTasks: { title: string; due_date: string; priority: string }[];
+  upcomingMeetings: { subject: string; start_time: string }[];
+  emails: { sent: number; opened: number; clicked: number };
+}
+
+interface DigestMessage {
+  to: string;
+  toName: string;
+  subject: string;
+  html: string;
+}
+
+// Set DIGEST_EMAIL_TRANSPORT=mock when running locally to log digests instead of sending them
+interface DigestTransport {
+  name: string;
+  send: (message: DigestMessage) => Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Skips users who already received a digest in the last 6 days, so a retried run does not double-send
+const RESEND_INTERVAL_MS = 6 * DAY_MS;
+
+const createGraphTransport = (supabaseUrl: string, serviceKey: string, from: string): DigestTransport => ({
+  name: 'graph',
+  send: async (message) => {
+    const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${serviceKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        to: message.to,
+        toName: message.toName,
+        subject: message.subject,
+        body: message.html,
+        from,
+        isHtml: true,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`send-email failed: ${response.status} ${errorText}`);
+    }
+  },
+});
+
+const createMockTransport = (outbox: DigestMessage[]): DigestTransport => ({
+  name: 'mock',
+  send: async (message) => {
+    console.log(`[mock transport] Digest for ${message.to}: "${message.subject}" (${message.html.length} bytes)`);
+    outbox.push(message);
+  },
+});
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', { weekday: 'short', day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const formatAmount = (deal: DigestDeal) =>
+  deal.total_contract_value ? `${deal.currency_type || ''} ${deal.total_contract_value.toLocaleString('en-US')}`.trim() : '';
+
+async function compileDigest(supabase: SupabaseClient, userId: string, now: Date): Promise<DigestData> {
+  const periodStart = new Date(now.getTime() - 7 * DAY_MS);
+  const nextWeek = new Date(now.getTime() + 7 * DAY_MS);
+  const today = now.toISOString().slice(0, 10);
+
+  const [stagesRes, historyRes, tasksRes, meetingsRes, emailsRes] = await Promise.all([
+    supabase.from('pipeline_stages').select('stage_name, is_won_stage, is_lost_stage'),
+    supabase.rpc('get_owner_stage_changes', { p_owner_id: userId, p_since: periodStart.toISOString() }),
+    supabase
+      .from('tasks')
+      .select('title, due_date, priority')
+      .eq('assigned_to', userId)
+      .in('status', ['open', 'in_progress'])
+      .lt('due_date', today)
+      .order('due_date'),
+    supabase
+      .from('meetings')
+      .select('subject, start_time')
+      .eq('created_by', userId)
+      .neq('status', 'cancelled')
+      .gte('start_time', now.toISOString())
+      .lte('start_time', nextWeek.toISOString())
+      .order('start_time'),
+    supabase
+      .from('email_history')
+      .select('open_count, click_count')
+      .eq('sent_by', userId)
+      .gte('sent_at', periodStart.toISOString()),
+  ]);
+
+  for (const res of [stagesRes, historyRes, tasksRes, meetingsRes, emailsRes]) {
+    if (res.error) throw new Error(res.error.message);
+  }
+
+  const stages = stagesRes.data || [];
+  const wonStages = new Set(stages.filter(s => s.is_won_stage).map(s => s.stage_name));
+  const lostStages = new Set(stages.filter(s => s.is_lost_stage).map(s => s.stage_name));
+  if (wonStages.size === 0) wonStages.add('Won');
+  if (lostStages.size === 0) lostStages.add('Lost');
+
+  // Net stage change per deal over the week: where it started and where its last change left it
+  const changesByDeal = new Map<string, { first: StageChange; last: StageChange }>();
+  for (const change of (historyRes.data || []) as StageChange[]) {
+    const entry = changesByDeal.get(change.deal_id);
+    if (entry) entry.last = change;
+    else changesByDeal.set(change.deal_id, { first: change, last: change });
+  }
+
+  const newDeals: DigestDeal[] = [];
+  const wonDeals: DigestDeal[] = [];
+  const lostDeals: DigestDeal[] = [];
+  const movedDeals: DigestDeal[] = [];
+  for (const { first, last } of changesByDeal.values()) {
+    const deal: DigestDeal = {
+      deal_name: last.deal_name,
+      stage: last.to_stage,
+      total_contract_value: last.total_contract_value,
+      currency_type: last.currency_type,
+      created_at: last.created_at,
+      previous_stage: first.from_stage,
+    };
+    // A NULL from_stage is the row logged when the deal was created
+    const isNew = first.from_stage === null;
+    if (isNew) newDeals.push({ ...deal, previous_stage: null });
+
+    if (wonStages.has(last.to_stage)) wonDeals.push(deal);
+    else if (lostStages.has(last.to_stage)) lostDeals.push(deal);
+    else if (!isNew && first.from_stage !== last.to_stage) movedDeals.push(deal);
+  }
+
+  const emails = emailsRes.data || [];
+
+  return {
+    periodStart,
+    periodEnd: now,
+    newDeals,
+    wonDeals,
+    lostDeals,
+    movedDeals,
+    overdueTasks: tasksRes.data || [],
+    upcomingMeetings: meetingsRes.data || [],
+    emails: {
+      sent: emails.length,
+      opened: emails.filter(e => (e.open_count || 0) > 0).length,
+      clicked: emails.filter(e => (e.click_count || 0) > 0).length,
+    },
+  };
+}
+
+const renderSection = (title: string, items: string[], emptyText: string) => `
+  <tr><td style="padding:16px 24px 0;">
+    <h2 style="margin:0 0 8px;font-size:15px;color:#111827;">${escapeHtml(title)}</h2>
+    ${items.length > 0
+      ? `<ul style="margin:0;padding-left:18px;color:#374151;font-size:14px;line-height:1.6;">${items.map(item => `<li>${item}</li>`).join('')}</ul>`
+      : `<p style="margin:0;color:#6b7280;font-size:14px;">${escapeHtml(emptyText)}</p>`}
+  </td></tr>`;
+
+const renderDealItem = (deal: DigestDeal) => {
+  const amount = formatAmount(deal);
+  const stage = deal.previous_stage ? `${deal.previous_stage} → ${deal.stage}` : deal.stage;
+  return `<strong>${escapeHtml(deal.deal_name)}</strong> &middot; ${escapeHtml(stage)}${amount ? ` &middot; ${escapeHtml(amount)}` : ''}`;
+};
+
+const renderStat = (label: string, value: number) => `
+  <td style="padding:12px;text-align:center;background:#f3f4f6;border-radius:6px;">
+    <div style="font-size:22px;font-weight:bold;color:#111827;">${value}</div>
+    <div style="font-size:12px;color:#6b7280;">${escapeHtml(label)}</div>
+  </td>`;
+
+function renderDigest(recipient: DigestRecipient, digest: DigestData): DigestMessage {
+  const period = `${formatDate(digest.periodStart)} – ${formatDate(digest.periodEnd)}`;
+  const { sent, opened, clicked } = digest.emails;
+  const openRate = sent > 0 ? Math.round((opened / sent) * 100) : 0;
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:0;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f9fafb;padding:24px 0;">
+    <tr><td align="center">
+      <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:8px;overflow:hidden;">
+        <tr><td style="padding:24px;background:#1e40af;color:#ffffff;">
+          <h1 style="margin:0;font-size:20px;">Your weekly digest</h1>
+          <p style="margin:4px 0 0;font-size:13px;opacity:0.85;">${escapeHtml(period)}</p>
+        </td></tr>
+        <tr><td style="padding:16px 24px 0;color:#374151;font-size:14px;">Hi ${escapeHtml(recipient.name)}, here is how your week went.</td></tr>
+        <tr><td style="padding:16px 24px 0;">
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="8"><tr>
+            ${renderStat('New deals', digest.newDeals.length)}
+            ${renderStat('Won', digest.wonDeals.length)}
+            ${renderStat('Lost', digest.lostDeals.length)}
+            ${renderStat('Overdue tasks', digest.overdueTasks.length)}
+          </tr></table>
+        </td></tr>
+        ${renderSection('Pipeline movement', [...digest.newDeals.map(d => `New: ${renderDealItem(d)}`), ...digest.movedDeals.map(renderDealItem)], 'No deals moved this week.')}
+        ${renderSection('Won deals', digest.wonDeals.map(renderDealItem), 'No deals won this week.')}
+        ${renderSection('Lost deals', digest.lostDeals.map(renderDealItem), 'No deals lost this week.')}
+        ${renderSection('Overdue tasks', digest.overdueTasks.map(t => `${escapeHtml(t.title)} &middot; due ${escapeHtml(formatDate(t.due_date))} &middot; ${escapeHtml(t.priority)} priority`), 'You have no overdue tasks.')}
+        ${renderSection('Upcoming meetings', digest.upcomingMeetings.map(m => `${escapeHtml(m.subject)} &middot; ${escapeHtml(formatDateTime(m.start_time))}`), 'No meetings in the next 7 days.')}
+        ${renderSection('Email engagement', sent > 0 ? [`${sent} sent`, `${opened} opened (${openRate}%)`, `${clicked} clicked`] : [], 'No emails sent this week.')}
+        <tr><td style="padding:24px;color:#9ca3af;font-size:12px;">You receive this email because the weekly digest is enabled in your notification settings.</td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+
+  return {
+    to: recipient.email,
+    toName: recipient.name,
+    subject: `Your weekly CRM digest (${period})`,
+    html,
+  };
+}
+
+async function getRecipient(supabase: SupabaseClient, userId: string, email?: string): Promise<DigestRecipient | null> {
+  let address = email;
+  if (!address) {
+    const { data } = await supabase.auth.admin.getUserById(userId);
+    address = data?.user?.email;
+  }
+  if (!address) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const name = profile?.full_name && !profile.full_name.includes('@') ? profile.full_name : address.split('@')[0];
+  return { userId, email: address, name };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('Missing authorization header');
+    }
+
+    const { preview = false, force = false }: DigestRequest = await req.json().catch(() => ({}));
+    const now = new Date();
+
+    // Signed-in users can preview their own digest; the weekly run authenticates with the service role key
+    const isScheduledRun = authHeader === `Bearer ${supabaseServiceKey}`;
+    if (!isScheduledRun) {
+      const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        global: { headers: { Authorization: authHeader } }
+      });
+      const { data: { user }, error: authError } = await supabaseUser.auth.getUser();
+      if (authError || !user) {
+        throw new Error('Unauthorized');
+      }
+      if (!preview) {
+        throw new Error('Only previews can be requested from the app');
+      }
+
+      const recipient = await getRecipient(supabaseAdmin, user.id, user.email);
+      if (!recipient) throw new Error('No email address found for this user');
+
+      const message = renderDigest(recipient, await compileDigest(supabaseAdmin, user.id, now));
+      return new Response(
+        JSON.stringify({ success: true, subject: message.subject, html: message.html }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const outbox: DigestMessage[] = [];
+    const transport = Deno.env.get('DIGEST_EMAIL_TRANSPORT') === 'mock'
+      ? createMockTransport(outbox)
+      : createGraphTransport(supabaseUrl, supabaseServiceKey, Deno.env.get('DIGEST_FROM_EMAIL') || 'noreply@acmecrm.com');
+
+    const { data: subscribers, error: prefsError } = await supabaseAdmin
+      .from('notification_preferences')
+      .select('user_id, email_notifications, last_digest_sent_at')
+      .eq('weekly_digest', true);
+
+    if (prefsError) throw new Error(prefsError.message);
+
+    console.log(`Weekly digest run via ${transport.name} transport for ${subscribers?.length || 0} subscriber(s)`);
+
+    const results = { sent: 0, skipped: 0, failed: 0 };
+    for (const subscriber of subscribers || []) {
+      const recentlySent = subscriber.last_digest_sent_at &&
+        now.getTime() - new Date(subscriber.last_digest_sent_at).getTime() < RESEND_INTERVAL_MS;
+      if (subscriber.email_notifications === false || (recentlySent && !force)) {
+        results.skipped++;
+        continue;
+      }
+
+      try {
+        const recipient = await getRecipient(supabaseAdmin, subscriber.user_id);
+        if (!recipient) {
+          results.skipped++;
+          continue;
+        }
+
+        const message = renderDigest(recipient, await compileDigest(supabaseAdmin, subscriber.user_id, now));
+        await transport.send(message);
+
+        await supabaseAdmin
+          .from('notification_preferences')
+          .update({ last_digest_sent_at: now.toISOString() })
+          .eq('user_id', subscriber.user_id);
+        results.sent++;
+      } catch (err) {
+        console.error(`Failed to send digest to ${subscriber.user_id}:`, err);
+        results.failed++;
+      }
+    }
+
+    console.log('Weekly digest run finished:', results);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        transport: transport.name,
+        ...results,
+        ...(transport.name === 'mock' ? { messages: outbox } : {}),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    console.error('Weekly digest error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: message === 'Unauthorized' ? 401 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,136 @@
+-- Deal stages are now driven by pipeline_stages instead of a hard-coded list
+
+-- Stage names must be unique so deals can reference them by name
+ALTER TABLE public.pipeline_stages
+ADD CONSTRAINT pipeline_stages_stage_name_key UNIQUE (stage_name);
+
+-- Align the seeded stages with the existing deal flow (Lead -> Discussions -> Qualified -> RFQ -> Offered)
+-- Only applied while the seeded ordering is untouched
+UPDATE public.pipeline_stages AS ps
+SET 
+  stage_order = seed.stage_order,
+  stage_probability = seed.stage_probability
+FROM (VALUES
+  ('Lead', 0, 10),
+  ('Discussions', 1, 20),
+  ('Qualified', 2, 40),
+  ('RFQ', 3, 60),
+  ('Offered', 4, 80)
+) AS seed(stage_name, stage_order, stage_probability)
+WHERE ps.stage_name = seed.stage_name
+AND EXISTS (
+  SELECT 1 FROM public.pipeline_stages 
+  WHERE stage_name = 'Discussions' AND stage_order = 4 AND stage_probability = 80
+);
+
+-- Drop the fixed stage list; stages are validated against pipeline_stages by trigger
+ALTER TABLE public.deals DROP CONSTRAINT IF EXISTS deals_stage_check;
+
+-- Validate that a deal's stage exists and that deals only move into active stages
+CREATE OR REPLACE FUNCTION public.validate_deal_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_active BOOLEAN;
+BEGIN
+  SELECT is_active INTO v_is_active
+  FROM public.pipeline_stages
+  WHERE stage_name = NEW.stage;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid deal stage: %', NEW.stage;
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.stage IS DISTINCT FROM OLD.stage) AND v_is_active = false THEN
+    RAISE EXCEPTION 'Deal stage "%" is inactive', NEW.stage;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_deal_stage_trigger
+BEFORE INSERT OR UPDATE OF stage ON public.deals
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_deal_stage();
+
+-- Renaming a stage carries its deals along
+CREATE OR REPLACE FUNCTION public.cascade_pipeline_stage_rename()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage_name IS DISTINCT FROM OLD.stage_name THEN
+    UPDATE public.deals
+    SET stage = NEW.stage_name, modified_at = now()
+    WHERE stage = OLD.stage_name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cascade_pipeline_stage_rename_trigger
+AFTER UPDATE OF stage_name ON public.pipeline_stages
+FOR EACH ROW
+EXECUTE FUNCTION public.cascade_pipeline_stage_rename();
+
+-- A stage that still holds deals cannot be deleted; reassign them first
+CREATE OR REPLACE FUNCTION public.prevent_pipeline_stage_delete_in_use()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.deals WHERE stage = OLD.stage_name) THEN
+    RAISE EXCEPTION 'Stage "%" still has deals. Move them to another stage first.', OLD.stage_name;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_pipeline_stage_delete_in_use_trigger
+BEFORE DELETE ON public.pipeline_stages
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_pipeline_stage_delete_in_use();
+
+-- Move every deal from one stage to another (used before deactivating or deleting a stage)
+CREATE OR REPLACE FUNCTION public.reassign_deals_stage(p_from_stage TEXT, p_to_stage TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_probability INTEGER;
+  v_count INTEGER;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only administrators can reassign deal stages';
+  END IF;
+
+  SELECT stage_probability INTO v_probability
+  FROM public.pipeline_stages
+  WHERE stage_name = p_to_stage AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Target stage "%" does not exist or is inactive', p_to_stage;
+  END IF;
+
+  UPDATE public.deals
+  SET 
+    stage = p_to_stage,
+    probability = COALESCE(v_probability, probability),
+    modified_by = auth.uid(),
+    modified_at = now()
+  WHERE stage = p_from_stage;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
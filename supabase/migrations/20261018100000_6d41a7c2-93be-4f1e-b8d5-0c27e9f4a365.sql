@@ -0,0 +1,89 @@
+-- Custom field values are stored per record in a custom_fields jsonb column keyed by crm_custom_fields.field_name
+
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.meetings ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_custom_fields ON public.accounts USING gin (custom_fields);
+CREATE INDEX IF NOT EXISTS idx_contacts_custom_fields ON public.contacts USING gin (custom_fields);
+CREATE INDEX IF NOT EXISTS idx_leads_custom_fields ON public.leads USING gin (custom_fields);
+CREATE INDEX IF NOT EXISTS idx_deals_custom_fields ON public.deals USING gin (custom_fields);
+CREATE INDEX IF NOT EXISTS idx_meetings_custom_fields ON public.meetings USING gin (custom_fields);
+CREATE INDEX IF NOT EXISTS idx_tasks_custom_fields ON public.tasks USING gin (custom_fields);
+
+-- Restrict definitions to the entities and field types the UI knows how to render
+ALTER TABLE public.crm_custom_fields
+ADD CONSTRAINT crm_custom_fields_entity_type_check
+CHECK (entity_type IN ('account', 'contact', 'lead', 'deal', 'meeting', 'task'));
+
+ALTER TABLE public.crm_custom_fields
+ADD CONSTRAINT crm_custom_fields_field_type_check
+CHECK (field_type IN ('text', 'number', 'date', 'select', 'multiselect', 'boolean'));
+
+ALTER TABLE public.crm_custom_fields
+ADD CONSTRAINT crm_custom_fields_field_name_check
+CHECK (field_name ~ '^[a-z][a-z0-9_]*$');
+
+-- Maps a custom field entity type to the table holding its values
+CREATE OR REPLACE FUNCTION public.custom_field_table(p_entity_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_entity_type
+    WHEN 'account' THEN 'accounts'
+    WHEN 'contact' THEN 'contacts'
+    WHEN 'lead' THEN 'leads'
+    WHEN 'deal' THEN 'deals'
+    WHEN 'meeting' THEN 'meetings'
+    WHEN 'task' THEN 'tasks'
+  END;
+$$;
+
+-- Renaming a field moves stored values to the new key
+CREATE OR REPLACE FUNCTION public.cascade_custom_field_rename()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.field_name IS DISTINCT FROM OLD.field_name THEN
+    EXECUTE format(
+      'UPDATE public.%I SET custom_fields = (custom_fields - $1) || jsonb_build_object($2, custom_fields -> $1) WHERE custom_fields ? $1',
+      custom_field_table(NEW.entity_type)
+    ) USING OLD.field_name, NEW.field_name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER cascade_custom_field_rename_trigger
+AFTER UPDATE OF field_name ON public.crm_custom_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.cascade_custom_field_rename();
+
+-- Deleting a field removes its stored values
+CREATE OR REPLACE FUNCTION public.purge_custom_field_values()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  EXECUTE format(
+    'UPDATE public.%I SET custom_fields = custom_fields - $1 WHERE custom_fields ? $1',
+    custom_field_table(OLD.entity_type)
+  ) USING OLD.field_name;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER purge_custom_field_values_trigger
+AFTER DELETE ON public.crm_custom_fields
+FOR EACH ROW
+EXECUTE FUNCTION public.purge_custom_field_values();
@@ -0,0 +1,23 @@
+-- Recurring tasks: tasks.recurrence holds an RRULE (e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO)
+-- and every generated occurrence points back at the first task of its series
+
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS recurrence_series_id UUID,
+ADD COLUMN IF NOT EXISTS recurrence_trigger TEXT NOT NULL DEFAULT 'completion';
+
+-- completion: next occurrence is created when the current one is completed
+-- schedule: next occurrence is created once the current one's due date has passed, done or not
+ALTER TABLE public.tasks
+ADD CONSTRAINT tasks_recurrence_trigger_check CHECK (recurrence_trigger IN ('completion', 'schedule'));
+
+-- Convert the legacy recurrence keywords to RRULE form
+UPDATE public.tasks
+SET recurrence = 'FREQ=' || upper(recurrence) || ';INTERVAL=1'
+WHERE recurrence IN ('daily', 'weekly', 'monthly', 'yearly');
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_series_id ON public.tasks(recurrence_series_id);
+
+-- Guards against two clients generating the same occurrence
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_recurrence_occurrence
+ON public.tasks(recurrence_series_id, due_date)
+WHERE recurrence_series_id IS NOT NULL;
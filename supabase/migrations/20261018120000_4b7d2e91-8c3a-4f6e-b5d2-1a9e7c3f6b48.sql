@@ -0,0 +1,8 @@
+-- Task hierarchies: child tasks point at their parent through tasks.parent_task_id,
+-- checklist items live in task_subtasks
+
+-- When set, the task cannot be completed while a checklist item or child task is still open
+ALTER TABLE public.tasks
+ADD COLUMN IF NOT EXISTS require_subtasks_complete BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON public.tasks(parent_task_id);
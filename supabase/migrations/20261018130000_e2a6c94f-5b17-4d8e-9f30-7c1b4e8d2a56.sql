@@ -0,0 +1,25 @@
+-- Weekly digest: the weekly-digest edge function emails a summary to users with
+-- notification_preferences.weekly_digest enabled
+
+ALTER TABLE public.notification_preferences
+ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Mondays 07:00 UTC. Expects the project URL and service role key in Vault as
+-- 'project_url' and 'service_role_key'.
+SELECT cron.schedule(
+  'weekly-digest',
+  '0 7 * * 1',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/weekly-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
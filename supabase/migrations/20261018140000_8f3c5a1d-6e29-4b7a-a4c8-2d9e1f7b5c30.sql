@@ -0,0 +1,41 @@
+-- Meeting reminders: the meeting-reminders edge function runs every 5 minutes and
+-- sends the reminders configured in meeting_reminders, setting the matching sent_* flag
+
+-- A rescheduled meeting gets its reminders again
+CREATE OR REPLACE FUNCTION public.reset_meeting_reminders_on_reschedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.start_time IS DISTINCT FROM OLD.start_time THEN
+    UPDATE public.meeting_reminders
+    SET sent_15min = false, sent_1hr = false, sent_1day = false
+    WHERE meeting_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_meeting_reminders_on_reschedule ON public.meetings;
+CREATE TRIGGER reset_meeting_reminders_on_reschedule
+AFTER UPDATE OF start_time ON public.meetings
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_meeting_reminders_on_reschedule();
+
+-- Uses the same Vault secrets as the weekly-digest job
+SELECT cron.schedule(
+  'meeting-reminders',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/meeting-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,74 @@
+-- Selective restore: get_backup_schema also lists single-column foreign keys, so
+-- restore-backup can follow a record to the rows that reference it
+
+CREATE OR REPLACE FUNCTION public.get_backup_schema()
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schema_version text;
+  v_tables jsonb;
+BEGIN
+  -- The latest applied migration identifies the schema a backup was taken from
+  IF to_regclass('supabase_migrations.schema_migrations') IS NOT NULL THEN
+    EXECUTE 'SELECT max(version)::text FROM supabase_migrations.schema_migrations'
+    INTO v_schema_version;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(t.info ORDER BY t.name), '[]'::jsonb)
+  INTO v_tables
+  FROM (
+    SELECT
+      c.relname AS name,
+      jsonb_build_object(
+        'name', c.relname,
+        'columns', (
+          SELECT COALESCE(jsonb_agg(a.attname ORDER BY a.attnum), '[]'::jsonb)
+          FROM pg_attribute a
+          WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped AND a.attgenerated = ''
+        ),
+        'primary_key', (
+          SELECT a.attname
+          FROM pg_constraint pk
+          JOIN pg_attribute a ON a.attrelid = pk.conrelid AND a.attnum = pk.conkey[1]
+          WHERE pk.conrelid = c.oid AND pk.contype = 'p' AND array_length(pk.conkey, 1) = 1
+        ),
+        -- Other public tables this table references
+        'depends_on', (
+          SELECT COALESCE(jsonb_agg(DISTINCT ref.relname), '[]'::jsonb)
+          FROM pg_constraint fk
+          JOIN pg_class ref ON ref.oid = fk.confrelid
+          JOIN pg_namespace rn ON rn.oid = ref.relnamespace
+          WHERE fk.conrelid = c.oid AND fk.contype = 'f' AND rn.nspname = 'public' AND ref.oid <> c.oid
+        ),
+        -- Columns referencing the same table, e.g. tasks.parent_task_id
+        'self_references', (
+          SELECT COALESCE(jsonb_agg(DISTINCT a.attname), '[]'::jsonb)
+          FROM pg_constraint fk
+          JOIN pg_attribute a ON a.attrelid = fk.conrelid AND a.attnum = fk.conkey[1]
+          WHERE fk.conrelid = c.oid AND fk.contype = 'f' AND fk.confrelid = c.oid
+        ),
+        -- Single-column references to public tables, e.g. contacts.account_id -> accounts
+        'foreign_keys', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object('column', a.attname, 'references', ref.relname) ORDER BY a.attname), '[]'::jsonb)
+          FROM pg_constraint fk
+          JOIN pg_attribute a ON a.attrelid = fk.conrelid AND a.attnum = fk.conkey[1]
+          JOIN pg_class ref ON ref.oid = fk.confrelid
+          JOIN pg_namespace rn ON rn.oid = ref.relnamespace
+          WHERE fk.conrelid = c.oid AND fk.contype = 'f' AND rn.nspname = 'public' AND array_length(fk.conkey, 1) = 1
+        )
+      ) AS info
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = 'public' AND c.relkind IN ('r', 'p') AND NOT c.relispartition
+  ) t;
+
+  RETURN jsonb_build_object('schema_version', v_schema_version, 'tables', v_tables);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_backup_schema() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_backup_schema() TO service_role;
@@ -0,0 +1,50 @@
+-- Scheduled backups: create-backup runs nightly from cron and prunes old backups
+-- using the retention policy stored here
+
+CREATE TABLE public.backup_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Only one settings row exists
+  singleton BOOLEAN NOT NULL DEFAULT true UNIQUE CHECK (singleton),
+  schedule_enabled BOOLEAN NOT NULL DEFAULT false,
+  frequency TEXT NOT NULL DEFAULT 'daily' CHECK (frequency IN ('daily', 'weekly')),
+  keep_daily INTEGER NOT NULL DEFAULT 7 CHECK (keep_daily >= 1),
+  keep_weekly INTEGER NOT NULL DEFAULT 4 CHECK (keep_weekly >= 0),
+  keep_monthly INTEGER NOT NULL DEFAULT 12 CHECK (keep_monthly >= 0),
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_status TEXT,
+  last_error TEXT,
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.backup_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage backup settings"
+ON public.backup_settings
+FOR ALL
+USING (is_user_admin());
+
+CREATE TRIGGER update_backup_settings_updated_at
+BEFORE UPDATE ON public.backup_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.backup_settings (singleton) VALUES (true);
+
+-- Runs every night at midnight UTC; weekly schedules only back up on Sundays
+SELECT cron.schedule(
+  'scheduled-backup',
+  '0 0 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/create-backup',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 300000
+  );
+  $$
+);
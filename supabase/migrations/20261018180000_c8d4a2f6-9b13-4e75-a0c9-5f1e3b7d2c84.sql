@@ -0,0 +1,6 @@
+-- HTML email: templates and sent emails record whether their body is HTML
+ALTER TABLE public.email_templates
+ADD COLUMN IF NOT EXISTS is_html BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.email_history
+ADD COLUMN IF NOT EXISTS is_html BOOLEAN NOT NULL DEFAULT false;
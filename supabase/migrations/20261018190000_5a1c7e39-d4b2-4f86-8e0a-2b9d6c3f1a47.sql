@@ -0,0 +1,37 @@
+-- Server-side list pages: filter dropdowns need the distinct values of a column
+-- without loading every row into the browser
+
+CREATE OR REPLACE FUNCTION public.get_distinct_values(p_table text, p_column text, p_limit integer DEFAULT 500)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_values text[];
+BEGIN
+  -- Only columns of tables in the public schema can be listed; RLS still applies to the caller
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = p_table
+      AND column_name = p_column
+  ) THEN
+    RAISE EXCEPTION 'Unknown column %.%', p_table, p_column;
+  END IF;
+
+  EXECUTE format(
+    'SELECT COALESCE(array_agg(v ORDER BY v), ''{}'') FROM (
+       SELECT DISTINCT %1$I::text AS v FROM public.%2$I WHERE %1$I IS NOT NULL AND %1$I::text <> '''' LIMIT %3$s
+     ) d',
+    p_column, p_table, GREATEST(p_limit, 1)
+  )
+  INTO v_values;
+
+  RETURN v_values;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_distinct_values(text, text, integer) TO authenticated;
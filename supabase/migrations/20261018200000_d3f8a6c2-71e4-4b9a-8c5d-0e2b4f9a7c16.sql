@@ -0,0 +1,195 @@
+-- Email sequences: multi-step cadences of email templates sent at day offsets.
+-- The process-email-sequences edge function runs every 15 minutes and sends the due steps
+
+CREATE TABLE public.email_sequences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  stop_on_reply BOOLEAN NOT NULL DEFAULT true,
+  stop_on_click BOOLEAN NOT NULL DEFAULT false,
+  stop_on_status_change BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- delay_days counts from the previous step, or from enrollment for the first step
+CREATE TABLE public.email_sequence_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  template_id UUID NOT NULL REFERENCES public.email_templates(id) ON DELETE RESTRICT,
+  delay_days INTEGER NOT NULL DEFAULT 0 CHECK (delay_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Deferred so reordered steps can be saved in one upsert
+  CONSTRAINT email_sequence_steps_order_key UNIQUE (sequence_id, step_order) DEFERRABLE INITIALLY DEFERRED
+);
+
+-- current_step is the number of steps already sent
+CREATE TABLE public.email_sequence_enrollments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  sender_email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'stopped')),
+  current_step INTEGER NOT NULL DEFAULT 0,
+  next_send_at TIMESTAMP WITH TIME ZONE,
+  lead_status_at_enrollment TEXT,
+  stop_reason TEXT,
+  enrolled_by UUID,
+  enrolled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT email_sequence_enrollments_one_recipient CHECK (num_nonnulls(lead_id, contact_id) = 1)
+);
+
+-- A recipient can only be in a sequence once at a time
+CREATE UNIQUE INDEX idx_email_sequence_enrollments_open_lead
+ON public.email_sequence_enrollments(sequence_id, lead_id)
+WHERE lead_id IS NOT NULL AND status IN ('active', 'paused');
+
+CREATE UNIQUE INDEX idx_email_sequence_enrollments_open_contact
+ON public.email_sequence_enrollments(sequence_id, contact_id)
+WHERE contact_id IS NOT NULL AND status IN ('active', 'paused');
+
+CREATE INDEX idx_email_sequence_enrollments_due
+ON public.email_sequence_enrollments(next_send_at)
+WHERE status = 'active';
+
+CREATE INDEX idx_email_sequence_steps_sequence_id ON public.email_sequence_steps(sequence_id);
+
+-- Sequence emails are tracked like any other email; these columns give per-step stats
+ALTER TABLE public.email_history
+  ADD COLUMN sequence_enrollment_id UUID REFERENCES public.email_sequence_enrollments(id) ON DELETE SET NULL,
+  ADD COLUMN sequence_step_id UUID REFERENCES public.email_sequence_steps(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_email_history_sequence_step_id ON public.email_history(sequence_step_id);
+
+ALTER TABLE public.email_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view all email sequences"
+ON public.email_sequences FOR SELECT USING (true);
+
+CREATE POLICY "Users can insert email sequences"
+ON public.email_sequences FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update their own sequences, admins can update all"
+ON public.email_sequences FOR UPDATE USING (is_user_admin() OR created_by = auth.uid());
+
+CREATE POLICY "Users can delete their own sequences, admins can delete all"
+ON public.email_sequences FOR DELETE USING (is_user_admin() OR created_by = auth.uid());
+
+CREATE POLICY "Authenticated users can view all email sequence steps"
+ON public.email_sequence_steps FOR SELECT USING (true);
+
+CREATE POLICY "Sequence owners and admins can manage steps"
+ON public.email_sequence_steps FOR ALL
+USING (
+  is_user_admin() OR EXISTS (
+    SELECT 1 FROM public.email_sequences s WHERE s.id = sequence_id AND s.created_by = auth.uid()
+  )
+)
+WITH CHECK (
+  is_user_admin() OR EXISTS (
+    SELECT 1 FROM public.email_sequences s WHERE s.id = sequence_id AND s.created_by = auth.uid()
+  )
+);
+
+CREATE POLICY "Authenticated users can view all email sequence enrollments"
+ON public.email_sequence_enrollments FOR SELECT USING (true);
+
+CREATE POLICY "Users can enroll recipients"
+ON public.email_sequence_enrollments FOR INSERT WITH CHECK (enrolled_by = auth.uid());
+
+CREATE POLICY "Users can update their own enrollments, admins can update all"
+ON public.email_sequence_enrollments FOR UPDATE USING (is_user_admin() OR enrolled_by = auth.uid());
+
+CREATE POLICY "Users can delete their own enrollments, admins can delete all"
+ON public.email_sequence_enrollments FOR DELETE USING (is_user_admin() OR enrolled_by = auth.uid());
+
+CREATE TRIGGER update_email_sequences_updated_at
+BEFORE UPDATE ON public.email_sequences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_email_sequence_enrollments_updated_at
+BEFORE UPDATE ON public.email_sequence_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A lead whose status moves on (e.g. to Qualified) no longer gets the cadence
+CREATE OR REPLACE FUNCTION public.stop_sequences_on_lead_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.lead_status IS DISTINCT FROM OLD.lead_status THEN
+    UPDATE public.email_sequence_enrollments e
+    SET status = 'stopped', stop_reason = 'Lead status changed to ' || COALESCE(NEW.lead_status, 'none'), next_send_at = NULL
+    FROM public.email_sequences s
+    WHERE e.sequence_id = s.id
+      AND s.stop_on_status_change
+      AND e.lead_id = NEW.id
+      AND e.status IN ('active', 'paused');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stop_sequences_on_lead_status_change
+AFTER UPDATE OF lead_status ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.stop_sequences_on_lead_status_change();
+
+-- Replies and clicks on a sequence email stop the rest of the cadence straight away
+CREATE OR REPLACE FUNCTION public.stop_sequence_on_engagement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.sequence_enrollment_id IS NOT NULL AND NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE public.email_sequence_enrollments e
+    SET status = 'stopped',
+        stop_reason = CASE WHEN NEW.status = 'replied' THEN 'Recipient replied' ELSE 'Recipient clicked a link' END,
+        next_send_at = NULL
+    FROM public.email_sequences s
+    WHERE e.id = NEW.sequence_enrollment_id
+      AND e.sequence_id = s.id
+      AND e.status IN ('active', 'paused')
+      AND ((NEW.status = 'replied' AND s.stop_on_reply) OR (NEW.status = 'clicked' AND s.stop_on_click));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stop_sequence_on_engagement
+AFTER UPDATE OF status ON public.email_history
+FOR EACH ROW
+EXECUTE FUNCTION public.stop_sequence_on_engagement();
+
+-- Uses the same Vault secrets as the weekly-digest job
+SELECT cron.schedule(
+  'process-email-sequences',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-email-sequences',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 120000
+  );
+  $$
+);
@@ -0,0 +1,90 @@
+-- Inbound reply sync: the sync-email-replies edge function reads the Graph mailboxes listed in
+-- email_sync_mailboxes and threads incoming messages to email_history by Graph conversation id
+
+-- Set by the sync from the Sent Items copy of each tracked email
+ALTER TABLE public.email_history
+  ADD COLUMN conversation_id TEXT,
+  ADD COLUMN replied_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_email_history_conversation_id ON public.email_history(conversation_id);
+
+-- Mailboxes to sync; the cursors hold the newest message already read from each folder
+CREATE TABLE public.email_sync_mailboxes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  mailbox TEXT NOT NULL UNIQUE,
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  inbox_cursor TIMESTAMP WITH TIME ZONE,
+  sent_cursor TIMESTAMP WITH TIME ZONE,
+  last_synced_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Incoming messages from contacts and leads; email_history_id is the outbound email they answer, if known
+CREATE TABLE public.email_replies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  graph_message_id TEXT NOT NULL UNIQUE,
+  internet_message_id TEXT,
+  conversation_id TEXT,
+  mailbox TEXT NOT NULL,
+  from_email TEXT NOT NULL,
+  from_name TEXT,
+  subject TEXT,
+  body TEXT,
+  is_html BOOLEAN NOT NULL DEFAULT true,
+  body_preview TEXT,
+  is_auto_reply BOOLEAN NOT NULL DEFAULT false,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_email_replies_email_history_id ON public.email_replies(email_history_id);
+CREATE INDEX idx_email_replies_contact_id ON public.email_replies(contact_id);
+CREATE INDEX idx_email_replies_lead_id ON public.email_replies(lead_id);
+CREATE INDEX idx_email_replies_account_id ON public.email_replies(account_id);
+
+ALTER TABLE public.email_sync_mailboxes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage email sync mailboxes"
+ON public.email_sync_mailboxes FOR ALL USING (is_user_admin());
+
+-- Replies are only written by the sync, which uses the service role
+CREATE POLICY "Authenticated users can view email replies"
+ON public.email_replies FOR SELECT USING (true);
+
+CREATE POLICY "Admins can delete email replies"
+ON public.email_replies FOR DELETE USING (is_user_admin());
+
+CREATE TRIGGER update_email_sync_mailboxes_updated_at
+BEFORE UPDATE ON public.email_sync_mailboxes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Switches the whole sync on and off next to the other integrations
+INSERT INTO public.integration_settings (integration_name, is_enabled, config)
+VALUES ('Email Reply Sync', false, '{"provider": "microsoft_graph"}')
+ON CONFLICT (integration_name) DO NOTHING;
+
+-- Uses the same Vault secrets as the weekly-digest job
+SELECT cron.schedule(
+  'sync-email-replies',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-email-replies',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 120000
+  );
+  $$
+);
@@ -0,0 +1,277 @@
+-- Lead scoring: an admin-configured model of attribute rules plus engagement points that decay
+-- with age. Scores are stored on the lead and refreshed by triggers and a nightly cron job.
+
+ALTER TABLE public.leads
+  ADD COLUMN score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN score_breakdown JSONB,
+  ADD COLUMN score_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_leads_score ON public.leads(score);
+
+-- Points added when a lead attribute matches (case-insensitive); points may be negative
+CREATE TABLE public.lead_scoring_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  field TEXT NOT NULL CHECK (field IN ('industry', 'position', 'contact_source')),
+  match_type TEXT NOT NULL DEFAULT 'equals' CHECK (match_type IN ('equals', 'contains')),
+  match_value TEXT NOT NULL,
+  points INTEGER NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Engagement, meeting and recency points; each event's points halve every decay_half_life_days
+CREATE TABLE public.lead_scoring_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Only one settings row exists
+  singleton BOOLEAN NOT NULL DEFAULT true UNIQUE CHECK (singleton),
+  email_open_points INTEGER NOT NULL DEFAULT 2 CHECK (email_open_points >= 0),
+  email_click_points INTEGER NOT NULL DEFAULT 5 CHECK (email_click_points >= 0),
+  email_reply_points INTEGER NOT NULL DEFAULT 15 CHECK (email_reply_points >= 0),
+  max_engagement_points INTEGER NOT NULL DEFAULT 30 CHECK (max_engagement_points >= 0),
+  meeting_points INTEGER NOT NULL DEFAULT 15 CHECK (meeting_points >= 0),
+  max_meeting_points INTEGER NOT NULL DEFAULT 30 CHECK (max_meeting_points >= 0),
+  recency_points INTEGER NOT NULL DEFAULT 20 CHECK (recency_points >= 0),
+  decay_half_life_days INTEGER NOT NULL DEFAULT 30 CHECK (decay_half_life_days >= 1),
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.lead_scoring_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lead_scoring_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage lead scoring rules"
+ON public.lead_scoring_rules
+FOR ALL
+USING (is_user_admin());
+
+CREATE POLICY "Admins can manage lead scoring settings"
+ON public.lead_scoring_settings
+FOR ALL
+USING (is_user_admin());
+
+CREATE TRIGGER update_lead_scoring_rules_updated_at
+BEFORE UPDATE ON public.lead_scoring_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_lead_scoring_settings_updated_at
+BEFORE UPDATE ON public.lead_scoring_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.lead_scoring_settings (singleton) VALUES (true);
+
+INSERT INTO public.lead_scoring_rules (field, match_type, match_value, points) VALUES
+  ('position', 'contains', 'chief', 20),
+  ('position', 'contains', 'vp', 15),
+  ('position', 'contains', 'director', 15),
+  ('position', 'contains', 'head', 10),
+  ('position', 'contains', 'manager', 5),
+  ('contact_source', 'equals', 'Referral', 15),
+  ('contact_source', 'equals', 'Website', 10),
+  ('contact_source', 'equals', 'LinkedIn', 5);
+
+-- Share of an event's points left after decay: 1 today, 0.5 after one half-life
+CREATE OR REPLACE FUNCTION public.lead_score_decay(p_at TIMESTAMP WITH TIME ZONE, p_half_life_days INTEGER)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT power(0.5, GREATEST(EXTRACT(EPOCH FROM now() - p_at), 0) / 86400.0 / p_half_life_days)::NUMERIC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.calculate_lead_score_breakdown(p_lead_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead public.leads%ROWTYPE;
+  v_settings public.lead_scoring_settings%ROWTYPE;
+  v_profile INTEGER;
+  v_engagement NUMERIC;
+  v_meetings NUMERIC;
+  v_recency NUMERIC := 0;
+  v_last_activity TIMESTAMP WITH TIME ZONE;
+  v_total INTEGER;
+BEGIN
+  SELECT * INTO v_lead FROM public.leads WHERE id = p_lead_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_settings FROM public.lead_scoring_settings LIMIT 1;
+
+  -- Profile fit from every active rule matching the lead's attributes
+  SELECT COALESCE(SUM(r.points), 0) INTO v_profile
+  FROM public.lead_scoring_rules r
+  CROSS JOIN LATERAL (
+    SELECT lower(trim(CASE r.field
+      WHEN 'industry' THEN v_lead.industry
+      WHEN 'position' THEN v_lead.position
+      WHEN 'contact_source' THEN v_lead.contact_source
+    END)) AS attribute
+  ) a
+  WHERE r.is_active
+    AND a.attribute IS NOT NULL
+    AND CASE r.match_type
+      WHEN 'contains' THEN strpos(a.attribute, lower(trim(r.match_value))) > 0
+      ELSE a.attribute = lower(trim(r.match_value))
+    END;
+
+  -- Email engagement: opens, clicks and replies that weren't automatic
+  SELECT COALESCE(SUM(points), 0) INTO v_engagement FROM (
+    SELECT v_settings.email_open_points * public.lead_score_decay(opened_at, v_settings.decay_half_life_days) AS points
+    FROM public.email_history WHERE lead_id = p_lead_id AND opened_at IS NOT NULL
+    UNION ALL
+    SELECT v_settings.email_click_points * public.lead_score_decay(clicked_at, v_settings.decay_half_life_days)
+    FROM public.email_history WHERE lead_id = p_lead_id AND clicked_at IS NOT NULL
+    UNION ALL
+    SELECT v_settings.email_reply_points * public.lead_score_decay(received_at, v_settings.decay_half_life_days)
+    FROM public.email_replies WHERE lead_id = p_lead_id AND NOT is_auto_reply
+  ) engagement;
+  v_engagement := LEAST(v_engagement, v_settings.max_engagement_points);
+
+  -- Meetings that have taken place
+  SELECT COALESCE(SUM(v_settings.meeting_points * public.lead_score_decay(start_time, v_settings.decay_half_life_days)), 0)
+  INTO v_meetings
+  FROM public.meetings
+  WHERE lead_id = p_lead_id AND start_time <= now() AND COALESCE(status, '') <> 'cancelled';
+  v_meetings := LEAST(v_meetings, v_settings.max_meeting_points);
+
+  -- Recency of the lead's latest activity
+  SELECT GREATEST(
+    (SELECT MAX(GREATEST(opened_at, clicked_at)) FROM public.email_history WHERE lead_id = p_lead_id),
+    (SELECT MAX(received_at) FROM public.email_replies WHERE lead_id = p_lead_id AND NOT is_auto_reply),
+    (SELECT MAX(start_time) FROM public.meetings
+      WHERE lead_id = p_lead_id AND start_time <= now() AND COALESCE(status, '') <> 'cancelled')
+  ) INTO v_last_activity;
+
+  IF v_last_activity IS NOT NULL THEN
+    v_recency := v_settings.recency_points * public.lead_score_decay(v_last_activity, v_settings.decay_half_life_days);
+  END IF;
+
+  v_total := LEAST(GREATEST(ROUND(v_profile + v_engagement + v_meetings + v_recency), 0), 100);
+
+  RETURN jsonb_build_object(
+    'profile', v_profile,
+    'engagement', ROUND(v_engagement),
+    'meetings', ROUND(v_meetings),
+    'recency', ROUND(v_recency),
+    'last_activity_at', v_last_activity,
+    'total', v_total
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.calculate_lead_score(p_lead_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((public.calculate_lead_score_breakdown(p_lead_id)->>'total')::INTEGER, 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_lead_score(p_lead_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_breakdown JSONB := public.calculate_lead_score_breakdown(p_lead_id);
+BEGIN
+  IF v_breakdown IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.leads
+  SET score = (v_breakdown->>'total')::INTEGER,
+      score_breakdown = v_breakdown,
+      score_updated_at = now()
+  WHERE id = p_lead_id;
+END;
+$$;
+
+-- Called from the scoring settings after rules change
+CREATE OR REPLACE FUNCTION public.recalculate_lead_scores()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can recalculate lead scores';
+  END IF;
+
+  PERFORM public.refresh_lead_score(id) FROM public.leads;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Shared by the triggers below; the leads trigger passes the lead itself, the others its lead_id
+CREATE OR REPLACE FUNCTION public.refresh_lead_score_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'leads' THEN
+    PERFORM public.refresh_lead_score(NEW.id);
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.lead_id IS NOT NULL THEN
+    PERFORM public.refresh_lead_score(NEW.lead_id);
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND OLD.lead_id IS NOT NULL
+    AND (TG_OP = 'DELETE' OR OLD.lead_id IS DISTINCT FROM NEW.lead_id) THEN
+    PERFORM public.refresh_lead_score(OLD.lead_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Score columns are not in the UPDATE OF list, so refresh_lead_score doesn't retrigger itself
+CREATE TRIGGER refresh_lead_score_on_lead_change
+AFTER INSERT OR UPDATE OF industry, position, contact_source ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_lead_score_on_change();
+
+CREATE TRIGGER refresh_lead_score_on_email_change
+AFTER INSERT OR UPDATE OF opened_at, clicked_at, lead_id ON public.email_history
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_lead_score_on_change();
+
+CREATE TRIGGER refresh_lead_score_on_reply_change
+AFTER INSERT OR UPDATE OF lead_id, is_auto_reply OR DELETE ON public.email_replies
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_lead_score_on_change();
+
+CREATE TRIGGER refresh_lead_score_on_meeting_change
+AFTER INSERT OR UPDATE OF start_time, status, lead_id OR DELETE ON public.meetings
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_lead_score_on_change();
+
+SELECT public.refresh_lead_score(id) FROM public.leads;
+
+-- Nightly refresh applies decay and picks up meetings that have since taken place
+SELECT cron.schedule(
+  'refresh-lead-scores',
+  '30 1 * * *',
+  $$ SELECT public.refresh_lead_score(id) FROM public.leads; $$
+);
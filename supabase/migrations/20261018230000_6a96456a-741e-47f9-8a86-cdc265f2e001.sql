@@ -0,0 +1,153 @@
+-- Lead assignment: rules pick an owner for new and orphaned leads from a team, either in turn
+-- (round robin) or by fewest open leads (load balanced)
+
+CREATE TABLE public.lead_assignment_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Rules are tried in ascending priority; the first matching rule with an available member wins
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  -- Empty criteria match any lead; values are compared case-insensitively
+  countries TEXT[] NOT NULL DEFAULT '{}',
+  regions TEXT[] NOT NULL DEFAULT '{}',
+  industries TEXT[] NOT NULL DEFAULT '{}',
+  sources TEXT[] NOT NULL DEFAULT '{}',
+  company_sizes TEXT[] NOT NULL DEFAULT '{}',
+  distribution TEXT NOT NULL DEFAULT 'round_robin' CHECK (distribution IN ('round_robin', 'load_balanced')),
+  assignee_ids UUID[] NOT NULL CHECK (cardinality(assignee_ids) > 0),
+  last_assigned_user_id UUID,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_leads_contact_owner ON public.leads(contact_owner);
+
+ALTER TABLE public.lead_assignment_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage lead assignment rules"
+ON public.lead_assignment_rules
+FOR ALL
+USING (is_user_admin());
+
+CREATE TRIGGER update_lead_assignment_rules_updated_at
+BEFORE UPDATE ON public.lead_assignment_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.lead_assignment_matches(p_values TEXT[], p_value TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT cardinality(p_values) = 0
+    OR lower(trim(p_value)) IN (SELECT lower(trim(v)) FROM unnest(p_values) v);
+$$;
+
+-- Picks and stores an owner for one lead and notifies them. Returns the new owner, or NULL when
+-- no rule matches or no team member is available (the lead keeps its owner then).
+-- p_exclude_user_id keeps a user out of the draw, e.g. the deactivated owner being replaced.
+CREATE OR REPLACE FUNCTION public.assign_lead_owner(p_lead_id UUID, p_exclude_user_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead public.leads%ROWTYPE;
+  v_account public.accounts%ROWTYPE;
+  v_rule public.lead_assignment_rules%ROWTYPE;
+  v_candidates UUID[];
+  v_owner UUID;
+  v_last_index INTEGER;
+BEGIN
+  SELECT * INTO v_lead FROM public.leads WHERE id = p_lead_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Same rule as the leads update policy; the service role (no auth.uid()) may assign any lead
+  IF auth.uid() IS NOT NULL AND NOT is_user_admin() AND v_lead.created_by IS DISTINCT FROM auth.uid() THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_lead.account_id IS NOT NULL THEN
+    SELECT * INTO v_account FROM public.accounts WHERE id = v_lead.account_id;
+  END IF;
+
+  FOR v_rule IN
+    SELECT * FROM public.lead_assignment_rules
+    WHERE is_active
+    ORDER BY priority, created_at
+  LOOP
+    CONTINUE WHEN NOT (
+      public.lead_assignment_matches(v_rule.countries, COALESCE(v_lead.country, v_account.country))
+      AND public.lead_assignment_matches(v_rule.regions, v_account.region)
+      AND public.lead_assignment_matches(v_rule.industries, COALESCE(v_lead.industry, v_account.industry))
+      AND public.lead_assignment_matches(v_rule.sources, v_lead.contact_source)
+      AND public.lead_assignment_matches(v_rule.company_sizes, v_account.segment)
+    );
+
+    -- Team members in rule order, leaving out deactivated (banned) users
+    SELECT array_agg(member.user_id ORDER BY member.position) INTO v_candidates
+    FROM unnest(v_rule.assignee_ids) WITH ORDINALITY AS member(user_id, position)
+    JOIN auth.users u ON u.id = member.user_id
+    WHERE member.user_id IS DISTINCT FROM p_exclude_user_id
+      AND (u.banned_until IS NULL OR u.banned_until < now());
+
+    CONTINUE WHEN v_candidates IS NULL;
+
+    IF v_rule.distribution = 'load_balanced' THEN
+      SELECT member.user_id INTO v_owner
+      FROM unnest(v_candidates) WITH ORDINALITY AS member(user_id, position)
+      ORDER BY (
+        SELECT COUNT(*) FROM public.leads l
+        WHERE l.contact_owner = member.user_id AND COALESCE(l.lead_status, '') <> 'Disqualified'
+      ), member.position
+      LIMIT 1;
+    ELSE
+      -- Lock the rule so concurrent assignments take consecutive turns
+      SELECT last_assigned_user_id INTO v_rule.last_assigned_user_id
+      FROM public.lead_assignment_rules WHERE id = v_rule.id FOR UPDATE;
+
+      v_last_index := COALESCE(array_position(v_candidates, v_rule.last_assigned_user_id), 0);
+      v_owner := v_candidates[(v_last_index % cardinality(v_candidates)) + 1];
+    END IF;
+
+    UPDATE public.lead_assignment_rules SET last_assigned_user_id = v_owner WHERE id = v_rule.id;
+
+    IF v_owner IS DISTINCT FROM v_lead.contact_owner THEN
+      UPDATE public.leads SET contact_owner = v_owner WHERE id = p_lead_id;
+
+      IF v_owner IS DISTINCT FROM auth.uid() THEN
+        INSERT INTO public.notifications (user_id, lead_id, message, notification_type)
+        VALUES (v_owner, p_lead_id, 'You have been assigned a new lead: ' || v_lead.lead_name, 'lead_assigned');
+      END IF;
+    END IF;
+
+    RETURN v_owner;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Batch form for imports and reassignment; returns how many leads got an owner from a rule
+CREATE OR REPLACE FUNCTION public.assign_lead_owners(p_lead_ids UUID[], p_exclude_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOREACH v_lead_id IN ARRAY p_lead_ids LOOP
+    IF public.assign_lead_owner(v_lead_id, p_exclude_user_id) IS NOT NULL THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+  RETURN v_count;
+END;
+$$;
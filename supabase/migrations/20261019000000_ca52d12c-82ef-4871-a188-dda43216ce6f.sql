@@ -0,0 +1,183 @@
+-- Multi-currency reporting: dated exchange rates, an organisation reporting currency, and the
+-- rate into the reporting currency locked on Won deals at their close date
+
+-- 1 base_currency = rate quote_currency from effective_date until the next rate for the pair
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC(20, 10) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv')),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (base_currency, quote_currency, effective_date),
+  CHECK (base_currency <> quote_currency)
+);
+
+CREATE TABLE public.currency_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Only one settings row exists
+  singleton BOOLEAN NOT NULL DEFAULT true UNIQUE CHECK (singleton),
+  reporting_currency TEXT NOT NULL DEFAULT 'EUR' CHECK (reporting_currency ~ '^[A-Z]{3}$'),
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- 1 deal currency = locked_exchange_rate locked_rate_currency, fixed when the deal was won
+ALTER TABLE public.deals
+  ADD COLUMN locked_exchange_rate NUMERIC(20, 10),
+  ADD COLUMN locked_rate_currency TEXT,
+  ADD COLUMN locked_rate_date DATE;
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.currency_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exchange rates"
+ON public.exchange_rates FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage exchange rates"
+ON public.exchange_rates FOR ALL USING (is_user_admin());
+
+CREATE POLICY "Authenticated users can view currency settings"
+ON public.currency_settings FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage currency settings"
+ON public.currency_settings FOR ALL USING (is_user_admin());
+
+CREATE TRIGGER update_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_currency_settings_updated_at
+BEFORE UPDATE ON public.currency_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.currency_settings (singleton) VALUES (true);
+
+-- Rate on p_date for a direct or inverse pair, falling back to the earliest rate when none is
+-- that old. The client mirrors this lookup in src/utils/currency.ts.
+CREATE OR REPLACE FUNCTION public.find_exchange_rate(p_from TEXT, p_to TEXT, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT rate FROM (
+    SELECT rate, effective_date FROM public.exchange_rates
+    WHERE base_currency = p_from AND quote_currency = p_to
+    UNION ALL
+    SELECT 1 / rate, effective_date FROM public.exchange_rates
+    WHERE base_currency = p_to AND quote_currency = p_from
+  ) pair
+  ORDER BY (effective_date <= p_date) DESC,
+    CASE WHEN effective_date <= p_date THEN p_date - effective_date ELSE effective_date - p_date END
+  LIMIT 1;
+$$;
+
+-- Converts through the reporting currency when the pair has no rate of its own
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(p_from TEXT, p_to TEXT, p_date DATE DEFAULT CURRENT_DATE)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_rate NUMERIC;
+  v_pivot TEXT;
+BEGIN
+  IF p_from IS NULL OR p_to IS NULL OR p_from = p_to THEN
+    RETURN 1;
+  END IF;
+
+  v_rate := public.find_exchange_rate(p_from, p_to, p_date);
+  IF v_rate IS NOT NULL THEN
+    RETURN v_rate;
+  END IF;
+
+  SELECT reporting_currency INTO v_pivot FROM public.currency_settings LIMIT 1;
+  IF v_pivot IS NULL OR v_pivot IN (p_from, p_to) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN public.find_exchange_rate(p_from, v_pivot, p_date) * public.find_exchange_rate(v_pivot, p_to, p_date);
+END;
+$$;
+
+-- Won deals close on the contract signature date, or the day they were marked Won
+CREATE OR REPLACE FUNCTION public.lock_deal_exchange_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reporting TEXT;
+  v_is_won BOOLEAN;
+  v_close_date DATE;
+BEGIN
+  SELECT COALESCE(is_won_stage, false) INTO v_is_won FROM public.pipeline_stages WHERE stage_name = NEW.stage;
+
+  IF NOT COALESCE(v_is_won, false) THEN
+    NEW.locked_exchange_rate := NULL;
+    NEW.locked_rate_currency := NULL;
+    NEW.locked_rate_date := NULL;
+    RETURN NEW;
+  END IF;
+
+  v_close_date := COALESCE(NEW.signed_contract_date, CASE WHEN TG_OP = 'UPDATE' THEN OLD.locked_rate_date END, CURRENT_DATE);
+
+  IF TG_OP = 'UPDATE'
+    AND OLD.locked_exchange_rate IS NOT NULL
+    AND NEW.currency_type IS NOT DISTINCT FROM OLD.currency_type
+    AND v_close_date = OLD.locked_rate_date THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT reporting_currency INTO v_reporting FROM public.currency_settings LIMIT 1;
+  v_reporting := COALESCE(v_reporting, 'EUR');
+
+  NEW.locked_exchange_rate := public.get_exchange_rate(COALESCE(NEW.currency_type, v_reporting), v_reporting, v_close_date);
+  -- Without a rate the deal converts at current rates until one is entered
+  NEW.locked_rate_currency := CASE WHEN NEW.locked_exchange_rate IS NOT NULL THEN v_reporting END;
+  NEW.locked_rate_date := CASE WHEN NEW.locked_exchange_rate IS NOT NULL THEN v_close_date END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_deal_exchange_rate
+BEFORE INSERT OR UPDATE OF stage, currency_type, signed_contract_date ON public.deals
+FOR EACH ROW
+EXECUTE FUNCTION public.lock_deal_exchange_rate();
+
+-- New rates lock Won deals that had none available when they closed
+CREATE OR REPLACE FUNCTION public.lock_missing_deal_exchange_rates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Touching stage re-runs lock_deal_exchange_rate for the deal
+  UPDATE public.deals d
+  SET stage = d.stage
+  FROM public.pipeline_stages s
+  WHERE s.stage_name = d.stage AND s.is_won_stage AND d.locked_exchange_rate IS NULL;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER lock_missing_deal_exchange_rates
+AFTER INSERT ON public.exchange_rates
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.lock_missing_deal_exchange_rates();
+
+-- Lock the deals that are already won
+UPDATE public.deals d
+SET stage = d.stage
+FROM public.pipeline_stages s
+WHERE s.stage_name = d.stage AND s.is_won_stage;
@@ -0,0 +1,149 @@
+-- Revenue forecasting: a forecast category per deal, revenue targets per owner/region by quarter
+-- or month, and weekly snapshots of the forecast so changes can be tracked over time
+
+-- NULL derives the category from the deal probability (see deal_forecast_category)
+ALTER TABLE public.deals
+  ADD COLUMN forecast_category TEXT CHECK (forecast_category IN ('commit', 'best_case', 'pipeline', 'omitted'));
+
+-- Targets are in the reporting currency. An empty owner or region is the target for everyone.
+CREATE TABLE public.revenue_targets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  year INTEGER NOT NULL,
+  period_type TEXT NOT NULL CHECK (period_type IN ('quarter', 'month')),
+  period INTEGER NOT NULL CHECK (period BETWEEN 1 AND 12),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  region TEXT,
+  target NUMERIC NOT NULL DEFAULT 0 CHECK (target >= 0),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (period_type = 'month' OR period <= 4),
+  UNIQUE NULLS NOT DISTINCT (year, period_type, period, owner_id, region)
+);
+
+-- One row per snapshot date, close month, owner, region and category
+CREATE TABLE public.forecast_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  snapshot_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  period_start DATE NOT NULL,
+  owner_id UUID,
+  region TEXT,
+  category TEXT NOT NULL CHECK (category IN ('closed', 'commit', 'best_case', 'pipeline')),
+  deal_count INTEGER NOT NULL DEFAULT 0,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  weighted_amount NUMERIC NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_forecast_snapshots_period ON public.forecast_snapshots(period_start, snapshot_date);
+
+ALTER TABLE public.revenue_targets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forecast_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view revenue targets"
+ON public.revenue_targets FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage revenue targets"
+ON public.revenue_targets FOR ALL USING (is_user_admin());
+
+CREATE POLICY "Authenticated users can view forecast snapshots"
+ON public.forecast_snapshots FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage forecast snapshots"
+ON public.forecast_snapshots FOR ALL USING (is_user_admin());
+
+CREATE TRIGGER update_revenue_targets_updated_at
+BEFORE UPDATE ON public.revenue_targets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Same thresholds as getDealForecastCategory in src/utils/forecast.ts
+CREATE OR REPLACE FUNCTION public.deal_forecast_category(p_category TEXT, p_probability NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_category, CASE
+    WHEN p_probability >= 80 THEN 'commit'
+    WHEN p_probability >= 50 THEN 'best_case'
+    ELSE 'pipeline'
+  END);
+$$;
+
+-- deals.lead_owner holds a user id when picked from the list view and a name when typed in the
+-- deal form; deals without a known owner belong to their creator
+CREATE OR REPLACE FUNCTION public.deal_owner_id(p_lead_owner TEXT, p_created_by UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_lead_owner ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN p_lead_owner::uuid
+    ELSE COALESCE((SELECT id FROM public.profiles WHERE full_name = p_lead_owner LIMIT 1), p_created_by)
+  END;
+$$;
+
+-- Replaces today's snapshot with the current forecast; returns the number of rows written
+CREATE OR REPLACE FUNCTION public.take_forecast_snapshot()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reporting TEXT;
+  v_count INTEGER;
+BEGIN
+  -- The cron job runs without a user
+  IF auth.uid() IS NOT NULL AND NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can take forecast snapshots';
+  END IF;
+
+  SELECT reporting_currency INTO v_reporting FROM public.currency_settings LIMIT 1;
+  v_reporting := COALESCE(v_reporting, 'EUR');
+
+  DELETE FROM public.forecast_snapshots WHERE snapshot_date = CURRENT_DATE;
+
+  INSERT INTO public.forecast_snapshots
+    (snapshot_date, period_start, owner_id, region, category, deal_count, amount, weighted_amount, currency)
+  SELECT CURRENT_DATE, date_trunc('month', f.close_date)::date, f.owner_id, f.region, f.category,
+    COUNT(*), COALESCE(SUM(f.amount), 0), COALESCE(SUM(f.amount * f.probability / 100), 0), v_reporting
+  FROM (
+    SELECT
+      public.deal_owner_id(d.lead_owner, d.created_by) AS owner_id,
+      NULLIF(trim(d.region), '') AS region,
+      CASE WHEN s.is_won_stage THEN 'closed'
+        ELSE public.deal_forecast_category(d.forecast_category, COALESCE(d.probability, s.stage_probability, 0))
+      END AS category,
+      CASE WHEN s.is_won_stage THEN COALESCE(d.signed_contract_date, d.locked_rate_date, d.expected_closing_date::date)
+        ELSE d.expected_closing_date::date
+      END AS close_date,
+      CASE WHEN s.is_won_stage THEN 100 ELSE COALESCE(d.probability, s.stage_probability, 0) END AS probability,
+      CASE WHEN s.is_won_stage THEN COALESCE(NULLIF(d.total_revenue, 0), d.total_contract_value, 0)
+        ELSE COALESCE(d.total_contract_value, 0)
+      END * CASE WHEN d.locked_rate_currency = v_reporting THEN d.locked_exchange_rate
+        ELSE public.get_exchange_rate(COALESCE(d.currency_type, v_reporting), v_reporting, CURRENT_DATE)
+      END AS amount
+    FROM public.deals d
+    LEFT JOIN public.pipeline_stages s ON s.stage_name = d.stage
+    WHERE NOT COALESCE(s.is_lost_stage, false)
+  ) f
+  WHERE f.close_date IS NOT NULL AND f.category <> 'omitted'
+  GROUP BY date_trunc('month', f.close_date), f.owner_id, f.region, f.category;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+SELECT cron.schedule(
+  'weekly-forecast-snapshot',
+  '0 5 * * 1',
+  $$ SELECT public.take_forecast_snapshot(); $$
+);
+
+INSERT INTO public.page_permissions (page_name, description, route, admin_access, manager_access, user_access) VALUES
+('Forecast', 'Revenue forecast against targets', '/forecast', true, true, true)
+ON CONFLICT (route) DO NOTHING;
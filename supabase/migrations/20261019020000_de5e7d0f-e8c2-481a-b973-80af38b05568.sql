@@ -0,0 +1,186 @@
+-- Products, price books, deal line items that roll up into the contract value, and versioned
+-- quote documents generated from a deal
+
+CREATE TABLE public.products (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  sku TEXT UNIQUE,
+  description TEXT,
+  unit TEXT NOT NULL DEFAULT 'unit',
+  -- Default tax rate in percent, copied onto new line items
+  tax_rate NUMERIC NOT NULL DEFAULT 0 CHECK (tax_rate BETWEEN 0 AND 100),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A price list in one currency; deals use the book matching their currency, else the default one
+CREATE TABLE public.price_books (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'EUR' CHECK (currency ~ '^[A-Z]{3}$'),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_price_books_single_default ON public.price_books(is_default) WHERE is_default;
+
+CREATE TABLE public.price_book_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  price_book_id UUID NOT NULL REFERENCES public.price_books(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  unit_price NUMERIC NOT NULL CHECK (unit_price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (price_book_id, product_id)
+);
+
+-- Name, price and tax are copied from the catalog so later catalog changes don't alter the deal
+CREATE TABLE public.deal_line_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  quantity NUMERIC NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price NUMERIC NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  discount_percent NUMERIC NOT NULL DEFAULT 0 CHECK (discount_percent BETWEEN 0 AND 100),
+  tax_rate NUMERIC NOT NULL DEFAULT 0 CHECK (tax_rate BETWEEN 0 AND 100),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_deal_line_items_deal ON public.deal_line_items(deal_id, position);
+
+-- Each generated quote is a new version; line_items keeps what the PDF showed
+CREATE TABLE public.deal_quotes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  quote_number TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  subtotal NUMERIC NOT NULL DEFAULT 0,
+  discount_total NUMERIC NOT NULL DEFAULT 0,
+  tax_total NUMERIC NOT NULL DEFAULT 0,
+  total NUMERIC NOT NULL DEFAULT 0,
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  valid_until DATE,
+  file_path TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (deal_id, version)
+);
+
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_book_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deal_line_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deal_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view products"
+ON public.products FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage products"
+ON public.products FOR ALL USING (is_user_admin());
+
+CREATE POLICY "Authenticated users can view price books"
+ON public.price_books FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage price books"
+ON public.price_books FOR ALL USING (is_user_admin());
+
+CREATE POLICY "Authenticated users can view price book entries"
+ON public.price_book_entries FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage price book entries"
+ON public.price_book_entries FOR ALL USING (is_user_admin());
+
+-- Line items and quotes follow the visibility of their deal
+CREATE POLICY "Users can manage line items of visible deals"
+ON public.deal_line_items FOR ALL TO authenticated
+USING (EXISTS (SELECT 1 FROM public.deals d WHERE d.id = deal_id))
+WITH CHECK (EXISTS (SELECT 1 FROM public.deals d WHERE d.id = deal_id));
+
+CREATE POLICY "Users can manage quotes of visible deals"
+ON public.deal_quotes FOR ALL TO authenticated
+USING (EXISTS (SELECT 1 FROM public.deals d WHERE d.id = deal_id))
+WITH CHECK (EXISTS (SELECT 1 FROM public.deals d WHERE d.id = deal_id));
+
+CREATE TRIGGER update_products_updated_at
+BEFORE UPDATE ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_price_books_updated_at
+BEFORE UPDATE ON public.price_books
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_price_book_entries_updated_at
+BEFORE UPDATE ON public.price_book_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_deal_line_items_updated_at
+BEFORE UPDATE ON public.deal_line_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The contract value is the net (discounted, pre-tax) sum of the line items. Deals without line
+-- items keep their manually entered value, including after their last item is removed.
+CREATE OR REPLACE FUNCTION public.roll_up_deal_line_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deal_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.deal_id ELSE NEW.deal_id END;
+  v_total NUMERIC;
+BEGIN
+  SELECT SUM(quantity * unit_price * (1 - discount_percent / 100)) INTO v_total
+  FROM public.deal_line_items
+  WHERE deal_id = v_deal_id;
+
+  IF v_total IS NOT NULL THEN
+    UPDATE public.deals
+    SET total_contract_value = round(v_total, 2)
+    WHERE id = v_deal_id AND total_contract_value IS DISTINCT FROM round(v_total, 2);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER roll_up_deal_line_items
+AFTER INSERT OR UPDATE OR DELETE ON public.deal_line_items
+FOR EACH ROW
+EXECUTE FUNCTION public.roll_up_deal_line_items();
+
+-- Quote PDFs live under <deal id>/ in a private bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('quotes', 'quotes', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users can upload quotes"
+ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'quotes');
+
+CREATE POLICY "Authenticated users can view quotes"
+ON storage.objects
+FOR SELECT TO authenticated
+USING (bucket_id = 'quotes');
+
+CREATE POLICY "Authenticated users can delete quotes"
+ON storage.objects
+FOR DELETE TO authenticated
+USING (bucket_id = 'quotes');
+
+INSERT INTO public.price_books (name, currency, is_default) VALUES ('Standard', 'EUR', true);
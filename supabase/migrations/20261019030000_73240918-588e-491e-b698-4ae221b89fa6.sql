@@ -0,0 +1,137 @@
+-- Stage gates and transition history: each stage can limit which stages deals may move to next,
+-- and every stage change is logged so time in stage, velocity and conversion can be reported
+
+-- NULL or empty allows moving to any stage
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN allowed_next_stages TEXT[];
+
+CREATE TABLE public.deal_stage_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  -- NULL when the deal was created in to_stage
+  from_stage TEXT,
+  to_stage TEXT NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- How long the deal sat in from_stage before this change
+  seconds_in_from_stage NUMERIC
+);
+
+CREATE INDEX idx_deal_stage_history_deal ON public.deal_stage_history(deal_id, changed_at);
+CREATE INDEX idx_deal_stage_history_changed_at ON public.deal_stage_history(changed_at);
+
+ALTER TABLE public.deal_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the deals trigger
+CREATE POLICY "Users can view stage history of visible deals"
+ON public.deal_stage_history FOR SELECT TO authenticated
+USING (EXISTS (SELECT 1 FROM public.deals d WHERE d.id = deal_id));
+
+-- Adds the allowed-transition check to the existing stage validation. Admins are exempt so
+-- they can still bulk-reassign deals when a stage is deactivated or deleted.
+CREATE OR REPLACE FUNCTION public.validate_deal_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_active BOOLEAN;
+  v_allowed TEXT[];
+BEGIN
+  SELECT is_active INTO v_is_active
+  FROM public.pipeline_stages
+  WHERE stage_name = NEW.stage;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid deal stage: %', NEW.stage;
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.stage IS DISTINCT FROM OLD.stage) AND v_is_active = false THEN
+    RAISE EXCEPTION 'Deal stage "%" is inactive', NEW.stage;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.stage IS DISTINCT FROM OLD.stage AND auth.uid() IS NOT NULL AND NOT is_user_admin() THEN
+    SELECT allowed_next_stages INTO v_allowed
+    FROM public.pipeline_stages
+    WHERE stage_name = OLD.stage;
+
+    IF COALESCE(array_length(v_allowed, 1), 0) > 0 AND NOT NEW.stage = ANY(v_allowed) THEN
+      RAISE EXCEPTION 'Deals in "%" cannot move to "%"', OLD.stage, NEW.stage;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_deal_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entered_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.deal_stage_history (deal_id, from_stage, to_stage, changed_at, changed_by)
+    VALUES (NEW.id, NULL, NEW.stage, COALESCE(NEW.created_at, now()), auth.uid());
+    RETURN NEW;
+  END IF;
+
+  IF NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    RETURN NEW;
+  END IF;
+
+  -- A renamed stage carries its deals along; that is not a move
+  IF NOT EXISTS (SELECT 1 FROM public.pipeline_stages WHERE stage_name = OLD.stage) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT MAX(changed_at) INTO v_entered_at
+  FROM public.deal_stage_history
+  WHERE deal_id = NEW.id;
+
+  INSERT INTO public.deal_stage_history (deal_id, from_stage, to_stage, changed_by, seconds_in_from_stage)
+  VALUES (
+    NEW.id, OLD.stage, NEW.stage, auth.uid(),
+    EXTRACT(EPOCH FROM now() - COALESCE(v_entered_at, OLD.created_at, now()))
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_deal_stage_change_trigger
+AFTER INSERT OR UPDATE OF stage ON public.deals
+FOR EACH ROW
+EXECUTE FUNCTION public.log_deal_stage_change();
+
+-- Renames also apply to the allowed transitions and the history
+CREATE OR REPLACE FUNCTION public.cascade_pipeline_stage_rename()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage_name IS DISTINCT FROM OLD.stage_name THEN
+    UPDATE public.deals
+    SET stage = NEW.stage_name, modified_at = now()
+    WHERE stage = OLD.stage_name;
+
+    UPDATE public.pipeline_stages
+    SET allowed_next_stages = array_replace(allowed_next_stages, OLD.stage_name, NEW.stage_name)
+    WHERE OLD.stage_name = ANY(allowed_next_stages);
+
+    UPDATE public.deal_stage_history SET from_stage = NEW.stage_name WHERE from_stage = OLD.stage_name;
+    UPDATE public.deal_stage_history SET to_stage = NEW.stage_name WHERE to_stage = OLD.stage_name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Existing deals start their history in their current stage
+INSERT INTO public.deal_stage_history (deal_id, from_stage, to_stage, changed_at, changed_by)
+SELECT id, NULL, stage, COALESCE(modified_at, created_at, now()), created_by
+FROM public.deals;
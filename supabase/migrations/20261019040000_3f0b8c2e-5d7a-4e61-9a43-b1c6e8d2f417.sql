@@ -0,0 +1,57 @@
+-- Import jobs: one row per file import with the outcome of every row, so failed rows can be
+-- downloaded, fixed and re-imported, and a whole import can be rolled back
+
+CREATE TABLE public.import_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('deals', 'leads', 'contacts', 'accounts')),
+  file_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed', 'rolled_back')),
+  -- Column order of the imported file, used to rebuild failed rows for the error report
+  headers TEXT[] NOT NULL DEFAULT '{}',
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  inserted_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  rolled_back_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE public.import_job_rows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.import_jobs(id) ON DELETE CASCADE,
+  -- 1-based line in the file, counting the header row
+  row_number INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('inserted', 'updated', 'failed')),
+  record_id UUID,
+  message TEXT,
+  -- The row as read from the file, kept for failed rows only
+  row_data JSONB,
+  -- The record before an update, restored on rollback
+  previous_data JSONB
+);
+
+CREATE INDEX idx_import_jobs_entity ON public.import_jobs(entity_type, created_at DESC);
+CREATE INDEX idx_import_job_rows_job ON public.import_job_rows(job_id, row_number);
+
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_job_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import jobs, admins can view all"
+ON public.import_jobs FOR SELECT USING (is_user_admin() OR created_by = auth.uid());
+
+CREATE POLICY "Users can create import jobs"
+ON public.import_jobs FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update their own import jobs, admins can update all"
+ON public.import_jobs FOR UPDATE USING (is_user_admin() OR created_by = auth.uid());
+
+CREATE POLICY "Users can view rows of visible import jobs"
+ON public.import_job_rows FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.import_jobs j WHERE j.id = job_id));
+
+CREATE POLICY "Users can record rows of their own import jobs"
+ON public.import_job_rows FOR INSERT
+WITH CHECK (EXISTS (SELECT 1 FROM public.import_jobs j WHERE j.id = job_id AND j.created_by = auth.uid()));
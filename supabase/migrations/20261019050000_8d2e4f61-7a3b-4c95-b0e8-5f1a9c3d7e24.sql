@@ -0,0 +1,10 @@
+-- Import modes: rows can be skipped (an existing record in create mode, no match in update mode),
+-- and the match key, mode and per-field merge policies are saved with the user's mapping profile
+
+ALTER TABLE public.import_job_rows DROP CONSTRAINT IF EXISTS import_job_rows_status_check;
+ALTER TABLE public.import_job_rows ADD CONSTRAINT import_job_rows_status_check
+  CHECK (status IN ('inserted', 'updated', 'skipped', 'failed'));
+
+ALTER TABLE public.import_jobs ADD COLUMN skipped_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.import_export_settings ADD COLUMN match_options JSONB;
@@ -0,0 +1,20 @@
+-- Enrollments point at the step they send next, so reordering or removing earlier steps
+-- of a running sequence neither skips nor repeats a step. When that step is deleted the
+-- processor falls back to the step now at the same position.
+ALTER TABLE public.email_sequence_enrollments
+  ADD COLUMN next_step_id UUID REFERENCES public.email_sequence_steps(id) ON DELETE SET NULL;
+
+UPDATE public.email_sequence_enrollments e
+SET next_step_id = s.id
+FROM (
+  SELECT id, sequence_id, row_number() OVER (PARTITION BY sequence_id ORDER BY step_order) - 1 AS position
+  FROM public.email_sequence_steps
+) s
+WHERE s.sequence_id = e.sequence_id
+  AND s.position = e.current_step
+  AND e.status IN ('active', 'paused');
+
+-- A step that was sent but could not be recorded is not retried, since that would send it twice
+ALTER TABLE public.email_sequence_enrollments DROP CONSTRAINT IF EXISTS email_sequence_enrollments_status_check;
+ALTER TABLE public.email_sequence_enrollments ADD CONSTRAINT email_sequence_enrollments_status_check
+  CHECK (status IN ('active', 'paused', 'completed', 'stopped', 'failed'));
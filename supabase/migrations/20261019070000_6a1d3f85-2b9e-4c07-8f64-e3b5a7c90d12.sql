@@ -0,0 +1,4 @@
+-- A rollback that could not undo every record leaves the job rollback_partial, so it can be run again
+ALTER TABLE public.import_jobs DROP CONSTRAINT IF EXISTS import_jobs_status_check;
+ALTER TABLE public.import_jobs ADD CONSTRAINT import_jobs_status_check
+  CHECK (status IN ('running', 'completed', 'failed', 'rolled_back', 'rollback_partial'));
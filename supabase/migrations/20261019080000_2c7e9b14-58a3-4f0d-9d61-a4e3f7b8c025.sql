@@ -0,0 +1,29 @@
+-- Stage changes since a given time for the deals a user owns, for the weekly digest. Ownership is
+-- resolved with deal_owner_id, the same as the forecast, since lead_owner mostly holds a name.
+-- The rows seeded for existing deals when stage history was added are left out: they record a
+-- deal's stage at that point, not its creation or a move.
+CREATE OR REPLACE FUNCTION public.get_owner_stage_changes(p_owner_id UUID, p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  deal_id UUID,
+  from_stage TEXT,
+  to_stage TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE,
+  deal_name TEXT,
+  stage TEXT,
+  total_contract_value NUMERIC,
+  currency_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT h.deal_id, h.from_stage, h.to_stage, h.changed_at,
+    d.deal_name, d.stage, d.total_contract_value, d.currency_type, d.created_at
+  FROM public.deal_stage_history h
+  JOIN public.deals d ON d.id = h.deal_id
+  WHERE h.changed_at >= p_since
+    AND public.deal_owner_id(d.lead_owner, d.created_by) = p_owner_id
+    AND (h.from_stage IS NOT NULL OR h.changed_at = d.created_at)
+  ORDER BY h.changed_at, h.id;
+$$;
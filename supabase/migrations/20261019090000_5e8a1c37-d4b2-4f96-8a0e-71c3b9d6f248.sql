@@ -0,0 +1,42 @@
+-- Quote PDFs follow the visibility of their deal, like deal_quotes: the first folder of the
+-- object path is the deal id
+DROP POLICY IF EXISTS "Authenticated users can upload quotes" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can view quotes" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete quotes" ON storage.objects;
+
+CREATE POLICY "Users can upload quotes of visible deals"
+ON storage.objects
+FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'quotes'
+  AND EXISTS (SELECT 1 FROM public.deals d WHERE d.id::text = (storage.foldername(name))[1])
+);
+
+CREATE POLICY "Users can view quotes of visible deals"
+ON storage.objects
+FOR SELECT TO authenticated
+USING (
+  bucket_id = 'quotes'
+  AND EXISTS (SELECT 1 FROM public.deals d WHERE d.id::text = (storage.foldername(name))[1])
+);
+
+-- Uploads overwrite an existing file of the same quote number
+CREATE POLICY "Users can update quotes of visible deals"
+ON storage.objects
+FOR UPDATE TO authenticated
+USING (
+  bucket_id = 'quotes'
+  AND EXISTS (SELECT 1 FROM public.deals d WHERE d.id::text = (storage.foldername(name))[1])
+)
+WITH CHECK (
+  bucket_id = 'quotes'
+  AND EXISTS (SELECT 1 FROM public.deals d WHERE d.id::text = (storage.foldername(name))[1])
+);
+
+CREATE POLICY "Users can delete quotes of visible deals"
+ON storage.objects
+FOR DELETE TO authenticated
+USING (
+  bucket_id = 'quotes'
+  AND EXISTS (SELECT 1 FROM public.deals d WHERE d.id::text = (storage.foldername(name))[1])
+);
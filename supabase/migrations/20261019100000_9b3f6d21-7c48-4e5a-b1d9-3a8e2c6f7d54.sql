@@ -0,0 +1,6 @@
+-- Stages in which quotes can be generated for a deal, so renaming or replacing the seeded
+-- RFQ and Offered stages keeps quoting available
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN is_quote_stage BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.pipeline_stages SET is_quote_stage = true WHERE stage_name IN ('RFQ', 'Offered');
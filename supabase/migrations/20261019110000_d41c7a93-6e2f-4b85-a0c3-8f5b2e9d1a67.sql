@@ -0,0 +1,44 @@
+-- Explicit stage attributes for behaviour that used to depend on stage names: which open stages
+-- count toward projected revenue, and which lost stages record a drop reason rather than a lost reason
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN is_projected_stage BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN is_dropped_stage BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.pipeline_stages SET is_projected_stage = true WHERE stage_name = 'RFQ';
+UPDATE public.pipeline_stages SET is_dropped_stage = true WHERE stage_name = 'Dropped';
+
+-- Moves a stage's deals to another stage and deactivates or deletes it in one transaction, so a
+-- failure never leaves the deals moved and the stage still in place
+CREATE OR REPLACE FUNCTION public.retire_pipeline_stage(p_stage_id UUID, p_to_stage TEXT, p_delete BOOLEAN DEFAULT false)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage_name TEXT;
+  v_count INTEGER;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only administrators can reassign deal stages';
+  END IF;
+
+  SELECT stage_name INTO v_stage_name
+  FROM public.pipeline_stages
+  WHERE id = p_stage_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stage % does not exist', p_stage_id;
+  END IF;
+
+  v_count := public.reassign_deals_stage(v_stage_name, p_to_stage);
+
+  IF p_delete THEN
+    DELETE FROM public.pipeline_stages WHERE id = p_stage_id;
+  ELSE
+    UPDATE public.pipeline_stages SET is_active = false WHERE id = p_stage_id;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;